@@ -0,0 +1,3 @@
+-- Register to journal tie-out grouped by department / cost centre
+ALTER TYPE "CheckType" ADD VALUE IF NOT EXISTS 'CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE_BY_GROUP';
+ALTER TYPE "CheckType" ADD VALUE IF NOT EXISTS 'CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY_BY_GROUP';
@@ -0,0 +1,137 @@
+-- Normalized datasets: mapped import rows stored against the internal schema
+-- CreateTable
+CREATE TABLE "NormalizedDataset" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "importId" UUID NOT NULL,
+    "sourceType" "SourceType" NOT NULL,
+    "mappingTemplateVersionId" UUID NOT NULL,
+    "headerRowIndex" INTEGER NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NormalizedDataset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RegisterLine" (
+    "id" UUID NOT NULL,
+    "datasetId" UUID NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "employeeRef" TEXT,
+    "employeeName" TEXT,
+    "department" TEXT,
+    "netPayCents" BIGINT,
+    "grossPayCents" BIGINT,
+    "tax1Cents" BIGINT,
+    "tax2Cents" BIGINT,
+    "tax3Cents" BIGINT,
+    "pensionEmployeeCents" BIGINT,
+    "pensionEmployerCents" BIGINT,
+    "otherDeductionsCents" BIGINT,
+    "rawValues" JSONB NOT NULL,
+
+    CONSTRAINT "RegisterLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankLine" (
+    "id" UUID NOT NULL,
+    "datasetId" UUID NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "payeeRef" TEXT,
+    "payeeName" TEXT,
+    "amountCents" BIGINT,
+    "reference" TEXT,
+    "rawValues" JSONB NOT NULL,
+
+    CONSTRAINT "BankLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GlLine" (
+    "id" UUID NOT NULL,
+    "datasetId" UUID NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "accountCode" TEXT NOT NULL,
+    "description" TEXT,
+    "costCentre" TEXT,
+    "debitCents" BIGINT,
+    "creditCents" BIGINT,
+    "rawValues" JSONB NOT NULL,
+
+    CONSTRAINT "GlLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StatutoryLine" (
+    "id" UUID NOT NULL,
+    "datasetId" UUID NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "category" TEXT NOT NULL,
+    "categoryKey" TEXT,
+    "amountCents" BIGINT,
+    "rawValues" JSONB NOT NULL,
+
+    CONSTRAINT "StatutoryLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PensionScheduleLine" (
+    "id" UUID NOT NULL,
+    "datasetId" UUID NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "employeeRef" TEXT,
+    "employeeName" TEXT,
+    "amountCents" BIGINT,
+    "pensionEmployeeCents" BIGINT,
+    "pensionEmployerCents" BIGINT,
+    "rawValues" JSONB NOT NULL,
+
+    CONSTRAINT "PensionScheduleLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NormalizedDataset_firmId_idx" ON "NormalizedDataset"("firmId");
+
+-- CreateIndex
+CREATE INDEX "NormalizedDataset_importId_idx" ON "NormalizedDataset"("importId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RegisterLine_datasetId_rowNumber_key" ON "RegisterLine"("datasetId", "rowNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankLine_datasetId_rowNumber_key" ON "BankLine"("datasetId", "rowNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GlLine_datasetId_rowNumber_key" ON "GlLine"("datasetId", "rowNumber");
+
+-- CreateIndex
+CREATE INDEX "GlLine_datasetId_accountCode_idx" ON "GlLine"("datasetId", "accountCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatutoryLine_datasetId_rowNumber_key" ON "StatutoryLine"("datasetId", "rowNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PensionScheduleLine_datasetId_rowNumber_key" ON "PensionScheduleLine"("datasetId", "rowNumber");
+
+-- AddForeignKey
+ALTER TABLE "NormalizedDataset" ADD CONSTRAINT "NormalizedDataset_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NormalizedDataset" ADD CONSTRAINT "NormalizedDataset_importId_fkey" FOREIGN KEY ("importId") REFERENCES "Import"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegisterLine" ADD CONSTRAINT "RegisterLine_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "NormalizedDataset"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankLine" ADD CONSTRAINT "BankLine_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "NormalizedDataset"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GlLine" ADD CONSTRAINT "GlLine_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "NormalizedDataset"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatutoryLine" ADD CONSTRAINT "StatutoryLine_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "NormalizedDataset"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PensionScheduleLine" ADD CONSTRAINT "PensionScheduleLine_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "NormalizedDataset"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
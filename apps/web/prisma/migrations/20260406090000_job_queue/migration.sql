@@ -0,0 +1,52 @@
+-- Job queue: background import parsing, reconciliation runs and pack generation
+-- CreateEnum
+CREATE TYPE "JobName" AS ENUM ('IMPORT_PARSE', 'RECONCILIATION_RUN', 'PACK_GENERATE');
+
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "Job" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "name" "JobName" NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "payRunId" UUID,
+    "importId" UUID,
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastErrorName" TEXT,
+    "lastErrorMessage" TEXT,
+    "createdByUserId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Job_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Job_status_runAt_idx" ON "Job"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "Job_firmId_payRunId_idx" ON "Job"("firmId", "payRunId");
+
+-- CreateIndex
+CREATE INDEX "Job_importId_idx" ON "Job"("importId");
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_payRunId_fkey" FOREIGN KEY ("payRunId") REFERENCES "PayRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_importId_fkey" FOREIGN KEY ("importId") REFERENCES "Import"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- Exception fingerprints: carry decisions forward to the matching exception in superseding runs
+-- AlterTable
+ALTER TABLE "Exception" ADD COLUMN "fingerprint" TEXT,
+ADD COLUMN "previousExceptionId" UUID;
+
+-- CreateIndex
+CREATE INDEX "Exception_payRunId_fingerprint_idx" ON "Exception"("payRunId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "Exception_previousExceptionId_idx" ON "Exception"("previousExceptionId");
+
+-- AddForeignKey
+ALTER TABLE "Exception" ADD CONSTRAINT "Exception_previousExceptionId_fkey" FOREIGN KEY ("previousExceptionId") REFERENCES "Exception"("id") ON DELETE SET NULL ON UPDATE CASCADE;
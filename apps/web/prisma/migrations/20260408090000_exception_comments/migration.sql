@@ -0,0 +1,63 @@
+-- Exception comments: threaded discussion with @mentions of firm users
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'EXCEPTION_COMMENTED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'EXCEPTION_USER_MENTIONED';
+
+-- CreateTable
+CREATE TABLE "ExceptionComment" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "exceptionId" UUID NOT NULL,
+    "parentCommentId" UUID,
+    "authorUserId" UUID NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExceptionComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExceptionCommentMention" (
+    "id" UUID NOT NULL,
+    "commentId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExceptionCommentMention_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExceptionComment_firmId_idx" ON "ExceptionComment"("firmId");
+
+-- CreateIndex
+CREATE INDEX "ExceptionComment_exceptionId_createdAt_idx" ON "ExceptionComment"("exceptionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExceptionComment_parentCommentId_idx" ON "ExceptionComment"("parentCommentId");
+
+-- CreateIndex
+CREATE INDEX "ExceptionComment_authorUserId_idx" ON "ExceptionComment"("authorUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExceptionCommentMention_commentId_userId_key" ON "ExceptionCommentMention"("commentId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ExceptionCommentMention_userId_idx" ON "ExceptionCommentMention"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ExceptionComment" ADD CONSTRAINT "ExceptionComment_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExceptionComment" ADD CONSTRAINT "ExceptionComment_exceptionId_fkey" FOREIGN KEY ("exceptionId") REFERENCES "Exception"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExceptionComment" ADD CONSTRAINT "ExceptionComment_parentCommentId_fkey" FOREIGN KEY ("parentCommentId") REFERENCES "ExceptionComment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExceptionComment" ADD CONSTRAINT "ExceptionComment_authorUserId_fkey" FOREIGN KEY ("authorUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExceptionCommentMention" ADD CONSTRAINT "ExceptionCommentMention_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "ExceptionComment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExceptionCommentMention" ADD CONSTRAINT "ExceptionCommentMention_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- Exception attachments: hashed evidence files replace the single resolution attachment URI
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'EXCEPTION_ATTACHMENT_ADDED';
+
+-- CreateTable
+CREATE TABLE "ExceptionAttachment" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "exceptionId" UUID NOT NULL,
+    "storageUri" TEXT NOT NULL,
+    "fileHashSha256" TEXT,
+    "originalFilename" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "sizeBytes" INTEGER,
+    "uploadedByUserId" UUID NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExceptionAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExceptionAttachment_exceptionId_fileHashSha256_key" ON "ExceptionAttachment"("exceptionId", "fileHashSha256");
+
+-- CreateIndex
+CREATE INDEX "ExceptionAttachment_firmId_idx" ON "ExceptionAttachment"("firmId");
+
+-- CreateIndex
+CREATE INDEX "ExceptionAttachment_uploadedByUserId_idx" ON "ExceptionAttachment"("uploadedByUserId");
+
+-- AddForeignKey
+ALTER TABLE "ExceptionAttachment" ADD CONSTRAINT "ExceptionAttachment_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExceptionAttachment" ADD CONSTRAINT "ExceptionAttachment_exceptionId_fkey" FOREIGN KEY ("exceptionId") REFERENCES "Exception"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExceptionAttachment" ADD CONSTRAINT "ExceptionAttachment_uploadedByUserId_fkey" FOREIGN KEY ("uploadedByUserId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: each existing resolution attachment URI becomes an attachment row. The
+-- files were never hashed or sized, so those columns stay null.
+INSERT INTO "ExceptionAttachment" ("id", "firmId", "exceptionId", "storageUri", "originalFilename", "mimeType", "uploadedByUserId", "uploadedAt")
+SELECT
+    gen_random_uuid(),
+    e."firmId",
+    e."id",
+    e."resolutionAttachmentUri",
+    COALESCE(NULLIF(regexp_replace(e."resolutionAttachmentUri", '^.*/', ''), ''), 'attachment'),
+    'application/octet-stream',
+    COALESCE(
+        e."resolvedByUserId",
+        e."assignedToUserId",
+        (SELECT u."id" FROM "User" u WHERE u."firmId" = e."firmId" ORDER BY u."createdAt" LIMIT 1)
+    ),
+    COALESCE(e."resolvedAt", e."updatedAt")
+FROM "Exception" e
+WHERE e."resolutionAttachmentUri" IS NOT NULL AND e."resolutionAttachmentUri" <> '';
+
+-- AlterTable
+ALTER TABLE "Exception" DROP COLUMN "resolutionAttachmentUri";
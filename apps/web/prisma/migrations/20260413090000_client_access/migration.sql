@@ -0,0 +1,36 @@
+-- Client access: restrict users to assigned clients
+-- CreateEnum
+CREATE TYPE "ClientAccess" AS ENUM ('ALL', 'ASSIGNED');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'USER_CLIENT_ACCESS_CHANGED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'CLIENT_ACCESS_DENIED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "clientAccess" "ClientAccess" NOT NULL DEFAULT 'ALL';
+
+-- CreateTable
+CREATE TABLE "ClientAssignment" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "clientId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClientAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClientAssignment_clientId_userId_key" ON "ClientAssignment"("clientId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ClientAssignment_firmId_userId_idx" ON "ClientAssignment"("firmId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ClientAssignment" ADD CONSTRAINT "ClientAssignment_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientAssignment" ADD CONSTRAINT "ClientAssignment_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientAssignment" ADD CONSTRAINT "ClientAssignment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
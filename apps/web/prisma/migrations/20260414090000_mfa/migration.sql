@@ -0,0 +1,13 @@
+-- TOTP multi-factor authentication
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'MFA_ENROLLED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'MFA_RESET';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'MFA_RECOVERY_CODES_REGENERATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'MFA_RECOVERY_CODE_USED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'MFA_SETTINGS_UPDATED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "mfaSecret" TEXT,
+ADD COLUMN "mfaEnabledAt" TIMESTAMP(3),
+ADD COLUMN "mfaLastUsedStep" INTEGER,
+ADD COLUMN "mfaRecoveryCodeHashes" TEXT[];
@@ -0,0 +1,37 @@
+-- Per-firm OIDC single sign-on
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SSO_CONFIG_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SSO_USER_PROVISIONED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SSO_LOGIN_DENIED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "oidcSubject" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_firmId_oidcSubject_key" ON "User"("firmId", "oidcSubject");
+
+-- CreateTable
+CREATE TABLE "FirmSsoConfig" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "issuer" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientSecretEncrypted" TEXT NOT NULL,
+    "allowedDomains" TEXT[],
+    "groupsClaim" TEXT NOT NULL DEFAULT 'groups',
+    "groupRoleMappings" JSONB NOT NULL DEFAULT '[]',
+    "defaultRole" "Role",
+    "jitProvisioning" BOOLEAN NOT NULL DEFAULT true,
+    "passwordLoginDisabled" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FirmSsoConfig_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FirmSsoConfig_firmId_key" ON "FirmSsoConfig"("firmId");
+
+-- AddForeignKey
+ALTER TABLE "FirmSsoConfig" ADD CONSTRAINT "FirmSsoConfig_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
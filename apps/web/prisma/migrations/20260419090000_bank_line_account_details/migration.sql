@@ -0,0 +1,4 @@
+-- Payee bank details carried by BACS Standard 18 imports
+-- AlterTable
+ALTER TABLE "BankLine" ADD COLUMN "sortCode" TEXT;
+ALTER TABLE "BankLine" ADD COLUMN "accountNumber" TEXT;
@@ -0,0 +1,3 @@
+-- Track the API token read-audit window separately from lastUsedAt
+-- AlterTable
+ALTER TABLE "ApiToken" ADD COLUMN "lastReadAuditedAt" TIMESTAMP(3);
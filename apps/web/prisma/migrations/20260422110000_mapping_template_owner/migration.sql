@@ -0,0 +1,9 @@
+-- Hand draft templates to a new owner without rewriting who created them
+-- AlterTable
+ALTER TABLE "MappingTemplate" ADD COLUMN "ownerUserId" UUID;
+
+-- CreateIndex
+CREATE INDEX "MappingTemplate_ownerUserId_idx" ON "MappingTemplate"("ownerUserId");
+
+-- AddForeignKey
+ALTER TABLE "MappingTemplate" ADD CONSTRAINT "MappingTemplate_ownerUserId_fkey" FOREIGN KEY ("ownerUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
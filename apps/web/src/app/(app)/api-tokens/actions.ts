@@ -0,0 +1,60 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { createApiToken, parseApiTokenForm, revokeApiToken } from "@/lib/api-tokens";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import type { ApiTokenFormState } from "@/components/CreateApiTokenForm";
+
+const tokenIdSchema = z.object({
+  tokenId: z.string().uuid()
+});
+
+export const createPersonalApiTokenAction = async (
+  _prevState: ApiTokenFormState,
+  formData: FormData
+): Promise<ApiTokenFormState> => {
+  const { session, user } = await requireUser();
+
+  try {
+    const { token } = await createApiToken(
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions
+      },
+      parseApiTokenForm(formData, "PERSONAL")
+    );
+    revalidatePath("/api-tokens");
+    return { token };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+};
+
+export const revokeOwnApiTokenFromForm = async (formData: FormData) => {
+  const { session } = await requireUser();
+
+  const parsed = tokenIdSchema.safeParse({
+    tokenId: formData.get("tokenId")
+  });
+  if (!parsed.success) {
+    throw new ValidationError("Unable to revoke that token.");
+  }
+
+  try {
+    await revokeApiToken({ firmId: session.firmId, userId: session.userId }, parsed.data.tokenId, {
+      ownerUserId: session.userId
+    });
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+  }
+  revalidatePath("/api-tokens");
+};
@@ -0,0 +1,39 @@
+import { requireUser } from "@/lib/auth";
+import { apiTokenExpiryDays, grantableApiScopes, listApiTokens } from "@/lib/api-tokens";
+import { ApiTokenList } from "@/components/ApiTokenList";
+import { CreateApiTokenForm } from "@/components/CreateApiTokenForm";
+import { createPersonalApiTokenAction, revokeOwnApiTokenFromForm } from "./actions";
+
+export default async function ApiTokensPage() {
+  const { session, user } = await requireUser();
+  const tokens = await listApiTokens(session.firmId, { userId: user.id, kind: "PERSONAL" });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">API tokens</h1>
+        <p className="mt-2 text-sm text-slate">
+          Personal tokens let your own scripts call the Tally API as you, limited to the scopes
+          you choose. See the{" "}
+          <a className="font-semibold text-accent-strong" href="/api/v1/openapi.json">
+            API reference
+          </a>
+          .
+        </p>
+      </div>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">New token</h2>
+        <CreateApiTokenForm
+          action={createPersonalApiTokenAction}
+          scopes={grantableApiScopes(user)}
+          expiryDays={apiTokenExpiryDays}
+        />
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <ApiTokenList tokens={tokens} revokeAction={revokeOwnApiTokenFromForm} />
+      </section>
+    </div>
+  );
+}
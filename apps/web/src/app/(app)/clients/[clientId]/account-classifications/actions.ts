@@ -62,7 +62,13 @@ export const upsertAccountClassificationAction = async (
 
   try {
     await upsertAccountClassification(
-      { firmId: session.firmId, userId: session.userId, role: user.role },
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
+      },
       parsed.data.clientId,
       {
         accountCode: parsed.data.accountCode,
@@ -85,7 +91,13 @@ export const deleteAccountClassificationAction = async (formData: FormData) => {
     return;
   }
   await deleteAccountClassification(
-    { firmId: session.firmId, userId: session.userId, role: user.role },
+    {
+      firmId: session.firmId,
+      userId: session.userId,
+      role: user.role,
+      permissions: user.permissions,
+      clientIds: user.clientIds
+    },
     id
   );
   revalidatePath(`/clients/${clientId}/account-classifications`);
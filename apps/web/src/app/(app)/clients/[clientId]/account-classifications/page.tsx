@@ -3,6 +3,7 @@ import type { Route } from "next";
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
 import { AccountClassificationForm } from "./AccountClassificationForm";
 import { deleteAccountClassificationAction } from "./actions";
 
@@ -23,7 +24,7 @@ const classificationLabels: Record<string, string> = {
 export default async function AccountClassificationsPage({
   params
 }: AccountClassificationsPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const client = await prisma.client.findFirst({
     where: {
       id: params.clientId,
@@ -31,7 +32,13 @@ export default async function AccountClassificationsPage({
     }
   });
 
-  if (!client) {
+  if (
+    !client ||
+    !(await hasClientAccess(userClientScope(user), client.id, {
+      entityType: "CLIENT",
+      entityId: client.id
+    }))
+  ) {
     notFound();
   }
 
@@ -0,0 +1,95 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma, Prisma, type CheckSeverity } from "@/lib/prisma";
+import { requireUser } from "@/lib/auth";
+import { assertClientAccess, userClientScope } from "@/lib/client-access";
+import { recordAuditEvent } from "@/lib/audit";
+import { ValidationError, NotFoundError } from "@/lib/errors";
+import { requirePermission } from "@/lib/permissions";
+import {
+  getBundleConfig,
+  getCheckDefinition,
+  resolveClientCheckSettings
+} from "@/lib/check-registry";
+
+const severityOptions: CheckSeverity[] = ["INFO", "LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+export const updateClientChecksAction = async (formData: FormData) => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const clientId = String(formData.get("clientId") || "");
+  if (!clientId) {
+    throw new ValidationError("Client is required.");
+  }
+
+  const client = await prisma.client.findFirst({
+    where: { id: clientId, firmId: session.firmId },
+    include: { firm: true }
+  });
+  if (!client) {
+    throw new NotFoundError("Client not found.");
+  }
+  await assertClientAccess(userClientScope(user), client.id, {
+    entityType: "CLIENT",
+    entityId: client.id
+  });
+
+  // Only the region's bundle is on the form; settings for other checks are kept as they were.
+  const bundleChecks = getBundleConfig(client.firm.region).checks;
+  const inBundle = new Set(bundleChecks.map((definition) => definition.checkType));
+  const current = resolveClientCheckSettings(client.settings);
+  const disabled = current.disabled.filter((checkType) => !inBundle.has(checkType));
+  const severityOverrides = Object.fromEntries(
+    Object.entries(current.severityOverrides).filter(([checkType]) => !inBundle.has(checkType))
+  );
+  for (const definition of bundleChecks) {
+    if (formData.get(`enabled:${definition.checkType}`) !== "on") {
+      disabled.push(definition.checkType);
+    }
+    const severity = String(formData.get(`severity:${definition.checkType}`) || "");
+    if (!severity) {
+      continue;
+    }
+    if (!severityOptions.includes(severity as CheckSeverity)) {
+      throw new ValidationError("Select a valid severity.");
+    }
+    severityOverrides[definition.checkType] = severity as CheckSeverity;
+  }
+
+  const settings =
+    client.settings && typeof client.settings === "object"
+      ? (client.settings as Record<string, unknown>)
+      : {};
+
+  await prisma.client.update({
+    where: { id: client.id },
+    data: {
+      settings: {
+        ...settings,
+        checks: { disabled, severityOverrides }
+      } as Prisma.InputJsonObject
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "CLIENT_UPDATED",
+      entityType: "CLIENT",
+      entityId: client.id,
+      metadata: {
+        disabledChecks: disabled.length,
+        severityOverrides: Object.entries(severityOverrides).filter(
+          ([checkType, severity]) => severity !== getCheckDefinition(checkType)?.defaultSeverity
+        ).length
+      }
+    },
+    {
+      firmId: session.firmId,
+      actorUserId: user.id
+    }
+  );
+
+  revalidatePath(`/clients/${client.id}/checks`);
+};
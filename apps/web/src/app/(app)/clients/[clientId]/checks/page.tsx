@@ -0,0 +1,147 @@
+import Link from "next/link";
+import type { Route } from "next";
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { can } from "@/lib/permissions";
+import { getBundleConfig, resolveClientCheckSettings } from "@/lib/check-registry";
+import { updateClientChecksAction } from "./actions";
+
+type ClientChecksPageProps = {
+  params: { clientId: string };
+};
+
+const sourceLabels: Record<string, string> = {
+  REGISTER: "Register",
+  BANK: "Bank",
+  GL: "Journal",
+  STATUTORY: "Statutory",
+  PENSION_SCHEDULE: "Pension schedule"
+};
+
+const severityOptions = ["INFO", "LOW", "MEDIUM", "HIGH", "CRITICAL"] as const;
+
+export default async function ClientChecksPage({ params }: ClientChecksPageProps) {
+  const { session, user } = await requireUser();
+
+  const client = await prisma.client.findFirst({
+    where: {
+      id: params.clientId,
+      firmId: session.firmId
+    },
+    include: { firm: true }
+  });
+
+  if (
+    !client ||
+    !(await hasClientAccess(userClientScope(user), client.id, {
+      entityType: "CLIENT",
+      entityId: client.id
+    }))
+  ) {
+    notFound();
+  }
+
+  const bundle = getBundleConfig(client.firm.region);
+  const settings = resolveClientCheckSettings(client.settings);
+  const disabled = new Set(settings.disabled);
+  const canEdit = can(user, "firm:manage");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-[0.25em] text-slate">Client</p>
+          <h1 className="font-display text-3xl font-semibold text-ink">
+            {client.name} · Checks
+          </h1>
+          <p className="mt-2 text-sm text-slate">
+            {bundle.bundleId}_{bundle.bundleVersion} · Changes apply to future reconciliations
+            for this client.
+          </p>
+        </div>
+        <Link
+          href={`/clients/${client.id}` as Route}
+          className="rounded-lg border border-slate/30 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+        >
+          Back to client
+        </Link>
+      </div>
+
+      {!canEdit ? (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          Only firm admins can enable, disable or re-grade checks.
+        </div>
+      ) : null}
+
+      <form
+        action={updateClientChecksAction}
+        className="space-y-4 rounded-xl border border-slate/20 bg-surface p-6"
+      >
+        <input type="hidden" name="clientId" value={client.id} />
+        <div className="overflow-x-auto rounded-lg border border-slate/20">
+          <table className="w-full text-left text-xs">
+            <thead className="border-b border-slate/20 uppercase tracking-[0.2em] text-slate">
+              <tr>
+                <th className="px-4 py-3">Enabled</th>
+                <th className="px-4 py-3">Check</th>
+                <th className="px-4 py-3">Sources</th>
+                <th className="px-4 py-3">Tolerance</th>
+                <th className="px-4 py-3">Severity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bundle.checks.map((definition) => (
+                <tr key={definition.checkType} className="border-b border-slate/10">
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      name={`enabled:${definition.checkType}`}
+                      defaultChecked={!disabled.has(definition.checkType)}
+                      disabled={!canEdit}
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <p className="font-semibold text-ink">{definition.label}</p>
+                    <p className="mt-1 text-[11px] text-slate">{definition.checkType}</p>
+                  </td>
+                  <td className="px-4 py-3 text-slate">
+                    {definition.sources.map((source) => sourceLabels[source] ?? source).join(", ")}
+                  </td>
+                  <td className="px-4 py-3 text-slate">{definition.toleranceKey ?? "-"}</td>
+                  <td className="px-4 py-3">
+                    <select
+                      name={`severity:${definition.checkType}`}
+                      defaultValue={
+                        settings.severityOverrides[definition.checkType] ??
+                        definition.defaultSeverity
+                      }
+                      disabled={!canEdit}
+                      className="rounded-lg border border-slate/30 bg-surface px-2 py-1 text-xs"
+                    >
+                      {severityOptions.map((severity) => (
+                        <option key={severity} value={severity}>
+                          {severity === definition.defaultSeverity
+                            ? `${severity} (default)`
+                            : severity}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button
+          type="submit"
+          disabled={!canEdit}
+          className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong disabled:opacity-50"
+        >
+          Save checks
+        </button>
+      </form>
+    </div>
+  );
+}
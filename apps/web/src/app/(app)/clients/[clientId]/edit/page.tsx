@@ -1,6 +1,8 @@
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { listUsersWithPermission } from "@/lib/roles";
 import { ClientForm } from "../../ClientForm";
 import { updateClientAction } from "../../actions";
 
@@ -9,7 +11,7 @@ type EditClientPageProps = {
 };
 
 export default async function EditClientPage({ params }: EditClientPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const [client, reviewers] = await Promise.all([
     prisma.client.findFirst({
       where: {
@@ -17,22 +19,16 @@ export default async function EditClientPage({ params }: EditClientPageProps) {
         firmId: session.firmId
       }
     }),
-    prisma.user.findMany({
-      where: {
-        firmId: session.firmId,
-        status: "ACTIVE",
-        role: { in: ["REVIEWER", "ADMIN"] }
-      },
-      select: {
-        id: true,
-        email: true,
-        role: true
-      },
-      orderBy: { email: "asc" }
-    })
+    listUsersWithPermission(session.firmId, "pay-run:approve")
   ]);
 
-  if (!client) {
+  if (
+    !client ||
+    !(await hasClientAccess(userClientScope(user), client.id, {
+      entityType: "CLIENT",
+      entityId: client.id
+    }))
+  ) {
     notFound();
   }
 
@@ -1,7 +1,7 @@
 "use client";
 
 import { useFormState, useFormStatus } from "react-dom";
-import type { CheckType, ExpectedVarianceType } from "@/lib/prisma";
+import type { ExpectedVarianceType } from "@/lib/prisma";
 import {
   createExpectedVarianceAction,
   type ExpectedVarianceFormState
@@ -9,36 +9,6 @@ import {
 
 const initialState: ExpectedVarianceFormState = {};
 
-const checkTypeOptions: Array<{ value: CheckType; label: string }> = [
-  { value: "CHK_REGISTER_NET_TO_BANK_TOTAL", label: "Register vs Bank totals" },
-  { value: "CHK_JOURNAL_DEBITS_EQUAL_CREDITS", label: "Journal balance" },
-  { value: "CHK_REGISTER_DEDUCTIONS_TO_STATUTORY_TOTALS", label: "Register vs Statutory totals" },
-  { value: "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE", label: "Register gross vs Journal expense" },
-  {
-    value: "CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE",
-    label: "Register employer costs vs Journal"
-  },
-  {
-    value: "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY",
-    label: "Register net pay vs Journal liability"
-  },
-  {
-    value: "CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY",
-    label: "Register tax vs Journal liability"
-  },
-  {
-    value: "CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY",
-    label: "Register pension vs Journal liability"
-  },
-  {
-    value: "CHK_REGISTER_PENSION_TO_PENSION_SCHEDULE",
-    label: "Register pension vs Pension schedule"
-  },
-  { value: "CHK_BANK_DUPLICATE_PAYMENTS", label: "Bank duplicate payments" },
-  { value: "CHK_BANK_NEGATIVE_PAYMENTS", label: "Bank negative payments" },
-  { value: "CHK_BANK_PAYMENT_COUNT_MISMATCH", label: "Bank payment count mismatch" }
-];
-
 const varianceTypeOptions: Array<{ value: ExpectedVarianceType; label: string }> = [
   { value: "DIRECTORS_SEPARATE", label: "Directors paid separately" },
   { value: "PENSION_SEPARATE", label: "Pension paid separately" },
@@ -61,9 +31,11 @@ const SubmitButton = ({ disabled }: { disabled?: boolean }) => {
 
 export const ExpectedVarianceForm = ({
   clientId,
+  checkTypeOptions,
   disabled
 }: {
   clientId: string;
+  checkTypeOptions: Array<{ value: string; label: string }>;
   disabled?: boolean;
 }) => {
   const [state, formAction] = useFormState(createExpectedVarianceAction, initialState);
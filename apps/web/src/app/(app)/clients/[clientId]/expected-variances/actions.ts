@@ -2,11 +2,9 @@
 
 import { revalidatePath } from "next/cache";
 import { requireUser } from "@/lib/auth";
-import {
-  type CheckType,
-  type ExpectedVarianceType
-} from "@/lib/prisma";
+import { type ExpectedVarianceType } from "@/lib/prisma";
 import { ValidationError, NotFoundError } from "@/lib/errors";
+import { getCheckDefinition } from "@/lib/check-registry";
 import {
   createExpectedVariance,
   archiveExpectedVariance
@@ -16,21 +14,6 @@ export type ExpectedVarianceFormState = {
   error?: string;
 };
 
-const checkTypeOptions: CheckType[] = [
-  "CHK_REGISTER_NET_TO_BANK_TOTAL",
-  "CHK_JOURNAL_DEBITS_EQUAL_CREDITS",
-  "CHK_REGISTER_DEDUCTIONS_TO_STATUTORY_TOTALS",
-  "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE",
-  "CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE",
-  "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY",
-  "CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY",
-  "CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY",
-  "CHK_REGISTER_PENSION_TO_PENSION_SCHEDULE",
-  "CHK_BANK_DUPLICATE_PAYMENTS",
-  "CHK_BANK_NEGATIVE_PAYMENTS",
-  "CHK_BANK_PAYMENT_COUNT_MISMATCH"
-];
-
 const varianceTypeOptions: ExpectedVarianceType[] = [
   "DIRECTORS_SEPARATE",
   "PENSION_SEPARATE",
@@ -85,9 +68,7 @@ export const createExpectedVarianceAction = async (
       return { error: "Select a valid downgrade status." };
     }
 
-    const checkType = checkTypeOptions.includes(checkTypeInput as CheckType)
-      ? (checkTypeInput as CheckType)
-      : null;
+    const checkType = getCheckDefinition(checkTypeInput) ? checkTypeInput : null;
 
     const amountMin = parseOptionalNumber(formData.get("amountMin"));
     const amountMax = parseOptionalNumber(formData.get("amountMax"));
@@ -134,7 +115,9 @@ export const createExpectedVarianceAction = async (
       {
         firmId: session.firmId,
         userId: session.userId,
-        role: user.role
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
       },
       {
         clientId,
@@ -171,7 +154,9 @@ export const archiveExpectedVarianceAction = async (formData: FormData) => {
     {
       firmId: session.firmId,
       userId: session.userId,
-      role: user.role
+      role: user.role,
+      permissions: user.permissions,
+      clientIds: user.clientIds
     },
     varianceId
   );
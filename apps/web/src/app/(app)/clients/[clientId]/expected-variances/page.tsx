@@ -1,8 +1,11 @@
 import Link from "next/link";
 import type { Route } from "next";
 import { notFound } from "next/navigation";
-import { prisma, type CheckType, type ExpectedVarianceType } from "@/lib/prisma";
+import { prisma, type ExpectedVarianceType } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { can } from "@/lib/permissions";
+import { checkRegistry, getCheckLabel } from "@/lib/check-registry";
 import { ExpectedVarianceForm } from "./ExpectedVarianceForm";
 import { archiveExpectedVarianceAction } from "./actions";
 
@@ -17,21 +20,6 @@ const varianceLabels: Record<ExpectedVarianceType, string> = {
   OTHER: "Other"
 };
 
-const checkLabels: Record<CheckType, string> = {
-  CHK_REGISTER_NET_TO_BANK_TOTAL: "Register vs Bank totals",
-  CHK_JOURNAL_DEBITS_EQUAL_CREDITS: "Journal balance",
-  CHK_REGISTER_DEDUCTIONS_TO_STATUTORY_TOTALS: "Register vs Statutory totals",
-  CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE: "Register gross vs Journal expense",
-  CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE: "Register employer costs vs Journal",
-  CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY: "Register net pay vs Journal liability",
-  CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY: "Register tax vs Journal liability",
-  CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY: "Register pension vs Journal liability",
-  CHK_REGISTER_PENSION_TO_PENSION_SCHEDULE: "Register pension vs Pension schedule",
-  CHK_BANK_DUPLICATE_PAYMENTS: "Bank duplicate payments",
-  CHK_BANK_NEGATIVE_PAYMENTS: "Bank negative payments",
-  CHK_BANK_PAYMENT_COUNT_MISMATCH: "Bank payment count mismatch"
-};
-
 const formatBounds = (bounds?: { min?: number; max?: number }) => {
   if (!bounds) {
     return "Any";
@@ -59,7 +47,13 @@ export default async function ExpectedVariancesPage({
     }
   });
 
-  if (!client) {
+  if (
+    !client ||
+    !(await hasClientAccess(userClientScope(user), client.id, {
+      entityType: "CLIENT",
+      entityId: client.id
+    }))
+  ) {
     notFound();
   }
 
@@ -74,7 +68,7 @@ export default async function ExpectedVariancesPage({
     orderBy: { createdAt: "desc" }
   });
 
-  const canEdit = user.role === "ADMIN" || user.role === "REVIEWER";
+  const canEdit = can(user, "expected-variance:manage");
 
   return (
     <div className="space-y-6">
@@ -108,7 +102,14 @@ export default async function ExpectedVariancesPage({
           Variances are applied when a mismatch falls within the bounds below.
         </p>
         <div className="mt-4">
-          <ExpectedVarianceForm clientId={client.id} disabled={!canEdit} />
+          <ExpectedVarianceForm
+            clientId={client.id}
+            checkTypeOptions={checkRegistry.map((definition) => ({
+              value: definition.checkType,
+              label: definition.label
+            }))}
+            disabled={!canEdit}
+          />
         </div>
       </div>
 
@@ -152,7 +153,7 @@ export default async function ExpectedVariancesPage({
                         <p className="mt-1 text-[11px] text-slate">
                           Applies to{" "}
                           {variance.checkType
-                            ? checkLabels[variance.checkType]
+                            ? getCheckLabel(variance.checkType)
                             : "all checks"}
                         </p>
                         <p className="mt-1 text-[11px] text-slate">
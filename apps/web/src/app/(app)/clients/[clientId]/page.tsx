@@ -3,6 +3,7 @@ import type { Route } from "next";
 import { notFound } from "next/navigation";
 import { prisma, type PayrollSystem, type PayRunStatus } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
 import { derivePayRunStatus, getOpenExceptionCounts } from "@/lib/pay-run-exceptions";
 
 type ClientDetailPageProps = {
@@ -10,7 +11,7 @@ type ClientDetailPageProps = {
 };
 
 export default async function ClientDetailPage({ params }: ClientDetailPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const client = await prisma.client.findFirst({
     where: {
       id: params.clientId,
@@ -21,7 +22,13 @@ export default async function ClientDetailPage({ params }: ClientDetailPageProps
     }
   });
 
-  if (!client) {
+  if (
+    !client ||
+    !(await hasClientAccess(userClientScope(user), client.id, {
+      entityType: "CLIENT",
+      entityId: client.id
+    }))
+  ) {
     notFound();
   }
 
@@ -142,6 +149,12 @@ export default async function ClientDetailPage({ params }: ClientDetailPageProps
           >
             Tolerances
           </Link>
+          <Link
+            href={`/clients/${client.id}/checks` as Route}
+            className="rounded-lg border border-slate/30 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+          >
+            Checks
+          </Link>
           <Link
             href={`/clients/${client.id}/expected-variances` as Route}
             className="rounded-lg border border-slate/30 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
@@ -3,12 +3,14 @@
 import { revalidatePath } from "next/cache";
 import { prisma, Prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { assertClientAccess, userClientScope } from "@/lib/client-access";
 import { recordAuditEvent } from "@/lib/audit";
 import { ValidationError, NotFoundError } from "@/lib/errors";
+import { can, type PermissionSubject } from "@/lib/permissions";
 import { parseToleranceForm } from "@/lib/tolerance-form";
 
-const ensureReviewer = (role: string) => {
-  if (role === "PREPARER") {
+const ensureCanManageTolerances = (user: PermissionSubject) => {
+  if (!can(user, "tolerance:manage")) {
     throw new ValidationError("Reviewer approval is required to change tolerances.");
   }
 };
@@ -28,7 +30,7 @@ const stripTolerances = (
 
 export const updateClientTolerancesAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  ensureReviewer(user.role);
+  ensureCanManageTolerances(user);
 
   const clientId = String(formData.get("clientId") || "");
   if (!clientId) {
@@ -41,6 +43,10 @@ export const updateClientTolerancesAction = async (formData: FormData) => {
   if (!client) {
     throw new NotFoundError("Client not found.");
   }
+  await assertClientAccess(userClientScope(user), client.id, {
+    entityType: "CLIENT",
+    entityId: client.id
+  });
 
   const tolerances = parseToleranceForm(formData);
   const settings =
@@ -78,7 +84,7 @@ export const updateClientTolerancesAction = async (formData: FormData) => {
 
 export const resetClientTolerancesAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  ensureReviewer(user.role);
+  ensureCanManageTolerances(user);
 
   const clientId = String(formData.get("clientId") || "");
   if (!clientId) {
@@ -91,6 +97,10 @@ export const resetClientTolerancesAction = async (formData: FormData) => {
   if (!client) {
     throw new NotFoundError("Client not found.");
   }
+  await assertClientAccess(userClientScope(user), client.id, {
+    entityType: "CLIENT",
+    entityId: client.id
+  });
 
   await prisma.client.update({
     where: { id: client.id },
@@ -117,3 +127,57 @@ export const resetClientTolerancesAction = async (formData: FormData) => {
 
   revalidatePath(`/clients/${client.id}/tolerances`);
 };
+
+export const updateClientLineMatchingAction = async (formData: FormData) => {
+  const { session, user } = await requireUser();
+  ensureCanManageTolerances(user);
+
+  const clientId = String(formData.get("clientId") || "");
+  if (!clientId) {
+    throw new ValidationError("Client is required.");
+  }
+
+  const client = await prisma.client.findFirst({
+    where: { id: clientId, firmId: session.firmId }
+  });
+  if (!client) {
+    throw new NotFoundError("Client not found.");
+  }
+  await assertClientAccess(userClientScope(user), client.id, {
+    entityType: "CLIENT",
+    entityId: client.id
+  });
+
+  const enabled = formData.get("lineMatchingEnabled") === "on";
+  const settings =
+    client.settings && typeof client.settings === "object"
+      ? (client.settings as Record<string, unknown>)
+      : {};
+
+  await prisma.client.update({
+    where: { id: client.id },
+    data: {
+      settings: {
+        ...settings,
+        lineMatching: { enabled }
+      } as Prisma.InputJsonObject
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "CLIENT_UPDATED",
+      entityType: "CLIENT",
+      entityId: client.id,
+      metadata: {
+        lineMatchingEnabled: enabled
+      }
+    },
+    {
+      firmId: session.firmId,
+      actorUserId: user.id
+    }
+  );
+
+  revalidatePath(`/clients/${client.id}/tolerances`);
+};
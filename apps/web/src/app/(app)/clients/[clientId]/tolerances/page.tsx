@@ -3,11 +3,15 @@ import type { Route } from "next";
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { can } from "@/lib/permissions";
 import { resolveTolerances } from "@/lib/tolerances";
+import { resolveLineMatchingEnabled } from "@/lib/line-matching";
 import { ToleranceFields } from "@/components/ToleranceFields";
 import {
   updateClientTolerancesAction,
-  resetClientTolerancesAction
+  resetClientTolerancesAction,
+  updateClientLineMatchingAction
 } from "./actions";
 
 type ClientTolerancesPageProps = {
@@ -34,7 +38,13 @@ export default async function ClientTolerancesPage({
     include: { firm: true }
   });
 
-  if (!client) {
+  if (
+    !client ||
+    !(await hasClientAccess(userClientScope(user), client.id, {
+      entityType: "CLIENT",
+      entityId: client.id
+    }))
+  ) {
     notFound();
   }
 
@@ -44,8 +54,9 @@ export default async function ClientTolerancesPage({
     clientSettings: client.settings
   });
   const currencySymbol = client.firm.region === "IE" ? "€" : "£";
-  const canEdit = user.role === "ADMIN" || user.role === "REVIEWER";
+  const canEdit = can(user, "tolerance:manage");
   const overrides = hasToleranceOverrides(client.settings);
+  const lineMatchingEnabled = resolveLineMatchingEnabled(client.settings);
 
   return (
     <div className="space-y-6">
@@ -104,6 +115,37 @@ export default async function ClientTolerancesPage({
           </button>
         </form>
       ) : null}
+
+      <form
+        action={updateClientLineMatchingAction}
+        className="space-y-4 rounded-xl border border-slate/20 bg-surface p-6"
+      >
+        <input type="hidden" name="clientId" value={client.id} />
+        <div>
+          <h2 className="text-sm font-semibold text-ink">Employee line matching</h2>
+          <p className="mt-1 text-xs text-slate">
+            Matches each register employee&apos;s net pay to a bank line by employee ID,
+            falling back to amount and name similarity. Unmatched employees, unmatched
+            bank lines and split payments raise exceptions.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-ink">
+          <input
+            type="checkbox"
+            name="lineMatchingEnabled"
+            defaultChecked={lineMatchingEnabled}
+            disabled={!canEdit}
+          />
+          Run CHK_EMPLOYEE_NET_TO_BANK_LINES for this client
+        </label>
+        <button
+          type="submit"
+          disabled={!canEdit}
+          className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong disabled:opacity-50"
+        >
+          Save line matching
+        </button>
+      </form>
     </div>
   );
 }
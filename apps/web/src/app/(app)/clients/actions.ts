@@ -60,7 +60,7 @@ export const createClientAction = async (
 ): Promise<ClientFormState> => {
   const { session, user } = await requireUser();
   try {
-    requirePermission(user.role, "client:write");
+    requirePermission(user, "client:write");
   } catch (error) {
     return handleClientError(error);
   }
@@ -72,7 +72,7 @@ export const createClientAction = async (
 
   try {
     const client = await createClient(
-      { firmId: session.firmId, userId: session.userId },
+      { firmId: session.firmId, userId: session.userId, clientIds: user.clientIds },
       {
         name: parsed.data.name,
         payrollSystem: parsed.data.payrollSystem,
@@ -93,7 +93,7 @@ export const updateClientAction = async (
 ): Promise<ClientFormState> => {
   const { session, user } = await requireUser();
   try {
-    requirePermission(user.role, "client:write");
+    requirePermission(user, "client:write");
   } catch (error) {
     return handleClientError(error);
   }
@@ -105,7 +105,7 @@ export const updateClientAction = async (
 
   try {
     const updated = await updateClient(
-      { firmId: session.firmId, userId: session.userId },
+      { firmId: session.firmId, userId: session.userId, clientIds: user.clientIds },
       parsed.data.clientId,
       {
         name: parsed.data.name,
@@ -123,14 +123,17 @@ export const updateClientAction = async (
 
 export const archiveClientAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "client:write");
+  requirePermission(user, "client:write");
   const clientId = String(formData.get("clientId") || "");
   const returnTo = String(formData.get("returnTo") || "/clients");
   if (!clientId) {
     return;
   }
 
-  await archiveClient({ firmId: session.firmId, userId: session.userId }, clientId);
+  await archiveClient(
+    { firmId: session.firmId, userId: session.userId, clientIds: user.clientIds },
+    clientId
+  );
   revalidatePath("/clients");
   revalidatePath(`/clients/${clientId}`);
   redirect(returnTo);
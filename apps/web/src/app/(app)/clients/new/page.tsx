@@ -1,23 +1,11 @@
-import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { listUsersWithPermission } from "@/lib/roles";
 import { ClientForm } from "../ClientForm";
 import { createClientAction } from "../actions";
 
 export default async function NewClientPage() {
   const { session } = await requireUser();
-  const reviewers = await prisma.user.findMany({
-    where: {
-      firmId: session.firmId,
-      status: "ACTIVE",
-      role: { in: ["REVIEWER", "ADMIN"] }
-    },
-    select: {
-      id: true,
-      email: true,
-      role: true
-    },
-    orderBy: { email: "asc" }
-  });
+  const reviewers = await listUsersWithPermission(session.firmId, "pay-run:approve");
 
   return (
     <div className="mx-auto max-w-2xl space-y-6">
@@ -2,6 +2,7 @@ import Link from "next/link";
 import type { Route } from "next";
 import { prisma, type PayrollSystem } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { clientIdFilter } from "@/lib/client-access";
 import { archiveClientAction } from "./actions";
 
 type ClientsPageProps = {
@@ -9,7 +10,7 @@ type ClientsPageProps = {
 };
 
 export default async function ClientsPage({ searchParams }: ClientsPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const archivedParam = searchParams?.archived;
   const showArchived =
     archivedParam === "1" ||
@@ -20,6 +21,7 @@ export default async function ClientsPage({ searchParams }: ClientsPageProps) {
     prisma.client.findMany({
       where: {
         firmId: session.firmId,
+        id: clientIdFilter(user),
         ...(showArchived ? {} : { archivedAt: null })
       },
       include: {
@@ -28,10 +30,14 @@ export default async function ClientsPage({ searchParams }: ClientsPageProps) {
       orderBy: { name: "asc" }
     }),
     prisma.client.count({
-      where: { firmId: session.firmId, archivedAt: null }
+      where: { firmId: session.firmId, id: clientIdFilter(user), archivedAt: null }
     }),
     prisma.client.count({
-      where: { firmId: session.firmId, archivedAt: { not: null } }
+      where: {
+        firmId: session.firmId,
+        id: clientIdFilter(user),
+        archivedAt: { not: null }
+      }
     })
   ]);
 
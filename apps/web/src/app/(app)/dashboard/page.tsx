@@ -42,7 +42,7 @@ const titleCase = (value: string) =>
     .join(" ");
 
 export default async function DashboardPage() {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const {
     requiredSources,
     countsByStatus,
@@ -50,7 +50,7 @@ export default async function DashboardPage() {
     mappingRequiredCount,
     approvalsPending,
     recentAuditEvents
-  } = await getDashboardData(session.firmId);
+  } = await getDashboardData(session.firmId, user.clientIds);
 
   const nextSteps = [
     {
@@ -2,14 +2,15 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import type { ExceptionStatus, Role } from "@/lib/prisma";
+import type { ExceptionStatus } from "@/lib/prisma";
+import type { Permission } from "@/lib/permissions";
 
 type ExceptionActionsProps = {
   exceptionId: string;
   status: ExceptionStatus;
   assignedToUserId: string | null;
   users: Array<{ id: string; email: string }>;
-  role: Role;
+  permissions: Permission[];
 };
 
 export const ExceptionActions = ({
@@ -17,7 +18,7 @@ export const ExceptionActions = ({
   status,
   assignedToUserId,
   users,
-  role
+  permissions
 }: ExceptionActionsProps) => {
   const router = useRouter();
   const [assignee, setAssignee] = useState(assignedToUserId ?? "");
@@ -26,8 +27,9 @@ export const ExceptionActions = ({
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
 
-  const canEdit = status === "OPEN";
-  const canOverride = canEdit && (role === "ADMIN" || role === "REVIEWER");
+  const isOpen = status === "OPEN";
+  const canEdit = isOpen && permissions.includes("exception:resolve");
+  const canOverride = canEdit && permissions.includes("exception:override");
 
   const postAction = async (
     action: string,
@@ -180,14 +182,19 @@ export const ExceptionActions = ({
         </button>
       </div>
 
-      {!canEdit ? (
+      {!isOpen ? (
         <p className="text-xs text-slate">
           Only open exceptions can be updated.
         </p>
       ) : null}
+      {isOpen && !canEdit ? (
+        <p className="text-xs text-slate">
+          Your role cannot update exceptions.
+        </p>
+      ) : null}
       {!canOverride && canEdit ? (
         <p className="text-xs text-slate">
-          Reviewer approval is required to override exceptions.
+          Your role cannot override exceptions; ask a reviewer.
         </p>
       ) : null}
 
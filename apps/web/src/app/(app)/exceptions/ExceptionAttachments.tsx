@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { sha256Hex } from "@/lib/hash";
+import { resolveUploadStrategy } from "@/lib/upload-strategy";
+
+export type ExceptionAttachmentView = {
+  id: string;
+  originalFilename: string;
+  mimeType: string;
+  sizeBytes: number | null;
+  fileHashSha256: string | null;
+  uploadedByEmail: string;
+  uploadedAt: string;
+  previewable: boolean;
+};
+
+type ExceptionAttachmentsProps = {
+  exceptionId: string;
+  attachments: ExceptionAttachmentView[];
+  canAttach: boolean;
+  attachmentRequired: boolean;
+};
+
+const toReadableSize = (size: number): string => {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  if (size < 1024 * 1024) {
+    return `${(size / 1024).toFixed(1)} KB`;
+  }
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+export const ExceptionAttachments = ({
+  exceptionId,
+  attachments,
+  canAttach,
+  attachmentRequired
+}: ExceptionAttachmentsProps) => {
+  const router = useRouter();
+  const [uploading, setUploading] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const attachmentHref = (attachment: ExceptionAttachmentView, preview: boolean) =>
+    `/exceptions/${exceptionId}/attachments/${attachment.id}${preview ? "?preview=1" : ""}`;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setStatus(null);
+    setUploading(true);
+
+    try {
+      const mimeType = file.type || "application/octet-stream";
+      const hash = await sha256Hex(await file.arrayBuffer());
+
+      const prepareResponse = await fetch("/api/exceptions/attachments/prepare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          exceptionId,
+          originalFilename: file.name,
+          mimeType,
+          sizeBytes: file.size
+        })
+      });
+      const prepareBody = await prepareResponse.json();
+      if (!prepareResponse.ok) {
+        throw new Error(prepareBody.error || "Unable to prepare upload.");
+      }
+
+      const strategy = resolveUploadStrategy({
+        mode: process.env.NEXT_PUBLIC_UPLOAD_MODE,
+        hasSignedUrl: Boolean(prepareBody.uploadUrl)
+      });
+
+      if (strategy === "direct") {
+        const uploadResponse = await fetch(prepareBody.uploadUrl, {
+          method: "PUT",
+          headers: { "Content-Type": mimeType },
+          body: file
+        });
+        if (!uploadResponse.ok) {
+          throw new Error("Direct upload failed. Please retry.");
+        }
+      } else {
+        const uploadForm = new FormData();
+        uploadForm.append("file", file);
+        uploadForm.append("exceptionId", exceptionId);
+        uploadForm.append("storageKey", prepareBody.storageKey);
+        uploadForm.append("originalFilename", file.name);
+        uploadForm.append("mimeType", mimeType);
+
+        const uploadResponse = await fetch("/api/exceptions/attachments/upload", {
+          method: "POST",
+          body: uploadForm
+        });
+        if (!uploadResponse.ok) {
+          const uploadBody = await uploadResponse.json().catch(() => ({}));
+          throw new Error(uploadBody.error || "Upload failed. Please try again.");
+        }
+      }
+
+      const finalizeResponse = await fetch("/api/exceptions/attachments/finalize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          exceptionId,
+          storageKey: prepareBody.storageKey,
+          fileHashSha256: hash,
+          originalFilename: file.name,
+          mimeType,
+          sizeBytes: file.size
+        })
+      });
+      const finalizeBody = await finalizeResponse.json().catch(() => ({}));
+      if (!finalizeResponse.ok) {
+        throw new Error(finalizeBody.error || "Finalize failed.");
+      }
+
+      setStatus(
+        finalizeBody.duplicate
+          ? "This file is already attached."
+          : `Attached ${file.name} (${toReadableSize(file.size)}).`
+      );
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Confirm the file and retry.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {attachmentRequired && attachments.length === 0 ? (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          The expected variance for this check requires an attachment before the exception
+          can be closed.
+        </p>
+      ) : null}
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-slate">No attachments yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="rounded-lg border border-slate/20 bg-surface-muted px-4 py-3"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-semibold text-ink">
+                  {attachment.originalFilename}
+                </span>
+                <div className="flex gap-3 text-xs font-semibold uppercase tracking-wide">
+                  {attachment.previewable ? (
+                    <a
+                      href={attachmentHref(attachment, true)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-accent hover:text-accent-strong"
+                    >
+                      Preview
+                    </a>
+                  ) : null}
+                  <a
+                    href={attachmentHref(attachment, false)}
+                    className="text-accent hover:text-accent-strong"
+                  >
+                    Download
+                  </a>
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-slate">
+                {attachment.sizeBytes === null
+                  ? "Size not recorded"
+                  : toReadableSize(attachment.sizeBytes)}{" "}
+                · {attachment.uploadedByEmail} · {formatTimestamp(attachment.uploadedAt)}
+              </p>
+              <p className="mt-1 break-all font-mono text-[11px] text-slate">
+                {attachment.fileHashSha256
+                  ? `SHA-256 ${attachment.fileHashSha256}`
+                  : "SHA-256 not recorded"}
+              </p>
+              {attachment.previewable && attachment.mimeType.startsWith("image/") ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={attachmentHref(attachment, true)}
+                  alt={attachment.originalFilename}
+                  className="mt-3 max-h-48 rounded-lg border border-slate/20"
+                />
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAttach ? (
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate transition hover:border-slate/60">
+          <input
+            type="file"
+            className="hidden"
+            disabled={uploading}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) {
+                void handleFile(file);
+              }
+              event.target.value = "";
+            }}
+          />
+          {uploading ? "Uploading..." : "Attach file"}
+        </label>
+      ) : (
+        <p className="text-xs text-slate">
+          Attachments are closed for superseded exceptions and locked pay runs.
+        </p>
+      )}
+
+      {status ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-700">
+          {status}
+        </p>
+      ) : null}
+      {error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+};
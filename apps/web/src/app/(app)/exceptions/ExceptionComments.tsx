@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export type ExceptionCommentView = {
+  id: string;
+  authorEmail: string;
+  body: string;
+  createdAt: string;
+  replies: ExceptionCommentView[];
+};
+
+type ExceptionCommentsProps = {
+  exceptionId: string;
+  comments: ExceptionCommentView[];
+  users: Array<{ id: string; email: string }>;
+  canComment: boolean;
+};
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+const renderBody = (body: string) =>
+  body.split(/(\s+)/).map((token, index) =>
+    /^@[^\s@]+@[^\s@]+\.[^\s@]+$/.test(token) ? (
+      <span key={index} className="font-semibold text-accent">
+        {token}
+      </span>
+    ) : (
+      token
+    )
+  );
+
+export const ExceptionComments = ({
+  exceptionId,
+  comments,
+  users,
+  canComment
+}: ExceptionCommentsProps) => {
+  const router = useRouter();
+  const [body, setBody] = useState("");
+  const [replyTo, setReplyTo] = useState<ExceptionCommentView | null>(null);
+  const [mention, setMention] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMention = (email: string) => {
+    setMention("");
+    if (!email) {
+      return;
+    }
+    setBody((current) => `${current}${current && !current.endsWith(" ") ? " " : ""}@${email} `);
+  };
+
+  const handleSubmit = async () => {
+    if (body.trim().length < 2) {
+      setError("Comment text is required.");
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/exceptions/comment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          exceptionId,
+          body,
+          parentCommentId: replyTo?.id ?? null
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Unable to add comment.");
+      }
+      setBody("");
+      setReplyTo(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to add comment.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderThread = (comment: ExceptionCommentView, depth: number) => (
+    <li key={comment.id} className={depth > 0 ? "ml-4 border-l border-slate/20 pl-4" : ""}>
+      <div className="rounded-lg border border-slate/20 bg-surface-muted px-4 py-3">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate">
+          <span className="font-semibold text-ink">{comment.authorEmail}</span>
+          <span>{formatTimestamp(comment.createdAt)}</span>
+        </div>
+        <p className="mt-2 whitespace-pre-wrap text-sm text-ink">{renderBody(comment.body)}</p>
+        {canComment ? (
+          <button
+            type="button"
+            onClick={() => setReplyTo(comment)}
+            className="mt-2 text-xs font-semibold uppercase tracking-wide text-accent hover:text-accent-strong"
+          >
+            Reply
+          </button>
+        ) : null}
+      </div>
+      {comment.replies.length > 0 ? (
+        <ul className="mt-3 space-y-3">
+          {comment.replies.map((reply) => renderThread(reply, depth + 1))}
+        </ul>
+      ) : null}
+    </li>
+  );
+
+  return (
+    <div className="space-y-4">
+      {comments.length === 0 ? (
+        <p className="text-sm text-slate">No comments yet.</p>
+      ) : (
+        <ul className="space-y-3">{comments.map((comment) => renderThread(comment, 0))}</ul>
+      )}
+
+      {canComment ? (
+        <div className="space-y-2">
+          {replyTo ? (
+            <p className="text-xs text-slate">
+              Replying to {replyTo.authorEmail} ·{" "}
+              <button
+                type="button"
+                onClick={() => setReplyTo(null)}
+                className="font-semibold uppercase tracking-wide text-accent hover:text-accent-strong"
+              >
+                Cancel
+              </button>
+            </p>
+          ) : null}
+          <textarea
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            rows={3}
+            disabled={submitting}
+            className="w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm"
+            placeholder="Add a comment. Mention colleagues with @email."
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={mention}
+              onChange={(event) => handleMention(event.target.value)}
+              disabled={submitting}
+              className="rounded-lg border border-slate/30 bg-surface px-3 py-2 text-xs"
+            >
+              <option value="">Mention...</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.email}>
+                  {user.email}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="rounded-lg bg-ink px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white disabled:opacity-50"
+            >
+              {submitting ? "Posting..." : replyTo ? "Post reply" : "Post comment"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate">
+          Comments are closed for superseded exceptions and locked pay runs.
+        </p>
+      )}
+
+      {error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+};
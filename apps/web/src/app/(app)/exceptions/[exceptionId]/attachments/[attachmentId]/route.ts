@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { getExceptionAttachmentUrl } from "@/lib/exception-attachments";
+import { NotFoundError } from "@/lib/errors";
+import { logServerError } from "@/lib/server-errors";
+
+type AttachmentRouteProps = {
+  params: { exceptionId: string; attachmentId: string };
+};
+
+const textError = (status: number, message: string) =>
+  new NextResponse(message, {
+    status,
+    headers: { "content-type": "text/plain; charset=utf-8" }
+  });
+
+export const GET = async (request: Request, { params }: AttachmentRouteProps) => {
+  const { session, user } = await requireUser();
+  const preview = new URL(request.url).searchParams.get("preview") === "1";
+
+  try {
+    const url = await getExceptionAttachmentUrl(
+      { firmId: session.firmId, userId: session.userId, clientIds: user.clientIds },
+      params.exceptionId,
+      params.attachmentId,
+      { inline: preview }
+    );
+    return NextResponse.redirect(url);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return textError(404, error.message);
+    }
+    logServerError({ scope: "exception_attachment_download" }, error);
+    return textError(500, "Unable to prepare attachment download.");
+  }
+};
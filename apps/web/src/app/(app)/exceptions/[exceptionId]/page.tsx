@@ -3,14 +3,23 @@ import type { Route } from "next";
 import { notFound } from "next/navigation";
 import { prisma, type SourceType } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
-import { readImportFile } from "@/lib/import-file";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { can } from "@/lib/permissions";
 import {
-  mappingFieldConfigs,
-  normalizeColumnName,
-  type ColumnMap
-} from "@/lib/mapping-utils";
+  describeNormalizedLine,
+  loadNormalizedLines,
+  type RawValues
+} from "@/lib/normalized-datasets";
 import type { CheckDetails, EvidencePointer } from "@/lib/reconciliation-checks";
+import { listExceptionComments, type CommentThread } from "@/lib/exception-comments";
+import {
+  isPreviewableAttachment,
+  listExceptionAttachments,
+  requiresAttachmentForCheck
+} from "@/lib/exception-attachments";
 import { ExceptionActions } from "../ExceptionActions";
+import { ExceptionAttachments } from "../ExceptionAttachments";
+import { ExceptionComments, type ExceptionCommentView } from "../ExceptionComments";
 
 type ExceptionDetailPageProps = {
   params: { exceptionId: string };
@@ -33,6 +42,14 @@ const formatPercent = (value: number | null | undefined) => {
   return `${value.toFixed(2)}%`;
 };
 
+const toCommentView = (thread: CommentThread): ExceptionCommentView => ({
+  id: thread.id,
+  authorEmail: thread.authorEmail,
+  body: thread.body,
+  createdAt: thread.createdAt.toISOString(),
+  replies: thread.replies.map(toCommentView)
+});
+
 const sourceLabels: Record<SourceType, string> = {
   REGISTER: "Register",
   BANK: "Bank / Payments",
@@ -55,11 +72,24 @@ export default async function ExceptionDetailPage({
       payRun: { include: { client: true } },
       checkResult: true,
       assignedToUser: true,
-      resolvedByUser: true
+      resolvedByUser: true,
+      previousException: {
+        include: {
+          checkResult: true,
+          reconciliationRun: { select: { runNumber: true } },
+          resolvedByUser: true
+        }
+      }
     }
   });
 
-  if (!exception) {
+  if (
+    !exception ||
+    !(await hasClientAccess(userClientScope(user), exception.payRun.clientId, {
+      entityType: "EXCEPTION",
+      entityId: exception.id
+    }))
+  ) {
     notFound();
   }
 
@@ -75,7 +105,20 @@ export default async function ExceptionDetailPage({
     orderBy: { email: "asc" }
   });
 
+  const commentThreads =
+    (await listExceptionComments(session.firmId, [exception.id])).get(exception.id) ?? [];
+  const canComment =
+    !exception.supersededAt &&
+    exception.payRun.status !== "LOCKED" &&
+    exception.payRun.status !== "ARCHIVED";
+  const attachments =
+    (await listExceptionAttachments(session.firmId, [exception.id])).get(exception.id) ?? [];
+
   const details = exception.checkResult.details as CheckDetails;
+  const previous = exception.previousException;
+  const previousDecided = previous !== null && previous.status !== "OPEN";
+  const previousDetails = previous ? (previous.checkResult.details as CheckDetails) : null;
+  const reopened = previousDecided && exception.status === "OPEN";
   const rawEvidence = Array.isArray(exception.evidence)
     ? exception.evidence
     : Array.isArray(exception.checkResult.evidence)
@@ -88,83 +131,61 @@ export default async function ExceptionDetailPage({
         where: {
           firmId: session.firmId,
           id: { in: Array.from(new Set(evidence.map((item) => item.importId))) }
-        },
-        include: { mappingTemplateVersion: true }
+        }
       })
     : [];
 
   const importsById = new Map(importRecords.map((record) => [record.id, record]));
-  const parsedCache = new Map<
+  const run = evidence.length
+    ? await prisma.reconciliationRun.findFirst({
+        where: { id: exception.reconciliationRunId, firmId: session.firmId },
+        select: { inputSummary: true }
+      })
+    : null;
+  // Evidence rows come from the dataset the run reconciled, not the latest mapping.
+  const runDatasetIds = new Map(
+    Object.values(
+      (run?.inputSummary as {
+        imports?: Record<string, { importId?: string; datasetId?: string | null }>;
+      } | null)?.imports ?? {}
+    )
+      .filter((entry) => entry.importId && entry.datasetId)
+      .map((entry) => [entry.importId as string, entry.datasetId as string])
+  );
+  // Only the rows the evidence points at are loaded, once per import.
+  const evidenceRowNumbers = new Map<string, Set<number>>();
+  for (const item of evidence) {
+    const rowNumbers = evidenceRowNumbers.get(item.importId) ?? new Set<number>();
+    item.rowNumbers.forEach((rowNumber) => rowNumbers.add(rowNumber));
+    evidenceRowNumbers.set(item.importId, rowNumbers);
+  }
+  const linesCache = new Map<
     string,
-    | {
-        rows: string[][];
-        headerRowIndex: number;
-        columnIndexByNormalized: Map<string, number>;
-        mappedColumns: Array<{
-          label: string;
-          columnName: string;
-          columnIndex: number;
-        }>;
-      }
-    | null
+    Promise<Map<number, { rawValues: RawValues }> | null>
   >();
 
-  const loadParsedImport = async (importId: string) => {
-    if (parsedCache.has(importId)) {
-      return parsedCache.get(importId) ?? null;
-    }
+  const loadEvidenceLines = async (importId: string) => {
     const record = importsById.get(importId);
-    if (!record || !record.mappingTemplateVersion) {
-      parsedCache.set(importId, null);
+    const datasetId = runDatasetIds.get(importId) ?? record?.normalizedDatasetId ?? null;
+    if (!record || !datasetId) {
       return null;
     }
-    const template = record.mappingTemplateVersion;
-    const { rows } = await readImportFile(record, {
-      sheetName: template.sheetName ?? null
-    });
-    const headerRowIndex = template.headerRowIndex ?? 0;
-    const headerRow = rows[headerRowIndex] ?? [];
-    const columnIndexByNormalized = new Map<string, number>();
-    headerRow.forEach((column, index) => {
-      const normalized = normalizeColumnName(String(column));
-      if (normalized) {
-        columnIndexByNormalized.set(normalized, index);
-      }
+    const { lines } = await loadNormalizedLines(datasetId, record.sourceType, {
+      rowNumbers: Array.from(evidenceRowNumbers.get(importId) ?? [])
     });
-    const columnMap = template.columnMap as ColumnMap;
-    const mappedColumns = mappingFieldConfigs[record.sourceType].fields
-      .map((field) => {
-        const columnName = columnMap[field.key];
-        if (!columnName) {
-          return null;
-        }
-        const normalized = normalizeColumnName(columnName);
-        const columnIndex = normalized
-          ? columnIndexByNormalized.get(normalized)
-          : undefined;
-        if (columnIndex === undefined) {
-          return null;
-        }
-        return {
-          label: field.label,
-          columnName,
-          columnIndex
-        };
-      })
-      .filter(Boolean) as Array<{
-      label: string;
-      columnName: string;
-      columnIndex: number;
-    }>;
-
-    const parsed = {
-      rows,
-      headerRowIndex,
-      columnIndexByNormalized,
-      mappedColumns
-    };
-    parsedCache.set(importId, parsed);
-    return parsed;
+    return new Map<number, { rawValues: RawValues }>(
+      lines.map((line) => [line.rowNumber, line])
+    );
+  };
+
+  const loadDatasetLines = (importId: string) => {
+    const cached = linesCache.get(importId);
+    if (cached) {
+      return cached;
+    }
+    const loading = loadEvidenceLines(importId);
+    linesCache.set(importId, loading);
+    return loading;
   };
 
   const evidenceGroups = await Promise.all(
@@ -181,28 +202,25 @@ export default async function ExceptionDetailPage({
       }
 
       try {
-        const parsed = await loadParsedImport(item.importId);
-        if (!parsed) {
+        const lines = await loadDatasetLines(item.importId);
+        if (!lines) {
           return {
             importId: item.importId,
             sourceType: record.sourceType,
             note: item.note ?? null,
             rows: [],
-            error: "Mapping metadata is missing for this import."
+            error: "Normalized rows are not available for this import."
           };
         }
 
         const rows = item.rowNumbers.map((rowNumber) => {
-          const rowIndex = rowNumber - 1;
-          const row = parsed.rows[rowIndex] ?? [];
-          const rawValues = parsed.mappedColumns.map((column) => ({
-            label: column.columnName,
-            value: String(row[column.columnIndex] ?? "")
-          }));
-          const normalizedValues = parsed.mappedColumns.map((column) => ({
-            label: column.label,
-            value: String(row[column.columnIndex] ?? "")
-          }));
+          const line = lines.get(rowNumber);
+          const rawValues = Object.entries(line?.rawValues ?? {}).map(
+            ([label, value]) => ({ label, value })
+          );
+          const normalizedValues = line
+            ? describeNormalizedLine(record.sourceType, line)
+            : [];
           return {
             rowNumber,
             rawValues,
@@ -250,7 +268,7 @@ export default async function ExceptionDetailPage({
 
   const remediation = (() => {
     const addExpectedVariance =
-      user.role === "ADMIN" || user.role === "REVIEWER"
+      can(user, "expected-variance:manage")
         ? {
             label: "Add expected variance",
             href: `/clients/${exception.payRun.clientId}/expected-variances` as Route
@@ -403,6 +421,38 @@ export default async function ExceptionDetailPage({
 
       <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
         <div className="space-y-6">
+          {previous && previousDecided ? (
+            <div
+              className={`rounded-xl border px-4 py-3 text-xs ${
+                reopened
+                  ? "border-amber-200 bg-amber-50 text-amber-800"
+                  : "border-emerald-200 bg-emerald-50 text-emerald-700"
+              }`}
+            >
+              <p className="font-semibold">
+                {reopened
+                  ? `Re-opened: the delta changed since this was ${previous.status.toLowerCase()} in run #${previous.reconciliationRun.runNumber}.`
+                  : `${previous.status.charAt(0)}${previous.status.slice(1).toLowerCase()} decision carried forward from run #${previous.reconciliationRun.runNumber}.`}
+              </p>
+              {reopened ? (
+                <p className="mt-1">
+                  Prior delta {formatNumber(previousDetails?.deltaValue)} · now{" "}
+                  {formatNumber(details.deltaValue)}
+                </p>
+              ) : null}
+              {previous.resolutionNote ? (
+                <p className="mt-1">
+                  {previous.resolvedByUser?.email ?? "Unknown user"}: {previous.resolutionNote}
+                </p>
+              ) : null}
+              <Link
+                href={`/exceptions/${previous.id}` as Route}
+                className="mt-2 inline-flex font-semibold uppercase tracking-wide hover:underline"
+              >
+                View prior decision
+              </Link>
+            </div>
+          ) : null}
           <div className="rounded-xl border border-slate/20 bg-surface p-6">
             <div className="flex flex-wrap items-center gap-4 text-xs text-slate">
               <span className="rounded-full border border-slate/30 px-3 py-1">
@@ -526,6 +576,157 @@ export default async function ExceptionDetailPage({
             </div>
           ) : null}
 
+          {details.employeeBreakdown && details.employeeBreakdown.length > 0 ? (
+            <div className="rounded-xl border border-slate/20 bg-surface p-6">
+              <h2 className="text-sm font-semibold text-ink">Employee breakdown</h2>
+              <div className="mt-4 overflow-x-auto rounded-lg border border-slate/20">
+                <table className="w-full text-left text-xs">
+                  <thead className="border-b border-slate/20 uppercase tracking-[0.2em] text-slate">
+                    <tr>
+                      <th className="px-4 py-3">Employee ID</th>
+                      <th className="px-4 py-3">Category</th>
+                      <th className="px-4 py-3">Register</th>
+                      <th className="px-4 py-3">Statutory</th>
+                      <th className="px-4 py-3">Delta</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {details.employeeBreakdown.map((row) => (
+                      <tr
+                        key={`${row.employee}-${row.category}`}
+                        className="border-b border-slate/10"
+                      >
+                        <td className="px-4 py-3 font-semibold text-ink">{row.employee}</td>
+                        <td className="px-4 py-3 text-slate">{row.category}</td>
+                        <td className="px-4 py-3 text-slate">
+                          {formatNumber(row.registerTotal)}
+                        </td>
+                        <td className="px-4 py-3 text-slate">
+                          {formatNumber(row.statutoryTotal)}
+                        </td>
+                        <td className="px-4 py-3 text-slate">
+                          {formatNumber(row.delta)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : null}
+
+          {details.groupBreakdown && details.groupBreakdown.length > 0 ? (
+            <div className="rounded-xl border border-slate/20 bg-surface p-6">
+              <h2 className="text-sm font-semibold text-ink">Department breakdown</h2>
+              <div className="mt-4 overflow-x-auto rounded-lg border border-slate/20">
+                <table className="w-full text-left text-xs">
+                  <thead className="border-b border-slate/20 uppercase tracking-[0.2em] text-slate">
+                    <tr>
+                      <th className="px-4 py-3">Department</th>
+                      <th className="px-4 py-3">Register</th>
+                      <th className="px-4 py-3">Journal</th>
+                      <th className="px-4 py-3">Delta</th>
+                      <th className="px-4 py-3">Within tolerance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {details.groupBreakdown.map((row) => (
+                      <tr key={row.group} className="border-b border-slate/10">
+                        <td className="px-4 py-3 font-semibold text-ink">{row.group}</td>
+                        <td className="px-4 py-3 text-slate">
+                          {formatNumber(row.registerTotal)}
+                        </td>
+                        <td className="px-4 py-3 text-slate">
+                          {formatNumber(row.journalTotal)}
+                        </td>
+                        <td className="px-4 py-3 text-slate">
+                          {formatNumber(row.delta)}
+                        </td>
+                        <td className="px-4 py-3 text-slate">
+                          {row.withinTolerance ? "Yes" : "No"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : null}
+
+          {details.periodComparison ? (
+            <div className="rounded-xl border border-slate/20 bg-surface p-6">
+              <h2 className="text-sm font-semibold text-ink">Prior period comparison</h2>
+              <p className="mt-2 text-xs text-slate">
+                Compared with locked pay run {details.periodComparison.priorPeriodLabel}.
+                {details.periodComparison.joiners !== undefined
+                  ? ` Joiners: ${details.periodComparison.joiners} · Leavers: ${details.periodComparison.leavers ?? 0}.`
+                  : ""}
+              </p>
+              {details.periodComparison.metrics &&
+              details.periodComparison.metrics.length > 0 ? (
+                <div className="mt-4 overflow-x-auto rounded-lg border border-slate/20">
+                  <table className="w-full text-left text-xs">
+                    <thead className="border-b border-slate/20 uppercase tracking-[0.2em] text-slate">
+                      <tr>
+                        <th className="px-4 py-3">Metric</th>
+                        <th className="px-4 py-3">Current</th>
+                        <th className="px-4 py-3">Prior</th>
+                        <th className="px-4 py-3">Delta</th>
+                        <th className="px-4 py-3">Within band</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {details.periodComparison.metrics.map((row) => (
+                        <tr key={row.metric} className="border-b border-slate/10">
+                          <td className="px-4 py-3 font-semibold text-ink">{row.metric}</td>
+                          <td className="px-4 py-3 text-slate">{formatNumber(row.current)}</td>
+                          <td className="px-4 py-3 text-slate">{formatNumber(row.prior)}</td>
+                          <td className="px-4 py-3 text-slate">
+                            {formatNumber(row.delta)} · {formatPercent(row.deltaPercent)}
+                          </td>
+                          <td className="px-4 py-3 text-slate">
+                            {row.withinTolerance ? "Yes" : "No"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : null}
+              {details.periodComparison.employees &&
+              details.periodComparison.employees.length > 0 ? (
+                <div className="mt-4 overflow-x-auto rounded-lg border border-slate/20">
+                  <table className="w-full text-left text-xs">
+                    <thead className="border-b border-slate/20 uppercase tracking-[0.2em] text-slate">
+                      <tr>
+                        <th className="px-4 py-3">Employee</th>
+                        <th className="px-4 py-3">Current net</th>
+                        <th className="px-4 py-3">Prior net</th>
+                        <th className="px-4 py-3">Delta</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {details.periodComparison.employees.map((row) => (
+                        <tr key={row.employee} className="border-b border-slate/10">
+                          <td className="px-4 py-3 font-semibold text-ink">{row.employee}</td>
+                          <td className="px-4 py-3 text-slate">
+                            {formatNumber(row.currentNet)}
+                          </td>
+                          <td className="px-4 py-3 text-slate">
+                            {formatNumber(row.priorNet)}
+                          </td>
+                          <td className="px-4 py-3 text-slate">
+                            {formatNumber(row.delta)} · {formatPercent(row.deltaPercent)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="rounded-xl border border-slate/20 bg-surface p-6">
             <h2 className="text-sm font-semibold text-ink">Evidence</h2>
             <p className="mt-2 text-xs text-slate">
@@ -628,6 +829,34 @@ export default async function ExceptionDetailPage({
               </div>
             )}
           </div>
+
+          <div className="rounded-xl border border-slate/20 bg-surface p-6">
+            <h2 className="text-sm font-semibold text-ink">Attachments</h2>
+            <div className="mt-4">
+              <ExceptionAttachments
+                exceptionId={exception.id}
+                attachments={attachments.map((attachment) => ({
+                  ...attachment,
+                  uploadedAt: attachment.uploadedAt.toISOString(),
+                  previewable: isPreviewableAttachment(attachment.mimeType)
+                }))}
+                canAttach={canComment}
+                attachmentRequired={requiresAttachmentForCheck(exception.checkResult.details)}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-slate/20 bg-surface p-6">
+            <h2 className="text-sm font-semibold text-ink">Discussion</h2>
+            <div className="mt-4">
+              <ExceptionComments
+                exceptionId={exception.id}
+                comments={commentThreads.map(toCommentView)}
+                users={users}
+                canComment={canComment}
+              />
+            </div>
+          </div>
         </div>
 
         <div className="space-y-6">
@@ -698,7 +927,7 @@ export default async function ExceptionDetailPage({
                 status={exception.status}
                 assignedToUserId={exception.assignedToUserId}
                 users={users}
-                role={user.role}
+                permissions={user.permissions}
               />
             </div>
           </div>
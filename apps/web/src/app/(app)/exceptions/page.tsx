@@ -7,6 +7,7 @@ import {
   type ExceptionStatus
 } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { clientIdFilter } from "@/lib/client-access";
 
 type ExceptionsPageProps = {
   searchParams?: Record<string, string | string[] | undefined>;
@@ -36,7 +37,7 @@ const categoryOptions: Array<{ value: ExceptionCategory; label: string }> = [
 ];
 
 export default async function ExceptionsPage({ searchParams }: ExceptionsPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const status =
     typeof searchParams?.status === "string" ? searchParams.status : "";
   const severity =
@@ -52,6 +53,7 @@ export default async function ExceptionsPage({ searchParams }: ExceptionsPagePro
     prisma.exception.findMany({
       where: {
         firmId: session.firmId,
+        payRun: { clientId: clientIdFilter(user) },
         supersededAt: null,
         ...(status ? { status: status as ExceptionStatus } : {}),
         ...(severity ? { severity: severity as CheckSeverity } : {}),
@@ -65,7 +67,8 @@ export default async function ExceptionsPage({ searchParams }: ExceptionsPagePro
       },
       include: {
         payRun: { include: { client: true } },
-        assignedToUser: true
+        assignedToUser: true,
+        previousException: { select: { status: true } }
       },
       orderBy: [{ createdAt: "desc" }]
     }),
@@ -77,7 +80,7 @@ export default async function ExceptionsPage({ searchParams }: ExceptionsPagePro
       orderBy: { email: "asc" }
     }),
     prisma.payRun.findMany({
-      where: { firmId: session.firmId },
+      where: { firmId: session.firmId, clientId: clientIdFilter(user) },
       include: { client: true },
       orderBy: [{ periodStart: "desc" }, { revision: "desc" }],
       take: 50
@@ -230,7 +233,15 @@ export default async function ExceptionsPage({ searchParams }: ExceptionsPagePro
                     <p className="text-xs text-slate">{exception.category}</p>
                   </td>
                   <td className="px-4 py-3 text-slate">{exception.severity}</td>
-                  <td className="px-4 py-3 text-slate">{exception.status}</td>
+                  <td className="px-4 py-3 text-slate">
+                    {exception.status}
+                    {exception.previousException &&
+                    exception.previousException.status !== "OPEN" ? (
+                      <p className="text-[10px] uppercase tracking-wide text-slate/70">
+                        {exception.status === "OPEN" ? "Re-opened" : "Carried forward"}
+                      </p>
+                    ) : null}
+                  </td>
                   <td className="px-4 py-3 text-slate">
                     {exception.assignedToUser?.email ?? "Unassigned"}
                   </td>
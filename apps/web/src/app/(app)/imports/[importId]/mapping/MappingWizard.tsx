@@ -132,7 +132,7 @@ export const MappingWizard = ({
     if (selectedTemplateId === "new" && templateName.trim().length < 2) {
       errors.push("Template name is required.");
     }
-    if (sourceType === "STATUTORY") {
+    if (sourceType === "STATUTORY" && !columnMap.categoryKey) {
       const mappedCount = Object.values(statutoryCategoryMap).filter(
         (value) => value
       ).length;
@@ -388,6 +388,28 @@ export const MappingWizard = ({
     });
   }, [columns, columnsNormalized]);
 
+  // RTI, P32 and Revenue payroll imports come with a fixed header; map it without asking.
+  useEffect(() => {
+    if (sourceType !== "STATUTORY" || selectedTemplateId !== "new") {
+      return;
+    }
+    const byLabel = new Map(columns.map((column) => [normalizeColumnName(column), column]));
+    const categoryKeyColumn = byLabel.get("category key");
+    if (!categoryKeyColumn) {
+      return;
+    }
+    setColumnMap((current) =>
+      Object.keys(current).length > 0
+        ? current
+        : {
+            category: byLabel.get("category") ?? "",
+            amount: byLabel.get("amount") ?? "",
+            categoryKey: categoryKeyColumn,
+            employeeId: byLabel.get("employee id") ?? ""
+          }
+    );
+  }, [columns, selectedTemplateId, sourceType]);
+
   useEffect(() => {
     if (sourceType !== "STATUTORY" || previewCategories.length === 0) {
       return;
@@ -605,7 +627,12 @@ export const MappingWizard = ({
           <p className="mt-2 text-sm text-slate">
             Map statutory category labels to the internal keys used for reconciliation.
           </p>
-          {previewCategories.length === 0 ? (
+          {columnMap.categoryKey ? (
+            <div className="mt-4 rounded-lg border border-slate/20 bg-surface-muted px-4 py-3 text-xs text-slate">
+              Keys are read from the {columnMap.categoryKey} column. Categories without a key,
+              such as employer NIC, are shown for reference and not compared.
+            </div>
+          ) : previewCategories.length === 0 ? (
             <div className="mt-4 rounded-lg border border-slate/20 bg-surface-muted px-4 py-3 text-xs text-slate">
               Map the category column and load preview rows to see categories.
             </div>
@@ -3,6 +3,11 @@ import type { Route } from "next";
 import { notFound } from "next/navigation";
 import { prisma, type SourceType } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import {
+  describeNormalizedLine,
+  loadNormalizedLines
+} from "@/lib/normalized-datasets";
 import { MappingWizard } from "./MappingWizard";
 
 type ImportMappingPageProps = {
@@ -20,7 +25,7 @@ const sourceLabels: Record<SourceType, string> = {
 export default async function ImportMappingPage({
   params
 }: ImportMappingPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
 
   const importRecord = await prisma.import.findFirst({
     where: {
@@ -37,10 +42,30 @@ export default async function ImportMappingPage({
     }
   });
 
-  if (!importRecord) {
+  if (
+    !importRecord ||
+    !(await hasClientAccess(userClientScope(user), importRecord.clientId, {
+      entityType: "IMPORT",
+      entityId: importRecord.id
+    }))
+  ) {
     notFound();
   }
 
+  const dataset = importRecord.normalizedDatasetId
+    ? await prisma.normalizedDataset.findFirst({
+        where: { id: importRecord.normalizedDatasetId, firmId: session.firmId }
+      })
+    : null;
+  const normalizedPreview = dataset
+    ? (
+        await loadNormalizedLines(dataset.id, importRecord.sourceType, { take: 10 })
+      ).lines.map((line) => ({
+        rowNumber: line.rowNumber,
+        values: describeNormalizedLine(importRecord.sourceType, line)
+      }))
+    : [];
+
   const templates = await prisma.mappingTemplate.findMany({
     where: {
       firmId: session.firmId,
@@ -123,6 +148,42 @@ export default async function ImportMappingPage({
           templates={latestTemplates}
         />
       )}
+
+      {dataset ? (
+        <div className="rounded-xl border border-slate/20 bg-surface p-6">
+          <h2 className="text-sm font-semibold text-ink">Normalized rows</h2>
+          <p className="mt-2 text-sm text-slate">
+            {dataset.rowCount} rows stored from the applied mapping. Reconciliation reads
+            these records instead of the uploaded file.
+          </p>
+          {normalizedPreview.length === 0 ? (
+            <p className="mt-4 text-sm text-slate">No data rows were found.</p>
+          ) : (
+            <div className="mt-4 overflow-x-auto rounded-lg border border-slate/20">
+              <table className="w-full text-left text-xs">
+                <thead className="border-b border-slate/20 uppercase tracking-[0.2em] text-slate">
+                  <tr>
+                    <th className="px-4 py-3">Row</th>
+                    <th className="px-4 py-3">Values</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {normalizedPreview.map((row) => (
+                    <tr key={row.rowNumber} className="border-b border-slate/10">
+                      <td className="px-4 py-3 text-slate">#{row.rowNumber}</td>
+                      <td className="px-4 py-3 text-slate">
+                        {row.values
+                          .map((entry) => `${entry.label}: ${entry.value}`)
+                          .join(" · ")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : null}
     </div>
   );
 }
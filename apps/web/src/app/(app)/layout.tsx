@@ -1,27 +1,17 @@
-import { redirect } from "next/navigation";
 import type { ReactNode } from "react";
-import { prisma } from "@/lib/prisma";
 import { AppShell } from "@/components/AppShell";
-import { requireSession } from "@/lib/auth";
+import { requireUser } from "@/lib/auth";
 
 export default async function AppLayout({
   children
 }: {
   children: ReactNode;
 }) {
-  const session = await requireSession();
-  const user = await prisma.user.findFirst({
-    where: {
-      id: session.userId,
-      status: "ACTIVE"
-    }
-  });
-
-  if (!user) {
-    redirect("/login");
-  }
+  const { user } = await requireUser();
 
   return (
-    <AppShell user={{ email: user.email, role: user.role }}>{children}</AppShell>
+    <AppShell user={{ email: user.email, role: user.firmRole?.name ?? user.role }}>
+      {children}
+    </AppShell>
   );
 }
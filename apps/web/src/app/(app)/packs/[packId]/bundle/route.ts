@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { PermissionError, requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit";
+import { getPackBundleDownloadUrl } from "@/lib/packs";
+import { logServerError } from "@/lib/server-errors";
+
+type PackBundleRouteProps = {
+  params: { packId: string };
+};
+
+const textError = (status: number, message: string) =>
+  new NextResponse(message, {
+    status,
+    headers: { "content-type": "text/plain; charset=utf-8" }
+  });
+
+export const GET = async (
+  _request: Request,
+  { params }: PackBundleRouteProps
+) => {
+  const { session, user } = await requireUser();
+
+  try {
+    requirePermission(user, "pack:download");
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return textError(403, "Permission denied.");
+    }
+    throw error;
+  }
+
+  const pack = await prisma.pack.findFirst({
+    where: {
+      id: params.packId,
+      firmId: session.firmId
+    },
+    include: { payRun: { select: { clientId: true } } }
+  });
+
+  if (
+    !pack ||
+    !(await hasClientAccess(userClientScope(user), pack.payRun.clientId, {
+      entityType: "PACK",
+      entityId: pack.id
+    }))
+  ) {
+    return textError(404, "Pack not found.");
+  }
+
+  // Packs generated before evidence bundles existed only have the PDF.
+  if (!pack.storageUriBundle) {
+    return textError(404, "Evidence bundle not available for this pack.");
+  }
+
+  try {
+    const downloadUrl = await getPackBundleDownloadUrl(pack);
+    await recordAuditEvent(
+      {
+        action: "PACK_DOWNLOADED",
+        entityType: "PACK",
+        entityId: pack.id,
+        metadata: {
+          payRunId: pack.payRunId,
+          artifact: "bundle"
+        }
+      },
+      {
+        firmId: session.firmId,
+        actorUserId: session.userId
+      }
+    );
+    return NextResponse.redirect(downloadUrl);
+  } catch (error) {
+    logServerError({ scope: "pack_bundle_download" }, error);
+    await recordAuditEvent(
+      {
+        action: "PACK_DOWNLOAD_FAILED",
+        entityType: "PACK",
+        entityId: pack.id,
+        metadata: {
+          payRunId: pack.payRunId,
+          artifact: "bundle",
+          errorName: error instanceof Error ? error.name : "UnknownError"
+        }
+      },
+      {
+        firmId: session.firmId,
+        actorUserId: session.userId
+      }
+    );
+    return textError(500, "Unable to prepare evidence bundle download.");
+  }
+};
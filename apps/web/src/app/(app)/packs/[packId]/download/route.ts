@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
 import { PermissionError, requirePermission } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
 import { recordAuditEvent } from "@/lib/audit";
@@ -23,7 +24,7 @@ export const GET = async (
   const { session, user } = await requireUser();
 
   try {
-    requirePermission(user.role, "pack:download");
+    requirePermission(user, "pack:download");
   } catch (error) {
     if (error instanceof PermissionError) {
       return textError(403, "Permission denied.");
@@ -35,10 +36,17 @@ export const GET = async (
     where: {
       id: params.packId,
       firmId: session.firmId
-    }
+    },
+    include: { payRun: { select: { clientId: true } } }
   });
 
-  if (!pack) {
+  if (
+    !pack ||
+    !(await hasClientAccess(userClientScope(user), pack.payRun.clientId, {
+      entityType: "PACK",
+      entityId: pack.id
+    }))
+  ) {
     return textError(404, "Pack not found.");
   }
 
@@ -50,7 +58,8 @@ export const GET = async (
         entityType: "PACK",
         entityId: pack.id,
         metadata: {
-          payRunId: pack.payRunId
+          payRunId: pack.payRunId,
+          artifact: "pdf"
         }
       },
       {
@@ -68,6 +77,7 @@ export const GET = async (
         entityId: pack.id,
         metadata: {
           payRunId: pack.payRunId,
+          artifact: "pdf",
           errorName: error instanceof Error ? error.name : "UnknownError"
         }
       },
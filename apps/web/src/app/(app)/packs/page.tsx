@@ -1,5 +1,6 @@
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { clientIdFilter } from "@/lib/client-access";
 
 type PacksPageProps = {
   searchParams?: Record<string, string | string[] | undefined>;
@@ -23,7 +24,7 @@ const parseDate = (value?: string, endOfDay = false) => {
 };
 
 export default async function PacksPage({ searchParams }: PacksPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const clientId =
     typeof searchParams?.clientId === "string" ? searchParams.clientId : "";
   const locked =
@@ -35,7 +36,7 @@ export default async function PacksPage({ searchParams }: PacksPageProps) {
   const toDate = parseDate(to, true);
 
   const payRunFilter = {
-    ...(clientId ? { clientId } : {}),
+    AND: [{ clientId: clientIdFilter(user) }, { clientId: clientId || undefined }],
     ...(fromDate ? { periodStart: { gte: fromDate } } : {}),
     ...(toDate ? { periodEnd: { lte: toDate } } : {})
   };
@@ -43,7 +44,7 @@ export default async function PacksPage({ searchParams }: PacksPageProps) {
   const packs = await prisma.pack.findMany({
     where: {
       firmId: session.firmId,
-      ...(Object.keys(payRunFilter).length > 0 ? { payRun: payRunFilter } : {}),
+      payRun: payRunFilter,
       ...(locked
         ? locked === "locked"
           ? { lockedAt: { not: null } }
@@ -61,7 +62,7 @@ export default async function PacksPage({ searchParams }: PacksPageProps) {
   });
 
   const clients = await prisma.client.findMany({
-    where: { firmId: session.firmId },
+    where: { firmId: session.firmId, id: clientIdFilter(user) },
     orderBy: { name: "asc" }
   });
 
@@ -72,7 +73,8 @@ export default async function PacksPage({ searchParams }: PacksPageProps) {
     packVersion: pack.packVersion,
     generatedAt: pack.generatedAt,
     lockedAt: pack.lockedAt,
-    downloadUrl: `/packs/${pack.id}/download`
+    downloadUrl: `/packs/${pack.id}/download`,
+    bundleUrl: pack.storageUriBundle ? `/packs/${pack.id}/bundle` : null
   }));
 
   return (
@@ -201,12 +203,22 @@ export default async function PacksPage({ searchParams }: PacksPageProps) {
                     )}
                   </td>
                   <td className="px-4 py-3">
-                    <a
-                      href={pack.downloadUrl}
-                      className="text-xs font-semibold uppercase tracking-wide text-accent hover:text-accent-strong"
-                    >
-                      Download
-                    </a>
+                    <div className="flex flex-col gap-1">
+                      <a
+                        href={pack.downloadUrl}
+                        className="text-xs font-semibold uppercase tracking-wide text-accent hover:text-accent-strong"
+                      >
+                        Download
+                      </a>
+                      {pack.bundleUrl ? (
+                        <a
+                          href={pack.bundleUrl}
+                          className="text-xs font-semibold uppercase tracking-wide text-accent hover:text-accent-strong"
+                        >
+                          Evidence ZIP
+                        </a>
+                      ) : null}
+                    </div>
                   </td>
                 </tr>
               ))
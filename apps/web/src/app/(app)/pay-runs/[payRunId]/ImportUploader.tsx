@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { waitForJob } from "@/lib/job-polling";
 import type { SourceType } from "@/lib/prisma";
 import { sha256Hex } from "@/lib/hash";
 import { resolveUploadStrategy } from "@/lib/upload-strategy";
@@ -122,6 +123,16 @@ export const ImportUploader = ({ payRunId, sourceType, disabled }: ImportUploade
         throw new Error(finalizeBody.error || "Finalize failed.");
       }
 
+      if (finalizeBody.jobId) {
+        setStatus(`Parsing ${sourceLabels[sourceType]}...`);
+        router.refresh();
+        const job = await waitForJob(finalizeBody.jobId);
+        if (job.status === "FAILED") {
+          router.refresh();
+          throw new Error(job.error || "Unable to parse file.");
+        }
+      }
+
       if (finalizeBody.duplicate) {
         setStatus(
           `Duplicate detected. Existing version ${finalizeBody.version} kept.`
@@ -134,6 +145,7 @@ export const ImportUploader = ({ payRunId, sourceType, disabled }: ImportUploade
 
       router.refresh();
     } catch (err) {
+      setStatus(null);
       setError(err instanceof Error ? err.message : "Confirm the file and retry.");
     } finally {
       setUploading(false);
@@ -145,7 +157,13 @@ export const ImportUploader = ({ payRunId, sourceType, disabled }: ImportUploade
       <div className="flex items-center justify-between">
         <div>
           <p className="text-sm font-semibold text-ink">{sourceLabels[sourceType]}</p>
-          <p className="text-xs text-slate">CSV or XLSX</p>
+          <p className="text-xs text-slate">
+            {sourceType === "BANK"
+              ? "CSV, XLSX, BACS Standard 18 or SEPA XML"
+              : sourceType === "STATUTORY"
+                ? "CSV, XLSX (including P32), RTI FPS/EPS XML or Revenue payroll JSON/XML"
+                : "CSV or XLSX"}
+          </p>
         </div>
         <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate transition hover:border-slate/60">
           <input
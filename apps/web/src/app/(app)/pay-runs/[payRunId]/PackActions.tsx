@@ -2,7 +2,9 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import type { PayRunStatus, Role } from "@/lib/prisma";
+import { waitForJob } from "@/lib/job-polling";
+import type { PayRunStatus } from "@/lib/prisma";
+import type { Permission } from "@/lib/permissions";
 
 type PackSummary = {
   id: string;
@@ -10,23 +12,24 @@ type PackSummary = {
   generatedAt: string;
   lockedAt: string | null;
   downloadUrl: string | null;
+  bundleUrl: string | null;
 };
 
 type PackActionsProps = {
   payRunId: string;
   status: PayRunStatus;
-  role: Role;
+  permissions: Permission[];
   pack: PackSummary | null;
 };
 
-export const PackActions = ({ payRunId, status, role, pack }: PackActionsProps) => {
+export const PackActions = ({ payRunId, status, permissions, pack }: PackActionsProps) => {
   const router = useRouter();
   const [pendingAction, setPendingAction] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
 
-  const canGenerate = status === "APPROVED";
-  const canLock = status === "PACKED" && (role === "ADMIN" || role === "REVIEWER");
+  const canGenerate = status === "APPROVED" && permissions.includes("pack:generate");
+  const canLock = status === "PACKED" && permissions.includes("pack:lock");
 
   const postAction = async (
     action: string,
@@ -47,9 +50,17 @@ export const PackActions = ({ payRunId, status, role, pack }: PackActionsProps)
       if (!response.ok) {
         throw new Error(data.error || "Unable to update pack.");
       }
+      if (data.jobId) {
+        setStatusMessage("Queued. This can take a minute for large pay runs.");
+        const job = await waitForJob(data.jobId);
+        if (job.status === "FAILED") {
+          throw new Error(job.error || "Unable to update pack.");
+        }
+      }
       setStatusMessage(successMessage);
       router.refresh();
     } catch (err) {
+      setStatusMessage(null);
       setError(err instanceof Error ? err.message : "Unable to update pack.");
     } finally {
       setPendingAction(null);
@@ -103,6 +114,14 @@ export const PackActions = ({ payRunId, status, role, pack }: PackActionsProps)
               Download pack
             </a>
           ) : null}
+          {pack.bundleUrl ? (
+            <a
+              href={pack.bundleUrl}
+              className="ml-4 mt-2 inline-flex text-xs font-semibold uppercase tracking-wide text-accent hover:text-accent-strong"
+            >
+              Evidence bundle (ZIP)
+            </a>
+          ) : null}
         </div>
       ) : (
         <p className="text-xs text-slate">No pack generated yet.</p>
@@ -2,13 +2,14 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import type { PayRunStatus, Role, SourceType } from "@/lib/prisma";
+import type { PayRunStatus, SourceType } from "@/lib/prisma";
+import type { Permission } from "@/lib/permissions";
 import type { ReviewGateResult } from "@/lib/pay-run-review";
 
 type PayRunReviewActionsProps = {
   payRunId: string;
   status: PayRunStatus;
-  role: Role;
+  permissions: Permission[];
   gate: ReviewGateResult;
   latestApproval?: {
     status: "APPROVED" | "REJECTED";
@@ -32,7 +33,7 @@ const formatSources = (sources: SourceType[]) =>
 export const PayRunReviewActions = ({
   payRunId,
   status,
-  role,
+  permissions,
   gate,
   latestApproval
 }: PayRunReviewActionsProps) => {
@@ -43,8 +44,8 @@ export const PayRunReviewActions = ({
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
 
-  const canSubmit = status === "RECONCILED" && (role === "ADMIN" || role === "PREPARER");
-  const canReview = status === "READY_FOR_REVIEW" && (role === "ADMIN" || role === "REVIEWER");
+  const canSubmit = status === "RECONCILED" && permissions.includes("pay-run:submit");
+  const canReview = status === "READY_FOR_REVIEW" && permissions.includes("pay-run:approve");
   const hasBlockingIssues =
     gate.missingSources.length > 0 ||
     gate.unmappedSources.length > 0 ||
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { waitForJob } from "@/lib/job-polling";
 
 type ReconciliationRunnerProps = {
   payRunId: string;
@@ -34,9 +35,21 @@ export const ReconciliationRunner = ({
       if (!response.ok) {
         throw new Error(data.error || "Unable to run reconciliation.");
       }
-      setStatus(`Reconciliation run ${data.runNumber} completed.`);
+      setStatus("Reconciliation queued.");
+      const job = await waitForJob(data.jobId, {
+        onUpdate: (update) => {
+          if (update.status === "RUNNING") {
+            setStatus("Reconciliation in progress.");
+          }
+        }
+      });
+      if (job.status === "FAILED") {
+        throw new Error(job.error || "Unable to run reconciliation.");
+      }
+      setStatus(`Reconciliation run ${job.result?.runNumber ?? ""} completed.`);
       router.refresh();
     } catch (err) {
+      setStatus(null);
       setError(err instanceof Error ? err.message : "Unable to run reconciliation.");
     } finally {
       setRunning(false);
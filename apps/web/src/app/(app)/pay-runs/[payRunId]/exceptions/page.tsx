@@ -3,6 +3,7 @@ import type { Route } from "next";
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
 
 type PayRunExceptionsPageProps = {
   params: { payRunId: string };
@@ -11,7 +12,7 @@ type PayRunExceptionsPageProps = {
 export default async function PayRunExceptionsPage({
   params
 }: PayRunExceptionsPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
 
   const payRun = await prisma.payRun.findFirst({
     where: {
@@ -23,7 +24,13 @@ export default async function PayRunExceptionsPage({
     }
   });
 
-  if (!payRun) {
+  if (
+    !payRun ||
+    !(await hasClientAccess(userClientScope(user), payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: payRun.id
+    }))
+  ) {
     notFound();
   }
 
@@ -7,6 +7,8 @@ import {
   type SourceType
 } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { getCheckLabel } from "@/lib/check-registry";
 import { getReviewGateStatus } from "@/lib/pay-run-review";
 import { derivePayRunStatus, getOpenExceptionCounts } from "@/lib/pay-run-exceptions";
 import { ImportUploader } from "./ImportUploader";
@@ -79,7 +81,13 @@ export default async function PayRunDetailPage({ params }: PayRunDetailPageProps
     }
   });
 
-  if (!payRun) {
+  if (
+    !payRun ||
+    !(await hasClientAccess(userClientScope(user), payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: payRun.id
+    }))
+  ) {
     notFound();
   }
 
@@ -192,21 +200,6 @@ export default async function PayRunDetailPage({ params }: PayRunDetailPageProps
     PENSION_SCHEDULE: "Pension Schedule"
   };
 
-  const checkLabels: Record<string, string> = {
-    CHK_REGISTER_NET_TO_BANK_TOTAL: "Register vs Bank totals",
-    CHK_JOURNAL_DEBITS_EQUAL_CREDITS: "Journal balance",
-    CHK_REGISTER_DEDUCTIONS_TO_STATUTORY_TOTALS: "Register vs Statutory totals",
-    CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE: "Register gross vs Journal expense",
-    CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE: "Register employer costs vs Journal",
-    CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY: "Register net pay vs Journal liability",
-    CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY: "Register tax vs Journal liability",
-    CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY: "Register pension vs Journal liability",
-    CHK_REGISTER_PENSION_TO_PENSION_SCHEDULE: "Register pension vs Pension schedule",
-    CHK_BANK_DUPLICATE_PAYMENTS: "Bank duplicate payments",
-    CHK_BANK_NEGATIVE_PAYMENTS: "Bank negative payments",
-    CHK_BANK_PAYMENT_COUNT_MISMATCH: "Bank payment count"
-  };
-
   const isLocked = payRun.status === "LOCKED" || payRun.status === "ARCHIVED";
   const reconStatus: ReconStatus = latestRun ? latestRun.status : "NOT_RUN";
   const isReconciling =
@@ -412,7 +405,7 @@ export default async function PayRunDetailPage({ params }: PayRunDetailPageProps
                     return (
                       <tr key={check.id} className="border-b border-slate/10">
                         <td className="px-4 py-3 font-semibold text-ink">
-                          {checkLabels[check.checkType] ?? check.checkType}
+                          {getCheckLabel(check.checkType)}
                         </td>
                         <td className="px-4 py-3 text-slate">{check.status}</td>
                         <td className="px-4 py-3 text-slate">{check.severity}</td>
@@ -466,7 +459,7 @@ export default async function PayRunDetailPage({ params }: PayRunDetailPageProps
           <PayRunReviewActions
             payRunId={payRun.id}
             status={payRun.status}
-            role={user.role}
+            permissions={user.permissions}
             gate={reviewGate}
             latestApproval={
               latestApproval
@@ -509,7 +502,7 @@ export default async function PayRunDetailPage({ params }: PayRunDetailPageProps
           <PackActions
             payRunId={payRun.id}
             status={payRun.status}
-            role={user.role}
+            permissions={user.permissions}
             pack={
               latestPack
                 ? {
@@ -519,7 +512,10 @@ export default async function PayRunDetailPage({ params }: PayRunDetailPageProps
                     lockedAt: latestPack.lockedAt
                       ? latestPack.lockedAt.toISOString()
                       : null,
-                    downloadUrl: packDownloadUrl
+                    downloadUrl: packDownloadUrl,
+                    bundleUrl: latestPack.storageUriBundle
+                      ? `/packs/${latestPack.id}/bundle`
+                      : null
                   }
                 : null
             }
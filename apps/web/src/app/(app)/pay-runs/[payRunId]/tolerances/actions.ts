@@ -3,12 +3,14 @@
 import { revalidatePath } from "next/cache";
 import { prisma, Prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { assertClientAccess, userClientScope } from "@/lib/client-access";
 import { recordAuditEvent } from "@/lib/audit";
 import { ValidationError, NotFoundError } from "@/lib/errors";
+import { can, type PermissionSubject } from "@/lib/permissions";
 import { parseToleranceForm } from "@/lib/tolerance-form";
 
-const ensureReviewer = (role: string) => {
-  if (role === "PREPARER") {
+const ensureCanManageTolerances = (user: PermissionSubject) => {
+  if (!can(user, "tolerance:manage")) {
     throw new ValidationError("Reviewer approval is required to change tolerances.");
   }
 };
@@ -34,7 +36,7 @@ const ensureEditable = (status: string) => {
 
 export const updatePayRunTolerancesAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  ensureReviewer(user.role);
+  ensureCanManageTolerances(user);
 
   const payRunId = String(formData.get("payRunId") || "");
   if (!payRunId) {
@@ -47,6 +49,10 @@ export const updatePayRunTolerancesAction = async (formData: FormData) => {
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(userClientScope(user), payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
   ensureEditable(payRun.status);
 
   const tolerances = parseToleranceForm(formData);
@@ -85,7 +91,7 @@ export const updatePayRunTolerancesAction = async (formData: FormData) => {
 
 export const resetPayRunTolerancesAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  ensureReviewer(user.role);
+  ensureCanManageTolerances(user);
 
   const payRunId = String(formData.get("payRunId") || "");
   if (!payRunId) {
@@ -98,6 +104,10 @@ export const resetPayRunTolerancesAction = async (formData: FormData) => {
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(userClientScope(user), payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
   ensureEditable(payRun.status);
 
   await prisma.payRun.update({
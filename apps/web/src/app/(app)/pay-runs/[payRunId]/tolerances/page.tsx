@@ -3,6 +3,8 @@ import type { Route } from "next";
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { can } from "@/lib/permissions";
 import { resolveTolerances } from "@/lib/tolerances";
 import { ToleranceFields } from "@/components/ToleranceFields";
 import {
@@ -36,7 +38,13 @@ export default async function PayRunTolerancesPage({
     }
   });
 
-  if (!payRun) {
+  if (
+    !payRun ||
+    !(await hasClientAccess(userClientScope(user), payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: payRun.id
+    }))
+  ) {
     notFound();
   }
 
@@ -47,7 +55,7 @@ export default async function PayRunTolerancesPage({
     payRunSettings: payRun.settings
   });
   const currencySymbol = payRun.client.firm.region === "IE" ? "€" : "£";
-  const canEdit = user.role === "ADMIN" || user.role === "REVIEWER";
+  const canEdit = can(user, "tolerance:manage");
   const locked = payRun.status === "LOCKED" || payRun.status === "ARCHIVED";
   const overrides = hasToleranceOverrides(payRun.settings);
 
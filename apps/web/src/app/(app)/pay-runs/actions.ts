@@ -44,7 +44,7 @@ export const createPayRunAction = async (
 ): Promise<PayRunFormState> => {
   const { session, user } = await requireUser();
   try {
-    requirePermission(user.role, "pay-run:create");
+    requirePermission(user, "pay-run:create");
   } catch (error) {
     return handlePayRunError(error);
   }
@@ -64,7 +64,9 @@ export const createPayRunAction = async (
       {
         firmId: session.firmId,
         userId: session.userId,
-        role: user.role
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
       },
       {
         clientId: parsed.data.clientId,
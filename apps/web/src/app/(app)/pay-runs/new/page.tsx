@@ -1,5 +1,6 @@
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { clientIdFilter } from "@/lib/client-access";
 import { CreatePayRunForm } from "../CreatePayRunForm";
 
 type NewPayRunPageProps = {
@@ -7,13 +8,14 @@ type NewPayRunPageProps = {
 };
 
 export default async function NewPayRunPage({ searchParams }: NewPayRunPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const defaultClientId =
     typeof searchParams?.clientId === "string" ? searchParams.clientId : undefined;
 
   const clients = await prisma.client.findMany({
     where: {
       firmId: session.firmId,
+      id: clientIdFilter(user),
       archivedAt: null
     },
     select: {
@@ -2,6 +2,7 @@ import Link from "next/link";
 import type { Route } from "next";
 import { prisma, type PayRunStatus } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { clientIdFilter } from "@/lib/client-access";
 import { derivePayRunStatus, getOpenExceptionCounts } from "@/lib/pay-run-exceptions";
 
 type PayRunsPageProps = {
@@ -47,7 +48,7 @@ const statusBadgeClasses: Record<PayRunStatus, string> = {
 };
 
 export default async function PayRunsPage({ searchParams }: PayRunsPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const clientId =
     typeof searchParams?.clientId === "string" ? searchParams.clientId : undefined;
   const status =
@@ -60,6 +61,7 @@ export default async function PayRunsPage({ searchParams }: PayRunsPageProps) {
   const clients = await prisma.client.findMany({
     where: {
       firmId: session.firmId,
+      id: clientIdFilter(user),
       archivedAt: null
     },
     orderBy: { name: "asc" }
@@ -67,7 +69,7 @@ export default async function PayRunsPage({ searchParams }: PayRunsPageProps) {
 
   const whereClause = {
     firmId: session.firmId,
-    ...(clientId ? { clientId } : {}),
+    AND: [{ clientId: clientIdFilter(user) }, { clientId }],
     ...(statusFilter ? { status: statusFilter as PayRunStatus } : {}),
     ...(from
       ? {
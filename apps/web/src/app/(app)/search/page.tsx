@@ -2,6 +2,7 @@ import Link from "next/link";
 import type { Route } from "next";
 import { prisma, type PayRunStatus, Prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { clientIdFilter } from "@/lib/client-access";
 import { derivePayRunStatus, getOpenExceptionCounts } from "@/lib/pay-run-exceptions";
 
 type SearchPageProps = {
@@ -61,7 +62,7 @@ const parseDate = (value?: string, endOfDay = false) => {
 };
 
 export default async function SearchPage({ searchParams }: SearchPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const query = typeof searchParams?.q === "string" ? searchParams.q.trim() : "";
   const status =
     typeof searchParams?.status === "string" ? searchParams.status : "";
@@ -73,6 +74,7 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
   const toDate = parseDate(to, true);
 
   const basePayRunFilter: Prisma.PayRunWhereInput = {
+    clientId: clientIdFilter(user),
     ...(query
       ? {
           client: {
@@ -103,9 +105,7 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
     prisma.pack.findMany({
       where: {
         firmId: session.firmId,
-        ...(Object.keys(basePayRunFilter).length > 0
-          ? { payRun: { is: basePayRunFilter } }
-          : {})
+        payRun: { is: basePayRunFilter }
       },
       include: {
         payRun: {
@@ -0,0 +1,42 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { ValidationError } from "@/lib/errors";
+import { revokeUserSessions } from "@/lib/user-sessions";
+
+const revokeSessionSchema = z.object({
+  sessionId: z.string().uuid()
+});
+
+export const revokeOwnSessionFromForm = async (formData: FormData) => {
+  const { session, currentSessionId } = await requireUser();
+
+  const parsed = revokeSessionSchema.safeParse({
+    sessionId: formData.get("sessionId")
+  });
+  if (!parsed.success || parsed.data.sessionId === currentSessionId) {
+    throw new ValidationError("Unable to sign out that session.");
+  }
+
+  await revokeUserSessions(
+    { firmId: session.firmId, userId: session.userId },
+    session.userId,
+    "REVOKED",
+    { sessionId: parsed.data.sessionId }
+  );
+  revalidatePath("/sessions");
+};
+
+export const revokeOtherSessionsFromForm = async () => {
+  const { session, currentSessionId } = await requireUser();
+
+  await revokeUserSessions(
+    { firmId: session.firmId, userId: session.userId },
+    session.userId,
+    "REVOKED",
+    { exceptSessionId: currentSessionId }
+  );
+  revalidatePath("/sessions");
+};
@@ -0,0 +1,40 @@
+import { requireUser } from "@/lib/auth";
+import { listActiveSessions, parseSessionSettings } from "@/lib/user-sessions";
+import { SessionList } from "@/components/SessionList";
+import { revokeOtherSessionsFromForm, revokeOwnSessionFromForm } from "./actions";
+
+export default async function SessionsPage() {
+  const { session, user, currentSessionId } = await requireUser();
+  const timeouts = parseSessionSettings(user.firm.defaults);
+  const sessions = await listActiveSessions(session.firmId, user.id, timeouts);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Sessions</h1>
+        <p className="mt-2 text-sm text-slate">
+          Browsers signed in to your account. Sessions end after {timeouts.idleTimeoutMinutes}{" "}
+          minutes without activity, and {timeouts.absoluteTimeoutHours} hours after sign-in.
+        </p>
+      </div>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <SessionList
+          sessions={sessions}
+          currentSessionId={currentSessionId}
+          revokeAction={revokeOwnSessionFromForm}
+        />
+        {sessions.length > 1 ? (
+          <form action={revokeOtherSessionsFromForm}>
+            <button
+              type="submit"
+              className="rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+            >
+              Sign out all other sessions
+            </button>
+          </form>
+        ) : null}
+      </section>
+    </div>
+  );
+}
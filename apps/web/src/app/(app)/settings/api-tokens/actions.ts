@@ -0,0 +1,68 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { createApiToken, parseApiTokenForm, revokeApiToken } from "@/lib/api-tokens";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { PermissionError, requirePermission } from "@/lib/permissions";
+import type { ApiTokenFormState } from "@/components/CreateApiTokenForm";
+
+const tokenIdSchema = z.object({
+  tokenId: z.string().uuid()
+});
+
+export const createServiceApiTokenAction = async (
+  _prevState: ApiTokenFormState,
+  formData: FormData
+): Promise<ApiTokenFormState> => {
+  const { session, user } = await requireUser();
+  try {
+    requirePermission(user, "firm:manage");
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return { error: "Permission denied." };
+    }
+    throw error;
+  }
+
+  try {
+    const { token } = await createApiToken(
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions
+      },
+      parseApiTokenForm(formData, "SERVICE")
+    );
+    revalidatePath("/settings/api-tokens");
+    return { token };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+};
+
+export const revokeApiTokenFromForm = async (formData: FormData) => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const parsed = tokenIdSchema.safeParse({
+    tokenId: formData.get("tokenId")
+  });
+  if (!parsed.success) {
+    throw new ValidationError("Unable to revoke that token.");
+  }
+
+  try {
+    await revokeApiToken({ firmId: session.firmId, userId: session.userId }, parsed.data.tokenId);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+  }
+  revalidatePath("/settings/api-tokens");
+};
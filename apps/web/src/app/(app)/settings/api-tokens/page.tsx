@@ -0,0 +1,49 @@
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { apiTokenExpiryDays, grantableApiScopes, listApiTokens } from "@/lib/api-tokens";
+import { ApiTokenList } from "@/components/ApiTokenList";
+import { CreateApiTokenForm } from "@/components/CreateApiTokenForm";
+import { SettingsNav } from "@/components/SettingsNav";
+import { createServiceApiTokenAction, revokeApiTokenFromForm } from "./actions";
+
+export default async function ApiTokenSettingsPage() {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const tokens = await listApiTokens(session.firmId);
+  const serviceTokens = tokens.filter((token) => token.kind === "SERVICE");
+  const personalTokens = tokens.filter((token) => token.kind === "PERSONAL");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">API tokens</h1>
+        <p className="mt-2 text-sm text-slate">
+          Service tokens are for firm integrations. They act as the admin who created them,
+          limited to their scopes, and stop working if that admin is disabled. Every write and
+          periodic reads are recorded in the audit log.
+        </p>
+      </div>
+      <SettingsNav />
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">New service token</h2>
+        <CreateApiTokenForm
+          action={createServiceApiTokenAction}
+          scopes={grantableApiScopes(user)}
+          expiryDays={apiTokenExpiryDays}
+        />
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">Service tokens</h2>
+        <ApiTokenList tokens={serviceTokens} revokeAction={revokeApiTokenFromForm} showOwner />
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">Personal tokens</h2>
+        <ApiTokenList tokens={personalTokens} revokeAction={revokeApiTokenFromForm} showOwner />
+      </section>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ const parseCheckbox = (formData: FormData, key: string) =>
 
 export const updateApprovalSettingsAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "firm:manage");
+  requirePermission(user, "firm:manage");
 
   const firm = await prisma.firm.findFirst({
     where: { id: session.firmId }
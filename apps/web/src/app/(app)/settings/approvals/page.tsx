@@ -17,7 +17,7 @@ const parseApprovalSettings = (defaults: unknown) => {
 
 export default async function ApprovalSettingsPage() {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "firm:manage");
+  requirePermission(user, "firm:manage");
 
   const firm = await prisma.firm.findFirst({
     where: { id: session.firmId }
@@ -17,7 +17,7 @@ const parseDate = (value: string | null, boundary: "start" | "end") => {
 
 export const GET = async (request: Request) => {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "audit:view");
+  requirePermission(user, "audit:view");
 
   const url = new URL(request.url);
   const fromParam = url.searchParams.get("from");
@@ -36,6 +36,7 @@ export const GET = async (request: Request) => {
   const rows = await getAuditExportRows({
     firmId: session.firmId,
     clientId: clientId && clientId.length > 0 ? clientId : null,
+    clientIds: user.clientIds,
     from,
     to
   });
@@ -0,0 +1,147 @@
+import Link from "next/link";
+import type { Route } from "next";
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { recordAuditEvent } from "@/lib/audit";
+import { verifyAuditChain } from "@/lib/audit-chain";
+import { SettingsNav } from "@/components/SettingsNav";
+
+const formatter = new Intl.DateTimeFormat("en-GB", {
+  dateStyle: "medium",
+  timeStyle: "short"
+});
+
+const breakLabels = {
+  SEQUENCE_GAP: "Missing events",
+  PREVIOUS_HASH_MISMATCH: "Broken link",
+  HASH_MISMATCH: "Modified event"
+} as const;
+
+type AuditIntegrityPageProps = {
+  searchParams?: Record<string, string | string[] | undefined>;
+};
+
+export default async function AuditIntegrityPage({ searchParams }: AuditIntegrityPageProps) {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const shouldVerify = searchParams?.verify === "1";
+  const result = shouldVerify ? await verifyAuditChain(session.firmId) : null;
+  if (result) {
+    await recordAuditEvent(
+      {
+        action: "AUDIT_CHAIN_VERIFIED",
+        entityType: "FIRM",
+        entityId: session.firmId,
+        metadata: {
+          checkedCount: result.checkedCount,
+          breakCount: result.breakCount,
+          headSequence: result.headSequence ?? 0
+        }
+      },
+      { firmId: session.firmId, actorUserId: user.id }
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Audit log integrity</h1>
+        <p className="mt-2 text-sm text-slate">
+          Each audit event carries a SHA-256 hash of its contents and of the event before it.
+          Editing or deleting history breaks the chain.
+        </p>
+      </div>
+      <SettingsNav />
+
+      <div className="space-y-4 rounded-xl border border-slate/20 bg-surface p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Link
+            href={"/settings/audit-log" as Route}
+            className="text-xs font-semibold uppercase tracking-wide text-slate hover:text-ink"
+          >
+            Back to audit log
+          </Link>
+          <form method="GET">
+            <input type="hidden" name="verify" value="1" />
+            <button
+              type="submit"
+              className="rounded-lg border border-slate/30 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate transition hover:border-slate/60"
+            >
+              {result ? "Verify again" : "Verify chain"}
+            </button>
+          </form>
+        </div>
+
+        {!result ? (
+          <p className="text-sm text-slate">
+            Verification walks every event in order and recomputes its hash.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div
+              className={
+                result.breakCount === 0
+                  ? "rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700"
+                  : "rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700"
+              }
+            >
+              <p className="font-semibold">
+                {result.breakCount === 0
+                  ? "Chain intact"
+                  : `${result.breakCount} break(s) found`}
+              </p>
+              <p className="mt-1">
+                {result.checkedCount} event(s) checked at{" "}
+                {formatter.format(result.verifiedAt)}.
+                {result.unchainedCount > 0
+                  ? ` ${result.unchainedCount} event(s) predate chaining and cannot be checked.`
+                  : ""}
+              </p>
+              {result.headHash ? (
+                <p className="mt-1 break-all font-mono text-[11px]">
+                  Head #{result.headSequence} {result.headHash}
+                </p>
+              ) : null}
+            </div>
+
+            {result.breaks.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase tracking-wide text-slate">
+                      <th className="pb-3">Sequence</th>
+                      <th className="pb-3">Time</th>
+                      <th className="pb-3">Action</th>
+                      <th className="pb-3">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate/10">
+                    {result.breaks.map((entry) => (
+                      <tr key={`${entry.eventId}-${entry.kind}`}>
+                        <td className="py-3 text-ink">#{entry.sequence}</td>
+                        <td className="py-3 text-slate">{formatter.format(entry.timestamp)}</td>
+                        <td className="py-3 text-slate">{entry.action}</td>
+                        <td className="py-3 text-slate">
+                          <span className="font-semibold text-ink">
+                            {breakLabels[entry.kind]}
+                          </span>{" "}
+                          {entry.detail}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.breakCount > result.breaks.length ? (
+                  <p className="mt-2 text-xs text-slate">
+                    Showing the first {result.breaks.length} breaks.
+                  </p>
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
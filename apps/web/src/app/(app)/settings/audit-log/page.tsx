@@ -1,6 +1,8 @@
 import { prisma } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
-import { requirePermission } from "@/lib/permissions";
+import { can, requirePermission } from "@/lib/permissions";
+import { buildAuditEventWhere } from "@/lib/audit-export";
+import { clientIdFilter } from "@/lib/client-access";
 import { SettingsNav } from "@/components/SettingsNav";
 import Link from "next/link";
 import type { Route } from "next";
@@ -16,7 +18,7 @@ type AuditLogPageProps = {
 
 export default async function AuditLogPage({ searchParams }: AuditLogPageProps) {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "audit:view");
+  requirePermission(user, "audit:view");
 
   const clientParam =
     typeof searchParams?.clientId === "string" ? searchParams.clientId : "";
@@ -27,16 +29,18 @@ export default async function AuditLogPage({ searchParams }: AuditLogPageProps)
 
   const clients = await prisma.client.findMany({
     where: {
-      firmId: session.firmId
+      firmId: session.firmId,
+      id: clientIdFilter(user)
     },
     orderBy: { name: "asc" },
     select: { id: true, name: true }
   });
 
   const events = await prisma.auditEvent.findMany({
-    where: {
-      firmId: session.firmId
-    },
+    where: await buildAuditEventWhere({
+      firmId: session.firmId,
+      clientIds: user.clientIds
+    }),
     orderBy: {
       timestamp: "desc"
     },
@@ -77,6 +81,17 @@ export default async function AuditLogPage({ searchParams }: AuditLogPageProps)
             Download all
           </Link>
         </div>
+        <p className="mt-2 text-xs text-slate">
+          Exports include each event&apos;s chain hashes.{" "}
+          {can(user, "firm:manage") ? (
+            <Link
+              href={"/settings/audit-log/integrity" as Route}
+              className="font-semibold text-accent-strong"
+            >
+              Verify integrity
+            </Link>
+          ) : null}
+        </p>
 
         <form
           method="GET"
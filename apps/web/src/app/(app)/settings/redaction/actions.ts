@@ -10,7 +10,7 @@ const parseCheckbox = (formData: FormData, key: string): boolean =>
 
 export const updateRedactionSettingsAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "firm:manage");
+  requirePermission(user, "firm:manage");
 
   const firm = await prisma.firm.findFirst({
     where: { id: session.firmId }
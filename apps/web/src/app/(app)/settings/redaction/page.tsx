@@ -25,7 +25,7 @@ const parseRedaction = (defaults: unknown) => {
 
 export default async function RedactionSettingsPage() {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "firm:manage");
+  requirePermission(user, "firm:manage");
 
   const firm = await prisma.firm.findFirst({
     where: { id: session.firmId }
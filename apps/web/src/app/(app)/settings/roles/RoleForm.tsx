@@ -0,0 +1,119 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import { permissionDefinitions, type Permission } from "@/lib/permissions";
+import { deleteRoleAction, saveRoleAction, type RoleFormState } from "./actions";
+
+const initialState: RoleFormState = {};
+
+const permissionGroups = Array.from(
+  new Set(permissionDefinitions.map((definition) => definition.group))
+).map((group) => ({
+  group,
+  permissions: permissionDefinitions.filter((definition) => definition.group === group)
+}));
+
+const SubmitButton = ({ label }: { label: string }) => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Saving..." : label}
+    </button>
+  );
+};
+
+type RoleFormProps = {
+  role?: {
+    id: string;
+    name: string;
+    description: string | null;
+    permissions: Permission[];
+    userCount: number;
+  };
+};
+
+export const RoleForm = ({ role }: RoleFormProps) => {
+  const [state, formAction] = useFormState(saveRoleAction, initialState);
+  const [deleteState, deleteAction] = useFormState(deleteRoleAction, initialState);
+  const error = state.error ?? deleteState.error;
+
+  return (
+    <div className="space-y-4">
+      <form action={formAction} className="space-y-4">
+        {role ? <input type="hidden" name="roleId" value={role.id} /> : null}
+        <div className="grid gap-3 md:grid-cols-2">
+          <input
+            name="name"
+            defaultValue={role?.name}
+            placeholder="Role name, e.g. Senior reviewer"
+            required
+            maxLength={60}
+            className="w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm"
+          />
+          <input
+            name="description"
+            defaultValue={role?.description ?? ""}
+            placeholder="Description (optional)"
+            maxLength={200}
+            className="w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="grid gap-4 md:grid-cols-3">
+          {permissionGroups.map(({ group, permissions }) => (
+            <fieldset key={group} className="space-y-2">
+              <legend className="text-xs font-semibold uppercase tracking-wide text-slate">
+                {group}
+              </legend>
+              {permissions.map((permission) => (
+                <label key={permission.key} className="flex items-start gap-2 text-sm text-ink">
+                  <input
+                    type="checkbox"
+                    name="permissions"
+                    value={permission.key}
+                    defaultChecked={role?.permissions.includes(permission.key)}
+                    className="mt-1 h-4 w-4 rounded border-slate/40"
+                  />
+                  <span>{permission.label}</span>
+                </label>
+              ))}
+            </fieldset>
+          ))}
+        </div>
+        <SubmitButton label={role ? "Save role" : "Create role"} />
+      </form>
+
+      {role ? (
+        <form action={deleteAction}>
+          <input type="hidden" name="roleId" value={role.id} />
+          <button
+            type="submit"
+            disabled={role.userCount > 0}
+            className="rounded-lg border border-slate/30 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate transition hover:border-slate/60 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Delete role
+          </button>
+          {role.userCount > 0 ? (
+            <p className="mt-2 text-xs text-slate">
+              Reassign this role&apos;s users before deleting it.
+            </p>
+          ) : null}
+        </form>
+      ) : null}
+
+      {error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+      {state.success ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          Role saved.
+        </p>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/errors";
+import { PermissionError, requirePermission } from "@/lib/permissions";
+import { createFirmRole, deleteFirmRole, updateFirmRole } from "@/lib/roles";
+
+export type RoleFormState = {
+  error?: string;
+  success?: boolean;
+};
+
+const roleSchema = z.object({
+  roleId: z.string().uuid().optional(),
+  name: z.string().min(1).max(60),
+  description: z.string().max(200).optional()
+});
+
+const toErrorState = (error: unknown): RoleFormState => {
+  if (error instanceof PermissionError) {
+    return { error: "Permission denied." };
+  }
+  if (
+    error instanceof ValidationError ||
+    error instanceof ConflictError ||
+    error instanceof NotFoundError
+  ) {
+    return { error: error.message };
+  }
+  throw error;
+};
+
+export const saveRoleAction = async (
+  _prevState: RoleFormState,
+  formData: FormData
+): Promise<RoleFormState> => {
+  const { session, user } = await requireUser();
+  try {
+    requirePermission(user, "firm:manage");
+  } catch (error) {
+    return toErrorState(error);
+  }
+
+  const parsed = roleSchema.safeParse({
+    roleId: formData.get("roleId") || undefined,
+    name: formData.get("name"),
+    description: formData.get("description") || undefined
+  });
+  if (!parsed.success) {
+    return { error: "Provide a role name of up to 60 characters." };
+  }
+
+  const input = {
+    name: parsed.data.name,
+    description: parsed.data.description ?? null,
+    permissions: formData.getAll("permissions").map(String)
+  };
+  const context = { firmId: session.firmId, userId: user.id };
+
+  try {
+    if (parsed.data.roleId) {
+      await updateFirmRole(context, parsed.data.roleId, input);
+    } else {
+      await createFirmRole(context, input);
+    }
+  } catch (error) {
+    return toErrorState(error);
+  }
+
+  revalidatePath("/settings/roles");
+  return { success: true };
+};
+
+export const deleteRoleAction = async (
+  _prevState: RoleFormState,
+  formData: FormData
+): Promise<RoleFormState> => {
+  const { session, user } = await requireUser();
+  try {
+    requirePermission(user, "firm:manage");
+    await deleteFirmRole(
+      { firmId: session.firmId, userId: user.id },
+      String(formData.get("roleId") || "")
+    );
+  } catch (error) {
+    return toErrorState(error);
+  }
+
+  revalidatePath("/settings/roles");
+  return { success: true };
+};
@@ -0,0 +1,88 @@
+import { requireUser } from "@/lib/auth";
+import {
+  getRolePermissions,
+  isPermission,
+  permissionDefinitions,
+  requirePermission
+} from "@/lib/permissions";
+import { listFirmRoles } from "@/lib/roles";
+import { SettingsNav } from "@/components/SettingsNav";
+import { RoleForm } from "./RoleForm";
+
+const builtInRoles = [
+  { role: "ADMIN", label: "Admin" },
+  { role: "PREPARER", label: "Preparer" },
+  { role: "REVIEWER", label: "Reviewer" }
+] as const;
+
+export default async function RolesSettingsPage() {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const roles = await listFirmRoles(session.firmId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Roles</h1>
+        <p className="mt-2 text-sm text-slate">
+          Build firm roles from individual permissions and assign them under Users. A firm
+          role replaces the permissions of the user&apos;s built-in role.
+        </p>
+      </div>
+      <SettingsNav />
+
+      <section className="rounded-xl border border-slate/20 bg-surface p-6">
+        <h2 className="font-display text-lg font-semibold text-ink">Built-in roles</h2>
+        <div className="mt-4 grid gap-4 md:grid-cols-3">
+          {builtInRoles.map(({ role, label }) => {
+            const permissions = getRolePermissions(role);
+            return (
+              <div key={role} className="rounded-lg border border-slate/20 bg-surface-muted p-4">
+                <p className="text-sm font-semibold text-ink">{label}</p>
+                <ul className="mt-2 space-y-1 text-xs text-slate">
+                  {permissionDefinitions
+                    .filter((definition) => permissions.includes(definition.key))
+                    .map((definition) => (
+                      <li key={definition.key}>{definition.label}</li>
+                    ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-slate/20 bg-surface p-6">
+        <h2 className="font-display text-lg font-semibold text-ink">New role</h2>
+        <div className="mt-4">
+          <RoleForm />
+        </div>
+      </section>
+
+      {roles.map((role) => (
+        <section key={role.id} className="rounded-xl border border-slate/20 bg-surface p-6">
+          <details>
+            <summary className="cursor-pointer">
+              <span className="font-display text-lg font-semibold text-ink">{role.name}</span>
+              <span className="ml-3 text-xs text-slate">
+                {role.permissions.length} permission(s) · {role._count.users} user(s)
+              </span>
+            </summary>
+            <div className="mt-4">
+              <RoleForm
+                role={{
+                  id: role.id,
+                  name: role.name,
+                  description: role.description,
+                  permissions: role.permissions.filter(isPermission),
+                  userCount: role._count.users
+                }}
+              />
+            </div>
+          </details>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { recordAuditEvent } from "@/lib/audit";
+import { mfaRequirements, parseMfaSettings, type MfaRequirement } from "@/lib/mfa";
+import { parseSessionSettings, sessionTimeoutLimits } from "@/lib/user-sessions";
+
+export const updateMfaSettingsAction = async (formData: FormData) => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const requirement = formData.get("requirement");
+  if (!mfaRequirements.includes(requirement as MfaRequirement)) {
+    return;
+  }
+
+  const firm = await prisma.firm.findFirst({
+    where: { id: session.firmId }
+  });
+  if (!firm) {
+    return;
+  }
+
+  const defaults =
+    firm.defaults && typeof firm.defaults === "object"
+      ? (firm.defaults as Record<string, unknown>)
+      : {};
+  const previous = parseMfaSettings(firm.defaults);
+
+  await prisma.firm.update({
+    where: { id: firm.id },
+    data: {
+      defaults: {
+        ...defaults,
+        mfa: { requirement: requirement as MfaRequirement }
+      }
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "MFA_SETTINGS_UPDATED",
+      entityType: "FIRM",
+      entityId: firm.id,
+      metadata: {
+        from: previous.requirement,
+        to: requirement as MfaRequirement
+      }
+    },
+    {
+      firmId: firm.id,
+      actorUserId: user.id
+    }
+  );
+
+  revalidatePath("/settings/security");
+};
+
+const readTimeoutField = (formData: FormData, key: keyof typeof sessionTimeoutLimits) => {
+  const value = Number(formData.get(key));
+  const { min, max } = sessionTimeoutLimits[key];
+  return Number.isInteger(value) && value >= min && value <= max ? value : null;
+};
+
+export const updateSessionSettingsAction = async (formData: FormData) => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const idleTimeoutMinutes = readTimeoutField(formData, "idleTimeoutMinutes");
+  const absoluteTimeoutHours = readTimeoutField(formData, "absoluteTimeoutHours");
+  if (idleTimeoutMinutes === null || absoluteTimeoutHours === null) {
+    return;
+  }
+
+  const firm = await prisma.firm.findFirst({
+    where: { id: session.firmId }
+  });
+  if (!firm) {
+    return;
+  }
+
+  const defaults =
+    firm.defaults && typeof firm.defaults === "object"
+      ? (firm.defaults as Record<string, unknown>)
+      : {};
+  const previous = parseSessionSettings(firm.defaults);
+
+  await prisma.firm.update({
+    where: { id: firm.id },
+    data: {
+      defaults: {
+        ...defaults,
+        sessions: { idleTimeoutMinutes, absoluteTimeoutHours }
+      }
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "SESSION_SETTINGS_UPDATED",
+      entityType: "FIRM",
+      entityId: firm.id,
+      metadata: {
+        fromIdleTimeoutMinutes: previous.idleTimeoutMinutes,
+        toIdleTimeoutMinutes: idleTimeoutMinutes,
+        fromAbsoluteTimeoutHours: previous.absoluteTimeoutHours,
+        toAbsoluteTimeoutHours: absoluteTimeoutHours
+      }
+    },
+    {
+      firmId: firm.id,
+      actorUserId: user.id
+    }
+  );
+
+  revalidatePath("/settings/security");
+};
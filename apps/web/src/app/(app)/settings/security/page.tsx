@@ -0,0 +1,136 @@
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { parseMfaSettings, type MfaRequirement } from "@/lib/mfa";
+import { parseSessionSettings, sessionTimeoutLimits } from "@/lib/user-sessions";
+import { SettingsNav } from "@/components/SettingsNav";
+import { updateMfaSettingsAction, updateSessionSettingsAction } from "./actions";
+
+const requirementOptions: Array<{
+  value: MfaRequirement;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "OFF",
+    label: "Optional",
+    description: "Users may turn on two-step verification for their own account."
+  },
+  {
+    value: "PRIVILEGED",
+    label: "Required for admins and reviewers",
+    description:
+      "Users whose built-in role is Admin or Reviewer must enroll before using the workspace."
+  },
+  {
+    value: "ALL",
+    label: "Required for everyone",
+    description: "Every user must enroll before using the workspace."
+  }
+];
+
+export default async function SecuritySettingsPage() {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const [firm, enrolledCount, activeCount] = await Promise.all([
+    prisma.firm.findFirst({
+      where: { id: session.firmId }
+    }),
+    prisma.user.count({
+      where: { firmId: session.firmId, status: "ACTIVE", mfaEnabledAt: { not: null } }
+    }),
+    prisma.user.count({
+      where: { firmId: session.firmId, status: "ACTIVE" }
+    })
+  ]);
+
+  const mfaSettings = parseMfaSettings(firm?.defaults);
+  const sessionSettings = parseSessionSettings(firm?.defaults);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Security</h1>
+        <p className="mt-2 text-sm text-slate">
+          Decide who must use an authenticator app code at sign-in. {enrolledCount} of{" "}
+          {activeCount} active user(s) have enrolled.
+        </p>
+      </div>
+      <SettingsNav />
+
+      <form
+        action={updateMfaSettingsAction}
+        className="space-y-4 rounded-xl border border-slate/20 bg-surface p-6"
+      >
+        {requirementOptions.map((option) => (
+          <label key={option.value} className="flex items-start gap-3 text-sm text-slate">
+            <input
+              name="requirement"
+              type="radio"
+              value={option.value}
+              defaultChecked={mfaSettings.requirement === option.value}
+              className="mt-1 h-4 w-4 border-slate/40"
+            />
+            <span>
+              <span className="font-semibold text-ink">{option.label}</span>
+              <span className="mt-1 block text-xs text-slate">{option.description}</span>
+            </span>
+          </label>
+        ))}
+
+        <button
+          type="submit"
+          className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong"
+        >
+          Save security settings
+        </button>
+      </form>
+
+      <form
+        action={updateSessionSettingsAction}
+        className="space-y-4 rounded-xl border border-slate/20 bg-surface p-6"
+      >
+        <div>
+          <h2 className="font-display text-lg font-semibold text-ink">Session timeouts</h2>
+          <p className="mt-1 text-sm text-slate">
+            Users are signed out after a period without activity, and always after a fixed time
+            from sign-in. Changes apply to sessions that are already open.
+          </p>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate">
+            Idle timeout (minutes)
+            <input
+              name="idleTimeoutMinutes"
+              type="number"
+              required
+              min={sessionTimeoutLimits.idleTimeoutMinutes.min}
+              max={sessionTimeoutLimits.idleTimeoutMinutes.max}
+              defaultValue={sessionSettings.idleTimeoutMinutes}
+              className="mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm font-normal normal-case tracking-normal text-ink"
+            />
+          </label>
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate">
+            Maximum session length (hours)
+            <input
+              name="absoluteTimeoutHours"
+              type="number"
+              required
+              min={sessionTimeoutLimits.absoluteTimeoutHours.min}
+              max={sessionTimeoutLimits.absoluteTimeoutHours.max}
+              defaultValue={sessionSettings.absoluteTimeoutHours}
+              className="mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm font-normal normal-case tracking-normal text-ink"
+            />
+          </label>
+        </div>
+        <button
+          type="submit"
+          className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong"
+        >
+          Save session timeouts
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { rotateSigningKey } from "@/lib/pack-signing";
+
+export const rotateSigningKeyAction = async () => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  await rotateSigningKey({ firmId: session.firmId, userId: session.userId });
+
+  revalidatePath("/settings/signing");
+};
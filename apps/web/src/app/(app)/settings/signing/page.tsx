@@ -0,0 +1,82 @@
+import Link from "next/link";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { SettingsNav } from "@/components/SettingsNav";
+import { rotateSigningKeyAction } from "./actions";
+
+export default async function SigningSettingsPage() {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const keys = await prisma.firmSigningKey.findMany({
+    where: { firmId: session.firmId },
+    include: { _count: { select: { packs: true } } },
+    orderBy: { createdAt: "desc" }
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Pack signing</h1>
+        <p className="mt-2 text-sm text-slate">
+          Every pack is signed with your firm&apos;s key. Recipients can check a pack at{" "}
+          <Link href="/verify" className="font-semibold text-accent-strong">
+            /verify
+          </Link>{" "}
+          or offline with the public key in the evidence bundle.
+        </p>
+      </div>
+      <SettingsNav />
+
+      <div className="space-y-4 rounded-xl border border-slate/20 bg-surface p-6">
+        {keys.length === 0 ? (
+          <p className="text-sm text-slate">
+            No signing key yet. One is created when the first pack is generated.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {keys.map((key) => (
+              <li
+                key={key.id}
+                className="rounded-lg border border-slate/20 bg-surface-muted px-4 py-3"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-ink">
+                    {key.algorithm} · {key.status === "ACTIVE" ? "Active" : "Retired"}
+                  </span>
+                  <span className="text-xs text-slate">
+                    Created{" "}
+                    {key.createdAt.toLocaleString("en-GB", {
+                      dateStyle: "medium",
+                      timeStyle: "short"
+                    })}{" "}
+                    · {key._count.packs} pack(s) signed
+                  </span>
+                </div>
+                <p className="mt-1 break-all font-mono text-[11px] text-slate">
+                  Fingerprint {key.fingerprint}
+                </p>
+                <pre className="mt-2 overflow-x-auto rounded bg-surface px-3 py-2 font-mono text-[11px] text-slate">
+                  {key.publicKeyPem}
+                </pre>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form action={rotateSigningKeyAction}>
+          <button
+            type="submit"
+            className="rounded-lg border border-slate/30 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate transition hover:border-slate/60"
+          >
+            {keys.length === 0 ? "Create signing key" : "Rotate signing key"}
+          </button>
+          <p className="mt-2 text-xs text-slate">
+            Rotation retires the current key. Packs already signed keep verifying.
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
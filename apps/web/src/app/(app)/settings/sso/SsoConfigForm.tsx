@@ -0,0 +1,162 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import { saveSsoConfigAction, type SsoFormState } from "./actions";
+
+const initialState: SsoFormState = {};
+
+const SubmitButton = () => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Saving..." : "Save single sign-on"}
+    </button>
+  );
+};
+
+type SsoConfigFormProps = {
+  config: {
+    enabled: boolean;
+    issuer: string;
+    clientId: string;
+    allowedDomains: string[];
+    groupsClaim: string;
+    groupRoleMappings: Array<{ group: string; role: string }>;
+    defaultRole: string | null;
+    jitProvisioning: boolean;
+    passwordLoginDisabled: boolean;
+  } | null;
+};
+
+const inputClassName = "mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm";
+const labelClassName = "text-xs font-semibold uppercase tracking-wide text-slate";
+
+export const SsoConfigForm = ({ config }: SsoConfigFormProps) => {
+  const [state, formAction] = useFormState(saveSsoConfigAction, initialState);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <label className={labelClassName}>Issuer URL</label>
+          <input
+            name="issuer"
+            type="url"
+            required
+            defaultValue={config?.issuer}
+            placeholder="https://login.example.com"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Client ID</label>
+          <input name="clientId" required defaultValue={config?.clientId} className={inputClassName} />
+        </div>
+        <div>
+          <label className={labelClassName}>Client secret</label>
+          <input
+            name="clientSecret"
+            type="password"
+            autoComplete="off"
+            required={!config}
+            placeholder={config ? "Leave blank to keep the current secret" : undefined}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Allowed email domains</label>
+          <input
+            name="allowedDomains"
+            required
+            defaultValue={config?.allowedDomains.join(", ")}
+            placeholder="example.com, example.co.uk"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Groups claim</label>
+          <input
+            name="groupsClaim"
+            defaultValue={config?.groupsClaim ?? "groups"}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Role without a mapped group</label>
+          <select
+            name="defaultRole"
+            defaultValue={config?.defaultRole ?? ""}
+            className={inputClassName}
+          >
+            <option value="">Refuse sign-in</option>
+            <option value="PREPARER">Preparer</option>
+            <option value="REVIEWER">Reviewer</option>
+            <option value="ADMIN">Admin</option>
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className={labelClassName}>Group to role mappings</label>
+        <textarea
+          name="groupRoleMappings"
+          rows={4}
+          defaultValue={config?.groupRoleMappings
+            .map((mapping) => `${mapping.group} = ${mapping.role}`)
+            .join("\n")}
+          placeholder={"tally-admins = ADMIN\ntally-reviewers = REVIEWER"}
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+      <div className="space-y-3">
+        {[
+          {
+            name: "enabled",
+            label: "Enable single sign-on",
+            description: "Users with an allowed email domain can sign in through the provider.",
+            checked: config?.enabled ?? false
+          },
+          {
+            name: "jitProvisioning",
+            label: "Create users at first sign-in",
+            description: "New users get the most privileged role among their mapped groups.",
+            checked: config?.jitProvisioning ?? true
+          },
+          {
+            name: "passwordLoginDisabled",
+            label: "Disable password sign-in",
+            description: "Everyone in the firm must sign in through the provider.",
+            checked: config?.passwordLoginDisabled ?? false
+          }
+        ].map((option) => (
+          <label key={option.name} className="flex items-start gap-3 text-sm text-slate">
+            <input
+              name={option.name}
+              type="checkbox"
+              defaultChecked={option.checked}
+              className="mt-1 h-4 w-4 rounded border-slate/40"
+            />
+            <span>
+              <span className="font-semibold text-ink">{option.label}</span>
+              <span className="mt-1 block text-xs text-slate">{option.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      {state.success ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          Single sign-on saved.
+        </p>
+      ) : null}
+      <SubmitButton />
+    </form>
+  );
+};
@@ -0,0 +1,101 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { ConflictError, ValidationError } from "@/lib/errors";
+import { PermissionError, requirePermission } from "@/lib/permissions";
+import { saveFirmSsoConfig, type GroupRoleMapping } from "@/lib/sso";
+
+export type SsoFormState = {
+  error?: string;
+  success?: boolean;
+};
+
+const roleSchema = z.enum(["ADMIN", "PREPARER", "REVIEWER"]);
+
+const ssoSchema = z.object({
+  issuer: z.string().trim().url(),
+  clientId: z.string().trim().min(1).max(200),
+  clientSecret: z.string().max(500),
+  allowedDomains: z.string().trim().min(1),
+  groupsClaim: z.string().trim().max(100),
+  defaultRole: z.union([roleSchema, z.literal("")])
+});
+
+// One mapping per line, e.g. "tally-reviewers = REVIEWER".
+const parseMappings = (value: string): GroupRoleMapping[] | string =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .reduce<GroupRoleMapping[] | string>((mappings, line, index) => {
+      if (typeof mappings === "string") {
+        return mappings;
+      }
+      const separator = line.lastIndexOf("=");
+      const role = roleSchema.safeParse(line.slice(separator + 1).trim().toUpperCase());
+      const group = line.slice(0, separator).trim();
+      if (separator === -1 || !group || !role.success) {
+        return `Group mapping line ${index + 1}: use "group = ADMIN", PREPARER or REVIEWER.`;
+      }
+      return [...mappings, { group, role: role.data }];
+    }, []);
+
+export const saveSsoConfigAction = async (
+  _prevState: SsoFormState,
+  formData: FormData
+): Promise<SsoFormState> => {
+  const { session, user } = await requireUser();
+  try {
+    requirePermission(user, "firm:manage");
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return { error: "Permission denied." };
+    }
+    throw error;
+  }
+
+  const parsed = ssoSchema.safeParse({
+    issuer: formData.get("issuer"),
+    clientId: formData.get("clientId"),
+    clientSecret: formData.get("clientSecret") ?? "",
+    allowedDomains: formData.get("allowedDomains"),
+    groupsClaim: formData.get("groupsClaim") ?? "",
+    defaultRole: formData.get("defaultRole") ?? ""
+  });
+  if (!parsed.success) {
+    return { error: "Enter the issuer URL, client ID and at least one email domain." };
+  }
+
+  const groupRoleMappings = parseMappings(String(formData.get("groupRoleMappings") ?? ""));
+  if (typeof groupRoleMappings === "string") {
+    return { error: groupRoleMappings };
+  }
+
+  try {
+    await saveFirmSsoConfig(
+      { firmId: session.firmId, userId: session.userId },
+      {
+        enabled: formData.get("enabled") === "on",
+        issuer: parsed.data.issuer,
+        clientId: parsed.data.clientId,
+        clientSecret: parsed.data.clientSecret,
+        allowedDomains: parsed.data.allowedDomains.split(/[\s,]+/),
+        groupsClaim: parsed.data.groupsClaim,
+        groupRoleMappings,
+        defaultRole: parsed.data.defaultRole || null,
+        jitProvisioning: formData.get("jitProvisioning") === "on",
+        passwordLoginDisabled: formData.get("passwordLoginDisabled") === "on"
+      }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof ConflictError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+
+  revalidatePath("/settings/sso");
+  return { success: true };
+};
@@ -0,0 +1,50 @@
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { getFirmSsoConfig, oidcRedirectUri, parseGroupRoleMappings } from "@/lib/sso";
+import { SettingsNav } from "@/components/SettingsNav";
+import { SsoConfigForm } from "./SsoConfigForm";
+
+export default async function SsoSettingsPage() {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const config = await getFirmSsoConfig(session.firmId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Single sign-on</h1>
+        <p className="mt-2 text-sm text-slate">
+          Connect an OpenID Connect identity provider. Register this redirect URI with the
+          provider:
+        </p>
+        <p className="mt-2 break-all font-mono text-sm text-ink">{oidcRedirectUri()}</p>
+      </div>
+      <SettingsNav />
+
+      <section className="rounded-xl border border-slate/20 bg-surface p-6">
+        <SsoConfigForm
+          config={
+            config
+              ? {
+                  enabled: config.enabled,
+                  issuer: config.issuer,
+                  clientId: config.clientId,
+                  allowedDomains: config.allowedDomains,
+                  groupsClaim: config.groupsClaim,
+                  groupRoleMappings: parseGroupRoleMappings(config.groupRoleMappings),
+                  defaultRole: config.defaultRole,
+                  jitProvisioning: config.jitProvisioning,
+                  passwordLoginDisabled: config.passwordLoginDisabled
+                }
+              : null
+          }
+        />
+        <p className="mt-4 text-xs text-slate">
+          Existing users are matched by email at their first SSO sign-in and keep their
+          role. Test sign-in in a private window before disabling passwords.
+        </p>
+      </section>
+    </div>
+  );
+}
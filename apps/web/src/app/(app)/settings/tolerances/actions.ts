@@ -9,7 +9,7 @@ import { parseToleranceForm } from "@/lib/tolerance-form";
 
 export const updateFirmTolerancesAction = async (formData: FormData) => {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "firm:manage");
+  requirePermission(user, "firm:manage");
 
   const firm = await prisma.firm.findFirst({
     where: { id: session.firmId }
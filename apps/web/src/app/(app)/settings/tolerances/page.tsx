@@ -8,7 +8,7 @@ import { updateFirmTolerancesAction } from "./actions";
 
 export default async function TolerancesSettingsPage() {
   const { session, user } = await requireUser();
-  requirePermission(user.role, "firm:manage");
+  requirePermission(user, "firm:manage");
 
   const firm = await prisma.firm.findFirst({
     where: { id: session.firmId }
@@ -0,0 +1,38 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import { createPasswordResetAction, type PasswordResetState } from "./actions";
+
+const initialState: PasswordResetState = {};
+
+const SubmitButton = () => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg border border-slate/30 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Creating..." : "Reset link"}
+    </button>
+  );
+};
+
+export const PasswordResetLinkForm = ({ userId }: { userId: string }) => {
+  const [state, formAction] = useFormState(createPasswordResetAction, initialState);
+
+  return (
+    <div className="space-y-2">
+      <form action={formAction}>
+        <input type="hidden" name="userId" value={userId} />
+        <SubmitButton />
+      </form>
+      {state.error ? <p className="text-xs text-red-700">{state.error}</p> : null}
+      {state.resetLink ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-2 py-1 text-xs text-emerald-700">
+          Valid for one hour: <span className="break-all">{state.resetLink}</span>
+        </p>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import { disableUserAction, type DisableUserState } from "../../actions";
+
+const initialState: DisableUserState = {};
+
+type ReassignmentField = {
+  name: "exceptionsToUserId" | "reviewerToUserId" | "templatesToUserId";
+  label: string;
+  candidates: Array<{ id: string; email: string }>;
+};
+
+const SubmitButton = () => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg bg-red-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Disabling..." : "Reassign and disable"}
+    </button>
+  );
+};
+
+export const DisableUserForm = ({
+  userId,
+  fields
+}: {
+  userId: string;
+  fields: ReassignmentField[];
+}) => {
+  const [state, formAction] = useFormState(disableUserAction, initialState);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <input type="hidden" name="userId" value={userId} />
+      {fields.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-3">
+          {fields.map((field) => (
+            <label
+              key={field.name}
+              className="text-xs font-semibold uppercase tracking-wide text-slate"
+            >
+              {field.label}
+              <select
+                name={field.name}
+                required
+                defaultValue=""
+                className="mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm font-normal normal-case tracking-normal text-ink"
+              >
+                <option value="" disabled>
+                  Choose a user
+                </option>
+                {field.candidates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.email}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      ) : null}
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      <SubmitButton />
+    </form>
+  );
+};
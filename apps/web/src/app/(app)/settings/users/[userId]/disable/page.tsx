@@ -0,0 +1,155 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/auth";
+import { listUserWork } from "@/lib/offboarding";
+import { requirePermission } from "@/lib/permissions";
+import { listUsersWithPermission } from "@/lib/roles";
+import { SettingsNav } from "@/components/SettingsNav";
+import { DisableUserForm } from "./DisableUserForm";
+
+const WorkList = ({
+  title,
+  items,
+  empty
+}: {
+  title: string;
+  items: Array<{ id: string; label: string; detail?: string }>;
+  empty: string;
+}) => (
+  <div>
+    <h2 className="font-display text-lg font-semibold text-ink">
+      {title} ({items.length})
+    </h2>
+    {items.length === 0 ? (
+      <p className="mt-2 text-sm text-slate">{empty}</p>
+    ) : (
+      <ul className="mt-2 divide-y divide-slate/10 text-sm">
+        {items.map((item) => (
+          <li key={item.id} className="flex justify-between gap-4 py-2">
+            <span className="text-ink">{item.label}</span>
+            {item.detail ? <span className="text-slate">{item.detail}</span> : null}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default async function DisableUserPage({
+  params
+}: {
+  params: { userId: string };
+}) {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const target = await prisma.user.findFirst({
+    where: { id: params.userId, firmId: session.firmId },
+    select: { id: true, email: true, status: true }
+  });
+  if (!target) {
+    notFound();
+  }
+  if (target.status === "DISABLED" || target.id === user.id) {
+    redirect("/settings/users");
+  }
+
+  const [work, resolvers, approvers, templateEditors] = await Promise.all([
+    listUserWork(session.firmId, target.id),
+    listUsersWithPermission(session.firmId, "exception:resolve"),
+    listUsersWithPermission(session.firmId, "pay-run:approve"),
+    listUsersWithPermission(session.firmId, "template:write")
+  ]);
+  const others = (candidates: Array<{ id: string; email: string }>) =>
+    candidates.filter((candidate) => candidate.id !== target.id);
+
+  const fields = [
+    ...(work.openExceptions.length
+      ? [
+          {
+            name: "exceptionsToUserId" as const,
+            label: "Open exceptions go to",
+            candidates: others(resolvers)
+          }
+        ]
+      : []),
+    ...(work.reviewerClients.length
+      ? [
+          {
+            name: "reviewerToUserId" as const,
+            label: "Client reviews go to",
+            candidates: others(approvers)
+          }
+        ]
+      : []),
+    ...(work.draftTemplates.length
+      ? [
+          {
+            name: "templatesToUserId" as const,
+            label: "Draft templates go to",
+            candidates: others(templateEditors)
+          }
+        ]
+      : [])
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Disable {target.email}</h1>
+        <p className="mt-2 text-sm text-slate">
+          Hand over this user&apos;s work before disabling them. They are signed out everywhere,
+          their API tokens are revoked and pending invites are withdrawn.{" "}
+          <Link className="font-semibold text-accent-strong" href="/settings/users">
+            Back to users
+          </Link>
+        </p>
+      </div>
+      <SettingsNav />
+
+      <section className="space-y-6 rounded-xl border border-slate/20 bg-surface p-5">
+        <WorkList
+          title="Open exceptions"
+          empty="No open exceptions are assigned."
+          items={work.openExceptions.map((exception) => ({
+            id: exception.id,
+            label: exception.title,
+            detail: `${exception.payRun.client.name} · ${exception.payRun.periodLabel}`
+          }))}
+        />
+        <WorkList
+          title="Default reviewer for clients"
+          empty="Not the default reviewer for any client."
+          items={work.reviewerClients.map((client) => ({
+            id: client.id,
+            label: client.name,
+            detail: client.archivedAt ? "Archived" : undefined
+          }))}
+        />
+        <WorkList
+          title="Pending reviews"
+          empty="No pay runs are waiting for this user's review."
+          items={work.pendingReviews.map((payRun) => ({
+            id: payRun.id,
+            label: payRun.client.name,
+            detail: `${payRun.periodLabel} · moves with the client reviewer`
+          }))}
+        />
+        <WorkList
+          title="Draft templates"
+          empty="No draft mapping templates."
+          items={work.draftTemplates.map((template) => ({
+            id: template.id,
+            label: `${template.name} v${template.version}`,
+            detail: `${template.sourceType} · ${template.client?.name ?? "All clients"}`
+          }))}
+        />
+      </section>
+
+      <section className="rounded-xl border border-red-200 bg-surface p-5">
+        <DisableUserForm userId={target.id} fields={fields} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { listActiveSessions, parseSessionSettings } from "@/lib/user-sessions";
+import { SessionList } from "@/components/SessionList";
+import { SettingsNav } from "@/components/SettingsNav";
+import { revokeAllUserSessionsFromForm, revokeUserSessionFromForm } from "../../actions";
+
+export default async function UserSessionsPage({
+  params
+}: {
+  params: { userId: string };
+}) {
+  const { session, user, currentSessionId } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const target = await prisma.user.findFirst({
+    where: { id: params.userId, firmId: session.firmId },
+    select: { id: true, email: true }
+  });
+  if (!target) {
+    notFound();
+  }
+
+  const sessions = await listActiveSessions(
+    session.firmId,
+    target.id,
+    parseSessionSettings(user.firm.defaults)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Sessions</h1>
+        <p className="mt-2 text-sm text-slate">
+          Browsers signed in as {target.email}.{" "}
+          <Link className="font-semibold text-accent-strong" href="/settings/users">
+            Back to users
+          </Link>
+        </p>
+      </div>
+      <SettingsNav />
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <SessionList
+          sessions={sessions}
+          currentSessionId={currentSessionId}
+          revokeAction={revokeUserSessionFromForm}
+          userId={target.id}
+        />
+        {sessions.length > 0 ? (
+          <form action={revokeAllUserSessionsFromForm}>
+            <input type="hidden" name="userId" value={target.id} />
+            <button
+              type="submit"
+              className="rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+            >
+              Sign out everywhere
+            </button>
+          </form>
+        ) : null}
+      </section>
+    </div>
+  );
+}
@@ -1,12 +1,21 @@
 "use server";
 
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
 import { z } from "zod";
 import { prisma, type Role, UserStatus } from "@/lib/prisma";
 import { env } from "@/lib/env";
 import { recordAuditEvent } from "@/lib/audit";
 import { generateInviteToken } from "@/lib/token";
 import { requireUser } from "@/lib/auth";
+import { NotFoundError, ValidationError } from "@/lib/errors";
 import { PermissionError, requirePermission } from "@/lib/permissions";
+import { assignUserRole } from "@/lib/roles";
+import { setUserClientAccess } from "@/lib/client-access";
+import { resetUserMfa } from "@/lib/mfa";
+import { disableUser } from "@/lib/offboarding";
+import { issuePasswordReset } from "@/lib/password-reset";
+import { revokeUserSessions } from "@/lib/user-sessions";
 
 export type InviteState = {
   error?: string;
@@ -24,7 +33,7 @@ export const createInviteAction = async (
 ): Promise<InviteState> => {
   const { session, user } = await requireUser();
   try {
-    requirePermission(user.role, "user:invite");
+    requirePermission(user, "user:invite");
   } catch (error) {
     if (error instanceof PermissionError) {
       return { error: "Permission denied." };
@@ -100,9 +109,14 @@ export type RoleUpdateState = {
   success?: boolean;
 };
 
+const FIRM_ROLE_PREFIX = "firmRole:";
+
 const roleUpdateSchema = z.object({
   userId: z.string().uuid(),
-  role: z.enum(["ADMIN", "PREPARER", "REVIEWER"])
+  role: z.union([
+    z.enum(["ADMIN", "PREPARER", "REVIEWER"]),
+    z.string().regex(/^firmRole:[0-9a-f-]{36}$/i)
+  ])
 });
 
 export const updateUserRoleAction = async (
@@ -111,7 +125,7 @@ export const updateUserRoleAction = async (
 ): Promise<RoleUpdateState> => {
   const { session, user } = await requireUser();
   try {
-    requirePermission(user.role, "user:role-change");
+    requirePermission(user, "user:role-change");
   } catch (error) {
     if (error instanceof PermissionError) {
       return { error: "Permission denied." };
@@ -139,34 +153,209 @@ export const updateUserRoleAction = async (
     return { error: "User not found." };
   }
 
-  if (targetUser.role === parsed.data.role) {
-    return { success: true };
-  }
-
-  await prisma.user.update({
-    where: { id: targetUser.id },
-    data: { role: parsed.data.role as Role }
-  });
+  // A firm-defined role keeps the user's built-in role underneath it.
+  const assignment = parsed.data.role.startsWith(FIRM_ROLE_PREFIX)
+    ? { role: targetUser.role, firmRoleId: parsed.data.role.slice(FIRM_ROLE_PREFIX.length) }
+    : { role: parsed.data.role as Role, firmRoleId: null };
 
-  await recordAuditEvent(
-    {
-      action: "USER_ROLE_CHANGED",
-      entityType: "USER",
-      entityId: targetUser.id,
-      metadata: {
-        from: targetUser.role,
-        to: parsed.data.role
-      }
-    },
-    {
-      firmId: session.firmId,
-      actorUserId: session.userId
+  try {
+    await assignUserRole(
+      { firmId: session.firmId, userId: session.userId },
+      targetUser.id,
+      assignment
+    );
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return { error: error.message };
     }
-  );
+    throw error;
+  }
 
+  revalidatePath("/settings/users");
   return { success: true };
 };
 
 export const updateUserRoleFromForm = async (formData: FormData) => {
   await updateUserRoleAction({}, formData);
 };
+
+const clientAccessSchema = z.object({
+  userId: z.string().uuid(),
+  clientAccess: z.enum(["ALL", "ASSIGNED"]),
+  clientIds: z.array(z.string().uuid())
+});
+
+export const updateUserClientAccessFromForm = async (formData: FormData) => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "user:role-change");
+
+  const parsed = clientAccessSchema.safeParse({
+    userId: formData.get("userId"),
+    clientAccess: formData.get("clientAccess"),
+    clientIds: formData.getAll("clientIds").map(String)
+  });
+  if (!parsed.success) {
+    throw new ValidationError("Unable to update client access.");
+  }
+
+  await setUserClientAccess(
+    { firmId: session.firmId, userId: session.userId },
+    parsed.data.userId,
+    { clientAccess: parsed.data.clientAccess, clientIds: parsed.data.clientIds }
+  );
+  revalidatePath("/settings/users");
+};
+
+const mfaResetSchema = z.object({
+  userId: z.string().uuid()
+});
+
+export const resetUserMfaFromForm = async (formData: FormData) => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const parsed = mfaResetSchema.safeParse({
+    userId: formData.get("userId")
+  });
+  if (!parsed.success) {
+    throw new ValidationError("Unable to reset two-step verification.");
+  }
+
+  await resetUserMfa({ firmId: session.firmId, userId: session.userId }, parsed.data.userId);
+  revalidatePath("/settings/users");
+};
+
+export type PasswordResetState = {
+  error?: string;
+  resetLink?: string;
+};
+
+const userIdSchema = z.object({
+  userId: z.string().uuid()
+});
+
+export const createPasswordResetAction = async (
+  _prevState: PasswordResetState,
+  formData: FormData
+): Promise<PasswordResetState> => {
+  const { session, user } = await requireUser();
+  try {
+    requirePermission(user, "firm:manage");
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return { error: "Permission denied." };
+    }
+    throw error;
+  }
+
+  const parsed = userIdSchema.safeParse({
+    userId: formData.get("userId")
+  });
+  if (!parsed.success) {
+    return { error: "Unable to create a reset link." };
+  }
+
+  try {
+    const { token } = await issuePasswordReset(
+      { firmId: session.firmId, userId: session.userId },
+      parsed.data.userId
+    );
+    return { resetLink: `${env.APP_BASE_URL}/reset-password/${token}` };
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+};
+
+export type DisableUserState = {
+  error?: string;
+};
+
+const optionalUserId = z
+  .string()
+  .uuid()
+  .optional()
+  .or(z.literal("").transform(() => undefined));
+
+const disableUserSchema = z.object({
+  userId: z.string().uuid(),
+  exceptionsToUserId: optionalUserId,
+  reviewerToUserId: optionalUserId,
+  templatesToUserId: optionalUserId
+});
+
+export const disableUserAction = async (
+  _prevState: DisableUserState,
+  formData: FormData
+): Promise<DisableUserState> => {
+  const { session, user } = await requireUser();
+  try {
+    requirePermission(user, "firm:manage");
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return { error: "Permission denied." };
+    }
+    throw error;
+  }
+
+  const parsed = disableUserSchema.safeParse({
+    userId: formData.get("userId"),
+    exceptionsToUserId: formData.get("exceptionsToUserId") ?? undefined,
+    reviewerToUserId: formData.get("reviewerToUserId") ?? undefined,
+    templatesToUserId: formData.get("templatesToUserId") ?? undefined
+  });
+  if (!parsed.success) {
+    return { error: "Unable to disable user." };
+  }
+
+  try {
+    await disableUser({ firmId: session.firmId, userId: session.userId }, parsed.data.userId, {
+      exceptionsToUserId: parsed.data.exceptionsToUserId,
+      reviewerToUserId: parsed.data.reviewerToUserId,
+      templatesToUserId: parsed.data.templatesToUserId
+    });
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+
+  revalidatePath("/settings/users");
+  redirect("/settings/users");
+};
+
+const revokeSessionSchema = z.object({
+  userId: z.string().uuid(),
+  sessionId: z.string().uuid().optional()
+});
+
+const revokeSessionsFromForm = async (formData: FormData, includeSessionId: boolean) => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const parsed = revokeSessionSchema.safeParse({
+    userId: formData.get("userId"),
+    sessionId: includeSessionId ? formData.get("sessionId") : undefined
+  });
+  if (!parsed.success || (includeSessionId && !parsed.data.sessionId)) {
+    throw new ValidationError("Unable to sign out sessions.");
+  }
+
+  await revokeUserSessions(
+    { firmId: session.firmId, userId: session.userId },
+    parsed.data.userId,
+    "REVOKED",
+    { sessionId: parsed.data.sessionId }
+  );
+  revalidatePath(`/settings/users/${parsed.data.userId}/sessions`);
+  revalidatePath("/settings/users");
+};
+
+export const revokeUserSessionFromForm = async (formData: FormData) =>
+  revokeSessionsFromForm(formData, true);
+
+export const revokeAllUserSessionsFromForm = async (formData: FormData) =>
+  revokeSessionsFromForm(formData, false);
@@ -1,21 +1,43 @@
+import Link from "next/link";
+import type { Route } from "next";
 import { prisma } from "@/lib/prisma";
 import { InviteUserForm } from "./InviteUserForm";
-import { updateUserRoleFromForm } from "./actions";
+import { PasswordResetLinkForm } from "./PasswordResetLinkForm";
+import {
+  resetUserMfaFromForm,
+  updateUserClientAccessFromForm,
+  updateUserRoleFromForm
+} from "./actions";
 import { requireUser } from "@/lib/auth";
-import { can } from "@/lib/permissions";
+import { can, resolveUserPermissions } from "@/lib/permissions";
+import { listFirmRoles } from "@/lib/roles";
 import { SettingsNav } from "@/components/SettingsNav";
 
 export default async function UsersPage() {
   const { session, user } = await requireUser();
-  const users = await prisma.user.findMany({
-    where: {
-      firmId: session.firmId
-    },
-    orderBy: {
-      createdAt: "asc"
-    }
-  });
-  const canManageUsers = can(user.role, "user:invite");
+  const currentUserId = user.id;
+  const [users, firmRoles, clients] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        firmId: session.firmId
+      },
+      include: {
+        firmRole: { select: { name: true, permissions: true } },
+        clientAssignments: { select: { clientId: true } }
+      },
+      orderBy: {
+        createdAt: "asc"
+      }
+    }),
+    listFirmRoles(session.firmId),
+    prisma.client.findMany({
+      where: { firmId: session.firmId, archivedAt: null },
+      select: { id: true, name: true },
+      orderBy: { name: "asc" }
+    })
+  ]);
+  const canManageUsers = can(user, "user:invite");
+  const canManageFirm = can(user, "firm:manage");
 
   return (
     <div className="space-y-8">
@@ -51,8 +73,10 @@ export default async function UsersPage() {
               <tr className="text-left text-xs uppercase tracking-wide text-slate">
                 <th className="pb-3">Email</th>
                 <th className="pb-3">Role</th>
+                <th className="pb-3">Clients</th>
+                <th className="pb-3">Two-step</th>
                 <th className="pb-3">Status</th>
-                {canManageUsers ? <th className="pb-3">Action</th> : null}
+                {canManageFirm ? <th className="pb-3">Action</th> : null}
               </tr>
             </thead>
             <tbody className="divide-y divide-slate/10">
@@ -66,12 +90,23 @@ export default async function UsersPage() {
                         <div className="flex items-center gap-2">
                           <select
                             name="role"
-                            defaultValue={user.role}
+                            defaultValue={
+                              user.firmRoleId ? `firmRole:${user.firmRoleId}` : user.role
+                            }
                             className="rounded-lg border border-slate/30 bg-surface px-2 py-1"
                           >
                             <option value="ADMIN">Admin</option>
                             <option value="PREPARER">Preparer</option>
                             <option value="REVIEWER">Reviewer</option>
+                            {firmRoles.length > 0 ? (
+                              <optgroup label="Firm roles">
+                                {firmRoles.map((role) => (
+                                  <option key={role.id} value={`firmRole:${role.id}`}>
+                                    {role.name}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ) : null}
                           </select>
                           <button
                             type="submit"
@@ -82,12 +117,103 @@ export default async function UsersPage() {
                         </div>
                       </form>
                     ) : (
-                      <span className="text-ink">{user.role}</span>
+                      <span className="text-ink">{user.firmRole?.name ?? user.role}</span>
                     )}
                   </td>
+                  <td className="py-3">
+                    {resolveUserPermissions(user).includes("firm:manage") ? (
+                      <span className="text-slate">All clients (firm manager)</span>
+                    ) : canManageUsers ? (
+                      <form action={updateUserClientAccessFromForm} className="space-y-2">
+                        <input type="hidden" name="userId" value={user.id} />
+                        <div className="flex items-center gap-2">
+                          <select
+                            name="clientAccess"
+                            defaultValue={user.clientAccess}
+                            className="rounded-lg border border-slate/30 bg-surface px-2 py-1"
+                          >
+                            <option value="ALL">All clients</option>
+                            <option value="ASSIGNED">Assigned only</option>
+                          </select>
+                          <button
+                            type="submit"
+                            className="rounded-lg border border-slate/30 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate"
+                          >
+                            Save
+                          </button>
+                        </div>
+                        {clients.length > 0 ? (
+                          <select
+                            name="clientIds"
+                            multiple
+                            defaultValue={user.clientAssignments.map(
+                              (assignment) => assignment.clientId
+                            )}
+                            className="w-full rounded-lg border border-slate/30 bg-surface px-2 py-1 text-xs"
+                          >
+                            {clients.map((client) => (
+                              <option key={client.id} value={client.id}>
+                                {client.name}
+                              </option>
+                            ))}
+                          </select>
+                        ) : null}
+                      </form>
+                    ) : (
+                      <span className="text-slate">
+                        {user.clientAccess === "ALL"
+                          ? "All clients"
+                          : `${user.clientAssignments.length} assigned`}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate">
+                        {user.mfaEnabledAt ? "On" : user.mfaSecret ? "Setting up" : "Off"}
+                      </span>
+                      {canManageFirm && user.mfaSecret ? (
+                        <form action={resetUserMfaFromForm}>
+                          <input type="hidden" name="userId" value={user.id} />
+                          <button
+                            type="submit"
+                            className="rounded-lg border border-slate/30 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate"
+                          >
+                            Reset
+                          </button>
+                        </form>
+                      ) : null}
+                    </div>
+                  </td>
                   <td className="py-3 text-slate">{user.status}</td>
-                  {canManageUsers ? (
-                    <td className="py-3 text-xs text-slate">Role updates are logged.</td>
+                  {canManageFirm ? (
+                    <td className="py-3">
+                      {user.status === "DISABLED" ? (
+                        <span className="text-xs text-slate">No actions</span>
+                      ) : (
+                        <div className="flex flex-wrap items-start gap-2">
+                          {user.status === "ACTIVE" ? (
+                            <>
+                              <Link
+                                href={`/settings/users/${user.id}/sessions` as Route}
+                                className="rounded-lg border border-slate/30 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate"
+                              >
+                                Sessions
+                              </Link>
+                              <PasswordResetLinkForm userId={user.id} />
+                            </>
+                          ) : null}
+                          {user.id !== currentUserId ? (
+                            <Link
+                              href={`/settings/users/${user.id}/disable` as Route}
+                              className="rounded-lg border border-red-200 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-red-700"
+                            >
+                              Disable
+                            </Link>
+                          ) : null}
+                        </div>
+                      )}
+                    </td>
                   ) : null}
                 </tr>
               ))}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import { rotateWebhookSecretAction, type WebhookFormState } from "./actions";
+
+const initialState: WebhookFormState = {};
+
+const SubmitButton = () => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60 disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Rotating..." : "Rotate signing secret"}
+    </button>
+  );
+};
+
+export const RotateWebhookSecretForm = ({ endpointId }: { endpointId: string }) => {
+  const [state, formAction] = useFormState(rotateWebhookSecretAction, initialState);
+
+  return (
+    <form action={formAction} className="space-y-3">
+      <input type="hidden" name="endpointId" value={endpointId} />
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      {state.secret ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          Copy the new signing secret now; it will not be shown again:{" "}
+          <span className="break-all font-mono">{state.secret}</span>
+        </p>
+      ) : null}
+      <SubmitButton />
+    </form>
+  );
+};
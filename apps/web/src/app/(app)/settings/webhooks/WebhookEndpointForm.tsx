@@ -0,0 +1,135 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import {
+  createWebhookEndpointAction,
+  updateWebhookEndpointAction,
+  type WebhookFormState
+} from "./actions";
+
+const initialState: WebhookFormState = {};
+
+const inputClassName = "mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm";
+const labelClassName = "text-xs font-semibold uppercase tracking-wide text-slate";
+
+const SubmitButton = ({ label }: { label: string }) => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Saving..." : label}
+    </button>
+  );
+};
+
+type WebhookEndpointFormProps = {
+  endpoint: {
+    id: string;
+    url: string;
+    description: string | null;
+    events: string[];
+    exceptionMinimumSeverity: string;
+    enabled: boolean;
+  } | null;
+  events: ReadonlyArray<{ action: string; label: string }>;
+  severities: readonly string[];
+};
+
+export const WebhookEndpointForm = ({ endpoint, events, severities }: WebhookEndpointFormProps) => {
+  const [state, formAction] = useFormState(
+    endpoint ? updateWebhookEndpointAction : createWebhookEndpointAction,
+    initialState
+  );
+
+  return (
+    <form action={formAction} className="space-y-4">
+      {endpoint ? <input type="hidden" name="endpointId" value={endpoint.id} /> : null}
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <label className={labelClassName}>Receiver URL</label>
+          <input
+            name="url"
+            type="url"
+            required
+            defaultValue={endpoint?.url}
+            placeholder="https://pm.example.com/hooks/tally"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Description</label>
+          <input
+            name="description"
+            maxLength={200}
+            defaultValue={endpoint?.description ?? ""}
+            placeholder="Practice management sync"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <fieldset className="grid gap-2 md:grid-cols-3">
+        <legend className={labelClassName}>Events</legend>
+        {events.map((event) => (
+          <label key={event.action} className="mt-2 flex items-start gap-3 text-sm text-slate">
+            <input
+              name="events"
+              type="checkbox"
+              value={event.action}
+              defaultChecked={endpoint?.events.includes(event.action)}
+              className="mt-1 h-4 w-4 rounded border-slate/40"
+            />
+            <span>
+              <span className="font-mono text-xs font-semibold text-ink">{event.action}</span>
+              <span className="block text-xs text-slate">{event.label}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <label className={labelClassName}>Send exceptions from severity</label>
+          <select
+            name="exceptionMinimumSeverity"
+            defaultValue={endpoint?.exceptionMinimumSeverity ?? "CRITICAL"}
+            className={inputClassName}
+          >
+            {severities.map((severity) => (
+              <option key={severity} value={severity}>
+                {severity}
+              </option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-3 pt-6 text-sm text-slate">
+          <input
+            name="enabled"
+            type="checkbox"
+            defaultChecked={endpoint?.enabled ?? true}
+            className="h-4 w-4 rounded border-slate/40"
+          />
+          Enabled
+        </label>
+      </div>
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      {state.success ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          Endpoint saved.
+        </p>
+      ) : null}
+      {state.secret ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          Copy this signing secret now; it will not be shown again:{" "}
+          <span className="break-all font-mono">{state.secret}</span>
+        </p>
+      ) : null}
+      <SubmitButton label={endpoint ? "Save endpoint" : "Add endpoint"} />
+    </form>
+  );
+};
@@ -0,0 +1,110 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requireUser } from "@/lib/auth";
+import { NotFoundError } from "@/lib/errors";
+import { requirePermission } from "@/lib/permissions";
+import { checkSeverityOrder, webhookEventDefinitions } from "@/lib/webhook-deliveries";
+import { getWebhookEndpoint, listWebhookDeliveries } from "@/lib/webhooks";
+import { SettingsNav } from "@/components/SettingsNav";
+import { WebhookDeliveryLog } from "@/components/WebhookDeliveryLog";
+import {
+  deleteWebhookEndpointFromForm,
+  redeliverWebhookFromForm,
+  sendTestWebhookFromForm
+} from "../actions";
+import { RotateWebhookSecretForm } from "../RotateWebhookSecretForm";
+import { WebhookEndpointForm } from "../WebhookEndpointForm";
+
+const loadEndpoint = async (firmId: string, endpointId: string) => {
+  try {
+    return await getWebhookEndpoint(firmId, endpointId);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+};
+
+export default async function WebhookEndpointPage({
+  params
+}: {
+  params: { endpointId: string };
+}) {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const endpoint = await loadEndpoint(session.firmId, params.endpointId);
+  const deliveries = await listWebhookDeliveries(session.firmId, endpoint.id);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Webhook endpoint</h1>
+        <p className="mt-2 break-all text-sm text-slate">
+          {endpoint.url}.{" "}
+          <Link className="font-semibold text-accent-strong" href="/settings/webhooks">
+            Back to webhooks
+          </Link>
+        </p>
+      </div>
+      <SettingsNav />
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">Settings</h2>
+        <WebhookEndpointForm
+          endpoint={endpoint}
+          events={webhookEventDefinitions}
+          severities={checkSeverityOrder}
+        />
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">Signing secret</h2>
+        <p className="text-sm text-slate">
+          Each request carries <span className="font-mono">X-Tally-Timestamp</span> and{" "}
+          <span className="font-mono">X-Tally-Signature</span>: <span className="font-mono">v1=</span>{" "}
+          followed by the hex HMAC-SHA256 of the timestamp, a full stop and the raw body.
+          Rotating takes effect for the next attempt, including queued retries.
+        </p>
+        <RotateWebhookSecretForm endpointId={endpoint.id} />
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-ink">Deliveries</h2>
+          <form action={sendTestWebhookFromForm}>
+            <input type="hidden" name="endpointId" value={endpoint.id} />
+            <button
+              type="submit"
+              className="rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+            >
+              Send test event
+            </button>
+          </form>
+        </div>
+        <WebhookDeliveryLog
+          deliveries={deliveries}
+          endpointId={endpoint.id}
+          redeliverAction={redeliverWebhookFromForm}
+        />
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">Delete endpoint</h2>
+        <p className="text-sm text-slate">
+          Deleting removes the endpoint, its delivery log and any deliveries still queued.
+        </p>
+        <form action={deleteWebhookEndpointFromForm}>
+          <input type="hidden" name="endpointId" value={endpoint.id} />
+          <button
+            type="submit"
+            className="rounded-lg border border-red-200 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-red-700 hover:border-red-400"
+          >
+            Delete endpoint
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
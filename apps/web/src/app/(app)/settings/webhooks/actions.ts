@@ -0,0 +1,152 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/errors";
+import { PermissionError, requirePermission } from "@/lib/permissions";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  parseWebhookEndpointForm,
+  redeliverWebhookDelivery,
+  rotateWebhookSecret,
+  sendTestWebhook,
+  updateWebhookEndpoint
+} from "@/lib/webhooks";
+
+export type WebhookFormState = {
+  error?: string;
+  // Shown once after creating an endpoint or rotating its secret.
+  secret?: string;
+  success?: boolean;
+};
+
+const endpointIdSchema = z.object({
+  endpointId: z.string().uuid()
+});
+
+const deliveryIdSchema = z.object({
+  endpointId: z.string().uuid(),
+  deliveryId: z.string().uuid()
+});
+
+const requireFirmManager = async () => {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+  return { firmId: session.firmId, userId: session.userId };
+};
+
+const runFormAction = async (
+  action: (context: { firmId: string; userId: string }) => Promise<WebhookFormState>
+): Promise<WebhookFormState> => {
+  let context: { firmId: string; userId: string };
+  try {
+    context = await requireFirmManager();
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return { error: "Permission denied." };
+    }
+    throw error;
+  }
+
+  try {
+    return await action(context);
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+};
+
+export const createWebhookEndpointAction = async (
+  _prevState: WebhookFormState,
+  formData: FormData
+): Promise<WebhookFormState> =>
+  runFormAction(async (context) => {
+    const { secret } = await createWebhookEndpoint(context, parseWebhookEndpointForm(formData));
+    revalidatePath("/settings/webhooks");
+    return { secret };
+  });
+
+export const updateWebhookEndpointAction = async (
+  _prevState: WebhookFormState,
+  formData: FormData
+): Promise<WebhookFormState> =>
+  runFormAction(async (context) => {
+    const parsed = endpointIdSchema.safeParse({ endpointId: formData.get("endpointId") });
+    if (!parsed.success) {
+      return { error: "Unable to update that endpoint." };
+    }
+    await updateWebhookEndpoint(
+      context,
+      parsed.data.endpointId,
+      parseWebhookEndpointForm(formData)
+    );
+    revalidatePath("/settings/webhooks");
+    revalidatePath(`/settings/webhooks/${parsed.data.endpointId}`);
+    return { success: true };
+  });
+
+export const rotateWebhookSecretAction = async (
+  _prevState: WebhookFormState,
+  formData: FormData
+): Promise<WebhookFormState> =>
+  runFormAction(async (context) => {
+    const parsed = endpointIdSchema.safeParse({ endpointId: formData.get("endpointId") });
+    if (!parsed.success) {
+      return { error: "Unable to rotate that secret." };
+    }
+    return { secret: await rotateWebhookSecret(context, parsed.data.endpointId) };
+  });
+
+export const sendTestWebhookFromForm = async (formData: FormData) => {
+  const context = await requireFirmManager();
+  const parsed = endpointIdSchema.safeParse({ endpointId: formData.get("endpointId") });
+  if (!parsed.success) {
+    throw new ValidationError("Unable to send a test to that endpoint.");
+  }
+
+  await sendTestWebhook(context, parsed.data.endpointId);
+  revalidatePath(`/settings/webhooks/${parsed.data.endpointId}`);
+};
+
+export const redeliverWebhookFromForm = async (formData: FormData) => {
+  const context = await requireFirmManager();
+  const parsed = deliveryIdSchema.safeParse({
+    endpointId: formData.get("endpointId"),
+    deliveryId: formData.get("deliveryId")
+  });
+  if (!parsed.success) {
+    throw new ValidationError("Unable to send that delivery again.");
+  }
+
+  try {
+    await redeliverWebhookDelivery(context, parsed.data.deliveryId);
+  } catch (error) {
+    if (!(error instanceof NotFoundError || error instanceof ConflictError)) {
+      throw error;
+    }
+  }
+  revalidatePath(`/settings/webhooks/${parsed.data.endpointId}`);
+};
+
+export const deleteWebhookEndpointFromForm = async (formData: FormData) => {
+  const context = await requireFirmManager();
+  const parsed = endpointIdSchema.safeParse({ endpointId: formData.get("endpointId") });
+  if (!parsed.success) {
+    throw new ValidationError("Unable to delete that endpoint.");
+  }
+
+  try {
+    await deleteWebhookEndpoint(context, parsed.data.endpointId);
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+  }
+  revalidatePath("/settings/webhooks");
+  redirect("/settings/webhooks");
+};
@@ -0,0 +1,74 @@
+import Link from "next/link";
+import type { Route } from "next";
+import { requireUser } from "@/lib/auth";
+import { requirePermission } from "@/lib/permissions";
+import { checkSeverityOrder, webhookEventDefinitions } from "@/lib/webhook-deliveries";
+import { listWebhookEndpoints } from "@/lib/webhooks";
+import { SettingsNav } from "@/components/SettingsNav";
+import { WebhookEndpointForm } from "./WebhookEndpointForm";
+
+export default async function WebhookSettingsPage() {
+  const { session, user } = await requireUser();
+  requirePermission(user, "firm:manage");
+
+  const endpoints = await listWebhookEndpoints(session.firmId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-3xl font-semibold text-ink">Webhooks</h1>
+        <p className="mt-2 text-sm text-slate">
+          Tally POSTs a JSON event to each endpoint when a subscribed action is recorded in the
+          audit log. Requests are signed with the endpoint&apos;s secret and retried with
+          backoff until the receiver answers with a 2xx status.
+        </p>
+      </div>
+      <SettingsNav />
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">Endpoints</h2>
+        {endpoints.length === 0 ? (
+          <p className="text-sm text-slate">No webhook endpoints.</p>
+        ) : (
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-slate">
+                <th className="pb-3">Endpoint</th>
+                <th className="pb-3">Events</th>
+                <th className="pb-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate/10">
+              {endpoints.map((endpoint) => (
+                <tr key={endpoint.id}>
+                  <td className="py-3 text-ink">
+                    <Link
+                      href={`/settings/webhooks/${endpoint.id}` as Route}
+                      className="block break-all font-semibold text-accent-strong"
+                    >
+                      {endpoint.url}
+                    </Link>
+                    {endpoint.description ? (
+                      <span className="block text-xs text-slate">{endpoint.description}</span>
+                    ) : null}
+                  </td>
+                  <td className="max-w-xs py-3 text-xs text-slate">{endpoint.events.join(", ")}</td>
+                  <td className="py-3 text-slate">{endpoint.enabled ? "Enabled" : "Disabled"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="space-y-4 rounded-xl border border-slate/20 bg-surface p-5">
+        <h2 className="text-lg font-semibold text-ink">New endpoint</h2>
+        <WebhookEndpointForm
+          endpoint={null}
+          events={webhookEventDefinitions}
+          severities={checkSeverityOrder}
+        />
+      </section>
+    </div>
+  );
+}
@@ -37,10 +37,8 @@ export const updateTemplateStatusAction = async (
   const { session, user } = await requireUser();
 
   try {
-    requirePermission(user.role, "template:write");
-    if (user.role === "REVIEWER") {
-      throw new PermissionError();
-    }
+    requirePermission(user, "template:write");
+    requirePermission(user, "template:approve");
   } catch (error) {
     return handleTemplateStatusError(error);
   }
@@ -59,7 +57,9 @@ export const updateTemplateStatusAction = async (
       {
         firmId: session.firmId,
         userId: session.userId,
-        role: user.role
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
       },
       parsed.data.templateId,
       parsed.data.status
@@ -7,6 +7,8 @@ import {
   type SourceType
 } from "@/lib/prisma";
 import { requireUser } from "@/lib/auth";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { can } from "@/lib/permissions";
 import {
   detectColumnDrift,
   mappingFieldConfigs,
@@ -53,7 +55,14 @@ export default async function TemplateDetailPage({
     }
   });
 
-  if (!template) {
+  if (
+    !template ||
+    (template.clientId &&
+      !(await hasClientAccess(userClientScope(user), template.clientId, {
+        entityType: "TEMPLATE",
+        entityId: template.id
+      })))
+  ) {
     notFound();
   }
 
@@ -65,7 +74,8 @@ export default async function TemplateDetailPage({
       clientId: template.clientId
     },
     include: {
-      createdByUser: true
+      createdByUser: true,
+      ownerUser: true
     },
     orderBy: { version: "desc" }
   });
@@ -126,7 +136,7 @@ export default async function TemplateDetailPage({
 
   const sourceColumns = normalizeColumns(template.sourceColumns);
 
-  const canManage = user.role === "ADMIN" || user.role === "PREPARER";
+  const canManage = can(user, "template:approve");
 
   return (
     <div className="space-y-6">
@@ -325,6 +335,9 @@ export default async function TemplateDetailPage({
                   </td>
                   <td className="px-4 py-3 text-slate">
                     {version.createdByUser.email}
+                    {version.ownerUser ? (
+                      <span className="block text-xs">Owner: {version.ownerUser.email}</span>
+                    ) : null}
                   </td>
                   <td className="px-4 py-3 text-slate">
                     {lastUsedByVersion.get(version.id)?.toLocaleDateString("en-GB") ??
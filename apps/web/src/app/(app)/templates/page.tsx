@@ -45,7 +45,7 @@ const sourceOptions = [
 ];
 
 export default async function TemplatesPage({ searchParams }: TemplatesPageProps) {
-  const { session } = await requireUser();
+  const { session, user } = await requireUser();
   const query = typeof searchParams?.q === "string" ? searchParams.q.trim() : "";
   const clientId =
     typeof searchParams?.clientId === "string" ? searchParams.clientId : "";
@@ -61,7 +61,8 @@ export default async function TemplatesPage({ searchParams }: TemplatesPageProps
     clientId,
     scope: scope as "firm" | "client" | "",
     sourceType: sourceType ? (sourceType as SourceType) : "",
-    status: status ? (status as MappingTemplateStatus) : ""
+    status: status ? (status as MappingTemplateStatus) : "",
+    clientIds: user.clientIds
   });
 
   return (
@@ -0,0 +1,27 @@
+import Link from "next/link";
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-2xl font-semibold text-ink">Forgot password</h2>
+        <p className="mt-2 text-sm text-slate">
+          Ask a firm admin for a password reset link. They can create one from Settings →
+          Users. Each link works once and expires after an hour.
+        </p>
+      </div>
+      <div className="text-sm text-slate">
+        If your firm uses single sign-on, reset your password with your identity provider and{" "}
+        <Link className="font-semibold text-accent-strong" href="/login/sso">
+          sign in with SSO
+        </Link>
+        .
+      </div>
+      <div className="text-sm text-slate">
+        <Link className="font-semibold text-accent-strong" href="/login">
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
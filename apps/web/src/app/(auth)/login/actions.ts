@@ -3,8 +3,9 @@
 import { z } from "zod";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
-import { createSessionForUser, verifyPassword } from "@/lib/auth";
+import { createSessionForUser, startMfaChallenge, verifyPassword } from "@/lib/auth";
 import { logServerError } from "@/lib/server-errors";
+import { isPasswordLoginDisabled } from "@/lib/sso";
 
 export type LoginState = {
   error?: string;
@@ -43,11 +44,22 @@ export const loginAction = async (
     if (!isValid) {
       return { error: "Invalid credentials." };
     }
+
+    // Checked after the password so the response does not reveal which emails
+    // belong to SSO-only firms.
+    if (await isPasswordLoginDisabled(user.firmId)) {
+      return { error: "Your firm signs in with single sign-on. Use Sign in with SSO." };
+    }
   } catch (error) {
     logServerError({ scope: "login" }, error);
     return { error: "Unable to sign in right now." };
   }
 
+  if (user.mfaEnabledAt) {
+    await startMfaChallenge(user);
+    redirect("/login/mfa");
+  }
+
   await createSessionForUser(user);
   redirect("/dashboard");
 };
@@ -0,0 +1,49 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import { verifyMfaChallengeAction, type MfaChallengeState } from "./actions";
+
+const initialState: MfaChallengeState = {};
+
+const SubmitButton = () => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="mt-6 w-full rounded-lg bg-accent px-4 py-2 text-sm font-semibold text-white transition hover:bg-accent-strong disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Verifying..." : "Verify"}
+    </button>
+  );
+};
+
+export const MfaChallengeForm = () => {
+  const [state, formAction] = useFormState(verifyMfaChallengeAction, initialState);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div>
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate">
+          Authentication code
+        </label>
+        <input
+          name="code"
+          required
+          autoComplete="one-time-code"
+          autoFocus
+          className="mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm tracking-widest"
+        />
+        <p className="mt-2 text-xs text-slate">
+          Lost your device? Enter one of your recovery codes instead.
+        </p>
+      </div>
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      <SubmitButton />
+    </form>
+  );
+};
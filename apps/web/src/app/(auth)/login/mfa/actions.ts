@@ -0,0 +1,50 @@
+"use server";
+
+import { z } from "zod";
+import { redirect } from "next/navigation";
+import { clearMfaChallenge, createSessionForUser, getMfaChallengeUser } from "@/lib/auth";
+import { verifyMfaChallenge } from "@/lib/mfa";
+import { logServerError } from "@/lib/server-errors";
+
+export type MfaChallengeState = {
+  error?: string;
+};
+
+const challengeSchema = z.object({
+  code: z.string().trim().min(6).max(32)
+});
+
+export const verifyMfaChallengeAction = async (
+  _prevState: MfaChallengeState,
+  formData: FormData
+): Promise<MfaChallengeState> => {
+  const parsed = challengeSchema.safeParse({
+    code: formData.get("code")
+  });
+
+  if (!parsed.success) {
+    return { error: "Enter the code from your authenticator app or a recovery code." };
+  }
+
+  const user = await getMfaChallengeUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  try {
+    const result = await verifyMfaChallenge(user.id, parsed.data.code);
+    if (result === "locked") {
+      await clearMfaChallenge();
+      return { error: "Too many invalid codes. Wait 15 minutes, then sign in again." };
+    }
+    if (!result) {
+      return { error: "Invalid code." };
+    }
+  } catch (error) {
+    logServerError({ scope: "login-mfa" }, error);
+    return { error: "Unable to sign in right now." };
+  }
+
+  await createSessionForUser(user);
+  redirect("/dashboard");
+};
@@ -0,0 +1,31 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getMfaChallengeUser } from "@/lib/auth";
+import { MfaChallengeForm } from "./MfaChallengeForm";
+
+export default async function LoginMfaPage() {
+  const user = await getMfaChallengeUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-2xl font-semibold text-ink">
+          Two-step verification
+        </h2>
+        <p className="mt-2 text-sm text-slate">
+          Enter the six-digit code from your authenticator app for {user.email}.
+        </p>
+      </div>
+      <MfaChallengeForm />
+      <div className="text-sm text-slate">
+        Not you?{" "}
+        <Link className="font-semibold text-accent-strong" href="/login">
+          Start again
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import Link from "next/link";
 import { LoginForm } from "./LoginForm";
 
-export default function LoginPage() {
+export default function LoginPage({
+  searchParams
+}: {
+  searchParams: { reset?: string };
+}) {
   return (
     <div className="space-y-6">
       <div>
@@ -10,13 +14,35 @@ export default function LoginPage() {
           Use your firm credentials to continue.
         </p>
       </div>
+      {searchParams.reset ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          Password updated. Sign in with your new password.
+        </p>
+      ) : null}
       <LoginForm />
+      <div className="text-sm text-slate">
+        <Link className="font-semibold text-accent-strong" href="/forgot-password">
+          Forgot password?
+        </Link>
+      </div>
+      <div className="text-sm text-slate">
+        Firm uses single sign-on?{" "}
+        <Link className="font-semibold text-accent-strong" href="/login/sso">
+          Sign in with SSO
+        </Link>
+      </div>
       <div className="text-sm text-slate">
         New here?{" "}
         <Link className="font-semibold text-accent-strong" href="/create-firm">
           Create a workspace
         </Link>
       </div>
+      <div className="text-sm text-slate">
+        Received a pack?{" "}
+        <Link className="font-semibold text-accent-strong" href="/verify">
+          Verify it
+        </Link>
+      </div>
     </div>
   );
 }
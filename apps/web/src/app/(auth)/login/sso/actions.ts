@@ -0,0 +1,60 @@
+"use server";
+
+import { z } from "zod";
+import { redirect } from "next/navigation";
+import { startOidcLogin } from "@/lib/auth";
+import { OidcError } from "@/lib/errors";
+import {
+  buildAuthorizationUrl,
+  createAuthorizationRequest,
+  discoverOidcProvider
+} from "@/lib/oidc";
+import { findSsoConfigForEmail, oidcRedirectUri } from "@/lib/sso";
+import { logServerError } from "@/lib/server-errors";
+
+export type SsoLoginState = {
+  error?: string;
+};
+
+const ssoLoginSchema = z.object({
+  email: z.string().email()
+});
+
+export const startSsoLoginAction = async (
+  _prevState: SsoLoginState,
+  formData: FormData
+): Promise<SsoLoginState> => {
+  const parsed = ssoLoginSchema.safeParse({
+    email: formData.get("email")
+  });
+
+  if (!parsed.success) {
+    return { error: "Enter your work email." };
+  }
+
+  const config = await findSsoConfigForEmail(parsed.data.email);
+  if (!config) {
+    return { error: "Single sign-on is not set up for this email domain." };
+  }
+
+  let authorizationUrl: string;
+  try {
+    const metadata = await discoverOidcProvider(config.issuer);
+    const request = createAuthorizationRequest();
+    await startOidcLogin(config.firmId, request);
+    authorizationUrl = buildAuthorizationUrl(
+      metadata,
+      { clientId: config.clientId, redirectUri: oidcRedirectUri() },
+      request,
+      { loginHint: parsed.data.email }
+    );
+  } catch (error) {
+    if (error instanceof OidcError) {
+      logServerError({ scope: "oidc-start", code: error.code }, error);
+      return { error: "We could not reach your identity provider. Try again shortly." };
+    }
+    throw error;
+  }
+
+  redirect(authorizationUrl);
+};
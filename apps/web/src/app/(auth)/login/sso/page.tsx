@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { SsoLoginForm } from "./SsoLoginForm";
+
+// Error codes set by the OIDC callback route.
+const callbackErrors: Record<string, string> = {
+  expired: "Your sign-in attempt expired. Try again.",
+  not_configured: "Single sign-on is no longer enabled for this workspace.",
+  discovery_failed: "We could not reach your identity provider. Try again shortly.",
+  token_exchange_failed: "Your identity provider's response could not be verified.",
+  invalid_id_token: "Your identity provider's response could not be verified.",
+  access_denied:
+    "Your identity provider account does not have access to this workspace. Ask a firm admin."
+};
+
+export default function SsoLoginPage({
+  searchParams
+}: {
+  searchParams: { error?: string };
+}) {
+  const error = searchParams.error
+    ? callbackErrors[searchParams.error] ?? "Single sign-on failed. Try again."
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-2xl font-semibold text-ink">
+          Sign in with SSO
+        </h2>
+        <p className="mt-2 text-sm text-slate">
+          We will send you to your firm&apos;s identity provider.
+        </p>
+      </div>
+      <SsoLoginForm error={error} />
+      <div className="text-sm text-slate">
+        <Link className="font-semibold text-accent-strong" href="/login">
+          Sign in with a password
+        </Link>
+      </div>
+    </div>
+  );
+}
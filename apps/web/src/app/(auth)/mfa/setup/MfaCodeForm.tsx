@@ -0,0 +1,83 @@
+"use client";
+
+import Link from "next/link";
+import { useFormState, useFormStatus } from "react-dom";
+import {
+  confirmMfaEnrollmentAction,
+  regenerateRecoveryCodesAction,
+  type MfaCodesState
+} from "./actions";
+
+const initialState: MfaCodesState = {};
+
+const actions = {
+  confirm: confirmMfaEnrollmentAction,
+  regenerate: regenerateRecoveryCodesAction
+};
+
+const SubmitButton = ({ label }: { label: string }) => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="w-full rounded-lg bg-accent px-4 py-2 text-sm font-semibold text-white transition hover:bg-accent-strong disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Verifying..." : label}
+    </button>
+  );
+};
+
+type MfaCodeFormProps = {
+  mode: keyof typeof actions;
+  submitLabel: string;
+};
+
+export const MfaCodeForm = ({ mode, submitLabel }: MfaCodeFormProps) => {
+  const [state, formAction] = useFormState(actions[mode], initialState);
+
+  if (state.recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-slate">
+          Save these recovery codes somewhere safe. Each works once if you lose access to
+          your authenticator app, and they will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-lg border border-slate/20 bg-surface-muted p-4 font-mono text-sm text-ink">
+          {state.recoveryCodes.map((code) => (
+            <li key={code}>{code}</li>
+          ))}
+        </ul>
+        <Link
+          href="/dashboard"
+          className="block w-full rounded-lg bg-accent px-4 py-2 text-center text-sm font-semibold text-white transition hover:bg-accent-strong"
+        >
+          Continue to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div>
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate">
+          Authentication code
+        </label>
+        <input
+          name="code"
+          required
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          className="mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm tracking-widest"
+        />
+      </div>
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      <SubmitButton label={submitLabel} />
+    </form>
+  );
+};
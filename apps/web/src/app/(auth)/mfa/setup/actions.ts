@@ -0,0 +1,83 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { getActiveUser } from "@/lib/auth";
+import { ConflictError, ValidationError } from "@/lib/errors";
+import {
+  confirmMfaEnrollment,
+  regenerateRecoveryCodes,
+  startMfaEnrollment
+} from "@/lib/mfa";
+
+export type MfaCodesState = {
+  error?: string;
+  recoveryCodes?: string[];
+};
+
+const codeSchema = z.object({
+  code: z.string().trim().min(6).max(10)
+});
+
+// The setup page sits outside the app shell so users whose firm requires MFA
+// can reach it before enrolling; it only needs an active signed-in user.
+const requireActiveUser = async () => {
+  const user = await getActiveUser();
+  if (!user) {
+    redirect("/login");
+  }
+  return { firmId: user.firmId, userId: user.id };
+};
+
+const parseCode = (formData: FormData) =>
+  codeSchema.safeParse({
+    code: formData.get("code")
+  });
+
+export const startMfaEnrollmentAction = async () => {
+  const context = await requireActiveUser();
+  await startMfaEnrollment(context);
+  revalidatePath("/mfa/setup");
+};
+
+export const confirmMfaEnrollmentAction = async (
+  _prevState: MfaCodesState,
+  formData: FormData
+): Promise<MfaCodesState> => {
+  const context = await requireActiveUser();
+  const parsed = parseCode(formData);
+  if (!parsed.success) {
+    return { error: "Enter the six-digit code from your authenticator app." };
+  }
+
+  try {
+    // The page is not revalidated here so the recovery codes stay on screen.
+    return { recoveryCodes: await confirmMfaEnrollment(context, parsed.data.code) };
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof ConflictError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+};
+
+export const regenerateRecoveryCodesAction = async (
+  _prevState: MfaCodesState,
+  formData: FormData
+): Promise<MfaCodesState> => {
+  const context = await requireActiveUser();
+  const parsed = parseCode(formData);
+  if (!parsed.success) {
+    return { error: "Enter the six-digit code from your authenticator app." };
+  }
+
+  try {
+    return { recoveryCodes: await regenerateRecoveryCodes(context, parsed.data.code) };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+};
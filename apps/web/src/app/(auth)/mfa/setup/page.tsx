@@ -0,0 +1,113 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getActiveUser } from "@/lib/auth";
+import { getMfaEnrollment, isMfaRequired } from "@/lib/mfa";
+import { renderQrCodeSvg } from "@/lib/qr-code";
+import { logoutAction } from "@/app/(app)/actions";
+import { MfaCodeForm } from "./MfaCodeForm";
+import { startMfaEnrollmentAction } from "./actions";
+
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+
+export default async function MfaSetupPage() {
+  const user = await getActiveUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const firm = await prisma.firm.findFirst({
+    where: { id: user.firmId },
+    select: { defaults: true }
+  });
+  const required = isMfaRequired(user.role, firm?.defaults);
+
+  if (user.mfaEnabledAt) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="font-display text-2xl font-semibold text-ink">
+            Two-step verification
+          </h2>
+          <p className="mt-2 text-sm text-slate">
+            On since {user.mfaEnabledAt.toLocaleDateString("en-GB")}.{" "}
+            {user.mfaRecoveryCodeHashes.length} recovery code(s) left.
+          </p>
+        </div>
+        <div className="space-y-3">
+          <p className="text-sm text-slate">
+            Enter a current code to replace your recovery codes. Codes you saved earlier
+            stop working.
+          </p>
+          <MfaCodeForm mode="regenerate" submitLabel="Generate new recovery codes" />
+        </div>
+        <p className="text-sm text-slate">
+          To move to a new device, ask a firm admin to reset your two-step verification.
+        </p>
+        <Link className="text-sm font-semibold text-accent-strong" href="/dashboard">
+          Back to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  const enrollment = getMfaEnrollment(user);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-2xl font-semibold text-ink">
+          Set up two-step verification
+        </h2>
+        <p className="mt-2 text-sm text-slate">
+          {required
+            ? "Your firm requires an authenticator app code at every sign-in."
+            : "Protect your account with a code from an authenticator app at every sign-in."}
+        </p>
+      </div>
+
+      {enrollment ? (
+        <>
+          <div className="space-y-3">
+            <p className="text-sm text-slate">
+              Scan this QR code with your authenticator app, or enter the key manually.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={`data:image/svg+xml;base64,${Buffer.from(
+                renderQrCodeSvg(enrollment.otpauthUri)
+              ).toString("base64")}`}
+              alt="Authenticator app QR code"
+              className="mx-auto h-48 w-48"
+            />
+            <p className="break-all rounded-lg border border-slate/20 bg-surface-muted px-3 py-2 text-center font-mono text-sm text-ink">
+              {formatSecret(enrollment.secret)}
+            </p>
+          </div>
+          <MfaCodeForm mode="confirm" submitLabel="Turn on two-step verification" />
+        </>
+      ) : (
+        <form action={startMfaEnrollmentAction}>
+          <button
+            type="submit"
+            className="w-full rounded-lg bg-accent px-4 py-2 text-sm font-semibold text-white transition hover:bg-accent-strong"
+          >
+            Set up authenticator app
+          </button>
+        </form>
+      )}
+
+      {required ? (
+        <form action={logoutAction}>
+          <button type="submit" className="text-sm font-semibold text-accent-strong">
+            Sign out
+          </button>
+        </form>
+      ) : (
+        <Link className="text-sm font-semibold text-accent-strong" href="/dashboard">
+          Back to dashboard
+        </Link>
+      )}
+    </div>
+  );
+}
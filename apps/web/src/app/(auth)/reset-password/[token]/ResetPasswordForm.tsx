@@ -0,0 +1,69 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+import { resetPasswordAction, type ResetPasswordState } from "./actions";
+
+const initialState: ResetPasswordState = {};
+
+const inputClassName = "mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm";
+
+const SubmitButton = () => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="mt-6 w-full rounded-lg bg-accent px-4 py-2 text-sm font-semibold text-white transition hover:bg-accent-strong disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Saving..." : "Set new password"}
+    </button>
+  );
+};
+
+export const ResetPasswordForm = ({
+  token,
+  minimumLength
+}: {
+  token: string;
+  minimumLength: number;
+}) => {
+  const boundAction = resetPasswordAction.bind(null, token);
+  const [state, formAction] = useFormState(boundAction, initialState);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div>
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate">
+          New password
+        </label>
+        <input
+          name="password"
+          type="password"
+          autoComplete="new-password"
+          minLength={minimumLength}
+          required
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate">
+          Confirm password
+        </label>
+        <input
+          name="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          minLength={minimumLength}
+          required
+          className={inputClassName}
+        />
+      </div>
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      <SubmitButton />
+    </form>
+  );
+};
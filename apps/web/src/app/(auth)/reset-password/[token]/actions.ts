@@ -0,0 +1,31 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { ValidationError } from "@/lib/errors";
+import { completePasswordReset } from "@/lib/password-reset";
+
+export type ResetPasswordState = {
+  error?: string;
+};
+
+export const resetPasswordAction = async (
+  token: string,
+  _prevState: ResetPasswordState,
+  formData: FormData
+): Promise<ResetPasswordState> => {
+  const password = String(formData.get("password") ?? "");
+  if (password !== String(formData.get("confirmPassword") ?? "")) {
+    return { error: "Passwords do not match." };
+  }
+
+  try {
+    await completePasswordReset(token, password);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+
+  redirect("/login?reset=1");
+};
@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { findPasswordReset, minimumPasswordLength } from "@/lib/password-reset";
+import { ResetPasswordForm } from "./ResetPasswordForm";
+
+export default async function ResetPasswordPage({
+  params
+}: {
+  params: { token: string };
+}) {
+  const reset = await findPasswordReset(params.token);
+
+  if (!reset) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="font-display text-2xl font-semibold text-ink">Reset password</h2>
+          <p className="mt-2 text-sm text-slate">
+            This reset link is invalid or has expired. Ask a firm admin for a new one.
+          </p>
+        </div>
+        <div className="text-sm text-slate">
+          <Link className="font-semibold text-accent-strong" href="/login">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-2xl font-semibold text-ink">Reset password</h2>
+        <p className="mt-2 text-sm text-slate">
+          Choose a new password for {reset.user.email}. You will be signed out of every
+          device.
+        </p>
+      </div>
+      <ResetPasswordForm token={params.token} minimumLength={minimumPasswordLength} />
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { sha256Hex } from "@/lib/hash";
+
+type VerificationResult =
+  | { status: "NOT_FOUND" }
+  | {
+      status: "MATCHED";
+      artifact: "pdf" | "bundle";
+      signature: "VALID" | "INVALID" | "UNSIGNED";
+      keyFingerprint: string | null;
+      firmName: string;
+      clientName: string;
+      periodLabel: string;
+      revision: number;
+      packVersion: number;
+      generatedAt: string;
+      locked: boolean;
+      lockedAt: string | null;
+      newerPackVersion: number | null;
+    };
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    dateStyle: "medium",
+    timeStyle: "short"
+  });
+
+const describeMatch = (result: Extract<VerificationResult, { status: "MATCHED" }>) => {
+  if (result.signature === "INVALID") {
+    return "This file matches a pack, but its signature does not verify.";
+  }
+  if (!result.locked) {
+    return "This file matches a pack that has not been locked.";
+  }
+  if (result.signature === "UNSIGNED") {
+    return "This file matches a locked pack issued before signing was introduced.";
+  }
+  return "Verified: this file matches a signed, locked pack.";
+};
+
+export const VerifyPackForm = () => {
+  const [checking, setChecking] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [hash, setHash] = useState<string | null>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setChecking(true);
+    setError(null);
+    setResult(null);
+    setFileName(file.name);
+
+    try {
+      const fileHash = await sha256Hex(await file.arrayBuffer());
+      setHash(fileHash);
+      const response = await fetch("/api/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sha256: fileHash })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || "Verification failed.");
+      }
+      setResult(body as VerificationResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const verified =
+    result?.status === "MATCHED" && result.signature === "VALID" && result.locked;
+
+  return (
+    <div className="space-y-4">
+      <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border border-dashed border-slate/40 px-4 py-6 text-center text-sm text-slate transition hover:border-slate/70">
+        <input
+          type="file"
+          accept=".pdf,.zip,application/pdf,application/zip"
+          className="hidden"
+          disabled={checking}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              void handleFile(file);
+            }
+            event.target.value = "";
+          }}
+        />
+        <span className="font-semibold text-ink">
+          {checking ? "Checking..." : "Choose a pack PDF or evidence ZIP"}
+        </span>
+        {fileName ? <span className="text-xs">{fileName}</span> : null}
+      </label>
+
+      {hash ? (
+        <p className="break-all font-mono text-[11px] text-slate">SHA-256 {hash}</p>
+      ) : null}
+
+      {result?.status === "NOT_FOUND" ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          No pack matches this file. It may have been modified, or it was not issued by Tally.
+        </p>
+      ) : null}
+
+      {result?.status === "MATCHED" ? (
+        <div
+          className={`space-y-3 rounded-lg border px-4 py-3 text-sm ${
+            verified
+              ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+              : "border-amber-200 bg-amber-50 text-amber-800"
+          }`}
+        >
+          <p className="font-semibold">{describeMatch(result)}</p>
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+            <dt className="font-semibold">File</dt>
+            <dd>{result.artifact === "pdf" ? "Pack PDF" : "Evidence bundle"}</dd>
+            <dt className="font-semibold">Firm</dt>
+            <dd>{result.firmName}</dd>
+            <dt className="font-semibold">Client</dt>
+            <dd>{result.clientName}</dd>
+            <dt className="font-semibold">Pay run</dt>
+            <dd>
+              {result.periodLabel}, revision {result.revision}
+            </dd>
+            <dt className="font-semibold">Pack</dt>
+            <dd>
+              v{result.packVersion}, generated {formatTimestamp(result.generatedAt)}
+            </dd>
+            <dt className="font-semibold">Locked</dt>
+            <dd>
+              {result.lockedAt ? formatTimestamp(result.lockedAt) : "Not locked"}
+            </dd>
+            <dt className="font-semibold">Signing key</dt>
+            <dd className="break-all font-mono">{result.keyFingerprint ?? "None"}</dd>
+          </dl>
+          {result.newerPackVersion ? (
+            <p className="text-xs">
+              A later pack (v{result.newerPackVersion}) exists for this pay run.
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
+      {error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+};
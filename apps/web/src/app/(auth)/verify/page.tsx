@@ -0,0 +1,16 @@
+import { VerifyPackForm } from "./VerifyPackForm";
+
+export default function VerifyPackPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="font-display text-2xl font-semibold text-ink">Verify a pack</h2>
+        <p className="mt-2 text-sm text-slate">
+          Check that a reconciliation pack PDF or evidence bundle is unchanged since it was
+          issued. The file is hashed in your browser; only its SHA-256 is sent.
+        </p>
+      </div>
+      <VerifyPackForm />
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createSessionForUser, startMfaChallenge, takeOidcLogin } from "@/lib/auth";
+import { env } from "@/lib/env";
+import { OidcError } from "@/lib/errors";
+import { discoverOidcProvider, exchangeAuthorizationCode } from "@/lib/oidc";
+import { logServerError } from "@/lib/server-errors";
+import { completeSsoLogin, toOidcClient } from "@/lib/sso";
+
+const redirectTo = (path: string) => NextResponse.redirect(new URL(path, env.APP_BASE_URL));
+
+const loginError = (code: string) => redirectTo(`/login/sso?error=${code}`);
+
+export const GET = async (request: Request) => {
+  const params = new URL(request.url).searchParams;
+  const pending = await takeOidcLogin();
+  const code = params.get("code");
+
+  if (params.get("error")) {
+    return loginError("access_denied");
+  }
+  if (!pending || !code || params.get("state") !== pending.state) {
+    return loginError("expired");
+  }
+
+  const config = await prisma.firmSsoConfig.findFirst({
+    where: { firmId: pending.firmId, enabled: true }
+  });
+  if (!config) {
+    return loginError("not_configured");
+  }
+
+  try {
+    const metadata = await discoverOidcProvider(config.issuer);
+    const claims = await exchangeAuthorizationCode(metadata, toOidcClient(config), pending, code);
+    const user = await completeSsoLogin(config, claims);
+
+    if (user.mfaEnabledAt) {
+      await startMfaChallenge(user);
+      return redirectTo("/login/mfa");
+    }
+
+    await createSessionForUser(user);
+    return redirectTo("/dashboard");
+  } catch (error) {
+    if (error instanceof OidcError) {
+      logServerError({ scope: "oidc-callback", code: error.code }, error);
+      return loginError(error.code);
+    }
+    throw error;
+  }
+};
@@ -25,7 +25,9 @@ export const POST = async (request: Request) => {
       {
         firmId: session.firmId,
         userId: session.userId,
-        role: user.role
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
       },
       parsed.data.exceptionId,
       parsed.data.assignedToUserId ?? null
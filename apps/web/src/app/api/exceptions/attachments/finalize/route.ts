@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { addExceptionAttachment } from "@/lib/exception-attachments";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+
+const finalizeSchema = z.object({
+  exceptionId: z.string().uuid(),
+  storageKey: z.string().min(1),
+  fileHashSha256: z.string().regex(/^[0-9a-f]{64}$/),
+  originalFilename: z.string().min(1),
+  mimeType: z.string().optional().default("application/octet-stream"),
+  sizeBytes: z.number().int().positive()
+});
+
+const errorResponse = (status: number, message: string) =>
+  NextResponse.json({ error: message }, { status });
+
+export const POST = async (request: Request) => {
+  const { session, user } = await requireUser();
+  const body = await request.json();
+  const parsed = finalizeSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid finalize request.");
+  }
+
+  const { exceptionId, ...input } = parsed.data;
+
+  try {
+    const result = await addExceptionAttachment(
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
+      },
+      exceptionId,
+      input
+    );
+    return NextResponse.json({
+      attachmentId: result.attachment.id,
+      duplicate: result.duplicate
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(400, error.message);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(404, error.message);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getSignedUploadUrl } from "@tally/storage";
+import { requireUser } from "@/lib/auth";
+import { prepareExceptionAttachment } from "@/lib/exception-attachments";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { storageBucket, storageClient } from "@/lib/storage";
+
+const prepareSchema = z.object({
+  exceptionId: z.string().uuid(),
+  originalFilename: z.string().min(1),
+  mimeType: z.string().optional().default("application/octet-stream"),
+  sizeBytes: z.number().int().positive()
+});
+
+const errorResponse = (status: number, message: string) =>
+  NextResponse.json({ error: message }, { status });
+
+export const POST = async (request: Request) => {
+  const { session, user } = await requireUser();
+  const body = await request.json();
+  const parsed = prepareSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid attachment request.");
+  }
+
+  const { exceptionId, originalFilename, mimeType, sizeBytes } = parsed.data;
+
+  try {
+    const { storageKey } = await prepareExceptionAttachment(
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
+      },
+      exceptionId,
+      { originalFilename, mimeType, sizeBytes }
+    );
+
+    const uploadUrl = await getSignedUploadUrl(storageClient, storageBucket, {
+      key: storageKey,
+      contentType: mimeType
+    });
+
+    return NextResponse.json({ uploadUrl, storageKey });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(400, error.message);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(404, error.message);
+    }
+    throw error;
+  }
+};
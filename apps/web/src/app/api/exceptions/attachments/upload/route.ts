@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { storeExceptionAttachmentObject } from "@/lib/exception-attachments";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { logServerError } from "@/lib/server-errors";
+
+const uploadSchema = z.object({
+  exceptionId: z.string().uuid(),
+  storageKey: z.string().min(1),
+  originalFilename: z.string().min(1),
+  mimeType: z.string().optional().default("application/octet-stream")
+});
+
+const errorResponse = (status: number, message: string) =>
+  NextResponse.json({ error: message }, { status });
+
+export const POST = async (request: Request) => {
+  const { session, user } = await requireUser();
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+  const parsed = uploadSchema.safeParse({
+    exceptionId: formData.get("exceptionId"),
+    storageKey: formData.get("storageKey"),
+    originalFilename: formData.get("originalFilename"),
+    mimeType: formData.get("mimeType")
+  });
+
+  if (!parsed.success || !(file instanceof File)) {
+    return errorResponse(400, "Invalid upload request.");
+  }
+
+  const { exceptionId, storageKey, originalFilename, mimeType } = parsed.data;
+
+  try {
+    await storeExceptionAttachmentObject(
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
+      },
+      exceptionId,
+      {
+        storageKey,
+        originalFilename,
+        mimeType,
+        buffer: Buffer.from(await file.arrayBuffer())
+      }
+    );
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(400, error.message);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(404, error.message);
+    }
+    logServerError({ scope: "exception_attachment_upload" }, error);
+    return errorResponse(500, "Upload failed.");
+  }
+};
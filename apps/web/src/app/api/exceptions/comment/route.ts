@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { addExceptionComment } from "@/lib/exception-comments";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+
+const commentSchema = z.object({
+  exceptionId: z.string().uuid(),
+  body: z.string().min(2),
+  parentCommentId: z.string().uuid().optional().nullable()
+});
+
+const errorResponse = (status: number, message: string) =>
+  NextResponse.json({ error: message }, { status });
+
+export const POST = async (request: Request) => {
+  const { session, user } = await requireUser();
+  const body = await request.json();
+  const parsed = commentSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid comment request.");
+  }
+
+  try {
+    const comment = await addExceptionComment(
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
+      },
+      parsed.data.exceptionId,
+      {
+        body: parsed.data.body,
+        parentCommentId: parsed.data.parentCommentId ?? null
+      }
+    );
+    return NextResponse.json({ id: comment.id });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(400, error.message);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(404, error.message);
+    }
+    throw error;
+  }
+};
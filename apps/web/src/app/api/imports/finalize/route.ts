@@ -1,26 +1,11 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { GetObjectCommand } from "@aws-sdk/client-s3";
 import { requireUser } from "@/lib/auth";
 import { PermissionError, requirePermission } from "@/lib/permissions";
-import {
-  assertStorageKeyMatches,
-  createImport,
-  isAllowedUpload
-} from "@/lib/imports";
-import {
-  ConflictError,
-  ImportFileInvalidError,
-  ImportParseError,
-  NotFoundError,
-  ValidationError
-} from "@/lib/errors";
-import {
-  formatBytes,
-  importValidationLimits,
-  validateImportBufferForUpload
-} from "@/lib/import-validation";
-import { storageBucket, storageClient } from "@/lib/storage";
+import { isAllowedUpload } from "@/lib/imports";
+import { finalizeImport } from "@/lib/import-finalize";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/errors";
+import { formatBytes, importValidationLimits } from "@/lib/import-validation";
 
 const finalizeSchema = z.object({
   payRunId: z.string().uuid(),
@@ -35,34 +20,11 @@ const finalizeSchema = z.object({
 const errorResponse = (status: number, message: string) =>
   NextResponse.json({ error: message }, { status });
 
-const bodyToBuffer = async (body: unknown): Promise<Buffer> => {
-  if (!body) {
-    throw new ValidationError("File contents are unavailable.");
-  }
-  if (Buffer.isBuffer(body)) {
-    return body;
-  }
-  if (body instanceof Uint8Array) {
-    return Buffer.from(body);
-  }
-  if (typeof body === "string") {
-    return Buffer.from(body);
-  }
-  if (typeof (body as { pipe?: unknown }).pipe === "function") {
-    const chunks: Uint8Array[] = [];
-    for await (const chunk of body as AsyncIterable<Uint8Array>) {
-      chunks.push(chunk);
-    }
-    return Buffer.concat(chunks.map((chunk) => Buffer.from(chunk)));
-  }
-  throw new ValidationError("Unable to read the uploaded file.");
-};
-
 export const POST = async (request: Request) => {
   const { session, user } = await requireUser();
 
   try {
-    requirePermission(user.role, "import:upload");
+    requirePermission(user, "import:upload");
   } catch (error) {
     if (error instanceof PermissionError) {
       return errorResponse(403, "Permission denied.");
@@ -98,36 +60,13 @@ export const POST = async (request: Request) => {
   }
 
   try {
-    assertStorageKeyMatches(session.firmId, payRunId, storageKey);
-
-    let validationError: ImportFileInvalidError | ImportParseError | null = null;
-    try {
-      const object = await storageClient.send(
-        new GetObjectCommand({
-          Bucket: storageBucket,
-          Key: storageKey
-        })
-      );
-      const buffer = await bodyToBuffer(object.Body);
-      validateImportBufferForUpload({
-        buffer,
-        fileName: originalFilename,
-        mimeType,
-        sizeBytes
-      });
-    } catch (error) {
-      if (error instanceof ImportFileInvalidError || error instanceof ImportParseError) {
-        validationError = error;
-      } else {
-        throw error;
-      }
-    }
-
-    const result = await createImport(
+    const result = await finalizeImport(
       {
         firmId: session.firmId,
         userId: session.userId,
-        role: user.role
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
       },
       {
         payRunId,
@@ -136,17 +75,14 @@ export const POST = async (request: Request) => {
         fileHashSha256,
         originalFilename,
         mimeType,
-        sizeBytes,
-        parseStatus: validationError?.code ?? "UPLOADED",
-        errorCode: validationError?.code ?? null,
-        errorMessage: validationError?.message ?? null
+        sizeBytes
       }
     );
 
-    if (validationError) {
+    if (result.validationError) {
       return NextResponse.json(
         {
-          error: validationError.message,
+          error: result.validationError.message,
           importId: result.importRecord.id,
           status: result.importRecord.parseStatus
         },
@@ -157,7 +93,8 @@ export const POST = async (request: Request) => {
     return NextResponse.json({
       importId: result.importRecord.id,
       version: result.importRecord.version,
-      duplicate: result.duplicate
+      duplicate: result.duplicate,
+      jobId: result.parseJob?.id ?? null
     });
   } catch (error) {
     if (
@@ -7,6 +7,7 @@ import { buildStorageKey, isAllowedUpload } from "@/lib/imports";
 import { storageBucket, storageClient } from "@/lib/storage";
 import { formatBytes, importValidationLimits } from "@/lib/import-validation";
 import { prisma } from "@/lib/prisma";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
 
 const prepareSchema = z.object({
   payRunId: z.string().uuid(),
@@ -23,7 +24,7 @@ export const POST = async (request: Request) => {
   const { session, user } = await requireUser();
 
   try {
-    requirePermission(user.role, "import:upload");
+    requirePermission(user, "import:upload");
   } catch (error) {
     if (error instanceof PermissionError) {
       return errorResponse(403, "Permission denied.");
@@ -58,7 +59,13 @@ export const POST = async (request: Request) => {
     }
   });
 
-  if (!payRun) {
+  if (
+    !payRun ||
+    !(await hasClientAccess(userClientScope(user), payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: payRun.id
+    }))
+  ) {
     return errorResponse(404, "Pay run not found.");
   }
 
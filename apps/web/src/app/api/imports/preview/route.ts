@@ -17,7 +17,7 @@ export const POST = async (request: Request) => {
   const { session, user } = await requireUser();
 
   try {
-    requirePermission(user.role, "template:write");
+    requirePermission(user, "template:write");
   } catch (error) {
     if (error instanceof PermissionError) {
       return errorResponse(403, "Permission denied.");
@@ -36,7 +36,8 @@ export const POST = async (request: Request) => {
       session.firmId,
       parsed.data.importId,
       parsed.data.sheetName,
-      session.userId
+      session.userId,
+      { clientIds: user.clientIds }
     );
     return NextResponse.json(preview);
   } catch (error) {
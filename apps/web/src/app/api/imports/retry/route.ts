@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { requireUser } from "@/lib/auth";
-import { getImportPreview } from "@/lib/import-preview";
+import { enqueueJob } from "@/lib/jobs";
 import { PermissionError, requirePermission } from "@/lib/permissions";
-import { ValidationError } from "@/lib/errors";
+import { NotFoundError, ValidationError } from "@/lib/errors";
 
 const retrySchema = z.object({
   importId: z.string().uuid(),
@@ -17,7 +17,7 @@ export const POST = async (request: Request) => {
   const { session, user } = await requireUser();
 
   try {
-    requirePermission(user.role, "import:upload");
+    requirePermission(user, "import:upload");
   } catch (error) {
     if (error instanceof PermissionError) {
       return errorResponse(403, "Permission denied.");
@@ -32,18 +32,28 @@ export const POST = async (request: Request) => {
   }
 
   try {
-    await getImportPreview(
-      session.firmId,
-      parsed.data.importId,
-      parsed.data.sheetName ?? null,
-      session.userId,
-      { force: true }
+    const job = await enqueueJob(
+      {
+        firmId: session.firmId,
+        userId: session.userId,
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
+      },
+      {
+        name: "IMPORT_PARSE",
+        importId: parsed.data.importId,
+        payload: { sheetName: parsed.data.sheetName ?? null }
+      }
     );
-    return NextResponse.json({ ok: true });
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
     if (error instanceof ValidationError) {
       return errorResponse(400, error.message);
     }
+    if (error instanceof NotFoundError) {
+      return errorResponse(404, error.message);
+    }
     throw error;
   }
 };
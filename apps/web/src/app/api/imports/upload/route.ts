@@ -8,6 +8,8 @@ import { storageBucket, storageClient } from "@/lib/storage";
 import { logServerError } from "@/lib/server-errors";
 import { validateImportBufferForUpload } from "@/lib/import-validation";
 import { ValidationError } from "@/lib/errors";
+import { hasClientAccess, userClientScope } from "@/lib/client-access";
+import { prisma } from "@/lib/prisma";
 
 const uploadSchema = z.object({
   payRunId: z.string().uuid(),
@@ -24,7 +26,7 @@ export const POST = async (request: Request) => {
   const { session, user } = await requireUser();
 
   try {
-    requirePermission(user.role, "import:upload");
+    requirePermission(user, "import:upload");
   } catch (error) {
     if (error instanceof PermissionError) {
       return errorResponse(403, "Permission denied.");
@@ -52,6 +54,19 @@ export const POST = async (request: Request) => {
     return errorResponse(400, "Unsupported file type.");
   }
 
+  const payRun = await prisma.payRun.findFirst({
+    where: { id: payRunId, firmId: session.firmId }
+  });
+  if (
+    !payRun ||
+    !(await hasClientAccess(userClientScope(user), payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: payRun.id
+    }))
+  ) {
+    return errorResponse(404, "Pay run not found.");
+  }
+
   try {
     assertStorageKeyMatches(session.firmId, payRunId, storageKey);
 
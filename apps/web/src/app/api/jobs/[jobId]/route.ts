@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireUser } from "@/lib/auth";
+import { getJob, toJobSummary } from "@/lib/jobs";
+import { NotFoundError } from "@/lib/errors";
+
+type JobRouteContext = {
+  params: { jobId: string };
+};
+
+const errorResponse = (status: number, message: string) =>
+  NextResponse.json({ error: message }, { status });
+
+export const GET = async (_request: Request, { params }: JobRouteContext) => {
+  const { session, user } = await requireUser();
+  const parsed = z.string().uuid().safeParse(params.jobId);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid job request.");
+  }
+
+  try {
+    const job = await getJob(
+      { firmId: session.firmId, userId: session.userId, clientIds: user.clientIds },
+      parsed.data
+    );
+    return NextResponse.json(toJobSummary(job));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return errorResponse(404, error.message);
+    }
+    throw error;
+  }
+};
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { requireUser } from "@/lib/auth";
-import { generatePack } from "@/lib/packs";
+import { enqueueJob } from "@/lib/jobs";
+import { PermissionError } from "@/lib/permissions";
 import { NotFoundError, ValidationError } from "@/lib/errors";
 
 const generateSchema = z.object({
@@ -20,16 +21,21 @@ export const POST = async (request: Request) => {
   }
 
   try {
-    const pack = await generatePack(
+    const job = await enqueueJob(
       {
         firmId: session.firmId,
         userId: session.userId,
-        role: user.role
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
       },
-      parsed.data.payRunId
+      { name: "PACK_GENERATE", payRunId: parsed.data.payRunId }
     );
-    return NextResponse.json({ packId: pack.id, packVersion: pack.packVersion });
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
+    if (error instanceof PermissionError) {
+      return errorResponse(403, "Permission denied.");
+    }
     if (error instanceof ValidationError) {
       return errorResponse(400, error.message);
     }
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { requireUser } from "@/lib/auth";
 import { PermissionError } from "@/lib/permissions";
-import { runReconciliation } from "@/lib/reconciliation";
+import { enqueueJob } from "@/lib/jobs";
 import { NotFoundError, ValidationError } from "@/lib/errors";
 
 const runSchema = z.object({
@@ -21,15 +21,17 @@ export const POST = async (request: Request) => {
   }
 
   try {
-    const result = await runReconciliation(
+    const job = await enqueueJob(
       {
         firmId: session.firmId,
         userId: session.userId,
-        role: user.role
+        role: user.role,
+        permissions: user.permissions,
+        clientIds: user.clientIds
       },
-      parsed.data.payRunId
+      { name: "RECONCILIATION_RUN", payRunId: parsed.data.payRunId }
     );
-    return NextResponse.json(result);
+    return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
   } catch (error) {
     if (error instanceof PermissionError) {
       return errorResponse(403, "Permission denied.");
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute, toApiClient } from "@/lib/api-v1";
+import { assertClientAccess } from "@/lib/client-access";
+import { NotFoundError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+
+export const GET = apiRoute<{ clientId: string }>(
+  "clients:read",
+  async (_request, { actor, params }) => {
+    const parsed = z.string().uuid().safeParse(params.clientId);
+    if (!parsed.success) {
+      return apiErrorResponse(400, "Invalid client id.");
+    }
+    const client = await prisma.client.findFirst({
+      where: { id: parsed.data, firmId: actor.firmId }
+    });
+    if (!client) {
+      throw new NotFoundError("Client not found.");
+    }
+    await assertClientAccess(actor, client.id, { entityType: "CLIENT", entityId: client.id });
+    return NextResponse.json(toApiClient(client));
+  }
+);
@@ -0,0 +1,17 @@
+import { apiRoute, listResponse, readListPage, toApiClient } from "@/lib/api-v1";
+import { clientIdFilter } from "@/lib/client-access";
+import { prisma } from "@/lib/prisma";
+
+export const GET = apiRoute("clients:read", async (request, { actor }) => {
+  const url = new URL(request.url);
+  const clients = await prisma.client.findMany({
+    where: {
+      firmId: actor.firmId,
+      id: clientIdFilter(actor),
+      ...(url.searchParams.get("includeArchived") === "true" ? {} : { archivedAt: null })
+    },
+    orderBy: [{ name: "asc" }, { id: "asc" }],
+    ...readListPage(url)
+  });
+  return listResponse(url, clients, toApiClient);
+});
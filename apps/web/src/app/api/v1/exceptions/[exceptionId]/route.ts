@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute, toApiException } from "@/lib/api-v1";
+import { assertClientAccess } from "@/lib/client-access";
+import { NotFoundError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+
+export const GET = apiRoute<{ exceptionId: string }>(
+  "exceptions:read",
+  async (_request, { actor, params }) => {
+    const parsed = z.string().uuid().safeParse(params.exceptionId);
+    if (!parsed.success) {
+      return apiErrorResponse(400, "Invalid exception id.");
+    }
+    const exception = await prisma.exception.findFirst({
+      where: { id: parsed.data, firmId: actor.firmId },
+      include: { payRun: { select: { clientId: true } } }
+    });
+    if (!exception) {
+      throw new NotFoundError("Exception not found.");
+    }
+    await assertClientAccess(actor, exception.payRun.clientId, {
+      entityType: "EXCEPTION",
+      entityId: exception.id
+    });
+    return NextResponse.json(toApiException(exception));
+  }
+);
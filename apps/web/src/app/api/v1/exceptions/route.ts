@@ -0,0 +1,27 @@
+import {
+  apiRoute,
+  readEnumParam,
+  listResponse,
+  readListPage,
+  readUuidParam,
+  toApiException
+} from "@/lib/api-v1";
+import { clientIdFilter } from "@/lib/client-access";
+import { ExceptionStatus, prisma } from "@/lib/prisma";
+
+/** Current exceptions only; ones superseded by a later reconciliation run are left out. */
+export const GET = apiRoute("exceptions:read", async (request, { actor }) => {
+  const url = new URL(request.url);
+  const exceptions = await prisma.exception.findMany({
+    where: {
+      firmId: actor.firmId,
+      payRunId: readUuidParam(url, "payRunId"),
+      status: readEnumParam(url, "status", Object.values(ExceptionStatus)),
+      supersededAt: null,
+      payRun: { clientId: clientIdFilter(actor) }
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+    ...readListPage(url)
+  });
+  return listResponse(url, exceptions, toApiException);
+});
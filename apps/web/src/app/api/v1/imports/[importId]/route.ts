@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute, toApiImport } from "@/lib/api-v1";
+import { assertClientAccess } from "@/lib/client-access";
+import { NotFoundError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+
+export const GET = apiRoute<{ importId: string }>(
+  "imports:read",
+  async (_request, { actor, params }) => {
+    const parsed = z.string().uuid().safeParse(params.importId);
+    if (!parsed.success) {
+      return apiErrorResponse(400, "Invalid import id.");
+    }
+    const importRecord = await prisma.import.findFirst({
+      where: { id: parsed.data, firmId: actor.firmId }
+    });
+    if (!importRecord) {
+      throw new NotFoundError("Import not found.");
+    }
+    await assertClientAccess(actor, importRecord.clientId, {
+      entityType: "IMPORT",
+      entityId: importRecord.id
+    });
+    return NextResponse.json(toApiImport(importRecord));
+  }
+);
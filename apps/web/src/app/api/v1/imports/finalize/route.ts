@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute, toApiImport } from "@/lib/api-v1";
+import { finalizeImport } from "@/lib/import-finalize";
+import { isAllowedUpload } from "@/lib/imports";
+import { formatBytes, importValidationLimits } from "@/lib/import-validation";
+import { requirePermission } from "@/lib/permissions";
+
+const finalizeSchema = z.object({
+  payRunId: z.string().uuid(),
+  sourceType: z.enum(["REGISTER", "BANK", "GL", "STATUTORY", "PENSION_SCHEDULE"]),
+  storageKey: z.string().min(1),
+  fileHashSha256: z.string().min(32),
+  originalFilename: z.string().min(1),
+  mimeType: z.string().optional().default("application/octet-stream"),
+  sizeBytes: z.number().int().positive()
+});
+
+export const POST = apiRoute("imports:write", async (request, { actor }) => {
+  requirePermission(actor, "import:upload");
+
+  const parsed = finalizeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return apiErrorResponse(400, "Invalid finalize request.");
+  }
+  if (!isAllowedUpload(parsed.data.originalFilename, parsed.data.mimeType)) {
+    return apiErrorResponse(400, "Unsupported file type.");
+  }
+  if (parsed.data.sizeBytes > importValidationLimits.maxBytes) {
+    return apiErrorResponse(
+      400,
+      `File exceeds the ${formatBytes(importValidationLimits.maxBytes)} limit.`
+    );
+  }
+
+  const result = await finalizeImport(actor, parsed.data);
+  if (result.validationError) {
+    return NextResponse.json(
+      { error: result.validationError.message, import: toApiImport(result.importRecord) },
+      { status: 422 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      import: toApiImport(result.importRecord),
+      duplicate: result.duplicate,
+      jobId: result.parseJob?.id ?? null
+    },
+    { status: result.duplicate ? 200 : 201 }
+  );
+});
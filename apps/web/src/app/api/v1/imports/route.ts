@@ -0,0 +1,26 @@
+import {
+  apiRoute,
+  readEnumParam,
+  listResponse,
+  readListPage,
+  readUuidParam,
+  toApiImport
+} from "@/lib/api-v1";
+import { clientIdFilter } from "@/lib/client-access";
+import { ImportStatus, SourceType, prisma } from "@/lib/prisma";
+
+export const GET = apiRoute("imports:read", async (request, { actor }) => {
+  const url = new URL(request.url);
+  const imports = await prisma.import.findMany({
+    where: {
+      firmId: actor.firmId,
+      clientId: clientIdFilter(actor),
+      payRunId: readUuidParam(url, "payRunId"),
+      sourceType: readEnumParam(url, "sourceType", Object.values(SourceType)),
+      parseStatus: readEnumParam(url, "status", Object.values(ImportStatus))
+    },
+    orderBy: [{ uploadedAt: "desc" }, { id: "asc" }],
+    ...readListPage(url)
+  });
+  return listResponse(url, imports, toApiImport);
+});
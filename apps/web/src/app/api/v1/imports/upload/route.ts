@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import { apiErrorResponse, apiRoute } from "@/lib/api-v1";
+import { assertClientAccess } from "@/lib/client-access";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { sha256Hex } from "@/lib/hash";
+import { validateImportBufferForUpload } from "@/lib/import-validation";
+import { buildStorageKey, isAllowedUpload } from "@/lib/imports";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { storageBucket, storageClient } from "@/lib/storage";
+
+const uploadSchema = z.object({
+  payRunId: z.string().uuid(),
+  sourceType: z.enum(["REGISTER", "BANK", "GL", "STATUTORY", "PENSION_SCHEDULE"])
+});
+
+/**
+ * Stores a file for a pay run and returns the fields `POST /imports/finalize`
+ * expects. Nothing is recorded until the upload is finalized.
+ */
+export const POST = apiRoute("imports:write", async (request, { actor }) => {
+  requirePermission(actor, "import:upload");
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+  const parsed = uploadSchema.safeParse({
+    payRunId: formData.get("payRunId"),
+    sourceType: formData.get("sourceType")
+  });
+  if (!parsed.success || !(file instanceof File)) {
+    return apiErrorResponse(400, "Send payRunId, sourceType and file as multipart form data.");
+  }
+
+  const { payRunId, sourceType } = parsed.data;
+  const originalFilename = file.name;
+  const mimeType = file.type || "application/octet-stream";
+  if (!isAllowedUpload(originalFilename, mimeType)) {
+    return apiErrorResponse(400, "Unsupported file type.");
+  }
+
+  const payRun = await prisma.payRun.findFirst({
+    where: { id: payRunId, firmId: actor.firmId }
+  });
+  if (!payRun) {
+    throw new NotFoundError("Pay run not found.");
+  }
+  await assertClientAccess(actor, payRun.clientId, { entityType: "PAY_RUN", entityId: payRun.id });
+  if (payRun.status === "LOCKED" || payRun.status === "ARCHIVED") {
+    throw new ValidationError("Locked pay runs cannot accept new imports.");
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  validateImportBufferForUpload({
+    buffer,
+    fileName: originalFilename,
+    mimeType,
+    sizeBytes: file.size
+  });
+
+  const storageKey = buildStorageKey(actor.firmId, payRunId, sourceType, originalFilename);
+  await storageClient.send(
+    new PutObjectCommand({
+      Bucket: storageBucket,
+      Key: storageKey,
+      Body: buffer,
+      ContentType: mimeType
+    })
+  );
+
+  return NextResponse.json(
+    {
+      payRunId,
+      sourceType,
+      storageKey,
+      originalFilename,
+      mimeType,
+      sizeBytes: file.size,
+      fileHashSha256: await sha256Hex(buffer)
+    },
+    { status: 201 }
+  );
+});
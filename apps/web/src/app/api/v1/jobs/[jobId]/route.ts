@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute } from "@/lib/api-v1";
+import { getJob, toJobSummary } from "@/lib/jobs";
+
+// Jobs are returned by write endpoints, so any valid token may poll them.
+export const GET = apiRoute<{ jobId: string }>(null, async (_request, { actor, params }) => {
+  const parsed = z.string().uuid().safeParse(params.jobId);
+  if (!parsed.success) {
+    return apiErrorResponse(400, "Invalid job id.");
+  }
+  const job = await getJob(actor, parsed.data);
+  return NextResponse.json(toJobSummary(job));
+});
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { env } from "@/lib/env";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+// Public, so client generators can fetch it without a token.
+export const GET = () => NextResponse.json(buildOpenApiDocument(env.APP_BASE_URL));
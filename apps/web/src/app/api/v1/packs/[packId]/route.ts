@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute, toApiPack } from "@/lib/api-v1";
+import { assertClientAccess } from "@/lib/client-access";
+import { NotFoundError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+
+export const GET = apiRoute<{ packId: string }>(
+  "packs:read",
+  async (_request, { actor, params }) => {
+    const parsed = z.string().uuid().safeParse(params.packId);
+    if (!parsed.success) {
+      return apiErrorResponse(400, "Invalid pack id.");
+    }
+    const pack = await prisma.pack.findFirst({
+      where: { id: parsed.data, firmId: actor.firmId },
+      include: { payRun: { select: { clientId: true } } }
+    });
+    if (!pack) {
+      throw new NotFoundError("Pack not found.");
+    }
+    await assertClientAccess(actor, pack.payRun.clientId, {
+      entityType: "PACK",
+      entityId: pack.id
+    });
+    return NextResponse.json(toApiPack(pack));
+  }
+);
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  apiErrorResponse,
+  apiRoute,
+  listResponse,
+  readListPage,
+  readUuidParam,
+  toApiPack
+} from "@/lib/api-v1";
+import { clientIdFilter } from "@/lib/client-access";
+import { enqueueJob } from "@/lib/jobs";
+import { prisma } from "@/lib/prisma";
+
+const generateSchema = z.object({
+  payRunId: z.string().uuid()
+});
+
+export const GET = apiRoute("packs:read", async (request, { actor }) => {
+  const url = new URL(request.url);
+  const packs = await prisma.pack.findMany({
+    where: {
+      firmId: actor.firmId,
+      payRunId: readUuidParam(url, "payRunId"),
+      payRun: { clientId: clientIdFilter(actor) }
+    },
+    orderBy: [{ generatedAt: "desc" }, { id: "asc" }],
+    ...readListPage(url)
+  });
+  return listResponse(url, packs, toApiPack);
+});
+
+/** Queues pack generation for an approved pay run; poll the returned job. */
+export const POST = apiRoute("packs:write", async (request, { actor }) => {
+  const parsed = generateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return apiErrorResponse(400, "Invalid pack request.");
+  }
+  const job = await enqueueJob(actor, { name: "PACK_GENERATE", payRunId: parsed.data.payRunId });
+  return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+});
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute, toApiPayRun } from "@/lib/api-v1";
+import { assertClientAccess } from "@/lib/client-access";
+import { NotFoundError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+
+export const GET = apiRoute<{ payRunId: string }>(
+  "pay-runs:read",
+  async (_request, { actor, params }) => {
+    const parsed = z.string().uuid().safeParse(params.payRunId);
+    if (!parsed.success) {
+      return apiErrorResponse(400, "Invalid pay run id.");
+    }
+    const payRun = await prisma.payRun.findFirst({
+      where: { id: parsed.data, firmId: actor.firmId }
+    });
+    if (!payRun) {
+      throw new NotFoundError("Pay run not found.");
+    }
+    await assertClientAccess(actor, payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: payRun.id
+    });
+
+    const [latestRun, openExceptions, latestPack] = await Promise.all([
+      prisma.reconciliationRun.findFirst({
+        where: { payRunId: payRun.id, supersededAt: null },
+        orderBy: { runNumber: "desc" },
+        select: { id: true, status: true }
+      }),
+      prisma.exception.count({
+        where: { payRunId: payRun.id, status: "OPEN", supersededAt: null }
+      }),
+      prisma.pack.findFirst({
+        where: { payRunId: payRun.id },
+        orderBy: { packVersion: "desc" },
+        select: { id: true, lockedAt: true }
+      })
+    ]);
+
+    return NextResponse.json({
+      ...toApiPayRun(payRun),
+      latestReconciliationRun: latestRun,
+      openExceptions,
+      latestPack: latestPack
+        ? { id: latestPack.id, lockedAt: latestPack.lockedAt?.toISOString() ?? null }
+        : null
+    });
+  }
+);
@@ -0,0 +1,28 @@
+import {
+  apiRoute,
+  readEnumParam,
+  listResponse,
+  readListPage,
+  readUuidParam,
+  toApiPayRun
+} from "@/lib/api-v1";
+import { clientIdFilter } from "@/lib/client-access";
+import { PayRunStatus, prisma } from "@/lib/prisma";
+
+export const GET = apiRoute("pay-runs:read", async (request, { actor }) => {
+  const url = new URL(request.url);
+  const clientId = readUuidParam(url, "clientId");
+  const status = readEnumParam(url, "status", Object.values(PayRunStatus));
+  const payRuns = await prisma.payRun.findMany({
+    where: {
+      firmId: actor.firmId,
+      clientId: clientId
+        ? { equals: clientId, ...clientIdFilter(actor) }
+        : clientIdFilter(actor),
+      status
+    },
+    orderBy: [{ periodStart: "desc" }, { revision: "desc" }, { id: "asc" }],
+    ...readListPage(url)
+  });
+  return listResponse(url, payRuns, toApiPayRun);
+});
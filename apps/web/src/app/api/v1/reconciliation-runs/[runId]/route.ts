@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiErrorResponse, apiRoute, toApiReconciliationRun } from "@/lib/api-v1";
+import { assertClientAccess } from "@/lib/client-access";
+import { NotFoundError } from "@/lib/errors";
+import { prisma } from "@/lib/prisma";
+
+export const GET = apiRoute<{ runId: string }>(
+  "reconciliation:read",
+  async (_request, { actor, params }) => {
+    const parsed = z.string().uuid().safeParse(params.runId);
+    if (!parsed.success) {
+      return apiErrorResponse(400, "Invalid reconciliation run id.");
+    }
+    const run = await prisma.reconciliationRun.findFirst({
+      where: { id: parsed.data, firmId: actor.firmId },
+      include: {
+        payRun: { select: { clientId: true } },
+        checkResults: {
+          select: {
+            checkType: true,
+            checkVersion: true,
+            status: true,
+            severity: true,
+            summary: true
+          },
+          orderBy: { checkType: "asc" }
+        }
+      }
+    });
+    if (!run) {
+      throw new NotFoundError("Reconciliation run not found.");
+    }
+    await assertClientAccess(actor, run.payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: run.payRunId
+    });
+    return NextResponse.json({ ...toApiReconciliationRun(run), checks: run.checkResults });
+  }
+);
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  apiErrorResponse,
+  apiRoute,
+  listResponse,
+  readListPage,
+  readUuidParam,
+  toApiReconciliationRun
+} from "@/lib/api-v1";
+import { clientIdFilter } from "@/lib/client-access";
+import { enqueueJob } from "@/lib/jobs";
+import { prisma } from "@/lib/prisma";
+
+const runSchema = z.object({
+  payRunId: z.string().uuid()
+});
+
+export const GET = apiRoute("reconciliation:read", async (request, { actor }) => {
+  const url = new URL(request.url);
+  const runs = await prisma.reconciliationRun.findMany({
+    where: {
+      firmId: actor.firmId,
+      payRunId: readUuidParam(url, "payRunId"),
+      payRun: { clientId: clientIdFilter(actor) }
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+    ...readListPage(url)
+  });
+  return listResponse(url, runs, toApiReconciliationRun);
+});
+
+/** Queues a reconciliation run; poll the returned job for the run id. */
+export const POST = apiRoute("reconciliation:write", async (request, { actor }) => {
+  const parsed = runSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return apiErrorResponse(400, "Invalid reconciliation request.");
+  }
+  const job = await enqueueJob(actor, {
+    name: "RECONCILIATION_RUN",
+    payRunId: parsed.data.payRunId
+  });
+  return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyPackByHash } from "@/lib/pack-verification";
+import { ValidationError } from "@/lib/errors";
+
+// Public: recipients of a pack verify it without a Tally account.
+const verifySchema = z.object({
+  sha256: z.string().regex(/^[a-fA-F0-9]{64}$/)
+});
+
+const errorResponse = (status: number, message: string) =>
+  NextResponse.json({ error: message }, { status });
+
+export const POST = async (request: Request) => {
+  const body = await request.json().catch(() => null);
+  const parsed = verifySchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(400, "Invalid verification request.");
+  }
+
+  try {
+    const result = await verifyPackByHash(parsed.data.sha256);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return errorResponse(400, error.message);
+    }
+    throw error;
+  }
+};
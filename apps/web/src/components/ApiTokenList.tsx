@@ -0,0 +1,89 @@
+type ApiTokenListItem = {
+  id: string;
+  kind: "PERSONAL" | "SERVICE";
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  user?: { email: string };
+};
+
+type ApiTokenListProps = {
+  tokens: ApiTokenListItem[];
+  // Receives the form with `tokenId`.
+  revokeAction: (formData: FormData) => Promise<void>;
+  showOwner?: boolean;
+};
+
+const formatTimestamp = (value: Date) =>
+  value.toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+export const ApiTokenList = ({ tokens, revokeAction, showOwner = false }: ApiTokenListProps) => {
+  if (tokens.length === 0) {
+    return <p className="text-sm text-slate">No API tokens.</p>;
+  }
+
+  const now = new Date();
+
+  return (
+    <table className="w-full border-collapse text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase tracking-wide text-slate">
+          <th className="pb-3">Name</th>
+          {showOwner ? <th className="pb-3">Acts as</th> : null}
+          <th className="pb-3">Scopes</th>
+          <th className="pb-3">Expires</th>
+          <th className="pb-3">Last used</th>
+          <th className="pb-3">Action</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate/10">
+        {tokens.map((token) => (
+          <tr key={token.id}>
+            <td className="py-3 text-ink">
+              <span className="block font-semibold">{token.name}</span>
+              <span className="block font-mono text-xs text-slate">
+                {token.tokenPrefix}… · {token.kind === "SERVICE" ? "Service" : "Personal"}
+              </span>
+            </td>
+            {showOwner ? <td className="py-3 text-slate">{token.user?.email ?? "-"}</td> : null}
+            <td className="max-w-xs py-3 text-xs text-slate">{token.scopes.join(", ")}</td>
+            <td className="py-3 text-slate">
+              {token.expiresAt && token.expiresAt <= now ? (
+                <span className="text-xs font-semibold uppercase tracking-wide text-red-700">
+                  Expired
+                </span>
+              ) : token.expiresAt ? (
+                formatTimestamp(token.expiresAt)
+              ) : (
+                "Never"
+              )}
+            </td>
+            <td className="py-3 text-slate">
+              {token.lastUsedAt ? formatTimestamp(token.lastUsedAt) : "Never"}
+            </td>
+            <td className="py-3">
+              <form action={revokeAction}>
+                <input type="hidden" name="tokenId" value={token.id} />
+                <button
+                  type="submit"
+                  className="rounded-lg border border-slate/30 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate"
+                >
+                  Revoke
+                </button>
+              </form>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
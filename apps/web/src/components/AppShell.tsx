@@ -1,7 +1,6 @@
 import Link from "next/link";
 import type { Route } from "next";
 import type { ReactNode } from "react";
-import type { Role } from "@/lib/prisma";
 import { logoutAction } from "@/app/(app)/actions";
 
 const navItems: Array<{
@@ -22,7 +21,8 @@ type AppShellProps = {
   children: ReactNode;
   user: {
     email: string;
-    role: Role;
+    // Built-in role, or the name of a firm-defined role.
+    role: string;
   };
 };
 
@@ -83,6 +83,24 @@ export const AppShell = ({ children, user }: AppShellProps) => {
                   Search
                 </button>
               </form>
+              <Link
+                href="/sessions"
+                className="rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+              >
+                Sessions
+              </Link>
+              <Link
+                href="/api-tokens"
+                className="rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+              >
+                API tokens
+              </Link>
+              <Link
+                href="/mfa/setup"
+                className="rounded-lg border border-slate/30 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate hover:border-slate/60"
+              >
+                Two-step
+              </Link>
               <form action={logoutAction}>
                 <button
                   type="submit"
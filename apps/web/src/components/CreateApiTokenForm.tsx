@@ -0,0 +1,93 @@
+"use client";
+
+import { useFormState, useFormStatus } from "react-dom";
+
+export type ApiTokenFormState = {
+  error?: string;
+  token?: string;
+};
+
+type CreateApiTokenFormProps = {
+  action: (state: ApiTokenFormState, formData: FormData) => Promise<ApiTokenFormState>;
+  // Only scopes the signed-in user can grant.
+  scopes: Array<{ key: string; label: string }>;
+  expiryDays: readonly number[];
+};
+
+const initialState: ApiTokenFormState = {};
+
+const inputClassName = "mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm";
+const labelClassName = "text-xs font-semibold uppercase tracking-wide text-slate";
+
+const SubmitButton = () => {
+  const { pending } = useFormStatus();
+  return (
+    <button
+      type="submit"
+      disabled={pending}
+      className="rounded-lg bg-accent px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-accent-strong disabled:cursor-not-allowed disabled:opacity-70"
+    >
+      {pending ? "Creating..." : "Create token"}
+    </button>
+  );
+};
+
+export const CreateApiTokenForm = ({ action, scopes, expiryDays }: CreateApiTokenFormProps) => {
+  const [state, formAction] = useFormState(action, initialState);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <label className={labelClassName}>Name</label>
+          <input
+            name="name"
+            required
+            maxLength={100}
+            placeholder="Nightly register upload"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Expires after</label>
+          <select name="expiresInDays" defaultValue="90" className={inputClassName}>
+            {expiryDays.map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <fieldset className="grid gap-2 md:grid-cols-3">
+        <legend className={labelClassName}>Scopes</legend>
+        {scopes.map((scope) => (
+          <label key={scope.key} className="mt-2 flex items-start gap-3 text-sm text-slate">
+            <input
+              name="scopes"
+              type="checkbox"
+              value={scope.key}
+              className="mt-1 h-4 w-4 rounded border-slate/40"
+            />
+            <span>
+              <span className="font-mono text-xs font-semibold text-ink">{scope.key}</span>
+              <span className="block text-xs text-slate">{scope.label}</span>
+            </span>
+          </label>
+        ))}
+      </fieldset>
+      {state.error ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {state.error}
+        </p>
+      ) : null}
+      {state.token ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          Copy this token now; it will not be shown again:{" "}
+          <span className="break-all font-mono">{state.token}</span>
+        </p>
+      ) : null}
+      <SubmitButton />
+    </form>
+  );
+};
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { waitForJob } from "@/lib/job-polling";
 
 type ImportRetryButtonProps = {
   importId: string;
@@ -32,6 +33,10 @@ export const ImportRetryButton = ({
       if (!response.ok) {
         throw new Error(payload.error || "Unable to retry parsing.");
       }
+      const job = await waitForJob(payload.jobId);
+      if (job.status === "FAILED") {
+        throw new Error(job.error || "Unable to retry parsing.");
+      }
       router.refresh();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to retry parsing.");
@@ -0,0 +1,80 @@
+type SessionListItem = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+};
+
+type SessionListProps = {
+  sessions: SessionListItem[];
+  currentSessionId?: string;
+  // Receives the form with `sessionId` (and `userId` when given).
+  revokeAction: (formData: FormData) => Promise<void>;
+  userId?: string;
+};
+
+const formatTimestamp = (value: Date) =>
+  value.toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+export const SessionList = ({
+  sessions,
+  currentSessionId,
+  revokeAction,
+  userId
+}: SessionListProps) => {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-slate">No active sessions.</p>;
+  }
+
+  return (
+    <table className="w-full border-collapse text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase tracking-wide text-slate">
+          <th className="pb-3">Device</th>
+          <th className="pb-3">IP address</th>
+          <th className="pb-3">Signed in</th>
+          <th className="pb-3">Last active</th>
+          <th className="pb-3">Action</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate/10">
+        {sessions.map((session) => (
+          <tr key={session.id}>
+            <td className="max-w-xs py-3 text-ink">
+              <span className="block truncate" title={session.userAgent ?? undefined}>
+                {session.userAgent ?? "Unknown device"}
+              </span>
+            </td>
+            <td className="py-3 text-slate">{session.ipAddress ?? "-"}</td>
+            <td className="py-3 text-slate">{formatTimestamp(session.createdAt)}</td>
+            <td className="py-3 text-slate">{formatTimestamp(session.lastSeenAt)}</td>
+            <td className="py-3">
+              {session.id === currentSessionId ? (
+                <span className="text-xs font-semibold uppercase tracking-wide text-emerald-700">
+                  This browser
+                </span>
+              ) : (
+                <form action={revokeAction}>
+                  <input type="hidden" name="sessionId" value={session.id} />
+                  {userId ? <input type="hidden" name="userId" value={userId} /> : null}
+                  <button
+                    type="submit"
+                    className="rounded-lg border border-slate/30 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate"
+                  >
+                    Sign out
+                  </button>
+                </form>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
@@ -7,10 +7,16 @@ import clsx from "clsx";
 
 const settingsTabs: Array<{ label: string; href: string }> = [
   { label: "Users", href: "/settings/users" },
+  { label: "Roles", href: "/settings/roles" },
+  { label: "Security", href: "/settings/security" },
+  { label: "Single sign-on", href: "/settings/sso" },
+  { label: "API tokens", href: "/settings/api-tokens" },
+  { label: "Webhooks", href: "/settings/webhooks" },
   { label: "Audit log", href: "/settings/audit-log" },
   { label: "Tolerances", href: "/settings/tolerances" },
   { label: "Approvals", href: "/settings/approvals" },
-  { label: "Redaction", href: "/settings/redaction" }
+  { label: "Redaction", href: "/settings/redaction" },
+  { label: "Pack signing", href: "/settings/signing" }
 ];
 
 export const SettingsNav = () => {
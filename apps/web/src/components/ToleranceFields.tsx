@@ -23,16 +23,8 @@ export const ToleranceFields = ({
   return (
     <>
       {toleranceDefinitions.map((definition) => {
-        const key = definition.key;
         if (definition.type === "amountPercent") {
-          const value =
-            key === "registerNetToBank"
-              ? tolerances.registerNetToBank
-              : key === "journalBalance"
-                ? tolerances.journalBalance
-                : key === "statutoryTotals"
-                  ? tolerances.statutoryTotals
-                  : tolerances.journalTieOut;
+          const value = tolerances[definition.key];
           return (
             <div key={definition.key} className="space-y-3">
               <div>
@@ -82,7 +74,7 @@ export const ToleranceFields = ({
                 type="number"
                 min="0"
                 step="0.1"
-                defaultValue={formatPercent(tolerances.bankCountMismatchPercent)}
+                defaultValue={formatPercent(tolerances[definition.key])}
                 disabled={disabled}
                 className="mt-2 w-full rounded-lg border border-slate/30 bg-surface px-3 py-2 text-sm disabled:cursor-not-allowed disabled:bg-slate-100"
               />
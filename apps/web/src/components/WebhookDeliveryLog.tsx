@@ -0,0 +1,111 @@
+type WebhookDeliveryLogItem = {
+  id: string;
+  event: string;
+  status: "PENDING" | "DELIVERING" | "SUCCEEDED" | "FAILED";
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+};
+
+type WebhookDeliveryLogProps = {
+  deliveries: WebhookDeliveryLogItem[];
+  endpointId: string;
+  // Receives the form with `endpointId` and `deliveryId`.
+  redeliverAction: (formData: FormData) => Promise<void>;
+};
+
+const formatTimestamp = (value: Date) =>
+  value.toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  });
+
+const statusClassName: Record<WebhookDeliveryLogItem["status"], string> = {
+  PENDING: "text-amber-700",
+  DELIVERING: "text-slate",
+  SUCCEEDED: "text-emerald-700",
+  FAILED: "text-red-700"
+};
+
+export const WebhookDeliveryLog = ({
+  deliveries,
+  endpointId,
+  redeliverAction
+}: WebhookDeliveryLogProps) => {
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-slate">No deliveries yet.</p>;
+  }
+
+  return (
+    <table className="w-full border-collapse text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase tracking-wide text-slate">
+          <th className="pb-3">Event</th>
+          <th className="pb-3">Created</th>
+          <th className="pb-3">Status</th>
+          <th className="pb-3">Attempts</th>
+          <th className="pb-3">Last response</th>
+          <th className="pb-3">Action</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate/10">
+        {deliveries.map((delivery) => (
+          <tr key={delivery.id}>
+            <td className="py-3 text-ink">
+              <span className="block font-mono text-xs font-semibold">{delivery.event}</span>
+              <span className="block font-mono text-xs text-slate">{delivery.id}</span>
+            </td>
+            <td className="py-3 text-slate">{formatTimestamp(delivery.createdAt)}</td>
+            <td className="py-3">
+              <span
+                className={`text-xs font-semibold uppercase tracking-wide ${
+                  statusClassName[delivery.status]
+                }`}
+              >
+                {delivery.status}
+              </span>
+              <span className="block text-xs text-slate">
+                {delivery.deliveredAt
+                  ? formatTimestamp(delivery.deliveredAt)
+                  : delivery.status === "PENDING"
+                    ? `Next attempt ${formatTimestamp(delivery.nextAttemptAt)}`
+                    : null}
+              </span>
+            </td>
+            <td className="py-3 text-slate">
+              {delivery.attempts} / {delivery.maxAttempts}
+            </td>
+            <td className="max-w-xs py-3 text-xs text-slate">
+              {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : null}
+              {delivery.lastError ? (
+                <span className="block break-words">{delivery.lastError}</span>
+              ) : null}
+            </td>
+            <td className="py-3">
+              {delivery.status === "FAILED" ? (
+                <form action={redeliverAction}>
+                  <input type="hidden" name="endpointId" value={endpointId} />
+                  <input type="hidden" name="deliveryId" value={delivery.id} />
+                  <button
+                    type="submit"
+                    className="rounded-lg border border-slate/30 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-slate"
+                  >
+                    Send again
+                  </button>
+                </form>
+              ) : null}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { ValidationError } from "@/lib/errors";
+import {
+  apiScopePermissions,
+  authenticateApiToken,
+  createApiToken,
+  grantableApiScopes,
+  recordApiTokenUse,
+  revokeApiToken,
+  revokeUserApiTokens,
+  shouldAuditApiTokenUse
+} from "@/lib/api-tokens";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+describe("api token scopes", () => {
+  it("maps write scopes to permissions and limits what a role can grant", () => {
+    expect(apiScopePermissions(["clients:read", "packs:read"])).toEqual([]);
+    expect(apiScopePermissions(["imports:write", "reconciliation:write"])).toEqual([
+      "import:upload",
+      "pay-run:prepare",
+      "reconciliation:run"
+    ]);
+    expect(grantableApiScopes("REVIEWER").map((scope) => scope.key)).toContain("packs:write");
+    expect(
+      grantableApiScopes({ role: "PREPARER", permissions: ["audit:view"] }).map(
+        (scope) => scope.key
+      )
+    ).not.toContain("imports:write");
+  });
+
+  it("audits every write and reads once per window", () => {
+    const now = new Date("2026-04-17T12:00:00Z");
+    const minutesAgo = (count: number) => new Date(now.getTime() - count * 60 * 1000);
+
+    const audited = (minutes: number | null, method: string) =>
+      shouldAuditApiTokenUse(
+        { lastReadAuditedAt: minutes === null ? null : minutesAgo(minutes) },
+        method,
+        now
+      );
+
+    expect(audited(1, "POST")).toBe(true);
+    expect(audited(null, "GET")).toBe(true);
+    expect(audited(5, "GET")).toBe(false);
+    expect(audited(16, "get")).toBe(true);
+  });
+});
+
+describe("api tokens", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("issues scoped tokens and authenticates them as their user", async () => {
+    const { firm, user } = await createFirmWithUser("PREPARER");
+    const context = { firmId: firm.id, userId: user.id, role: user.role };
+
+    await expect(
+      createApiToken(context, {
+        kind: "SERVICE",
+        name: "Integration",
+        scopes: ["clients:read"],
+        expiresInDays: 30
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      createApiToken(context, { kind: "PERSONAL", name: "x", scopes: [], expiresInDays: 30 })
+    ).rejects.toThrow("at least one scope");
+
+    const { token, apiToken } = await createApiToken(context, {
+      kind: "PERSONAL",
+      name: " Uploader ",
+      scopes: ["imports:write", "pay-runs:read"],
+      expiresInDays: 30
+    });
+    expect(token.startsWith("tally_")).toBe(true);
+    expect(apiToken).toMatchObject({ name: "Uploader", tokenPrefix: token.slice(0, 12) });
+    expect(apiToken.tokenHash).not.toBe(token);
+
+    const authenticated = await authenticateApiToken(`Bearer ${token}`);
+    expect(authenticated?.apiToken.id).toBe(apiToken.id);
+    expect(authenticated?.actor).toMatchObject({ firmId: firm.id, userId: user.id, clientIds: null });
+    expect(authenticated?.actor.permissions.sort()).toEqual(["import:upload", "pay-run:prepare"]);
+
+    expect(await authenticateApiToken(null)).toBeNull();
+    expect(await authenticateApiToken(`Bearer ${token}x`)).toBeNull();
+    expect(await authenticateApiToken(token)).toBeNull();
+
+    const created = await prisma.auditEvent.findFirst({
+      where: { firmId: firm.id, action: "API_TOKEN_CREATED", entityId: apiToken.id }
+    });
+    expect(created?.metadata).toMatchObject({ kind: "PERSONAL", scopes: "imports:write pay-runs:read" });
+  });
+
+  it("rejects expired, revoked and disabled-user tokens", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id, role: user.role };
+    const input = { kind: "SERVICE" as const, name: "Sync", scopes: ["packs:read"], expiresInDays: 7 };
+
+    const expiring = await createApiToken(context, input);
+    expect(
+      await authenticateApiToken(
+        `Bearer ${expiring.token}`,
+        new Date(Date.now() + 8 * 24 * 3600 * 1000)
+      )
+    ).toBeNull();
+
+    const revoked = await createApiToken(context, input);
+    const other = await prisma.user.create({
+      data: { firmId: firm.id, email: "other@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+    await expect(
+      revokeApiToken({ firmId: firm.id, userId: other.id }, revoked.apiToken.id, {
+        ownerUserId: other.id
+      })
+    ).rejects.toThrow("API token not found.");
+    await revokeApiToken(context, revoked.apiToken.id);
+    expect(await authenticateApiToken(`Bearer ${revoked.token}`)).toBeNull();
+
+    const personal = await createApiToken(
+      { firmId: firm.id, userId: other.id, role: other.role },
+      { ...input, kind: "PERSONAL" }
+    );
+    await prisma.user.update({ where: { id: other.id }, data: { status: "DISABLED" } });
+    expect(await authenticateApiToken(`Bearer ${personal.token}`)).toBeNull();
+    expect(await revokeUserApiTokens(firm.id, other.id)).toBe(1);
+  });
+
+  it("records token use in the audit log", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const { apiToken } = await createApiToken(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      { kind: "SERVICE", name: "Sync", scopes: ["packs:read"], expiresInDays: 90 }
+    );
+
+    const now = new Date();
+    await recordApiTokenUse(apiToken, { method: "GET", path: "/api/v1/packs", status: 200 }, now);
+    const touched = await prisma.apiToken.findUniqueOrThrow({ where: { id: apiToken.id } });
+    expect(touched.lastUsedAt?.toISOString()).toBe(now.toISOString());
+    await recordApiTokenUse(touched, { method: "GET", path: "/api/v1/packs", status: 200 }, now);
+    await recordApiTokenUse(touched, { method: "POST", path: "/api/v1/packs", status: 202 }, now);
+
+    const events = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: "API_TOKEN_USED" },
+      orderBy: { sequence: "asc" }
+    });
+    expect(events.map((event) => event.metadata)).toEqual([
+      { method: "GET", path: "/api/v1/packs", status: 200 },
+      { method: "POST", path: "/api/v1/packs", status: 202 }
+    ]);
+    expect(events[0]?.actorUserId).toBe(user.id);
+  });
+
+  it("audits a polling token's reads once per window", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const { apiToken } = await createApiToken(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      { kind: "SERVICE", name: "Poller", scopes: ["packs:read"], expiresInDays: 90 }
+    );
+
+    // Poll every 30 seconds for 31 minutes, re-reading the token as each request would.
+    const start = new Date("2026-04-17T12:00:00Z").getTime();
+    for (let second = 0; second <= 31 * 60; second += 30) {
+      const current = await prisma.apiToken.findUniqueOrThrow({ where: { id: apiToken.id } });
+      await recordApiTokenUse(
+        current,
+        { method: "GET", path: "/api/v1/jobs", status: 200 },
+        new Date(start + second * 1000)
+      );
+    }
+
+    const events = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: "API_TOKEN_USED" },
+      orderBy: { sequence: "asc" }
+    });
+    expect(events).toHaveLength(3);
+    const polled = await prisma.apiToken.findUniqueOrThrow({ where: { id: apiToken.id } });
+    expect(polled.lastUsedAt?.toISOString()).toBe("2026-04-17T12:31:00.000Z");
+    expect(polled.lastReadAuditedAt?.toISOString()).toBe("2026-04-17T12:31:00.000Z");
+  });
+});
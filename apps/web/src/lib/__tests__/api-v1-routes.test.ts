@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { authenticateApiToken, recordApiTokenUse } = vi.hoisted(() => ({
+  authenticateApiToken: vi.fn(),
+  recordApiTokenUse: vi.fn()
+}));
+
+const { recordAuditEvent } = vi.hoisted(() => ({
+  recordAuditEvent: vi.fn()
+}));
+
+const { enqueueJob } = vi.hoisted(() => ({
+  enqueueJob: vi.fn()
+}));
+
+const prismaMock = vi.hoisted(() => ({
+  client: { findMany: vi.fn() },
+  pack: { findFirst: vi.fn() }
+}));
+
+vi.mock("@/lib/api-tokens", () => ({ authenticateApiToken, recordApiTokenUse }));
+vi.mock("@/lib/audit", () => ({ recordAuditEvent }));
+vi.mock("@/lib/jobs", () => ({ enqueueJob }));
+vi.mock("@/lib/prisma", () => ({ prisma: prismaMock }));
+
+import { PermissionError } from "@/lib/permissions";
+import { GET as listClients } from "@/app/api/v1/clients/route";
+import { GET as getPack } from "@/app/api/v1/packs/[packId]/route";
+import { POST as startReconciliation } from "@/app/api/v1/reconciliation-runs/route";
+
+const apiToken = {
+  id: "token-1",
+  firmId: "firm-1",
+  userId: "user-1",
+  scopes: ["clients:read", "packs:read"],
+  lastUsedAt: null,
+  lastReadAuditedAt: null
+};
+
+const actor = {
+  firmId: "firm-1",
+  userId: "user-1",
+  role: "PREPARER",
+  permissions: [],
+  clientIds: ["client-1"]
+};
+
+const request = (path: string, init?: RequestInit) =>
+  new Request(`http://localhost${path}`, {
+    ...init,
+    headers: { authorization: "Bearer tally_test", ...init?.headers }
+  });
+
+describe("api v1 routes", () => {
+  beforeEach(() => {
+    authenticateApiToken.mockReset();
+    authenticateApiToken.mockResolvedValue({ apiToken, actor });
+    recordApiTokenUse.mockReset();
+    recordAuditEvent.mockReset();
+    enqueueJob.mockReset();
+    prismaMock.client.findMany.mockReset();
+    prismaMock.pack.findFirst.mockReset();
+  });
+
+  it("rejects requests without a valid token", async () => {
+    authenticateApiToken.mockResolvedValue(null);
+
+    const response = await listClients(request("/api/v1/clients"), { params: {} });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toContain("Bearer");
+    expect(await response.json()).toEqual({ error: "Invalid or expired API token." });
+    expect(recordApiTokenUse).not.toHaveBeenCalled();
+  });
+
+  it("lists clients within the token user's client access and records the use", async () => {
+    prismaMock.client.findMany.mockResolvedValue([
+      {
+        id: "client-1",
+        name: "Acme Ltd",
+        payrollSystem: "BRIGHTPAY",
+        payrollSystemOther: null,
+        payrollFrequency: "MONTHLY",
+        defaultReviewerUserId: null,
+        archivedAt: null,
+        createdAt: new Date("2026-01-01T00:00:00Z"),
+        updatedAt: new Date("2026-01-02T00:00:00Z")
+      }
+    ]);
+
+    const response = await listClients(request("/api/v1/clients?limit=500"), { params: {} });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      data: [expect.objectContaining({ id: "client-1", createdAt: "2026-01-01T00:00:00.000Z" })],
+      nextCursor: null,
+      next: null
+    });
+    expect(prismaMock.client.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { firmId: "firm-1", id: { in: ["client-1"] }, archivedAt: null },
+        take: 201
+      })
+    );
+    expect(recordApiTokenUse).toHaveBeenCalledWith(apiToken, {
+      method: "GET",
+      path: "/api/v1/clients",
+      status: 200
+    });
+  });
+
+  it("pages lists with a cursor and a next link", async () => {
+    const clientRow = (id: string) => ({
+      id,
+      name: id,
+      payrollSystem: "BRIGHTPAY",
+      payrollSystemOther: null,
+      payrollFrequency: "MONTHLY",
+      defaultReviewerUserId: null,
+      archivedAt: null,
+      createdAt: new Date("2026-01-01T00:00:00Z"),
+      updatedAt: new Date("2026-01-02T00:00:00Z")
+    });
+    const first = "0b7c3a52-9a7e-4c43-8f7a-1f2d3e4c5b61";
+    const second = "1c8d4b63-0b8f-4d54-9a8b-2a3e4f5d6c72";
+    prismaMock.client.findMany.mockResolvedValue([
+      clientRow(first),
+      clientRow(second),
+      clientRow("2d9e5c74-1c9a-4e65-8b9c-3b4f5a6e7d83")
+    ]);
+
+    const response = await listClients(request(`/api/v1/clients?limit=2&cursor=${first}`), {
+      params: {}
+    });
+
+    const body = await response.json();
+    expect(body.data.map((client: { id: string }) => client.id)).toEqual([first, second]);
+    expect(body.nextCursor).toBe(second);
+    expect(body.next).toBe(`/api/v1/clients?limit=2&cursor=${second}`);
+    expect(prismaMock.client.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ take: 3, cursor: { id: first }, skip: 1 })
+    );
+
+    const invalid = await listClients(request("/api/v1/clients?cursor=abc"), { params: {} });
+    expect(invalid.status).toBe(400);
+  });
+
+  it("reports records outside the user's client access as not found", async () => {
+    prismaMock.pack.findFirst.mockResolvedValue({
+      id: "9f0e0b8e-1d2c-4c8e-9c35-6a1f3a0b2c11",
+      payRunId: "pay-run-2",
+      payRun: { clientId: "client-2" }
+    });
+
+    const response = await getPack(request("/api/v1/packs/9f0e0b8e-1d2c-4c8e-9c35-6a1f3a0b2c11"), {
+      params: { packId: "9f0e0b8e-1d2c-4c8e-9c35-6a1f3a0b2c11" }
+    });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Pack not found." });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "CLIENT_ACCESS_DENIED", entityType: "PACK" }),
+      { firmId: "firm-1", actorUserId: "user-1" }
+    );
+  });
+
+  it("refuses endpoints outside the token's scopes or the user's permissions", async () => {
+    const body = JSON.stringify({ payRunId: "9f0e0b8e-1d2c-4c8e-9c35-6a1f3a0b2c11" });
+
+    const missingScope = await startReconciliation(
+      request("/api/v1/reconciliation-runs", { method: "POST", body }),
+      { params: {} }
+    );
+    expect(missingScope.status).toBe(403);
+    expect(await missingScope.json()).toEqual({
+      error: "This token does not have the reconciliation:write scope."
+    });
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(recordApiTokenUse).toHaveBeenCalledWith(
+      apiToken,
+      expect.objectContaining({ method: "POST", status: 403 })
+    );
+
+    authenticateApiToken.mockResolvedValue({
+      apiToken: { ...apiToken, scopes: ["reconciliation:write"] },
+      actor
+    });
+    enqueueJob.mockRejectedValue(new PermissionError());
+    const denied = await startReconciliation(
+      request("/api/v1/reconciliation-runs", { method: "POST", body }),
+      { params: {} }
+    );
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toEqual({ error: "Permission denied." });
+  });
+});
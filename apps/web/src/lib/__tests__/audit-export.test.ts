@@ -59,6 +59,44 @@ describe("audit export", () => {
     expect(entityIds).not.toContain(payRunB.id);
   });
 
+  it("limits a client-scoped user to their assigned clients", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const createNamedClient = (name: string) =>
+      createClient(
+        { firmId: firm.id, userId: user.id },
+        {
+          name,
+          payrollSystem: "OTHER",
+          payrollSystemOther: "Other",
+          payrollFrequency: "MONTHLY"
+        }
+      );
+    const assigned = await createNamedClient("Assigned");
+    const other = await createNamedClient("Other");
+    const payRun = await createPayRun(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      {
+        clientId: assigned.id,
+        periodStart: new Date("2026-10-01T00:00:00Z"),
+        periodEnd: new Date("2026-10-31T00:00:00Z")
+      }
+    );
+
+    const rows = await getAuditExportRows({ firmId: firm.id, clientIds: [assigned.id] });
+    const entityIds = rows.map((row) => row.entityId);
+    expect(entityIds).toContain(assigned.id);
+    expect(entityIds).toContain(payRun.id);
+    expect(entityIds).not.toContain(other.id);
+    expect(rows.every((row) => row.entityType !== "FIRM" && row.entityType !== "USER")).toBe(
+      true
+    );
+
+    // Asking for another client's events returns nothing.
+    expect(
+      await getAuditExportRows({ firmId: firm.id, clientId: other.id, clientIds: [assigned.id] })
+    ).toEqual([]);
+  });
+
   it("returns firm events without client filters", async () => {
     const { firm, user } = await createFirmWithUser("ADMIN");
     const client = await createClient(
@@ -92,7 +130,11 @@ describe("audit export", () => {
         entityType: "CLIENT",
         entityId: "id,1",
         actorEmail: 'test"user@example.com',
-        metadata: { note: 'hello, "world"' }
+        actorUserId: "user-1",
+        metadata: { note: 'hello, "world"' },
+        sequence: 1,
+        previousHash: null,
+        hash: "a".repeat(64)
       },
       {
         id: "row-2",
@@ -101,7 +143,11 @@ describe("audit export", () => {
         entityType: "FIRM",
         entityId: null,
         actorEmail: null,
-        metadata: null
+        actorUserId: null,
+        metadata: null,
+        sequence: null,
+        previousHash: null,
+        hash: null
       }
     ]);
 
@@ -110,4 +156,32 @@ describe("audit export", () => {
     expect(csv).toContain("\"{");
     expect(csv).toContain("NULL_ACTION");
   });
+
+  it("writes chain columns and metadata sorted at every level", () => {
+    const csv = buildAuditCsv([
+      {
+        id: "row-1",
+        timestamp: new Date("2026-01-01T00:00:00Z"),
+        action: "CLIENT_UPDATED",
+        entityType: "CLIENT",
+        entityId: null,
+        actorEmail: null,
+        actorUserId: "user-1",
+        metadata: { zeta: 1, alpha: { to: "b", from: "a" } },
+        sequence: 2,
+        previousHash: "b".repeat(64),
+        hash: "c".repeat(64)
+      }
+    ]);
+
+    const [header, row] = csv.split("\n");
+    expect(header).toBe(
+      "timestamp,action,entity_type,entity_id,actor_email,metadata,actor_user_id,sequence,previous_hash,hash"
+    );
+    expect(row).toBe(
+      `2026-01-01T00:00:00.000Z,CLIENT_UPDATED,CLIENT,,,"{""alpha"":{""from"":""a"",""to"":""b""},""zeta"":1}",user-1,2,${"b".repeat(
+        64
+      )},${"c".repeat(64)}`
+    );
+  });
 });
@@ -2,6 +2,12 @@ import { beforeEach, describe, expect, it } from "vitest";
 import { prisma } from "@/lib/prisma";
 import { sanitizeAuditMetadata } from "@/lib/audit-metadata";
 import { recordAuditEvent } from "@/lib/audit";
+import {
+  computeAuditEventHash,
+  serializeAuditChainContent,
+  verifyAuditChain
+} from "@/lib/audit-chain";
+import { sha256FromString } from "@/lib/hash";
 import { createFirmWithUser, resetDb } from "./test-db";
 import { randomUUID } from "crypto";
 
@@ -35,6 +41,39 @@ describe("audit metadata sanitization", () => {
   });
 });
 
+describe("audit chain hashing", () => {
+  const content = {
+    sequence: 3,
+    previousHash: "f".repeat(64),
+    timestamp: new Date("2026-04-11T09:00:00.123Z"),
+    action: "CLIENT_UPDATED",
+    entityType: "CLIENT",
+    entityId: null,
+    actorUserId: "user-1",
+    metadata: { zeta: true, alpha: 2 }
+  };
+
+  it("serializes with sorted keys so the hash does not depend on key order", async () => {
+    expect(serializeAuditChainContent(content)).toBe(
+      `{"action":"CLIENT_UPDATED","actorUserId":"user-1","entityId":null,"entityType":"CLIENT","metadata":{"alpha":2,"zeta":true},"previousHash":"${"f".repeat(
+        64
+      )}","sequence":3,"timestamp":"2026-04-11T09:00:00.123Z"}`
+    );
+    expect(
+      await computeAuditEventHash({ ...content, metadata: { alpha: 2, zeta: true } })
+    ).toBe(await sha256FromString(serializeAuditChainContent(content)));
+  });
+
+  it("changes the hash when any field changes", async () => {
+    const original = await computeAuditEventHash(content);
+    expect(await computeAuditEventHash({ ...content, sequence: 4 })).not.toBe(original);
+    expect(await computeAuditEventHash({ ...content, previousHash: null })).not.toBe(original);
+    expect(
+      await computeAuditEventHash({ ...content, metadata: { zeta: false, alpha: 2 } })
+    ).not.toBe(original);
+  });
+});
+
 describe("audit events", () => {
   beforeEach(async () => {
     await resetDb();
@@ -94,4 +133,64 @@ describe("audit events", () => {
 
     expect(event?.entityId).toBeNull();
   });
+
+  it("links each event to the previous one per firm", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const other = await createFirmWithUser("ADMIN");
+
+    await recordAuditEvent(
+      { action: "CLIENT_CREATED", entityType: "CLIENT", metadata: { payrollSystem: "OTHER" } },
+      { firmId: firm.id, actorUserId: user.id }
+    );
+    await recordAuditEvent(
+      { action: "CLIENT_CREATED", entityType: "CLIENT" },
+      { firmId: other.firm.id, actorUserId: other.user.id }
+    );
+    await recordAuditEvent(
+      { action: "CLIENT_UPDATED", entityType: "CLIENT" },
+      { firmId: firm.id, actorUserId: user.id }
+    );
+
+    const events = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id },
+      orderBy: { sequence: "asc" }
+    });
+    expect(events.map((event) => event.sequence)).toEqual([1, 2]);
+    expect(events[0]?.previousHash).toBeNull();
+    expect(events[1]?.previousHash).toBe(events[0]?.hash);
+
+    const result = await verifyAuditChain(firm.id);
+    expect(result).toMatchObject({
+      checkedCount: 2,
+      unchainedCount: 0,
+      headSequence: 2,
+      headHash: events[1]?.hash,
+      breakCount: 0
+    });
+  });
+
+  it("reports edited and deleted events", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    for (const payrollSystem of ["A", "B", "C", "D"]) {
+      await recordAuditEvent(
+        { action: "CLIENT_UPDATED", entityType: "CLIENT", metadata: { payrollSystem } },
+        { firmId: firm.id, actorUserId: user.id }
+      );
+    }
+
+    await prisma.auditEvent.update({
+      where: { firmId_sequence: { firmId: firm.id, sequence: 2 } },
+      data: { metadata: { payrollSystem: "Z" } }
+    });
+    await prisma.auditEvent.delete({
+      where: { firmId_sequence: { firmId: firm.id, sequence: 3 } }
+    });
+
+    const result = await verifyAuditChain(firm.id);
+    expect(result.checkedCount).toBe(3);
+    expect(result.breaks.map((entry) => [entry.sequence, entry.kind])).toEqual([
+      [2, "HASH_MISMATCH"],
+      [4, "SEQUENCE_GAP"]
+    ]);
+  });
 });
@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import type { User } from "@/lib/prisma";
+import type { User, UserSession } from "@/lib/prisma";
 import { prisma } from "@/lib/prisma";
+import { hashToken } from "@/lib/token";
 
 const { redirect, getSession } = vi.hoisted(() => ({
   redirect: vi.fn(() => {
@@ -10,17 +11,34 @@ const { redirect, getSession } = vi.hoisted(() => ({
 }));
 
 vi.mock("next/navigation", () => ({ redirect }));
+vi.mock("next/headers", () => ({
+  headers: () => new Headers({ "user-agent": "vitest", "x-forwarded-for": "203.0.113.7, 10.0.0.1" })
+}));
 vi.mock("../session", () => ({ getSession }));
 
 import {
   createSessionForUser,
   getActiveUser,
+  getMfaChallengeUser,
   hashPassword,
   requireSession,
   requireUser,
+  startMfaChallenge,
   verifyPassword
 } from "../auth";
 
+const liveSession = (userId: string, overrides: Partial<UserSession> = {}) =>
+  ({
+    id: "session-1",
+    firmId: "firm-1",
+    userId,
+    tokenHash: hashToken("token-1"),
+    createdAt: new Date(),
+    lastSeenAt: new Date(),
+    revokedAt: null,
+    ...overrides
+  }) as UserSession;
+
 describe("auth helpers", () => {
   beforeEach(() => {
     redirect.mockClear();
@@ -56,14 +74,105 @@ describe("auth helpers", () => {
       email: "user@example.com",
       role: "ADMIN",
       status: "ACTIVE",
+      firm: { defaults: {} },
       createdAt: new Date(),
       updatedAt: new Date()
-    } as User;
-    getSession.mockResolvedValue({ userId: "user-1" });
+    } as unknown as User;
+    getSession.mockResolvedValue({ userId: "user-1", sessionToken: "token-1" });
     vi.spyOn(prisma.user, "findFirst").mockResolvedValue(user);
+    const findSession = vi
+      .spyOn(prisma.userSession, "findUnique")
+      .mockResolvedValue(liveSession("user-1"));
 
     const result = await requireUser();
     expect(result.user.id).toBe("user-1");
+    expect(result.currentSessionId).toBe("session-1");
+    expect(findSession).toHaveBeenCalledWith({ where: { tokenHash: hashToken("token-1") } });
+  });
+
+  it("redirects when the server-side session is revoked or timed out", async () => {
+    const user = {
+      id: "user-7",
+      firmId: "firm-1",
+      email: "user@example.com",
+      role: "ADMIN",
+      status: "ACTIVE",
+      firm: { defaults: { sessions: { idleTimeoutMinutes: 30 } } },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    } as unknown as User;
+    vi.spyOn(prisma.user, "findFirst").mockResolvedValue(user);
+
+    getSession.mockResolvedValue({ userId: "user-7" });
+    await expect(requireUser()).rejects.toThrow("redirect");
+
+    getSession.mockResolvedValue({ userId: "user-7", sessionToken: "token-1" });
+    const findSession = vi
+      .spyOn(prisma.userSession, "findUnique")
+      .mockResolvedValue(liveSession("user-7", { revokedAt: new Date() }));
+    await expect(requireUser()).rejects.toThrow("redirect");
+
+    findSession.mockResolvedValue(
+      liveSession("user-7", { lastSeenAt: new Date(Date.now() - 31 * 60 * 1000) })
+    );
+    const close = vi.spyOn(prisma.userSession, "updateMany").mockResolvedValue({ count: 1 });
+    await expect(requireUser()).rejects.toThrow("redirect");
+    expect(close).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ revokedReason: "IDLE_TIMEOUT" })
+      })
+    );
+    expect(redirect).toHaveBeenCalledWith("/login");
+  });
+
+  it("sends users to MFA setup when their firm requires it", async () => {
+    const user = {
+      id: "user-5",
+      firmId: "firm-1",
+      email: "user@example.com",
+      role: "REVIEWER",
+      status: "ACTIVE",
+      mfaEnabledAt: null,
+      firm: { defaults: { mfa: { requirement: "PRIVILEGED" } } },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    } as unknown as User;
+    getSession.mockResolvedValue({ userId: "user-5", sessionToken: "token-1" });
+    vi.spyOn(prisma.user, "findFirst").mockResolvedValue(user);
+    vi.spyOn(prisma.userSession, "findUnique").mockResolvedValue(liveSession("user-5"));
+
+    await expect(requireUser()).rejects.toThrow("redirect");
+    expect(redirect).toHaveBeenCalledWith("/mfa/setup");
+  });
+
+  it("holds password-verified users for the MFA challenge", async () => {
+    const session = { save: vi.fn() } as {
+      mfaPendingUserId?: string;
+      mfaPendingAt?: number;
+      save: () => Promise<void>;
+    };
+    getSession.mockResolvedValue(session);
+    const user = {
+      id: "user-6",
+      firmId: "firm-1",
+      email: "user@example.com",
+      role: "ADMIN",
+      status: "ACTIVE",
+      createdAt: new Date(),
+      updatedAt: new Date()
+    } as User;
+
+    await startMfaChallenge(user);
+    expect(session.mfaPendingUserId).toBe("user-6");
+    expect(session).not.toHaveProperty("userId");
+
+    const findFirst = vi.spyOn(prisma.user, "findFirst").mockResolvedValue(user);
+    expect(await getMfaChallengeUser()).toEqual(user);
+
+    session.mfaPendingAt = Date.now() - 11 * 60 * 1000;
+    findFirst.mockClear();
+    expect(await getMfaChallengeUser()).toBeNull();
+    expect(findFirst).not.toHaveBeenCalled();
   });
 
   it("redirects when user is not active", async () => {
@@ -74,8 +183,15 @@ describe("auth helpers", () => {
   });
 
   it("creates a session for a user", async () => {
-    const session = { save: vi.fn() } as { save: () => Promise<void> };
+    const session = { save: vi.fn(), sessionToken: "old-token" } as {
+      sessionToken?: string;
+      save: () => Promise<void>;
+    };
     getSession.mockResolvedValue(session);
+    const create = vi
+      .spyOn(prisma.userSession, "create")
+      .mockResolvedValue(liveSession("user-3"));
+    const endPrevious = vi.spyOn(prisma.userSession, "updateMany").mockResolvedValue({ count: 1 });
 
     const user = {
       id: "user-3",
@@ -89,6 +205,20 @@ describe("auth helpers", () => {
 
     await createSessionForUser(user);
     expect(session.save).toHaveBeenCalled();
+    expect(session.sessionToken).not.toBe("old-token");
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: "user-3",
+        tokenHash: hashToken(session.sessionToken ?? ""),
+        userAgent: "vitest",
+        ipAddress: "203.0.113.7"
+      })
+    });
+    expect(endPrevious).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tokenHash: hashToken("old-token"), revokedAt: null }
+      })
+    );
   });
 
   it("returns active user or null", async () => {
@@ -101,11 +231,13 @@ describe("auth helpers", () => {
       email: "user@example.com",
       role: "ADMIN",
       status: "ACTIVE",
+      firm: { defaults: {} },
       createdAt: new Date(),
       updatedAt: new Date()
-    } as User;
-    getSession.mockResolvedValue({ userId: "user-4" });
+    } as unknown as User;
+    getSession.mockResolvedValue({ userId: "user-4", sessionToken: "token-1" });
     vi.spyOn(prisma.user, "findFirst").mockResolvedValue(user);
+    vi.spyOn(prisma.userSession, "findUnique").mockResolvedValue(liveSession("user-4"));
 
     expect(await getActiveUser()).toEqual(user);
   });
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  bacsStandard18Columns,
+  bacsStandard18Rows,
+  isBacsStandard18,
+  parseBacsDate,
+  parseBacsStandard18
+} from "@/lib/bacs-standard18";
+import { ImportParseError } from "@/lib/errors";
+
+const originator = { sortCode: "401276", accountNumber: "71584685" };
+
+const record = (input: {
+  sortCode: string;
+  accountNumber: string;
+  transactionCode: string;
+  amountPence: number;
+  reference: string;
+  accountName: string;
+  processingDate?: string;
+}) =>
+  [
+    input.sortCode,
+    input.accountNumber,
+    "0",
+    input.transactionCode,
+    originator.sortCode,
+    originator.accountNumber,
+    "    ",
+    String(input.amountPence).padStart(11, "0"),
+    "ACME PAYROLL LTD".padEnd(18),
+    input.reference.padEnd(18),
+    input.accountName.padEnd(18),
+    input.processingDate ?? ""
+  ].join("");
+
+const credit = (accountName: string, amountPence: number, processingDate?: string) =>
+  record({
+    sortCode: "200000",
+    accountNumber: "12345678",
+    transactionCode: "99",
+    amountPence,
+    reference: "SALARY APR",
+    accountName,
+    processingDate
+  });
+
+const contra = (amountPence: number) =>
+  record({
+    ...originator,
+    transactionCode: "17",
+    amountPence,
+    reference: "CONTRA",
+    accountName: "ACME PAYROLL LTD"
+  });
+
+const labels = [
+  "VOL1000123                               123456                                1",
+  "HDR1A123456S  1123456000001000100010001       26100 26100 000000                ",
+  "UHL1 26110999999    000000001 DAILY  000                                        "
+];
+
+const file = (...lines: string[]) => [...labels, ...lines, "EOF1A123456S"].join("\r\n");
+
+describe("bacs standard 18", () => {
+  it("recognises labelled and bare files by their first record", () => {
+    expect(isBacsStandard18(Buffer.from(file(credit("JANE SMITH", 100))))).toBe(true);
+    expect(isBacsStandard18(Buffer.from(credit("JANE SMITH", 100)))).toBe(true);
+    expect(isBacsStandard18(Buffer.from("Name,Amount\nJane,1.00\n"))).toBe(false);
+  });
+
+  it("reads yyddd dates", () => {
+    expect(parseBacsDate(" 26110")).toBe("2026-04-20");
+    expect(parseBacsDate(" 26366")).toBeNull();
+    expect(parseBacsDate("")).toBeNull();
+  });
+
+  it("reads credits and checks them against the contra", () => {
+    const parsed = parseBacsStandard18(
+      file(credit("JANE SMITH", 185_000), credit("ALEX JONES", 92_550, " 26111"), contra(277_550))
+    );
+
+    expect(parsed.contras).toHaveLength(1);
+    expect(parsed.credits).toEqual([
+      expect.objectContaining({
+        lineNumber: 4,
+        sortCode: "20-00-00",
+        accountNumber: "12345678",
+        transactionCode: "99",
+        amountPence: 185_000,
+        reference: "SALARY APR",
+        accountName: "JANE SMITH",
+        processingDate: "2026-04-20"
+      }),
+      expect.objectContaining({ accountName: "ALEX JONES", processingDate: "2026-04-21" })
+    ]);
+    expect(bacsStandard18Rows(parsed)).toEqual([
+      bacsStandard18Columns,
+      ["4", "20-00-00", "12345678", "JANE SMITH", "1850.00", "SALARY APR", "99", "2026-04-20"],
+      ["5", "20-00-00", "12345678", "ALEX JONES", "925.50", "SALARY APR", "99", "2026-04-21"]
+    ]);
+  });
+
+  it("rejects a contra that does not match the credits", () => {
+    expect(() =>
+      parseBacsStandard18(file(credit("JANE SMITH", 185_000), contra(180_000)))
+    ).toThrow(
+      "Invalid BACS file. The contra total of £1800.00 does not match the credit records " +
+        "total of £1850.00."
+    );
+  });
+
+  it("rejects debits, unknown records and files without credits", () => {
+    const debit = record({
+      sortCode: "200000",
+      accountNumber: "12345678",
+      transactionCode: "17",
+      amountPence: 100,
+      reference: "REFUND",
+      accountName: "JANE SMITH"
+    });
+
+    expect(() => parseBacsStandard18(file(credit("JANE SMITH", 100), debit))).toThrow(
+      "Line 5 is a debit (transaction code 17)"
+    );
+    expect(() => parseBacsStandard18(file("not a record"))).toThrow(ImportParseError);
+    expect(() => parseBacsStandard18(labels.join("\n"))).toThrow(
+      "Invalid BACS file. No credit records were found."
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkRegistry,
+  getBundleConfig,
+  getCheckLabel,
+  resolveClientCheckSettings,
+  runCheckBundle,
+  type CheckBundle,
+  type CheckDefinition,
+  type CheckInputs
+} from "@/lib/check-registry";
+import type { CheckEvaluation } from "@/lib/reconciliation-checks";
+import { getBundleToleranceDefaults } from "@/lib/tolerances";
+
+const buildEvaluation = (
+  checkType: string,
+  status: CheckEvaluation["status"]
+): CheckEvaluation => ({
+  checkType,
+  checkVersion: "v1",
+  status,
+  severity: status === "PASS" ? "INFO" : "HIGH",
+  summary: `${checkType} ${status}`,
+  details: {
+    leftLabel: "Left",
+    rightLabel: "Right",
+    leftValue: 0,
+    rightValue: 0,
+    deltaValue: 0,
+    deltaPercent: 0,
+    formula: "left - right",
+    toleranceApplied: { absolute: 0, percent: 0, applied: 0 }
+  },
+  exception:
+    status === "PASS"
+      ? null
+      : { category: "BANK_MISMATCH", title: "Mismatch", description: "Mismatch" },
+  additionalExceptions:
+    status === "PASS"
+      ? []
+      : [{ category: "BANK_MISMATCH", title: "Line", description: "Line", severity: "LOW" }]
+});
+
+const buildDefinition = (
+  checkType: string,
+  evaluation: CheckEvaluation | null
+): CheckDefinition => ({
+  checkType,
+  label: checkType,
+  sources: ["REGISTER"],
+  toleranceKey: null,
+  defaultSeverity: "HIGH",
+  regions: ["UK"],
+  evaluate: () => evaluation
+});
+
+const buildBundle = (checks: CheckDefinition[]): CheckBundle => ({
+  bundleId: "BUNDLE_TEST",
+  bundleVersion: "V1",
+  checks
+});
+
+const inputs = {} as CheckInputs;
+const tolerances = getBundleToleranceDefaults("UK");
+
+describe("check registry", () => {
+  it("declares unique check identifiers", () => {
+    const checkTypes = checkRegistry.map((definition) => definition.checkType);
+    expect(new Set(checkTypes).size).toBe(checkTypes.length);
+  });
+
+  it("builds region bundles in registry order", () => {
+    const uk = getBundleConfig("UK");
+    const ie = getBundleConfig("IE");
+    expect(uk.bundleId).toBe("BUNDLE_UK");
+    expect(ie.bundleId).toBe("BUNDLE_IE");
+    expect(uk.checks[0]?.checkType).toBe("CHK_REGISTER_NET_TO_BANK_TOTAL");
+    expect(uk.checks.map((definition) => definition.checkType)).toEqual(
+      checkRegistry
+        .filter((definition) => definition.regions.includes("UK"))
+        .map((definition) => definition.checkType)
+    );
+  });
+
+  it("keeps SEPA control totals in the Ireland bundle only", () => {
+    const checkTypes = (region: "UK" | "IE") =>
+      getBundleConfig(region).checks.map((definition) => definition.checkType);
+
+    expect(checkTypes("IE")).toContain("CHK_BANK_FILE_CONTROL_TOTALS");
+    expect(checkTypes("UK")).not.toContain("CHK_BANK_FILE_CONTROL_TOTALS");
+    expect(checkTypes("UK")).toContain("CHK_BANK_DUPLICATE_PAYMENTS");
+  });
+
+  it("declares the severity each evaluator reports on failure", () => {
+    const payment = {
+      rowNumber: 2,
+      amountCents: 10_000,
+      payeeId: "E1",
+      payeeName: "A Payee",
+      reference: "APR",
+      payeeKey: "e1"
+    };
+    const failing = {
+      imports: { registerImportId: "reg", bankImportId: "bank" },
+      register: { net: { totalCents: 50_000, rows: [] } },
+      bank: {
+        totals: { totalCents: 20_000, rows: [] },
+        payments: [payment, { ...payment, rowNumber: 3 }]
+      }
+    } as unknown as CheckInputs;
+
+    for (const checkType of ["CHK_REGISTER_NET_TO_BANK_TOTAL", "CHK_BANK_DUPLICATE_PAYMENTS"]) {
+      const definition = checkRegistry.find((check) => check.checkType === checkType);
+      const evaluation = definition?.evaluate(failing, tolerances);
+      expect(evaluation?.status).toBe("FAIL");
+      expect(evaluation?.severity).toBe(definition?.defaultSeverity);
+    }
+  });
+
+  it("compares employer costs, tax and pension by department", () => {
+    const group = (totalCents: number) => ({
+      office: { label: "Office", totalCents, rows: [{ rowNumber: 2, amountCents: totalCents }] }
+    });
+    const grouped = {
+      imports: { registerImportId: "reg", glImportId: "gl" },
+      register: {
+        groups: {
+          net: group(80_000),
+          gross: group(100_000),
+          tax: group(15_000),
+          employerCosts: group(12_000),
+          pension: group(6_000)
+        },
+        grossMissing: false,
+        employerCostsMissing: false,
+        pensionMissing: false
+      },
+      journal: {
+        groups: {
+          expense: group(100_000),
+          employerCosts: group(12_000),
+          netPayable: group(80_000),
+          tax: group(14_000),
+          pensionPayable: group(6_000)
+        },
+        classificationMissing: false
+      }
+    } as unknown as CheckInputs;
+    const evaluate = (checkType: string) =>
+      checkRegistry
+        .find((definition) => definition.checkType === checkType)
+        ?.evaluate(grouped, tolerances);
+
+    expect(evaluate("CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE_BY_GROUP")?.status).toBe(
+      "PASS"
+    );
+    expect(evaluate("CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY_BY_GROUP")?.status).toBe("PASS");
+    expect(evaluate("CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY_BY_GROUP")).toEqual(
+      expect.objectContaining({ status: "FAIL", severity: "HIGH" })
+    );
+  });
+
+  it("warns when departments are mapped but the journal has no cost centre", () => {
+    const unmapped = {
+      imports: { registerImportId: "reg", glImportId: "gl" },
+      register: {
+        groups: { net: {}, gross: {}, tax: {}, employerCosts: {}, pension: {} }
+      },
+      journal: { groups: null, classificationMissing: false }
+    } as unknown as CheckInputs;
+    const groupedChecks = checkRegistry.filter((definition) =>
+      definition.checkType.endsWith("_BY_GROUP")
+    );
+
+    expect(groupedChecks).toHaveLength(5);
+    for (const definition of groupedChecks) {
+      expect(definition.evaluate(unmapped, tolerances)).toEqual(
+        expect.objectContaining({
+          status: "WARN",
+          summary: "Journal cost centre is not mapped, so department totals cannot be compared."
+        })
+      );
+      expect(
+        definition.evaluate(
+          { ...unmapped, register: { ...unmapped.register, groups: null } },
+          tolerances
+        )
+      ).toBeNull();
+    }
+  });
+
+  it("falls back to the check type when no label is registered", () => {
+    expect(getCheckLabel("CHK_JOURNAL_DEBITS_EQUAL_CREDITS")).toBe("Journal balance");
+    expect(getCheckLabel("CHK_UNKNOWN")).toBe("CHK_UNKNOWN");
+  });
+
+  it("resolves client check settings and drops unknown values", () => {
+    expect(resolveClientCheckSettings(null)).toEqual({
+      disabled: [],
+      severityOverrides: {}
+    });
+    expect(resolveClientCheckSettings({ checks: "nope" })).toEqual({
+      disabled: [],
+      severityOverrides: {}
+    });
+    expect(
+      resolveClientCheckSettings({
+        checks: {
+          disabled: ["CHK_BANK_DUPLICATE_PAYMENTS", "CHK_UNKNOWN", 42],
+          severityOverrides: {
+            CHK_JOURNAL_DEBITS_EQUAL_CREDITS: "CRITICAL",
+            CHK_REGISTER_NET_TO_BANK_TOTAL: "SEVERE",
+            CHK_UNKNOWN: "LOW"
+          }
+        }
+      })
+    ).toEqual({
+      disabled: ["CHK_BANK_DUPLICATE_PAYMENTS"],
+      severityOverrides: { CHK_JOURNAL_DEBITS_EQUAL_CREDITS: "CRITICAL" }
+    });
+  });
+
+  it("skips disabled checks and checks that do not apply", () => {
+    const bundle = buildBundle([
+      buildDefinition("CHK_A", buildEvaluation("CHK_A", "PASS")),
+      buildDefinition("CHK_B", buildEvaluation("CHK_B", "FAIL")),
+      buildDefinition("CHK_C", null)
+    ]);
+
+    const results = runCheckBundle({
+      bundle,
+      inputs,
+      tolerances,
+      settings: { disabled: ["CHK_B"], severityOverrides: {} }
+    });
+
+    expect(results.map((result) => result.checkType)).toEqual(["CHK_A"]);
+  });
+
+  it("applies severity overrides to failing checks and their exceptions only", () => {
+    const bundle = buildBundle([
+      buildDefinition("CHK_A", buildEvaluation("CHK_A", "PASS")),
+      buildDefinition("CHK_B", buildEvaluation("CHK_B", "FAIL"))
+    ]);
+
+    const [passing, failing] = runCheckBundle({
+      bundle,
+      inputs,
+      tolerances,
+      settings: {
+        disabled: [],
+        severityOverrides: { CHK_A: "CRITICAL", CHK_B: "MEDIUM" }
+      }
+    });
+
+    expect(passing?.severity).toBe("INFO");
+    expect(failing?.severity).toBe("MEDIUM");
+    expect(failing?.exception?.severity).toBe("MEDIUM");
+    expect(failing?.additionalExceptions?.[0]?.severity).toBe("MEDIUM");
+  });
+});
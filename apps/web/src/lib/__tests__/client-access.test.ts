@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import {
+  canAccessClient,
+  clientIdFilter,
+  resolveClientIds,
+  setUserClientAccess
+} from "@/lib/client-access";
+import { createClient, updateClient } from "@/lib/clients";
+import { getDashboardData } from "@/lib/dashboard";
+import { NotFoundError } from "@/lib/errors";
+import { getRolePermissions } from "@/lib/permissions";
+import { createPayRun } from "@/lib/pay-runs";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+describe("client scope resolution", () => {
+  const assignments = [{ clientId: "client-a" }];
+
+  it("gives firm-wide access to ALL users and firm managers", () => {
+    expect(
+      resolveClientIds({
+        clientAccess: "ALL",
+        permissions: getRolePermissions("PREPARER"),
+        clientAssignments: assignments
+      })
+    ).toBeNull();
+    expect(
+      resolveClientIds({
+        clientAccess: "ASSIGNED",
+        permissions: getRolePermissions("ADMIN"),
+        clientAssignments: assignments
+      })
+    ).toBeNull();
+  });
+
+  it("limits ASSIGNED users to their assignments", () => {
+    const clientIds = resolveClientIds({
+      clientAccess: "ASSIGNED",
+      permissions: getRolePermissions("REVIEWER"),
+      clientAssignments: assignments
+    });
+    expect(clientIds).toEqual(["client-a"]);
+    expect(canAccessClient({ clientIds }, "client-a")).toBe(true);
+    expect(canAccessClient({ clientIds }, "client-b")).toBe(false);
+    expect(clientIdFilter({ clientIds })).toEqual({ in: ["client-a"] });
+    expect(clientIdFilter({ clientIds: null })).toBeUndefined();
+  });
+});
+
+describe("client access enforcement", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("denies out-of-scope clients and records the attempt", async () => {
+    const { firm, user: admin } = await createFirmWithUser("ADMIN");
+    const adminContext = { firmId: firm.id, userId: admin.id };
+    const preparer = await prisma.user.create({
+      data: { firmId: firm.id, email: "team-a@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+    const clientA = await createClient(adminContext, {
+      name: "Team A Client",
+      payrollSystem: "BRIGHTPAY",
+      payrollFrequency: "MONTHLY"
+    });
+    const clientB = await createClient(adminContext, {
+      name: "Team B Client",
+      payrollSystem: "BRIGHTPAY",
+      payrollFrequency: "MONTHLY"
+    });
+
+    await setUserClientAccess(adminContext, preparer.id, {
+      clientAccess: "ASSIGNED",
+      clientIds: [clientA.id]
+    });
+    const preparerContext = {
+      firmId: firm.id,
+      userId: preparer.id,
+      role: "PREPARER" as const,
+      clientIds: [clientA.id]
+    };
+
+    const payRun = await createPayRun(preparerContext, {
+      clientId: clientA.id,
+      periodStart: new Date("2026-01-01"),
+      periodEnd: new Date("2026-01-31")
+    });
+    expect(payRun.clientId).toBe(clientA.id);
+
+    await expect(
+      createPayRun(preparerContext, {
+        clientId: clientB.id,
+        periodStart: new Date("2026-01-01"),
+        periodEnd: new Date("2026-01-31")
+      })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      updateClient(preparerContext, clientB.id, {
+        name: "Renamed",
+        payrollSystem: "BRIGHTPAY",
+        payrollFrequency: "MONTHLY"
+      })
+    ).rejects.toBeInstanceOf(NotFoundError);
+
+    const denied = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: "CLIENT_ACCESS_DENIED" }
+    });
+    expect(denied).toHaveLength(2);
+    expect(denied.every((event) => event.actorUserId === preparer.id)).toBe(true);
+
+    const changed = await prisma.auditEvent.findFirst({
+      where: { firmId: firm.id, action: "USER_CLIENT_ACCESS_CHANGED" }
+    });
+    expect(changed?.metadata).toMatchObject({ from: "ALL", to: "ASSIGNED" });
+  });
+
+  it("assigns new clients to scoped creators and scopes the dashboard", async () => {
+    const { firm, user: admin } = await createFirmWithUser("ADMIN");
+    const adminContext = { firmId: firm.id, userId: admin.id };
+    const preparer = await prisma.user.create({
+      data: { firmId: firm.id, email: "scoped@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+    const other = await createClient(adminContext, {
+      name: "Other Client",
+      payrollSystem: "BRIGHTPAY",
+      payrollFrequency: "MONTHLY"
+    });
+    await createPayRun(
+      { ...adminContext, role: "ADMIN" },
+      {
+        clientId: other.id,
+        periodStart: new Date("2026-02-01"),
+        periodEnd: new Date("2026-02-28")
+      }
+    );
+
+    const own = await createClient(
+      { firmId: firm.id, userId: preparer.id, clientIds: [] },
+      { name: "Own Client", payrollSystem: "BRIGHTPAY", payrollFrequency: "MONTHLY" }
+    );
+    const assignments = await prisma.clientAssignment.findMany({
+      where: { userId: preparer.id }
+    });
+    expect(assignments.map((assignment) => assignment.clientId)).toEqual([own.id]);
+
+    const scoped = await getDashboardData(firm.id, [own.id]);
+    expect(scoped.countsByStatus.DRAFT).toBeUndefined();
+    const firmWide = await getDashboardData(firm.id);
+    expect(firmWide.countsByStatus.DRAFT).toBe(1);
+  });
+});
@@ -24,4 +24,19 @@ describe("env parsing", () => {
     process.env.SESSION_SECRET = "short";
     await expect(import("@/lib/env")).rejects.toThrow();
   });
+
+  it("requires each encryption secret", async () => {
+    const secrets = [
+      "PACK_SIGNING_SECRET",
+      "MFA_ENCRYPTION_SECRET",
+      "SSO_ENCRYPTION_SECRET",
+      "WEBHOOK_ENCRYPTION_SECRET"
+    ];
+    for (const key of secrets) {
+      resetEnv();
+      vi.resetModules();
+      delete process.env[key];
+      await expect(import("@/lib/env")).rejects.toThrow(key);
+    }
+  });
 });
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertAttachmentKeyMatches,
+  buildAttachmentStorageKey,
+  isAllowedAttachment,
+  isPreviewableAttachment,
+  requiresAttachmentForCheck
+} from "@/lib/exception-attachments";
+import { ValidationError } from "@/lib/errors";
+
+describe("exception attachments", () => {
+  it("keys attachments under their exception and rejects keys from elsewhere", () => {
+    const key = buildAttachmentStorageKey("firm-1", "run-1", "exc-1", "Remittance (final).pdf");
+
+    expect(key).toMatch(
+      /^firm\/firm-1\/pay-run\/run-1\/exceptions\/exc-1\/[0-9a-f-]{36}-Remittance__final_\.pdf$/
+    );
+    expect(() => assertAttachmentKeyMatches("firm-1", "run-1", "exc-1", key)).not.toThrow();
+    expect(() => assertAttachmentKeyMatches("firm-1", "run-1", "exc-2", key)).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      assertAttachmentKeyMatches(
+        "firm-1",
+        "run-1",
+        "exc-1",
+        "firm/firm-1/pay-run/run-1/BANK/x.csv"
+      )
+    ).toThrow(ValidationError);
+  });
+
+  it("accepts evidence documents and previews only inline-safe types", () => {
+    expect(isAllowedAttachment("letter.PDF", "application/pdf")).toBe(true);
+    expect(isAllowedAttachment("payments.csv", "application/vnd.ms-excel")).toBe(true);
+    expect(isAllowedAttachment("scan", "image/png")).toBe(false);
+    expect(isAllowedAttachment("letter.pdf", "application/octet-stream")).toBe(false);
+    expect(isAllowedAttachment("setup.exe", "application/pdf")).toBe(false);
+    expect(isAllowedAttachment("scan.png", "application/pdf")).toBe(false);
+    expect(
+      isAllowedAttachment("macro.xlsm", "application/vnd.ms-excel.sheet.macroEnabled.12")
+    ).toBe(false);
+    expect(isPreviewableAttachment("application/pdf")).toBe(true);
+    expect(isPreviewableAttachment("text/csv")).toBe(false);
+  });
+
+  it("reads the attachment requirement from the expected variance on the check", () => {
+    expect(
+      requiresAttachmentForCheck({
+        deltaValue: 12,
+        expectedVariance: { id: "v1", downgradeTo: "WARN", requiresAttachment: true }
+      })
+    ).toBe(true);
+    expect(
+      requiresAttachmentForCheck({ expectedVariance: { id: "v1", requiresNote: true } })
+    ).toBe(false);
+    expect(requiresAttachmentForCheck(null)).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCarryForwardFields,
+  buildExceptionDeltaKey,
+  buildExceptionFingerprint,
+  matchExceptionPredecessors,
+  type CarryForwardPredecessor
+} from "@/lib/exception-carry-forward";
+
+const buildPredecessor = (
+  overrides: Partial<CarryForwardPredecessor> = {}
+): CarryForwardPredecessor => ({
+  id: "prior-1",
+  fingerprint: "fp-a",
+  deltaKey: "delta-a",
+  status: "RESOLVED",
+  assignedToUserId: "user-1",
+  resolutionNote: "Director paid separately.",
+  resolvedByUserId: "user-2",
+  resolvedAt: new Date("2026-03-31T10:00:00Z"),
+  ...overrides
+});
+
+describe("exception carry-forward", () => {
+  it("fingerprints on check, category and evidence notes but not import ids or rows", async () => {
+    const first = await buildExceptionFingerprint({
+      checkType: "CHK_EMPLOYEE_NET_TO_BANK_LINES",
+      category: "BANK_MISMATCH",
+      title: "Bank lines without a matching register employee",
+      evidence: [{ importId: "import-v1", rowNumbers: [4, 9], note: "Unmatched bank lines" }]
+    });
+    const reuploaded = await buildExceptionFingerprint({
+      checkType: "CHK_EMPLOYEE_NET_TO_BANK_LINES",
+      category: "BANK_MISMATCH",
+      title: "Bank lines without a matching register employee",
+      evidence: [{ importId: "import-v2", rowNumbers: [12], note: "Unmatched bank lines" }]
+    });
+    const otherEvidence = await buildExceptionFingerprint({
+      checkType: "CHK_EMPLOYEE_NET_TO_BANK_LINES",
+      category: "BANK_MISMATCH",
+      title: "Register employees without a matching bank line",
+      evidence: [
+        { importId: "import-v1", rowNumbers: [2], note: "Unmatched register employees" }
+      ]
+    });
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(reuploaded).toBe(first);
+    expect(otherEvidence).not.toBe(first);
+  });
+
+  it("changes the delta key when the delta or evidence rows change", () => {
+    const evidence = [{ importId: "import-1", rowNumbers: [9, 4], note: "Top bank rows" }];
+    const base = buildExceptionDeltaKey({ deltaValue: 120.5, evidence });
+
+    expect(
+      buildExceptionDeltaKey({
+        deltaValue: 120.5,
+        evidence: [{ importId: "import-2", rowNumbers: [4, 9], note: "Top bank rows" }]
+      })
+    ).toBe(base);
+    expect(buildExceptionDeltaKey({ deltaValue: 80, evidence })).not.toBe(base);
+    expect(
+      buildExceptionDeltaKey({
+        deltaValue: 120.5,
+        evidence: [{ importId: "import-1", rowNumbers: [4], note: "Top bank rows" }]
+      })
+    ).not.toBe(base);
+  });
+
+  it("matches each predecessor once by fingerprint", () => {
+    const predecessors = [
+      buildPredecessor({ id: "prior-1" }),
+      buildPredecessor({ id: "prior-2", deltaKey: "delta-b" })
+    ];
+
+    const matches = matchExceptionPredecessors(
+      [
+        { fingerprint: "fp-a", deltaKey: "delta-a" },
+        { fingerprint: "fp-a", deltaKey: "delta-a" },
+        { fingerprint: "fp-a", deltaKey: "delta-a" },
+        { fingerprint: "fp-z", deltaKey: "delta-a" }
+      ],
+      predecessors
+    );
+
+    expect(matches.map((match) => match?.predecessor.id ?? null)).toEqual([
+      "prior-1",
+      "prior-2",
+      null,
+      null
+    ]);
+    expect(matches[0]?.deltaChanged).toBe(false);
+    expect(matches[1]?.deltaChanged).toBe(true);
+  });
+
+  it("carries status, assignee and notes when the delta is unchanged", () => {
+    const predecessor = buildPredecessor();
+    expect(buildCarryForwardFields({ predecessor, deltaChanged: false })).toEqual({
+      previousExceptionId: "prior-1",
+      status: "RESOLVED",
+      assignedToUserId: "user-1",
+      resolutionNote: "Director paid separately.",
+      resolvedByUserId: "user-2",
+      resolvedAt: predecessor.resolvedAt
+    });
+  });
+
+  it("re-opens with a link to the prior decision when the delta changed", () => {
+    expect(
+      buildCarryForwardFields({ predecessor: buildPredecessor(), deltaChanged: true })
+    ).toEqual({
+      previousExceptionId: "prior-1",
+      status: "OPEN",
+      assignedToUserId: "user-1",
+      resolutionNote: null,
+      resolvedByUserId: null,
+      resolvedAt: null
+    });
+  });
+});
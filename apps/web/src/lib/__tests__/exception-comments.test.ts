@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCommentThreads,
+  flattenCommentThreads,
+  parseMentions,
+  type CommentRecord
+} from "@/lib/exception-comments";
+
+const buildComment = (
+  id: string,
+  minute: number,
+  parentCommentId: string | null = null
+): CommentRecord => ({
+  id,
+  parentCommentId,
+  authorEmail: `${id}@firm.test`,
+  body: `Comment ${id}`,
+  createdAt: new Date(`2026-04-01T10:${String(minute).padStart(2, "0")}:00Z`),
+  mentionedEmails: []
+});
+
+describe("exception comments", () => {
+  it("parses email mentions and ignores plain addresses", () => {
+    expect(
+      parseMentions(
+        "@Reviewer@Firm.co.uk please check. cc @preparer@firm.co.uk. Email ops@firm.co.uk if needed, @reviewer@firm.co.uk"
+      )
+    ).toEqual(["reviewer@firm.co.uk", "preparer@firm.co.uk"]);
+    expect(parseMentions("No mentions here @ all")).toEqual([]);
+  });
+
+  it("nests replies under their parent in posting order", () => {
+    const threads = buildCommentThreads([
+      buildComment("reply-2", 4, "root"),
+      buildComment("root", 1),
+      buildComment("reply-1", 2, "root"),
+      buildComment("nested", 3, "reply-1"),
+      buildComment("orphan", 5, "missing")
+    ]);
+
+    expect(threads.map((thread) => thread.id)).toEqual(["root", "orphan"]);
+    expect(threads[0]?.replies.map((reply) => reply.id)).toEqual(["reply-1", "reply-2"]);
+    expect(threads[0]?.replies[0]?.replies.map((reply) => reply.id)).toEqual(["nested"]);
+  });
+
+  it("flattens threads with depth for the pack appendix", () => {
+    const flattened = flattenCommentThreads(
+      buildCommentThreads([
+        buildComment("root", 1),
+        buildComment("reply", 2, "root"),
+        buildComment("nested", 3, "reply")
+      ])
+    );
+
+    expect(flattened.map((entry) => [entry.id, entry.depth])).toEqual([
+      ["root", 0],
+      ["reply", 1],
+      ["nested", 2]
+    ]);
+  });
+});
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { prisma } from "@/lib/prisma";
 import { createClient } from "@/lib/clients";
 import { createPayRun } from "@/lib/pay-runs";
@@ -8,6 +8,14 @@ import {
   overrideException,
   resolveException
 } from "@/lib/exceptions";
+import { addExceptionComment, listExceptionComments } from "@/lib/exception-comments";
+import {
+  addExceptionAttachment,
+  buildAttachmentStorageKey,
+  listExceptionAttachments
+} from "@/lib/exception-attachments";
+import { sha256Hex } from "@/lib/hash";
+import { storageClient } from "@/lib/storage";
 import { NotFoundError, ValidationError } from "@/lib/errors";
 import { createFirmWithUser, resetDb } from "./test-db";
 
@@ -87,6 +95,10 @@ describe("exception workflow", () => {
     await resetDb();
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it("assigns exceptions and records audit events", async () => {
     const { firm, user, exception } = await seedException();
     const assignee = await prisma.user.create({
@@ -305,4 +317,145 @@ describe("exception workflow", () => {
       )
     ).rejects.toBeInstanceOf(ValidationError);
   });
+
+  it("threads comments, records mentions and emits audit events", async () => {
+    const { firm, user, exception } = await seedException();
+    const reviewer = await prisma.user.create({
+      data: {
+        firmId: firm.id,
+        email: "reviewer@example.com",
+        role: "REVIEWER",
+        status: "ACTIVE"
+      }
+    });
+
+    const comment = await addExceptionComment(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      exception.id,
+      { body: "Can you confirm the second BACS batch? @reviewer@example.com" }
+    );
+    await addExceptionComment(
+      { firmId: firm.id, userId: reviewer.id, role: reviewer.role },
+      exception.id,
+      { body: "Confirmed, batch two was paid on the 28th.", parentCommentId: comment.id }
+    );
+
+    const threads = (await listExceptionComments(firm.id, [exception.id])).get(exception.id);
+    expect(threads).toHaveLength(1);
+    expect(threads?.[0]?.mentionedEmails).toEqual(["reviewer@example.com"]);
+    expect(threads?.[0]?.replies[0]?.authorEmail).toBe("reviewer@example.com");
+
+    const commented = await prisma.auditEvent.count({
+      where: { firmId: firm.id, action: "EXCEPTION_COMMENTED" }
+    });
+    const mentioned = await prisma.auditEvent.findFirst({
+      where: { firmId: firm.id, action: "EXCEPTION_USER_MENTIONED" }
+    });
+    expect(commented).toBe(2);
+    expect(mentioned?.metadata).toMatchObject({ mentionedUserId: reviewer.id });
+  });
+
+  it("rejects mentions of users outside the firm and replies from other threads", async () => {
+    const { firm, user, exception } = await seedException();
+    const { user: outsider } = await createFirmWithUser("ADMIN");
+
+    await expect(
+      addExceptionComment(
+        { firmId: firm.id, userId: user.id, role: user.role },
+        exception.id,
+        { body: `Looping in @${outsider.email}` }
+      )
+    ).rejects.toBeInstanceOf(ValidationError);
+
+    await expect(
+      addExceptionComment(
+        { firmId: firm.id, userId: user.id, role: user.role },
+        exception.id,
+        { body: "Replying", parentCommentId: exception.id }
+      )
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("stores hashed attachments once per file and records audit events", async () => {
+    const { firm, user, payRun, exception } = await seedException();
+    const context = { firmId: firm.id, userId: user.id, role: user.role };
+    const contents = Buffer.from("Director confirmation letter");
+    const fileHashSha256 = await sha256Hex(contents);
+    vi.spyOn(storageClient as unknown as { send: () => Promise<unknown> }, "send")
+      .mockResolvedValue({ Body: contents });
+    const input = {
+      storageKey: buildAttachmentStorageKey(firm.id, payRun.id, exception.id, "letter.pdf"),
+      fileHashSha256,
+      originalFilename: "letter.pdf",
+      mimeType: "application/pdf",
+      sizeBytes: contents.length
+    };
+
+    const first = await addExceptionAttachment(context, exception.id, input);
+    const second = await addExceptionAttachment(context, exception.id, input);
+
+    expect(first.duplicate).toBe(false);
+    expect(second.duplicate).toBe(true);
+    const attachments = (await listExceptionAttachments(firm.id, [exception.id])).get(
+      exception.id
+    );
+    expect(attachments?.map((entry) => entry.fileHashSha256)).toEqual([fileHashSha256]);
+
+    const audit = await prisma.auditEvent.findFirst({
+      where: { firmId: firm.id, action: "EXCEPTION_ATTACHMENT_ADDED" }
+    });
+    expect(audit?.metadata).toMatchObject({ fileHashSha256 });
+
+    await expect(
+      addExceptionAttachment(context, exception.id, { ...input, fileHashSha256: "0".repeat(64) })
+    ).rejects.toThrow("does not match its hash");
+    await expect(
+      addExceptionAttachment(context, exception.id, {
+        ...input,
+        storageKey: `firm/${firm.id}/pay-run/${payRun.id}/REGISTER/letter.pdf`
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("requires an attachment when the expected variance asks for one", async () => {
+    const { firm, user, exception } = await seedException();
+    const checkResult = await prisma.checkResult.findUniqueOrThrow({
+      where: { id: exception.checkResultId }
+    });
+    await prisma.checkResult.update({
+      where: { id: checkResult.id },
+      data: {
+        details: {
+          ...(checkResult.details as Record<string, unknown>),
+          expectedVariance: {
+            id: "variance-1",
+            varianceType: "DIRECTORS_SEPARATE",
+            downgradeTo: "WARN",
+            requiresAttachment: true
+          }
+        }
+      }
+    });
+    const context = { firmId: firm.id, userId: user.id, role: user.role };
+
+    await expect(
+      resolveException(context, exception.id, "Paid separately")
+    ).rejects.toThrow("requires an attachment");
+
+    await prisma.exceptionAttachment.create({
+      data: {
+        firmId: firm.id,
+        exceptionId: exception.id,
+        storageUri: "s3://bucket/letter.pdf",
+        fileHashSha256: "a".repeat(64),
+        originalFilename: "letter.pdf",
+        mimeType: "application/pdf",
+        sizeBytes: 10,
+        uploadedByUserId: user.id
+      }
+    });
+
+    const resolved = await resolveException(context, exception.id, "Paid separately");
+    expect(resolved.status).toBe("RESOLVED");
+  });
 });
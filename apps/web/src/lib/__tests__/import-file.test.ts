@@ -91,6 +91,62 @@ describe("readImportFile", () => {
     expect(result.rows[1]).toEqual(["Alex", "120"]);
   });
 
+  it("reads BACS Standard 18 credits as rows", async () => {
+    const credit =
+      "2000001234567809940127671584685    00000185000" +
+      "ACME PAYROLL LTD".padEnd(18) +
+      "SALARY APR".padEnd(18) +
+      "JANE SMITH".padEnd(18);
+    vi.spyOn(
+      storageClient as unknown as { send: (command: StorageCommand) => Promise<unknown> },
+      "send"
+    ).mockResolvedValue({ Body: `${credit}\n` } as { Body: unknown });
+
+    const result = await readImportFile(
+      {
+        storageUri: `s3://${storageBucket}/imports/payments.bac`,
+        originalFilename: "payments.bac"
+      },
+      {}
+    );
+
+    expect(result.rows[0]).toContain("Payee name");
+    expect(result.rows[1]).toEqual([
+      "1",
+      "20-00-00",
+      "12345678",
+      "JANE SMITH",
+      "1850.00",
+      "SALARY APR",
+      "99",
+      ""
+    ]);
+  });
+
+  it("reads P32 exports as keyed statutory rows", async () => {
+    vi.spyOn(
+      storageClient as unknown as { send: (command: StorageCommand) => Promise<unknown> },
+      "send"
+    ).mockResolvedValue({
+      Body: "Tax Month,PAYE Tax,Employee NI,Employer NI,Amount Due\n1,4126.00,1702.40,2499.10,8327.50\n"
+    } as { Body: unknown });
+
+    const result = await readImportFile(
+      {
+        storageUri: `s3://${storageBucket}/imports/p32.csv`,
+        originalFilename: "p32.csv"
+      },
+      { periodEnd: new Date("2026-04-30T00:00:00Z") }
+    );
+
+    expect(result.rows).toEqual([
+      ["Category", "Category key", "Amount", "Employee", "Employee ID", "Payroll ID", "Period"],
+      ["PAYE Tax", "TAX_PRIMARY", "4126.00", "", "", "", "Month 1"],
+      ["Employee NI", "TAX_SECONDARY", "1702.40", "", "", "", "Month 1"],
+      ["Employer NI", "", "2499.10", "", "", "", "Month 1"]
+    ]);
+  });
+
   it("selects the requested worksheet when provided", async () => {
     const workbook = XLSX.utils.book_new();
     const sheet1 = XLSX.utils.aoa_to_sheet([
@@ -130,6 +130,81 @@ describe("import validation", () => {
     );
   });
 
+  it("accepts BACS Standard 18 text files and counts their credits", () => {
+    const buffer = Buffer.from(
+      [
+        "VOL1000123".padEnd(80),
+        "2000001234567809940127671584685    00000185000" +
+          "ACME PAYROLL LTD".padEnd(18) +
+          "SALARY APR".padEnd(18) +
+          "JANE SMITH".padEnd(18)
+      ].join("\n"),
+      "utf8"
+    );
+
+    const result = validateImportBuffer({
+      buffer,
+      fileName: "payments.txt",
+      mimeType: "text/plain"
+    });
+
+    expect(result).toEqual({ kind: "BACS_STANDARD_18", rowCount: 2, columnCount: 8 });
+  });
+
+  it("accepts SEPA pain.001 XML files and counts their transactions", () => {
+    const buffer = Buffer.from(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03">
+  <CstmrCdtTrfInitn>
+    <GrpHdr><MsgId>PAY-1</MsgId><NbOfTxs>1</NbOfTxs></GrpHdr>
+    <PmtInf>
+      <PmtInfId>SALARIES</PmtInfId>
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>E2E-001</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="EUR">1850.25</InstdAmt></Amt>
+      </CdtTrfTxInf>
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>`,
+      "utf8"
+    );
+
+    const result = validateImportBuffer({
+      buffer,
+      fileName: "payments.xml",
+      mimeType: "application/xml"
+    });
+
+    expect(result).toEqual({ kind: "SEPA_PAIN_001", rowCount: 2, columnCount: 9 });
+  });
+
+  it("accepts Revenue payroll submission JSON as statutory rows", () => {
+    const buffer = Buffer.from(
+      JSON.stringify({
+        payslips: [
+          {
+            employeeID: { employeePpsn: "1234567T", employmentID: "1" },
+            incomeTaxPaid: 520.4,
+            uscPaid: 118.25
+          }
+        ]
+      }),
+      "utf8"
+    );
+
+    const result = validateImportBuffer({
+      buffer,
+      fileName: "submission.json",
+      mimeType: "application/json"
+    });
+
+    expect(result).toEqual({
+      kind: "REVENUE_PAYROLL_SUBMISSION",
+      rowCount: 3,
+      columnCount: 7
+    });
+  });
+
   it("rejects legacy .xls signatures", () => {
     const buffer = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0x00]);
 
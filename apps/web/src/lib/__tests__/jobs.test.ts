@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import { ImportParseError, NotFoundError, ValidationError } from "@/lib/errors";
+import { waitForJob, type PolledJob } from "@/lib/job-polling";
+import { describeJobError, isRetryableJobError } from "@/lib/jobs";
+import { PermissionError } from "@/lib/permissions";
+
+const buildJob = (status: PolledJob["status"], extra: Partial<PolledJob> = {}): PolledJob => ({
+  id: "job-1",
+  name: "RECONCILIATION_RUN",
+  status,
+  result: null,
+  error: null,
+  ...extra
+});
+
+const respondWith = (jobs: PolledJob[]) => {
+  const queue = [...jobs];
+  return vi.fn(async () => {
+    const job = queue.shift() ?? jobs[jobs.length - 1];
+    return new Response(JSON.stringify(job), { status: 200 });
+  }) as unknown as typeof fetch;
+};
+
+describe("jobs", () => {
+  it("retries unexpected errors but not validation, lookup or permission errors", () => {
+    expect(isRetryableJobError(new Error("connection reset"))).toBe(true);
+    expect(isRetryableJobError(new ValidationError("Bad input"))).toBe(false);
+    expect(isRetryableJobError(new ImportParseError())).toBe(false);
+    expect(isRetryableJobError(new NotFoundError())).toBe(false);
+    expect(isRetryableJobError(new PermissionError())).toBe(false);
+  });
+
+  it("keeps user-facing messages and hides unexpected ones", () => {
+    expect(describeJobError(new ValidationError("Locked pay runs cannot be reconciled."))).toEqual({
+      name: "ValidationError",
+      message: "Locked pay runs cannot be reconciled."
+    });
+    expect(describeJobError(new PermissionError()).message).toBe("Permission denied.");
+    expect(describeJobError(new Error("ECONNREFUSED 10.0.0.4:5432"))).toEqual({
+      name: "Error",
+      message: "The job failed unexpectedly. Try again."
+    });
+  });
+
+  it("polls until the job finishes", async () => {
+    const fetcher = respondWith([
+      buildJob("QUEUED"),
+      buildJob("RUNNING"),
+      buildJob("SUCCEEDED", { result: { runNumber: 2 } })
+    ]);
+    const updates: string[] = [];
+
+    const job = await waitForJob("job-1", {
+      intervalMs: 0,
+      fetcher,
+      onUpdate: (update) => updates.push(update.status)
+    });
+
+    expect(job.result).toEqual({ runNumber: 2 });
+    expect(updates).toEqual(["QUEUED", "RUNNING", "SUCCEEDED"]);
+    expect(fetcher).toHaveBeenCalledWith("/api/jobs/job-1", { cache: "no-store" });
+  });
+
+  it("resolves failed jobs and rejects when the job cannot be read", async () => {
+    const failed = await waitForJob("job-1", {
+      intervalMs: 0,
+      fetcher: respondWith([buildJob("FAILED", { error: "Pay run not found." })])
+    });
+    expect(failed.error).toBe("Pay run not found.");
+
+    const missing = vi.fn(
+      async () => new Response(JSON.stringify({ error: "Job not found." }), { status: 404 })
+    ) as unknown as typeof fetch;
+    await expect(waitForJob("job-1", { fetcher: missing })).rejects.toThrow("Job not found.");
+  });
+
+  it("stops polling after the timeout", async () => {
+    await expect(
+      waitForJob("job-1", {
+        intervalMs: 0,
+        timeoutMs: 0,
+        fetcher: respondWith([buildJob("RUNNING")])
+      })
+    ).rejects.toThrow("The job is still running.");
+  });
+});
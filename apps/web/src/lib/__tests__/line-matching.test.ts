@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchEmployeesToBankLines,
+  nameSimilarity,
+  resolveLineMatchingEnabled
+} from "@/lib/line-matching";
+
+const tolerance = { absoluteCents: 100, percent: 0 };
+
+const bankLine = (
+  rowNumber: number,
+  amountCents: number,
+  overrides: Partial<{ payeeId: string; payeeName: string; reference: string }> = {}
+) => ({
+  rowNumber,
+  amountCents,
+  payeeId: overrides.payeeId ?? "",
+  payeeName: overrides.payeeName ?? "",
+  reference: overrides.reference ?? ""
+});
+
+describe("line matching", () => {
+  it("scores name similarity with initials and ignores punctuation", () => {
+    expect(nameSimilarity("Jane Smith", "SMITH, JANE")).toBe(1);
+    expect(nameSimilarity("Jane Smith", "J SMITH")).toBe(1);
+    expect(nameSimilarity("Jane Smith", "Alex Brown")).toBe(0);
+    expect(nameSimilarity("", "Alex Brown")).toBe(0);
+  });
+
+  it("matches by employee ID on payee ID or reference", () => {
+    const result = matchEmployeesToBankLines({
+      employees: [
+        { rowNumber: 1, employeeId: "E-001", employeeName: "Jane Smith", amountCents: 150000 },
+        { rowNumber: 2, employeeId: "E002", employeeName: "Alex Brown", amountCents: 90000 }
+      ],
+      bankLines: [
+        bankLine(1, 90000, { reference: "SALARY e002 MARCH" }),
+        bankLine(2, 150000, { payeeId: "e001" })
+      ],
+      tolerance
+    });
+
+    expect(result.matches).toEqual([
+      expect.objectContaining({ registerRowNumber: 1, bankRowNumber: 2, method: "KEY" }),
+      expect.objectContaining({ registerRowNumber: 2, bankRowNumber: 1, method: "KEY" })
+    ]);
+    expect(result.unmatchedEmployees).toHaveLength(0);
+    expect(result.unmatchedBankLines).toHaveLength(0);
+  });
+
+  it("falls back to amount and name similarity", () => {
+    const result = matchEmployeesToBankLines({
+      employees: [
+        { rowNumber: 1, employeeId: "", employeeName: "Jane Smith", amountCents: 150000 }
+      ],
+      bankLines: [
+        bankLine(1, 150000, { payeeName: "A BROWN" }),
+        bankLine(2, 150050, { payeeName: "J SMITH" })
+      ],
+      tolerance
+    });
+
+    expect(result.matches[0]).toMatchObject({
+      bankRowNumber: 2,
+      method: "AMOUNT_NAME",
+      similarity: 1
+    });
+    expect(result.unmatchedBankLines).toEqual([{ rowNumber: 1, amountCents: 150000 }]);
+  });
+
+  it("reports amount mismatches and unmatched lines", () => {
+    const result = matchEmployeesToBankLines({
+      employees: [
+        { rowNumber: 1, employeeId: "E1", employeeName: "Jane Smith", amountCents: 150000 },
+        { rowNumber: 2, employeeId: "E2", employeeName: "Alex Brown", amountCents: 80000 }
+      ],
+      bankLines: [bankLine(1, 140000, { payeeId: "E1" }), bankLine(2, 5000)],
+      tolerance
+    });
+
+    expect(result.unmatchedEmployees).toEqual([
+      { rowNumber: 1, amountCents: 150000, reason: "AMOUNT_MISMATCH", bankRowNumber: 1 },
+      { rowNumber: 2, amountCents: 80000, reason: "NO_CANDIDATE" }
+    ]);
+    expect(result.unmatchedBankLines).toEqual([{ rowNumber: 2, amountCents: 5000 }]);
+  });
+
+  it("groups several keyed bank lines into a split payment", () => {
+    const result = matchEmployeesToBankLines({
+      employees: [
+        { rowNumber: 1, employeeId: "E1", employeeName: "Jane Smith", amountCents: 150000 },
+        { rowNumber: 2, employeeId: "E2", employeeName: "Alex Brown", amountCents: 50000 }
+      ],
+      bankLines: [
+        bankLine(1, 100000, { payeeId: "E1" }),
+        bankLine(2, 50000, { payeeId: "E1" }),
+        bankLine(3, 10000, { payeeId: "E2" }),
+        bankLine(4, 10000, { payeeId: "E2" })
+      ],
+      tolerance
+    });
+
+    expect(result.splitPayments).toEqual([
+      {
+        registerRowNumber: 1,
+        amountCents: 150000,
+        bankRowNumbers: [1, 2],
+        bankTotalCents: 150000,
+        withinTolerance: true
+      },
+      {
+        registerRowNumber: 2,
+        amountCents: 50000,
+        bankRowNumbers: [3, 4],
+        bankTotalCents: 20000,
+        withinTolerance: false
+      }
+    ]);
+  });
+
+  it("reads the client line matching switch", () => {
+    expect(resolveLineMatchingEnabled(null)).toBe(false);
+    expect(resolveLineMatchingEnabled({})).toBe(false);
+    expect(resolveLineMatchingEnabled({ lineMatching: "yes" })).toBe(false);
+    expect(resolveLineMatchingEnabled({ lineMatching: { enabled: true } })).toBe(true);
+  });
+});
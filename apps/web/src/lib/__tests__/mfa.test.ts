@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { ConflictError, ValidationError } from "@/lib/errors";
+import {
+  confirmMfaEnrollment,
+  getMfaEnrollment,
+  isMfaRequired,
+  parseMfaSettings,
+  resetUserMfa,
+  startMfaEnrollment,
+  verifyMfaChallenge
+} from "@/lib/mfa";
+import { generateTotpCode, totpTimeStep } from "@/lib/totp";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+describe("mfa policy", () => {
+  it("reads the firm requirement from defaults", () => {
+    expect(parseMfaSettings(null)).toEqual({ requirement: "OFF" });
+    expect(parseMfaSettings({ mfa: { requirement: "SOMETIMES" } })).toEqual({
+      requirement: "OFF"
+    });
+    expect(parseMfaSettings({ mfa: { requirement: "ALL" } })).toEqual({ requirement: "ALL" });
+  });
+
+  it("requires MFA by built-in role", () => {
+    const privileged = { mfa: { requirement: "PRIVILEGED" } };
+    expect(isMfaRequired("ADMIN", privileged)).toBe(true);
+    expect(isMfaRequired("REVIEWER", privileged)).toBe(true);
+    expect(isMfaRequired("PREPARER", privileged)).toBe(false);
+    expect(isMfaRequired("PREPARER", { mfa: { requirement: "ALL" } })).toBe(true);
+    expect(isMfaRequired("ADMIN", {})).toBe(false);
+  });
+});
+
+describe("mfa enrollment", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("enrolls, accepts recovery codes once, and resets", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id };
+
+    const pending = await startMfaEnrollment(context);
+    const enrollment = getMfaEnrollment(pending);
+    expect(enrollment?.otpauthUri).toContain(`secret=${enrollment?.secret}`);
+    expect(pending.mfaSecret).not.toContain(enrollment?.secret);
+
+    await expect(confirmMfaEnrollment(context, "000000")).rejects.toBeInstanceOf(
+      ValidationError
+    );
+
+    const secret = enrollment?.secret ?? "";
+    const recoveryCodes = await confirmMfaEnrollment(
+      context,
+      generateTotpCode(secret, totpTimeStep())
+    );
+    expect(recoveryCodes).toHaveLength(10);
+    await expect(startMfaEnrollment(context)).rejects.toBeInstanceOf(ConflictError);
+
+    // The enrollment code has been used, so the next accepted code is a later step.
+    expect(await verifyMfaChallenge(user.id, generateTotpCode(secret, totpTimeStep()))).toBeNull();
+    expect(
+      await verifyMfaChallenge(user.id, generateTotpCode(secret, totpTimeStep() + 1))
+    ).toBe("totp");
+
+    const [recoveryCode = ""] = recoveryCodes;
+    expect(await verifyMfaChallenge(user.id, recoveryCode.toUpperCase())).toBe("recovery");
+    expect(await verifyMfaChallenge(user.id, recoveryCode)).toBeNull();
+
+    await resetUserMfa(context, user.id);
+    const reset = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    expect(reset.mfaEnabledAt).toBeNull();
+    expect(reset.mfaRecoveryCodeHashes).toEqual([]);
+
+    const actions = await prisma.auditEvent.findMany({
+      where: {
+        firmId: firm.id,
+        action: { in: ["MFA_ENROLLED", "MFA_RECOVERY_CODE_USED", "MFA_RESET"] }
+      },
+      orderBy: { sequence: "asc" }
+    });
+    expect(actions.map((event) => event.action)).toEqual([
+      "MFA_ENROLLED",
+      "MFA_RECOVERY_CODE_USED",
+      "MFA_RESET"
+    ]);
+  });
+
+  it("locks the challenge after repeated wrong codes and audits each one", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id };
+    const secret = getMfaEnrollment(await startMfaEnrollment(context))?.secret ?? "";
+    await confirmMfaEnrollment(context, generateTotpCode(secret, totpTimeStep()));
+
+    for (let attempt = 1; attempt < 5; attempt += 1) {
+      expect(await verifyMfaChallenge(user.id, "000000")).toBeNull();
+    }
+    expect(await verifyMfaChallenge(user.id, "000000")).toBe("locked");
+    // A valid code is refused while the challenge is locked.
+    expect(
+      await verifyMfaChallenge(user.id, generateTotpCode(secret, totpTimeStep() + 1))
+    ).toBe("locked");
+
+    const failures = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: "MFA_FAILED" },
+      orderBy: { sequence: "asc" }
+    });
+    expect(failures).toHaveLength(5);
+    expect(failures[4]?.metadata).toEqual({ attempts: 5, locked: true });
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaLockedUntil: new Date(Date.now() - 1000) }
+    });
+    expect(
+      await verifyMfaChallenge(user.id, generateTotpCode(secret, totpTimeStep() + 1))
+    ).toBe("totp");
+    const cleared = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    expect(cleared.mfaFailedAttempts).toBe(0);
+    expect(cleared.mfaLockedUntil).toBeNull();
+  });
+});
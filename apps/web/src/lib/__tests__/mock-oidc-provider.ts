@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+
+// A local OpenID Connect provider for tests: discovery, an authorize endpoint
+// that approves immediately, PKCE-checked token exchange, userinfo and JWKS.
+
+type MockOidcOptions = {
+  clientId: string;
+  clientSecret: string;
+};
+
+type PendingCode = {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+};
+
+export type MockOidcProvider = {
+  issuer: string;
+  // Claims for the next sign-in; `sub` is required.
+  setUser: (claims: Record<string, unknown>, userinfo?: Record<string, unknown>) => void;
+  signIdToken: (claims: Record<string, unknown>, options?: { kid?: string }) => string;
+  close: () => Promise<void>;
+};
+
+const base64Url = (value: Buffer | string) => Buffer.from(value).toString("base64url");
+
+export const startMockOidcProvider = async (
+  options: MockOidcOptions
+): Promise<MockOidcProvider> => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = "mock-key-1";
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, Record<string, unknown>>();
+  let user: Record<string, unknown> = { sub: "mock-user" };
+  let userinfo: Record<string, unknown> = {};
+  let issuer = "";
+
+  const signIdToken = (claims: Record<string, unknown>, signOptions: { kid?: string } = {}) => {
+    const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: signOptions.kid ?? kid }));
+    const payload = base64Url(JSON.stringify(claims));
+    const signature = crypto.sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+    return `${header}.${payload}.${base64Url(signature)}`;
+  };
+
+  const json = (response: http.ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { "content-type": "application/json" });
+    response.end(JSON.stringify(body));
+  };
+
+  const readBody = (request: http.IncomingMessage) =>
+    new Promise<URLSearchParams>((resolve) => {
+      let body = "";
+      request.on("data", (chunk) => {
+        body += chunk;
+      });
+      request.on("end", () => resolve(new URLSearchParams(body)));
+    });
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", issuer);
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return json(response, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/jwks`,
+        token_endpoint_auth_methods_supported: ["client_secret_basic"]
+      });
+    }
+
+    if (url.pathname === "/jwks") {
+      return json(response, 200, {
+        keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }]
+      });
+    }
+
+    if (url.pathname === "/authorize") {
+      const redirectUri = url.searchParams.get("redirect_uri") ?? "";
+      const code = crypto.randomBytes(16).toString("hex");
+      codes.set(code, {
+        clientId: url.searchParams.get("client_id") ?? "",
+        redirectUri,
+        nonce: url.searchParams.get("nonce") ?? "",
+        codeChallenge: url.searchParams.get("code_challenge") ?? ""
+      });
+      const location = new URL(redirectUri);
+      location.searchParams.set("code", code);
+      location.searchParams.set("state", url.searchParams.get("state") ?? "");
+      response.writeHead(302, { location: location.toString() });
+      return response.end();
+    }
+
+    if (url.pathname === "/token" && request.method === "POST") {
+      const body = await readBody(request);
+      const expectedAuth = `Basic ${Buffer.from(
+        `${encodeURIComponent(options.clientId)}:${encodeURIComponent(options.clientSecret)}`
+      ).toString("base64")}`;
+      const pending = codes.get(body.get("code") ?? "");
+      codes.delete(body.get("code") ?? "");
+      const challenge = base64Url(
+        crypto.createHash("sha256").update(body.get("code_verifier") ?? "").digest()
+      );
+      if (
+        request.headers.authorization !== expectedAuth ||
+        !pending ||
+        pending.redirectUri !== body.get("redirect_uri") ||
+        pending.codeChallenge !== challenge
+      ) {
+        return json(response, 400, { error: "invalid_grant" });
+      }
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = crypto.randomBytes(16).toString("hex");
+      accessTokens.set(accessToken, { sub: user.sub, ...userinfo });
+      return json(response, 200, {
+        token_type: "Bearer",
+        access_token: accessToken,
+        id_token: signIdToken({
+          iss: issuer,
+          aud: pending.clientId,
+          iat: now,
+          exp: now + 300,
+          nonce: pending.nonce,
+          ...user
+        })
+      });
+    }
+
+    if (url.pathname === "/userinfo") {
+      const token = (request.headers.authorization ?? "").replace(/^Bearer /, "");
+      const claims = accessTokens.get(token);
+      return claims ? json(response, 200, claims) : json(response, 401, { error: "invalid_token" });
+    }
+
+    return json(response, 404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    setUser: (claims, info = {}) => {
+      user = claims;
+      userinfo = info;
+    },
+    signIdToken,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "@/lib/errors";
+import {
+  describeNormalizedLine,
+  normalizeImportRows,
+  parseAmount
+} from "@/lib/normalized-datasets";
+
+describe("normalized datasets", () => {
+  it("parses amounts with separators and parenthesised negatives", () => {
+    expect(parseAmount("1,234.50")).toBe(1234.5);
+    expect(parseAmount("(300)")).toBe(-300);
+    expect(parseAmount("abc")).toBeNull();
+    expect(parseAmount("")).toBeNull();
+  });
+
+  it("normalizes register rows and keeps file row numbers", () => {
+    const result = normalizeImportRows({
+      sourceType: "REGISTER",
+      rows: [
+        ["Employee", "Dept", "Net", "Tax"],
+        ["Jane Smith", "Ops", "1,000.00", "200"],
+        ["", "", "", ""],
+        ["Alex Brown", "", "abc", "50"]
+      ],
+      headerRowIndex: 0,
+      columnMap: {
+        employeeName: "Employee",
+        department: "Dept",
+        netPay: "Net",
+        tax1: "Tax"
+      }
+    });
+
+    expect(result.sourceType).toBe("REGISTER");
+    expect(result.lines).toHaveLength(2);
+    expect(result.lines[0]).toMatchObject({
+      rowNumber: 2,
+      employeeName: "Jane Smith",
+      department: "Ops",
+      netPayCents: 100000,
+      tax1Cents: 20000,
+      grossPayCents: null,
+      rawValues: { Employee: "Jane Smith", Dept: "Ops", Net: "1,000.00", Tax: "200" }
+    });
+    expect(result.lines[1]).toMatchObject({
+      rowNumber: 4,
+      department: null,
+      netPayCents: null
+    });
+  });
+
+  it("splits signed journal amounts into debits and credits", () => {
+    const result = normalizeImportRows({
+      sourceType: "GL",
+      rows: [
+        ["Account", "Signed"],
+        ["7000", "300"],
+        ["2210", "(300)"],
+        ["9999", "0"]
+      ],
+      headerRowIndex: 0,
+      columnMap: { account: "Account", signedAmount: "Signed" }
+    });
+
+    expect(result.lines).toEqual([
+      expect.objectContaining({
+        rowNumber: 2,
+        accountCode: "7000",
+        debitCents: 30000,
+        creditCents: null
+      }),
+      expect.objectContaining({
+        rowNumber: 3,
+        accountCode: "2210",
+        debitCents: null,
+        creditCents: 30000
+      }),
+      expect.objectContaining({ rowNumber: 4, debitCents: null, creditCents: null })
+    ]);
+  });
+
+  it("resolves statutory categories through the template category map", () => {
+    const result = normalizeImportRows({
+      sourceType: "STATUTORY",
+      rows: [
+        ["Category", "Amount"],
+        ["PAYE", "120"],
+        ["Levy", "5"],
+        ["", "10"]
+      ],
+      headerRowIndex: 0,
+      columnMap: { category: "Category", amount: "Amount" },
+      normalizationRules: { categoryMap: { paye: "TAX_PRIMARY" } }
+    });
+
+    expect(result.lines).toEqual([
+      expect.objectContaining({ category: "PAYE", categoryKey: "TAX_PRIMARY" }),
+      expect.objectContaining({ category: "Levy", categoryKey: null })
+    ]);
+  });
+
+  it("prefers category keys carried in the file over the category map", () => {
+    const result = normalizeImportRows({
+      sourceType: "STATUTORY",
+      rows: [
+        ["Category", "Category key", "Amount"],
+        ["PAYE income tax", "TAX_PRIMARY", "412.60"],
+        ["Employer NIC", "", "249.91"]
+      ],
+      headerRowIndex: 0,
+      columnMap: { category: "Category", categoryKey: "Category key", amount: "Amount" },
+      normalizationRules: { categoryMap: { "paye income tax": "TAX_OTHER" } }
+    });
+
+    expect(result.lines).toEqual([
+      expect.objectContaining({ categoryKey: "TAX_PRIMARY", amountCents: 41260 }),
+      expect.objectContaining({ category: "Employer NIC", categoryKey: null })
+    ]);
+  });
+
+  it("rejects mapped columns that are missing from the file", () => {
+    expect(() =>
+      normalizeImportRows({
+        sourceType: "BANK",
+        rows: [["Payee", "Amount"]],
+        headerRowIndex: 0,
+        columnMap: { payeeName: "Payee", amount: "Value" }
+      })
+    ).toThrow(ValidationError);
+  });
+
+  it("describes normalized lines for evidence views", () => {
+    expect(
+      describeNormalizedLine("BANK", {
+        rowNumber: 2,
+        payeeRef: null,
+        payeeName: "Jane Smith",
+        amountCents: 12345,
+        reference: null,
+        rawValues: {}
+      } as Parameters<typeof describeNormalizedLine>[1])
+    ).toEqual([
+      { label: "Payee name", value: "Jane Smith" },
+      { label: "Payment amount", value: "123.45" }
+    ]);
+  });
+});
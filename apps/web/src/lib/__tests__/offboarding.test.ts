@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/clients";
+import { createPayRun } from "@/lib/pay-runs";
+import { ValidationError } from "@/lib/errors";
+import { disableUser, listUserWork } from "@/lib/offboarding";
+import { createUserSession, defaultSessionTimeouts, validateUserSession } from "@/lib/user-sessions";
+import { authenticateApiToken, createApiToken } from "@/lib/api-tokens";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+const seedLeaverWithWork = async () => {
+  const { firm, user: admin } = await createFirmWithUser("ADMIN");
+  const context = { firmId: firm.id, userId: admin.id };
+  const leaver = await prisma.user.create({
+    data: { firmId: firm.id, email: "leaver@example.com", role: "REVIEWER", status: "ACTIVE" }
+  });
+  const client = await createClient(context, {
+    name: "Offboarding Client",
+    payrollSystem: "BRIGHTPAY",
+    payrollFrequency: "MONTHLY",
+    defaultReviewerUserId: leaver.id
+  });
+  const payRun = await createPayRun(
+    { ...context, role: admin.role },
+    {
+      clientId: client.id,
+      periodStart: new Date("2026-08-01T00:00:00Z"),
+      periodEnd: new Date("2026-08-31T00:00:00Z")
+    }
+  );
+  const run = await prisma.reconciliationRun.create({
+    data: {
+      firmId: firm.id,
+      payRunId: payRun.id,
+      runNumber: 1,
+      bundleId: "BUNDLE_UK_V1",
+      bundleVersion: "v1",
+      status: "SUCCESS",
+      inputSummary: {},
+      executedByUserId: admin.id
+    }
+  });
+  const checkResult = await prisma.checkResult.create({
+    data: {
+      reconciliationRunId: run.id,
+      checkType: "CHK_REGISTER_NET_TO_BANK_TOTAL",
+      checkVersion: "v1",
+      status: "FAIL",
+      severity: "HIGH",
+      summary: "Mismatch",
+      details: {}
+    }
+  });
+  const exceptionData = {
+    firmId: firm.id,
+    payRunId: payRun.id,
+    reconciliationRunId: run.id,
+    checkResultId: checkResult.id,
+    category: "BANK_MISMATCH" as const,
+    severity: "HIGH" as const,
+    title: "Register total mismatch",
+    description: "Totals are out of balance.",
+    assignedToUserId: leaver.id
+  };
+  const openException = await prisma.exception.create({ data: exceptionData });
+  await prisma.exception.create({ data: { ...exceptionData, status: "RESOLVED" } });
+  await prisma.payRun.update({ where: { id: payRun.id }, data: { status: "READY_FOR_REVIEW" } });
+  const template = await prisma.mappingTemplate.create({
+    data: {
+      firmId: firm.id,
+      clientId: client.id,
+      sourceType: "REGISTER",
+      version: 1,
+      name: "Draft register",
+      status: "DRAFT",
+      sourceColumns: ["Employee"],
+      columnMap: { employeeName: "Employee" },
+      createdByUserId: leaver.id
+    }
+  });
+
+  return { firm, admin, context, leaver, client, payRun, openException, template };
+};
+
+describe("user offboarding", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("lists open work and requires it to be reassigned", async () => {
+    const { admin, context, leaver, client, payRun, openException, template } =
+      await seedLeaverWithWork();
+
+    const work = await listUserWork(context.firmId, leaver.id);
+    expect(work.openExceptions.map((exception) => exception.id)).toEqual([openException.id]);
+    expect(work.reviewerClients.map((item) => item.id)).toEqual([client.id]);
+    expect(work.pendingReviews.map((item) => item.id)).toEqual([payRun.id]);
+    expect(work.draftTemplates.map((item) => item.id)).toEqual([template.id]);
+
+    await expect(disableUser(context, leaver.id)).rejects.toThrow(
+      "Choose who takes over the open exceptions."
+    );
+
+    const preparer = await prisma.user.create({
+      data: { firmId: context.firmId, email: "prep@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+    await expect(
+      disableUser(context, leaver.id, {
+        exceptionsToUserId: admin.id,
+        reviewerToUserId: preparer.id,
+        templatesToUserId: admin.id
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect((await prisma.user.findUniqueOrThrow({ where: { id: leaver.id } })).status).toBe(
+      "ACTIVE"
+    );
+  });
+
+  it("reassigns work, signs the user out, and records a summary", async () => {
+    const { admin, context, leaver, client, openException, template } = await seedLeaverWithWork();
+    const { token } = await createUserSession(leaver);
+    const apiToken = await createApiToken(
+      { firmId: leaver.firmId, userId: leaver.id, role: leaver.role },
+      { kind: "PERSONAL", name: "Sync", scopes: ["packs:read"], expiresInDays: 30 }
+    );
+
+    const disabled = await disableUser(context, leaver.id, {
+      exceptionsToUserId: admin.id,
+      reviewerToUserId: admin.id,
+      templatesToUserId: admin.id
+    });
+
+    expect(disabled.status).toBe("DISABLED");
+    expect(
+      (await prisma.exception.findUniqueOrThrow({ where: { id: openException.id } }))
+        .assignedToUserId
+    ).toBe(admin.id);
+    expect(
+      (await prisma.client.findUniqueOrThrow({ where: { id: client.id } })).defaultReviewerUserId
+    ).toBe(admin.id);
+    expect(
+      await prisma.mappingTemplate.findUniqueOrThrow({
+        where: { id: template.id },
+        select: { createdByUserId: true, ownerUserId: true }
+      })
+    ).toEqual({ createdByUserId: leaver.id, ownerUserId: admin.id });
+    expect((await listUserWork(context.firmId, admin.id)).draftTemplates).toHaveLength(1);
+    expect(await validateUserSession(token, leaver.id, defaultSessionTimeouts)).toBeNull();
+    expect(await authenticateApiToken(`Bearer ${apiToken.token}`)).toBeNull();
+
+    const event = await prisma.auditEvent.findFirst({
+      where: { firmId: context.firmId, action: "USER_DISABLED", entityId: leaver.id }
+    });
+    expect(event?.metadata).toMatchObject({
+      exceptionsReassigned: 1,
+      exceptionsToUserId: admin.id,
+      reviewerClientsReassigned: 1,
+      pendingReviewsReassigned: 1,
+      draftTemplatesReassigned: 1,
+      sessionsRevoked: 1,
+      apiTokensRevoked: 1
+    });
+  });
+
+  it("refuses to disable yourself or the last firm manager", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const other = await prisma.user.create({
+      data: { firmId: firm.id, email: "other@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+
+    await expect(
+      disableUser({ firmId: firm.id, userId: user.id }, user.id)
+    ).rejects.toThrow("your own account");
+    await expect(
+      disableUser({ firmId: firm.id, userId: other.id }, user.id)
+    ).rejects.toThrow("firm:manage");
+  });
+});
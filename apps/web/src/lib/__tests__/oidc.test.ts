@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { OidcError } from "@/lib/errors";
+import {
+  buildAuthorizationUrl,
+  createAuthorizationRequest,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  verifyIdToken,
+  type OidcClient
+} from "@/lib/oidc";
+import { startMockOidcProvider, type MockOidcProvider } from "./mock-oidc-provider";
+
+const clientId = "tally-test";
+const clientSecret = "s3cret/with:chars";
+
+const authorize = async (provider: MockOidcProvider, client: OidcClient) => {
+  const metadata = await discoverOidcProvider(provider.issuer);
+  const request = createAuthorizationRequest();
+  const response = await fetch(buildAuthorizationUrl(metadata, client, request), {
+    redirect: "manual"
+  });
+  const location = new URL(response.headers.get("location") ?? "");
+  return { metadata, request, location };
+};
+
+describe("oidc relying party", () => {
+  let provider: MockOidcProvider;
+  let client: OidcClient;
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider({ clientId, clientSecret });
+    client = {
+      issuer: provider.issuer,
+      clientId,
+      clientSecret,
+      redirectUri: "http://localhost:3000/api/auth/oidc/callback"
+    };
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  it("runs the authorization code flow with PKCE against the provider", async () => {
+    provider.setUser(
+      { sub: "user-123", email: "ada@example.com", email_verified: true },
+      { groups: ["tally-reviewers"] }
+    );
+    const { metadata, request, location } = await authorize(provider, client);
+
+    expect(location.origin + location.pathname).toBe(client.redirectUri);
+    expect(location.searchParams.get("state")).toBe(request.state);
+
+    const claims = await exchangeAuthorizationCode(
+      metadata,
+      client,
+      request,
+      location.searchParams.get("code") ?? ""
+    );
+    expect(claims).toMatchObject({
+      sub: "user-123",
+      email: "ada@example.com",
+      groups: ["tally-reviewers"]
+    });
+  });
+
+  it("rejects a code redeemed without the original verifier", async () => {
+    provider.setUser({ sub: "user-123", email: "ada@example.com" });
+    const { metadata, request, location } = await authorize(provider, client);
+
+    await expect(
+      exchangeAuthorizationCode(
+        metadata,
+        client,
+        { ...request, codeVerifier: createAuthorizationRequest().codeVerifier },
+        location.searchParams.get("code") ?? ""
+      )
+    ).rejects.toMatchObject({ code: "token_exchange_failed" });
+  });
+
+  it("validates ID token claims and signatures", async () => {
+    const metadata = await discoverOidcProvider(provider.issuer);
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { iss: provider.issuer, aud: clientId, sub: "user-1", exp: now + 60, nonce: "n-1" };
+
+    await expect(
+      verifyIdToken(provider.signIdToken(claims), metadata, client, "n-1")
+    ).resolves.toMatchObject({ sub: "user-1" });
+
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [{ ...claims, nonce: "other" }, "nonce"],
+      [{ ...claims, aud: "another-client" }, "another client"],
+      [{ ...claims, iss: "https://evil.example.com" }, "issuer"],
+      [{ ...claims, exp: now - 3600 }, "expired"]
+    ];
+    for (const [tampered, message] of cases) {
+      await expect(
+        verifyIdToken(provider.signIdToken(tampered), metadata, client, "n-1")
+      ).rejects.toThrow(message);
+    }
+
+    const [header, , signature] = provider.signIdToken(claims).split(".");
+    const forged = [
+      header,
+      Buffer.from(JSON.stringify({ ...claims, sub: "admin" })).toString("base64url"),
+      signature
+    ].join(".");
+    await expect(verifyIdToken(forged, metadata, client, "n-1")).rejects.toThrow("signature");
+    await expect(
+      verifyIdToken(provider.signIdToken(claims, { kid: "unknown" }), metadata, client, "n-1")
+    ).rejects.toBeInstanceOf(OidcError);
+  });
+
+  it("fails discovery for an unreachable or mismatched issuer", async () => {
+    await expect(discoverOidcProvider("http://127.0.0.1:1")).rejects.toMatchObject({
+      code: "discovery_failed"
+    });
+    await expect(discoverOidcProvider(`${provider.issuer}/other`)).rejects.toMatchObject({
+      code: "discovery_failed"
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { apiScopeDefinitions } from "@/lib/api-tokens";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+const routeFile = (apiPath: string) =>
+  path.resolve(
+    __dirname,
+    "../../app/api/v1",
+    `.${apiPath.replace(/\{(\w+)\}/g, "[$1]")}`,
+    "route.ts"
+  );
+
+describe("openapi document", () => {
+  const document = buildOpenApiDocument("https://tally.example.com/");
+
+  it("points at the versioned API", () => {
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.servers).toEqual([{ url: "https://tally.example.com/api/v1" }]);
+  });
+
+  it("documents only routes that exist, each with a known scope", () => {
+    const scopes = apiScopeDefinitions.map((definition) => definition.key as string);
+
+    for (const [apiPath, operations] of Object.entries(document.paths)) {
+      const file = routeFile(apiPath);
+      expect(existsSync(file), apiPath).toBe(true);
+      const source = readFileSync(file, "utf8");
+
+      for (const [method, operation] of Object.entries(operations)) {
+        expect(source, `${method} ${apiPath}`).toContain(
+          `export const ${method.toUpperCase()} = apiRoute`
+        );
+        const scope = operation["x-tally-scope"];
+        if (scope !== null) {
+          expect(scopes).toContain(scope);
+          expect(source).toContain(`"${scope}"`);
+        }
+      }
+    }
+  });
+});
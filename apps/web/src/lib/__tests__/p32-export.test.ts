@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { ImportParseError } from "@/lib/errors";
+import { parseP32Rows, ukTaxMonth } from "@/lib/p32-export";
+
+const p32 = [
+  ["Employer Payment Record 2026/27"],
+  [
+    "Tax Month",
+    "PAYE Tax",
+    "Student Loan",
+    "PG Loan",
+    "Employee NI",
+    "Employer NI",
+    "SMP Recovered",
+    "Amount Due"
+  ],
+  ["1", "4,126.00", "58.00", "", "1,702.40", "2,499.10", "0.00", "8,385.50"],
+  ["2", "4,200.00", "58.00", "21.00", "1,710.00", "2,510.00", "300.00", "8,199.00"],
+  ["3", "", "", "", "", "", "", ""],
+  ["Total", "8,326.00", "116.00", "21.00", "3,412.40", "5,009.10", "300.00", "16,584.50"]
+];
+
+describe("p32 exports", () => {
+  it("finds the tax month a date falls in", () => {
+    expect(ukTaxMonth(new Date("2026-04-06T00:00:00Z"))).toBe(1);
+    expect(ukTaxMonth(new Date("2026-05-05T00:00:00Z"))).toBe(1);
+    expect(ukTaxMonth(new Date("2026-05-31T00:00:00Z"))).toBe(2);
+    expect(ukTaxMonth(new Date("2027-01-05T00:00:00Z"))).toBe(9);
+    expect(ukTaxMonth(new Date("2027-04-05T00:00:00Z"))).toBe(12);
+  });
+
+  it("keys the pay run's tax month and keeps other months for reference", () => {
+    const entries = parseP32Rows(p32, new Date("2026-05-31T00:00:00Z"));
+
+    expect(entries?.filter((entry) => entry.period === "Month 2")).toEqual([
+      expect.objectContaining({
+        category: "PAYE Tax",
+        categoryKey: "TAX_PRIMARY",
+        amountCents: 420_000
+      }),
+      expect.objectContaining({ category: "Student Loan", categoryKey: "OTHER_DEDUCTIONS" }),
+      expect.objectContaining({ category: "PG Loan", categoryKey: "OTHER_DEDUCTIONS" }),
+      expect.objectContaining({ category: "Employee NI", categoryKey: "TAX_SECONDARY" }),
+      expect.objectContaining({ category: "Employer NI", categoryKey: null }),
+      expect.objectContaining({
+        category: "SMP Recovered",
+        categoryKey: null,
+        amountCents: 30_000
+      })
+    ]);
+    expect(
+      entries
+        ?.filter((entry) => entry.period === "Month 1")
+        .every((entry) => entry.categoryKey === null)
+    ).toBe(true);
+
+    const april = parseP32Rows(p32, new Date("2026-04-30T00:00:00Z"));
+    expect(april?.find((entry) => entry.period === "Month 1")?.categoryKey).toBe("TAX_PRIMARY");
+    expect(
+      april
+        ?.filter((entry) => entry.period === "Month 2")
+        .every((entry) => entry.categoryKey === null)
+    ).toBe(true);
+  });
+
+  it("leaves the Apprenticeship Levy unkeyed", () => {
+    const entries = parseP32Rows(
+      [
+        ["Tax Month", "PAYE Tax", "Employee NI", "Apprenticeship Levy", "Amount Due"],
+        ["1", "4,126.00", "1,702.40", "25.00", "5,853.40"]
+      ],
+      new Date("2026-04-30T00:00:00Z")
+    );
+
+    expect(entries?.find((entry) => entry.category === "Apprenticeship Levy")).toEqual(
+      expect.objectContaining({ categoryKey: null, amountCents: 2_500 })
+    );
+    expect(entries?.find((entry) => entry.category === "PAYE Tax")?.categoryKey).toBe(
+      "TAX_PRIMARY"
+    );
+  });
+
+  it("rejects a P32 without amounts for the pay run's tax month", () => {
+    expect(() => parseP32Rows(p32, new Date("2026-06-30T00:00:00Z"))).toThrow(ImportParseError);
+    expect(parseP32Rows(p32)?.every((entry) => entry.categoryKey === null)).toBe(true);
+  });
+
+  it("leaves other tables alone", () => {
+    expect(
+      parseP32Rows([
+        ["Employee", "Gross", "PAYE", "Employee NI", "Net pay"],
+        ["Jane Smith", "3000.00", "412.60", "170.24", "2417.16"]
+      ])
+    ).toBeNull();
+  });
+});
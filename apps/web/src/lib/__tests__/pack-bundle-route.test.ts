@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { requireUser } = vi.hoisted(() => ({
+  requireUser: vi.fn()
+}));
+
+const { getPackBundleDownloadUrl } = vi.hoisted(() => ({
+  getPackBundleDownloadUrl: vi.fn()
+}));
+
+const { recordAuditEvent } = vi.hoisted(() => ({
+  recordAuditEvent: vi.fn()
+}));
+
+const { findFirst } = vi.hoisted(() => ({
+  findFirst: vi.fn()
+}));
+
+vi.mock("@/lib/auth", () => ({ requireUser }));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    pack: {
+      findFirst
+    }
+  }
+}));
+vi.mock("@/lib/audit", () => ({ recordAuditEvent }));
+vi.mock("@/lib/packs", () => ({ getPackBundleDownloadUrl }));
+vi.mock("@/lib/server-errors", () => ({ logServerError: vi.fn() }));
+
+import { GET } from "@/app/(app)/packs/[packId]/bundle/route";
+
+describe("pack evidence bundle route", () => {
+  beforeEach(() => {
+    requireUser.mockResolvedValue({
+      session: { firmId: "firm-1", userId: "user-1" },
+      user: { id: "user-1", firmId: "firm-1", role: "PREPARER" }
+    });
+    getPackBundleDownloadUrl.mockReset();
+    findFirst.mockReset();
+    recordAuditEvent.mockReset();
+  });
+
+  it("returns 404 for packs generated without a bundle", async () => {
+    findFirst.mockResolvedValue({
+      id: "pack-1",
+      firmId: "firm-1",
+      payRunId: "pay-1",
+      payRun: { clientId: "client-1" },
+      storageUriBundle: null
+    });
+
+    const response = await GET(new Request("http://localhost"), {
+      params: { packId: "pack-1" }
+    });
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe("Evidence bundle not available for this pack.");
+    expect(getPackBundleDownloadUrl).not.toHaveBeenCalled();
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it("redirects to the signed bundle URL and records the download", async () => {
+    findFirst.mockResolvedValue({
+      id: "pack-2",
+      firmId: "firm-1",
+      payRunId: "pay-2",
+      payRun: { clientId: "client-1" },
+      storageUriBundle: "s3://bucket/firm/firm-1/pay-run/pay-2/pack/pack-v1-evidence.zip"
+    });
+    getPackBundleDownloadUrl.mockResolvedValue("https://files.example.com/bundle.zip");
+
+    const response = await GET(new Request("http://localhost"), {
+      params: { packId: "pack-2" }
+    });
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe("https://files.example.com/bundle.zip");
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      {
+        action: "PACK_DOWNLOADED",
+        entityType: "PACK",
+        entityId: "pack-2",
+        metadata: { payRunId: "pay-2", artifact: "bundle" }
+      },
+      { firmId: "firm-1", actorUserId: "user-1" }
+    );
+  });
+});
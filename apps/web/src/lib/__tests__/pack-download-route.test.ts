@@ -105,9 +105,44 @@ describe("pack download route", () => {
     );
   });
 
+  it("returns 404 and records the attempt when the client is outside the user's scope", async () => {
+    requireUser.mockResolvedValue({
+      session: { firmId: "firm-1", userId: "user-1" },
+      user: { id: "user-1", firmId: "firm-1", role: "PREPARER", clientIds: ["client-2"] }
+    });
+    requirePermission.mockReturnValue(undefined);
+    findFirst.mockResolvedValue({
+      id: "pack-6",
+      firmId: "firm-1",
+      payRunId: "pay-6",
+      payRun: { clientId: "client-1" }
+    });
+
+    const response = await GET(new Request("http://localhost"), {
+      params: { packId: "pack-6" }
+    });
+
+    expect(response.status).toBe(404);
+    expect(getPackDownloadUrl).not.toHaveBeenCalled();
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      {
+        action: "CLIENT_ACCESS_DENIED",
+        entityType: "PACK",
+        entityId: "pack-6",
+        metadata: { clientId: "client-1" }
+      },
+      { firmId: "firm-1", actorUserId: "user-1" }
+    );
+  });
+
   it("redirects to a signed download URL when the pack is found", async () => {
     requirePermission.mockReturnValue(undefined);
-    findFirst.mockResolvedValue({ id: "pack-3", firmId: "firm-1", payRunId: "pay-1" });
+    findFirst.mockResolvedValue({
+      id: "pack-3",
+      firmId: "firm-1",
+      payRunId: "pay-1",
+      payRun: { clientId: "client-1" }
+    });
     getPackDownloadUrl.mockResolvedValue("https://files.example.com/pack.pdf");
 
     const response = await GET(new Request("http://localhost"), {
@@ -129,7 +164,12 @@ describe("pack download route", () => {
 
   it("returns 500 when the download URL cannot be generated", async () => {
     requirePermission.mockReturnValue(undefined);
-    findFirst.mockResolvedValue({ id: "pack-4", firmId: "firm-1", payRunId: "pay-4" });
+    findFirst.mockResolvedValue({
+      id: "pack-4",
+      firmId: "firm-1",
+      payRunId: "pay-4",
+      payRun: { clientId: "client-1" }
+    });
     getPackDownloadUrl.mockRejectedValue(new Error("boom"));
 
     const response = await GET(new Request("http://localhost"), {
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { buildPackDocument, type PackDocumentInput } from "@/lib/pack-document";
+import { layoutPackPages, renderPackPdf, toPdfCharacters, wrapText } from "@/lib/pack-pdf";
+
+const baseInput = (overrides: Partial<PackDocumentInput> = {}): PackDocumentInput => ({
+  firmName: "Ledger & Co",
+  clientName: "Acme Ltd",
+  periodLabel: "2026-03",
+  revision: 1,
+  packVersion: 2,
+  runNumber: 3,
+  bundleId: "UK_PAYROLL_CORE",
+  bundleVersion: "1.0.0",
+  generatedAt: new Date("2026-04-02T10:15:00Z"),
+  generatedByEmail: "preparer@example.com",
+  submittedByEmail: "preparer@example.com",
+  submittedAt: new Date("2026-04-01T09:00:00Z"),
+  approval: {
+    reviewerEmail: "reviewer@example.com",
+    status: "APPROVED",
+    comment: "Approved.",
+    createdAt: new Date("2026-04-01T16:30:00Z")
+  },
+  redaction: { maskEmployeeNames: false, maskBankDetails: false, maskNiNumbers: false },
+  imports: [
+    {
+      importId: "import-1",
+      sourceType: "REGISTER",
+      version: 1,
+      originalFilename: "register.csv",
+      uploadedAt: new Date("2026-03-31T12:00:00Z"),
+      fileHashSha256: "a".repeat(64),
+      templateVersionId: "template-1"
+    }
+  ],
+  checks: [
+    {
+      checkType: "CHK_REGISTER_NET_TO_BANK_TOTAL",
+      checkVersion: "v1",
+      status: "FAIL",
+      severity: "HIGH",
+      leftLabel: "Register net total",
+      rightLabel: "Bank total",
+      leftValue: 1250,
+      rightValue: 1200,
+      deltaValue: 50,
+      tolerance: { absolute: 1, percent: 0, applied: 1 }
+    }
+  ],
+  exceptions: [
+    {
+      category: "BANK_MISMATCH",
+      title: "Employee John Smith paid short",
+      description: "Bank batch is 50.00 lower than the register.",
+      status: "RESOLVED",
+      severity: "HIGH",
+      evidence: [{ importId: "import-1", rowNumbers: [4], note: "Net pay" }],
+      resolutionNote: "Paid in second batch.",
+      resolvedByEmail: "preparer@example.com",
+      attachments: [
+        { originalFilename: "remittance.pdf", sizeBytes: 2048, fileHashSha256: "b".repeat(64) }
+      ],
+      comments: []
+    }
+  ],
+  ...overrides
+});
+
+const pageCount = (pdf: Buffer) => (pdf.toString("latin1").match(/\/Type \/Page\b/g) ?? []).length;
+
+describe("pack pdf", () => {
+  it("wraps text to the available width and breaks words longer than a line", () => {
+    const lines = wrapText("Register net total vs Bank total", "regular", 10, 80);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(" ")).toBe("Register net total vs Bank total");
+
+    const hash = wrapText("c".repeat(64), "mono", 8, 100);
+    expect(hash.length).toBeGreaterThan(1);
+    expect(hash.join("")).toBe("c".repeat(64));
+    expect(toPdfCharacters("“Quoted” – 中")).toBe('"Quoted" - ?');
+  });
+
+  it("renders a cover page, numbered pages and the pack sections", () => {
+    const pdf = renderPackPdf(buildPackDocument(baseInput()));
+    const text = pdf.toString("latin1");
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text).toContain("(Payroll Reconciliation Pack) Tj");
+    expect(text).toContain("(1. Inputs) Tj");
+    expect(text).toContain("(2. Reconciliation summary) Tj");
+    expect(text).toContain("(4. Sign-off) Tj");
+    expect(text).toContain("(Appendix A. Exception detail) Tj");
+    expect(text).toContain("(1,250.00) Tj");
+    expect(text).toContain("(50.00) Tj");
+    expect(text).toContain("Note: Paid in second batch.");
+    expect(text).toContain(`SHA-256 ${"b".repeat(64)}`);
+
+    const pages = pageCount(pdf);
+    expect(pages).toBeGreaterThanOrEqual(3);
+    expect(text).toContain(`(Page 1 of ${pages}) Tj`);
+    expect(text).toContain(`(Page ${pages} of ${pages}) Tj`);
+  });
+
+  it("flows long exception lists across pages and repeats table headers", () => {
+    const exceptions = Array.from({ length: 120 }, (_, index) => ({
+      category: "BANK_MISMATCH",
+      title: `Employee row ${index + 1} differs`,
+      status: "OPEN",
+      severity: "MEDIUM"
+    }));
+    const document = buildPackDocument(baseInput({ exceptions }));
+    const pages = layoutPackPages(document);
+
+    expect(pages.length).toBeGreaterThan(6);
+    const summaryHeaderPages = pages.filter((ops) =>
+      ops.some((op) => op.type === "text" && op.text === "Ref")
+    );
+    expect(summaryHeaderPages.length).toBeGreaterThan(1);
+    for (const ops of pages) {
+      for (const op of ops) {
+        if (op.type === "text") {
+          expect(op.y).toBeGreaterThan(0);
+        }
+      }
+    }
+
+    const pdf = renderPackPdf(document);
+    expect(pageCount(pdf)).toBe(pages.length);
+    expect(pdf.toString("latin1")).toMatch(/startxref\n\d+\n%%EOF\n$/);
+  });
+
+  it("redacts values throughout the document but keeps labels", () => {
+    const document = buildPackDocument(
+      baseInput({
+        redaction: { maskEmployeeNames: true, maskBankDetails: true, maskNiNumbers: true },
+        exceptions: [
+          {
+            category: "BANK_MISMATCH",
+            title: "Employee John Smith NI AB123456C bank account 12345678",
+            status: "OPEN",
+            severity: "HIGH"
+          }
+        ]
+      })
+    );
+    const text = renderPackPdf(document).toString("latin1");
+
+    expect(text).toContain("Employee J*** S**** NI *******6C bank account ****5678");
+    expect(text).not.toContain("John Smith");
+    expect(text).not.toContain("AB123456C");
+    expect(text).toContain("(Redaction) Tj");
+  });
+});
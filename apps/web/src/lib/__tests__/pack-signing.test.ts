@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeKeyFingerprint,
+  decryptPrivateKey,
+  encryptPrivateKey,
+  generateSigningKeyMaterial,
+  parseSignedManifest,
+  serializeSignedManifest,
+  signManifestText,
+  verifyManifestSignature
+} from "@/lib/pack-signing";
+
+const payload = {
+  packId: "6f1b1f43-7c62-4d0e-9d7c-0c5d2a2f4b11",
+  firmId: "firm-1",
+  firmName: "Ledger & Co",
+  payRunId: "pay-run-1",
+  clientName: "Acme Ltd",
+  periodLabel: "2026-03",
+  revision: 1,
+  packVersion: 2,
+  reconciliationRunId: "run-1",
+  runNumber: 3,
+  pdfSha256: "a".repeat(64),
+  bundleManifestSha256: "b".repeat(64),
+  generatedAt: new Date("2026-04-02T10:15:00Z")
+};
+
+describe("pack signing", () => {
+  it("stores private keys encrypted and recovers them", () => {
+    const material = generateSigningKeyMaterial();
+    const encrypted = encryptPrivateKey(material.privateKeyPem);
+
+    expect(encrypted).not.toContain("PRIVATE KEY");
+    expect(decryptPrivateKey(encrypted)).toBe(material.privateKeyPem);
+    expect(material.fingerprint).toBe(computeKeyFingerprint(material.publicKeyPem));
+    expect(material.fingerprint).toMatch(/^[a-f0-9]{64}$/);
+
+    const [version, iv, tag, body] = encrypted.split(":");
+    const tampered = [version, iv, tag, Buffer.from("x").toString("base64") + body].join(":");
+    expect(() => decryptPrivateKey(tampered)).toThrow();
+  });
+
+  it("signs the serialized manifest and rejects any change to it", () => {
+    const material = generateSigningKeyMaterial();
+    const manifestText = serializeSignedManifest(payload, material.fingerprint);
+    const signature = signManifestText(manifestText, material.privateKeyPem);
+
+    expect(parseSignedManifest(manifestText)).toMatchObject({
+      format: "tally-pack-signature",
+      packId: payload.packId,
+      pdfSha256: payload.pdfSha256,
+      generatedAt: "2026-04-02T10:15:00.000Z",
+      keyFingerprint: material.fingerprint
+    });
+    expect(verifyManifestSignature(manifestText, signature, material.publicKeyPem)).toBe(true);
+
+    const altered = manifestText.replace(payload.pdfSha256, "c".repeat(64));
+    expect(verifyManifestSignature(altered, signature, material.publicKeyPem)).toBe(false);
+
+    const otherKey = generateSigningKeyMaterial();
+    expect(verifyManifestSignature(manifestText, signature, otherKey.publicKeyPem)).toBe(false);
+    expect(verifyManifestSignature(manifestText, "not-base64", material.publicKeyPem)).toBe(false);
+  });
+
+  it("ignores documents that are not signed manifests", () => {
+    expect(parseSignedManifest("{}")).toBeNull();
+    expect(parseSignedManifest("not json")).toBeNull();
+  });
+});
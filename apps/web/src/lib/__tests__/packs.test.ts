@@ -1,4 +1,5 @@
 import { randomUUID } from "crypto";
+import { GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
 import { Prisma } from "@prisma/client";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { prisma, type Pack } from "@/lib/prisma";
@@ -8,7 +9,11 @@ import { buildStorageKey, createImport } from "@/lib/imports";
 import { generatePack, getPackDownloadUrl, lockPack } from "@/lib/packs";
 import { storageClient } from "@/lib/storage";
 import { NotFoundError, ValidationError } from "@/lib/errors";
+import { sha256Hex } from "@/lib/hash";
+import { verifyManifestSignature } from "@/lib/pack-signing";
+import { verifyPackByHash } from "@/lib/pack-verification";
 import { createFirmWithUser, resetDb } from "./test-db";
+import { readZipEntries } from "./zip-reader";
 
 const seedApprovedPayRun = async () => {
   const { firm, user } = await createFirmWithUser("ADMIN");
@@ -175,6 +180,11 @@ const seedApprovedPayRun = async () => {
 describe("pack generation and locking", () => {
   beforeEach(async () => {
     await resetDb();
+    // Source files and attachments are read back for the evidence bundle.
+    vi.spyOn(storageClient as unknown as { send: (command: unknown) => Promise<unknown> }, "send")
+      .mockImplementation(async (command: unknown) =>
+        command instanceof GetObjectCommand ? { Body: Buffer.from("stored file") } : {}
+      );
   });
 
   afterEach(() => {
@@ -184,7 +194,7 @@ describe("pack generation and locking", () => {
   it("generates packs and updates pay run status", async () => {
     const { firm, user, payRun } = await seedApprovedPayRun();
     const sendSpy = vi
-      .spyOn(storageClient as unknown as { send: () => Promise<unknown> }, "send")
+      .spyOn(storageClient as unknown as { send: (command: unknown) => Promise<unknown> }, "send")
       .mockResolvedValueOnce({});
 
     const pack = await generatePack(
@@ -193,7 +203,14 @@ describe("pack generation and locking", () => {
     );
 
     expect(pack.packVersion).toBe(1);
-    expect(sendSpy).toHaveBeenCalledTimes(1);
+    const uploadedKeys = sendSpy.mock.calls
+      .map(([command]) => command)
+      .filter((command): command is PutObjectCommand => command instanceof PutObjectCommand)
+      .map((command) => command.input.Key);
+    expect(uploadedKeys).toEqual([
+      `firm/${firm.id}/pay-run/${payRun.id}/pack/pack-v1.pdf`,
+      `firm/${firm.id}/pay-run/${payRun.id}/pack/pack-v1-evidence.zip`
+    ]);
 
     const updatedPayRun = await prisma.payRun.findFirst({
       where: { id: payRun.id }
@@ -206,6 +223,137 @@ describe("pack generation and locking", () => {
     expect(event).not.toBeNull();
   });
 
+  it("stores an evidence bundle with source files, run data and a hash manifest", async () => {
+    const { firm, user, payRun } = await seedApprovedPayRun();
+    const sendSpy = vi.spyOn(
+      storageClient as unknown as { send: (command: unknown) => Promise<unknown> },
+      "send"
+    );
+
+    const pack = await generatePack(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      payRun.id
+    );
+
+    const bundleUpload = sendSpy.mock.calls
+      .map(([command]) => command)
+      .find(
+        (command): command is PutObjectCommand =>
+          command instanceof PutObjectCommand &&
+          String(command.input.Key).endsWith("pack-v1-evidence.zip")
+      );
+    const archive = bundleUpload?.input.Body as Buffer;
+    expect(pack.storageUriBundle).toMatch(/pack-v1-evidence\.zip$/);
+    expect(pack.metadata).toMatchObject({
+      bundle: { fileHashSha256: await sha256Hex(archive), sizeBytes: archive.length }
+    });
+
+    const entries = readZipEntries(archive);
+    const manifest = JSON.parse(entries.get("manifest.json")!.toString("utf8")) as {
+      packVersion: number;
+      files: Array<{ path: string; sha256: string; recordedSha256?: string }>;
+    };
+    expect(manifest.packVersion).toBe(1);
+    expect(manifest.files.map((file) => file.path)).toEqual(
+      expect.arrayContaining([
+        "pack/pack-v1.pdf",
+        "sources/REGISTER-v1-register.csv",
+        "sources/BANK-v1-bank.csv",
+        "data/reconciliation-run.json",
+        "data/check-results.json",
+        "data/exceptions.json",
+        "audit/audit-trail.csv"
+      ])
+    );
+    for (const file of manifest.files) {
+      expect(await sha256Hex(entries.get(file.path)!)).toBe(file.sha256);
+    }
+    expect(
+      manifest.files.find((file) => file.path === "sources/REGISTER-v1-register.csv")
+    ).toMatchObject({ recordedSha256: "hash-register" });
+    expect(
+      manifest.files.find((file) => file.path === "pack/pack-v1.pdf")
+    ).toMatchObject({ sha256: pack.fileHashSha256 });
+
+    const checks = JSON.parse(entries.get("data/check-results.json")!.toString("utf8"));
+    expect(checks[0]).toMatchObject({ checkType: "CHK_REGISTER_NET_TO_BANK_TOTAL" });
+    const auditTrail = entries.get("audit/audit-trail.csv")!.toString("utf8");
+    expect(auditTrail.split("\n")[0]).toBe(
+      "timestamp,action,entity_type,entity_id,actor_email,metadata"
+    );
+  });
+
+  it("signs packs and verifies the PDF and bundle by hash once locked", async () => {
+    const { firm, user, reviewer, payRun } = await seedApprovedPayRun();
+    const sendSpy = vi.spyOn(
+      storageClient as unknown as { send: (command: unknown) => Promise<unknown> },
+      "send"
+    );
+
+    const pack = await generatePack(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      payRun.id
+    );
+
+    const key = await prisma.firmSigningKey.findFirstOrThrow({ where: { firmId: firm.id } });
+    expect(pack.signingKeyId).toBe(key.id);
+    expect(
+      verifyManifestSignature(pack.signedManifest!, pack.signature!, key.publicKeyPem)
+    ).toBe(true);
+    expect(JSON.parse(pack.signedManifest!)).toMatchObject({
+      packId: pack.id,
+      pdfSha256: pack.fileHashSha256,
+      keyFingerprint: key.fingerprint
+    });
+
+    const bundleUpload = sendSpy.mock.calls
+      .map(([command]) => command)
+      .find(
+        (command): command is PutObjectCommand =>
+          command instanceof PutObjectCommand &&
+          String(command.input.Key).endsWith("-evidence.zip")
+      );
+    const entries = readZipEntries(bundleUpload?.input.Body as Buffer);
+    expect(entries.get("signature/signed-manifest.json")?.toString("utf8")).toBe(
+      pack.signedManifest
+    );
+    expect(JSON.parse(pack.signedManifest!).bundleManifestSha256).toBe(
+      await sha256Hex(entries.get("manifest.json")!)
+    );
+
+    expect(await verifyPackByHash(pack.fileHashSha256!)).toMatchObject({
+      status: "MATCHED",
+      artifact: "pdf",
+      signature: "VALID",
+      locked: false
+    });
+
+    await lockPack(
+      { firmId: firm.id, userId: reviewer.id, role: reviewer.role },
+      payRun.id
+    );
+    expect(await verifyPackByHash(pack.bundleHashSha256!.toUpperCase())).toMatchObject({
+      status: "MATCHED",
+      artifact: "bundle",
+      signature: "VALID",
+      locked: true,
+      revision: payRun.revision,
+      periodLabel: payRun.periodLabel
+    });
+    expect(await verifyPackByHash("0".repeat(64))).toEqual({ status: "NOT_FOUND" });
+    expect(
+      await prisma.auditEvent.count({ where: { action: "PACK_VERIFIED", entityId: pack.id } })
+    ).toBe(1);
+
+    await prisma.pack.update({
+      where: { id: pack.id },
+      data: { signedManifest: pack.signedManifest!.replace(pack.id, randomUUID()) }
+    });
+    expect(await verifyPackByHash(pack.fileHashSha256!)).toMatchObject({
+      signature: "INVALID"
+    });
+  });
+
   it("applies redaction settings to pack content", async () => {
     const { firm, user, payRun } = await seedApprovedPayRun();
     await prisma.firm.update({
@@ -290,7 +438,91 @@ describe("pack generation and locking", () => {
     const command = sendSpy.mock.calls[0]?.[0] as { input?: { Body?: Buffer } };
     const pdfBody = command.input?.Body as Buffer;
     const pdfText = pdfBody.toString("utf8");
-    expect(pdfText).toContain("note: Bank batch split.");
+    expect(pdfText).toContain("Note: Bank batch split.");
+  });
+
+  it("includes exception comment threads in pack output", async () => {
+    const { firm, user, payRun } = await seedApprovedPayRun();
+    const exception = await prisma.exception.findFirst({
+      where: { firmId: firm.id, payRunId: payRun.id }
+    });
+    expect(exception).not.toBeNull();
+    const comment = await prisma.exceptionComment.create({
+      data: {
+        firmId: firm.id,
+        exceptionId: exception!.id,
+        authorUserId: user.id,
+        body: "Second batch is in the next file."
+      }
+    });
+    await prisma.exceptionComment.create({
+      data: {
+        firmId: firm.id,
+        exceptionId: exception!.id,
+        parentCommentId: comment.id,
+        authorUserId: user.id,
+        body: "Agreed."
+      }
+    });
+
+    const sendSpy = vi
+      .spyOn(
+        storageClient as unknown as {
+          send: (command: { input?: { Body?: unknown } }) => Promise<unknown>;
+        },
+        "send"
+      )
+      .mockResolvedValueOnce({});
+
+    await generatePack(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      payRun.id
+    );
+
+    const command = sendSpy.mock.calls[0]?.[0] as { input?: { Body?: Buffer } };
+    const pdfText = (command.input?.Body as Buffer).toString("utf8");
+    expect(pdfText).toContain(`${user.email}: Second batch is in the next file.`);
+    expect(pdfText).toContain(`${user.email}: Agreed.`);
+  });
+
+  it("lists exception attachments with their hashes in pack output", async () => {
+    const { firm, user, payRun } = await seedApprovedPayRun();
+    const exception = await prisma.exception.findFirst({
+      where: { firmId: firm.id, payRunId: payRun.id }
+    });
+    expect(exception).not.toBeNull();
+    const fileHashSha256 = "b".repeat(64);
+    await prisma.exceptionAttachment.create({
+      data: {
+        firmId: firm.id,
+        exceptionId: exception!.id,
+        storageUri: "s3://bucket/remittance.pdf",
+        fileHashSha256,
+        originalFilename: "remittance.pdf",
+        mimeType: "application/pdf",
+        sizeBytes: 2048,
+        uploadedByUserId: user.id
+      }
+    });
+
+    const sendSpy = vi
+      .spyOn(
+        storageClient as unknown as {
+          send: (command: { input?: { Body?: unknown } }) => Promise<unknown>;
+        },
+        "send"
+      )
+      .mockResolvedValueOnce({});
+
+    await generatePack(
+      { firmId: firm.id, userId: user.id, role: user.role },
+      payRun.id
+    );
+
+    const command = sendSpy.mock.calls[0]?.[0] as { input?: { Body?: Buffer } };
+    const pdfText = (command.input?.Body as Buffer).toString("utf8");
+    expect(pdfText).toContain("Attachment remittance.pdf \\(2048 bytes\\)");
+    expect(pdfText).toContain(`SHA-256 ${fileHashSha256}`);
   });
 
   it("generates packs when input summaries are missing", async () => {
@@ -562,7 +794,8 @@ describe("pack generation and locking", () => {
     );
 
     const pdfText = capturedBody ? Buffer.from(capturedBody).toString("utf8") : "";
-    expect(pdfText).toContain("- CHK_REGISTER_NET_TO_BANK_TOTAL PASS INFO");
+    expect(pdfText).toContain("CHK_REGISTER_NET_TO_BANK_TOTAL");
+    expect(pdfText).toContain("Register net total vs Bank total");
     expect(pdfText).not.toContain("delta");
   });
 
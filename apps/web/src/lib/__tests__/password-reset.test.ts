@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { verifyPassword } from "@/lib/auth";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import {
+  completePasswordReset,
+  findPasswordReset,
+  issuePasswordReset
+} from "@/lib/password-reset";
+import { createUserSession, defaultSessionTimeouts, validateUserSession } from "@/lib/user-sessions";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+describe("password reset", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("sets a new password once and signs the user out everywhere", async () => {
+    const { firm, user: admin } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: admin.id };
+    const user = await prisma.user.create({
+      data: { firmId: firm.id, email: "preparer@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+    const { token: sessionToken } = await createUserSession(user);
+
+    const first = await issuePasswordReset(context, user.id);
+    const { token } = await issuePasswordReset(context, user.id);
+    expect(await findPasswordReset(first.token)).toBeNull();
+    expect((await findPasswordReset(token))?.user.email).toBe("preparer@example.com");
+
+    await expect(completePasswordReset(token, "short")).rejects.toBeInstanceOf(ValidationError);
+    await completePasswordReset(token, "a much longer password");
+
+    const updated = await prisma.user.findUniqueOrThrow({ where: { id: user.id } });
+    expect(await verifyPassword("a much longer password", updated.passwordHash)).toBe(true);
+    expect(await validateUserSession(sessionToken, user.id, defaultSessionTimeouts)).toBeNull();
+    await expect(completePasswordReset(token, "another long password")).rejects.toThrow(
+      "invalid or has expired"
+    );
+
+    const actions = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, entityId: user.id },
+      orderBy: { sequence: "asc" }
+    });
+    expect(actions.map((event) => event.action)).toEqual([
+      "PASSWORD_RESET_ISSUED",
+      "PASSWORD_RESET_ISSUED",
+      "SESSION_REVOKED",
+      "PASSWORD_RESET_COMPLETED"
+    ]);
+  });
+
+  it("rejects expired links, other firms, and SSO-only firms", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const other = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id };
+
+    await expect(issuePasswordReset(context, other.user.id)).rejects.toBeInstanceOf(NotFoundError);
+
+    const { token } = await issuePasswordReset(context, user.id);
+    await prisma.passwordReset.updateMany({ data: { expiresAt: new Date(Date.now() - 1000) } });
+    await expect(completePasswordReset(token, "a much longer password")).rejects.toBeInstanceOf(
+      ValidationError
+    );
+
+    await prisma.firmSsoConfig.create({
+      data: {
+        firmId: firm.id,
+        enabled: true,
+        issuer: "http://localhost:8080/default",
+        clientId: "tally",
+        clientSecretEncrypted: "sealed",
+        allowedDomains: ["example.com"],
+        passwordLoginDisabled: true
+      }
+    });
+    await expect(issuePasswordReset(context, user.id)).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -48,4 +48,13 @@ describe("pay run state machine", () => {
     const transitions = getAllowedTransitions("READY_FOR_REVIEW", "REVIEWER");
     expect(transitions).toEqual(["APPROVED", "RECONCILED"]);
   });
+
+  it("drives transitions from a custom permission set", () => {
+    const lockOnly = { role: "PREPARER" as const, permissions: ["pack:lock" as const] };
+    expect(canTransitionPayRun("PACKED", "LOCKED", lockOnly)).toBe(true);
+    expect(canTransitionPayRun("DRAFT", "IMPORTED", lockOnly)).toBe(false);
+    expect(() =>
+      assertPayRunTransition("READY_FOR_REVIEW", "APPROVED", lockOnly)
+    ).toThrow(ValidationError);
+  });
 });
@@ -1,5 +1,11 @@
 import { describe, expect, it } from "vitest";
-import { can, PermissionError, requirePermission } from "@/lib/permissions";
+import {
+  can,
+  getRolePermissions,
+  PermissionError,
+  requirePermission,
+  resolveUserPermissions
+} from "@/lib/permissions";
 
 describe("permissions", () => {
   it("allows admins to invite users", () => {
@@ -36,3 +42,34 @@ describe("permissions", () => {
     expect(can("PREPARER", "reconciliation:run")).toBe(true);
   });
 });
+
+describe("custom role permissions", () => {
+  it("uses an explicit permission set in place of the built-in role", () => {
+    const subject = { role: "PREPARER" as const, permissions: ["pay-run:approve" as const] };
+    expect(can(subject, "pay-run:approve")).toBe(true);
+    expect(can(subject, "pay-run:create")).toBe(false);
+  });
+
+  it("falls back to role defaults when no permissions are given", () => {
+    expect(can({ role: "REVIEWER", permissions: null }, "pack:lock")).toBe(true);
+    expect(can({ role: "PREPARER" }, "pack:lock")).toBe(false);
+  });
+
+  it("resolves firm role permissions and ignores unknown keys", () => {
+    expect(
+      resolveUserPermissions({
+        role: "REVIEWER",
+        firmRole: { permissions: ["audit:view", "legacy:unknown"] }
+      })
+    ).toEqual(["audit:view"]);
+    expect(resolveUserPermissions({ role: "ADMIN", firmRole: null })).toEqual(
+      getRolePermissions("ADMIN")
+    );
+  });
+
+  it("keeps approval and override with reviewers by default", () => {
+    expect(can("REVIEWER", "exception:override")).toBe(true);
+    expect(can("PREPARER", "exception:override")).toBe(false);
+    expect(can("PREPARER", "tolerance:manage")).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  encodeQrCode,
+  formatInformationBits,
+  reedSolomonRemainder,
+  renderQrCodeSvg
+} from "@/lib/qr-code";
+
+const readFormatBits = (qr: ReturnType<typeof encodeQrCode>) => {
+  let bits = 0;
+  const positions: Array<[number, number]> = [
+    [8, 0],
+    [8, 1],
+    [8, 2],
+    [8, 3],
+    [8, 4],
+    [8, 5],
+    [8, 7],
+    [8, 8],
+    [7, 8],
+    [5, 8],
+    [4, 8],
+    [3, 8],
+    [2, 8],
+    [1, 8],
+    [0, 8]
+  ];
+  positions.forEach(([x, y], index) => {
+    if (qr.isDark(x, y)) {
+      bits |= 1 << index;
+    }
+  });
+  return bits;
+};
+
+describe("qr code", () => {
+  it("computes Reed-Solomon error correction codewords", () => {
+    // The version 1-M "HELLO WORLD" example from the specification tutorials.
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([
+      196, 35, 39, 119, 235, 215, 231, 226, 93, 23
+    ]);
+  });
+
+  it("encodes format information for level M", () => {
+    expect(formatInformationBits(0).toString(2).padStart(15, "0")).toBe("101010000010010");
+    expect(formatInformationBits(5).toString(2).padStart(15, "0")).toBe("100000011001110");
+  });
+
+  it("picks the smallest version that fits and draws function patterns", () => {
+    expect(encodeQrCode("hello").size).toBe(21);
+    const uri =
+      "otpauth://totp/Tally:someone%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Tally";
+    const qr = encodeQrCode(uri);
+    expect(qr.size).toBe(41);
+
+    for (const [cx, cy] of [
+      [3, 3],
+      [qr.size - 4, 3],
+      [3, qr.size - 4]
+    ] as const) {
+      expect(qr.isDark(cx, cy)).toBe(true);
+      expect(qr.isDark(cx + 2, cy)).toBe(false);
+      expect(qr.isDark(cx + 3, cy)).toBe(true);
+    }
+    expect(qr.isDark(8, qr.size - 8)).toBe(true);
+
+    const format = readFormatBits(qr);
+    const mask = [0, 1, 2, 3, 4, 5, 6, 7].find((candidate) => formatInformationBits(candidate) === format);
+    expect(mask).toBeDefined();
+  });
+
+  it("rejects text beyond the supported versions", () => {
+    expect(encodeQrCode("x".repeat(412)).size).toBe(77);
+    expect(() => encodeQrCode("x".repeat(413))).toThrow("Text is too long for a QR code.");
+  });
+
+  it("renders an SVG with a quiet zone", () => {
+    const svg = renderQrCodeSvg("hello");
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain("M4,4h1v1h-1z");
+  });
+});
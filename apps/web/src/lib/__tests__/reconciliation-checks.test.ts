@@ -1,12 +1,20 @@
 import { describe, expect, it } from "vitest";
 import {
   evaluateBankDuplicatePayments,
+  evaluateBankFileControlTotals,
   evaluateBankNegativePayments,
   evaluateBankPaymentCountMismatch,
+  evaluateEmployeeDeductionsToStatutory,
+  evaluateEmployeeNetToBankLines,
   evaluateJournalDebitsEqualCredits,
+  evaluatePeriodEmployeeNetVariance,
+  evaluatePeriodHeadcountVariance,
+  evaluatePeriodTotalVariance,
   evaluateRegisterDeductionsToStatutoryTotals,
   evaluateRegisterNetToBankTotal,
-  evaluateRegisterPensionToScheduleTotal
+  evaluateRegisterPensionToScheduleTotal,
+  evaluateRegisterToJournalGroupedTotals,
+  listEvaluationExceptions
 } from "@/lib/reconciliation-checks";
 
 describe("reconciliation checks", () => {
@@ -186,6 +194,73 @@ describe("reconciliation checks", () => {
     expect(result.exception).toBeNull();
   });
 
+  it("compares each employee's deductions with the statutory filing by PPSN", () => {
+    const employee = (
+      employeeRef: string,
+      byCategory: Record<string, [rowNumber: number, amountCents: number]>
+    ) => ({
+      employeeKey: employeeRef.toLowerCase(),
+      employeeRef,
+      byCategory: Object.fromEntries(
+        Object.entries(byCategory).map(([category, [rowNumber, amountCents]]) => [
+          category,
+          { totalCents: amountCents, rows: [{ rowNumber, amountCents }] }
+        ])
+      )
+    });
+    const evaluate = (statutoryEmployees: ReturnType<typeof employee>[]) =>
+      evaluateEmployeeDeductionsToStatutory({
+        registerEmployees: [
+          employee("1234567T", { TAX_PRIMARY: [2, 52_000], TAX_SECONDARY: [2, 16_000] }),
+          employee("7654321W", { TAX_PRIMARY: [3, 30_000], TAX_SECONDARY: [3, 9_000] })
+        ],
+        statutoryEmployees,
+        categories: ["TAX_PRIMARY", "TAX_SECONDARY"],
+        registerImportId: "reg-1",
+        statutoryImportId: "stat-1",
+        tolerance: { absoluteCents: 100, percent: 0 },
+        categoryLabels: { TAX_PRIMARY: "PAYE / USC", TAX_SECONDARY: "PRSI" }
+      });
+
+    const matched = evaluate([
+      employee("1234567T", { TAX_PRIMARY: [2, 52_050], TAX_SECONDARY: [4, 16_000] }),
+      employee("7654321W", { TAX_PRIMARY: [6, 30_000], TAX_SECONDARY: [8, 9_000] })
+    ]);
+    expect(matched.status).toBe("PASS");
+    expect(matched.exception).toBeNull();
+
+    const mismatched = evaluate([
+      employee("1234567T", { TAX_PRIMARY: [2, 50_000], TAX_SECONDARY: [4, 16_000] }),
+      employee("9999999X", { TAX_PRIMARY: [10, 12_000] })
+    ]);
+    expect(mismatched.status).toBe("FAIL");
+    expect(mismatched.details.leftValue).toBe(3);
+    expect(mismatched.details.rightValue).toBe(0);
+    expect(mismatched.details.employeeBreakdown).toEqual([
+      {
+        employee: "1234567T",
+        category: "PAYE / USC",
+        registerTotal: 520,
+        statutoryTotal: 500,
+        delta: 20
+      },
+      expect.objectContaining({ employee: "7654321W", category: "PAYE / USC", delta: 300 }),
+      expect.objectContaining({ employee: "7654321W", category: "PRSI", delta: 90 }),
+      expect.objectContaining({ employee: "9999999X", statutoryTotal: 120, delta: -120 })
+    ]);
+    expect(mismatched.exception).toMatchObject({
+      category: "STATUTORY_MISMATCH",
+      evidence: [
+        { importId: "reg-1", rowNumbers: [2, 3] },
+        { importId: "stat-1", rowNumbers: [2, 10] }
+      ]
+    });
+
+    const unmatched = evaluate([employee("AB123456C", { TAX_PRIMARY: [2, 41_260] })]);
+    expect(unmatched.status).toBe("WARN");
+    expect(unmatched.exception).toBeUndefined();
+  });
+
   it("warns when pension schedule is missing", () => {
     const result = evaluateRegisterPensionToScheduleTotal({
       registerTotal: { totalCents: 5000, rows: [] },
@@ -255,6 +330,36 @@ describe("reconciliation checks", () => {
     expect(negativeResult.status).toBe("FAIL");
   });
 
+  it("fails when a bank file's control totals disagree with its transactions", () => {
+    const result = evaluateBankFileControlTotals({
+      fileTotals: { declaredSumCents: 300_000, transactionSumCents: 250_000 },
+      mismatches: [
+        {
+          scope: "Group header",
+          declaredCount: 3,
+          declaredSumCents: 300_000,
+          transactionCount: 2,
+          transactionSumCents: 250_000,
+          rows: [
+            { rowNumber: 2, amountCents: 100_000 },
+            { rowNumber: 3, amountCents: 150_000 }
+          ]
+        }
+      ],
+      bankImportId: "bank-sepa"
+    });
+
+    expect(result.status).toBe("FAIL");
+    expect(result.details.deltaValue).toBe(500);
+    expect(result.exception).toMatchObject({
+      category: "BANK_DATA_QUALITY",
+      description:
+        "Group header declares 3 transactions and a control sum of 3000.00, but holds 2 " +
+        "transactions totalling 2500.00.",
+      evidence: [{ importId: "bank-sepa", rowNumbers: [3, 2], note: "Group header" }]
+    });
+  });
+
   it("warns when bank payment counts diverge", () => {
     const result = evaluateBankPaymentCountMismatch({
       registerCount: 100,
@@ -264,4 +369,308 @@ describe("reconciliation checks", () => {
 
     expect(result.status).toBe("WARN");
   });
+
+  it("passes line matching when every employee has one bank line", () => {
+    const result = evaluateEmployeeNetToBankLines({
+      matching: {
+        matches: [
+          {
+            registerRowNumber: 1,
+            bankRowNumber: 1,
+            amountCents: 1000,
+            method: "KEY",
+            similarity: 1
+          }
+        ],
+        unmatchedEmployees: [],
+        unmatchedBankLines: [],
+        splitPayments: []
+      },
+      registerImportId: "reg-lines",
+      bankImportId: "bank-lines"
+    });
+
+    expect(result.status).toBe("PASS");
+    expect(result.details.lineMatching?.matchedByKey).toBe(1);
+    expect(listEvaluationExceptions(result)).toHaveLength(0);
+  });
+
+  it("raises one exception per line matching problem with evidence on both imports", () => {
+    const result = evaluateEmployeeNetToBankLines({
+      matching: {
+        matches: [],
+        unmatchedEmployees: [
+          { rowNumber: 2, amountCents: 1000, reason: "AMOUNT_MISMATCH", bankRowNumber: 4 }
+        ],
+        unmatchedBankLines: [{ rowNumber: 5, amountCents: 700 }],
+        splitPayments: [
+          {
+            registerRowNumber: 3,
+            amountCents: 2000,
+            bankRowNumbers: [6, 7],
+            bankTotalCents: 2000,
+            withinTolerance: true
+          }
+        ]
+      },
+      registerImportId: "reg-lines",
+      bankImportId: "bank-lines"
+    });
+
+    const exceptions = listEvaluationExceptions(result);
+    expect(result.status).toBe("FAIL");
+    expect(exceptions.map((entry) => entry.title)).toEqual([
+      "Register employees without a matching bank line",
+      "Bank lines without a matching register employee",
+      "Split bank payments need review"
+    ]);
+    expect(exceptions[0]?.evidence?.map((entry) => entry.importId)).toEqual([
+      "reg-lines",
+      "bank-lines"
+    ]);
+    expect(exceptions[2]?.severity).toBe("LOW");
+    expect(exceptions[2]?.evidence?.[1]?.rowNumbers).toEqual([6, 7]);
+  });
+
+  it("warns when only balanced split payments remain", () => {
+    const result = evaluateEmployeeNetToBankLines({
+      matching: {
+        matches: [],
+        unmatchedEmployees: [],
+        unmatchedBankLines: [],
+        splitPayments: [
+          {
+            registerRowNumber: 1,
+            amountCents: 2000,
+            bankRowNumbers: [1, 2],
+            bankTotalCents: 2000,
+            withinTolerance: true
+          }
+        ]
+      },
+      registerImportId: "reg-lines",
+      bankImportId: "bank-lines"
+    });
+
+    expect(result.status).toBe("WARN");
+    expect(result.exception?.category).toBe("BANK_MISMATCH");
+  });
+
+  it("names the departments that drift from the journal", () => {
+    const result = evaluateRegisterToJournalGroupedTotals({
+      checkType: "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE_BY_GROUP",
+      registerGroups: {
+        warehouse: {
+          label: "Warehouse",
+          totalCents: 500000,
+          rows: [{ rowNumber: 2, amountCents: 500000 }]
+        },
+        office: {
+          label: "Office",
+          totalCents: 300000,
+          rows: [{ rowNumber: 3, amountCents: 300000 }]
+        }
+      },
+      journalGroups: {
+        warehouse: {
+          label: "WAREHOUSE",
+          totalCents: 300000,
+          rows: [{ rowNumber: 4, amountCents: 300000 }]
+        },
+        office: {
+          label: "Office",
+          totalCents: 300000,
+          rows: [{ rowNumber: 5, amountCents: 300000 }]
+        }
+      },
+      registerImportId: "reg-groups",
+      journalImportId: "gl-groups",
+      tolerance: { absoluteCents: 100, percent: 0 },
+      leftLabel: "Register gross by department",
+      rightLabel: "Journal payroll expense by cost centre"
+    });
+
+    expect(result.status).toBe("FAIL");
+    expect(result.details.deltaValue).toBe(2000);
+    expect(result.details.groupBreakdown).toEqual([
+      {
+        group: "Office",
+        registerTotal: 3000,
+        journalTotal: 3000,
+        delta: 0,
+        withinTolerance: true
+      },
+      {
+        group: "Warehouse",
+        registerTotal: 5000,
+        journalTotal: 3000,
+        delta: 2000,
+        withinTolerance: false
+      }
+    ]);
+    expect(result.exception?.description).toBe(
+      "Drifting departments: Warehouse (2000.00)."
+    );
+    expect(result.evidence).toEqual([
+      { importId: "reg-groups", rowNumbers: [2], note: "Warehouse: register rows" },
+      { importId: "gl-groups", rowNumbers: [4], note: "Warehouse: journal rows" }
+    ]);
+  });
+
+  it("passes grouped totals and reports groups only present in the journal", () => {
+    const passing = evaluateRegisterToJournalGroupedTotals({
+      checkType: "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY_BY_GROUP",
+      registerGroups: {
+        office: { label: "Office", totalCents: 1000, rows: [] }
+      },
+      journalGroups: {
+        office: { label: "Office", totalCents: 1000, rows: [] }
+      },
+      registerImportId: "reg-groups",
+      journalImportId: "gl-groups",
+      tolerance: { absoluteCents: 0, percent: 0 },
+      leftLabel: "Register net pay by department",
+      rightLabel: "Journal net wages liability by cost centre"
+    });
+    expect(passing.status).toBe("PASS");
+    expect(passing.exception).toBeNull();
+
+    const journalOnly = evaluateRegisterToJournalGroupedTotals({
+      checkType: "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY_BY_GROUP",
+      registerGroups: {},
+      journalGroups: {
+        unassigned: {
+          label: "Unassigned",
+          totalCents: 1000,
+          rows: [{ rowNumber: 9, amountCents: 1000 }]
+        }
+      },
+      registerImportId: "reg-groups",
+      journalImportId: "gl-groups",
+      tolerance: { absoluteCents: 0, percent: 0 },
+      leftLabel: "Register net pay by department",
+      rightLabel: "Journal net wages liability by cost centre"
+    });
+    expect(journalOnly.exception?.description).toContain("Unassigned (-10.00)");
+    expect(journalOnly.evidence).toHaveLength(1);
+  });
+
+  it("skips grouped totals when inputs are missing", () => {
+    const result = evaluateRegisterToJournalGroupedTotals({
+      checkType: "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE_BY_GROUP",
+      registerGroups: {},
+      journalGroups: {},
+      registerImportId: "reg-groups",
+      journalImportId: "gl-groups",
+      tolerance: { absoluteCents: 0, percent: 0 },
+      leftLabel: "Register gross by department",
+      rightLabel: "Journal payroll expense by cost centre",
+      missingReason: "Register gross pay is not mapped."
+    });
+
+    expect(result.status).toBe("WARN");
+    expect(result.summary).toBe("Register gross pay is not mapped.");
+  });
+
+  it("warns when period totals swing beyond the variance band", () => {
+    const prior = { payRunId: "prior-run", periodLabel: "2026-02", registerImportId: "reg-prior" };
+    const result = evaluatePeriodTotalVariance({
+      metrics: [
+        {
+          label: "Net pay",
+          current: { totalCents: 1200000, rows: [{ rowNumber: 2, amountCents: 1200000 }] },
+          prior: { totalCents: 1000000, rows: [{ rowNumber: 3, amountCents: 1000000 }] }
+        },
+        {
+          label: "Gross pay",
+          current: { totalCents: 1500000, rows: [] },
+          prior: { totalCents: 1490000, rows: [] }
+        }
+      ],
+      prior,
+      registerImportId: "reg-current",
+      tolerance: { absoluteCents: 100000, percent: 10 }
+    });
+
+    expect(result.status).toBe("WARN");
+    expect(result.exception?.category).toBe("SANITY");
+    expect(result.exception?.description).toBe(
+      "Net pay (+20.0%) moved beyond the variance band vs 2026-02."
+    );
+    expect(result.details.periodComparison?.metrics?.[1]?.withinTolerance).toBe(true);
+    expect(result.evidence?.map((entry) => entry.importId)).toEqual([
+      "reg-current",
+      "reg-prior"
+    ]);
+
+    const steady = evaluatePeriodTotalVariance({
+      metrics: [
+        {
+          label: "Net pay",
+          current: { totalCents: 1000000, rows: [] },
+          prior: { totalCents: 1000000, rows: [] }
+        }
+      ],
+      prior,
+      registerImportId: "reg-current",
+      tolerance: { absoluteCents: 100000, percent: 10 }
+    });
+    expect(steady.status).toBe("PASS");
+    expect(steady.exception).toBeNull();
+  });
+
+  it("warns when headcount changes beyond the variance band", () => {
+    const prior = { payRunId: "prior-run", periodLabel: "2026-02", registerImportId: "reg-prior" };
+    const result = evaluatePeriodHeadcountVariance({
+      currentCount: 12,
+      priorCount: 10,
+      prior,
+      tolerancePercent: 10
+    });
+    expect(result.status).toBe("WARN");
+    expect(result.summary).toBe("Headcount changed from 10 to 12 since 2026-02.");
+
+    const steady = evaluatePeriodHeadcountVariance({
+      currentCount: 10,
+      priorCount: 10,
+      prior,
+      tolerancePercent: 10
+    });
+    expect(steady.status).toBe("PASS");
+  });
+
+  it("flags per-employee net pay swings and counts joiners and leavers", () => {
+    const result = evaluatePeriodEmployeeNetVariance({
+      currentEmployees: [
+        { rowNumber: 2, employeeId: "E1", employeeName: "", amountCents: 300000 },
+        { rowNumber: 3, employeeId: "E2", employeeName: "", amountCents: 200000 },
+        { rowNumber: 4, employeeId: "E4", employeeName: "", amountCents: 100000 }
+      ],
+      priorEmployees: [
+        { rowNumber: 5, employeeId: "e1", employeeName: "", amountCents: 200000 },
+        { rowNumber: 6, employeeId: "E2", employeeName: "", amountCents: 201000 },
+        { rowNumber: 7, employeeId: "E3", employeeName: "", amountCents: 150000 }
+      ],
+      prior: { payRunId: "prior-run", periodLabel: "2026-02", registerImportId: "reg-prior" },
+      registerImportId: "reg-current",
+      tolerance: { absoluteCents: 10000, percent: 25 }
+    });
+
+    expect(result.status).toBe("WARN");
+    expect(result.details.periodComparison).toMatchObject({
+      joiners: 1,
+      leavers: 1,
+      employees: [
+        { employee: "E1", currentNet: 3000, priorNet: 2000, delta: 1000, deltaPercent: 50 }
+      ]
+    });
+    expect(result.evidence).toEqual([
+      {
+        importId: "reg-current",
+        rowNumbers: [2],
+        note: "Current register rows with net pay swings"
+      },
+      { importId: "reg-prior", rowNumbers: [5], note: "Prior register rows (2026-02)" }
+    ]);
+  });
 });
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { ImportParseError } from "@/lib/errors";
+import {
+  detectRevenuePayrollSubmission,
+  parseRevenuePayrollRows,
+  parseRevenuePayrollSubmission
+} from "@/lib/revenue-payroll-submissions";
+
+const submission = JSON.stringify({
+  payslips: [
+    {
+      lineItemID: "EMP001-2026-04",
+      employeeID: { employeePpsn: "1234567t", employmentID: "1" },
+      name: { firstName: "Aoife", familyName: "Murphy" },
+      payDate: "2026-04-24",
+      grossPay: 4200,
+      incomeTaxPaid: 520.4,
+      uscPaid: 118.25,
+      employeePRSIPaid: 168,
+      employerPRSIPaid: 464.1,
+      lptDeducted: 0
+    },
+    {
+      lineItemID: "EMP002-2026-04",
+      employeeID: { employeePpsn: "7654321W", employmentID: "1" },
+      name: { firstName: "Ciarán", familyName: "Walsh" },
+      payDate: "2026-04-24",
+      incomeTaxPaid: 300,
+      uscPaid: 60.5,
+      employeePRSIPaid: 90,
+      employerPRSIPaid: 248.6,
+      lptDeducted: 25
+    }
+  ]
+});
+
+const xmlSubmission = `<?xml version="1.0" encoding="UTF-8"?>
+<PayrollSubmissionRequest>
+  <Payslips>
+    <Payslip>
+      <EmployeeID><EmployeePPSN>1234567T</EmployeePPSN><EmploymentID>1</EmploymentID></EmployeeID>
+      <Name><FirstName>Aoife</FirstName><FamilyName>Murphy</FamilyName></Name>
+      <IncomeTaxPaid>520.40</IncomeTaxPaid>
+      <USCPaid>118.25</USCPaid>
+      <EmployeePRSIPaid>168.00</EmployeePRSIPaid>
+    </Payslip>
+  </Payslips>
+</PayrollSubmissionRequest>`;
+
+describe("revenue payroll submissions", () => {
+  it("recognises JSON and XML submissions", () => {
+    expect(detectRevenuePayrollSubmission(Buffer.from(submission))).toBe("JSON");
+    expect(detectRevenuePayrollSubmission(Buffer.from(xmlSubmission))).toBe("XML");
+    expect(detectRevenuePayrollSubmission(Buffer.from('{"rows":[]}'))).toBeNull();
+  });
+
+  it("reads each payslip into keyed entries with the employee's PPSN", () => {
+    const entries = parseRevenuePayrollSubmission(submission);
+
+    expect(
+      entries.map((entry) => [entry.category, entry.categoryKey, entry.amountCents])
+    ).toEqual([
+      ["Income tax", "TAX_PRIMARY", 52_040],
+      ["USC", "TAX_PRIMARY", 11_825],
+      ["Employee PRSI", "TAX_SECONDARY", 16_800],
+      ["Employer PRSI", null, 46_410],
+      ["Income tax", "TAX_PRIMARY", 30_000],
+      ["USC", "TAX_PRIMARY", 6_050],
+      ["Employee PRSI", "TAX_SECONDARY", 9_000],
+      ["Employer PRSI", null, 24_860],
+      ["Local Property Tax", "TAX_OTHER", 2_500]
+    ]);
+    expect(entries[0]).toEqual(
+      expect.objectContaining({
+        employee: "Aoife Murphy",
+        employeeRef: "1234567T",
+        payrollId: "1",
+        period: "2026-04-24"
+      })
+    );
+    expect(parseRevenuePayrollSubmission(xmlSubmission)).toHaveLength(3);
+  });
+
+  it("reads payslip export tables and skips their totals", () => {
+    const entries = parseRevenuePayrollRows([
+      ["PPSN", "Employee Name", "Income Tax", "USC", "Employee PRSI", "Employer PRSI", "LPT"],
+      ["1234567T", "Aoife Murphy", "520.40", "118.25", "168.00", "464.10", "-"],
+      ["Total", "", "520.40", "118.25", "168.00", "464.10", ""]
+    ]);
+
+    expect(entries).toHaveLength(4);
+    expect(entries?.[1]).toEqual(
+      expect.objectContaining({
+        category: "USC",
+        employee: "Aoife Murphy",
+        employeeRef: "1234567T",
+        amountCents: 11_825
+      })
+    );
+    expect(
+      parseRevenuePayrollRows([
+        ["Category", "Amount"],
+        ["PAYE", "520.40"]
+      ])
+    ).toBeNull();
+  });
+
+  it("rejects files without payslips and malformed amounts", () => {
+    expect(() => parseRevenuePayrollSubmission('{"payslips":[]}')).toThrow(
+      "Invalid Revenue payroll file. No payslips were found."
+    );
+    expect(() => parseRevenuePayrollSubmission('{"payslips":[')).toThrow(ImportParseError);
+    expect(() =>
+      parseRevenuePayrollSubmission(submission.replace("520.4", '"n/a"'))
+    ).toThrow('Payslip 1 Income tax "n/a" is not an amount.');
+  });
+});
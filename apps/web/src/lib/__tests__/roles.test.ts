@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { ConflictError, ValidationError } from "@/lib/errors";
+import {
+  assignUserRole,
+  createFirmRole,
+  deleteFirmRole,
+  listUsersWithPermission,
+  updateFirmRole
+} from "@/lib/roles";
+import { createUserSession, defaultSessionTimeouts, validateUserSession } from "@/lib/user-sessions";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+describe("firm roles", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("creates roles, assigns them, and resolves permissions from them", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id };
+    const reviewer = await prisma.user.create({
+      data: { firmId: firm.id, email: "lead@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+
+    const role = await createFirmRole(context, {
+      name: " Lead preparer ",
+      permissions: ["pay-run:prepare", "pay-run:approve", "unknown:permission"]
+    });
+    expect(role.name).toBe("Lead preparer");
+    expect(role.permissions).toEqual(["pay-run:prepare", "pay-run:approve"]);
+
+    await expect(
+      createFirmRole(context, { name: "Lead preparer", permissions: ["audit:view"] })
+    ).rejects.toBeInstanceOf(ConflictError);
+
+    await assignUserRole(context, reviewer.id, { role: "PREPARER", firmRoleId: role.id });
+
+    const approvers = await listUsersWithPermission(firm.id, "pay-run:approve");
+    expect(approvers.map((approver) => approver.id).sort()).toEqual(
+      [user.id, reviewer.id].sort()
+    );
+
+    const events = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: { in: ["ROLE_CREATED", "USER_ROLE_CHANGED"] } }
+    });
+    expect(events).toHaveLength(2);
+  });
+
+  it("keeps at least one firm manager and blocks deleting assigned roles", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id };
+    const other = await prisma.user.create({
+      data: { firmId: firm.id, email: "other@example.com", role: "ADMIN", status: "ACTIVE" }
+    });
+    const otherContext = { firmId: firm.id, userId: other.id };
+
+    const role = await createFirmRole(context, {
+      name: "Owner",
+      permissions: ["firm:manage", "audit:view"]
+    });
+    await assignUserRole(otherContext, user.id, { role: "ADMIN", firmRoleId: role.id });
+    await assignUserRole(context, other.id, { role: "REVIEWER", firmRoleId: null });
+
+    await expect(
+      updateFirmRole(context, role.id, { name: "Owner", permissions: ["audit:view"] })
+    ).rejects.toBeInstanceOf(ValidationError);
+    await expect(deleteFirmRole(context, role.id)).rejects.toBeInstanceOf(ValidationError);
+
+    await assignUserRole(context, other.id, { role: "ADMIN", firmRoleId: null });
+    await assignUserRole(otherContext, user.id, { role: "ADMIN", firmRoleId: null });
+    await deleteFirmRole(context, role.id);
+    expect(await prisma.firmRole.count({ where: { firmId: firm.id } })).toBe(0);
+  });
+
+  it("refuses role changes that would escalate privileges", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const adminContext = { firmId: firm.id, userId: user.id };
+    const role = await createFirmRole(adminContext, {
+      name: "People lead",
+      permissions: ["user:role-change", "audit:view"]
+    });
+    const lead = await prisma.user.create({
+      data: {
+        firmId: firm.id,
+        email: "lead@example.com",
+        role: "PREPARER",
+        firmRoleId: role.id,
+        status: "ACTIVE"
+      }
+    });
+    const member = await prisma.user.create({
+      data: { firmId: firm.id, email: "member@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+    const leadContext = { firmId: firm.id, userId: lead.id };
+
+    await expect(
+      assignUserRole(adminContext, user.id, { role: "REVIEWER", firmRoleId: null })
+    ).rejects.toThrow("You cannot change your own role.");
+    await expect(
+      assignUserRole(leadContext, lead.id, { role: "ADMIN", firmRoleId: null })
+    ).rejects.toThrow("You cannot change your own role.");
+    await expect(
+      assignUserRole(leadContext, member.id, { role: "REVIEWER", firmRoleId: null })
+    ).rejects.toThrow("You cannot grant permissions you do not hold");
+    await expect(
+      assignUserRole(leadContext, user.id, { role: "PREPARER", firmRoleId: role.id })
+    ).rejects.toThrow("Only users with firm:manage can grant or remove ADMIN.");
+
+    await assignUserRole(leadContext, member.id, { role: "PREPARER", firmRoleId: role.id });
+    expect((await prisma.user.findUniqueOrThrow({ where: { id: member.id } })).firmRoleId).toBe(
+      role.id
+    );
+  });
+
+  it("signs users out when their role changes", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id };
+    const member = await prisma.user.create({
+      data: { firmId: firm.id, email: "member@example.com", role: "PREPARER", status: "ACTIVE" }
+    });
+
+    const { token, session } = await createUserSession(member);
+    await assignUserRole(context, member.id, { role: "REVIEWER", firmRoleId: null });
+    expect(await validateUserSession(token, member.id, defaultSessionTimeouts)).toBeNull();
+    expect(
+      (await prisma.userSession.findUniqueOrThrow({ where: { id: session.id } })).revokedReason
+    ).toBe("ROLE_CHANGED");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { ImportParseError } from "@/lib/errors";
+import { detectRtiSubmission, parseRtiSubmission } from "@/lib/rti-submissions";
+import { statutoryEntryRows, statutoryFileColumns } from "@/lib/statutory-files";
+
+const envelope = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<GovTalkMessage xmlns="http://www.govtalk.gov.uk/CM/envelope">
+  <EnvelopeVersion>2.0</EnvelopeVersion>
+  <Header><MessageDetails><Class>HMRC-PAYE-RTI-FPS</Class></MessageDetails></Header>
+  <Body>${body}</Body>
+</GovTalkMessage>`;
+
+const fps = envelope(`
+    <IRenvelope xmlns="http://www.govtalk.gov.uk/taxation/PAYE/RTI/FullPaymentSubmission/25-26/1">
+      <FullPaymentSubmission>
+        <RelatedTaxYear>25-26</RelatedTaxYear>
+        <Employee>
+          <EmployeeDetails>
+            <NINO>AB123456C</NINO>
+            <Name><Fore>Jane</Fore><Sur>Smith</Sur></Name>
+          </EmployeeDetails>
+          <Employment>
+            <PayId>E001</PayId>
+            <Payment>
+              <PayFreq>M1</PayFreq>
+              <MonthNo>1</MonthNo>
+              <TaxDeductedOrRefunded>412.60</TaxDeductedOrRefunded>
+              <EmpeePenContribnsPaid>125.00</EmpeePenContribnsPaid>
+              <StudentLoanRecovered PlanType="02">58.00</StudentLoanRecovered>
+            </Payment>
+            <NIlettersAndValues>
+              <NIletter>A</NIletter>
+              <TotalEmpNICInPd>420.15</TotalEmpNICInPd>
+              <EmpeeContribnsInPd>170.24</EmpeeContribnsInPd>
+            </NIlettersAndValues>
+          </Employment>
+        </Employee>
+        <Employee>
+          <EmployeeDetails><Name><Fore>Alex</Fore><Sur>Jones</Sur></Name></EmployeeDetails>
+          <Employment>
+            <PayId>E002</PayId>
+            <Payment>
+              <MonthNo>1</MonthNo>
+              <TaxDeductedOrRefunded>-20.00</TaxDeductedOrRefunded>
+            </Payment>
+          </Employment>
+        </Employee>
+      </FullPaymentSubmission>
+    </IRenvelope>`);
+
+const eps = envelope(`
+    <IRenvelope xmlns="http://www.govtalk.gov.uk/taxation/PAYE/RTI/EmployerPaymentSummary/25-26/1">
+      <EmployerPaymentSummary>
+        <RecoverableAmountsYTD>
+          <TaxMonth>3</TaxMonth>
+          <SMPRecovered>1840.50</SMPRecovered>
+          <NICCompensationOnSMP>55.22</NICCompensationOnSMP>
+        </RecoverableAmountsYTD>
+        <ApprenticeshipLevy>
+          <TaxMonth>3</TaxMonth>
+          <LevyDueYTD>310.00</LevyDueYTD>
+        </ApprenticeshipLevy>
+      </EmployerPaymentSummary>
+    </IRenvelope>`);
+
+describe("rti submissions", () => {
+  it("recognises FPS and EPS submissions", () => {
+    expect(detectRtiSubmission(Buffer.from(fps))).toBe("FPS");
+    expect(detectRtiSubmission(Buffer.from(eps))).toBe("EPS");
+    expect(detectRtiSubmission(Buffer.from("Category,Amount\nPAYE,10\n"))).toBeNull();
+  });
+
+  it("reads each employee's FPS payment into keyed statutory entries", () => {
+    const { kind, entries } = parseRtiSubmission(fps);
+
+    expect(kind).toBe("FPS");
+    expect(
+      entries.map((entry) => [entry.category, entry.categoryKey, entry.amountCents])
+    ).toEqual([
+      ["PAYE income tax", "TAX_PRIMARY", 41_260],
+      ["Employee NIC", "TAX_SECONDARY", 17_024],
+      ["Employer NIC", null, 42_015],
+      ["Employee pension contributions", "PENSION_EMPLOYEE", 12_500],
+      ["Student loan deductions", "OTHER_DEDUCTIONS", 5_800],
+      ["PAYE income tax", "TAX_PRIMARY", -2_000]
+    ]);
+    expect(statutoryEntryRows(entries).slice(0, 2)).toEqual([
+      statutoryFileColumns,
+      ["PAYE income tax", "TAX_PRIMARY", "412.60", "Jane Smith", "AB123456C", "E001", "Month 1"]
+    ]);
+  });
+
+  it("reads EPS recoveries and the Apprenticeship Levy year to date", () => {
+    const { kind, entries } = parseRtiSubmission(eps);
+
+    expect(kind).toBe("EPS");
+    expect(entries).toEqual([
+      expect.objectContaining({
+        category: "SMP recovered",
+        categoryKey: null,
+        amountCents: 184_050
+      }),
+      expect.objectContaining({ category: "NIC compensation on SMP", amountCents: 5_522 }),
+      expect.objectContaining({
+        category: "Apprenticeship Levy due",
+        categoryKey: null,
+        amountCents: 31_000,
+        period: "Month 3 (year to date)"
+      })
+    ]);
+  });
+
+  it("rejects other documents and malformed amounts", () => {
+    expect(() => parseRtiSubmission("<Document><Other/></Document>")).toThrow(
+      "Invalid RTI file. The document is not a Full Payment Submission or Employer Payment " +
+        "Summary."
+    );
+    expect(() => parseRtiSubmission(fps.replace("412.60", "four hundred"))).toThrow(
+      ImportParseError
+    );
+  });
+});
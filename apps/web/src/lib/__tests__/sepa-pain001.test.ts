@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { ImportParseError } from "@/lib/errors";
+import {
+  isSepaPain001,
+  parseSepaPain001,
+  readSepaControls,
+  sepaControlMismatches,
+  sepaPain001Columns,
+  sepaPain001Rows
+} from "@/lib/sepa-pain001";
+
+const transaction = (endToEndId: string, name: string, amount: string, iban: string) => `
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>${endToEndId}</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="EUR">${amount}</InstdAmt></Amt>
+        <CdtrAgt><FinInstnId><BICFI>AIBKIE2D</BICFI></FinInstnId></CdtrAgt>
+        <Cdtr><Nm>${name}</Nm></Cdtr>
+        <CdtrAcct><Id><IBAN>${iban}</IBAN></Id></CdtrAcct>
+        <RmtInf><Ustrd>Salary April</Ustrd></RmtInf>
+      </CdtTrfTxInf>`;
+
+const document = (options: { version?: string; nbOfTxs?: string; ctrlSum?: string } = {}) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.${options.version ?? "09"}">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>PAY-2026-04</MsgId>
+      <NbOfTxs>${options.nbOfTxs ?? "3"}</NbOfTxs>
+      <CtrlSum>${options.ctrlSum ?? "4350.50"}</CtrlSum>
+    </GrpHdr>
+    <PmtInf>
+      <PmtInfId>SALARIES</PmtInfId>
+      <NbOfTxs>2</NbOfTxs>
+      <CtrlSum>3100.50</CtrlSum>
+      <ReqdExctnDt><Dt>2026-04-24</Dt></ReqdExctnDt>
+      ${transaction("E2E-001", "Aoife O&apos;Brien", "1850.25", "IE29AIBK93115212345678")}
+      ${transaction("E2E-002", "Seán Murphy", "1250.25", "IE64IRCE92050112345678")}
+    </PmtInf>
+    <PmtInf>
+      <PmtInfId>EXPENSES</PmtInfId>
+      <ReqdExctnDt><Dt>2026-04-25</Dt></ReqdExctnDt>
+      ${transaction("E2E-003", "Niamh Kelly", "1250", "IE02BOFI90001710027952")}
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>`;
+
+describe("sepa pain.001", () => {
+  it("recognises pain.001.001.03 and .09 documents", () => {
+    expect(isSepaPain001(Buffer.from(document({ version: "03" })))).toBe(true);
+    expect(isSepaPain001(Buffer.from(document()))).toBe(true);
+    expect(isSepaPain001(Buffer.from(document().replace("pain.001", "pain.008")))).toBe(false);
+    expect(isSepaPain001(Buffer.from("EndToEndId,Amount\nE2E-001,10\n"))).toBe(false);
+  });
+
+  it("reads credit transfers with their control totals", () => {
+    const file = parseSepaPain001(document());
+
+    expect(file.messageId).toBe("PAY-2026-04");
+    expect(file.transactions[0]).toEqual({
+      paymentInformationId: "SALARIES",
+      endToEndId: "E2E-001",
+      creditorName: "Aoife O'Brien",
+      iban: "IE29AIBK93115212345678",
+      bic: "AIBKIE2D",
+      amountCents: 185_025,
+      currency: "EUR",
+      remittanceInformation: "Salary April",
+      requestedExecutionDate: "2026-04-24"
+    });
+    expect(file.controls).toEqual([
+      expect.objectContaining({
+        scope: "Group header",
+        declaredCount: 3,
+        declaredSumCents: 435_050,
+        transactionSumCents: 435_050,
+        firstRowNumber: 2,
+        lastRowNumber: 4
+      }),
+      expect.objectContaining({ scope: "Payment information SALARIES", lastRowNumber: 3 }),
+      expect.objectContaining({
+        scope: "Payment information EXPENSES",
+        declaredCount: null,
+        declaredSumCents: null,
+        firstRowNumber: 4
+      })
+    ]);
+    expect(sepaControlMismatches(file.controls)).toEqual([]);
+    expect(sepaPain001Rows(file)[0]).toEqual(sepaPain001Columns);
+    expect(sepaPain001Rows(file)[3]).toEqual([
+      "EXPENSES",
+      "E2E-003",
+      "Niamh Kelly",
+      "IE02BOFI90001710027952",
+      "AIBKIE2D",
+      "1250.00",
+      "EUR",
+      "Salary April",
+      "2026-04-25"
+    ]);
+  });
+
+  it("returns control totals that disagree instead of rejecting the file", () => {
+    const file = parseSepaPain001(document({ nbOfTxs: "4", ctrlSum: "5000.00" }));
+
+    expect(sepaControlMismatches(file.controls)).toEqual([
+      expect.objectContaining({
+        scope: "Group header",
+        declaredCount: 4,
+        declaredSumCents: 500_000,
+        transactionCount: 3,
+        transactionSumCents: 435_050
+      })
+    ]);
+    expect(readSepaControls({ rowCount: 4, sepaControls: file.controls })).toEqual(file.controls);
+    expect(readSepaControls({ rowCount: 4 })).toBeNull();
+  });
+
+  it("rejects other XML documents and document type declarations", () => {
+    expect(() => parseSepaPain001("<Document><Other/></Document>")).toThrow(
+      "Invalid SEPA file. The document is not a pain.001.001.03 or .09 credit transfer " +
+        "initiation."
+    );
+    expect(() =>
+      parseSepaPain001(`<!DOCTYPE Document [<!ENTITY x "y">]>${document()}`)
+    ).toThrow(ImportParseError);
+    expect(() => parseSepaPain001(document().replace("</PmtId>", ""))).toThrow(
+      ImportParseError
+    );
+    expect(() => parseSepaPain001(document().replace("Kelly", "&#x110000;"))).toThrow(
+      "Invalid XML file. &#x110000; is not a valid character."
+    );
+    expect(() => parseSepaPain001(document().replace("Kelly", "&#xD800;"))).toThrow(
+      ImportParseError
+    );
+  });
+
+  it("reads attribute values that contain a closing angle bracket", () => {
+    const file = parseSepaPain001(
+      document().replaceAll('Ccy="EUR"', "Ccy=\"EUR\" Note='a > b'")
+    );
+
+    expect(file.transactions.map((transaction) => transaction.currency)).toEqual([
+      "EUR",
+      "EUR",
+      "EUR"
+    ]);
+    expect(file.transactions[0]?.amountCents).toBe(185_025);
+  });
+});
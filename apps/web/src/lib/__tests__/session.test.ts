@@ -1,12 +1,14 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
-const { getIronSession, cookies } = vi.hoisted(() => ({
+const { getIronSession, cookies, endUserSession } = vi.hoisted(() => ({
   getIronSession: vi.fn(),
-  cookies: vi.fn(() => "cookie-store")
+  cookies: vi.fn(() => "cookie-store"),
+  endUserSession: vi.fn()
 }));
 
 vi.mock("iron-session", () => ({ getIronSession }));
 vi.mock("next/headers", () => ({ cookies }));
+vi.mock("../user-sessions", () => ({ endUserSession }));
 
 import { destroySession, getSession } from "../session";
 
@@ -14,6 +16,7 @@ describe("session helpers", () => {
   beforeEach(() => {
     getIronSession.mockReset();
     cookies.mockClear();
+    endUserSession.mockReset();
   });
 
   it("creates a session with cookie store", async () => {
@@ -31,5 +34,15 @@ describe("session helpers", () => {
 
     await destroySession();
     expect(session.destroy).toHaveBeenCalled();
+    expect(endUserSession).not.toHaveBeenCalled();
+  });
+
+  it("ends the server-side session record on sign-out", async () => {
+    const session = { destroy: vi.fn(), sessionToken: "token-1" };
+    getIronSession.mockResolvedValue(session);
+
+    await destroySession();
+    expect(endUserSession).toHaveBeenCalledWith("token-1");
+    expect(session.destroy).toHaveBeenCalled();
   });
 });
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { ConflictError, OidcError, ValidationError } from "@/lib/errors";
+import {
+  completeSsoLogin,
+  findSsoConfigForEmail,
+  isPasswordLoginDisabled,
+  readGroupsClaim,
+  resolveRoleFromGroups,
+  saveFirmSsoConfig,
+  toOidcClient,
+  type SsoConfigInput
+} from "@/lib/sso";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+const mappings = [
+  { group: "tally-preparers", role: "PREPARER" as const },
+  { group: "tally-admins", role: "ADMIN" as const }
+];
+
+const baseInput: SsoConfigInput = {
+  enabled: true,
+  issuer: "http://localhost:8080/default/",
+  clientId: "tally",
+  clientSecret: "secret",
+  allowedDomains: ["@Example.com", "example.co.uk"],
+  groupsClaim: "groups",
+  groupRoleMappings: mappings,
+  defaultRole: null,
+  jitProvisioning: true,
+  passwordLoginDisabled: false
+};
+
+describe("sso group mapping", () => {
+  it("picks the most privileged mapped role", () => {
+    expect(resolveRoleFromGroups(["tally-preparers", "tally-admins"], mappings, null)).toBe(
+      "ADMIN"
+    );
+    expect(resolveRoleFromGroups(["tally-preparers"], mappings, "REVIEWER")).toBe("PREPARER");
+    expect(resolveRoleFromGroups(["others"], mappings, "REVIEWER")).toBe("REVIEWER");
+    expect(resolveRoleFromGroups([], mappings, null)).toBeNull();
+  });
+
+  it("reads group claims as arrays or single strings", () => {
+    expect(readGroupsClaim({ sub: "a", roles: ["x", 1, "y"] }, "roles")).toEqual(["x", "y"]);
+    expect(readGroupsClaim({ sub: "a", groups: "x" }, "groups")).toEqual(["x"]);
+    expect(readGroupsClaim({ sub: "a" }, "groups")).toEqual([]);
+  });
+});
+
+describe("sso configuration and login", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("saves a normalized config and keeps domains unique across firms", async () => {
+    const { firm, user } = await createFirmWithUser();
+    const config = await saveFirmSsoConfig({ firmId: firm.id, userId: user.id }, baseInput);
+
+    expect(config.issuer).toBe("http://localhost:8080/default");
+    expect(config.allowedDomains).toEqual(["example.com", "example.co.uk"]);
+    expect(toOidcClient(config).clientSecret).toBe("secret");
+    expect(config.clientSecretEncrypted).not.toContain("secret");
+
+    const updated = await saveFirmSsoConfig(
+      { firmId: firm.id, userId: user.id },
+      { ...baseInput, clientSecret: "", passwordLoginDisabled: true }
+    );
+    expect(toOidcClient(updated).clientSecret).toBe("secret");
+    expect(await isPasswordLoginDisabled(firm.id)).toBe(true);
+    expect((await findSsoConfigForEmail("ada@EXAMPLE.com"))?.firmId).toBe(firm.id);
+
+    const other = await createFirmWithUser();
+    await expect(
+      saveFirmSsoConfig({ firmId: other.firm.id, userId: other.user.id }, baseInput)
+    ).rejects.toBeInstanceOf(ConflictError);
+    await expect(
+      saveFirmSsoConfig(
+        { firmId: other.firm.id, userId: other.user.id },
+        { ...baseInput, allowedDomains: ["other.com"], clientSecret: "" }
+      )
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("provisions new users from groups and links existing users", async () => {
+    const { firm, user } = await createFirmWithUser();
+    const config = await saveFirmSsoConfig({ firmId: firm.id, userId: user.id }, baseInput);
+
+    const provisioned = await completeSsoLogin(config, {
+      sub: "idp-1",
+      email: "New.Person@example.com",
+      email_verified: true,
+      groups: ["tally-admins"]
+    });
+    expect(provisioned).toMatchObject({
+      firmId: firm.id,
+      email: "new.person@example.com",
+      role: "ADMIN",
+      status: "ACTIVE",
+      oidcSubject: "idp-1"
+    });
+    const again = await completeSsoLogin(config, {
+      sub: "idp-1",
+      email: "new.person@example.com",
+      email_verified: true
+    });
+    expect(again.id).toBe(provisioned.id);
+
+    const invited = await prisma.user.create({
+      data: { firmId: firm.id, email: "invited@example.com", role: "REVIEWER", status: "INVITED" }
+    });
+    const linked = await completeSsoLogin(config, {
+      sub: "idp-2",
+      email: "invited@example.com",
+      email_verified: true
+    });
+    expect(linked).toMatchObject({
+      id: invited.id,
+      role: "REVIEWER",
+      status: "ACTIVE",
+      oidcSubject: "idp-2"
+    });
+
+    const events = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: "SSO_USER_PROVISIONED" }
+    });
+    expect(events).toHaveLength(1);
+  });
+
+  it("denies sign-in outside the configured policy", async () => {
+    const { firm, user } = await createFirmWithUser();
+    const config = await saveFirmSsoConfig({ firmId: firm.id, userId: user.id }, baseInput);
+
+    const attempts = [
+      { sub: "a", email: "someone@elsewhere.com", email_verified: true, groups: ["tally-admins"] },
+      { sub: "b", email: "someone@example.com", email_verified: false },
+      { sub: "b", email: "someone@example.com" },
+      { sub: "c", email: "someone@example.com", email_verified: true, groups: ["unmapped"] },
+      { sub: "d", email: user.email, email_verified: true }
+    ];
+    await prisma.user.update({ where: { id: user.id }, data: { oidcSubject: "original" } });
+
+    for (const claims of attempts) {
+      await expect(completeSsoLogin(config, claims)).rejects.toBeInstanceOf(OidcError);
+    }
+
+    const denied = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: "SSO_LOGIN_DENIED" },
+      orderBy: { sequence: "asc" }
+    });
+    expect(denied.map((event) => (event.metadata as { reason: string }).reason)).toEqual([
+      "domain_not_allowed",
+      "email_unverified",
+      "email_unverified",
+      "no_role_mapping",
+      "subject_mismatch"
+    ]);
+  });
+});
@@ -2,20 +2,39 @@ import { randomUUID } from "crypto";
 import { prisma, type Role } from "@/lib/prisma";
 
 export const resetDb = async () => {
+  await prisma.job.deleteMany();
+  await prisma.exceptionCommentMention.deleteMany();
+  await prisma.exceptionComment.deleteMany();
+  await prisma.exceptionAttachment.deleteMany();
   await prisma.exception.deleteMany();
   await prisma.checkResult.deleteMany();
   await prisma.pack.deleteMany();
+  await prisma.firmSigningKey.deleteMany();
   await prisma.reconciliationRun.deleteMany();
   await prisma.accountClassification.deleteMany();
   await prisma.expectedVariance.deleteMany();
   await prisma.approval.deleteMany();
+  await prisma.registerLine.deleteMany();
+  await prisma.bankLine.deleteMany();
+  await prisma.glLine.deleteMany();
+  await prisma.statutoryLine.deleteMany();
+  await prisma.pensionScheduleLine.deleteMany();
+  await prisma.normalizedDataset.deleteMany();
   await prisma.import.deleteMany();
   await prisma.mappingTemplate.deleteMany();
+  await prisma.clientAssignment.deleteMany();
   await prisma.payRun.deleteMany();
   await prisma.client.deleteMany();
   await prisma.auditEvent.deleteMany();
   await prisma.invite.deleteMany();
+  await prisma.userSession.deleteMany();
+  await prisma.passwordReset.deleteMany();
+  await prisma.apiToken.deleteMany();
+  await prisma.webhookDelivery.deleteMany();
+  await prisma.webhookEndpoint.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.firmRole.deleteMany();
+  await prisma.firmSsoConfig.deleteMany();
   await prisma.firm.deleteMany();
 };
 
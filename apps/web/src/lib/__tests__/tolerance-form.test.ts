@@ -12,7 +12,12 @@ const buildFormData = (overrides: Record<string, string> = {}) => {
     statutoryTotalsPercent: "0.2",
     journalTieOutAbsolute: "4",
     journalTieOutPercent: "0.1",
-    bankCountMismatchPercent: "5"
+    bankCountMismatchPercent: "5",
+    periodTotalVarianceAbsolute: "1000",
+    periodTotalVariancePercent: "10",
+    periodEmployeeNetVarianceAbsolute: "100",
+    periodEmployeeNetVariancePercent: "25",
+    periodHeadcountPercent: "10"
   };
 
   for (const [key, value] of Object.entries({ ...defaults, ...overrides })) {
@@ -34,6 +39,8 @@ describe("tolerance form parsing", () => {
     expect(parsed.registerNetToBank.absoluteCents).toBe(123450);
     expect(parsed.registerNetToBank.percent).toBe(1.5);
     expect(parsed.bankCountMismatchPercent).toBe(5);
+    expect(parsed.periodTotalVariance).toEqual({ absoluteCents: 100000, percent: 10 });
+    expect(parsed.periodHeadcountPercent).toBe(10);
   });
 
   it("rejects missing values", () => {
@@ -72,4 +72,25 @@ describe("tolerances", () => {
     expect(result.statutoryTotals.percent).toBe(0.3);
     expect(result.journalTieOut.absoluteCents).toBe(150);
   });
+
+  it("resolves period variance thresholds", () => {
+    const defaults = resolveTolerances({ region: "IE" });
+    expect(defaults.periodTotalVariance).toEqual({ absoluteCents: 100000, percent: 10 });
+    expect(defaults.periodHeadcountPercent).toBe(10);
+
+    const result = resolveTolerances({
+      region: "UK",
+      clientSettings: {
+        tolerances: {
+          periodTotalVariance: { percent: 5 },
+          periodEmployeeNetVariance: { absoluteCents: 2500 },
+          periodHeadcountPercent: 20
+        }
+      }
+    });
+
+    expect(result.periodTotalVariance).toEqual({ absoluteCents: 100000, percent: 5 });
+    expect(result.periodEmployeeNetVariance).toEqual({ absoluteCents: 2500, percent: 25 });
+    expect(result.periodHeadcountPercent).toBe(20);
+  });
 });
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateRecoveryCodes,
+  generateTotpCode,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  totpTimeStep,
+  verifyTotpCode
+} from "@/lib/totp";
+
+// RFC 6238 appendix B uses this ASCII seed for its SHA-1 test vectors.
+const rfcSecret = encodeBase32(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("round-trips base32 secrets", () => {
+    expect(rfcSecret).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(decodeBase32("gezd gnbv-gy3tqojq====").toString()).toBe("1234567890");
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+    expect(() => decodeBase32("not base32!")).toThrow("Invalid base32 character.");
+  });
+
+  it("matches the RFC 6238 test vectors", () => {
+    expect(generateTotpCode(rfcSecret, totpTimeStep(new Date(59 * 1000)))).toBe("287082");
+    expect(generateTotpCode(rfcSecret, totpTimeStep(new Date(1111111109 * 1000)))).toBe(
+      "081804"
+    );
+    expect(generateTotpCode(rfcSecret, totpTimeStep(new Date(2000000000 * 1000)))).toBe(
+      "279037"
+    );
+  });
+
+  it("accepts one step of drift and rejects replays", () => {
+    const at = new Date("2026-04-14T09:00:00Z");
+    const step = totpTimeStep(at);
+    const previous = generateTotpCode(rfcSecret, step - 1);
+
+    expect(verifyTotpCode(rfcSecret, previous, { at })).toBe(step - 1);
+    expect(verifyTotpCode(rfcSecret, generateTotpCode(rfcSecret, step - 2), { at })).toBeNull();
+    expect(verifyTotpCode(rfcSecret, previous, { at, lastUsedStep: step - 1 })).toBeNull();
+    expect(verifyTotpCode(rfcSecret, "12345", { at })).toBeNull();
+  });
+
+  it("builds enrollment URIs and recovery codes", () => {
+    expect(
+      buildOtpauthUri({ issuer: "Tally", accountName: "a+b@example.com", secret: rfcSecret })
+    ).toBe(`otpauth://totp/Tally:a%2Bb%40example.com?secret=${rfcSecret}&issuer=Tally`);
+
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[a-f0-9]{5}-[a-f0-9]{5}$/));
+    expect(normalizeRecoveryCode(" ABCDE-12345 ")).toBe("abcde12345");
+  });
+});
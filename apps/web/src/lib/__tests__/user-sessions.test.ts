@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import {
+  createUserSession,
+  defaultSessionTimeouts,
+  endUserSession,
+  listActiveSessions,
+  parseSessionSettings,
+  revokeUserSessions,
+  sessionTimeoutReason,
+  validateUserSession
+} from "@/lib/user-sessions";
+import { createFirmWithUser, resetDb } from "./test-db";
+
+const minutes = (count: number) => count * 60 * 1000;
+
+describe("session timeouts", () => {
+  it("reads firm timeouts from defaults within limits", () => {
+    expect(parseSessionSettings(null)).toEqual(defaultSessionTimeouts);
+    expect(
+      parseSessionSettings({ sessions: { idleTimeoutMinutes: 15, absoluteTimeoutHours: 8 } })
+    ).toEqual({ idleTimeoutMinutes: 15, absoluteTimeoutHours: 8 });
+    expect(
+      parseSessionSettings({ sessions: { idleTimeoutMinutes: 1, absoluteTimeoutHours: "8" } })
+    ).toEqual(defaultSessionTimeouts);
+  });
+
+  it("applies the idle and absolute limits", () => {
+    const timeouts = { idleTimeoutMinutes: 30, absoluteTimeoutHours: 2 };
+    const now = new Date("2026-04-16T12:00:00Z");
+    const at = (offsetMs: number) => new Date(now.getTime() - offsetMs);
+
+    expect(sessionTimeoutReason({ createdAt: at(minutes(60)), lastSeenAt: at(minutes(5)) }, timeouts, now)).toBeNull();
+    expect(
+      sessionTimeoutReason({ createdAt: at(minutes(60)), lastSeenAt: at(minutes(31)) }, timeouts, now)
+    ).toBe("IDLE_TIMEOUT");
+    expect(
+      sessionTimeoutReason({ createdAt: at(minutes(121)), lastSeenAt: at(minutes(1)) }, timeouts, now)
+    ).toBe("EXPIRED");
+  });
+});
+
+describe("user sessions", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("validates, touches, and ends sessions", async () => {
+    const { user } = await createFirmWithUser();
+    const { token, session } = await createUserSession(user, { userAgent: "Firefox" });
+
+    expect(session.tokenHash).not.toBe(token);
+    const later = new Date(session.lastSeenAt.getTime() + minutes(5));
+    const validated = await validateUserSession(token, user.id, defaultSessionTimeouts, later);
+    expect(validated?.lastSeenAt).toEqual(later);
+    expect(await validateUserSession(token, "another-user", defaultSessionTimeouts)).toBeNull();
+
+    await endUserSession(token);
+    expect(await validateUserSession(token, user.id, defaultSessionTimeouts)).toBeNull();
+    const ended = await prisma.userSession.findUniqueOrThrow({ where: { id: session.id } });
+    expect(ended.revokedReason).toBe("SIGNED_OUT");
+  });
+
+  it("closes idle sessions and revokes the rest with an audit event", async () => {
+    const { firm, user } = await createFirmWithUser();
+    const context = { firmId: firm.id, userId: user.id };
+    const idle = await createUserSession(user);
+    const current = await createUserSession(user);
+    const other = await createUserSession(user);
+
+    const afterIdle = new Date(Date.now() + minutes(defaultSessionTimeouts.idleTimeoutMinutes + 1));
+    expect(await validateUserSession(idle.token, user.id, defaultSessionTimeouts, afterIdle)).toBeNull();
+    expect(
+      (await prisma.userSession.findUniqueOrThrow({ where: { id: idle.session.id } })).revokedReason
+    ).toBe("IDLE_TIMEOUT");
+
+    const active = await listActiveSessions(firm.id, user.id, defaultSessionTimeouts);
+    expect(active.map((session) => session.id).sort()).toEqual(
+      [current.session.id, other.session.id].sort()
+    );
+
+    expect(
+      await revokeUserSessions(context, user.id, "REVOKED", {
+        exceptSessionId: current.session.id
+      })
+    ).toBe(1);
+    expect(await validateUserSession(other.token, user.id, defaultSessionTimeouts)).toBeNull();
+    expect(await validateUserSession(current.token, user.id, defaultSessionTimeouts)).not.toBeNull();
+
+    const events = await prisma.auditEvent.findMany({
+      where: { firmId: firm.id, action: "SESSION_REVOKED" }
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0]?.metadata).toEqual({ reason: "REVOKED", sessions: 1 });
+  });
+});
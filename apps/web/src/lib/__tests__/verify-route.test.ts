@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { verifyPackByHash } = vi.hoisted(() => ({
+  verifyPackByHash: vi.fn()
+}));
+
+vi.mock("@/lib/pack-verification", () => ({ verifyPackByHash }));
+
+import { POST } from "@/app/api/verify/route";
+
+const request = (body: unknown) =>
+  new Request("http://localhost/api/verify", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body)
+  });
+
+describe("pack verification route", () => {
+  beforeEach(() => {
+    verifyPackByHash.mockReset();
+  });
+
+  it("rejects requests without a SHA-256 hash", async () => {
+    const response = await POST(request({ sha256: "abc" }));
+
+    expect(response.status).toBe(400);
+    expect(verifyPackByHash).not.toHaveBeenCalled();
+  });
+
+  it("returns the verification result without requiring a session", async () => {
+    verifyPackByHash.mockResolvedValue({ status: "NOT_FOUND" });
+
+    const response = await POST(request({ sha256: "A".repeat(64) }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: "NOT_FOUND" });
+    expect(verifyPackByHash).toHaveBeenCalledWith("A".repeat(64));
+  });
+});
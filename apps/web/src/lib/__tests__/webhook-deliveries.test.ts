@@ -0,0 +1,293 @@
+import { createHmac } from "crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "@/lib/audit";
+import { env } from "@/lib/env";
+import {
+  isPrivateAddress,
+  meetsSeverity,
+  processNextWebhookDelivery,
+  resolvePublicWebhookHost,
+  sendWebhook,
+  signWebhookPayload,
+  webhookRetryDelayMs
+} from "@/lib/webhook-deliveries";
+import { createWebhookEndpoint } from "@/lib/webhooks";
+import { createFirmWithUser, resetDb } from "./test-db";
+import { startWebhookReceiver, type WebhookReceiver } from "./webhook-receiver";
+
+let receiver: WebhookReceiver;
+
+beforeAll(async () => {
+  receiver = await startWebhookReceiver();
+});
+
+afterAll(async () => {
+  await receiver.close();
+});
+
+beforeEach(() => {
+  receiver.requests.length = 0;
+});
+
+describe("webhook signing and retry policy", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "whsec_test").update('1700000000.{"a":1}').digest("hex");
+    expect(signWebhookPayload("whsec_test", 1700000000, '{"a":1}')).toBe(`v1=${expected}`);
+  });
+
+  it("backs off exponentially up to a cap", () => {
+    expect([1, 2, 3, 4].map(webhookRetryDelayMs)).toEqual([60000, 120000, 240000, 480000]);
+    expect(webhookRetryDelayMs(20)).toBe(6 * 3600 * 1000);
+  });
+
+  it("compares exception severities", () => {
+    expect(meetsSeverity("CRITICAL", "CRITICAL")).toBe(true);
+    expect(meetsSeverity("HIGH", "CRITICAL")).toBe(false);
+    expect(meetsSeverity("HIGH", "MEDIUM")).toBe(true);
+    expect(meetsSeverity(undefined, "INFO")).toBe(false);
+  });
+});
+
+describe("webhook hosts", () => {
+  it("treats loopback, private, link-local and reserved addresses as private", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.10",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::ffff:127.0.0.1",
+      "fd00::1",
+      "fe80::1",
+      "not-an-ip"
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(false);
+  });
+
+  it("rejects local hosts before resolving them", async () => {
+    await expect(resolvePublicWebhookHost("https://localhost/hooks")).rejects.toThrow(
+      "public host"
+    );
+    await expect(resolvePublicWebhookHost("https://[::1]:8443/hooks")).rejects.toThrow(
+      "public host"
+    );
+    await expect(resolvePublicWebhookHost(receiver.url)).rejects.toThrow("public host");
+  });
+});
+
+describe("sending webhooks", () => {
+  it("POSTs a signed JSON body the receiver can verify", async () => {
+    const now = new Date("2026-04-18T09:00:00Z");
+    const result = await sendWebhook(
+      {
+        url: receiver.url,
+        secret: "whsec_test",
+        deliveryId: "delivery-1",
+        event: "PAY_RUN_APPROVED",
+        payload: { type: "PAY_RUN_APPROVED", data: { payRunId: "pay-run-1" } }
+      },
+      now
+    );
+
+    expect(result).toEqual({ ok: true, responseStatus: 200, error: null });
+    const [request] = receiver.requests;
+    expect(request).toMatchObject({ method: "POST", path: "/hooks/tally" });
+    expect(request?.headers).toMatchObject({
+      "content-type": "application/json",
+      "x-tally-event": "PAY_RUN_APPROVED",
+      "x-tally-delivery": "delivery-1",
+      "x-tally-timestamp": "1776502800"
+    });
+    const expected = createHmac("sha256", "whsec_test")
+      .update(`1776502800.${request?.body}`)
+      .digest("hex");
+    expect(request?.headers["x-tally-signature"]).toBe(`v1=${expected}`);
+    expect(JSON.parse(request?.body ?? "")).toEqual({
+      type: "PAY_RUN_APPROVED",
+      data: { payRunId: "pay-run-1" }
+    });
+  });
+
+  it("reports non-2xx responses and connection failures", async () => {
+    receiver.respondWith(503);
+    const request = {
+      url: receiver.url,
+      secret: "whsec_test",
+      deliveryId: "delivery-2",
+      event: "PACK_LOCKED",
+      payload: {}
+    };
+
+    expect(await sendWebhook(request)).toEqual({
+      ok: false,
+      responseStatus: 503,
+      error: "The endpoint responded with HTTP 503."
+    });
+    const refused = await sendWebhook({ ...request, url: "http://127.0.0.1:1/hooks" });
+    expect(refused).toMatchObject({ ok: false, responseStatus: null });
+    expect(refused.error).toContain("Could not connect");
+  });
+});
+
+describe("webhook deliveries", () => {
+  // The test receiver listens on this machine.
+  beforeAll(() => {
+    env.WEBHOOK_ALLOW_PRIVATE_HOSTS = "true";
+  });
+
+  afterAll(() => {
+    env.WEBHOOK_ALLOW_PRIVATE_HOSTS = undefined;
+  });
+
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("queues subscribed audit events, filtering exceptions by severity and status", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const context = { firmId: firm.id, userId: user.id };
+    const { endpoint } = await createWebhookEndpoint(context, {
+      url: receiver.url,
+      description: "",
+      events: ["PAY_RUN_APPROVED", "EXCEPTION_CREATED"],
+      exceptionMinimumSeverity: "CRITICAL",
+      enabled: true
+    });
+    await createWebhookEndpoint(context, {
+      url: receiver.url,
+      description: "Paused",
+      events: ["PAY_RUN_APPROVED"],
+      exceptionMinimumSeverity: "CRITICAL",
+      enabled: false
+    });
+    const audit = { firmId: firm.id, actorUserId: user.id };
+
+    const approved = await recordAuditEvent(
+      { action: "PAY_RUN_APPROVED", entityType: "PAY_RUN", entityId: firm.id, metadata: {} },
+      audit
+    );
+    await recordAuditEvent(
+      { action: "EXCEPTION_CREATED", entityType: "EXCEPTION", metadata: { severity: "HIGH" } },
+      audit
+    );
+    await recordAuditEvent(
+      { action: "EXCEPTION_CREATED", entityType: "EXCEPTION", metadata: { severity: "CRITICAL" } },
+      audit
+    );
+    await recordAuditEvent(
+      {
+        action: "EXCEPTION_CREATED",
+        entityType: "EXCEPTION",
+        metadata: { severity: "CRITICAL", carriedStatus: "RESOLVED" }
+      },
+      audit
+    );
+    await recordAuditEvent({ action: "PAY_RUN_REJECTED", entityType: "PAY_RUN" }, audit);
+
+    const deliveries = await prisma.webhookDelivery.findMany({ orderBy: { createdAt: "asc" } });
+    expect(deliveries.map((delivery) => [delivery.endpointId, delivery.event])).toEqual([
+      [endpoint.id, "PAY_RUN_APPROVED"],
+      [endpoint.id, "EXCEPTION_CREATED"]
+    ]);
+    expect(deliveries[0]).toMatchObject({ status: "PENDING", auditEventId: approved.id });
+    expect(deliveries[0]?.payload).toMatchObject({
+      id: approved.id,
+      type: "PAY_RUN_APPROVED",
+      firmId: firm.id,
+      entity: { type: "PAY_RUN", id: firm.id },
+      actorUserId: user.id
+    });
+    expect(deliveries[1]?.payload).toMatchObject({ data: { severity: "CRITICAL" } });
+  });
+
+  it("delivers, retries with backoff and gives up after the last attempt", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    const { endpoint } = await createWebhookEndpoint(
+      { firmId: firm.id, userId: user.id },
+      {
+        url: receiver.url,
+        description: "",
+        events: ["PACK_LOCKED"],
+        exceptionMinimumSeverity: "CRITICAL",
+        enabled: true
+      }
+    );
+    await recordAuditEvent(
+      { action: "PACK_LOCKED", entityType: "PACK" },
+      { firmId: firm.id, actorUserId: user.id }
+    );
+
+    receiver.respondWith(500);
+    const before = Date.now();
+    const retrying = await processNextWebhookDelivery("worker-1");
+    expect(retrying).toMatchObject({
+      status: "PENDING",
+      attempts: 1,
+      responseStatus: 500,
+      lockedBy: null
+    });
+    expect(retrying?.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    expect(await processNextWebhookDelivery("worker-1")).toBeNull();
+
+    await prisma.webhookDelivery.updateMany({ data: { nextAttemptAt: new Date() } });
+    const delivered = await processNextWebhookDelivery("worker-1");
+    expect(delivered).toMatchObject({ status: "SUCCEEDED", attempts: 2, lastError: null });
+    expect(delivered?.deliveredAt).not.toBeNull();
+    expect(receiver.requests).toHaveLength(2);
+    expect(receiver.requests[1]?.headers["x-tally-delivery"]).toBe(delivered?.id);
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivered?.id },
+      data: { status: "PENDING", attempts: 7, nextAttemptAt: new Date() }
+    });
+    receiver.respondWith(410);
+    expect(await processNextWebhookDelivery("worker-1")).toMatchObject({
+      status: "FAILED",
+      attempts: 8,
+      lastError: "The endpoint responded with HTTP 410."
+    });
+
+    await prisma.webhookEndpoint.update({ where: { id: endpoint.id }, data: { enabled: false } });
+    await prisma.webhookDelivery.updateMany({ data: { status: "PENDING", attempts: 0 } });
+    expect(await processNextWebhookDelivery("worker-1")).toMatchObject({
+      status: "FAILED",
+      lastError: "The endpoint is disabled."
+    });
+    expect(receiver.requests).toHaveLength(3);
+  });
+
+  it("refuses to deliver once the endpoint's host is private", async () => {
+    const { firm, user } = await createFirmWithUser("ADMIN");
+    await createWebhookEndpoint(
+      { firmId: firm.id, userId: user.id },
+      {
+        url: receiver.url,
+        description: "",
+        events: ["PACK_LOCKED"],
+        exceptionMinimumSeverity: "CRITICAL",
+        enabled: true
+      }
+    );
+    await recordAuditEvent(
+      { action: "PACK_LOCKED", entityType: "PACK" },
+      { firmId: firm.id, actorUserId: user.id }
+    );
+
+    env.WEBHOOK_ALLOW_PRIVATE_HOSTS = undefined;
+    try {
+      const refused = await processNextWebhookDelivery("worker-1");
+      expect(refused).toMatchObject({ status: "PENDING", attempts: 1, responseStatus: null });
+      expect(refused?.lastError).toContain("public host");
+      expect(receiver.requests).toHaveLength(0);
+    } finally {
+      env.WEBHOOK_ALLOW_PRIVATE_HOSTS = "true";
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+// A local HTTP receiver for webhook tests: records each request and answers
+// with the next queued status, or 200 once the queue is empty.
+
+export type ReceivedWebhook = {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+export type WebhookReceiver = {
+  url: string;
+  requests: ReceivedWebhook[];
+  respondWith: (...statuses: number[]) => void;
+  close: () => Promise<void>;
+};
+
+export const startWebhookReceiver = async (): Promise<WebhookReceiver> => {
+  const requests: ReceivedWebhook[] = [];
+  const statuses: number[] = [];
+
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => {
+      body += chunk;
+    });
+    request.on("end", () => {
+      requests.push({
+        method: request.method ?? "",
+        path: request.url ?? "",
+        headers: request.headers,
+        body
+      });
+      response.writeHead(statuses.shift() ?? 200, { "content-type": "text/plain" });
+      response.end("ok");
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks/tally`,
+    requests,
+    respondWith: (...next) => {
+      statuses.push(...next);
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+};
@@ -0,0 +1,28 @@
+import { inflateRawSync } from "zlib";
+
+// Minimal central-directory reader used to inspect archives built by lib/zip.
+export const readZipEntries = (archive: Buffer): Map<string, Buffer> => {
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let index = 0; index < count; index += 1) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const localNameLength = archive.readUInt16LE(localOffset + 26);
+    const localExtraLength = archive.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const body = archive.subarray(start, start + compressedSize);
+    entries.set(name, method === 8 ? inflateRawSync(body) : Buffer.from(body));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
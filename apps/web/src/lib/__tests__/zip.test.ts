@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { buildZipArchive, crc32 } from "@/lib/zip";
+import { readZipEntries } from "./zip-reader";
+
+describe("zip archives", () => {
+  it("computes standard CRC-32 checksums", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it("round-trips deflated and stored entries", () => {
+    const csv = Buffer.from("employee,net\n".repeat(200));
+    const random = Buffer.from([0x00, 0xff, 0x10, 0x7f]);
+    const archive = buildZipArchive([
+      { path: "sources/REGISTER-v1-register.csv", data: csv },
+      { path: "attachments/scan.bin", data: random, modifiedAt: new Date("2026-04-01T12:00:00Z") }
+    ]);
+
+    expect(archive.subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    expect(archive.length).toBeLessThan(csv.length);
+
+    const entries = readZipEntries(archive);
+    expect(Array.from(entries.keys())).toEqual([
+      "sources/REGISTER-v1-register.csv",
+      "attachments/scan.bin"
+    ]);
+    expect(entries.get("sources/REGISTER-v1-register.csv")).toEqual(csv);
+    expect(entries.get("attachments/scan.bin")).toEqual(random);
+  });
+
+  it("keeps entry paths inside the archive root", () => {
+    const archive = buildZipArchive([
+      { path: "../../etc/passwd", data: Buffer.from("x") },
+      { path: "data\\..\\exceptions.json", data: Buffer.from("[]") }
+    ]);
+
+    expect(Array.from(readZipEntries(archive).keys())).toEqual([
+      "etc/passwd",
+      "data/exceptions.json"
+    ]);
+  });
+
+  it("produces identical bytes for identical input", () => {
+    const entries = [{ path: "manifest.json", data: Buffer.from("{}") }];
+    expect(buildZipArchive(entries)).toEqual(buildZipArchive(entries));
+  });
+});
@@ -2,12 +2,15 @@ import "server-only";
 
 import { prisma, type AccountClass } from "@/lib/prisma";
 import { NotFoundError, ValidationError } from "./errors";
-import { requirePermission } from "./permissions";
+import { assertClientAccess } from "./client-access";
+import { requirePermission, type Permission } from "./permissions";
 
 type ActorContext = {
   firmId: string;
   userId: string;
   role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
 type AccountClassificationInput = {
@@ -30,7 +33,7 @@ export const upsertAccountClassification = async (
   clientId: string,
   input: AccountClassificationInput
 ) => {
-  requirePermission(context.role, "client:write");
+  requirePermission(context, "client:write");
 
   const client = await prisma.client.findFirst({
     where: { id: clientId, firmId: context.firmId }
@@ -38,6 +41,7 @@ export const upsertAccountClassification = async (
   if (!client) {
     throw new NotFoundError("Client not found.");
   }
+  await assertClientAccess(context, client.id, { entityType: "CLIENT", entityId: client.id });
 
   const accountCode = input.accountCode.trim();
   if (accountCode.length === 0) {
@@ -69,7 +73,7 @@ export const deleteAccountClassification = async (
   context: ActorContext,
   id: string
 ) => {
-  requirePermission(context.role, "client:write");
+  requirePermission(context, "client:write");
 
   const entry = await prisma.accountClassification.findFirst({
     where: {
@@ -80,6 +84,10 @@ export const deleteAccountClassification = async (
   if (!entry) {
     throw new NotFoundError("Account classification not found.");
   }
+  await assertClientAccess(context, entry.clientId, {
+    entityType: "CLIENT",
+    entityId: entry.clientId
+  });
 
   await prisma.accountClassification.delete({
     where: { id: entry.id }
@@ -0,0 +1,337 @@
+import "server-only";
+
+import { prisma, type ApiToken, type ApiTokenKind, type Role } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { resolveClientIds } from "./client-access";
+import { NotFoundError, ValidationError } from "./errors";
+import {
+  can,
+  resolveUserPermissions,
+  type Permission,
+  type PermissionSubject
+} from "./permissions";
+import { apiTokenPrefix, generateApiToken, hashToken } from "./token";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+  role: Role;
+  permissions?: readonly Permission[] | null;
+};
+
+/**
+ * Scopes a token can carry. Read scopes need no permission beyond client
+ * access; write scopes unlock `permissions`, and only users holding
+ * `requires` may grant them.
+ */
+export const apiScopeDefinitions = [
+  { key: "clients:read", label: "Read clients", requires: null, permissions: [] },
+  { key: "pay-runs:read", label: "Read pay runs", requires: null, permissions: [] },
+  { key: "imports:read", label: "Read imports", requires: null, permissions: [] },
+  {
+    key: "imports:write",
+    label: "Upload and finalize imports",
+    requires: "import:upload",
+    permissions: ["import:upload", "pay-run:prepare"]
+  },
+  {
+    key: "reconciliation:read",
+    label: "Read reconciliation runs",
+    requires: null,
+    permissions: []
+  },
+  {
+    key: "reconciliation:write",
+    label: "Start reconciliation runs",
+    requires: "reconciliation:run",
+    permissions: ["reconciliation:run", "pay-run:prepare"]
+  },
+  { key: "exceptions:read", label: "Read exceptions", requires: null, permissions: [] },
+  { key: "packs:read", label: "Read packs", requires: null, permissions: [] },
+  {
+    key: "packs:write",
+    label: "Generate packs",
+    requires: "pack:generate",
+    permissions: ["pack:generate"]
+  }
+] as const satisfies ReadonlyArray<{
+  key: string;
+  label: string;
+  requires: Permission | null;
+  permissions: readonly Permission[];
+}>;
+
+export type ApiScope = (typeof apiScopeDefinitions)[number]["key"];
+
+export const apiTokenExpiryDays = [7, 30, 90, 365] as const;
+
+// Reads are audited once per window per token rather than on every poll.
+const readAuditIntervalMs = 15 * 60 * 1000;
+const touchIntervalMs = 60 * 1000;
+
+const isReadMethod = (method: string) => ["GET", "HEAD"].includes(method.toUpperCase());
+
+/** Permissions unlocked by a set of scopes, before intersecting with the user's own. */
+export const apiScopePermissions = (scopes: readonly string[]): Permission[] =>
+  Array.from(
+    new Set(
+      apiScopeDefinitions
+        .filter((definition) => scopes.includes(definition.key))
+        .flatMap((definition) => [...definition.permissions])
+    )
+  );
+
+/** Scopes the subject may put on a token. */
+export const grantableApiScopes = (subject: PermissionSubject) =>
+  apiScopeDefinitions.filter(
+    (definition) => !definition.requires || can(subject, definition.requires)
+  );
+
+/** The actor a token request runs as, shaped like the lib context of a signed-in user. */
+export type ApiActor = {
+  firmId: string;
+  userId: string;
+  role: Role;
+  permissions: Permission[];
+  clientIds: string[] | null;
+};
+
+export type ApiTokenInput = {
+  kind: ApiTokenKind;
+  name: string;
+  scopes: string[];
+  expiresInDays: number;
+};
+
+export const parseApiTokenForm = (formData: FormData, kind: ApiTokenKind): ApiTokenInput => ({
+  kind,
+  name: String(formData.get("name") ?? ""),
+  scopes: formData.getAll("scopes").map(String),
+  expiresInDays: Number(formData.get("expiresInDays"))
+});
+
+const tokenDisplayPrefixLength = apiTokenPrefix.length + 6;
+
+/**
+ * Issues a token acting as the caller. Service tokens are firm-managed and
+ * need firm:manage. The token is returned once; only its hash is stored.
+ */
+export const createApiToken = async (context: ActorContext, input: ApiTokenInput) => {
+  const name = input.name.trim();
+  if (!name || name.length > 100) {
+    throw new ValidationError("Token name must be between 1 and 100 characters.");
+  }
+  if (input.kind === "SERVICE" && !can(context, "firm:manage")) {
+    throw new ValidationError("Only firm admins can create service tokens.");
+  }
+  if (!(apiTokenExpiryDays as readonly number[]).includes(input.expiresInDays)) {
+    throw new ValidationError("Choose how long the token stays valid.");
+  }
+
+  const scopes = Array.from(new Set(input.scopes));
+  if (scopes.length === 0) {
+    throw new ValidationError("Choose at least one scope.");
+  }
+  for (const scope of scopes) {
+    const definition = apiScopeDefinitions.find((item) => item.key === scope);
+    if (!definition) {
+      throw new ValidationError(`Unknown scope: ${scope}.`);
+    }
+    if (definition.requires && !can(context, definition.requires)) {
+      throw new ValidationError(`You cannot grant ${scope} without ${definition.requires}.`);
+    }
+  }
+
+  const { token, tokenHash } = generateApiToken();
+  const expiresAt = new Date(Date.now() + input.expiresInDays * 24 * 3600 * 1000);
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      firmId: context.firmId,
+      userId: context.userId,
+      kind: input.kind,
+      name,
+      tokenPrefix: token.slice(0, tokenDisplayPrefixLength),
+      tokenHash,
+      scopes,
+      expiresAt
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "API_TOKEN_CREATED",
+      entityType: "API_TOKEN",
+      entityId: apiToken.id,
+      metadata: {
+        kind: apiToken.kind,
+        scopes: scopes.join(" "),
+        expiresAt: expiresAt.toISOString()
+      }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return { token, apiToken };
+};
+
+/** Unrevoked tokens, newest first, including ones that have expired. */
+export const listApiTokens = async (
+  firmId: string,
+  filter: { userId?: string; kind?: ApiTokenKind } = {}
+) =>
+  prisma.apiToken.findMany({
+    where: { firmId, revokedAt: null, ...filter },
+    include: { user: { select: { id: true, email: true } } },
+    orderBy: { createdAt: "desc" }
+  });
+
+/**
+ * Revokes one token. With `ownerUserId` only that user's personal tokens
+ * match, which is how users manage their own tokens.
+ */
+export const revokeApiToken = async (
+  context: Pick<ActorContext, "firmId" | "userId">,
+  tokenId: string,
+  options: { ownerUserId?: string } = {}
+) => {
+  const apiToken = await prisma.apiToken.findFirst({
+    where: {
+      id: tokenId,
+      firmId: context.firmId,
+      revokedAt: null,
+      ...(options.ownerUserId ? { userId: options.ownerUserId, kind: "PERSONAL" as const } : {})
+    }
+  });
+  if (!apiToken) {
+    throw new NotFoundError("API token not found.");
+  }
+
+  const revoked = await prisma.apiToken.update({
+    where: { id: apiToken.id },
+    data: { revokedAt: new Date() }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "API_TOKEN_REVOKED",
+      entityType: "API_TOKEN",
+      entityId: apiToken.id,
+      metadata: { kind: apiToken.kind, userId: apiToken.userId }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return revoked;
+};
+
+/** Revokes every token acting as a user, e.g. when they are disabled. Returns the count. */
+export const revokeUserApiTokens = async (firmId: string, userId: string) => {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { firmId, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+  return count;
+};
+
+const readBearerToken = (authorization: string | null) => {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  const token = match?.[1];
+  return token?.startsWith(apiTokenPrefix) ? token : null;
+};
+
+/**
+ * Resolves an `Authorization: Bearer` header to its token and actor, or null
+ * when the token is unknown, revoked, expired, or its user is no longer
+ * active. The actor's permissions are the user's own limited to the scopes.
+ */
+export const authenticateApiToken = async (
+  authorization: string | null,
+  now = new Date()
+): Promise<{ apiToken: ApiToken; actor: ApiActor } | null> => {
+  const token = readBearerToken(authorization);
+  if (!token) {
+    return null;
+  }
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: {
+        include: {
+          firmRole: { select: { permissions: true } },
+          clientAssignments: { select: { clientId: true } }
+        }
+      }
+    }
+  });
+  if (
+    !apiToken ||
+    apiToken.revokedAt ||
+    (apiToken.expiresAt && apiToken.expiresAt <= now) ||
+    apiToken.user.status !== "ACTIVE" ||
+    apiToken.user.firmId !== apiToken.firmId
+  ) {
+    return null;
+  }
+
+  const { user, ...record } = apiToken;
+  const userPermissions = resolveUserPermissions(user);
+  const granted = apiScopePermissions(apiToken.scopes);
+  return {
+    apiToken: record,
+    actor: {
+      firmId: apiToken.firmId,
+      userId: user.id,
+      role: user.role,
+      permissions: userPermissions.filter((permission) => granted.includes(permission)),
+      clientIds: resolveClientIds({ ...user, permissions: userPermissions })
+    }
+  };
+};
+
+export const shouldAuditApiTokenUse = (
+  apiToken: Pick<ApiToken, "lastReadAuditedAt">,
+  method: string,
+  now = new Date()
+) =>
+  !isReadMethod(method) ||
+  !apiToken.lastReadAuditedAt ||
+  now.getTime() - apiToken.lastReadAuditedAt.getTime() > readAuditIntervalMs;
+
+/**
+ * Stamps lastUsedAt and records API_TOKEN_USED for every write and for the
+ * first read in each audit window. The window runs from the last audited read,
+ * so a token polling more often than lastUsedAt is refreshed is still audited.
+ */
+export const recordApiTokenUse = async (
+  apiToken: Pick<ApiToken, "id" | "firmId" | "userId" | "lastUsedAt" | "lastReadAuditedAt">,
+  request: { method: string; path: string; status: number },
+  now = new Date()
+) => {
+  const audit = shouldAuditApiTokenUse(apiToken, request.method, now);
+  const auditedRead = audit && isReadMethod(request.method);
+  if (
+    audit ||
+    !apiToken.lastUsedAt ||
+    now.getTime() - apiToken.lastUsedAt.getTime() > touchIntervalMs
+  ) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now, ...(auditedRead ? { lastReadAuditedAt: now } : {}) }
+    });
+  }
+  if (audit) {
+    await recordAuditEvent(
+      {
+        action: "API_TOKEN_USED",
+        entityType: "API_TOKEN",
+        entityId: apiToken.id,
+        metadata: {
+          method: request.method.toUpperCase(),
+          path: request.path,
+          status: request.status
+        }
+      },
+      { firmId: apiToken.firmId, actorUserId: apiToken.userId }
+    );
+  }
+};
@@ -0,0 +1,242 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import type {
+  Client,
+  Exception,
+  Import,
+  Pack,
+  PayRun,
+  ReconciliationRun
+} from "@/lib/prisma";
+import {
+  authenticateApiToken,
+  recordApiTokenUse,
+  type ApiActor,
+  type ApiScope
+} from "./api-tokens";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import { PermissionError } from "./permissions";
+import { logServerError } from "./server-errors";
+
+export const apiErrorResponse = (status: number, message: string) =>
+  NextResponse.json({ error: message }, { status });
+
+type ApiHandler<Params> = (
+  request: Request,
+  context: { actor: ApiActor; params: Params }
+) => Promise<Response>;
+
+const errorStatus = (error: unknown) => {
+  if (error instanceof PermissionError) {
+    return 403;
+  }
+  if (error instanceof NotFoundError) {
+    return 404;
+  }
+  if (error instanceof ConflictError) {
+    return 409;
+  }
+  if (error instanceof ValidationError) {
+    return 400;
+  }
+  return null;
+};
+
+/**
+ * Wraps a `/api/v1` handler: authenticates the bearer token, checks `scope`
+ * (null accepts any valid token), maps lib errors to JSON responses and
+ * records the token's use.
+ */
+export const apiRoute =
+  <Params = Record<string, never>>(scope: ApiScope | null, handler: ApiHandler<Params>) =>
+  async (request: Request, routeContext: { params: Params }): Promise<Response> => {
+    const authenticated = await authenticateApiToken(request.headers.get("authorization"));
+    if (!authenticated) {
+      const response = apiErrorResponse(401, "Invalid or expired API token.");
+      response.headers.set("WWW-Authenticate", 'Bearer realm="tally"');
+      return response;
+    }
+
+    const { apiToken, actor } = authenticated;
+    let response: Response;
+    if (scope && !apiToken.scopes.includes(scope)) {
+      response = apiErrorResponse(403, `This token does not have the ${scope} scope.`);
+    } else {
+      try {
+        response = await handler(request, { actor, params: routeContext.params });
+      } catch (error) {
+        const status = errorStatus(error);
+        if (status === null) {
+          logServerError({ scope: "api_v1" }, error);
+          response = apiErrorResponse(500, "The request failed unexpectedly.");
+        } else {
+          response = apiErrorResponse(
+            status,
+            error instanceof PermissionError ? "Permission denied." : (error as Error).message
+          );
+        }
+      }
+    }
+
+    await recordApiTokenUse(apiToken, {
+      method: request.method,
+      path: new URL(request.url).pathname,
+      status: response.status
+    });
+    return response;
+  };
+
+const maxListLimit = 200;
+const defaultListLimit = 50;
+
+/** Reads `?limit=`, clamped to 1–200 and defaulting to 50. */
+export const readListLimit = (url: URL) => {
+  const limit = Number.parseInt(url.searchParams.get("limit") ?? "", 10);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, maxListLimit) : defaultListLimit;
+};
+
+/** Reads an optional uuid query parameter; malformed values are a 400. */
+export const readUuidParam = (url: URL, name: string) => {
+  const value = url.searchParams.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+    throw new ValidationError(`${name} must be a UUID.`);
+  }
+  return value;
+};
+
+/**
+ * Reads `?limit=` and `?cursor=` into findMany paging. One row past the limit
+ * is fetched to tell whether another page follows. The cursor is the id of the
+ * previous page's last row, so lists order by `id` after their own keys.
+ */
+export const readListPage = (url: URL) => {
+  const cursor = readUuidParam(url, "cursor");
+  return {
+    take: readListLimit(url) + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+  };
+};
+
+/**
+ * A list response for rows fetched with readListPage: `{ data, nextCursor,
+ * next }`, where `next` is the path of the following page or null.
+ */
+export const listResponse = <Row extends { id: string }>(
+  url: URL,
+  rows: Row[],
+  toApi: (row: Row) => unknown
+) => {
+  const limit = readListLimit(url);
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? (page[page.length - 1]?.id ?? null) : null;
+  let next: string | null = null;
+  if (nextCursor) {
+    const nextUrl = new URL(url);
+    nextUrl.searchParams.set("cursor", nextCursor);
+    next = `${nextUrl.pathname}${nextUrl.search}`;
+  }
+  return NextResponse.json({ data: page.map(toApi), nextCursor, next });
+};
+
+/** Reads an optional enum query parameter; values outside `allowed` are a 400. */
+export const readEnumParam = <Value extends string>(
+  url: URL,
+  name: string,
+  allowed: readonly Value[]
+) => {
+  const value = url.searchParams.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new ValidationError(`${name} must be one of ${allowed.join(", ")}.`);
+  }
+  return value as Value;
+};
+
+const iso = (value: Date | null) => (value ? value.toISOString() : null);
+
+// Resource shapes below are the public contract documented in lib/openapi.ts.
+
+export const toApiClient = (client: Client) => ({
+  id: client.id,
+  name: client.name,
+  payrollSystem: client.payrollSystem,
+  payrollSystemOther: client.payrollSystemOther,
+  payrollFrequency: client.payrollFrequency,
+  defaultReviewerUserId: client.defaultReviewerUserId,
+  archivedAt: iso(client.archivedAt),
+  createdAt: client.createdAt.toISOString(),
+  updatedAt: client.updatedAt.toISOString()
+});
+
+export const toApiPayRun = (payRun: PayRun) => ({
+  id: payRun.id,
+  clientId: payRun.clientId,
+  periodStart: payRun.periodStart.toISOString().slice(0, 10),
+  periodEnd: payRun.periodEnd.toISOString().slice(0, 10),
+  periodLabel: payRun.periodLabel,
+  revision: payRun.revision,
+  status: payRun.status,
+  createdAt: payRun.createdAt.toISOString(),
+  updatedAt: payRun.updatedAt.toISOString()
+});
+
+export const toApiImport = (importRecord: Import) => ({
+  id: importRecord.id,
+  clientId: importRecord.clientId,
+  payRunId: importRecord.payRunId,
+  sourceType: importRecord.sourceType,
+  version: importRecord.version,
+  originalFilename: importRecord.originalFilename,
+  mimeType: importRecord.mimeType,
+  sizeBytes: importRecord.sizeBytes,
+  fileHashSha256: importRecord.fileHashSha256,
+  status: importRecord.parseStatus,
+  errorCode: importRecord.errorCode,
+  errorMessage: importRecord.errorMessage,
+  uploadedAt: importRecord.uploadedAt.toISOString()
+});
+
+export const toApiReconciliationRun = (run: ReconciliationRun) => ({
+  id: run.id,
+  payRunId: run.payRunId,
+  runNumber: run.runNumber,
+  bundleId: run.bundleId,
+  bundleVersion: run.bundleVersion,
+  status: run.status,
+  supersededAt: iso(run.supersededAt),
+  createdAt: run.createdAt.toISOString()
+});
+
+export const toApiException = (exception: Exception) => ({
+  id: exception.id,
+  payRunId: exception.payRunId,
+  reconciliationRunId: exception.reconciliationRunId,
+  category: exception.category,
+  severity: exception.severity,
+  status: exception.status,
+  title: exception.title,
+  description: exception.description,
+  assignedToUserId: exception.assignedToUserId,
+  resolvedAt: iso(exception.resolvedAt),
+  supersededAt: iso(exception.supersededAt),
+  createdAt: exception.createdAt.toISOString(),
+  updatedAt: exception.updatedAt.toISOString()
+});
+
+export const toApiPack = (pack: Pack) => ({
+  id: pack.id,
+  payRunId: pack.payRunId,
+  reconciliationRunId: pack.reconciliationRunId,
+  packVersion: pack.packVersion,
+  fileHashSha256: pack.fileHashSha256,
+  bundleHashSha256: pack.bundleHashSha256,
+  signed: Boolean(pack.signature),
+  generatedAt: pack.generatedAt.toISOString(),
+  lockedAt: iso(pack.lockedAt)
+});
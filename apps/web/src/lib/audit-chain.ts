@@ -0,0 +1,171 @@
+import "server-only";
+
+import { prisma } from "@/lib/prisma";
+import { sha256FromString } from "./hash";
+
+export type AuditChainContent = {
+  sequence: number;
+  previousHash: string | null;
+  timestamp: Date;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  actorUserId: string | null;
+  metadata: Record<string, unknown> | null;
+};
+
+export type AuditChainBreak = {
+  eventId: string;
+  sequence: number;
+  timestamp: Date;
+  action: string;
+  kind: "SEQUENCE_GAP" | "PREVIOUS_HASH_MISMATCH" | "HASH_MISMATCH";
+  detail: string;
+};
+
+export type AuditChainVerification = {
+  checkedCount: number;
+  unchainedCount: number;
+  headSequence: number | null;
+  headHash: string | null;
+  breakCount: number;
+  breaks: AuditChainBreak[];
+  verifiedAt: Date;
+};
+
+const VERIFY_BATCH_SIZE = 500;
+const MAX_REPORTED_BREAKS = 100;
+
+// Sorts object keys at every level. The audit CSV export writes metadata in this
+// form so it matches the hashed text.
+export const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+/**
+ * The hashed text is compact JSON with keys sorted at every level, so it can
+ * be rebuilt from an audit CSV export without access to the database. Postgres
+ * reorders JSONB keys, which is why insertion order cannot be relied on.
+ */
+export const serializeAuditChainContent = (content: AuditChainContent): string =>
+  JSON.stringify(
+    sortKeys({
+      sequence: content.sequence,
+      previousHash: content.previousHash,
+      timestamp: content.timestamp.toISOString(),
+      action: content.action,
+      entityType: content.entityType,
+      entityId: content.entityId,
+      actorUserId: content.actorUserId,
+      metadata: content.metadata
+    })
+  );
+
+export const computeAuditEventHash = (content: AuditChainContent): Promise<string> =>
+  sha256FromString(serializeAuditChainContent(content));
+
+const toMetadata = (value: unknown) =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+
+/**
+ * Walks a firm's chain in sequence order and reports every event whose
+ * position, link or contents no longer match what was recorded. Events from
+ * before chaining existed are counted but cannot be checked.
+ */
+export const verifyAuditChain = async (firmId: string): Promise<AuditChainVerification> => {
+  const breaks: AuditChainBreak[] = [];
+  let breakCount = 0;
+  let checkedCount = 0;
+  let expectedSequence = 1;
+  let previousHash: string | null = null;
+  let cursor = 0;
+
+  const reportBreak = (entry: AuditChainBreak) => {
+    breakCount += 1;
+    if (breaks.length < MAX_REPORTED_BREAKS) {
+      breaks.push(entry);
+    }
+  };
+
+  for (;;) {
+    const events = await prisma.auditEvent.findMany({
+      where: { firmId, sequence: { gt: cursor } },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE
+    });
+    if (events.length === 0) {
+      break;
+    }
+
+    for (const event of events) {
+      const sequence = event.sequence ?? 0;
+      const base = {
+        eventId: event.id,
+        sequence,
+        timestamp: event.timestamp,
+        action: event.action
+      };
+
+      if (sequence !== expectedSequence) {
+        reportBreak({
+          ...base,
+          kind: "SEQUENCE_GAP",
+          detail: `Expected sequence ${expectedSequence}; events may have been deleted.`
+        });
+      } else if (event.previousHash !== previousHash) {
+        reportBreak({
+          ...base,
+          kind: "PREVIOUS_HASH_MISMATCH",
+          detail: "Does not link to the preceding event's hash."
+        });
+      }
+
+      const expectedHash = await computeAuditEventHash({
+        sequence,
+        previousHash: event.previousHash,
+        timestamp: event.timestamp,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        actorUserId: event.actorUserId,
+        metadata: toMetadata(event.metadata)
+      });
+      if (expectedHash !== event.hash) {
+        reportBreak({
+          ...base,
+          kind: "HASH_MISMATCH",
+          detail: "Contents no longer match the recorded hash."
+        });
+      }
+
+      checkedCount += 1;
+      expectedSequence = sequence + 1;
+      previousHash = event.hash;
+      cursor = sequence;
+    }
+  }
+
+  const unchainedCount = await prisma.auditEvent.count({
+    where: { firmId, sequence: null }
+  });
+
+  return {
+    checkedCount,
+    unchainedCount,
+    headSequence: checkedCount > 0 ? cursor : null,
+    headHash: previousHash,
+    breakCount,
+    breaks,
+    verifiedAt: new Date()
+  };
+};
@@ -1,10 +1,14 @@
 import "server-only";
 
 import { prisma } from "@/lib/prisma";
+import { sortKeys } from "./audit-chain";
 
 export type AuditExportFilters = {
   firmId: string;
   clientId?: string | null;
+  // A client-scoped user's assigned clients; null or omitted for firm-wide access.
+  clientIds?: readonly string[] | null;
+  payRunId?: string | null;
   from?: Date | null;
   to?: Date | null;
 };
@@ -16,19 +20,17 @@ export type AuditExportRow = {
   entityType: string;
   entityId: string | null;
   actorEmail: string | null;
+  actorUserId: string | null;
   metadata: Record<string, unknown> | null;
+  sequence: number | null;
+  previousHash: string | null;
+  hash: string | null;
 };
 
 const buildEntityFilter = (entityType: string, ids: string[]) =>
   ids.length > 0 ? { entityType, entityId: { in: ids } } : null;
 
-const getClientScopedEntityIds = async (firmId: string, clientId: string) => {
-  const payRuns = await prisma.payRun.findMany({
-    where: { firmId, clientId },
-    select: { id: true }
-  });
-  const payRunIds = payRuns.map((entry) => entry.id);
-
+const getPayRunEntityIds = async (firmId: string, payRunIds: string[]) => {
   const [imports, exceptions, packs] = payRunIds.length
     ? await Promise.all([
         prisma.import.findMany({
@@ -46,26 +48,47 @@ const getClientScopedEntityIds = async (firmId: string, clientId: string) => {
       ])
     : [[], [], []];
 
+  return {
+    payRunIds,
+    importIds: imports.map((entry) => entry.id),
+    exceptionIds: exceptions.map((entry) => entry.id),
+    packIds: packs.map((entry) => entry.id)
+  };
+};
+
+const getClientScopedEntityIds = async (firmId: string, clientIds: string[]) => {
+  const payRuns = await prisma.payRun.findMany({
+    where: { firmId, clientId: { in: clientIds } },
+    select: { id: true }
+  });
+
   const templates = await prisma.mappingTemplate.findMany({
-    where: { firmId, clientId },
+    where: { firmId, clientId: { in: clientIds } },
     select: { id: true }
   });
 
   return {
-    payRunIds,
-    importIds: imports.map((entry) => entry.id),
-    exceptionIds: exceptions.map((entry) => entry.id),
-    packIds: packs.map((entry) => entry.id),
+    ...(await getPayRunEntityIds(
+      firmId,
+      payRuns.map((entry) => entry.id)
+    )),
     templateIds: templates.map((entry) => entry.id)
   };
 };
 
-export const getAuditExportRows = async ({
+/**
+ * The audit event filter for the export and the audit log page. A client
+ * filter, or a client-scoped user, limits events to those about the clients'
+ * own records.
+ */
+export const buildAuditEventWhere = async ({
   firmId,
   clientId,
+  clientIds,
+  payRunId,
   from,
   to
-}: AuditExportFilters): Promise<AuditExportRow[]> => {
+}: AuditExportFilters) => {
   const where: {
     firmId: string;
     timestamp?: { gte?: Date; lte?: Date };
@@ -79,10 +102,16 @@ export const getAuditExportRows = async ({
     };
   }
 
-  if (clientId) {
-    const ids = await getClientScopedEntityIds(firmId, clientId);
+  const scopedClientIds = clientId
+    ? [clientId].filter((id) => !clientIds || clientIds.includes(id))
+    : clientIds
+      ? [...clientIds]
+      : null;
+
+  if (scopedClientIds) {
+    const ids = await getClientScopedEntityIds(firmId, scopedClientIds);
     const orFilters = [
-      { entityType: "CLIENT", entityId: clientId },
+      buildEntityFilter("CLIENT", scopedClientIds),
       buildEntityFilter("PAY_RUN", ids.payRunIds),
       buildEntityFilter("IMPORT", ids.importIds),
       buildEntityFilter("EXCEPTION", ids.exceptionIds),
@@ -91,11 +120,27 @@ export const getAuditExportRows = async ({
     ].filter(Boolean) as Array<Record<string, unknown>>;
 
     where.OR = orFilters;
+  } else if (payRunId) {
+    const ids = await getPayRunEntityIds(firmId, [payRunId]);
+    where.OR = [
+      buildEntityFilter("PAY_RUN", ids.payRunIds),
+      buildEntityFilter("IMPORT", ids.importIds),
+      buildEntityFilter("EXCEPTION", ids.exceptionIds),
+      buildEntityFilter("PACK", ids.packIds)
+    ].filter(Boolean) as Array<Record<string, unknown>>;
   }
 
+  return where;
+};
+
+export const getAuditExportRows = async (
+  filters: AuditExportFilters
+): Promise<AuditExportRow[]> => {
+  const where = await buildAuditEventWhere(filters);
+
   const events = await prisma.auditEvent.findMany({
     where,
-    orderBy: { timestamp: "asc" },
+    orderBy: [{ timestamp: "asc" }, { sequence: "asc" }],
     include: {
       actorUser: {
         select: { email: true }
@@ -110,10 +155,14 @@ export const getAuditExportRows = async ({
     entityType: event.entityType,
     entityId: event.entityId,
     actorEmail: event.actorUser?.email ?? null,
+    actorUserId: event.actorUserId,
     metadata:
       event.metadata && typeof event.metadata === "object"
         ? (event.metadata as Record<string, unknown>)
-        : null
+        : null,
+    sequence: event.sequence,
+    previousHash: event.previousHash,
+    hash: event.hash
   }));
 };
 
@@ -128,6 +177,11 @@ const escapeCsvValue = (value: string | number | null | undefined) => {
   return stringValue;
 };
 
+/**
+ * The chain columns come last so existing consumers keep their column
+ * positions. `metadata` is written with sorted keys, the same form that is
+ * hashed, so each row's hash can be recomputed from the CSV alone.
+ */
 export const buildAuditCsv = (rows: AuditExportRow[]): string => {
   const header = [
     "timestamp",
@@ -135,7 +189,11 @@ export const buildAuditCsv = (rows: AuditExportRow[]): string => {
     "entity_type",
     "entity_id",
     "actor_email",
-    "metadata"
+    "metadata",
+    "actor_user_id",
+    "sequence",
+    "previous_hash",
+    "hash"
   ];
 
   const lines = [header.join(",")];
@@ -147,7 +205,11 @@ export const buildAuditCsv = (rows: AuditExportRow[]): string => {
         escapeCsvValue(row.entityType),
         escapeCsvValue(row.entityId ?? ""),
         escapeCsvValue(row.actorEmail ?? ""),
-        escapeCsvValue(row.metadata ? JSON.stringify(row.metadata) : "")
+        escapeCsvValue(row.metadata ? JSON.stringify(sortKeys(row.metadata)) : ""),
+        escapeCsvValue(row.actorUserId ?? ""),
+        escapeCsvValue(row.sequence),
+        escapeCsvValue(row.previousHash ?? ""),
+        escapeCsvValue(row.hash ?? "")
       ].join(",")
     );
   });
@@ -4,7 +4,9 @@ import {
   type AuditAction,
   type AuditEntityType
 } from "@/lib/prisma";
+import { computeAuditEventHash } from "./audit-chain";
 import { sanitizeAuditMetadata, type AuditMetadata } from "./audit-metadata";
+import { enqueueWebhookDeliveries } from "./webhook-deliveries";
 
 type AuditEventInput = {
   action: AuditAction;
@@ -24,14 +26,44 @@ export const recordAuditEvent = async (
 ) => {
   const metadata = sanitizeAuditMetadata(input.metadata);
 
-  return prisma.auditEvent.create({
-    data: {
-      firmId: context.firmId,
-      actorUserId: context.actorUserId ?? null,
+  return prisma.$transaction(async (tx) => {
+    // One writer per firm at a time, so every event links to exactly one predecessor.
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${context.firmId}))`;
+
+    const head = await tx.auditEvent.findFirst({
+      where: { firmId: context.firmId, sequence: { not: null } },
+      orderBy: { sequence: "desc" },
+      select: { sequence: true, hash: true }
+    });
+    const sequence = (head?.sequence ?? 0) + 1;
+    const previousHash = head?.hash ?? null;
+    const timestamp = new Date();
+    const hash = await computeAuditEventHash({
+      sequence,
+      previousHash,
+      timestamp,
       action: input.action,
       entityType: input.entityType,
       entityId: input.entityId ?? null,
-      metadata: metadata ?? undefined
-    }
+      actorUserId: context.actorUserId ?? null,
+      metadata
+    });
+
+    const event = await tx.auditEvent.create({
+      data: {
+        firmId: context.firmId,
+        actorUserId: context.actorUserId ?? null,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId ?? null,
+        timestamp,
+        metadata: metadata ?? undefined,
+        sequence,
+        previousHash,
+        hash
+      }
+    });
+    await enqueueWebhookDeliveries(tx, event);
+    return event;
   });
 };
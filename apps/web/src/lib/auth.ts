@@ -1,8 +1,19 @@
 import "server-only";
 import { compare, hash } from "bcryptjs";
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { prisma, type User } from "@/lib/prisma";
-import { getSession } from "./session";
+import { resolveClientIds } from "./client-access";
+import { isMfaRequired } from "./mfa";
+import { resolveUserPermissions } from "./permissions";
+import type { OidcAuthorizationRequest } from "./oidc";
+import { getSession, type SessionData } from "./session";
+import {
+  createUserSession,
+  endUserSession,
+  parseSessionSettings,
+  validateUserSession
+} from "./user-sessions";
 
 export const requireSession = async () => {
   const session = await getSession();
@@ -18,6 +29,11 @@ export const requireUser = async () => {
     where: {
       id: session.userId,
       status: "ACTIVE"
+    },
+    include: {
+      firm: { select: { defaults: true } },
+      firmRole: { select: { name: true, permissions: true } },
+      clientAssignments: { select: { clientId: true } }
     }
   });
 
@@ -25,17 +41,96 @@ export const requireUser = async () => {
     redirect("/login");
   }
 
-  return { session, user };
+  const userSession = await validateUserSession(
+    session.sessionToken,
+    user.id,
+    parseSessionSettings(user.firm.defaults)
+  );
+  if (!userSession) {
+    redirect("/login");
+  }
+
+  if (!user.mfaEnabledAt && isMfaRequired(user.role, user.firm.defaults)) {
+    redirect("/mfa/setup");
+  }
+
+  const permissions = resolveUserPermissions(user);
+  return {
+    session,
+    currentSessionId: userSession.id,
+    user: {
+      ...user,
+      permissions,
+      clientIds: resolveClientIds({ ...user, permissions })
+    }
+  };
+};
+
+const requestClientInfo = () => {
+  const requestHeaders = headers();
+  return {
+    userAgent: requestHeaders.get("user-agent"),
+    ipAddress: requestHeaders.get("x-forwarded-for")?.split(",")[0]?.trim() ?? null
+  };
 };
 
 export const createSessionForUser = async (user: User): Promise<void> => {
+  const { token } = await createUserSession(user, requestClientInfo());
   const session = await getSession();
+  // Signing in again in the same browser replaces the earlier session.
+  if (session.sessionToken) {
+    await endUserSession(session.sessionToken);
+  }
+  session.sessionToken = token;
   session.userId = user.id;
   session.firmId = user.firmId;
   session.role = user.role;
+  session.mfaPendingUserId = undefined;
+  session.mfaPendingAt = undefined;
+  session.oidcLogin = undefined;
+  await session.save();
+};
+
+const mfaChallengeTtlMs = 10 * 60 * 1000;
+const oidcLoginTtlMs = 10 * 60 * 1000;
+
+/**
+ * Holds a password-verified user until they pass the MFA challenge. No
+ * signed-in session exists until createSessionForUser runs.
+ */
+export const startMfaChallenge = async (user: User): Promise<void> => {
+  const session = await getSession();
+  session.mfaPendingUserId = user.id;
+  session.mfaPendingAt = Date.now();
+  session.oidcLogin = undefined;
   await session.save();
 };
 
+/** Drops a pending MFA challenge, e.g. once it is locked; the user signs in again. */
+export const clearMfaChallenge = async (): Promise<void> => {
+  const session = await getSession();
+  session.mfaPendingUserId = undefined;
+  session.mfaPendingAt = undefined;
+  await session.save();
+};
+
+export const getMfaChallengeUser = async () => {
+  const session = await getSession();
+  if (
+    !session.mfaPendingUserId ||
+    !session.mfaPendingAt ||
+    Date.now() - session.mfaPendingAt > mfaChallengeTtlMs
+  ) {
+    return null;
+  }
+  return prisma.user.findFirst({
+    where: {
+      id: session.mfaPendingUserId,
+      status: "ACTIVE"
+    }
+  });
+};
+
 export const verifyPassword = async (
   password: string,
   passwordHash: string | null
@@ -48,15 +143,46 @@ export const verifyPassword = async (
 
 export const hashPassword = async (password: string): Promise<string> => hash(password, 12);
 
+export const startOidcLogin = async (
+  firmId: string,
+  request: OidcAuthorizationRequest
+): Promise<void> => {
+  const session = await getSession();
+  session.oidcLogin = { firmId, ...request, startedAt: Date.now() };
+  await session.save();
+};
+
+/** Returns and clears the pending OIDC sign-in, so each state value is used once. */
+export const takeOidcLogin = async (): Promise<SessionData["oidcLogin"] | null> => {
+  const session = await getSession();
+  const pending = session.oidcLogin;
+  if (!pending) {
+    return null;
+  }
+  session.oidcLogin = undefined;
+  await session.save();
+  return Date.now() - pending.startedAt > oidcLoginTtlMs ? null : pending;
+};
+
 export const getActiveUser = async () => {
   const session = await getSession();
   if (!session.userId) {
     return null;
   }
-  return prisma.user.findFirst({
+  const user = await prisma.user.findFirst({
     where: {
       id: session.userId,
       status: "ACTIVE"
-    }
+    },
+    include: { firm: { select: { defaults: true } } }
   });
+  if (!user) {
+    return null;
+  }
+  const userSession = await validateUserSession(
+    session.sessionToken,
+    user.id,
+    parseSessionSettings(user.firm.defaults)
+  );
+  return userSession ? user : null;
 };
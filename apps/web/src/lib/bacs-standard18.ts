@@ -0,0 +1,173 @@
+import { ImportParseError } from "./errors";
+
+// BACS Standard 18 payment files are fixed-width text: optional 80-character
+// labels (VOL1, HDR1/HDR2, UHL1, EOF1/EOF2, UTL1) around 100-character data
+// records, or 106 when each record carries its own processing date.
+
+export type BacsRecord = {
+  lineNumber: number;
+  sortCode: string;
+  accountNumber: string;
+  transactionCode: string;
+  originatingSortCode: string;
+  originatingAccountNumber: string;
+  amountPence: number;
+  serviceUserName: string;
+  reference: string;
+  accountName: string;
+  // ISO date from the record, or from the UHL1 label it follows.
+  processingDate: string | null;
+};
+
+export type BacsStandard18File = {
+  credits: BacsRecord[];
+  contras: BacsRecord[];
+};
+
+const labelPattern = /^(?:VOL|HDR|UHL|EOF|UTL)\d/;
+const fileStartPattern = /^(?:VOL1|HDR1|UHL1)/;
+// Sort code, account, account type, transaction code, originating sort code and
+// account, four free-format characters, then the amount in pence.
+const dataRecordPattern = /^\d{6}\d{8}\d(?:99|Z4|Z5|01|17|18|19)\d{6}\d{8}.{4}\d{11}/;
+
+const creditTransactionCodes = ["99", "Z4", "Z5"];
+const contraTransactionCode = "17";
+
+/** Column headers of the table a Standard 18 file is read into; one row per credit. */
+export const bacsStandard18Columns = [
+  "Line",
+  "Sort code",
+  "Account number",
+  "Payee name",
+  "Amount",
+  "Reference",
+  "Transaction code",
+  "Processing date"
+];
+
+const firstLine = (buffer: Buffer) =>
+  buffer.subarray(0, 128).toString("latin1").split(/\r?\n/)[0] ?? "";
+
+/** True when the file starts with a Standard 18 label or data record. */
+export const isBacsStandard18 = (buffer: Buffer) => {
+  const line = firstLine(buffer);
+  return fileStartPattern.test(line) || dataRecordPattern.test(line);
+};
+
+// Dates are " yyddd": two-digit year and day of the year.
+export const parseBacsDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{2})(\d{3})$/);
+  if (!match) {
+    return null;
+  }
+  const year = 2000 + Number(match[1]);
+  const day = Number(match[2]);
+  const date = new Date(Date.UTC(year, 0, day));
+  if (day < 1 || date.getUTCFullYear() !== year) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+const formatSortCode = (value: string) =>
+  `${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+
+const formatPence = (value: number) => `£${(value / 100).toFixed(2)}`;
+
+const readRecord = (
+  line: string,
+  lineNumber: number,
+  labelProcessingDate: string | null
+): BacsRecord => {
+  const padded = line.padEnd(106);
+  return {
+    lineNumber,
+    sortCode: formatSortCode(padded.slice(0, 6)),
+    accountNumber: padded.slice(6, 14),
+    transactionCode: padded.slice(15, 17),
+    originatingSortCode: formatSortCode(padded.slice(17, 23)),
+    originatingAccountNumber: padded.slice(23, 31),
+    amountPence: Number(padded.slice(35, 46)),
+    serviceUserName: padded.slice(46, 64).trim(),
+    reference: padded.slice(64, 82).trim(),
+    accountName: padded.slice(82, 100).trim(),
+    processingDate: parseBacsDate(padded.slice(100, 106)) ?? labelProcessingDate
+  };
+};
+
+const isContra = (record: BacsRecord) =>
+  record.transactionCode === contraTransactionCode &&
+  record.sortCode === record.originatingSortCode &&
+  record.accountNumber === record.originatingAccountNumber;
+
+const sumPence = (records: BacsRecord[]) =>
+  records.reduce((total, record) => total + record.amountPence, 0);
+
+/**
+ * Reads the credit and contra records of a Standard 18 file. Debits other than
+ * contras are rejected, and when contras are present their total must equal
+ * the credits they balance.
+ */
+export const parseBacsStandard18 = (text: string): BacsStandard18File => {
+  const credits: BacsRecord[] = [];
+  const contras: BacsRecord[] = [];
+  let processingDate: string | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/\s+$/, "");
+    if (!line) {
+      return;
+    }
+    if (labelPattern.test(line)) {
+      if (line.startsWith("UHL1")) {
+        processingDate = parseBacsDate(line.slice(4, 10));
+      }
+      return;
+    }
+    if (!dataRecordPattern.test(line)) {
+      throw new ImportParseError(
+        `Invalid BACS file. Line ${lineNumber} is not a Standard 18 record.`
+      );
+    }
+
+    const record = readRecord(line, lineNumber, processingDate);
+    if (creditTransactionCodes.includes(record.transactionCode)) {
+      credits.push(record);
+    } else if (isContra(record)) {
+      contras.push(record);
+    } else {
+      throw new ImportParseError(
+        `Invalid BACS file. Line ${lineNumber} is a debit (transaction code ` +
+          `${record.transactionCode}); only credit payments can be imported.`
+      );
+    }
+  });
+
+  if (credits.length === 0) {
+    throw new ImportParseError("Invalid BACS file. No credit records were found.");
+  }
+  if (contras.length > 0 && sumPence(contras) !== sumPence(credits)) {
+    throw new ImportParseError(
+      `Invalid BACS file. The contra total of ${formatPence(sumPence(contras))} does not ` +
+        `match the credit records total of ${formatPence(sumPence(credits))}.`
+    );
+  }
+
+  return { credits, contras };
+};
+
+/** The credits as a table with `bacsStandard18Columns` as its header row. */
+export const bacsStandard18Rows = (file: BacsStandard18File): string[][] => [
+  bacsStandard18Columns,
+  ...file.credits.map((record) => [
+    String(record.lineNumber),
+    record.sortCode,
+    record.accountNumber,
+    record.accountName,
+    (record.amountPence / 100).toFixed(2),
+    record.reference,
+    record.transactionCode,
+    record.processingDate ?? ""
+  ])
+];
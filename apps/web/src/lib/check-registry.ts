@@ -0,0 +1,763 @@
+import "server-only";
+
+import type { CheckSeverity, Region, SourceType } from "@/lib/prisma";
+import {
+  matchEmployeesToBankLines,
+  type BankPaymentLine,
+  type RegisterEmployeeLine
+} from "./line-matching";
+import {
+  evaluateBankDuplicatePayments,
+  evaluateBankFileControlTotals,
+  evaluateBankNegativePayments,
+  evaluateBankPaymentCountMismatch,
+  evaluateEmployeeDeductionsToStatutory,
+  evaluateEmployeeNetToBankLines,
+  evaluateJournalDebitsEqualCredits,
+  evaluatePeriodEmployeeNetVariance,
+  evaluatePeriodHeadcountVariance,
+  evaluatePeriodTotalVariance,
+  evaluateRegisterDeductionsToStatutoryTotals,
+  evaluateRegisterNetToBankTotal,
+  evaluateRegisterPensionToScheduleTotal,
+  evaluateRegisterToJournalGroupedTotals,
+  evaluateRegisterToJournalTotal,
+  type CheckEvaluation,
+  type EmployeeCategoryTotals,
+  type GroupedTotals,
+  type PriorPeriodReference,
+  type TotalWithRows
+} from "./reconciliation-checks";
+import { sepaControlMismatches, type SepaControlTotals } from "./sepa-pain001";
+import type { ToleranceSettings } from "./tolerances";
+
+export type ToleranceKey = keyof ToleranceSettings;
+
+export type PriorRegisterSnapshot = {
+  reference: PriorPeriodReference;
+  netTotals: TotalWithRows;
+  grossTotals: TotalWithRows | null;
+  employerCostsTotals: TotalWithRows | null;
+  employees: RegisterEmployeeLine[];
+};
+
+export type CheckInputs = {
+  imports: {
+    registerImportId: string;
+    bankImportId: string;
+    glImportId: string;
+    statutoryImportId: string | null;
+    pensionScheduleImportId: string | null;
+  };
+  register: {
+    net: TotalWithRows;
+    gross: TotalWithRows;
+    tax: TotalWithRows;
+    employerCosts: TotalWithRows;
+    pension: TotalWithRows;
+    byCategory: Record<string, TotalWithRows>;
+    // Categories whose register column is mapped, with per-employee totals for each.
+    mappedCategories: string[];
+    employeeDeductions: EmployeeCategoryTotals[];
+    employees: RegisterEmployeeLine[];
+    // Totals by department; null when the register has no department column.
+    groups: {
+      net: GroupedTotals;
+      gross: GroupedTotals | null;
+      tax: GroupedTotals;
+      employerCosts: GroupedTotals;
+      pension: GroupedTotals;
+    } | null;
+    grossMissing: boolean;
+    employerCostsMissing: boolean;
+    pensionMissing: boolean;
+  };
+  journal: {
+    debits: TotalWithRows;
+    credits: TotalWithRows;
+    expense: TotalWithRows;
+    employerCosts: TotalWithRows;
+    netPayable: TotalWithRows;
+    tax: TotalWithRows;
+    pensionPayable: TotalWithRows;
+    // Totals by cost centre; null when the journal has no cost centre column.
+    groups: {
+      expense: GroupedTotals;
+      employerCosts: GroupedTotals;
+      netPayable: GroupedTotals;
+      tax: GroupedTotals;
+      pensionPayable: GroupedTotals;
+    } | null;
+    classificationMissing: boolean;
+  };
+  bank: {
+    totals: TotalWithRows;
+    payments: Array<BankPaymentLine & { payeeKey: string }>;
+    // Declared totals from a SEPA payment file; null for other bank files.
+    fileControls: SepaControlTotals[] | null;
+  };
+  statutory: {
+    totalsByCategory: Record<string, TotalWithRows>;
+    categoryLabels: Record<string, string>;
+    unmappedCategories: string[];
+    // Keyed amounts of statutory rows that carry an employee ID.
+    employees: EmployeeCategoryTotals[];
+  };
+  pensionSchedule: {
+    totals: TotalWithRows;
+    skipReason?: string;
+  };
+  priorRegister: PriorRegisterSnapshot | null;
+  lineMatchingEnabled: boolean;
+};
+
+export type CheckDefinition = {
+  checkType: string;
+  label: string;
+  sources: SourceType[];
+  toleranceKey: ToleranceKey | null;
+  // The severity the evaluator reports on FAIL; clients can override it per check.
+  defaultSeverity: CheckSeverity;
+  regions: Region[];
+  // Returning null means the check does not apply to this pay run (e.g. no prior period).
+  evaluate: (inputs: CheckInputs, tolerances: ToleranceSettings) => CheckEvaluation | null;
+};
+
+type TolerancedCheck<K extends ToleranceKey> = Omit<
+  CheckDefinition,
+  "toleranceKey" | "evaluate"
+> & {
+  toleranceKey: K;
+  evaluate: (inputs: CheckInputs, tolerance: ToleranceSettings[K]) => CheckEvaluation | null;
+};
+
+// Hands each evaluator only the tolerance it declares, typed by its key.
+const defineCheck = <K extends ToleranceKey>({ evaluate, ...definition }: TolerancedCheck<K>) =>
+  ({
+    ...definition,
+    evaluate: (inputs: CheckInputs, tolerances: ToleranceSettings) =>
+      evaluate(inputs, tolerances[definition.toleranceKey])
+  }) satisfies CheckDefinition;
+
+const ALL_REGIONS: Region[] = ["UK", "IE"];
+// SEPA pain.001 control totals are checked for Irish clients only; UK clients pay
+// by BACS, whose contra records are checked when the file is parsed.
+const IE_ONLY: Region[] = ["IE"];
+const CLASSIFICATION_MISSING_REASON =
+  "Account classifications are required to reconcile journal totals.";
+
+const COST_CENTRE_MISSING_REASON =
+  "Journal cost centre is not mapped, so department totals cannot be compared.";
+
+type RegisterGroups = NonNullable<CheckInputs["register"]["groups"]>;
+type JournalGroups = NonNullable<CheckInputs["journal"]["groups"]>;
+
+// Department checks run whenever the register maps a department. A journal
+// without a cost centre column warns rather than skipping, so the gap is visible.
+const defineGroupedJournalCheck = ({
+  checkType,
+  label,
+  registerGroups,
+  journalGroups,
+  leftLabel,
+  rightLabel,
+  missingReason
+}: {
+  checkType: string;
+  label: string;
+  registerGroups: (groups: RegisterGroups) => GroupedTotals;
+  journalGroups: (groups: JournalGroups) => GroupedTotals;
+  leftLabel: string;
+  rightLabel: string;
+  missingReason?: (inputs: CheckInputs) => string | undefined;
+}) =>
+  defineCheck({
+    checkType,
+    label,
+    sources: ["REGISTER", "GL"],
+    toleranceKey: "journalTieOut",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) => {
+      const register = inputs.register.groups;
+      const journal = inputs.journal.groups;
+      if (!register) {
+        return null;
+      }
+      return evaluateRegisterToJournalGroupedTotals({
+        checkType,
+        registerGroups: registerGroups(register),
+        journalGroups: journal ? journalGroups(journal) : {},
+        registerImportId: inputs.imports.registerImportId,
+        journalImportId: inputs.imports.glImportId,
+        tolerance,
+        leftLabel,
+        rightLabel,
+        missingReason: inputs.journal.classificationMissing
+          ? CLASSIFICATION_MISSING_REASON
+          : !journal
+            ? COST_CENTRE_MISSING_REASON
+            : missingReason?.(inputs)
+      });
+    }
+  });
+
+export const checkRegistry: CheckDefinition[] = [
+  defineCheck({
+    checkType: "CHK_REGISTER_NET_TO_BANK_TOTAL",
+    label: "Register vs Bank totals",
+    sources: ["REGISTER", "BANK"],
+    toleranceKey: "registerNetToBank",
+    defaultSeverity: "CRITICAL",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterNetToBankTotal({
+        register: inputs.register.net,
+        bank: inputs.bank.totals,
+        registerImportId: inputs.imports.registerImportId,
+        bankImportId: inputs.imports.bankImportId,
+        tolerance
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_JOURNAL_DEBITS_EQUAL_CREDITS",
+    label: "Journal balance",
+    sources: ["GL"],
+    toleranceKey: "journalBalance",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateJournalDebitsEqualCredits({
+        debits: inputs.journal.debits,
+        credits: inputs.journal.credits,
+        glImportId: inputs.imports.glImportId,
+        tolerance
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_REGISTER_DEDUCTIONS_TO_STATUTORY_TOTALS",
+    label: "Register vs Statutory totals",
+    sources: ["REGISTER", "STATUTORY"],
+    toleranceKey: "statutoryTotals",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterDeductionsToStatutoryTotals({
+        registerTotalsByCategory: inputs.register.byCategory,
+        statutoryTotalsByCategory: inputs.statutory.totalsByCategory,
+        registerImportId: inputs.imports.registerImportId,
+        statutoryImportId: inputs.imports.statutoryImportId,
+        tolerance,
+        categoryLabels: inputs.statutory.categoryLabels,
+        unmappedCategories: inputs.statutory.unmappedCategories
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_EMPLOYEE_DEDUCTIONS_TO_STATUTORY",
+    label: "Employee deductions vs Statutory",
+    sources: ["REGISTER", "STATUTORY"],
+    toleranceKey: "statutoryTotals",
+    defaultSeverity: "MEDIUM",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) => {
+      const statutoryImportId = inputs.imports.statutoryImportId;
+      const categories = inputs.register.mappedCategories.filter((category) =>
+        inputs.statutory.employees.some((employee) => employee.byCategory[category])
+      );
+      if (!statutoryImportId || categories.length === 0) {
+        return null;
+      }
+      return evaluateEmployeeDeductionsToStatutory({
+        registerEmployees: inputs.register.employeeDeductions,
+        statutoryEmployees: inputs.statutory.employees,
+        categories,
+        registerImportId: inputs.imports.registerImportId,
+        statutoryImportId,
+        tolerance,
+        categoryLabels: inputs.statutory.categoryLabels
+      });
+    }
+  }),
+  defineCheck({
+    checkType: "CHK_REGISTER_PENSION_TO_PENSION_SCHEDULE",
+    label: "Register pension vs Pension schedule",
+    sources: ["REGISTER", "PENSION_SCHEDULE"],
+    toleranceKey: "statutoryTotals",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterPensionToScheduleTotal({
+        registerTotal: inputs.register.pension,
+        scheduleTotal: inputs.pensionSchedule.totals,
+        registerImportId: inputs.imports.registerImportId,
+        scheduleImportId: inputs.imports.pensionScheduleImportId,
+        tolerance,
+        missingReason: inputs.register.pensionMissing
+          ? "Register pension columns are not mapped."
+          : inputs.pensionSchedule.skipReason
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE",
+    label: "Register gross vs Journal expense",
+    sources: ["REGISTER", "GL"],
+    toleranceKey: "journalTieOut",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterToJournalTotal({
+        checkType: "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE",
+        registerTotal: inputs.register.gross,
+        journalTotal: inputs.journal.expense,
+        registerImportId: inputs.imports.registerImportId,
+        journalImportId: inputs.imports.glImportId,
+        tolerance,
+        leftLabel: "Register gross total",
+        rightLabel: "Journal payroll expense total",
+        missingReason: inputs.journal.classificationMissing
+          ? CLASSIFICATION_MISSING_REASON
+          : inputs.register.grossMissing
+            ? "Register gross pay is not mapped."
+            : undefined
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE",
+    label: "Register employer costs vs Journal",
+    sources: ["REGISTER", "GL"],
+    toleranceKey: "journalTieOut",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterToJournalTotal({
+        checkType: "CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE",
+        registerTotal: inputs.register.employerCosts,
+        journalTotal: inputs.journal.employerCosts,
+        registerImportId: inputs.imports.registerImportId,
+        journalImportId: inputs.imports.glImportId,
+        tolerance,
+        leftLabel: "Register employer costs total",
+        rightLabel: "Journal employer costs total",
+        missingReason: inputs.journal.classificationMissing
+          ? CLASSIFICATION_MISSING_REASON
+          : inputs.register.employerCostsMissing
+            ? "Register employer cost columns are not mapped."
+            : undefined
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY",
+    label: "Register net pay vs Journal liability",
+    sources: ["REGISTER", "GL"],
+    toleranceKey: "journalTieOut",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterToJournalTotal({
+        checkType: "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY",
+        registerTotal: inputs.register.net,
+        journalTotal: inputs.journal.netPayable,
+        registerImportId: inputs.imports.registerImportId,
+        journalImportId: inputs.imports.glImportId,
+        tolerance,
+        leftLabel: "Register net pay total",
+        rightLabel: "Journal net wages liability",
+        missingReason: inputs.journal.classificationMissing
+          ? CLASSIFICATION_MISSING_REASON
+          : undefined
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY",
+    label: "Register tax vs Journal liability",
+    sources: ["REGISTER", "GL"],
+    toleranceKey: "journalTieOut",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterToJournalTotal({
+        checkType: "CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY",
+        registerTotal: inputs.register.tax,
+        journalTotal: inputs.journal.tax,
+        registerImportId: inputs.imports.registerImportId,
+        journalImportId: inputs.imports.glImportId,
+        tolerance,
+        leftLabel: "Register tax liabilities total",
+        rightLabel: "Journal tax liabilities total",
+        missingReason: inputs.journal.classificationMissing
+          ? CLASSIFICATION_MISSING_REASON
+          : undefined
+      })
+  }),
+  defineCheck({
+    checkType: "CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY",
+    label: "Register pension vs Journal liability",
+    sources: ["REGISTER", "GL"],
+    toleranceKey: "journalTieOut",
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      evaluateRegisterToJournalTotal({
+        checkType: "CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY",
+        registerTotal: inputs.register.pension,
+        journalTotal: inputs.journal.pensionPayable,
+        registerImportId: inputs.imports.registerImportId,
+        journalImportId: inputs.imports.glImportId,
+        tolerance,
+        leftLabel: "Register pension liabilities total",
+        rightLabel: "Journal pension liability total",
+        missingReason: inputs.journal.classificationMissing
+          ? CLASSIFICATION_MISSING_REASON
+          : inputs.register.pensionMissing
+            ? "Register pension columns are not mapped."
+            : undefined
+      })
+  }),
+  {
+    checkType: "CHK_BANK_DUPLICATE_PAYMENTS",
+    label: "Bank duplicate payments",
+    sources: ["BANK"],
+    toleranceKey: null,
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs) => {
+      const duplicates: TotalWithRows["rows"] = [];
+      const seen = new Map<string, TotalWithRows["rows"]>();
+      for (const payment of inputs.bank.payments) {
+        const key = `${payment.payeeKey}|${payment.amountCents}|${payment.reference}`;
+        const bucket = seen.get(key) ?? [];
+        bucket.push({
+          rowNumber: payment.rowNumber,
+          amountCents: Math.abs(payment.amountCents)
+        });
+        seen.set(key, bucket);
+      }
+      for (const bucket of seen.values()) {
+        if (bucket.length > 1) {
+          duplicates.push(...bucket);
+        }
+      }
+      return evaluateBankDuplicatePayments({
+        duplicateRows: duplicates,
+        bankImportId: inputs.imports.bankImportId
+      });
+    }
+  },
+  {
+    checkType: "CHK_BANK_NEGATIVE_PAYMENTS",
+    label: "Bank negative payments",
+    sources: ["BANK"],
+    toleranceKey: null,
+    defaultSeverity: "HIGH",
+    regions: ALL_REGIONS,
+    evaluate: (inputs) =>
+      evaluateBankNegativePayments({
+        negativeRows: inputs.bank.payments
+          .filter((payment) => payment.amountCents <= 0)
+          .map((payment) => ({
+            rowNumber: payment.rowNumber,
+            amountCents: Math.abs(payment.amountCents)
+          })),
+        bankImportId: inputs.imports.bankImportId
+      })
+  },
+  {
+    checkType: "CHK_BANK_FILE_CONTROL_TOTALS",
+    label: "Bank file control totals",
+    sources: ["BANK"],
+    toleranceKey: null,
+    defaultSeverity: "HIGH",
+    regions: IE_ONLY,
+    evaluate: (inputs) => {
+      const controls = inputs.bank.fileControls;
+      const fileTotals = controls?.find((control) => control.scope === "Group header");
+      if (!controls || !fileTotals) {
+        return null;
+      }
+      return evaluateBankFileControlTotals({
+        fileTotals,
+        mismatches: sepaControlMismatches(controls).map((control) => ({
+          ...control,
+          rows: inputs.bank.payments
+            .filter(
+              (payment) =>
+                payment.rowNumber >= control.firstRowNumber &&
+                payment.rowNumber <= control.lastRowNumber
+            )
+            .map((payment) => ({
+              rowNumber: payment.rowNumber,
+              amountCents: Math.abs(payment.amountCents)
+            }))
+        })),
+        bankImportId: inputs.imports.bankImportId
+      });
+    }
+  },
+  defineCheck({
+    checkType: "CHK_BANK_PAYMENT_COUNT_MISMATCH",
+    label: "Bank payment count",
+    sources: ["REGISTER", "BANK"],
+    toleranceKey: "bankCountMismatchPercent",
+    defaultSeverity: "LOW",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerancePercent) =>
+      evaluateBankPaymentCountMismatch({
+        registerCount: inputs.register.net.rows.filter((row) => row.amountCents > 0)
+          .length,
+        bankCount: inputs.bank.payments.filter((payment) => payment.amountCents > 0)
+          .length,
+        tolerancePercent
+      })
+  }),
+  defineGroupedJournalCheck({
+    checkType: "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE_BY_GROUP",
+    label: "Register gross vs Journal expense by department",
+    registerGroups: (groups) => groups.gross ?? {},
+    journalGroups: (groups) => groups.expense,
+    leftLabel: "Register gross by department",
+    rightLabel: "Journal payroll expense by cost centre",
+    missingReason: (inputs) =>
+      inputs.register.grossMissing ? "Register gross pay is not mapped." : undefined
+  }),
+  defineGroupedJournalCheck({
+    checkType: "CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE_BY_GROUP",
+    label: "Register employer costs vs Journal by department",
+    registerGroups: (groups) => groups.employerCosts,
+    journalGroups: (groups) => groups.employerCosts,
+    leftLabel: "Register employer costs by department",
+    rightLabel: "Journal employer cost liabilities by cost centre",
+    missingReason: (inputs) =>
+      inputs.register.employerCostsMissing
+        ? "Register employer cost columns are not mapped."
+        : undefined
+  }),
+  defineGroupedJournalCheck({
+    checkType: "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY_BY_GROUP",
+    label: "Register net pay vs Journal liability by department",
+    registerGroups: (groups) => groups.net,
+    journalGroups: (groups) => groups.netPayable,
+    leftLabel: "Register net pay by department",
+    rightLabel: "Journal net wages liability by cost centre"
+  }),
+  defineGroupedJournalCheck({
+    checkType: "CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY_BY_GROUP",
+    label: "Register tax vs Journal liability by department",
+    registerGroups: (groups) => groups.tax,
+    journalGroups: (groups) => groups.tax,
+    leftLabel: "Register tax deductions by department",
+    rightLabel: "Journal tax liabilities by cost centre"
+  }),
+  defineGroupedJournalCheck({
+    checkType: "CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY_BY_GROUP",
+    label: "Register pension vs Journal liability by department",
+    registerGroups: (groups) => groups.pension,
+    journalGroups: (groups) => groups.pensionPayable,
+    leftLabel: "Register pension liabilities by department",
+    rightLabel: "Journal pension liability by cost centre",
+    missingReason: (inputs) =>
+      inputs.register.pensionMissing ? "Register pension columns are not mapped." : undefined
+  }),
+  defineCheck({
+    checkType: "CHK_PERIOD_TOTAL_VARIANCE",
+    label: "Period totals vs prior period",
+    sources: ["REGISTER"],
+    toleranceKey: "periodTotalVariance",
+    defaultSeverity: "LOW",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) => {
+      const prior = inputs.priorRegister;
+      if (!prior) {
+        return null;
+      }
+      return evaluatePeriodTotalVariance({
+        metrics: [
+          { label: "Net pay", current: inputs.register.net, prior: prior.netTotals },
+          ...(prior.grossTotals && !inputs.register.grossMissing
+            ? [
+                {
+                  label: "Gross pay",
+                  current: inputs.register.gross,
+                  prior: prior.grossTotals
+                }
+              ]
+            : []),
+          ...(prior.employerCostsTotals && !inputs.register.employerCostsMissing
+            ? [
+                {
+                  label: "Employer costs",
+                  current: inputs.register.employerCosts,
+                  prior: prior.employerCostsTotals
+                }
+              ]
+            : [])
+        ],
+        prior: prior.reference,
+        registerImportId: inputs.imports.registerImportId,
+        tolerance
+      });
+    }
+  }),
+  defineCheck({
+    checkType: "CHK_PERIOD_HEADCOUNT_VARIANCE",
+    label: "Headcount vs prior period",
+    sources: ["REGISTER"],
+    toleranceKey: "periodHeadcountPercent",
+    defaultSeverity: "LOW",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerancePercent) =>
+      inputs.priorRegister
+        ? evaluatePeriodHeadcountVariance({
+            currentCount: inputs.register.net.rows.filter((row) => row.amountCents > 0)
+              .length,
+            priorCount: inputs.priorRegister.netTotals.rows.filter(
+              (row) => row.amountCents > 0
+            ).length,
+            prior: inputs.priorRegister.reference,
+            tolerancePercent
+          })
+        : null
+  }),
+  defineCheck({
+    checkType: "CHK_PERIOD_EMPLOYEE_NET_VARIANCE",
+    label: "Employee net pay vs prior period",
+    sources: ["REGISTER"],
+    toleranceKey: "periodEmployeeNetVariance",
+    defaultSeverity: "LOW",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      inputs.priorRegister
+        ? evaluatePeriodEmployeeNetVariance({
+            currentEmployees: inputs.register.employees,
+            priorEmployees: inputs.priorRegister.employees,
+            prior: inputs.priorRegister.reference,
+            registerImportId: inputs.imports.registerImportId,
+            tolerance
+          })
+        : null
+  }),
+  defineCheck({
+    checkType: "CHK_EMPLOYEE_NET_TO_BANK_LINES",
+    label: "Employee net pay vs Bank lines",
+    sources: ["REGISTER", "BANK"],
+    toleranceKey: "registerNetToBank",
+    defaultSeverity: "MEDIUM",
+    regions: ALL_REGIONS,
+    evaluate: (inputs, tolerance) =>
+      inputs.lineMatchingEnabled
+        ? evaluateEmployeeNetToBankLines({
+            matching: matchEmployeesToBankLines({
+              employees: inputs.register.employees,
+              bankLines: inputs.bank.payments,
+              tolerance
+            }),
+            registerImportId: inputs.imports.registerImportId,
+            bankImportId: inputs.imports.bankImportId
+          })
+        : null
+  })
+];
+
+export type CheckBundle = {
+  bundleId: string;
+  bundleVersion: string;
+  checks: CheckDefinition[];
+};
+
+export const getBundleConfig = (region: Region): CheckBundle => ({
+  bundleId: region === "IE" ? "BUNDLE_IE" : "BUNDLE_UK",
+  bundleVersion: "V1",
+  checks: checkRegistry.filter((definition) => definition.regions.includes(region))
+});
+
+export const getCheckDefinition = (checkType: string): CheckDefinition | undefined =>
+  checkRegistry.find((definition) => definition.checkType === checkType);
+
+export const getCheckLabel = (checkType: string): string =>
+  getCheckDefinition(checkType)?.label ?? checkType;
+
+const CHECK_SEVERITIES: CheckSeverity[] = ["INFO", "LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+export type ClientCheckSettings = {
+  disabled: string[];
+  severityOverrides: Record<string, CheckSeverity>;
+};
+
+export const resolveClientCheckSettings = (clientSettings?: unknown): ClientCheckSettings => {
+  if (!clientSettings || typeof clientSettings !== "object") {
+    return { disabled: [], severityOverrides: {} };
+  }
+  const checks = (clientSettings as { checks?: unknown }).checks;
+  if (!checks || typeof checks !== "object") {
+    return { disabled: [], severityOverrides: {} };
+  }
+  const input = checks as { disabled?: unknown; severityOverrides?: unknown };
+  const disabled = Array.isArray(input.disabled)
+    ? input.disabled.filter(
+        (value): value is string =>
+          typeof value === "string" && Boolean(getCheckDefinition(value))
+      )
+    : [];
+  const severityOverrides: Record<string, CheckSeverity> = {};
+  if (input.severityOverrides && typeof input.severityOverrides === "object") {
+    for (const [checkType, severity] of Object.entries(
+      input.severityOverrides as Record<string, unknown>
+    )) {
+      if (
+        getCheckDefinition(checkType) &&
+        CHECK_SEVERITIES.includes(severity as CheckSeverity)
+      ) {
+        severityOverrides[checkType] = severity as CheckSeverity;
+      }
+    }
+  }
+  return { disabled, severityOverrides };
+};
+
+const applySeverityOverride = (
+  evaluation: CheckEvaluation,
+  severity: CheckSeverity | undefined
+): CheckEvaluation => {
+  if (!severity || evaluation.status === "PASS") {
+    return evaluation;
+  }
+  return {
+    ...evaluation,
+    severity,
+    exception: evaluation.exception ? { ...evaluation.exception, severity } : null,
+    additionalExceptions: evaluation.additionalExceptions?.map((exception) => ({
+      ...exception,
+      severity
+    }))
+  };
+};
+
+/**
+ * Runs every enabled check in the bundle, in registry order. Client severity
+ * overrides replace the evaluator's severity on WARN/FAIL results only.
+ */
+export const runCheckBundle = ({
+  bundle,
+  inputs,
+  tolerances,
+  settings
+}: {
+  bundle: CheckBundle;
+  inputs: CheckInputs;
+  tolerances: ToleranceSettings;
+  settings: ClientCheckSettings;
+}): CheckEvaluation[] => {
+  const disabled = new Set(settings.disabled);
+  const evaluations: CheckEvaluation[] = [];
+  for (const definition of bundle.checks) {
+    if (disabled.has(definition.checkType)) {
+      continue;
+    }
+    const evaluation = definition.evaluate(inputs, tolerances);
+    if (evaluation) {
+      evaluations.push(
+        applySeverityOverride(evaluation, settings.severityOverrides[definition.checkType])
+      );
+    }
+  }
+  return evaluations;
+};
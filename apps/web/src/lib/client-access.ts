@@ -0,0 +1,175 @@
+import "server-only";
+
+import { prisma, type AuditEntityType, type ClientAccess } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { NotFoundError } from "./errors";
+import type { Permission } from "./permissions";
+
+/**
+ * The clients an actor may see. `null` or `undefined` means firm-wide access,
+ * which is what system actors and firm managers get.
+ */
+export type ClientScope = {
+  firmId: string;
+  userId?: string | null;
+  clientIds?: readonly string[] | null;
+};
+
+export type ClientAccessTarget = {
+  entityType: AuditEntityType;
+  entityId: string;
+};
+
+export type ClientAccessInput = {
+  clientAccess: ClientAccess;
+  clientIds: string[];
+};
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+const notFoundMessages: Partial<Record<AuditEntityType, string>> = {
+  CLIENT: "Client not found.",
+  PAY_RUN: "Pay run not found.",
+  IMPORT: "Import not found.",
+  TEMPLATE: "Template not found.",
+  EXCEPTION: "Exception not found.",
+  PACK: "Pack not found."
+};
+
+export const resolveClientIds = (user: {
+  clientAccess: ClientAccess;
+  permissions: readonly Permission[];
+  clientAssignments: { clientId: string }[];
+}): string[] | null =>
+  user.clientAccess === "ALL" || user.permissions.includes("firm:manage")
+    ? null
+    : user.clientAssignments.map((assignment) => assignment.clientId);
+
+/** The scope of a signed-in user as returned by `requireUser`. */
+export const userClientScope = (user: {
+  id: string;
+  firmId: string;
+  clientIds: readonly string[] | null;
+}): ClientScope => ({ firmId: user.firmId, userId: user.id, clientIds: user.clientIds });
+
+export const canAccessClient = (scope: Pick<ClientScope, "clientIds">, clientId: string) =>
+  !scope.clientIds || scope.clientIds.includes(clientId);
+
+/**
+ * A Prisma filter for a `clientId` (or client `id`) column. `undefined` leaves
+ * the query unfiltered for firm-wide actors.
+ */
+export const clientIdFilter = (scope: Pick<ClientScope, "clientIds">) =>
+  scope.clientIds ? { in: [...scope.clientIds] } : undefined;
+
+/**
+ * Returns whether the actor may access `clientId`, recording a
+ * CLIENT_ACCESS_DENIED audit event when they may not.
+ */
+export const hasClientAccess = async (
+  scope: ClientScope,
+  clientId: string,
+  target: ClientAccessTarget
+): Promise<boolean> => {
+  if (canAccessClient(scope, clientId)) {
+    return true;
+  }
+
+  await recordAuditEvent(
+    {
+      action: "CLIENT_ACCESS_DENIED",
+      entityType: target.entityType,
+      entityId: target.entityId,
+      metadata: { clientId }
+    },
+    { firmId: scope.firmId, actorUserId: scope.userId ?? null }
+  );
+  return false;
+};
+
+/** Like hasClientAccess, but reports out-of-scope records as not found. */
+export const assertClientAccess = async (
+  scope: ClientScope,
+  clientId: string,
+  target: ClientAccessTarget
+) => {
+  if (!(await hasClientAccess(scope, clientId, target))) {
+    throw new NotFoundError(notFoundMessages[target.entityType] ?? "Not found.");
+  }
+};
+
+export const setUserClientAccess = async (
+  context: ActorContext,
+  userId: string,
+  input: ClientAccessInput
+) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, firmId: context.firmId },
+    include: { clientAssignments: { select: { clientId: true } } }
+  });
+  if (!user) {
+    throw new NotFoundError("User not found.");
+  }
+
+  const clients = await prisma.client.findMany({
+    where: { firmId: context.firmId, id: { in: input.clientIds } },
+    select: { id: true }
+  });
+  const clientIds = clients.map((client) => client.id);
+  const previousIds = user.clientAssignments.map((assignment) => assignment.clientId);
+  const added = clientIds.filter((id) => !previousIds.includes(id));
+  const removed = previousIds.filter((id) => !clientIds.includes(id));
+
+  if (user.clientAccess === input.clientAccess && added.length === 0 && removed.length === 0) {
+    return user;
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.clientAssignment.deleteMany({
+      where: { userId: user.id, clientId: { in: removed } }
+    });
+    await tx.clientAssignment.createMany({
+      data: added.map((clientId) => ({ firmId: context.firmId, clientId, userId: user.id }))
+    });
+    return tx.user.update({
+      where: { id: user.id },
+      data: { clientAccess: input.clientAccess }
+    });
+  });
+
+  await recordAuditEvent(
+    {
+      action: "USER_CLIENT_ACCESS_CHANGED",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: {
+        from: user.clientAccess,
+        to: updated.clientAccess,
+        added: added.join(","),
+        removed: removed.join(",")
+      }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return updated;
+};
+
+/**
+ * Gives a client's creator access to it when they are limited to assigned
+ * clients, so new clients do not disappear from their own lists.
+ */
+export const assignCreatorToClient = async (
+  scope: ClientScope,
+  clientId: string
+) => {
+  if (!scope.clientIds || !scope.userId) {
+    return;
+  }
+  await prisma.clientAssignment.create({
+    data: { firmId: scope.firmId, clientId, userId: scope.userId }
+  });
+};
@@ -2,6 +2,7 @@ import "server-only";
 
 import { prisma, type PayrollFrequency, type PayrollSystem } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess, assignCreatorToClient } from "./client-access";
 import { ConflictError, NotFoundError, ValidationError } from "./errors";
 
 export type ClientInput = {
@@ -15,6 +16,7 @@ export type ClientInput = {
 type ActorContext = {
   firmId: string;
   userId: string;
+  clientIds?: readonly string[] | null;
 };
 
 const normalizeClientInput = (input: ClientInput): ClientInput => {
@@ -67,6 +69,7 @@ export const createClient = async (
         defaultReviewerUserId: normalized.defaultReviewerUserId ?? null
       }
     });
+    await assignCreatorToClient(context, client.id);
 
     await recordAuditEvent(
       {
@@ -116,6 +119,7 @@ export const updateClient = async (
   if (!client) {
     throw new NotFoundError("Client not found.");
   }
+  await assertClientAccess(context, client.id, { entityType: "CLIENT", entityId: client.id });
 
   const updated = await prisma.client.update({
     where: { id: client.id },
@@ -157,6 +161,7 @@ export const archiveClient = async (context: ActorContext, clientId: string) =>
   if (!client) {
     throw new NotFoundError("Client not found.");
   }
+  await assertClientAccess(context, client.id, { entityType: "CLIENT", entityId: client.id });
 
   if (client.archivedAt) {
     return client;
@@ -3,6 +3,7 @@ import "server-only";
 import { prisma, type PayRunStatus, type SourceType } from "@/lib/prisma";
 import { resolveRequiredSources } from "@/lib/required-sources";
 import { getOpenExceptionCounts } from "@/lib/pay-run-exceptions";
+import { clientIdFilter } from "@/lib/client-access";
 
 export type DashboardData = {
   requiredSources: SourceType[];
@@ -18,7 +19,12 @@ export type DashboardData = {
   }>;
 };
 
-export const getDashboardData = async (firmId: string): Promise<DashboardData> => {
+/** `clientIds` limits the figures to a user's assigned clients; omit for firm-wide. */
+export const getDashboardData = async (
+  firmId: string,
+  clientIds: readonly string[] | null = null
+): Promise<DashboardData> => {
+  const clientId = clientIdFilter({ clientIds });
   const firm = await prisma.firm.findFirst({
     where: { id: firmId },
     select: { defaults: true }
@@ -28,7 +34,7 @@ export const getDashboardData = async (firmId: string): Promise<DashboardData> =
 
   const statusCounts = await prisma.payRun.groupBy({
     by: ["status"],
-    where: { firmId },
+    where: { firmId, clientId },
     _count: { status: true }
   });
 
@@ -42,6 +48,7 @@ export const getDashboardData = async (firmId: string): Promise<DashboardData> =
   const payRuns = await prisma.payRun.findMany({
     where: {
       firmId,
+      clientId,
       status: { notIn: ["ARCHIVED"] }
     },
     select: { id: true, status: true }
@@ -111,8 +118,12 @@ export const getDashboardData = async (firmId: string): Promise<DashboardData> =
     countsByStatus.EXCEPTIONS_OPEN = exceptionsOpenCount;
   }
 
+  // Scoped users only see events about their own clients and pay runs.
   const recentAuditEvents = await prisma.auditEvent.findMany({
-    where: { firmId },
+    where: {
+      firmId,
+      ...(clientIds ? { entityId: { in: [...clientIds, ...payRunIds] } } : {})
+    },
     orderBy: { timestamp: "desc" },
     take: 10,
     select: {
@@ -4,6 +4,10 @@ import { z } from "zod";
 const envSchema = z.object({
   DATABASE_URL: z.string().optional(),
   SESSION_SECRET: z.string().min(32),
+  PACK_SIGNING_SECRET: z.string().min(32),
+  MFA_ENCRYPTION_SECRET: z.string().min(32),
+  SSO_ENCRYPTION_SECRET: z.string().min(32),
+  WEBHOOK_ENCRYPTION_SECRET: z.string().min(32),
   APP_BASE_URL: z.string().url(),
   S3_ENDPOINT: z.string().url().optional(),
   S3_REGION: z.string(),
@@ -12,6 +16,8 @@ const envSchema = z.object({
   S3_SECRET_ACCESS_KEY: z.string(),
   S3_SESSION_TOKEN: z.string().optional(),
   S3_FORCE_PATH_STYLE: z.string().optional(),
+  // "true" lets webhooks target local and private hosts; for development only.
+  WEBHOOK_ALLOW_PRIVATE_HOSTS: z.enum(["true", "false"]).optional(),
   IMPORT_MAX_BYTES: z.coerce.number().int().positive().optional(),
   IMPORT_MAX_ROWS: z.coerce.number().int().positive().optional(),
   IMPORT_MAX_COLUMNS: z.coerce.number().int().positive().optional()
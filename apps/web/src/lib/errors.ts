@@ -38,3 +38,19 @@ export class ImportParseError extends ValidationError {
     this.name = "ImportParseError";
   }
 }
+
+export type OidcErrorCode =
+  | "discovery_failed"
+  | "token_exchange_failed"
+  | "invalid_id_token"
+  | "access_denied";
+
+export class OidcError extends Error {
+  constructor(
+    readonly code: OidcErrorCode,
+    message = "Single sign-on failed."
+  ) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
@@ -0,0 +1,337 @@
+import "server-only";
+
+import { randomUUID } from "crypto";
+import { GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedDownloadUrl } from "@tally/storage";
+import { prisma, type Prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { assertClientAccess, type ClientScope } from "./client-access";
+import { NotFoundError, ValidationError } from "./errors";
+import { sha256Hex } from "./hash";
+import { bodyToBuffer } from "./import-file";
+import { storageBucket, storageClient } from "./storage";
+import type { Permission } from "./permissions";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+  role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
+};
+
+type AttachmentInput = {
+  storageKey: string;
+  fileHashSha256: string;
+  originalFilename: string;
+  mimeType: string;
+  sizeBytes: number;
+};
+
+export type AttachmentRecord = {
+  id: string;
+  originalFilename: string;
+  mimeType: string;
+  sizeBytes: number | null;
+  fileHashSha256: string | null;
+  uploadedByEmail: string;
+  uploadedAt: Date;
+};
+
+export const attachmentLimits = {
+  maxBytes: 20 * 1024 * 1024
+};
+
+// Each allowed extension with the mime types browsers report for it. Windows
+// reports CSV files as Excel.
+const allowedTypes: Record<string, string[]> = {
+  ".pdf": ["application/pdf"],
+  ".png": ["image/png"],
+  ".jpg": ["image/jpeg"],
+  ".jpeg": ["image/jpeg"],
+  ".csv": ["text/csv", "application/vnd.ms-excel"],
+  ".xlsx": ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  ".txt": ["text/plain"],
+  ".eml": ["message/rfc822"]
+};
+// Types browsers render inline; everything else is offered as a download.
+const previewableMimeTypes = ["application/pdf", "image/png", "image/jpeg", "text/plain"];
+
+// Both the extension and the reported mime type must be allowed, and must agree.
+export const isAllowedAttachment = (fileName: string, mimeType: string): boolean => {
+  const lowerName = fileName.toLowerCase();
+  return Object.entries(allowedTypes).some(
+    ([extension, mimeTypes]) =>
+      lowerName.endsWith(extension) && mimeTypes.includes(mimeType.toLowerCase())
+  );
+};
+
+export const isPreviewableAttachment = (mimeType: string): boolean =>
+  previewableMimeTypes.includes(mimeType);
+
+const sanitizeFileName = (name: string): string => name.replace(/[^a-zA-Z0-9._-]/g, "_");
+
+const buildAttachmentPrefix = (firmId: string, payRunId: string, exceptionId: string) =>
+  `firm/${firmId}/pay-run/${payRunId}/exceptions/${exceptionId}/`;
+
+export const buildAttachmentStorageKey = (
+  firmId: string,
+  payRunId: string,
+  exceptionId: string,
+  fileName: string
+): string =>
+  `${buildAttachmentPrefix(firmId, payRunId, exceptionId)}${randomUUID()}-${sanitizeFileName(
+    fileName
+  )}`;
+
+export const assertAttachmentKeyMatches = (
+  firmId: string,
+  payRunId: string,
+  exceptionId: string,
+  storageKey: string
+) => {
+  if (!storageKey.startsWith(buildAttachmentPrefix(firmId, payRunId, exceptionId))) {
+    throw new ValidationError("Upload key does not match this exception.");
+  }
+};
+
+const buildStorageUri = (key: string): string => `s3://${storageBucket}/${key}`;
+
+const getStorageKeyFromUri = (uri: string): string => {
+  const prefix = `s3://${storageBucket}/`;
+  if (!uri.startsWith(prefix)) {
+    throw new ValidationError("Invalid storage URI.");
+  }
+  return uri.slice(prefix.length);
+};
+
+/**
+ * Expected variances can demand supporting evidence before an exception they
+ * downgrade is closed. The flag lives on the check result details.
+ */
+export const requiresAttachmentForCheck = (details: unknown): boolean => {
+  const expectedVariance = (details as { expectedVariance?: { requiresAttachment?: unknown } })
+    ?.expectedVariance;
+  return expectedVariance?.requiresAttachment === true;
+};
+
+const ensureAttachableException = async (context: ActorContext, exceptionId: string) => {
+  const exception = await prisma.exception.findFirst({
+    where: { id: exceptionId, firmId: context.firmId },
+    include: { payRun: true }
+  });
+  if (!exception) {
+    throw new NotFoundError("Exception not found.");
+  }
+  await assertClientAccess(context, exception.payRun.clientId, {
+    entityType: "EXCEPTION",
+    entityId: exception.id
+  });
+  if (exception.supersededAt) {
+    throw new ValidationError("This exception has been superseded.");
+  }
+  if (exception.payRun.status === "LOCKED" || exception.payRun.status === "ARCHIVED") {
+    throw new ValidationError("Locked pay runs cannot update exceptions.");
+  }
+  return exception;
+};
+
+const validateAttachmentFile = (input: {
+  originalFilename: string;
+  mimeType: string;
+  sizeBytes: number;
+}) => {
+  if (!isAllowedAttachment(input.originalFilename, input.mimeType)) {
+    throw new ValidationError("Unsupported attachment type.");
+  }
+  if (input.sizeBytes > attachmentLimits.maxBytes) {
+    throw new ValidationError("Attachments are limited to 20 MB.");
+  }
+};
+
+export const prepareExceptionAttachment = async (
+  context: ActorContext,
+  exceptionId: string,
+  input: { originalFilename: string; mimeType: string; sizeBytes: number }
+) => {
+  validateAttachmentFile(input);
+  const exception = await ensureAttachableException(context, exceptionId);
+  return {
+    exception,
+    storageKey: buildAttachmentStorageKey(
+      context.firmId,
+      exception.payRunId,
+      exception.id,
+      input.originalFilename
+    )
+  };
+};
+
+// Used when signed uploads are unavailable and the browser posts the file here.
+export const storeExceptionAttachmentObject = async (
+  context: ActorContext,
+  exceptionId: string,
+  input: { storageKey: string; originalFilename: string; mimeType: string; buffer: Buffer }
+) => {
+  validateAttachmentFile({ ...input, sizeBytes: input.buffer.length });
+  const exception = await ensureAttachableException(context, exceptionId);
+  assertAttachmentKeyMatches(context.firmId, exception.payRunId, exception.id, input.storageKey);
+
+  await storageClient.send(
+    new PutObjectCommand({
+      Bucket: storageBucket,
+      Key: input.storageKey,
+      Body: input.buffer,
+      ContentType: input.mimeType
+    })
+  );
+};
+
+export const addExceptionAttachment = async (
+  context: ActorContext,
+  exceptionId: string,
+  input: AttachmentInput
+) => {
+  validateAttachmentFile(input);
+  const exception = await ensureAttachableException(context, exceptionId);
+  assertAttachmentKeyMatches(context.firmId, exception.payRunId, exception.id, input.storageKey);
+
+  // The client hashes before uploading, as for imports; the stored object is
+  // hashed again so the recorded hash is the one the pack will cite.
+  const object = await storageClient.send(
+    new GetObjectCommand({ Bucket: storageBucket, Key: input.storageKey })
+  );
+  const buffer = await bodyToBuffer(object.Body);
+  if (buffer.length > attachmentLimits.maxBytes) {
+    throw new ValidationError("Attachments are limited to 20 MB.");
+  }
+  if ((await sha256Hex(buffer)) !== input.fileHashSha256) {
+    throw new ValidationError("The uploaded file does not match its hash. Upload it again.");
+  }
+
+  const existing = await prisma.exceptionAttachment.findFirst({
+    where: { exceptionId: exception.id, fileHashSha256: input.fileHashSha256 }
+  });
+  if (existing) {
+    return { attachment: existing, duplicate: true };
+  }
+
+  const attachment = await prisma.exceptionAttachment.create({
+    data: {
+      firmId: context.firmId,
+      exceptionId: exception.id,
+      storageUri: buildStorageUri(input.storageKey),
+      fileHashSha256: input.fileHashSha256,
+      originalFilename: input.originalFilename,
+      mimeType: input.mimeType,
+      sizeBytes: buffer.length,
+      uploadedByUserId: context.userId
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "EXCEPTION_ATTACHMENT_ADDED",
+      entityType: "EXCEPTION",
+      entityId: exception.id,
+      metadata: {
+        payRunId: exception.payRunId,
+        attachmentId: attachment.id,
+        fileHashSha256: attachment.fileHashSha256,
+        sizeBytes: attachment.sizeBytes
+      }
+    },
+    {
+      firmId: context.firmId,
+      actorUserId: context.userId
+    }
+  );
+
+  return { attachment, duplicate: false };
+};
+
+export const listExceptionAttachments = async (
+  firmId: string,
+  exceptionIds: string[]
+): Promise<Map<string, AttachmentRecord[]>> => {
+  const attachments = exceptionIds.length
+    ? await prisma.exceptionAttachment.findMany({
+        where: { firmId, exceptionId: { in: exceptionIds } },
+        include: { uploadedByUser: { select: { email: true } } },
+        orderBy: { uploadedAt: "asc" }
+      })
+    : [];
+
+  const byException = new Map<string, AttachmentRecord[]>(
+    exceptionIds.map((exceptionId) => [exceptionId, []])
+  );
+  for (const attachment of attachments) {
+    byException.get(attachment.exceptionId)?.push({
+      id: attachment.id,
+      originalFilename: attachment.originalFilename,
+      mimeType: attachment.mimeType,
+      sizeBytes: attachment.sizeBytes,
+      fileHashSha256: attachment.fileHashSha256,
+      uploadedByEmail: attachment.uploadedByUser.email,
+      uploadedAt: attachment.uploadedAt
+    });
+  }
+  return byException;
+};
+
+export const getExceptionAttachmentUrl = async (
+  scope: ClientScope,
+  exceptionId: string,
+  attachmentId: string,
+  options: { inline?: boolean } = {}
+): Promise<string> => {
+  const attachment = await prisma.exceptionAttachment.findFirst({
+    where: { id: attachmentId, exceptionId, firmId: scope.firmId },
+    include: { exception: { select: { payRun: { select: { clientId: true } } } } }
+  });
+  if (!attachment) {
+    throw new NotFoundError("Attachment not found.");
+  }
+  await assertClientAccess(scope, attachment.exception.payRun.clientId, {
+    entityType: "EXCEPTION",
+    entityId: exceptionId
+  });
+
+  const inline = options.inline && isPreviewableAttachment(attachment.mimeType);
+  const fileName = sanitizeFileName(attachment.originalFilename);
+  return getSignedDownloadUrl(storageClient, storageBucket, {
+    key: getStorageKeyFromUri(attachment.storageUri),
+    contentType: attachment.mimeType,
+    contentDisposition: `${inline ? "inline" : "attachment"}; filename="${fileName}"`
+  });
+};
+
+/**
+ * Attachments follow a carried-forward decision onto the new exception. The
+ * stored objects are shared; only the rows are copied.
+ */
+export const copyExceptionAttachments = async (
+  tx: Prisma.TransactionClient,
+  fromExceptionId: string,
+  toExceptionId: string
+) => {
+  const attachments = await tx.exceptionAttachment.findMany({
+    where: { exceptionId: fromExceptionId }
+  });
+  if (attachments.length === 0) {
+    return;
+  }
+  await tx.exceptionAttachment.createMany({
+    data: attachments.map((attachment) => ({
+      firmId: attachment.firmId,
+      exceptionId: toExceptionId,
+      storageUri: attachment.storageUri,
+      fileHashSha256: attachment.fileHashSha256,
+      originalFilename: attachment.originalFilename,
+      mimeType: attachment.mimeType,
+      sizeBytes: attachment.sizeBytes,
+      uploadedByUserId: attachment.uploadedByUserId,
+      uploadedAt: attachment.uploadedAt
+    }))
+  });
+};
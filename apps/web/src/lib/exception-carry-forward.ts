@@ -0,0 +1,136 @@
+import type { ExceptionCategory, ExceptionStatus } from "@/lib/prisma";
+import { sha256FromString } from "./hash";
+import type { EvidencePointer } from "./reconciliation-checks";
+
+type FingerprintInput = {
+  checkType: string;
+  category: ExceptionCategory;
+  title: string;
+  evidence?: EvidencePointer[] | null;
+};
+
+type DeltaInput = {
+  deltaValue: number | null;
+  evidence?: EvidencePointer[] | null;
+};
+
+export type CarryForwardCandidate = {
+  fingerprint: string;
+  deltaKey: string;
+};
+
+export type CarryForwardPredecessor = CarryForwardCandidate & {
+  id: string;
+  status: ExceptionStatus;
+  assignedToUserId: string | null;
+  resolutionNote: string | null;
+  resolvedByUserId: string | null;
+  resolvedAt: Date | null;
+};
+
+export type CarryForwardFields = {
+  previousExceptionId: string;
+  status: ExceptionStatus;
+  assignedToUserId: string | null;
+  resolutionNote: string | null;
+  resolvedByUserId: string | null;
+  resolvedAt: Date | null;
+};
+
+export type CarryForwardMatch = {
+  predecessor: CarryForwardPredecessor;
+  deltaChanged: boolean;
+};
+
+// Evidence notes name the rows an exception points at ("Unmatched bank lines",
+// "Sales: register rows") without depending on import ids or row numbers.
+export const listEvidenceKeys = (evidence?: EvidencePointer[] | null): string[] =>
+  Array.from(
+    new Set((evidence ?? []).map((pointer) => pointer.note?.trim() || "rows"))
+  ).sort();
+
+/**
+ * Stable identity for an exception across reconciliation runs: the check that
+ * raised it, its category and the evidence it points at. Re-uploading a file
+ * produces new import ids, so those are left out.
+ */
+export const buildExceptionFingerprint = async ({
+  checkType,
+  category,
+  title,
+  evidence
+}: FingerprintInput): Promise<string> => {
+  const evidenceKeys = listEvidenceKeys(evidence);
+  return sha256FromString(
+    JSON.stringify([checkType, category, evidenceKeys.length > 0 ? evidenceKeys : [title]])
+  );
+};
+
+export const buildExceptionDeltaKey = ({ deltaValue, evidence }: DeltaInput): string =>
+  JSON.stringify({
+    deltaValue,
+    rows: [...(evidence ?? [])]
+      .map((pointer) => ({
+        key: pointer.note?.trim() || "rows",
+        rowNumbers: [...pointer.rowNumbers].sort((left, right) => left - right)
+      }))
+      .sort((left, right) => left.key.localeCompare(right.key))
+  });
+
+/**
+ * Pairs each new exception with the superseded exception that shares its
+ * fingerprint. Predecessors are used once, in order, so repeated fingerprints
+ * within a run still line up one to one.
+ */
+export const matchExceptionPredecessors = (
+  candidates: CarryForwardCandidate[],
+  predecessors: CarryForwardPredecessor[]
+): Array<CarryForwardMatch | null> => {
+  const available = new Map<string, CarryForwardPredecessor[]>();
+  for (const predecessor of predecessors) {
+    const entries = available.get(predecessor.fingerprint) ?? [];
+    entries.push(predecessor);
+    available.set(predecessor.fingerprint, entries);
+  }
+
+  return candidates.map((candidate) => {
+    const predecessor = available.get(candidate.fingerprint)?.shift();
+    if (!predecessor) {
+      return null;
+    }
+    return {
+      predecessor,
+      deltaChanged: predecessor.deltaKey !== candidate.deltaKey
+    };
+  });
+};
+
+/**
+ * Decisions carry over only while the numbers behind them are unchanged. A
+ * changed delta re-opens the exception but keeps the assignee and the link to
+ * the prior decision.
+ */
+export const buildCarryForwardFields = ({
+  predecessor,
+  deltaChanged
+}: CarryForwardMatch): CarryForwardFields => {
+  if (deltaChanged) {
+    return {
+      previousExceptionId: predecessor.id,
+      status: "OPEN",
+      assignedToUserId: predecessor.assignedToUserId,
+      resolutionNote: null,
+      resolvedByUserId: null,
+      resolvedAt: null
+    };
+  }
+
+  return {
+    previousExceptionId: predecessor.id,
+    status: predecessor.status,
+    assignedToUserId: predecessor.assignedToUserId,
+    resolutionNote: predecessor.resolutionNote,
+    resolvedByUserId: predecessor.resolvedByUserId,
+    resolvedAt: predecessor.resolvedAt
+  };
+};
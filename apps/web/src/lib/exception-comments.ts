@@ -0,0 +1,228 @@
+import "server-only";
+
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
+import { NotFoundError, ValidationError } from "./errors";
+import type { Permission } from "./permissions";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+  role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
+};
+
+export type CommentRecord = {
+  id: string;
+  parentCommentId: string | null;
+  authorEmail: string;
+  body: string;
+  createdAt: Date;
+  mentionedEmails: string[];
+};
+
+export type CommentThread = CommentRecord & {
+  replies: CommentThread[];
+};
+
+const MAX_COMMENT_LENGTH = 4000;
+// Mentions use the user's email, e.g. "@reviewer@firm.co.uk".
+const MENTION_PATTERN = /(^|\s)@([^\s@]+@[^\s@]+\.[^\s@,;:!?)]+)/g;
+
+export const parseMentions = (body: string): string[] => {
+  const emails = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const email = match[2]?.replace(/\.$/, "").toLowerCase();
+    if (email) {
+      emails.add(email);
+    }
+  }
+  return Array.from(emails);
+};
+
+/**
+ * Nests comments under their parents in posting order. Replies whose parent
+ * is missing are shown at the top level rather than dropped.
+ */
+export const buildCommentThreads = (comments: CommentRecord[]): CommentThread[] => {
+  const sorted = [...comments].sort(
+    (left, right) => left.createdAt.getTime() - right.createdAt.getTime()
+  );
+  const threads = new Map<string, CommentThread>(
+    sorted.map((comment) => [comment.id, { ...comment, replies: [] }])
+  );
+  const roots: CommentThread[] = [];
+
+  for (const comment of sorted) {
+    const thread = threads.get(comment.id) as CommentThread;
+    const parent = comment.parentCommentId
+      ? threads.get(comment.parentCommentId)
+      : undefined;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  }
+
+  return roots;
+};
+
+export const flattenCommentThreads = (
+  threads: CommentThread[],
+  depth = 0
+): Array<CommentRecord & { depth: number }> =>
+  threads.flatMap((thread) => [
+    { ...thread, depth },
+    ...flattenCommentThreads(thread.replies, depth + 1)
+  ]);
+
+export const listExceptionComments = async (
+  firmId: string,
+  exceptionIds: string[]
+): Promise<Map<string, CommentThread[]>> => {
+  const comments = exceptionIds.length
+    ? await prisma.exceptionComment.findMany({
+        where: { firmId, exceptionId: { in: exceptionIds } },
+        include: {
+          authorUser: { select: { email: true } },
+          mentions: { include: { user: { select: { email: true } } } }
+        },
+        orderBy: { createdAt: "asc" }
+      })
+    : [];
+
+  const byException = new Map<string, CommentRecord[]>();
+  for (const comment of comments) {
+    const entries = byException.get(comment.exceptionId) ?? [];
+    entries.push({
+      id: comment.id,
+      parentCommentId: comment.parentCommentId,
+      authorEmail: comment.authorUser.email,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      mentionedEmails: comment.mentions.map((mention) => mention.user.email)
+    });
+    byException.set(comment.exceptionId, entries);
+  }
+
+  return new Map(
+    exceptionIds.map((exceptionId) => [
+      exceptionId,
+      buildCommentThreads(byException.get(exceptionId) ?? [])
+    ])
+  );
+};
+
+export const addExceptionComment = async (
+  context: ActorContext,
+  exceptionId: string,
+  input: { body: string; parentCommentId?: string | null }
+) => {
+  const body = input.body.trim();
+  if (body.length < 2) {
+    throw new ValidationError("Comment text is required.");
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new ValidationError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters.`);
+  }
+
+  const exception = await prisma.exception.findFirst({
+    where: { id: exceptionId, firmId: context.firmId },
+    include: { payRun: true }
+  });
+  if (!exception) {
+    throw new NotFoundError("Exception not found.");
+  }
+  await assertClientAccess(context, exception.payRun.clientId, {
+    entityType: "EXCEPTION",
+    entityId: exception.id
+  });
+  if (exception.supersededAt) {
+    throw new ValidationError("This exception has been superseded.");
+  }
+  if (exception.payRun.status === "LOCKED" || exception.payRun.status === "ARCHIVED") {
+    throw new ValidationError("Locked pay runs cannot update exceptions.");
+  }
+
+  if (input.parentCommentId) {
+    const parent = await prisma.exceptionComment.findFirst({
+      where: {
+        id: input.parentCommentId,
+        firmId: context.firmId,
+        exceptionId: exception.id
+      }
+    });
+    if (!parent) {
+      throw new ValidationError("Replies must belong to this exception's thread.");
+    }
+  }
+
+  const mentionedEmails = parseMentions(body);
+  const mentionedUsers = mentionedEmails.length
+    ? await prisma.user.findMany({
+        where: {
+          firmId: context.firmId,
+          status: "ACTIVE",
+          email: { in: mentionedEmails }
+        }
+      })
+    : [];
+  if (mentionedUsers.length !== mentionedEmails.length) {
+    throw new ValidationError("Mentions must be active users in this firm.");
+  }
+
+  const comment = await prisma.exceptionComment.create({
+    data: {
+      firmId: context.firmId,
+      exceptionId: exception.id,
+      parentCommentId: input.parentCommentId ?? null,
+      authorUserId: context.userId,
+      body,
+      mentions: {
+        create: mentionedUsers.map((mentioned) => ({ userId: mentioned.id }))
+      }
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "EXCEPTION_COMMENTED",
+      entityType: "EXCEPTION",
+      entityId: exception.id,
+      metadata: {
+        payRunId: exception.payRunId,
+        commentId: comment.id,
+        parentCommentId: comment.parentCommentId ?? undefined,
+        mentionCount: mentionedUsers.length
+      }
+    },
+    {
+      firmId: context.firmId,
+      actorUserId: context.userId
+    }
+  );
+
+  for (const mentioned of mentionedUsers) {
+    await recordAuditEvent(
+      {
+        action: "EXCEPTION_USER_MENTIONED",
+        entityType: "EXCEPTION",
+        entityId: exception.id,
+        metadata: {
+          payRunId: exception.payRunId,
+          commentId: comment.id,
+          mentionedUserId: mentioned.id
+        }
+      },
+      {
+        firmId: context.firmId,
+        actorUserId: context.userId
+      }
+    );
+  }
+
+  return comment;
+};
@@ -2,34 +2,45 @@ import "server-only";
 
 import { prisma } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { NotFoundError, ValidationError } from "./errors";
+import { requiresAttachmentForCheck } from "./exception-attachments";
+import { can, type Permission } from "./permissions";
 
 type ActorContext = {
   firmId: string;
   userId: string;
   role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
-const assertRole = (role: ActorContext["role"], allowed: ActorContext["role"][]) => {
-  if (!allowed.includes(role)) {
+const assertPermission = (context: ActorContext, permission: Permission) => {
+  if (!can(context, permission)) {
     throw new ValidationError("Permission denied.");
   }
 };
 
-const ensureException = async (firmId: string, exceptionId: string) => {
+const ensureException = async (context: ActorContext, exceptionId: string) => {
   const exception = await prisma.exception.findFirst({
     where: {
       id: exceptionId,
-      firmId
+      firmId: context.firmId
     },
     include: {
-      payRun: true
+      payRun: true,
+      checkResult: { select: { details: true } },
+      _count: { select: { attachments: true } }
     }
   });
 
   if (!exception) {
     throw new NotFoundError("Exception not found.");
   }
+  await assertClientAccess(context, exception.payRun.clientId, {
+    entityType: "EXCEPTION",
+    entityId: exception.id
+  });
 
   if (exception.supersededAt) {
     throw new ValidationError("This exception has been superseded.");
@@ -42,6 +53,19 @@ const ensureException = async (firmId: string, exceptionId: string) => {
   return exception;
 };
 
+const ensureRequiredAttachments = (
+  exception: Awaited<ReturnType<typeof ensureException>>
+) => {
+  if (
+    requiresAttachmentForCheck(exception.checkResult.details) &&
+    exception._count.attachments === 0
+  ) {
+    throw new ValidationError(
+      "The expected variance for this check requires an attachment before the exception is closed."
+    );
+  }
+};
+
 const ensureAssignee = async (firmId: string, userId: string | null) => {
   if (!userId) {
     return;
@@ -61,8 +85,8 @@ export const assignException = async (
   exceptionId: string,
   assignedToUserId: string | null
 ) => {
-  assertRole(context.role, ["ADMIN", "PREPARER", "REVIEWER"]);
-  const exception = await ensureException(context.firmId, exceptionId);
+  assertPermission(context, "exception:resolve");
+  const exception = await ensureException(context, exceptionId);
   await ensureAssignee(context.firmId, assignedToUserId);
 
   const updated = await prisma.exception.update({
@@ -96,8 +120,8 @@ export const resolveException = async (
   exceptionId: string,
   note: string
 ) => {
-  assertRole(context.role, ["ADMIN", "PREPARER", "REVIEWER"]);
-  const exception = await ensureException(context.firmId, exceptionId);
+  assertPermission(context, "exception:resolve");
+  const exception = await ensureException(context, exceptionId);
 
   if (exception.status === "RESOLVED") {
     throw new ValidationError("Exception is already resolved.");
@@ -107,6 +131,8 @@ export const resolveException = async (
     throw new ValidationError("Resolution note is required.");
   }
 
+  ensureRequiredAttachments(exception);
+
   const updated = await prisma.exception.update({
     where: { id: exception.id },
     data: {
@@ -140,8 +166,8 @@ export const dismissException = async (
   exceptionId: string,
   note: string
 ) => {
-  assertRole(context.role, ["ADMIN", "PREPARER", "REVIEWER"]);
-  const exception = await ensureException(context.firmId, exceptionId);
+  assertPermission(context, "exception:resolve");
+  const exception = await ensureException(context, exceptionId);
 
   if (exception.status === "DISMISSED") {
     throw new ValidationError("Exception is already dismissed.");
@@ -151,6 +177,8 @@ export const dismissException = async (
     throw new ValidationError("Dismissal note is required.");
   }
 
+  ensureRequiredAttachments(exception);
+
   const updated = await prisma.exception.update({
     where: { id: exception.id },
     data: {
@@ -184,8 +212,8 @@ export const overrideException = async (
   exceptionId: string,
   note: string
 ) => {
-  assertRole(context.role, ["ADMIN", "REVIEWER"]);
-  const exception = await ensureException(context.firmId, exceptionId);
+  assertPermission(context, "exception:override");
+  const exception = await ensureException(context, exceptionId);
 
   if (exception.status === "OVERRIDDEN") {
     throw new ValidationError("Exception is already overridden.");
@@ -195,6 +223,8 @@ export const overrideException = async (
     throw new ValidationError("Override note is required.");
   }
 
+  ensureRequiredAttachments(exception);
+
   const updated = await prisma.exception.update({
     where: { id: exception.id },
     data: {
@@ -4,18 +4,21 @@ import {
   prisma,
   type CheckSeverity,
   type CheckStatus,
-  type CheckType,
   type ExpectedVariance,
   type ExpectedVarianceType
 } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { ValidationError, NotFoundError } from "./errors";
-import type { CheckEvaluation } from "./reconciliation-checks";
+import type { CheckEvaluation, CheckType } from "./reconciliation-checks";
+import { can, type Permission } from "./permissions";
 
 type ActorContext = {
   firmId: string;
   userId: string;
   role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
 type VarianceCondition = {
@@ -202,7 +205,8 @@ export const applyExpectedVariances = ({
           requiresReviewerAck: effect.requiresReviewerAck
         }
       },
-      exception: null
+      exception: null,
+      additionalExceptions: undefined
     };
   }
 
@@ -219,8 +223,8 @@ export const createExpectedVariance = async (
     effect: VarianceEffect;
   }
 ) => {
-  if (context.role === "PREPARER") {
-    throw new ValidationError("Only reviewers can create expected variances.");
+  if (!can(context, "expected-variance:manage")) {
+    throw new ValidationError("You cannot create expected variances.");
   }
 
   const client = await prisma.client.findFirst({
@@ -232,6 +236,7 @@ export const createExpectedVariance = async (
   if (!client) {
     throw new NotFoundError("Client not found.");
   }
+  await assertClientAccess(context, client.id, { entityType: "CLIENT", entityId: client.id });
 
   const variance = await prisma.expectedVariance.create({
     data: {
@@ -270,8 +275,8 @@ export const archiveExpectedVariance = async (
   context: ActorContext,
   varianceId: string
 ) => {
-  if (context.role === "PREPARER") {
-    throw new ValidationError("Only reviewers can archive expected variances.");
+  if (!can(context, "expected-variance:manage")) {
+    throw new ValidationError("You cannot archive expected variances.");
   }
 
   const variance = await prisma.expectedVariance.findFirst({
@@ -283,6 +288,10 @@ export const archiveExpectedVariance = async (
   if (!variance) {
     throw new NotFoundError("Expected variance not found.");
   }
+  await assertClientAccess(context, variance.clientId, {
+    entityType: "CLIENT",
+    entityId: variance.clientId
+  });
 
   const archived = await prisma.expectedVariance.update({
     where: { id: variance.id },
@@ -4,8 +4,17 @@ import { GetObjectCommand } from "@aws-sdk/client-s3";
 import type { Readable } from "stream";
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
+import { bacsStandard18Rows, parseBacsStandard18 } from "./bacs-standard18";
 import { ValidationError } from "./errors";
 import { validateImportBuffer } from "./import-validation";
+import { parseP32Rows } from "./p32-export";
+import {
+  parseRevenuePayrollRows,
+  parseRevenuePayrollSubmission
+} from "./revenue-payroll-submissions";
+import { parseRtiSubmission } from "./rti-submissions";
+import { parseSepaPain001, sepaPain001Rows, type SepaControlTotals } from "./sepa-pain001";
+import { statutoryEntryRows, statutoryFileColumns } from "./statutory-files";
 import { storageBucket, storageClient } from "./storage";
 
 export type ImportFileData = {
@@ -14,6 +23,8 @@ export type ImportFileData = {
   sheetName: string | null;
   rowCount: number;
   columnCount: number;
+  // Declared and actual totals of a SEPA file, kept with the parse summary.
+  sepaControls?: SepaControlTotals[];
 };
 
 type ImportFileRecord = {
@@ -25,6 +36,8 @@ type ImportFileRecord = {
 type ImportFileOptions = {
   sheetName?: string | null;
   maxRows?: number;
+  // The pay run's period end, which picks the tax month keyed in a P32.
+  periodEnd?: Date;
 };
 
 const streamToBuffer = async (stream: Readable): Promise<Buffer> => {
@@ -35,7 +48,7 @@ const streamToBuffer = async (stream: Readable): Promise<Buffer> => {
   return Buffer.concat(chunks.map((chunk) => Buffer.from(chunk)));
 };
 
-const bodyToBuffer = async (body: unknown): Promise<Buffer> => {
+export const bodyToBuffer = async (body: unknown): Promise<Buffer> => {
   if (!body) {
     throw new ValidationError("File contents are unavailable.");
   }
@@ -73,10 +86,9 @@ const normalizeRows = (rows: unknown[][]): string[][] =>
     })
   );
 
-export const readImportFile = async (
-  importRecord: ImportFileRecord,
-  options: ImportFileOptions = {}
-): Promise<ImportFileData> => {
+export const readStoredFile = async (
+  importRecord: Pick<ImportFileRecord, "storageUri">
+): Promise<Buffer> => {
   const { bucket, key } = parseStorageUri(importRecord.storageUri);
   if (bucket !== storageBucket) {
     throw new ValidationError("Import storage location does not match this workspace.");
@@ -89,14 +101,72 @@ export const readImportFile = async (
     })
   );
 
-  const buffer = await bodyToBuffer(object.Body);
+  return bodyToBuffer(object.Body);
+};
+
+// P32 and Revenue payslip exports arrive as ordinary CSV or XLSX and are
+// recognised by their headers.
+const withStatutoryRows = (data: ImportFileData, periodEnd?: Date): ImportFileData => {
+  const entries = parseP32Rows(data.rows, periodEnd) ?? parseRevenuePayrollRows(data.rows);
+  if (!entries) {
+    return data;
+  }
+  const rows = statutoryEntryRows(entries);
+  return { ...data, rows, rowCount: rows.length, columnCount: statutoryFileColumns.length };
+};
+
+export const readImportFile = async (
+  importRecord: ImportFileRecord,
+  options: ImportFileOptions = {}
+): Promise<ImportFileData> => {
+  const buffer = await readStoredFile(importRecord);
   const validation = validateImportBuffer({
     buffer,
     fileName: importRecord.originalFilename,
     mimeType: importRecord.mimeType ?? undefined
   });
   const lowerName = importRecord.originalFilename.toLowerCase();
-  const { sheetName, maxRows } = options;
+  const { sheetName, maxRows, periodEnd } = options;
+
+  if (validation.kind === "BACS_STANDARD_18") {
+    const rows = bacsStandard18Rows(parseBacsStandard18(buffer.toString("utf8")));
+    return {
+      rows: maxRows ? rows.slice(0, maxRows) : rows,
+      sheetNames: [],
+      sheetName: null,
+      rowCount: validation.rowCount,
+      columnCount: validation.columnCount
+    };
+  }
+
+  if (validation.kind === "SEPA_PAIN_001") {
+    const file = parseSepaPain001(buffer.toString("utf8"));
+    const rows = sepaPain001Rows(file);
+    return {
+      rows: maxRows ? rows.slice(0, maxRows) : rows,
+      sheetNames: [],
+      sheetName: null,
+      rowCount: validation.rowCount,
+      columnCount: validation.columnCount,
+      sepaControls: file.controls
+    };
+  }
+
+  if (validation.kind === "RTI_SUBMISSION" || validation.kind === "REVENUE_PAYROLL_SUBMISSION") {
+    const text = buffer.toString("utf8");
+    const rows = statutoryEntryRows(
+      validation.kind === "RTI_SUBMISSION"
+        ? parseRtiSubmission(text).entries
+        : parseRevenuePayrollSubmission(text)
+    );
+    return {
+      rows: maxRows ? rows.slice(0, maxRows) : rows,
+      sheetNames: [],
+      sheetName: null,
+      rowCount: validation.rowCount,
+      columnCount: validation.columnCount
+    };
+  }
 
   if (lowerName.endsWith(".xls")) {
     throw new ValidationError(
@@ -127,13 +197,16 @@ export const readImportFile = async (
     }) as unknown[][];
     const limitedRows = maxRows ? rows.slice(0, maxRows) : rows;
 
-    return {
-      rows: normalizeRows(limitedRows),
-      sheetNames,
-      sheetName: activeSheet,
-      rowCount: validation.rowCount,
-      columnCount: validation.columnCount
-    };
+    return withStatutoryRows(
+      {
+        rows: normalizeRows(limitedRows),
+        sheetNames,
+        sheetName: activeSheet,
+        rowCount: validation.rowCount,
+        columnCount: validation.columnCount
+      },
+      periodEnd
+    );
   }
 
   const text = buffer.toString("utf8");
@@ -147,11 +220,14 @@ export const readImportFile = async (
     throw new ValidationError("Unable to parse the uploaded CSV file.");
   }
 
-  return {
-    rows: normalizeRows(parsed.data as unknown[][]),
-    sheetNames: [],
-    sheetName: null,
-    rowCount: validation.rowCount,
-    columnCount: validation.columnCount
-  };
+  return withStatutoryRows(
+    {
+      rows: normalizeRows(parsed.data as unknown[][]),
+      sheetNames: [],
+      sheetName: null,
+      rowCount: validation.rowCount,
+      columnCount: validation.columnCount
+    },
+    periodEnd
+  );
 };
@@ -0,0 +1,92 @@
+import "server-only";
+
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import type { Role } from "@/lib/prisma";
+import { ImportFileInvalidError, ImportParseError, ValidationError } from "./errors";
+import { validateImportBufferForUpload } from "./import-validation";
+import { assertStorageKeyMatches, createImport, type ImportInput } from "./imports";
+import { enqueueJob } from "./jobs";
+import type { Permission } from "./permissions";
+import { storageBucket, storageClient } from "./storage";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+  role: Role;
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
+};
+
+export type FinalizeImportInput = Omit<
+  ImportInput,
+  "parseStatus" | "errorCode" | "errorMessage"
+>;
+
+const bodyToBuffer = async (body: unknown): Promise<Buffer> => {
+  if (!body) {
+    throw new ValidationError("File contents are unavailable.");
+  }
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (body instanceof Uint8Array) {
+    return Buffer.from(body);
+  }
+  if (typeof body === "string") {
+    return Buffer.from(body);
+  }
+  if (typeof (body as { pipe?: unknown }).pipe === "function") {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of body as AsyncIterable<Uint8Array>) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks.map((chunk) => Buffer.from(chunk)));
+  }
+  throw new ValidationError("Unable to read the uploaded file.");
+};
+
+/**
+ * Records an uploaded file as an import. The stored object is validated
+ * first; a file that fails validation is still recorded with its error, and
+ * `validationError` is set instead of queueing a parse job.
+ */
+export const finalizeImport = async (context: ActorContext, input: FinalizeImportInput) => {
+  assertStorageKeyMatches(context.firmId, input.payRunId, input.storageKey);
+
+  let validationError: ImportFileInvalidError | ImportParseError | null = null;
+  try {
+    const object = await storageClient.send(
+      new GetObjectCommand({
+        Bucket: storageBucket,
+        Key: input.storageKey
+      })
+    );
+    const buffer = await bodyToBuffer(object.Body);
+    validateImportBufferForUpload({
+      buffer,
+      fileName: input.originalFilename,
+      mimeType: input.mimeType,
+      sizeBytes: input.sizeBytes
+    });
+  } catch (error) {
+    if (error instanceof ImportFileInvalidError || error instanceof ImportParseError) {
+      validationError = error;
+    } else {
+      throw error;
+    }
+  }
+
+  const result = await createImport(context, {
+    ...input,
+    parseStatus: validationError?.code ?? "UPLOADED",
+    errorCode: validationError?.code ?? null,
+    errorMessage: validationError?.message ?? null
+  });
+
+  const parseJob =
+    !validationError && result.importRecord.parseStatus === "UPLOADED"
+      ? await enqueueJob(context, { name: "IMPORT_PARSE", importId: result.importRecord.id })
+      : null;
+
+  return { ...result, validationError, parseJob };
+};
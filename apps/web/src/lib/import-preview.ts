@@ -7,7 +7,9 @@ import {
   ValidationError
 } from "./errors";
 import { readImportFile } from "./import-file";
+import { statutoryPeriodEnd } from "./normalized-datasets";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { startSpan, withRetry } from "./logger";
 import { assertImportTransition, isImportErrorStatus } from "./import-status";
 
@@ -20,7 +22,7 @@ export const getImportPreview = async (
   importId: string,
   sheetName?: string | null,
   actorUserId?: string | null,
-  options?: { force?: boolean }
+  options?: { force?: boolean; clientIds?: readonly string[] | null }
 ) => {
   const span = startSpan("IMPORT_PREVIEW", { firmId, importId });
   const importRecord = await prisma.import.findFirst({
@@ -33,6 +35,11 @@ export const getImportPreview = async (
   if (!importRecord) {
     throw new NotFoundError("Import not found.");
   }
+  await assertClientAccess(
+    { firmId, userId: actorUserId, clientIds: options?.clientIds },
+    importRecord.clientId,
+    { entityType: "IMPORT", entityId: importRecord.id }
+  );
 
   const canRetry =
     options?.force === true && importRecord.parseStatus === "ERROR_PARSE_FAILED";
@@ -79,11 +86,13 @@ export const getImportPreview = async (
   }
 
   try {
+    const periodEnd = await statutoryPeriodEnd(importRecord);
     const preview = await withRetry(
       () =>
         readImportFile(importRecord, {
           sheetName: sheetName ?? null,
-          maxRows: MAX_PREVIEW_ROWS
+          maxRows: MAX_PREVIEW_ROWS,
+          periodEnd
         }),
       {
         event: "IMPORT_PREVIEW_READ",
@@ -98,7 +107,8 @@ export const getImportPreview = async (
       previewRowCount: preview.rows.length,
       previewColumnCount: countColumns(preview.rows),
       sheetName: preview.sheetName,
-      sheetNames: preview.sheetNames
+      sheetNames: preview.sheetNames,
+      ...(preview.sepaControls ? { sepaControls: preview.sepaControls } : {})
     };
 
     const nextStatus: ImportStatus = shouldUpdateStatus
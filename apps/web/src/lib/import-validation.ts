@@ -2,10 +2,34 @@ import "server-only";
 
 import Papa from "papaparse";
 import * as XLSX from "xlsx";
+import {
+  bacsStandard18Columns,
+  bacsStandard18Rows,
+  isBacsStandard18,
+  parseBacsStandard18
+} from "./bacs-standard18";
 import { ImportFileInvalidError, ImportParseError } from "./errors";
 import { env } from "./env";
-
-export type ImportFileKind = "CSV" | "XLSX";
+import {
+  detectRevenuePayrollSubmission,
+  parseRevenuePayrollSubmission
+} from "./revenue-payroll-submissions";
+import { detectRtiSubmission, parseRtiSubmission } from "./rti-submissions";
+import {
+  isSepaPain001,
+  parseSepaPain001,
+  sepaPain001Columns,
+  sepaPain001Rows
+} from "./sepa-pain001";
+import { statutoryEntryRows, statutoryFileColumns } from "./statutory-files";
+
+export type ImportFileKind =
+  | "CSV"
+  | "XLSX"
+  | "BACS_STANDARD_18"
+  | "SEPA_PAIN_001"
+  | "RTI_SUBMISSION"
+  | "REVENUE_PAYROLL_SUBMISSION";
 export type ImportValidationMode = "upload" | "parse";
 
 type ImportValidationResult = {
@@ -47,8 +71,28 @@ const getFileExtension = (fileName: string): string => {
   return dotIndex >= 0 ? lower.slice(dotIndex) : "";
 };
 
-const detectFileKind = (fileName: string, mimeType?: string): ImportFileKind => {
+const detectFileKind = (
+  buffer: Buffer,
+  fileName: string,
+  mimeType?: string
+): ImportFileKind => {
   const extension = getFileExtension(fileName);
+  // Bank and payroll submission files are recognised by their content, whatever
+  // they are called.
+  if (extension !== ".xlsx" && extension !== ".xls") {
+    if (isBacsStandard18(buffer)) {
+      return "BACS_STANDARD_18";
+    }
+    if (isSepaPain001(buffer)) {
+      return "SEPA_PAIN_001";
+    }
+    if (detectRtiSubmission(buffer)) {
+      return "RTI_SUBMISSION";
+    }
+    if (detectRevenuePayrollSubmission(buffer)) {
+      return "REVENUE_PAYROLL_SUBMISSION";
+    }
+  }
   if (extension === ".csv") {
     return "CSV";
   }
@@ -136,6 +180,46 @@ const assertRowAndColumnLimits = (rowCount: number, columnCount: number) => {
   }
 };
 
+const validateBacsStandard18 = (buffer: Buffer): ImportValidationResult => {
+  const rows = bacsStandard18Rows(parseBacsStandard18(assertTextLike(buffer)));
+  assertRowAndColumnLimits(rows.length, bacsStandard18Columns.length);
+  return {
+    kind: "BACS_STANDARD_18",
+    rowCount: rows.length,
+    columnCount: bacsStandard18Columns.length
+  };
+};
+
+const validateSepaPain001 = (buffer: Buffer): ImportValidationResult => {
+  const rows = sepaPain001Rows(parseSepaPain001(assertTextLike(buffer)));
+  assertRowAndColumnLimits(rows.length, sepaPain001Columns.length);
+  return {
+    kind: "SEPA_PAIN_001",
+    rowCount: rows.length,
+    columnCount: sepaPain001Columns.length
+  };
+};
+
+const validateRtiSubmission = (buffer: Buffer): ImportValidationResult => {
+  const rows = statutoryEntryRows(parseRtiSubmission(assertTextLike(buffer)).entries);
+  assertRowAndColumnLimits(rows.length, statutoryFileColumns.length);
+  return {
+    kind: "RTI_SUBMISSION",
+    rowCount: rows.length,
+    columnCount: statutoryFileColumns.length
+  };
+};
+
+const validateRevenuePayrollSubmission = (buffer: Buffer): ImportValidationResult => {
+  const rows = statutoryEntryRows(parseRevenuePayrollSubmission(assertTextLike(buffer)));
+  assertRowAndColumnLimits(rows.length, statutoryFileColumns.length);
+  return {
+    kind: "REVENUE_PAYROLL_SUBMISSION",
+    rowCount: rows.length,
+    columnCount: statutoryFileColumns.length
+  };
+};
+
 const extractSheetBounds = (workbook: XLSX.WorkBook) => {
   let maxRows = 0;
   let maxCols = 0;
@@ -167,7 +251,20 @@ export const validateImportBuffer = ({
   const actualSize = sizeBytes ?? buffer.length;
   assertMaxSize(actualSize);
 
-  const kind = detectFileKind(fileName, mimeType);
+  const kind = detectFileKind(buffer, fileName, mimeType);
+
+  if (kind === "BACS_STANDARD_18") {
+    return validateBacsStandard18(buffer);
+  }
+  if (kind === "SEPA_PAIN_001") {
+    return validateSepaPain001(buffer);
+  }
+  if (kind === "RTI_SUBMISSION") {
+    return validateRtiSubmission(buffer);
+  }
+  if (kind === "REVENUE_PAYROLL_SUBMISSION") {
+    return validateRevenuePayrollSubmission(buffer);
+  }
 
   if (kind === "XLSX") {
     assertZipSignature(buffer);
@@ -249,7 +346,20 @@ export const validateImportBufferForUpload = ({
   const actualSize = sizeBytes ?? buffer.length;
   assertMaxSize(actualSize);
 
-  const kind = detectFileKind(fileName, mimeType);
+  const kind = detectFileKind(buffer, fileName, mimeType);
+
+  if (kind === "BACS_STANDARD_18") {
+    return validateBacsStandard18(buffer);
+  }
+  if (kind === "SEPA_PAIN_001") {
+    return validateSepaPain001(buffer);
+  }
+  if (kind === "RTI_SUBMISSION") {
+    return validateRtiSubmission(buffer);
+  }
+  if (kind === "REVENUE_PAYROLL_SUBMISSION") {
+    return validateRevenuePayrollSubmission(buffer);
+  }
 
   if (kind === "XLSX") {
     assertZipSignature(buffer);
@@ -8,10 +8,12 @@ import {
   type SourceType
 } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { ConflictError, NotFoundError, ValidationError } from "./errors";
 import { transitionPayRunStatus } from "./pay-runs";
 import { isImportErrorStatus } from "./import-status";
 import { storageBucket } from "./storage";
+import { can, type Permission } from "./permissions";
 
 export type ImportInput = {
   payRunId: string;
@@ -30,6 +32,8 @@ type ActorContext = {
   firmId: string;
   userId: string;
   role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
 export type ImportCreateResult = {
@@ -37,9 +41,16 @@ export type ImportCreateResult = {
   duplicate: boolean;
 };
 
-const allowedExtensions = [".csv", ".xlsx"];
+// BACS Standard 18 files usually come as .txt, .bac or .dat, SEPA and RTI
+// files as .xml and Revenue payroll submissions as .json or .xml; their
+// content is checked on upload.
+const allowedExtensions = [".csv", ".xlsx", ".txt", ".bac", ".dat", ".xml", ".json"];
 const allowedMimeTypes = [
   "text/csv",
+  "text/plain",
+  "application/xml",
+  "text/xml",
+  "application/json",
   "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
   "application/vnd.ms-excel"
 ];
@@ -77,17 +88,21 @@ export const assertStorageKeyMatches = (
   }
 };
 
-const getPayRunForImport = async (firmId: string, payRunId: string) => {
+const getPayRunForImport = async (context: ActorContext, payRunId: string) => {
   const payRun = await prisma.payRun.findFirst({
     where: {
       id: payRunId,
-      firmId
+      firmId: context.firmId
     }
   });
 
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
   if (payRun.status === "LOCKED" || payRun.status === "ARCHIVED") {
     throw new ValidationError("Locked pay runs cannot accept new imports.");
@@ -104,11 +119,11 @@ export const createImport = async (
   context: ActorContext,
   input: ImportInput
 ): Promise<ImportCreateResult> => {
-  const payRun = await getPayRunForImport(context.firmId, input.payRunId);
+  const payRun = await getPayRunForImport(context, input.payRunId);
 
-  if (payRun.status === "DRAFT" && context.role === "REVIEWER") {
+  if (payRun.status === "DRAFT" && !can(context, "pay-run:prepare")) {
     throw new ValidationError(
-      "Reviewers cannot start imports on draft pay runs."
+      "You cannot start imports on draft pay runs."
     );
   }
 
@@ -186,7 +201,9 @@ export const createImport = async (
       {
         firmId: context.firmId,
         userId: context.userId,
-        role: context.role
+        role: context.role,
+        permissions: context.permissions,
+        clientIds: context.clientIds
       },
       payRun.id,
       "IMPORTED"
@@ -0,0 +1,52 @@
+export type PolledJobStatus = "QUEUED" | "RUNNING" | "SUCCEEDED" | "FAILED";
+
+export type PolledJob = {
+  id: string;
+  name: string;
+  status: PolledJobStatus;
+  result: Record<string, unknown> | null;
+  error: string | null;
+};
+
+type WaitForJobOptions = {
+  intervalMs?: number;
+  timeoutMs?: number;
+  fetcher?: typeof fetch;
+  onUpdate?: (job: PolledJob) => void;
+};
+
+export const isJobFinished = (status: PolledJobStatus) =>
+  status === "SUCCEEDED" || status === "FAILED";
+
+/**
+ * Polls a queued job until the worker finishes it. Failed jobs resolve rather
+ * than throw so callers can show the stored error message.
+ */
+export const waitForJob = async (
+  jobId: string,
+  options: WaitForJobOptions = {}
+): Promise<PolledJob> => {
+  const intervalMs = options.intervalMs ?? 1500;
+  const timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+  const fetcher = options.fetcher ?? fetch;
+  const startedAt = Date.now();
+
+  for (;;) {
+    const response = await fetcher(`/api/jobs/${jobId}`, { cache: "no-store" });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || "Unable to check job status.");
+    }
+
+    const job = data as PolledJob;
+    options.onUpdate?.(job);
+    if (isJobFinished(job.status)) {
+      return job;
+    }
+    if (Date.now() - startedAt >= timeoutMs) {
+      throw new Error("The job is still running. Refresh the page to check progress.");
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+};
@@ -0,0 +1,398 @@
+import "server-only";
+
+import {
+  prisma,
+  type Job,
+  type JobName,
+  type JobStatus,
+  type Prisma,
+  type Role
+} from "@/lib/prisma";
+import {
+  assertClientAccess,
+  resolveClientIds,
+  type ClientScope
+} from "./client-access";
+import { NotFoundError, ValidationError } from "./errors";
+import { getImportPreview } from "./import-preview";
+import { logError, logInfo, withRetry } from "./logger";
+import { generatePack } from "./packs";
+import {
+  PermissionError,
+  requirePermission,
+  resolveUserPermissions,
+  type Permission
+} from "./permissions";
+import { runReconciliation } from "./reconciliation";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+  role: Role;
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
+};
+
+export type JobPayload = {
+  sheetName?: string | null;
+};
+
+export type JobSummary = {
+  id: string;
+  name: JobName;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+type EnqueueJobInput = {
+  name: JobName;
+  payRunId?: string | null;
+  importId?: string | null;
+  payload?: JobPayload;
+};
+
+const jobPermissions: Record<JobName, Permission> = {
+  IMPORT_PARSE: "import:upload",
+  RECONCILIATION_RUN: "reconciliation:run",
+  PACK_GENERATE: "pack:generate"
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Jobs locked for longer than this are treated as abandoned by a stopped worker.
+const STALE_LOCK_MS = 15 * 60 * 1000;
+const UNEXPECTED_ERROR_MESSAGE = "The job failed unexpectedly. Try again.";
+
+/**
+ * Errors raised by validation, lookups or permission checks will fail the same
+ * way on every attempt, so jobs stop at the first one.
+ */
+export const isRetryableJobError = (error: unknown): boolean =>
+  !(
+    error instanceof ValidationError ||
+    error instanceof NotFoundError ||
+    error instanceof PermissionError
+  );
+
+/**
+ * Only messages written for users are stored on the job; anything else is
+ * replaced so internal details do not reach the polling UI.
+ */
+export const describeJobError = (error: unknown): { name: string; message: string } => {
+  const name = error instanceof Error && error.name ? error.name : "Error";
+  if (!isRetryableJobError(error) && error instanceof Error) {
+    return {
+      name,
+      message: error instanceof PermissionError ? "Permission denied." : error.message
+    };
+  }
+  return { name, message: UNEXPECTED_ERROR_MESSAGE };
+};
+
+export const toJobSummary = (job: Job): JobSummary => ({
+  id: job.id,
+  name: job.name,
+  status: job.status,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  result: (job.result as Record<string, unknown> | null) ?? null,
+  error: job.status === "FAILED" ? job.lastErrorMessage : null,
+  createdAt: job.createdAt.toISOString(),
+  completedAt: job.completedAt ? job.completedAt.toISOString() : null
+});
+
+const assertJobTarget = async (context: ActorContext, input: EnqueueJobInput) => {
+  if (input.name === "IMPORT_PARSE") {
+    if (!input.importId) {
+      throw new ValidationError("Import parsing jobs require an import.");
+    }
+    const importRecord = await prisma.import.findFirst({
+      where: { id: input.importId, firmId: context.firmId }
+    });
+    if (!importRecord) {
+      throw new NotFoundError("Import not found.");
+    }
+    await assertClientAccess(context, importRecord.clientId, {
+      entityType: "IMPORT",
+      entityId: importRecord.id
+    });
+    return { payRunId: importRecord.payRunId, importId: importRecord.id };
+  }
+
+  if (!input.payRunId) {
+    throw new ValidationError("This job requires a pay run.");
+  }
+  const payRun = await prisma.payRun.findFirst({
+    where: { id: input.payRunId, firmId: context.firmId }
+  });
+  if (!payRun) {
+    throw new NotFoundError("Pay run not found.");
+  }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
+  return { payRunId: payRun.id, importId: null };
+};
+
+/**
+ * Queues work for the worker. A job that is already queued or running for the
+ * same target is returned instead of creating a duplicate, so repeated clicks
+ * poll the same job.
+ */
+export const enqueueJob = async (context: ActorContext, input: EnqueueJobInput) => {
+  requirePermission(context, jobPermissions[input.name]);
+  const target = await assertJobTarget(context, input);
+
+  const existing = await prisma.job.findFirst({
+    where: {
+      firmId: context.firmId,
+      name: input.name,
+      payRunId: target.payRunId,
+      importId: target.importId,
+      status: { in: ["QUEUED", "RUNNING"] }
+    },
+    orderBy: { createdAt: "desc" }
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const job = await prisma.job.create({
+    data: {
+      firmId: context.firmId,
+      name: input.name,
+      payRunId: target.payRunId,
+      importId: target.importId,
+      payload: (input.payload ?? {}) as Prisma.InputJsonValue,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      createdByUserId: context.userId
+    }
+  });
+
+  logInfo("JOB_QUEUED", {
+    firmId: context.firmId,
+    userId: context.userId,
+    payRunId: target.payRunId ?? undefined,
+    importId: target.importId ?? undefined,
+    jobId: job.id,
+    jobName: job.name
+  });
+
+  return job;
+};
+
+export const getJob = async (scope: ClientScope, jobId: string) => {
+  const job = await prisma.job.findFirst({
+    where: { id: jobId, firmId: scope.firmId },
+    include: { payRun: { select: { id: true, clientId: true } } }
+  });
+  if (!job) {
+    throw new NotFoundError("Job not found.");
+  }
+  if (job.payRun) {
+    await assertClientAccess(scope, job.payRun.clientId, {
+      entityType: "PAY_RUN",
+      entityId: job.payRun.id
+    });
+  }
+  return job;
+};
+
+/**
+ * Locks the next due job for this worker. `SKIP LOCKED` lets several workers
+ * poll the same table without claiming the same row, and running jobs whose
+ * lock has gone stale are picked up again.
+ */
+export const claimNextJob = async (workerId: string): Promise<Job | null> => {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING'::"JobStatus",
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'QUEUED'::"JobStatus" AND "runAt" <= NOW())
+         OR ("status" = 'RUNNING'::"JobStatus" AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `;
+
+  const jobId = claimed[0]?.id;
+  if (!jobId) {
+    return null;
+  }
+  return prisma.job.findUnique({ where: { id: jobId } });
+};
+
+const resolveJobActor = async (job: Job): Promise<ActorContext> => {
+  const user = await prisma.user.findFirst({
+    where: { id: job.createdByUserId, firmId: job.firmId },
+    include: {
+      firmRole: { select: { permissions: true } },
+      clientAssignments: { select: { clientId: true } }
+    }
+  });
+  if (!user || user.status !== "ACTIVE") {
+    throw new PermissionError();
+  }
+  // Resolved when the job runs, so a role or client access change since
+  // enqueueing applies.
+  const permissions = resolveUserPermissions(user);
+  return {
+    firmId: job.firmId,
+    userId: user.id,
+    role: user.role,
+    permissions,
+    clientIds: resolveClientIds({ ...user, permissions })
+  };
+};
+
+const handleJob = async (job: Job): Promise<Record<string, unknown>> => {
+  const actor = await resolveJobActor(job);
+  const payload = (job.payload ?? {}) as JobPayload;
+
+  switch (job.name) {
+    case "IMPORT_PARSE": {
+      if (!job.importId) {
+        throw new ValidationError("Import parsing jobs require an import.");
+      }
+      requirePermission(actor, "import:upload");
+      // Forced so attempts after a failed read can move the import out of
+      // ERROR_PARSE_FAILED again.
+      const preview = await getImportPreview(
+        job.firmId,
+        job.importId,
+        payload.sheetName ?? null,
+        actor.userId,
+        { force: true, clientIds: actor.clientIds }
+      );
+      return {
+        importId: job.importId,
+        rowCount: preview.rowCount,
+        columnCount: preview.columnCount
+      };
+    }
+    case "RECONCILIATION_RUN": {
+      if (!job.payRunId) {
+        throw new ValidationError("Reconciliation jobs require a pay run.");
+      }
+      return runReconciliation(actor, job.payRunId);
+    }
+    case "PACK_GENERATE": {
+      if (!job.payRunId) {
+        throw new ValidationError("Pack jobs require a pay run.");
+      }
+      const pack = await generatePack(actor, job.payRunId);
+      return { packId: pack.id, packVersion: pack.packVersion };
+    }
+    default:
+      throw new ValidationError("Unknown job.");
+  }
+};
+
+/**
+ * Runs a claimed job with the same retry rules as `withRetry`: failures that
+ * cannot succeed on a later attempt stop immediately, others are retried until
+ * the job's attempts are used up.
+ */
+export const runJob = async (job: Job): Promise<Job> => {
+  const context = {
+    firmId: job.firmId,
+    payRunId: job.payRunId ?? undefined,
+    importId: job.importId ?? undefined,
+    jobId: job.id,
+    jobName: job.name
+  };
+  const remainingAttempts = job.maxAttempts - job.attempts;
+
+  if (remainingAttempts <= 0) {
+    logError("JOB_ABANDONED", { ...context, attempt: job.attempts });
+    return prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "FAILED",
+        lockedAt: null,
+        lockedBy: null,
+        lastErrorName: "JobAbandonedError",
+        lastErrorMessage: UNEXPECTED_ERROR_MESSAGE,
+        completedAt: new Date()
+      }
+    });
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await withRetry(
+      async () => {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: { attempts: { increment: 1 } }
+        });
+        return handleJob(job);
+      },
+      {
+        attempts: remainingAttempts,
+        event: "JOB_RUN",
+        context,
+        shouldRetry: isRetryableJobError
+      }
+    );
+
+    const completed = await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "SUCCEEDED",
+        result: result as Prisma.InputJsonValue,
+        lockedAt: null,
+        lockedBy: null,
+        lastErrorName: null,
+        lastErrorMessage: null,
+        completedAt: new Date()
+      }
+    });
+    logInfo("JOB_SUCCEEDED", {
+      ...context,
+      attempt: completed.attempts,
+      durationMs: Date.now() - startedAt
+    });
+    return completed;
+  } catch (error) {
+    const described = describeJobError(error);
+    const failed = await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "FAILED",
+        lockedAt: null,
+        lockedBy: null,
+        lastErrorName: described.name,
+        lastErrorMessage: described.message,
+        completedAt: new Date()
+      }
+    });
+    logError("JOB_FAILED", {
+      ...context,
+      attempt: failed.attempts,
+      durationMs: Date.now() - startedAt,
+      errorName: described.name
+    });
+    return failed;
+  }
+};
+
+export const processNextJob = async (workerId: string): Promise<Job | null> => {
+  const job = await claimNextJob(workerId);
+  if (!job) {
+    return null;
+  }
+  return runJob(job);
+};
@@ -0,0 +1,278 @@
+import "server-only";
+
+import type { CheckTolerance } from "./reconciliation-checks";
+
+export type RegisterEmployeeLine = {
+  rowNumber: number;
+  employeeId: string;
+  employeeName: string;
+  amountCents: number;
+};
+
+export type BankPaymentLine = {
+  rowNumber: number;
+  amountCents: number;
+  payeeId: string;
+  payeeName: string;
+  reference: string;
+};
+
+export type LineMatchMethod = "KEY" | "AMOUNT_NAME";
+
+export type LineMatch = {
+  registerRowNumber: number;
+  bankRowNumber: number;
+  amountCents: number;
+  method: LineMatchMethod;
+  similarity: number;
+};
+
+export type UnmatchedEmployee = {
+  rowNumber: number;
+  amountCents: number;
+  reason: "NO_CANDIDATE" | "AMOUNT_MISMATCH";
+  bankRowNumber?: number;
+};
+
+export type UnmatchedBankLine = {
+  rowNumber: number;
+  amountCents: number;
+};
+
+export type SplitPayment = {
+  registerRowNumber: number;
+  amountCents: number;
+  bankRowNumbers: number[];
+  bankTotalCents: number;
+  withinTolerance: boolean;
+};
+
+export type LineMatchingResult = {
+  matches: LineMatch[];
+  unmatchedEmployees: UnmatchedEmployee[];
+  unmatchedBankLines: UnmatchedBankLine[];
+  splitPayments: SplitPayment[];
+};
+
+export const NAME_SIMILARITY_THRESHOLD = 0.6;
+
+const tokenize = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+const normalizeKey = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const tokensMatch = (left: string, right: string): boolean => {
+  if (left === right) {
+    return true;
+  }
+  // Bank references often abbreviate forenames to initials ("J SMITH").
+  if (left.length === 1 || right.length === 1) {
+    return left[0] === right[0];
+  }
+  return false;
+};
+
+export const nameSimilarity = (left: string, right: string): number => {
+  const leftTokens = tokenize(left);
+  const rightTokens = tokenize(right);
+  if (leftTokens.length === 0 || rightTokens.length === 0) {
+    return 0;
+  }
+
+  const available = [...rightTokens];
+  let matched = 0;
+  for (const token of leftTokens) {
+    const index = available.findIndex((candidate) => tokensMatch(token, candidate));
+    if (index >= 0) {
+      matched += 1;
+      available.splice(index, 1);
+    }
+  }
+
+  return Number(((matched * 2) / (leftTokens.length + rightTokens.length)).toFixed(4));
+};
+
+const calcLineToleranceCents = (tolerance: CheckTolerance, amountCents: number) =>
+  Math.max(
+    tolerance.absoluteCents,
+    Math.round(Math.abs(amountCents) * (tolerance.percent / 100))
+  );
+
+const referenceContainsKey = (reference: string, key: string): boolean =>
+  tokenize(reference).some((token) => normalizeKey(token) === key);
+
+const isKeyMatch = (employeeKey: string, line: BankPaymentLine): boolean => {
+  if (!employeeKey) {
+    return false;
+  }
+  if (normalizeKey(line.payeeId) === employeeKey) {
+    return true;
+  }
+  return referenceContainsKey(line.reference, employeeKey);
+};
+
+const bestSimilarity = (employee: RegisterEmployeeLine, line: BankPaymentLine) => {
+  const employeeLabel = employee.employeeName || employee.employeeId;
+  return Math.max(
+    nameSimilarity(employeeLabel, line.payeeName),
+    nameSimilarity(employeeLabel, line.reference)
+  );
+};
+
+const byRowNumber = <T extends { rowNumber: number }>(left: T, right: T) =>
+  left.rowNumber - right.rowNumber;
+
+/**
+ * Matches register employees to bank lines in two deterministic passes:
+ * employee ID against payee ID/reference first, then amount within tolerance
+ * plus name similarity for whatever is left. Key matches spanning several bank
+ * lines are reported as split payments for reviewer sign-off.
+ */
+export const matchEmployeesToBankLines = ({
+  employees,
+  bankLines,
+  tolerance
+}: {
+  employees: RegisterEmployeeLine[];
+  bankLines: BankPaymentLine[];
+  tolerance: CheckTolerance;
+}): LineMatchingResult => {
+  const sortedEmployees = [...employees]
+    .filter((employee) => employee.amountCents > 0)
+    .sort(byRowNumber);
+  const remainingLines = new Map(
+    [...bankLines]
+      .filter((line) => line.amountCents > 0)
+      .sort(byRowNumber)
+      .map((line) => [line.rowNumber, line])
+  );
+
+  const matches: LineMatch[] = [];
+  const unmatchedEmployees: UnmatchedEmployee[] = [];
+  const splitPayments: SplitPayment[] = [];
+  const pendingEmployees: RegisterEmployeeLine[] = [];
+
+  for (const employee of sortedEmployees) {
+    const employeeKey = normalizeKey(employee.employeeId);
+    const keyed = Array.from(remainingLines.values()).filter((line) =>
+      isKeyMatch(employeeKey, line)
+    );
+
+    if (keyed.length === 0) {
+      pendingEmployees.push(employee);
+      continue;
+    }
+
+    for (const line of keyed) {
+      remainingLines.delete(line.rowNumber);
+    }
+
+    const toleranceCents = calcLineToleranceCents(tolerance, employee.amountCents);
+    const bankTotalCents = keyed.reduce((sum, line) => sum + line.amountCents, 0);
+    const withinTolerance =
+      Math.abs(employee.amountCents - bankTotalCents) <= toleranceCents;
+
+    if (keyed.length > 1) {
+      splitPayments.push({
+        registerRowNumber: employee.rowNumber,
+        amountCents: employee.amountCents,
+        bankRowNumbers: keyed.map((line) => line.rowNumber),
+        bankTotalCents,
+        withinTolerance
+      });
+      continue;
+    }
+
+    const [line] = keyed;
+    /* c8 ignore next 3 */
+    if (!line) {
+      continue;
+    }
+    if (!withinTolerance) {
+      unmatchedEmployees.push({
+        rowNumber: employee.rowNumber,
+        amountCents: employee.amountCents,
+        reason: "AMOUNT_MISMATCH",
+        bankRowNumber: line.rowNumber
+      });
+      continue;
+    }
+    matches.push({
+      registerRowNumber: employee.rowNumber,
+      bankRowNumber: line.rowNumber,
+      amountCents: employee.amountCents,
+      method: "KEY",
+      similarity: 1
+    });
+  }
+
+  for (const employee of pendingEmployees) {
+    const toleranceCents = calcLineToleranceCents(tolerance, employee.amountCents);
+    const candidates = Array.from(remainingLines.values())
+      .map((line) => ({
+        line,
+        deltaCents: Math.abs(employee.amountCents - line.amountCents),
+        similarity: bestSimilarity(employee, line)
+      }))
+      .filter(
+        (candidate) =>
+          candidate.deltaCents <= toleranceCents &&
+          candidate.similarity >= NAME_SIMILARITY_THRESHOLD
+      )
+      .sort((left, right) => {
+        if (right.similarity !== left.similarity) {
+          return right.similarity - left.similarity;
+        }
+        if (left.deltaCents !== right.deltaCents) {
+          return left.deltaCents - right.deltaCents;
+        }
+        return left.line.rowNumber - right.line.rowNumber;
+      });
+
+    const best = candidates[0];
+    if (!best) {
+      unmatchedEmployees.push({
+        rowNumber: employee.rowNumber,
+        amountCents: employee.amountCents,
+        reason: "NO_CANDIDATE"
+      });
+      continue;
+    }
+
+    remainingLines.delete(best.line.rowNumber);
+    matches.push({
+      registerRowNumber: employee.rowNumber,
+      bankRowNumber: best.line.rowNumber,
+      amountCents: employee.amountCents,
+      method: "AMOUNT_NAME",
+      similarity: best.similarity
+    });
+  }
+
+  return {
+    matches: matches.sort((left, right) => left.registerRowNumber - right.registerRowNumber),
+    unmatchedEmployees: unmatchedEmployees.sort(byRowNumber),
+    unmatchedBankLines: Array.from(remainingLines.values()).map((line) => ({
+      rowNumber: line.rowNumber,
+      amountCents: line.amountCents
+    })),
+    splitPayments
+  };
+};
+
+export const resolveLineMatchingEnabled = (clientSettings?: unknown): boolean => {
+  if (!clientSettings || typeof clientSettings !== "object") {
+    return false;
+  }
+  const lineMatching = (clientSettings as { lineMatching?: unknown }).lineMatching;
+  if (!lineMatching || typeof lineMatching !== "object") {
+    return false;
+  }
+  return (lineMatching as { enabled?: unknown }).enabled === true;
+};
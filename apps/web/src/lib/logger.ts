@@ -11,6 +11,9 @@ type LogContext = {
   runId?: string;
   jobId?: string;
   jobName?: string;
+  deliveryId?: string;
+  endpointId?: string;
+  responseStatus?: number;
   status?: string;
   attempt?: number;
   durationMs?: number;
@@ -28,6 +31,9 @@ const allowedKeys = new Set<keyof LogContext>([
   "runId",
   "jobId",
   "jobName",
+  "deliveryId",
+  "endpointId",
+  "responseStatus",
   "status",
   "attempt",
   "durationMs",
@@ -8,6 +8,7 @@ import {
   type SourceType
 } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { NotFoundError, ValidationError } from "./errors";
 import { assertImportTransition, isImportErrorStatus } from "./import-status";
 import { transitionPayRunStatus } from "./pay-runs";
@@ -19,11 +20,15 @@ import {
   type ColumnMap,
   validateColumnMap
 } from "./mapping-utils";
+import { tryNormalizeImport } from "./normalized-datasets";
+import { can, type Permission } from "./permissions";
 
 type ActorContext = {
   firmId: string;
   userId: string;
   role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
 const recordMappingSaved = async (
@@ -63,11 +68,11 @@ export type ApplyTemplateInput = {
   publish?: boolean;
 };
 
-const ensureImportForMapping = async (firmId: string, importId: string) => {
+const ensureImportForMapping = async (context: ActorContext, importId: string) => {
   const importRecord = await prisma.import.findFirst({
     where: {
       id: importId,
-      firmId
+      firmId: context.firmId
     },
     include: {
       firm: true,
@@ -79,6 +84,10 @@ const ensureImportForMapping = async (firmId: string, importId: string) => {
   if (!importRecord) {
     throw new NotFoundError("Import not found.");
   }
+  await assertClientAccess(context, importRecord.clientId, {
+    entityType: "IMPORT",
+    entityId: importRecord.id
+  });
 
   if (importRecord.payRun.status === "LOCKED" || importRecord.payRun.status === "ARCHIVED") {
     throw new ValidationError("Locked pay runs cannot accept template changes.");
@@ -233,7 +242,7 @@ const maybeTransitionToMapped = async (
   payRunId: string,
   requiredSources: SourceType[]
 ) => {
-  if (context.role === "REVIEWER") {
+  if (!can(context, "pay-run:prepare")) {
     return;
   }
 
@@ -274,7 +283,9 @@ const maybeTransitionToMapped = async (
       {
         firmId: context.firmId,
         userId: context.userId,
-        role: context.role
+        role: context.role,
+        permissions: context.permissions,
+        clientIds: context.clientIds
       },
       payRunId,
       "MAPPED"
@@ -372,7 +383,7 @@ export const applyMappingTemplate = async (
   context: ActorContext,
   input: ApplyTemplateInput
 ) => {
-  const importRecord = await ensureImportForMapping(context.firmId, input.importId);
+  const importRecord = await ensureImportForMapping(context, input.importId);
   const requiredSources = resolveRequiredSources(importRecord.firm.defaults);
   const sourceColumns = sanitizeSourceColumns(input.sourceColumns);
   const columnMap = sanitizeColumnMap(importRecord.sourceType, input.columnMap);
@@ -429,6 +440,8 @@ export const applyMappingTemplate = async (
         data: { mappingTemplateVersionId: template.id }
       });
       await markImportMapped(importRecord);
+      await tryNormalizeImport(context.firmId, importRecord.id);
+    await tryNormalizeImport(context.firmId, importRecord.id);
       await recordMappingSaved(context, importRecord, template);
       await maybeTransitionToMapped(context, importRecord.payRunId, requiredSources);
       await maybeTransitionImportsReady(context, importRecord.payRunId, requiredSources);
@@ -460,6 +473,7 @@ export const applyMappingTemplate = async (
       data: { mappingTemplateVersionId: created.id }
     });
     await markImportMapped(importRecord);
+    await tryNormalizeImport(context.firmId, importRecord.id);
     await recordMappingSaved(context, importRecord, created);
 
     await maybeTransitionToMapped(context, importRecord.payRunId, requiredSources);
@@ -522,6 +536,12 @@ export const updateTemplateStatus = async (
   if (!template) {
     throw new NotFoundError("Template not found.");
   }
+  if (template.clientId) {
+    await assertClientAccess(context, template.clientId, {
+      entityType: "TEMPLATE",
+      entityId: template.id
+    });
+  }
 
   if (template.status === status) {
     return template;
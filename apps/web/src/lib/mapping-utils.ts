@@ -27,6 +27,7 @@ export const mappingFieldConfigs: Record<SourceType, MappingFieldConfig> = {
     fields: [
       { key: "employeeId", label: "Employee ID", kind: "string", group: "employee" },
       { key: "employeeName", label: "Employee name", kind: "string", group: "employee" },
+      { key: "department", label: "Cost centre/department", kind: "string" },
       { key: "netPay", label: "Net pay", kind: "number", required: true },
       { key: "grossPay", label: "Gross pay", kind: "number" },
       { key: "tax1", label: "Tax (PAYE/USC)", kind: "number", required: true },
@@ -50,7 +51,10 @@ export const mappingFieldConfigs: Record<SourceType, MappingFieldConfig> = {
       { key: "payeeId", label: "Payee ID", kind: "string", group: "payee" },
       { key: "payeeName", label: "Payee name", kind: "string", group: "payee" },
       { key: "amount", label: "Payment amount", kind: "number", required: true },
-      { key: "reference", label: "Payment reference", kind: "string" }
+      { key: "reference", label: "Payment reference", kind: "string" },
+      { key: "sortCode", label: "Sort code", kind: "string" },
+      { key: "accountNumber", label: "Account number", kind: "string" },
+      { key: "iban", label: "IBAN", kind: "string" }
     ],
     requiredFields: ["amount"],
     requiredGroups: [
@@ -75,7 +79,9 @@ export const mappingFieldConfigs: Record<SourceType, MappingFieldConfig> = {
   STATUTORY: {
     fields: [
       { key: "category", label: "Category", kind: "string", required: true },
-      { key: "amount", label: "Amount", kind: "number", required: true }
+      { key: "amount", label: "Amount", kind: "number", required: true },
+      { key: "categoryKey", label: "Category key", kind: "string" },
+      { key: "employeeId", label: "Employee ID", kind: "string" }
     ],
     requiredFields: ["category", "amount"]
   },
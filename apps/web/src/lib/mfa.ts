@@ -0,0 +1,331 @@
+import "server-only";
+
+import { prisma, type Role, type User } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { env } from "./env";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import { openSecret, sealSecret } from "./secret-box";
+import { hashToken } from "./token";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotpCode
+} from "./totp";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+/**
+ * Firm-wide MFA policy stored in `Firm.defaults.mfa`. PRIVILEGED covers the
+ * built-in ADMIN and REVIEWER roles, including users with a firm role on top.
+ */
+export type MfaRequirement = "OFF" | "ALL" | "PRIVILEGED";
+
+export const mfaRequirements: MfaRequirement[] = ["OFF", "ALL", "PRIVILEGED"];
+
+const privilegedRoles: Role[] = ["ADMIN", "REVIEWER"];
+
+const mfaIssuer = "Tally";
+
+const invalidCodeMessage = "That code is not valid. Check your authenticator app and try again.";
+
+// A sign-in challenge is locked after this many wrong codes in a row.
+const maxFailedChallenges = 5;
+const challengeLockMs = 15 * 60 * 1000;
+
+const mfaKeySecret = () => env.MFA_ENCRYPTION_SECRET;
+
+const openMfaSecret = (sealed: string) => openSecret(sealed, mfaKeySecret());
+
+const isMfaRequirement = (value: unknown): value is MfaRequirement =>
+  mfaRequirements.includes(value as MfaRequirement);
+
+export const parseMfaSettings = (defaults: unknown): { requirement: MfaRequirement } => {
+  if (!defaults || typeof defaults !== "object") {
+    return { requirement: "OFF" };
+  }
+  const settings = (defaults as { mfa?: Record<string, unknown> }).mfa;
+  return {
+    requirement: isMfaRequirement(settings?.requirement) ? settings.requirement : "OFF"
+  };
+};
+
+export const isMfaRequired = (role: Role, defaults: unknown): boolean => {
+  const { requirement } = parseMfaSettings(defaults);
+  return requirement === "ALL" || (requirement === "PRIVILEGED" && privilegedRoles.includes(role));
+};
+
+const hashRecoveryCode = (code: string) => hashToken(normalizeRecoveryCode(code));
+
+const issueRecoveryCodes = () => {
+  const codes = generateRecoveryCodes();
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+const getFirmUser = async (context: ActorContext, userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, firmId: context.firmId }
+  });
+  if (!user) {
+    throw new NotFoundError("User not found.");
+  }
+  return user;
+};
+
+/**
+ * Records an accepted TOTP step. The conditional update rejects a code that a
+ * concurrent request has already used.
+ */
+const consumeTotpStep = async (userId: string, step: number) => {
+  const result = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }]
+    },
+    data: { mfaLastUsedStep: step }
+  });
+  return result.count === 1;
+};
+
+/** Creates the pending TOTP secret shown during enrollment, keeping any existing one. */
+export const startMfaEnrollment = async (context: ActorContext) => {
+  const user = await getFirmUser(context, context.userId);
+  if (user.mfaEnabledAt) {
+    throw new ConflictError("Multi-factor authentication is already enabled.");
+  }
+  if (user.mfaSecret) {
+    return user;
+  }
+  return prisma.user.update({
+    where: { id: user.id },
+    data: { mfaSecret: sealSecret(generateTotpSecret(), mfaKeySecret()) }
+  });
+};
+
+export const getMfaEnrollment = (user: Pick<User, "email" | "mfaSecret" | "mfaEnabledAt">) => {
+  if (!user.mfaSecret || user.mfaEnabledAt) {
+    return null;
+  }
+  const secret = openMfaSecret(user.mfaSecret);
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri({ issuer: mfaIssuer, accountName: user.email, secret })
+  };
+};
+
+/** Confirms enrollment with a first code and returns the one-time recovery codes. */
+export const confirmMfaEnrollment = async (
+  context: ActorContext,
+  code: string
+): Promise<string[]> => {
+  const user = await getFirmUser(context, context.userId);
+  if (user.mfaEnabledAt) {
+    throw new ConflictError("Multi-factor authentication is already enabled.");
+  }
+  if (!user.mfaSecret) {
+    throw new ValidationError("Start enrollment before confirming a code.");
+  }
+
+  const step = verifyTotpCode(openMfaSecret(user.mfaSecret), code);
+  if (step === null) {
+    throw new ValidationError(invalidCodeMessage);
+  }
+
+  const { codes, hashes } = issueRecoveryCodes();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaEnabledAt: new Date(),
+      mfaLastUsedStep: step,
+      mfaRecoveryCodeHashes: hashes
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "MFA_ENROLLED",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { recoveryCodes: codes.length }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return codes;
+};
+
+/** Replaces the user's recovery codes after checking a current TOTP code. */
+export const regenerateRecoveryCodes = async (
+  context: ActorContext,
+  code: string
+): Promise<string[]> => {
+  const user = await getFirmUser(context, context.userId);
+  if (!user.mfaEnabledAt || !user.mfaSecret) {
+    throw new ValidationError("Multi-factor authentication is not enabled.");
+  }
+
+  const step = verifyTotpCode(openMfaSecret(user.mfaSecret), code, {
+    lastUsedStep: user.mfaLastUsedStep
+  });
+  if (step === null || !(await consumeTotpStep(user.id, step))) {
+    throw new ValidationError(invalidCodeMessage);
+  }
+
+  const { codes, hashes } = issueRecoveryCodes();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { mfaRecoveryCodeHashes: hashes }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "MFA_RECOVERY_CODES_REGENERATED",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { recoveryCodes: codes.length }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return codes;
+};
+
+export type MfaChallengeResult = "totp" | "recovery" | "locked" | null;
+
+/**
+ * Counts a wrong challenge code. The limit locks the challenge for a while and
+ * starts the count again.
+ */
+const recordFailedChallenge = async (user: User): Promise<MfaChallengeResult> => {
+  const { mfaFailedAttempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: { mfaFailedAttempts: { increment: 1 } }
+  });
+  const locked = mfaFailedAttempts >= maxFailedChallenges;
+  if (locked) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        mfaFailedAttempts: 0,
+        mfaLockedUntil: new Date(Date.now() + challengeLockMs)
+      }
+    });
+  }
+
+  await recordAuditEvent(
+    {
+      action: "MFA_FAILED",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { attempts: mfaFailedAttempts, locked }
+    },
+    { firmId: user.firmId, actorUserId: user.id }
+  );
+
+  return locked ? "locked" : null;
+};
+
+const clearFailedChallenges = async (user: User) => {
+  if (user.mfaFailedAttempts > 0 || user.mfaLockedUntil) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { mfaFailedAttempts: 0, mfaLockedUntil: null }
+    });
+  }
+};
+
+/**
+ * Checks a login challenge against the user's TOTP secret, falling back to a
+ * single-use recovery code. Wrong codes are audited, and after
+ * maxFailedChallenges of them the challenge is locked and returns "locked".
+ */
+export const verifyMfaChallenge = async (
+  userId: string,
+  code: string
+): Promise<MfaChallengeResult> => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, status: "ACTIVE" }
+  });
+  if (!user?.mfaEnabledAt || !user.mfaSecret) {
+    return null;
+  }
+  if (user.mfaLockedUntil && user.mfaLockedUntil > new Date()) {
+    return "locked";
+  }
+
+  const step = verifyTotpCode(openMfaSecret(user.mfaSecret), code, {
+    lastUsedStep: user.mfaLastUsedStep
+  });
+  if (step !== null) {
+    if (!(await consumeTotpStep(user.id, step))) {
+      return recordFailedChallenge(user);
+    }
+    await clearFailedChallenges(user);
+    return "totp";
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  if (!user.mfaRecoveryCodeHashes.includes(codeHash)) {
+    return recordFailedChallenge(user);
+  }
+  const remaining = user.mfaRecoveryCodeHashes.filter((hash) => hash !== codeHash);
+  const result = await prisma.user.updateMany({
+    where: { id: user.id, mfaRecoveryCodeHashes: { has: codeHash } },
+    data: { mfaRecoveryCodeHashes: remaining }
+  });
+  if (result.count !== 1) {
+    return recordFailedChallenge(user);
+  }
+  await clearFailedChallenges(user);
+
+  await recordAuditEvent(
+    {
+      action: "MFA_RECOVERY_CODE_USED",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { remaining: remaining.length }
+    },
+    { firmId: user.firmId, actorUserId: user.id }
+  );
+
+  return "recovery";
+};
+
+/**
+ * Clears a user's MFA enrollment so they enroll again at next sign-in, e.g.
+ * after losing their device and recovery codes.
+ */
+export const resetUserMfa = async (context: ActorContext, userId: string) => {
+  const user = await getFirmUser(context, userId);
+  if (!user.mfaSecret && !user.mfaEnabledAt) {
+    return user;
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaLastUsedStep: null,
+      mfaRecoveryCodeHashes: [],
+      mfaFailedAttempts: 0,
+      mfaLockedUntil: null
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "MFA_RESET",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { wasEnabled: user.mfaEnabledAt !== null }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return updated;
+};
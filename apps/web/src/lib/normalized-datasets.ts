@@ -0,0 +1,771 @@
+import "server-only";
+
+import {
+  prisma,
+  Prisma,
+  type MappingTemplate,
+  type SourceType
+} from "@/lib/prisma";
+import { NotFoundError, ValidationError } from "./errors";
+import { readImportFile } from "./import-file";
+import { logWarn, startSpan, withRetry } from "./logger";
+import { type ColumnMap, mappingFieldConfigs, normalizeColumnName } from "./mapping-utils";
+
+export type StatutoryCategoryKey =
+  | "TAX_PRIMARY"
+  | "TAX_SECONDARY"
+  | "TAX_OTHER"
+  | "PENSION_EMPLOYEE"
+  | "PENSION_EMPLOYER"
+  | "OTHER_DEDUCTIONS";
+
+export const STATUTORY_CATEGORY_KEYS: StatutoryCategoryKey[] = [
+  "TAX_PRIMARY",
+  "TAX_SECONDARY",
+  "TAX_OTHER",
+  "PENSION_EMPLOYEE",
+  "PENSION_EMPLOYER",
+  "OTHER_DEDUCTIONS"
+];
+
+export const isStatutoryCategoryKey = (value: string): value is StatutoryCategoryKey =>
+  (STATUTORY_CATEGORY_KEYS as string[]).includes(value);
+
+// Raw cell values keyed by the mapped source column, kept for evidence views.
+export type RawValues = Record<string, string>;
+
+export type NormalizedRegisterLine = {
+  rowNumber: number;
+  employeeRef: string | null;
+  employeeName: string | null;
+  department: string | null;
+  netPayCents: number | null;
+  grossPayCents: number | null;
+  tax1Cents: number | null;
+  tax2Cents: number | null;
+  tax3Cents: number | null;
+  pensionEmployeeCents: number | null;
+  pensionEmployerCents: number | null;
+  otherDeductionsCents: number | null;
+  rawValues: RawValues;
+};
+
+export type NormalizedBankLine = {
+  rowNumber: number;
+  payeeRef: string | null;
+  payeeName: string | null;
+  amountCents: number | null;
+  reference: string | null;
+  sortCode: string | null;
+  accountNumber: string | null;
+  iban: string | null;
+  rawValues: RawValues;
+};
+
+export type NormalizedGlLine = {
+  rowNumber: number;
+  accountCode: string;
+  description: string | null;
+  costCentre: string | null;
+  debitCents: number | null;
+  creditCents: number | null;
+  rawValues: RawValues;
+};
+
+export type NormalizedStatutoryLine = {
+  rowNumber: number;
+  category: string;
+  categoryKey: StatutoryCategoryKey | null;
+  amountCents: number | null;
+  employeeRef: string | null;
+  rawValues: RawValues;
+};
+
+export type NormalizedPensionScheduleLine = {
+  rowNumber: number;
+  employeeRef: string | null;
+  employeeName: string | null;
+  amountCents: number | null;
+  pensionEmployeeCents: number | null;
+  pensionEmployerCents: number | null;
+  rawValues: RawValues;
+};
+
+export type NormalizedLines =
+  | { sourceType: "REGISTER"; lines: NormalizedRegisterLine[] }
+  | { sourceType: "BANK"; lines: NormalizedBankLine[] }
+  | { sourceType: "GL"; lines: NormalizedGlLine[] }
+  | { sourceType: "STATUTORY"; lines: NormalizedStatutoryLine[] }
+  | { sourceType: "PENSION_SCHEDULE"; lines: NormalizedPensionScheduleLine[] };
+
+export const parseAmount = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const raw = String(value).trim();
+  if (!raw) {
+    return null;
+  }
+  const isParenNegative = raw.startsWith("(") && raw.endsWith(")");
+  const cleaned = raw.replace(/[^0-9.-]/g, "");
+  if (!cleaned) {
+    return null;
+  }
+  const parsed = Number(cleaned);
+  if (Number.isNaN(parsed)) {
+    return null;
+  }
+  return isParenNegative ? -Math.abs(parsed) : parsed;
+};
+
+export const toCents = (value: number): number => Math.round(value * 100);
+
+const parseCents = (value: string | undefined): number | null => {
+  const parsed = parseAmount(value);
+  return parsed === null ? null : toCents(parsed);
+};
+
+const optionalText = (value: string | undefined): string | null => {
+  const trimmed = String(value ?? "").trim();
+  return trimmed ? trimmed : null;
+};
+
+export const normalizeStatutoryCategoryMap = (
+  normalizationRules: unknown
+): Record<string, StatutoryCategoryKey | null> => {
+  const rawCategoryMap =
+    (
+      normalizationRules as {
+        categoryMap?: Record<string, StatutoryCategoryKey | null>;
+      } | null
+    )?.categoryMap ?? {};
+  return Object.fromEntries(
+    Object.entries(rawCategoryMap)
+      .map(([key, value]) => [normalizeColumnName(key), value])
+      .filter(([key]) => Boolean(key))
+  ) as Record<string, StatutoryCategoryKey | null>;
+};
+
+/**
+ * Applies a mapping template to parsed file rows and returns typed lines for
+ * the import's source type. Row numbers are 1-based file rows so evidence
+ * pointers keep matching the original upload.
+ */
+export const normalizeImportRows = ({
+  sourceType,
+  rows,
+  headerRowIndex,
+  columnMap,
+  normalizationRules
+}: {
+  sourceType: SourceType;
+  rows: string[][];
+  headerRowIndex: number;
+  columnMap: ColumnMap;
+  normalizationRules?: unknown;
+}): NormalizedLines => {
+  if (rows.length === 0 || headerRowIndex >= rows.length) {
+    throw new ValidationError("Unable to locate the header row for this import.");
+  }
+
+  const headerRow = rows[headerRowIndex] ?? [];
+  const columnIndexByNormalized = new Map<string, number>();
+  headerRow.forEach((column, index) => {
+    const normalized = normalizeColumnName(String(column));
+    if (normalized) {
+      columnIndexByNormalized.set(normalized, index);
+    }
+  });
+  if (columnIndexByNormalized.size === 0) {
+    throw new ValidationError("No columns were detected for this import.");
+  }
+
+  const config = mappingFieldConfigs[sourceType];
+  for (const requiredField of config.requiredFields) {
+    if (!columnMap[requiredField]) {
+      throw new ValidationError("Required mapping column is missing.");
+    }
+  }
+
+  const mappedColumns = new Map<string, { columnName: string; index: number }>();
+  for (const field of config.fields) {
+    const columnName = columnMap[field.key];
+    if (!columnName) {
+      continue;
+    }
+    const normalized = normalizeColumnName(columnName);
+    const index = normalized ? columnIndexByNormalized.get(normalized) : undefined;
+    if (index === undefined) {
+      throw new ValidationError(
+        `Mapped column "${columnName}" is missing from the latest import.`
+      );
+    }
+    mappedColumns.set(field.key, { columnName, index });
+  }
+
+  const dataRows = rows
+    .map((row, rowIndex) => ({ row, rowNumber: rowIndex + 1 }))
+    .filter(
+      ({ row }, rowIndex) =>
+        rowIndex > headerRowIndex && !row.every((cell) => String(cell).trim().length === 0)
+    );
+
+  const cell = (row: string[], key: string): string | undefined => {
+    const column = mappedColumns.get(key);
+    return column ? String(row[column.index] ?? "") : undefined;
+  };
+  const rawValuesFor = (row: string[]): RawValues =>
+    Object.fromEntries(
+      Array.from(mappedColumns.values()).map((column) => [
+        column.columnName,
+        String(row[column.index] ?? "")
+      ])
+    );
+
+  switch (sourceType) {
+    case "REGISTER":
+      return {
+        sourceType,
+        lines: dataRows.map(({ row, rowNumber }) => ({
+          rowNumber,
+          employeeRef: optionalText(cell(row, "employeeId")),
+          employeeName: optionalText(cell(row, "employeeName")),
+          department: optionalText(cell(row, "department")),
+          netPayCents: parseCents(cell(row, "netPay")),
+          grossPayCents: parseCents(cell(row, "grossPay")),
+          tax1Cents: parseCents(cell(row, "tax1")),
+          tax2Cents: parseCents(cell(row, "tax2")),
+          tax3Cents: parseCents(cell(row, "tax3")),
+          pensionEmployeeCents: parseCents(cell(row, "pensionEmployee")),
+          pensionEmployerCents: parseCents(cell(row, "pensionEmployer")),
+          otherDeductionsCents: parseCents(cell(row, "otherDeductions")),
+          rawValues: rawValuesFor(row)
+        }))
+      };
+    case "BANK":
+      return {
+        sourceType,
+        lines: dataRows.map(({ row, rowNumber }) => ({
+          rowNumber,
+          payeeRef: optionalText(cell(row, "payeeId")),
+          payeeName: optionalText(cell(row, "payeeName")),
+          amountCents: parseCents(cell(row, "amount")),
+          reference: optionalText(cell(row, "reference")),
+          sortCode: optionalText(cell(row, "sortCode")),
+          accountNumber: optionalText(cell(row, "accountNumber")),
+          iban: optionalText(cell(row, "iban")),
+          rawValues: rawValuesFor(row)
+        }))
+      };
+    case "GL": {
+      const hasSigned = mappedColumns.has("signedAmount");
+      if (!hasSigned && !(mappedColumns.has("debit") && mappedColumns.has("credit"))) {
+        throw new ValidationError("Journal template must include debit and credit.");
+      }
+      return {
+        sourceType,
+        lines: dataRows.map(({ row, rowNumber }) => {
+          const accountCode = String(cell(row, "account") ?? "").trim();
+          let debitCents: number | null = null;
+          let creditCents: number | null = null;
+          if (hasSigned) {
+            const signedCents = parseCents(cell(row, "signedAmount"));
+            if (signedCents !== null && signedCents > 0) {
+              debitCents = signedCents;
+            } else if (signedCents !== null && signedCents < 0) {
+              creditCents = Math.abs(signedCents);
+            }
+          } else {
+            const debit = parseCents(cell(row, "debit"));
+            const credit = parseCents(cell(row, "credit"));
+            debitCents = debit ? Math.abs(debit) : null;
+            creditCents = credit ? Math.abs(credit) : null;
+          }
+          return {
+            rowNumber,
+            accountCode,
+            description: optionalText(cell(row, "description")),
+            costCentre: optionalText(cell(row, "costCentre")),
+            debitCents,
+            creditCents,
+            rawValues: rawValuesFor(row)
+          };
+        })
+      };
+    }
+    case "STATUTORY": {
+      const categoryMap = normalizeStatutoryCategoryMap(normalizationRules);
+      return {
+        sourceType,
+        lines: dataRows
+          .map(({ row, rowNumber }) => {
+            const category = String(cell(row, "category") ?? "").trim();
+            const normalizedCategory = normalizeColumnName(category);
+            const mappedKey = String(cell(row, "categoryKey") ?? "").trim();
+            return {
+              rowNumber,
+              category,
+              // A key in the file (as in RTI and P32 imports) wins over the template's map.
+              categoryKey: isStatutoryCategoryKey(mappedKey)
+                ? mappedKey
+                : normalizedCategory
+                  ? (categoryMap[normalizedCategory] ?? null)
+                  : null,
+              amountCents: parseCents(cell(row, "amount")),
+              employeeRef: optionalText(cell(row, "employeeId")),
+              rawValues: rawValuesFor(row)
+            };
+          })
+          .filter((line) => line.category.length > 0)
+      };
+    }
+    case "PENSION_SCHEDULE":
+      return {
+        sourceType,
+        lines: dataRows.map(({ row, rowNumber }) => ({
+          rowNumber,
+          employeeRef: optionalText(cell(row, "employeeId")),
+          employeeName: optionalText(cell(row, "employeeName")),
+          amountCents: parseCents(cell(row, "amount")),
+          pensionEmployeeCents: parseCents(cell(row, "pensionEmployee")),
+          pensionEmployerCents: parseCents(cell(row, "pensionEmployer")),
+          rawValues: rawValuesFor(row)
+        }))
+      };
+  }
+};
+
+const toBigInt = (value: number | null): bigint | null =>
+  value === null ? null : BigInt(value);
+
+const fromBigInt = (value: bigint | null): number | null =>
+  value === null ? null : Number(value);
+
+const createLines = async (
+  tx: Prisma.TransactionClient,
+  datasetId: string,
+  normalized: NormalizedLines
+) => {
+  switch (normalized.sourceType) {
+    case "REGISTER":
+      await tx.registerLine.createMany({
+        data: normalized.lines.map((line) => ({
+          ...line,
+          datasetId,
+          netPayCents: toBigInt(line.netPayCents),
+          grossPayCents: toBigInt(line.grossPayCents),
+          tax1Cents: toBigInt(line.tax1Cents),
+          tax2Cents: toBigInt(line.tax2Cents),
+          tax3Cents: toBigInt(line.tax3Cents),
+          pensionEmployeeCents: toBigInt(line.pensionEmployeeCents),
+          pensionEmployerCents: toBigInt(line.pensionEmployerCents),
+          otherDeductionsCents: toBigInt(line.otherDeductionsCents)
+        }))
+      });
+      return;
+    case "BANK":
+      await tx.bankLine.createMany({
+        data: normalized.lines.map((line) => ({
+          ...line,
+          datasetId,
+          amountCents: toBigInt(line.amountCents)
+        }))
+      });
+      return;
+    case "GL":
+      await tx.glLine.createMany({
+        data: normalized.lines.map((line) => ({
+          ...line,
+          datasetId,
+          debitCents: toBigInt(line.debitCents),
+          creditCents: toBigInt(line.creditCents)
+        }))
+      });
+      return;
+    case "STATUTORY":
+      await tx.statutoryLine.createMany({
+        data: normalized.lines.map((line) => ({
+          ...line,
+          datasetId,
+          amountCents: toBigInt(line.amountCents)
+        }))
+      });
+      return;
+    case "PENSION_SCHEDULE":
+      await tx.pensionScheduleLine.createMany({
+        data: normalized.lines.map((line) => ({
+          ...line,
+          datasetId,
+          amountCents: toBigInt(line.amountCents),
+          pensionEmployeeCents: toBigInt(line.pensionEmployeeCents),
+          pensionEmployerCents: toBigInt(line.pensionEmployerCents)
+        }))
+      });
+      return;
+  }
+};
+
+type NormalizableImport = {
+  id: string;
+  firmId: string;
+  clientId: string;
+  payRunId: string;
+  sourceType: SourceType;
+  storageUri: string;
+  originalFilename: string;
+  mimeType: string | null;
+  normalizedDatasetId: string | null;
+  mappingTemplateVersion: MappingTemplate | null;
+};
+
+/** The pay run's period end for statutory imports, which picks the P32 tax month. */
+export const statutoryPeriodEnd = async (importRecord: {
+  firmId: string;
+  payRunId: string;
+  sourceType: SourceType;
+}): Promise<Date | undefined> => {
+  if (importRecord.sourceType !== "STATUTORY") {
+    return undefined;
+  }
+  const payRun = await prisma.payRun.findFirst({
+    where: { id: importRecord.payRunId, firmId: importRecord.firmId },
+    select: { periodEnd: true }
+  });
+  return payRun?.periodEnd;
+};
+
+const normalizeImportRecord = async (importRecord: NormalizableImport) => {
+  const template = importRecord.mappingTemplateVersion;
+  if (!template) {
+    throw new ValidationError(`Mapping required for ${importRecord.sourceType} import.`);
+  }
+
+  const span = startSpan("IMPORT_NORMALIZE", {
+    firmId: importRecord.firmId,
+    importId: importRecord.id
+  });
+  try {
+    const periodEnd = await statutoryPeriodEnd(importRecord);
+    const { rows } = await withRetry(
+      () =>
+        readImportFile(importRecord, {
+          sheetName: template.sheetName ?? null,
+          periodEnd
+        }),
+      {
+        event: "IMPORT_NORMALIZE_READ",
+        context: {
+          firmId: importRecord.firmId,
+          importId: importRecord.id
+        },
+        shouldRetry: (error) => !(error instanceof ValidationError)
+      }
+    );
+    const headerRowIndex = template.headerRowIndex ?? 0;
+    const normalized = normalizeImportRows({
+      sourceType: importRecord.sourceType,
+      rows,
+      headerRowIndex,
+      columnMap: template.columnMap as ColumnMap,
+      normalizationRules: template.normalizationRules
+    });
+
+    const dataset = await prisma.$transaction(async (tx) => {
+      const created = await tx.normalizedDataset.create({
+        data: {
+          firmId: importRecord.firmId,
+          importId: importRecord.id,
+          sourceType: importRecord.sourceType,
+          mappingTemplateVersionId: template.id,
+          headerRowIndex,
+          rowCount: normalized.lines.length
+        }
+      });
+      await createLines(tx, created.id, normalized);
+      await tx.import.update({
+        where: { id: importRecord.id },
+        data: { normalizedDatasetId: created.id }
+      });
+      return created;
+    });
+
+    span.end({ status: "SUCCESS" });
+    return dataset;
+  } catch (error) {
+    span.fail(error);
+    throw error;
+  }
+};
+
+/**
+ * Normalizes an import against its current mapping template version. Earlier
+ * datasets are kept so past reconciliation runs stay reproducible.
+ */
+export const normalizeImport = async (firmId: string, importId: string) => {
+  const importRecord = await prisma.import.findFirst({
+    where: { id: importId, firmId },
+    include: { mappingTemplateVersion: true }
+  });
+  if (!importRecord) {
+    throw new NotFoundError("Import not found.");
+  }
+  return normalizeImportRecord(importRecord);
+};
+
+/**
+ * Mapping stays usable when storage is briefly unavailable; reconciliation
+ * normalizes on demand if no dataset was written here.
+ */
+export const tryNormalizeImport = async (firmId: string, importId: string) => {
+  try {
+    return await normalizeImport(firmId, importId);
+  } catch (error) {
+    logWarn("IMPORT_NORMALIZE_DEFERRED", {
+      firmId,
+      importId,
+      errorName: error instanceof Error ? error.name : "UnknownError"
+    });
+    return null;
+  }
+};
+
+export const ensureNormalizedDataset = async (importRecord: NormalizableImport) => {
+  if (importRecord.normalizedDatasetId) {
+    const existing = await prisma.normalizedDataset.findFirst({
+      where: {
+        id: importRecord.normalizedDatasetId,
+        firmId: importRecord.firmId
+      }
+    });
+    if (
+      existing &&
+      existing.mappingTemplateVersionId === importRecord.mappingTemplateVersion?.id
+    ) {
+      return existing;
+    }
+  }
+  return normalizeImportRecord(importRecord);
+};
+
+const byRowNumber = { rowNumber: "asc" } as const;
+
+// `rowNumbers` limits the load to those file rows, as evidence views need.
+type LoadLinesOptions = { take?: number; rowNumbers?: number[] };
+
+const linesWhere = (datasetId: string, options: LoadLinesOptions) => ({
+  datasetId,
+  ...(options.rowNumbers ? { rowNumber: { in: options.rowNumbers } } : {})
+});
+
+export const loadRegisterLines = async (
+  datasetId: string,
+  options: LoadLinesOptions = {}
+): Promise<NormalizedRegisterLine[]> => {
+  const lines = await prisma.registerLine.findMany({
+    where: linesWhere(datasetId, options),
+    orderBy: byRowNumber,
+    take: options.take
+  });
+  return lines.map((line) => ({
+    rowNumber: line.rowNumber,
+    employeeRef: line.employeeRef,
+    employeeName: line.employeeName,
+    department: line.department,
+    netPayCents: fromBigInt(line.netPayCents),
+    grossPayCents: fromBigInt(line.grossPayCents),
+    tax1Cents: fromBigInt(line.tax1Cents),
+    tax2Cents: fromBigInt(line.tax2Cents),
+    tax3Cents: fromBigInt(line.tax3Cents),
+    pensionEmployeeCents: fromBigInt(line.pensionEmployeeCents),
+    pensionEmployerCents: fromBigInt(line.pensionEmployerCents),
+    otherDeductionsCents: fromBigInt(line.otherDeductionsCents),
+    rawValues: line.rawValues as RawValues
+  }));
+};
+
+export const loadBankLines = async (
+  datasetId: string,
+  options: LoadLinesOptions = {}
+): Promise<NormalizedBankLine[]> => {
+  const lines = await prisma.bankLine.findMany({
+    where: linesWhere(datasetId, options),
+    orderBy: byRowNumber,
+    take: options.take
+  });
+  return lines.map((line) => ({
+    rowNumber: line.rowNumber,
+    payeeRef: line.payeeRef,
+    payeeName: line.payeeName,
+    amountCents: fromBigInt(line.amountCents),
+    reference: line.reference,
+    sortCode: line.sortCode,
+    accountNumber: line.accountNumber,
+    iban: line.iban,
+    rawValues: line.rawValues as RawValues
+  }));
+};
+
+export const loadGlLines = async (
+  datasetId: string,
+  options: LoadLinesOptions = {}
+): Promise<NormalizedGlLine[]> => {
+  const lines = await prisma.glLine.findMany({
+    where: linesWhere(datasetId, options),
+    orderBy: byRowNumber,
+    take: options.take
+  });
+  return lines.map((line) => ({
+    rowNumber: line.rowNumber,
+    accountCode: line.accountCode,
+    description: line.description,
+    costCentre: line.costCentre,
+    debitCents: fromBigInt(line.debitCents),
+    creditCents: fromBigInt(line.creditCents),
+    rawValues: line.rawValues as RawValues
+  }));
+};
+
+export const loadStatutoryLines = async (
+  datasetId: string,
+  options: LoadLinesOptions = {}
+): Promise<NormalizedStatutoryLine[]> => {
+  const lines = await prisma.statutoryLine.findMany({
+    where: linesWhere(datasetId, options),
+    orderBy: byRowNumber,
+    take: options.take
+  });
+  return lines.map((line) => ({
+    rowNumber: line.rowNumber,
+    category: line.category,
+    categoryKey: line.categoryKey as StatutoryCategoryKey | null,
+    amountCents: fromBigInt(line.amountCents),
+    employeeRef: line.employeeRef,
+    rawValues: line.rawValues as RawValues
+  }));
+};
+
+export const loadPensionScheduleLines = async (
+  datasetId: string,
+  options: LoadLinesOptions = {}
+): Promise<NormalizedPensionScheduleLine[]> => {
+  const lines = await prisma.pensionScheduleLine.findMany({
+    where: linesWhere(datasetId, options),
+    orderBy: byRowNumber,
+    take: options.take
+  });
+  return lines.map((line) => ({
+    rowNumber: line.rowNumber,
+    employeeRef: line.employeeRef,
+    employeeName: line.employeeName,
+    amountCents: fromBigInt(line.amountCents),
+    pensionEmployeeCents: fromBigInt(line.pensionEmployeeCents),
+    pensionEmployerCents: fromBigInt(line.pensionEmployerCents),
+    rawValues: line.rawValues as RawValues
+  }));
+};
+
+export const loadNormalizedLines = async (
+  datasetId: string,
+  sourceType: SourceType,
+  options: LoadLinesOptions = {}
+): Promise<NormalizedLines> => {
+  switch (sourceType) {
+    case "REGISTER":
+      return { sourceType, lines: await loadRegisterLines(datasetId, options) };
+    case "BANK":
+      return { sourceType, lines: await loadBankLines(datasetId, options) };
+    case "GL":
+      return { sourceType, lines: await loadGlLines(datasetId, options) };
+    case "STATUTORY":
+      return { sourceType, lines: await loadStatutoryLines(datasetId, options) };
+    case "PENSION_SCHEDULE":
+      return {
+        sourceType,
+        lines: await loadPensionScheduleLines(datasetId, options)
+      };
+  }
+};
+
+type NormalizedField = {
+  label: string;
+  value: (line: Record<string, unknown>) => string | number | null;
+  kind: "text" | "amount";
+};
+
+const textField = (label: string, key: string): NormalizedField => ({
+  label,
+  kind: "text",
+  value: (line) => (line[key] as string | null) ?? null
+});
+
+const amountField = (label: string, key: string): NormalizedField => ({
+  label,
+  kind: "amount",
+  value: (line) => (line[key] as number | null) ?? null
+});
+
+const normalizedFields: Record<SourceType, NormalizedField[]> = {
+  REGISTER: [
+    textField("Employee ID", "employeeRef"),
+    textField("Employee name", "employeeName"),
+    textField("Cost centre/department", "department"),
+    amountField("Net pay", "netPayCents"),
+    amountField("Gross pay", "grossPayCents"),
+    amountField("Tax (PAYE/USC)", "tax1Cents"),
+    amountField("Tax 2 (NI/PRSI)", "tax2Cents"),
+    amountField("Tax 3 (Other)", "tax3Cents"),
+    amountField("Pension employee", "pensionEmployeeCents"),
+    amountField("Pension employer", "pensionEmployerCents"),
+    amountField("Other deductions", "otherDeductionsCents")
+  ],
+  BANK: [
+    textField("Payee ID", "payeeRef"),
+    textField("Payee name", "payeeName"),
+    amountField("Payment amount", "amountCents"),
+    textField("Payment reference", "reference"),
+    textField("Sort code", "sortCode"),
+    textField("Account number", "accountNumber"),
+    textField("IBAN", "iban")
+  ],
+  GL: [
+    textField("Account code/name", "accountCode"),
+    textField("Description", "description"),
+    textField("Cost centre/department", "costCentre"),
+    amountField("Debit amount", "debitCents"),
+    amountField("Credit amount", "creditCents")
+  ],
+  STATUTORY: [
+    textField("Category", "category"),
+    textField("Category key", "categoryKey"),
+    amountField("Amount", "amountCents"),
+    textField("Employee ID", "employeeRef")
+  ],
+  PENSION_SCHEDULE: [
+    textField("Employee ID", "employeeRef"),
+    textField("Employee name", "employeeName"),
+    amountField("Pension total", "amountCents"),
+    amountField("Pension employee", "pensionEmployeeCents"),
+    amountField("Pension employer", "pensionEmployerCents")
+  ]
+};
+
+/**
+ * Flattens a normalized line into label/value pairs for evidence and preview
+ * tables. Amounts are rendered in major units; empty fields are omitted.
+ */
+export const describeNormalizedLine = (
+  sourceType: SourceType,
+  line: { rawValues: RawValues }
+): Array<{ label: string; value: string }> =>
+  normalizedFields[sourceType].flatMap((field) => {
+    const value = field.value(line as unknown as Record<string, unknown>);
+    if (value === null || value === "") {
+      return [];
+    }
+    return [
+      {
+        label: field.label,
+        value: field.kind === "amount" ? (Number(value) / 100).toFixed(2) : String(value)
+      }
+    ];
+  });
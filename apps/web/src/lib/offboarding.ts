@@ -0,0 +1,256 @@
+import "server-only";
+
+import { prisma, type Prisma } from "@/lib/prisma";
+import { revokeUserApiTokens } from "./api-tokens";
+import { recordAuditEvent } from "./audit";
+import { resolveClientIds } from "./client-access";
+import { NotFoundError, ValidationError } from "./errors";
+import { resolveUserPermissions, type Permission } from "./permissions";
+import { assertFirmKeepsManager } from "./roles";
+import { revokeUserSessions } from "./user-sessions";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+/** Target users for a disabled user's work. Each is required while that work exists. */
+export type WorkReassignment = {
+  exceptionsToUserId?: string | null;
+  reviewerToUserId?: string | null;
+  templatesToUserId?: string | null;
+};
+
+// Exceptions on locked or archived pay runs can no longer be worked, so they stay as they are.
+const openExceptionWhere = (firmId: string, userId: string): Prisma.ExceptionWhereInput => ({
+  firmId,
+  assignedToUserId: userId,
+  status: "OPEN",
+  supersededAt: null,
+  payRun: { status: { notIn: ["LOCKED", "ARCHIVED"] } }
+});
+
+// A draft belongs to its creator until it is handed to an owner.
+const ownedDraftTemplateWhere = (
+  firmId: string,
+  userId: string
+): Prisma.MappingTemplateWhereInput => ({
+  firmId,
+  status: "DRAFT",
+  OR: [{ ownerUserId: userId }, { ownerUserId: null, createdByUserId: userId }]
+});
+
+/**
+ * Everything a user is responsible for that would be stranded if they were
+ * disabled. Pending reviews are READY_FOR_REVIEW pay runs of the clients they
+ * are default reviewer for, so they move with those clients.
+ */
+export const listUserWork = async (firmId: string, userId: string) => {
+  const [openExceptions, reviewerClients, draftTemplates] = await Promise.all([
+    prisma.exception.findMany({
+      where: openExceptionWhere(firmId, userId),
+      select: {
+        id: true,
+        title: true,
+        payRun: {
+          select: { id: true, periodLabel: true, client: { select: { id: true, name: true } } }
+        }
+      },
+      orderBy: { createdAt: "asc" }
+    }),
+    prisma.client.findMany({
+      where: { firmId, defaultReviewerUserId: userId },
+      select: { id: true, name: true, archivedAt: true },
+      orderBy: { name: "asc" }
+    }),
+    prisma.mappingTemplate.findMany({
+      where: ownedDraftTemplateWhere(firmId, userId),
+      select: {
+        id: true,
+        name: true,
+        version: true,
+        sourceType: true,
+        client: { select: { id: true, name: true } }
+      },
+      orderBy: { name: "asc" }
+    })
+  ]);
+
+  const pendingReviews = reviewerClients.length
+    ? await prisma.payRun.findMany({
+        where: {
+          firmId,
+          status: "READY_FOR_REVIEW",
+          clientId: { in: reviewerClients.map((client) => client.id) }
+        },
+        select: { id: true, periodLabel: true, client: { select: { id: true, name: true } } },
+        orderBy: { periodStart: "asc" }
+      })
+    : [];
+
+  return { openExceptions, reviewerClients, pendingReviews, draftTemplates };
+};
+
+export type UserWork = Awaited<ReturnType<typeof listUserWork>>;
+
+const assertAssignee = async (
+  firmId: string,
+  disabledUserId: string,
+  assigneeId: string | null | undefined,
+  requirement: { label: string; permission: Permission; clientIds: string[] }
+) => {
+  if (!assigneeId) {
+    throw new ValidationError(`Choose who takes over the ${requirement.label}.`);
+  }
+  const assignee = await prisma.user.findFirst({
+    where: { id: assigneeId, firmId, status: "ACTIVE", NOT: { id: disabledUserId } },
+    include: {
+      firmRole: { select: { permissions: true } },
+      clientAssignments: { select: { clientId: true } }
+    }
+  });
+  if (!assignee) {
+    throw new ValidationError(`The new owner of the ${requirement.label} must be an active user.`);
+  }
+
+  const permissions = resolveUserPermissions(assignee);
+  if (!permissions.includes(requirement.permission)) {
+    throw new ValidationError(
+      `${assignee.email} cannot take over the ${requirement.label} without ${requirement.permission}.`
+    );
+  }
+  const clientIds = resolveClientIds({ ...assignee, permissions });
+  if (clientIds && requirement.clientIds.some((clientId) => !clientIds.includes(clientId))) {
+    throw new ValidationError(
+      `${assignee.email} does not have access to every client in the ${requirement.label}.`
+    );
+  }
+  return assignee.id;
+};
+
+const distinct = (values: Array<string | null | undefined>) =>
+  Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+
+/**
+ * Disables a user after handing their open work to the chosen users, then
+ * withdraws pending invites, revokes their API tokens and signs them out
+ * everywhere. USER_DISABLED records what moved where.
+ */
+export const disableUser = async (
+  context: ActorContext,
+  userId: string,
+  reassignment: WorkReassignment = {}
+) => {
+  const target = await prisma.user.findFirst({
+    where: { id: userId, firmId: context.firmId }
+  });
+  if (!target) {
+    throw new NotFoundError("User not found.");
+  }
+  if (target.id === context.userId) {
+    throw new ValidationError("You cannot disable your own account.");
+  }
+  if (target.status === "DISABLED") {
+    return target;
+  }
+
+  await assertFirmKeepsManager(context.firmId, { disabledUserId: target.id });
+
+  const work = await listUserWork(context.firmId, target.id);
+  const exceptionsTo = work.openExceptions.length
+    ? await assertAssignee(context.firmId, target.id, reassignment.exceptionsToUserId, {
+        label: "open exceptions",
+        permission: "exception:resolve",
+        clientIds: distinct(work.openExceptions.map((exception) => exception.payRun.client.id))
+      })
+    : null;
+  const reviewerTo = work.reviewerClients.length
+    ? await assertAssignee(context.firmId, target.id, reassignment.reviewerToUserId, {
+        label: "client reviews",
+        permission: "pay-run:approve",
+        clientIds: work.reviewerClients.map((client) => client.id)
+      })
+    : null;
+  const templatesTo = work.draftTemplates.length
+    ? await assertAssignee(context.firmId, target.id, reassignment.templatesToUserId, {
+        label: "draft templates",
+        permission: "template:write",
+        clientIds: distinct(work.draftTemplates.map((template) => template.client?.id))
+      })
+    : null;
+
+  const { updated, counts } = await prisma.$transaction(async (tx) => {
+    const exceptions = exceptionsTo
+      ? await tx.exception.updateMany({
+          where: {
+            ...openExceptionWhere(context.firmId, target.id),
+            id: { in: work.openExceptions.map((exception) => exception.id) }
+          },
+          data: { assignedToUserId: exceptionsTo }
+        })
+      : { count: 0 };
+    const clients = reviewerTo
+      ? await tx.client.updateMany({
+          where: {
+            firmId: context.firmId,
+            defaultReviewerUserId: target.id,
+            id: { in: work.reviewerClients.map((client) => client.id) }
+          },
+          data: { defaultReviewerUserId: reviewerTo }
+        })
+      : { count: 0 };
+    const templates = templatesTo
+      ? await tx.mappingTemplate.updateMany({
+          where: {
+            ...ownedDraftTemplateWhere(context.firmId, target.id),
+            id: { in: work.draftTemplates.map((template) => template.id) }
+          },
+          data: { ownerUserId: templatesTo }
+        })
+      : { count: 0 };
+    const invites = await tx.invite.updateMany({
+      where: { userId: target.id, status: "PENDING" },
+      data: { status: "REVOKED", revokedAt: new Date() }
+    });
+    const user = await tx.user.update({
+      where: { id: target.id },
+      data: { status: "DISABLED" }
+    });
+    return {
+      updated: user,
+      counts: {
+        exceptions: exceptions.count,
+        clients: clients.count,
+        templates: templates.count,
+        invites: invites.count
+      }
+    };
+  });
+
+  const sessions = await revokeUserSessions(context, target.id, "USER_DISABLED");
+  const apiTokens = await revokeUserApiTokens(context.firmId, target.id);
+
+  await recordAuditEvent(
+    {
+      action: "USER_DISABLED",
+      entityType: "USER",
+      entityId: target.id,
+      metadata: {
+        previousStatus: target.status,
+        exceptionsReassigned: counts.exceptions,
+        exceptionsToUserId: exceptionsTo ?? undefined,
+        reviewerClientsReassigned: counts.clients,
+        pendingReviewsReassigned: work.pendingReviews.length,
+        reviewerToUserId: reviewerTo ?? undefined,
+        draftTemplatesReassigned: counts.templates,
+        templatesToUserId: templatesTo ?? undefined,
+        invitesRevoked: counts.invites,
+        sessionsRevoked: sessions,
+        apiTokensRevoked: apiTokens
+      }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return updated;
+};
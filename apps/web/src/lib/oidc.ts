@@ -0,0 +1,268 @@
+import "server-only";
+
+import crypto from "crypto";
+import { OidcError } from "./errors";
+
+// A small OpenID Connect relying party: discovery, the authorization code flow
+// with PKCE, and ID token validation against the provider's JWKS.
+
+export type OidcProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+};
+
+export type OidcClient = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+};
+
+export type OidcClaims = Record<string, unknown> & {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+};
+
+export type OidcAuthorizationRequest = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string };
+
+const cacheTtlMs = 10 * 60 * 1000;
+const clockSkewSeconds = 60;
+
+const metadataCache = new Map<string, { value: OidcProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; expiresAt: number }>();
+
+const trimTrailingSlash = (value: string) => value.replace(/\/+$/, "");
+
+const base64Url = (data: Buffer) => data.toString("base64url");
+
+const fetchJson = async (url: string, init: RequestInit, code: OidcError["code"]) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, cache: "no-store" });
+  } catch {
+    throw new OidcError(code, "The identity provider could not be reached.");
+  }
+  if (!response.ok) {
+    throw new OidcError(code, `The identity provider responded with ${response.status}.`);
+  }
+  return (await response.json()) as Record<string, unknown>;
+};
+
+export const discoverOidcProvider = async (issuer: string): Promise<OidcProviderMetadata> => {
+  const key = trimTrailingSlash(issuer);
+  const cached = metadataCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const metadata = await fetchJson(
+    `${key}/.well-known/openid-configuration`,
+    { headers: { accept: "application/json" } },
+    "discovery_failed"
+  );
+  const required = ["issuer", "authorization_endpoint", "token_endpoint", "jwks_uri"];
+  if (required.some((field) => typeof metadata[field] !== "string")) {
+    throw new OidcError("discovery_failed", "The provider's discovery document is incomplete.");
+  }
+  if (trimTrailingSlash(String(metadata.issuer)) !== key) {
+    throw new OidcError("discovery_failed", "The provider's issuer does not match the configuration.");
+  }
+
+  const value = metadata as unknown as OidcProviderMetadata;
+  metadataCache.set(key, { value, expiresAt: Date.now() + cacheTtlMs });
+  return value;
+};
+
+export const createAuthorizationRequest = (): OidcAuthorizationRequest => ({
+  state: base64Url(crypto.randomBytes(24)),
+  nonce: base64Url(crypto.randomBytes(24)),
+  codeVerifier: base64Url(crypto.randomBytes(32))
+});
+
+export const buildAuthorizationUrl = (
+  metadata: OidcProviderMetadata,
+  client: Pick<OidcClient, "clientId" | "redirectUri">,
+  request: OidcAuthorizationRequest,
+  options: { loginHint?: string } = {}
+): string => {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", client.clientId);
+  url.searchParams.set("redirect_uri", client.redirectUri);
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("state", request.state);
+  url.searchParams.set("nonce", request.nonce);
+  url.searchParams.set(
+    "code_challenge",
+    base64Url(crypto.createHash("sha256").update(request.codeVerifier).digest())
+  );
+  url.searchParams.set("code_challenge_method", "S256");
+  if (options.loginHint) {
+    url.searchParams.set("login_hint", options.loginHint);
+  }
+  return url.toString();
+};
+
+const decodeSegment = (segment: string | undefined) => {
+  try {
+    return JSON.parse(Buffer.from(segment ?? "", "base64url").toString("utf8")) as Record<
+      string,
+      unknown
+    >;
+  } catch {
+    throw new OidcError("invalid_id_token", "The ID token is malformed.");
+  }
+};
+
+const loadJwks = async (jwksUri: string, refresh: boolean) => {
+  const cached = jwksCache.get(jwksUri);
+  if (!refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.keys;
+  }
+  const body = await fetchJson(jwksUri, { headers: { accept: "application/json" } }, "invalid_id_token");
+  const keys = Array.isArray(body.keys) ? (body.keys as Jwk[]) : [];
+  jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + cacheTtlMs });
+  return keys;
+};
+
+const selectKey = (keys: Jwk[], kid: unknown, kty: string) =>
+  keys.find(
+    (key) =>
+      key.kty === kty &&
+      key.use !== "enc" &&
+      (typeof kid === "string" ? key.kid === kid : true)
+  );
+
+const signatureAlgorithms: Record<string, { kty: string; dsaEncoding?: "ieee-p1363" }> = {
+  RS256: { kty: "RSA" },
+  ES256: { kty: "EC", dsaEncoding: "ieee-p1363" }
+};
+
+/** Verifies an ID token's signature, issuer, audience, expiry and nonce. */
+export const verifyIdToken = async (
+  idToken: string,
+  metadata: OidcProviderMetadata,
+  client: Pick<OidcClient, "clientId">,
+  expectedNonce: string,
+  now: Date = new Date()
+): Promise<OidcClaims> => {
+  const [headerSegment, payloadSegment, signatureSegment] = idToken.split(".");
+  if (!headerSegment || !payloadSegment || !signatureSegment) {
+    throw new OidcError("invalid_id_token", "The ID token is malformed.");
+  }
+  const header = decodeSegment(headerSegment);
+  const claims = decodeSegment(payloadSegment);
+
+  const algorithm = signatureAlgorithms[String(header.alg)];
+  if (!algorithm) {
+    throw new OidcError("invalid_id_token", "The ID token uses an unsupported algorithm.");
+  }
+  // Keys rotate at the provider, so an unknown key id triggers one JWKS refresh.
+  const jwk =
+    selectKey(await loadJwks(metadata.jwks_uri, false), header.kid, algorithm.kty) ??
+    selectKey(await loadJwks(metadata.jwks_uri, true), header.kid, algorithm.kty);
+  if (!jwk) {
+    throw new OidcError("invalid_id_token", "The ID token signing key is unknown.");
+  }
+
+  const verified = crypto.verify(
+    "sha256",
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    { key: crypto.createPublicKey({ key: jwk, format: "jwk" }), dsaEncoding: algorithm.dsaEncoding },
+    Buffer.from(signatureSegment, "base64url")
+  );
+  if (!verified) {
+    throw new OidcError("invalid_id_token", "The ID token signature is invalid.");
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (trimTrailingSlash(String(claims.iss)) !== trimTrailingSlash(metadata.issuer)) {
+    throw new OidcError("invalid_id_token", "The ID token issuer is unexpected.");
+  }
+  if (!audiences.includes(client.clientId)) {
+    throw new OidcError("invalid_id_token", "The ID token was issued to another client.");
+  }
+  if (audiences.length > 1 && claims.azp !== client.clientId) {
+    throw new OidcError("invalid_id_token", "The ID token was issued to another client.");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + clockSkewSeconds < nowSeconds) {
+    throw new OidcError("invalid_id_token", "The ID token has expired.");
+  }
+  if (claims.nonce !== expectedNonce) {
+    throw new OidcError("invalid_id_token", "The ID token nonce does not match.");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new OidcError("invalid_id_token", "The ID token has no subject.");
+  }
+
+  return claims as OidcClaims;
+};
+
+/**
+ * Exchanges an authorization code and returns the validated ID token claims,
+ * merged with the userinfo response when the provider offers one.
+ */
+export const exchangeAuthorizationCode = async (
+  metadata: OidcProviderMetadata,
+  client: OidcClient,
+  request: Pick<OidcAuthorizationRequest, "nonce" | "codeVerifier">,
+  code: string
+): Promise<OidcClaims> => {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: client.redirectUri,
+    code_verifier: request.codeVerifier
+  });
+  const headers: Record<string, string> = {
+    accept: "application/json",
+    "content-type": "application/x-www-form-urlencoded"
+  };
+  // client_secret_basic is the default method when the provider does not list any.
+  const authMethods = metadata.token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+  if (authMethods.includes("client_secret_basic")) {
+    const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(
+      client.clientSecret
+    )}`;
+    headers.authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", client.clientId);
+    body.set("client_secret", client.clientSecret);
+  }
+
+  const tokens = await fetchJson(
+    metadata.token_endpoint,
+    { method: "POST", headers, body },
+    "token_exchange_failed"
+  );
+  if (typeof tokens.id_token !== "string") {
+    throw new OidcError("token_exchange_failed", "The provider did not return an ID token.");
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, metadata, client, request.nonce);
+  if (!metadata.userinfo_endpoint || typeof tokens.access_token !== "string") {
+    return claims;
+  }
+
+  const userinfo = await fetchJson(
+    metadata.userinfo_endpoint,
+    { headers: { accept: "application/json", authorization: `Bearer ${tokens.access_token}` } },
+    "token_exchange_failed"
+  );
+  if (userinfo.sub !== claims.sub) {
+    throw new OidcError("invalid_id_token", "The userinfo subject does not match the ID token.");
+  }
+  return { ...userinfo, ...claims };
+};
@@ -0,0 +1,451 @@
+import {
+  CheckSeverity,
+  CheckStatus,
+  ExceptionCategory,
+  ExceptionStatus,
+  ImportErrorCode,
+  ImportStatus,
+  JobName,
+  JobStatus,
+  PayRunStatus,
+  PayrollFrequency,
+  PayrollSystem,
+  ReconciliationStatus,
+  SourceType
+} from "@/lib/prisma";
+import { apiScopeDefinitions, type ApiScope } from "./api-tokens";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema: Schema): Schema => ({ anyOf: [schema, { type: "null" }] });
+const enumOf = (values: Record<string, string>): Schema => ({
+  type: "string",
+  enum: Object.values(values)
+});
+const uuid: Schema = { type: "string", format: "uuid" };
+const dateTime: Schema = { type: "string", format: "date-time" };
+const date: Schema = { type: "string", format: "date" };
+const object = (properties: Record<string, Schema>): Schema => ({
+  type: "object",
+  required: Object.keys(properties),
+  properties
+});
+// `next` is the path of the following page, or null on the last page.
+const listOf = (name: string): Schema =>
+  object({
+    data: { type: "array", items: ref(name) },
+    nextCursor: nullable(uuid),
+    next: nullable({ type: "string" })
+  });
+
+const jsonBody = (schema: Schema) => ({
+  required: true,
+  content: { "application/json": { schema } }
+});
+const jsonResponse = (description: string, schema: Schema) => ({
+  description,
+  content: { "application/json": { schema } }
+});
+const errorResponses = {
+  "400": { $ref: "#/components/responses/BadRequest" },
+  "401": { $ref: "#/components/responses/Unauthorized" },
+  "403": { $ref: "#/components/responses/Forbidden" },
+  "404": { $ref: "#/components/responses/NotFound" }
+};
+
+const pathParam = (name: string) => ({ name, in: "path", required: true, schema: uuid });
+const queryParam = (name: string, schema: Schema, description?: string) => ({
+  name,
+  in: "query",
+  required: false,
+  schema,
+  ...(description ? { description } : {})
+});
+const limitParam = queryParam(
+  "limit",
+  { type: "integer", minimum: 1, maximum: 200, default: 50 },
+  "Newest records first."
+);
+const cursorParam = queryParam(
+  "cursor",
+  uuid,
+  "The `nextCursor` of the previous page; omit for the first page."
+);
+
+type OperationDetails = {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters?: Schema[];
+  requestBody?: Schema;
+  responses: Record<string, Schema>;
+};
+
+const operation = (scope: ApiScope | null, { responses, ...details }: OperationDetails) => ({
+  ...details,
+  description: scope ? `Requires the \`${scope}\` scope.` : "Any valid token.",
+  "x-tally-scope": scope,
+  security: [{ apiToken: [] }],
+  responses: { ...responses, ...errorResponses }
+});
+
+const schemas: Record<string, Schema> = {
+  Error: object({ error: { type: "string" } }),
+  Client: object({
+    id: uuid,
+    name: { type: "string" },
+    payrollSystem: enumOf(PayrollSystem),
+    payrollSystemOther: nullable({ type: "string" }),
+    payrollFrequency: enumOf(PayrollFrequency),
+    defaultReviewerUserId: nullable(uuid),
+    archivedAt: nullable(dateTime),
+    createdAt: dateTime,
+    updatedAt: dateTime
+  }),
+  PayRun: object({
+    id: uuid,
+    clientId: uuid,
+    periodStart: date,
+    periodEnd: date,
+    periodLabel: { type: "string" },
+    revision: { type: "integer" },
+    status: enumOf(PayRunStatus),
+    createdAt: dateTime,
+    updatedAt: dateTime
+  }),
+  Import: object({
+    id: uuid,
+    clientId: uuid,
+    payRunId: uuid,
+    sourceType: enumOf(SourceType),
+    version: { type: "integer" },
+    originalFilename: { type: "string" },
+    mimeType: { type: "string" },
+    sizeBytes: { type: "integer" },
+    fileHashSha256: { type: "string" },
+    status: enumOf(ImportStatus),
+    errorCode: nullable(enumOf(ImportErrorCode)),
+    errorMessage: nullable({ type: "string" }),
+    uploadedAt: dateTime
+  }),
+  StoredUpload: object({
+    payRunId: uuid,
+    sourceType: enumOf(SourceType),
+    storageKey: { type: "string" },
+    originalFilename: { type: "string" },
+    mimeType: { type: "string" },
+    sizeBytes: { type: "integer" },
+    fileHashSha256: { type: "string" }
+  }),
+  ReconciliationRun: object({
+    id: uuid,
+    payRunId: uuid,
+    runNumber: { type: "integer" },
+    bundleId: { type: "string" },
+    bundleVersion: { type: "string" },
+    status: enumOf(ReconciliationStatus),
+    supersededAt: nullable(dateTime),
+    createdAt: dateTime
+  }),
+  CheckSummary: object({
+    checkType: { type: "string" },
+    checkVersion: { type: "string" },
+    status: enumOf(CheckStatus),
+    severity: enumOf(CheckSeverity),
+    summary: { type: "string" }
+  }),
+  Exception: object({
+    id: uuid,
+    payRunId: uuid,
+    reconciliationRunId: uuid,
+    category: enumOf(ExceptionCategory),
+    severity: enumOf(CheckSeverity),
+    status: enumOf(ExceptionStatus),
+    title: { type: "string" },
+    description: { type: "string" },
+    assignedToUserId: nullable(uuid),
+    resolvedAt: nullable(dateTime),
+    supersededAt: nullable(dateTime),
+    createdAt: dateTime,
+    updatedAt: dateTime
+  }),
+  Pack: object({
+    id: uuid,
+    payRunId: uuid,
+    reconciliationRunId: uuid,
+    packVersion: { type: "integer" },
+    fileHashSha256: nullable({ type: "string" }),
+    bundleHashSha256: nullable({ type: "string" }),
+    signed: { type: "boolean" },
+    generatedAt: dateTime,
+    lockedAt: nullable(dateTime)
+  }),
+  Job: object({
+    id: uuid,
+    name: enumOf(JobName),
+    status: enumOf(JobStatus),
+    attempts: { type: "integer" },
+    maxAttempts: { type: "integer" },
+    result: nullable({ type: "object" }),
+    error: nullable({ type: "string" }),
+    createdAt: dateTime,
+    completedAt: nullable(dateTime)
+  }),
+  QueuedJob: object({ jobId: uuid, status: enumOf(JobStatus) })
+};
+
+const payRunTarget = object({ payRunId: uuid });
+
+const paths = {
+  "/clients": {
+    get: operation("clients:read", {
+      operationId: "listClients",
+      summary: "List clients",
+      tags: ["Clients"],
+      parameters: [
+        queryParam("includeArchived", { type: "boolean", default: false }),
+        { ...limitParam, description: "Ordered by name." },
+        cursorParam
+      ],
+      responses: { "200": jsonResponse("Clients", listOf("Client")) }
+    })
+  },
+  "/clients/{clientId}": {
+    get: operation("clients:read", {
+      operationId: "getClient",
+      summary: "Get a client",
+      tags: ["Clients"],
+      parameters: [pathParam("clientId")],
+      responses: { "200": jsonResponse("Client", ref("Client")) }
+    })
+  },
+  "/pay-runs": {
+    get: operation("pay-runs:read", {
+      operationId: "listPayRuns",
+      summary: "List pay runs",
+      tags: ["Pay runs"],
+      parameters: [
+        queryParam("clientId", uuid),
+        queryParam("status", enumOf(PayRunStatus)),
+        limitParam,
+        cursorParam
+      ],
+      responses: { "200": jsonResponse("Pay runs", listOf("PayRun")) }
+    })
+  },
+  "/pay-runs/{payRunId}": {
+    get: operation("pay-runs:read", {
+      operationId: "getPayRun",
+      summary: "Get a pay run with its reconciliation and pack status",
+      tags: ["Pay runs"],
+      parameters: [pathParam("payRunId")],
+      responses: {
+        "200": jsonResponse("Pay run", {
+          allOf: [
+            ref("PayRun"),
+            object({
+              latestReconciliationRun: nullable(
+                object({ id: uuid, status: enumOf(ReconciliationStatus) })
+              ),
+              openExceptions: { type: "integer" },
+              latestPack: nullable(object({ id: uuid, lockedAt: nullable(dateTime) }))
+            })
+          ]
+        })
+      }
+    })
+  },
+  "/imports": {
+    get: operation("imports:read", {
+      operationId: "listImports",
+      summary: "List imports",
+      tags: ["Imports"],
+      parameters: [
+        queryParam("payRunId", uuid),
+        queryParam("sourceType", enumOf(SourceType)),
+        queryParam("status", enumOf(ImportStatus)),
+        limitParam,
+        cursorParam
+      ],
+      responses: { "200": jsonResponse("Imports", listOf("Import")) }
+    })
+  },
+  "/imports/{importId}": {
+    get: operation("imports:read", {
+      operationId: "getImport",
+      summary: "Get an import",
+      tags: ["Imports"],
+      parameters: [pathParam("importId")],
+      responses: { "200": jsonResponse("Import", ref("Import")) }
+    })
+  },
+  "/imports/upload": {
+    post: operation("imports:write", {
+      operationId: "uploadImportFile",
+      summary: "Upload a file for a pay run",
+      tags: ["Imports"],
+      requestBody: {
+        required: true,
+        content: {
+          "multipart/form-data": {
+            schema: object({
+              payRunId: uuid,
+              sourceType: enumOf(SourceType),
+              file: { type: "string", format: "binary" }
+            })
+          }
+        }
+      },
+      responses: {
+        "201": jsonResponse(
+          "Stored. Send this body to /imports/finalize to record the import.",
+          ref("StoredUpload")
+        )
+      }
+    })
+  },
+  "/imports/finalize": {
+    post: operation("imports:write", {
+      operationId: "finalizeImport",
+      summary: "Record an uploaded file as an import and queue parsing",
+      tags: ["Imports"],
+      requestBody: jsonBody(ref("StoredUpload")),
+      responses: {
+        "200": jsonResponse(
+          "The same file was already imported for this pay run and source.",
+          object({ import: ref("Import"), duplicate: { type: "boolean" }, jobId: nullable(uuid) })
+        ),
+        "201": jsonResponse(
+          "Import recorded",
+          object({ import: ref("Import"), duplicate: { type: "boolean" }, jobId: nullable(uuid) })
+        ),
+        "422": jsonResponse(
+          "The file failed validation; the import is recorded with its error.",
+          object({ error: { type: "string" }, import: ref("Import") })
+        )
+      }
+    })
+  },
+  "/reconciliation-runs": {
+    get: operation("reconciliation:read", {
+      operationId: "listReconciliationRuns",
+      summary: "List reconciliation runs",
+      tags: ["Reconciliation"],
+      parameters: [queryParam("payRunId", uuid), limitParam, cursorParam],
+      responses: { "200": jsonResponse("Reconciliation runs", listOf("ReconciliationRun")) }
+    }),
+    post: operation("reconciliation:write", {
+      operationId: "startReconciliationRun",
+      summary: "Queue a reconciliation run for a pay run",
+      tags: ["Reconciliation"],
+      requestBody: jsonBody(payRunTarget),
+      responses: { "202": jsonResponse("Queued", ref("QueuedJob")) }
+    })
+  },
+  "/reconciliation-runs/{runId}": {
+    get: operation("reconciliation:read", {
+      operationId: "getReconciliationRun",
+      summary: "Get a reconciliation run with its check results",
+      tags: ["Reconciliation"],
+      parameters: [pathParam("runId")],
+      responses: {
+        "200": jsonResponse("Reconciliation run", {
+          allOf: [
+            ref("ReconciliationRun"),
+            object({ checks: { type: "array", items: ref("CheckSummary") } })
+          ]
+        })
+      }
+    })
+  },
+  "/exceptions": {
+    get: operation("exceptions:read", {
+      operationId: "listExceptions",
+      summary: "List current exceptions",
+      tags: ["Exceptions"],
+      parameters: [
+        queryParam("payRunId", uuid),
+        queryParam("status", enumOf(ExceptionStatus)),
+        limitParam,
+        cursorParam
+      ],
+      responses: { "200": jsonResponse("Exceptions", listOf("Exception")) }
+    })
+  },
+  "/exceptions/{exceptionId}": {
+    get: operation("exceptions:read", {
+      operationId: "getException",
+      summary: "Get an exception",
+      tags: ["Exceptions"],
+      parameters: [pathParam("exceptionId")],
+      responses: { "200": jsonResponse("Exception", ref("Exception")) }
+    })
+  },
+  "/packs": {
+    get: operation("packs:read", {
+      operationId: "listPacks",
+      summary: "List packs",
+      tags: ["Packs"],
+      parameters: [queryParam("payRunId", uuid), limitParam, cursorParam],
+      responses: { "200": jsonResponse("Packs", listOf("Pack")) }
+    }),
+    post: operation("packs:write", {
+      operationId: "generatePack",
+      summary: "Queue pack generation for an approved pay run",
+      tags: ["Packs"],
+      requestBody: jsonBody(payRunTarget),
+      responses: { "202": jsonResponse("Queued", ref("QueuedJob")) }
+    })
+  },
+  "/packs/{packId}": {
+    get: operation("packs:read", {
+      operationId: "getPack",
+      summary: "Get a pack",
+      tags: ["Packs"],
+      parameters: [pathParam("packId")],
+      responses: { "200": jsonResponse("Pack", ref("Pack")) }
+    })
+  },
+  "/jobs/{jobId}": {
+    get: operation(null, {
+      operationId: "getJob",
+      summary: "Poll a queued job",
+      tags: ["Jobs"],
+      parameters: [pathParam("jobId")],
+      responses: { "200": jsonResponse("Job", ref("Job")) }
+    })
+  }
+};
+
+/** The OpenAPI 3.1 description of `/api/v1`, served at `/api/v1/openapi.json`. */
+export const buildOpenApiDocument = (baseUrl: string) => ({
+  openapi: "3.1.0",
+  info: {
+    title: "Tally API",
+    version: "1.0.0",
+    description: [
+      "Send an API token as `Authorization: Bearer <token>`.",
+      "Requests act as the token's user, limited to the token's scopes and the user's client",
+      "access.",
+      "",
+      "Scopes:",
+      ...apiScopeDefinitions.map((definition) => `- \`${definition.key}\`: ${definition.label}`)
+    ].join("\n")
+  },
+  servers: [{ url: `${baseUrl.replace(/\/$/, "")}/api/v1` }],
+  security: [{ apiToken: [] }],
+  paths,
+  components: {
+    securitySchemes: {
+      apiToken: { type: "http", scheme: "bearer", description: "A Tally API token." }
+    },
+    responses: {
+      BadRequest: jsonResponse("Invalid request", ref("Error")),
+      Unauthorized: jsonResponse("Missing, invalid, expired or revoked token", ref("Error")),
+      Forbidden: jsonResponse("Missing scope or permission", ref("Error")),
+      NotFound: jsonResponse("Not found, or outside the user's client access", ref("Error"))
+    },
+    schemas
+  }
+});
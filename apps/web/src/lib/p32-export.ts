@@ -0,0 +1,124 @@
+import { ImportParseError } from "./errors";
+import type { StatutoryCategoryKey } from "./normalized-datasets";
+import { normalizeColumnName } from "./mapping-utils";
+import { parseStatutoryAmount, type StatutoryEntry } from "./statutory-files";
+
+// P32 Employer Payment Record exports: one row per tax month with the PAYE,
+// NIC, loan and recovery columns that make up the amount due to HMRC. Column
+// names vary by payroll package, so columns are recognised by pattern.
+
+type P32Column = {
+  pattern: RegExp;
+  categoryKey: StatutoryCategoryKey | null;
+};
+
+const niPattern = /\b(ni|nic|nics|national insurance)\b/;
+const employeePattern = /\b(employee|ee)\b/;
+
+const p32Columns: P32Column[] = [
+  { pattern: /\b(postgrad|postgraduate|pg)\b.*\bloan\b/, categoryKey: "OTHER_DEDUCTIONS" },
+  { pattern: /\bstudent loan\b/, categoryKey: "OTHER_DEDUCTIONS" },
+  // The Apprenticeship Levy is paid by the employer, not deducted from pay.
+  { pattern: /\blevy\b/, categoryKey: null },
+  { pattern: /\b(paye|income tax)\b|^tax$/, categoryKey: "TAX_PRIMARY" },
+  { pattern: /\b(smp|spp|sap|shpp|spbp|ssp|compensation|allowance|cis)\b/, categoryKey: null }
+];
+
+// Undefined for columns that are not recognised. Employer and total NIC have
+// no register deduction to compare with, so they carry no key.
+const categoryKeyFor = (header: string): StatutoryCategoryKey | null | undefined => {
+  if (niPattern.test(header)) {
+    return employeePattern.test(header) ? "TAX_SECONDARY" : null;
+  }
+  return p32Columns.find((column) => column.pattern.test(header))?.categoryKey;
+};
+
+const monthHeaderPattern = /^(tax )?(month|period)( no\.?| number)?$/;
+// Columns that are summed into other columns or hold no amount to compare.
+const skippedHeaderPattern = /\b(total|due|payable|balance)\b/;
+
+type P32Layout = {
+  headerIndex: number;
+  monthIndex: number;
+  columns: Array<{ index: number; category: string; categoryKey: StatutoryCategoryKey | null }>;
+};
+
+const findLayout = (rows: string[][]): P32Layout | null => {
+  for (const [headerIndex, row] of rows.slice(0, 10).entries()) {
+    const headers = row.map((value) => normalizeColumnName(String(value ?? "")));
+    const monthIndex = headers.findIndex((header) => monthHeaderPattern.test(header));
+    const hasPaye = headers.some((header) => /\b(paye|income tax)\b/.test(header));
+    const hasNi = headers.some((header) => niPattern.test(header));
+    const hasDue = headers.some((header) => skippedHeaderPattern.test(header));
+    if (monthIndex < 0 || !hasPaye || !hasNi || !hasDue) {
+      continue;
+    }
+
+    const columns = headers.flatMap((header, index) => {
+      if (index === monthIndex || !header || skippedHeaderPattern.test(header)) {
+        return [];
+      }
+      const categoryKey = categoryKeyFor(header);
+      return categoryKey === undefined
+        ? []
+        : [{ index, category: String(row[index]).trim(), categoryKey }];
+    });
+    return { headerIndex, monthIndex, columns };
+  }
+  return null;
+};
+
+/** The UK tax month a date falls in. Tax months run from the 6th; month 1 starts 6 April. */
+export const ukTaxMonth = (date: Date): number => {
+  const monthsSinceApril = date.getUTCMonth() - 3 - (date.getUTCDate() < 6 ? 1 : 0);
+  return (((monthsSinceApril % 12) + 12) % 12) + 1;
+};
+
+/**
+ * Reads a P32 table into statutory entries, or returns null when the rows do
+ * not look like a P32. Only the tax month containing the pay run's period end
+ * is given category keys; other months are kept for reference. Without a
+ * period end no month is keyed.
+ */
+export const parseP32Rows = (
+  rows: string[][],
+  periodEnd?: Date
+): StatutoryEntry[] | null => {
+  const layout = findLayout(rows);
+  if (!layout) {
+    return null;
+  }
+
+  const months = rows.slice(layout.headerIndex + 1).flatMap((row) => {
+    const month = String(row[layout.monthIndex] ?? "").trim().match(/^(?:month\s*)?(\d{1,2})$/i);
+    if (!month) {
+      return [];
+    }
+    const amounts = layout.columns
+      .map((column) => ({ ...column, cents: parseStatutoryAmount(String(row[column.index])) }))
+      .filter((column) => column.cents !== null && column.cents !== 0);
+    return [{ month: Number(month[1]), amounts }];
+  });
+  const periodMonth = periodEnd ? ukTaxMonth(periodEnd) : null;
+  if (
+    periodMonth !== null &&
+    !months.some((entry) => entry.month === periodMonth && entry.amounts.length > 0)
+  ) {
+    throw new ImportParseError(
+      `Invalid P32 file. Tax month ${periodMonth}, which covers the pay run period, ` +
+        "has no amounts."
+    );
+  }
+
+  return months.flatMap(({ month, amounts }) =>
+    amounts.map((column) => ({
+      category: column.category,
+      categoryKey: month === periodMonth ? column.categoryKey : null,
+      amountCents: column.cents ?? 0,
+      employee: null,
+      employeeRef: null,
+      payrollId: null,
+      period: `Month ${month}`
+    }))
+  );
+};
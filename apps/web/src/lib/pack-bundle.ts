@@ -0,0 +1,283 @@
+import "server-only";
+
+import type { CheckResult, Exception, Import, ReconciliationRun } from "@/lib/prisma";
+import { prisma } from "@/lib/prisma";
+import { buildAuditCsv, getAuditExportRows } from "./audit-export";
+import type { CommentThread } from "./exception-comments";
+import { sha256Hex } from "./hash";
+import { readStoredFile } from "./import-file";
+import { buildZipArchive, type ZipEntry } from "./zip";
+
+type BundleInput = {
+  firmId: string;
+  payRun: { id: string; clientName: string; periodLabel: string; revision: number };
+  run: ReconciliationRun & { checkResults: CheckResult[] };
+  packVersion: number;
+  generatedAt: Date;
+  pdf: { fileName: string; buffer: Buffer; fileHashSha256: string };
+  imports: Import[];
+  exceptions: Array<Exception & { resolvedByUser: { email: string } | null }>;
+  commentsByException: Map<string, CommentThread[]>;
+};
+
+export type BundleManifestFile = {
+  path: string;
+  sizeBytes: number;
+  sha256: string;
+  // Hash recorded when the file was first stored, for source files and attachments.
+  recordedSha256?: string;
+};
+
+export type BundleManifest = {
+  format: "tally-evidence-bundle";
+  formatVersion: 1;
+  payRunId: string;
+  clientName: string;
+  periodLabel: string;
+  revision: number;
+  packVersion: number;
+  reconciliationRunId: string;
+  runNumber: number;
+  bundleId: string;
+  bundleVersion: string;
+  generatedAt: string;
+  files: BundleManifestFile[];
+};
+
+const sanitizePathPart = (value: string): string => value.replace(/[^a-zA-Z0-9._-]/g, "_");
+
+const toJsonBuffer = (value: unknown) => Buffer.from(`${JSON.stringify(value, null, 2)}\n`);
+
+export const buildPackBundleStorageKey = (
+  firmId: string,
+  payRunId: string,
+  packVersion: number
+): string => `firm/${firmId}/pay-run/${payRunId}/pack/pack-v${packVersion}-evidence.zip`;
+
+/**
+ * Gathers the evidence bundle for a pack version: the PDF, the exact source
+ * files the run read, check and exception data, applied templates, the pay
+ * run's audit trail and a manifest of SHA-256 hashes for every file.
+ */
+export const collectPackEvidence = async (input: BundleInput) => {
+  const files: Array<ZipEntry & { recordedSha256?: string }> = [
+    {
+      path: `pack/${input.pdf.fileName}`,
+      data: input.pdf.buffer,
+      recordedSha256: input.pdf.fileHashSha256
+    }
+  ];
+
+  const sourcePaths = new Map<string, string>();
+  for (const entry of input.imports) {
+    const path = `sources/${entry.sourceType}-v${entry.version}-${sanitizePathPart(
+      entry.originalFilename
+    )}`;
+    sourcePaths.set(entry.id, path);
+    files.push({
+      path,
+      data: await readStoredFile(entry),
+      modifiedAt: entry.uploadedAt,
+      recordedSha256: entry.fileHashSha256
+    });
+  }
+
+  const templateIds = Array.from(
+    new Set(
+      input.imports
+        .map((entry) => entry.mappingTemplateVersionId)
+        .filter((value): value is string => Boolean(value))
+    )
+  );
+  const templates = templateIds.length
+    ? await prisma.mappingTemplate.findMany({
+        where: { firmId: input.firmId, id: { in: templateIds } },
+        orderBy: [{ sourceType: "asc" }, { version: "asc" }]
+      })
+    : [];
+  for (const template of templates) {
+    files.push({
+      path: `mapping-templates/${template.sourceType}-${sanitizePathPart(template.name)}-v${
+        template.version
+      }.json`,
+      data: toJsonBuffer({
+        id: template.id,
+        clientId: template.clientId,
+        sourceType: template.sourceType,
+        name: template.name,
+        version: template.version,
+        status: template.status,
+        sourceColumns: template.sourceColumns,
+        columnMap: template.columnMap,
+        normalizationRules: template.normalizationRules,
+        headerRowIndex: template.headerRowIndex,
+        sheetName: template.sheetName,
+        createdAt: template.createdAt.toISOString()
+      })
+    });
+  }
+
+  const attachments = input.exceptions.length
+    ? await prisma.exceptionAttachment.findMany({
+        where: {
+          firmId: input.firmId,
+          exceptionId: { in: input.exceptions.map((exception) => exception.id) }
+        },
+        include: { uploadedByUser: { select: { email: true } } },
+        orderBy: { uploadedAt: "asc" }
+      })
+    : [];
+  const attachmentPaths = new Map<string, string>();
+  for (const attachment of attachments) {
+    const path = `attachments/${attachment.exceptionId}/${attachment.id}-${sanitizePathPart(
+      attachment.originalFilename
+    )}`;
+    attachmentPaths.set(attachment.id, path);
+    files.push({
+      path,
+      data: await readStoredFile(attachment),
+      modifiedAt: attachment.uploadedAt,
+      recordedSha256: attachment.fileHashSha256 ?? undefined
+    });
+  }
+
+  files.push(
+    {
+      path: "data/reconciliation-run.json",
+      data: toJsonBuffer({
+        id: input.run.id,
+        runNumber: input.run.runNumber,
+        bundleId: input.run.bundleId,
+        bundleVersion: input.run.bundleVersion,
+        status: input.run.status,
+        inputSummary: input.run.inputSummary,
+        createdAt: input.run.createdAt.toISOString(),
+        imports: input.imports.map((entry) => ({
+          id: entry.id,
+          sourceType: entry.sourceType,
+          version: entry.version,
+          originalFilename: entry.originalFilename,
+          fileHashSha256: entry.fileHashSha256,
+          mappingTemplateVersionId: entry.mappingTemplateVersionId ?? null,
+          uploadedAt: entry.uploadedAt.toISOString(),
+          bundlePath: sourcePaths.get(entry.id) ?? null
+        }))
+      })
+    },
+    {
+      path: "data/check-results.json",
+      data: toJsonBuffer(
+        input.run.checkResults.map((check) => ({
+          id: check.id,
+          checkType: check.checkType,
+          checkVersion: check.checkVersion,
+          status: check.status,
+          severity: check.severity,
+          summary: check.summary,
+          details: check.details,
+          evidence: check.evidence
+        }))
+      )
+    },
+    {
+      path: "data/exceptions.json",
+      data: toJsonBuffer(
+        input.exceptions.map((exception) => ({
+          id: exception.id,
+          checkResultId: exception.checkResultId,
+          category: exception.category,
+          severity: exception.severity,
+          status: exception.status,
+          title: exception.title,
+          description: exception.description,
+          evidence: exception.evidence,
+          previousExceptionId: exception.previousExceptionId,
+          resolutionNote: exception.resolutionNote,
+          resolvedByEmail: exception.resolvedByUser?.email ?? null,
+          resolvedAt: exception.resolvedAt?.toISOString() ?? null,
+          createdAt: exception.createdAt.toISOString(),
+          attachments: attachments
+            .filter((attachment) => attachment.exceptionId === exception.id)
+            .map((attachment) => ({
+              id: attachment.id,
+              originalFilename: attachment.originalFilename,
+              mimeType: attachment.mimeType,
+              sizeBytes: attachment.sizeBytes,
+              fileHashSha256: attachment.fileHashSha256,
+              uploadedByEmail: attachment.uploadedByUser.email,
+              uploadedAt: attachment.uploadedAt.toISOString(),
+              bundlePath: attachmentPaths.get(attachment.id) ?? null
+            })),
+          comments: input.commentsByException.get(exception.id) ?? []
+        }))
+      )
+    }
+  );
+
+  const auditRows = await getAuditExportRows({
+    firmId: input.firmId,
+    payRunId: input.payRun.id
+  });
+  files.push({
+    path: "audit/audit-trail.csv",
+    data: Buffer.from(`${buildAuditCsv(auditRows)}\n`)
+  });
+
+  const manifestFiles: BundleManifestFile[] = [];
+  for (const file of files) {
+    manifestFiles.push({
+      path: file.path,
+      sizeBytes: file.data.length,
+      sha256: await sha256Hex(file.data),
+      ...(file.recordedSha256 ? { recordedSha256: file.recordedSha256 } : {})
+    });
+  }
+
+  const manifest: BundleManifest = {
+    format: "tally-evidence-bundle",
+    formatVersion: 1,
+    payRunId: input.payRun.id,
+    clientName: input.payRun.clientName,
+    periodLabel: input.payRun.periodLabel,
+    revision: input.payRun.revision,
+    packVersion: input.packVersion,
+    reconciliationRunId: input.run.id,
+    runNumber: input.run.runNumber,
+    bundleId: input.run.bundleId,
+    bundleVersion: input.run.bundleVersion,
+    generatedAt: input.generatedAt.toISOString(),
+    files: manifestFiles
+  };
+
+  const manifestBuffer = toJsonBuffer(manifest);
+  return {
+    manifest,
+    manifestBuffer,
+    manifestSha256: await sha256Hex(manifestBuffer),
+    files
+  };
+};
+
+export type PackEvidence = Awaited<ReturnType<typeof collectPackEvidence>>;
+
+/**
+ * Zips collected evidence. `extraEntries` sit beside the manifest rather than
+ * in it, which lets the pack signature cover the manifest hash.
+ */
+export const zipPackEvidence = async (
+  evidence: PackEvidence,
+  generatedAt: Date,
+  extraEntries: ZipEntry[] = []
+) => {
+  const buffer = buildZipArchive([
+    { path: "manifest.json", data: evidence.manifestBuffer, modifiedAt: generatedAt },
+    ...extraEntries.map((entry) => ({ ...entry, modifiedAt: entry.modifiedAt ?? generatedAt })),
+    ...evidence.files.map((file) => ({
+      path: file.path,
+      data: file.data,
+      modifiedAt: file.modifiedAt ?? generatedAt
+    }))
+  ]);
+
+  return { buffer, fileHashSha256: await sha256Hex(buffer) };
+};
@@ -0,0 +1,532 @@
+import { mapPackText, type PackBlock, type PackDocument } from "./pack-pdf";
+
+export type PackRedaction = {
+  maskEmployeeNames: boolean;
+  maskBankDetails: boolean;
+  maskNiNumbers: boolean;
+};
+
+export type PackDocumentInput = {
+  firmName: string;
+  clientName: string;
+  periodLabel: string;
+  revision: number;
+  packVersion: number;
+  runNumber: number;
+  bundleId: string;
+  bundleVersion: string;
+  generatedAt: Date;
+  generatedByEmail: string;
+  submittedByEmail?: string | null;
+  submittedAt?: Date | null;
+  approval?: {
+    reviewerEmail: string;
+    status: string;
+    comment?: string | null;
+    createdAt: Date;
+  } | null;
+  redaction: PackRedaction;
+  imports: Array<{
+    importId?: string;
+    sourceType: string;
+    version: number;
+    originalFilename?: string | null;
+    uploadedAt?: Date | null;
+    fileHashSha256: string;
+    templateVersionId?: string | null;
+  }>;
+  checks: Array<{
+    checkType: string;
+    checkVersion?: string | null;
+    status: string;
+    severity: string;
+    leftLabel?: string | null;
+    rightLabel?: string | null;
+    leftValue?: number | null;
+    rightValue?: number | null;
+    deltaValue?: number | null;
+    tolerance?: { absolute: number; percent: number; applied: number } | null;
+    expectedVariance?: { varianceType: string; downgradeTo: string } | null;
+  }>;
+  exceptions: Array<{
+    category?: string | null;
+    title: string;
+    description?: string | null;
+    status: string;
+    severity: string;
+    evidence?: Array<{ importId?: string; rowNumbers: number[]; note?: string | null }> | null;
+    resolutionNote?: string | null;
+    resolvedByEmail?: string | null;
+    attachments?: Array<{
+      originalFilename: string;
+      sizeBytes: number | null;
+      fileHashSha256: string | null;
+    }>;
+    comments?: Array<{
+      authorEmail: string;
+      body: string;
+      createdAt: Date;
+      depth: number;
+    }>;
+  }>;
+};
+
+const maskTrailing = (value: string, visibleCount: number) => {
+  /* c8 ignore start */
+  if (value.length <= visibleCount) {
+    return value;
+  }
+  /* c8 ignore stop */
+  return `${"*".repeat(value.length - visibleCount)}${value.slice(-visibleCount)}`;
+};
+
+const maskDigitsPreservingSeparators = (value: string, visibleCount: number) => {
+  const digits = value.replace(/\D/g, "");
+  /* c8 ignore start */
+  if (digits.length <= visibleCount) {
+    return value;
+  }
+  /* c8 ignore stop */
+  const maskedDigits = `${"*".repeat(digits.length - visibleCount)}${digits.slice(
+    -visibleCount
+  )}`;
+  let index = 0;
+  return value.replace(/\d/g, () => maskedDigits[index++] ?? "");
+};
+
+const maskEmployeeNamesInText = (text: string) => {
+  const namePart = "[A-Za-z'\\u2019-]*[a-z][A-Za-z'\\u2019-]*";
+  const namePattern = new RegExp(
+    `\\b(Employee|Payee|Name)(:)?\\s+(${namePart}(?:\\s+${namePart})+)\\b`,
+    "g"
+  );
+  return text.replace(namePattern, (_match, label, colon, names) => {
+    const maskedNames = String(names)
+      .split(/\s+/)
+      .map((part) => (part.length <= 1 ? part : `${part[0]}${"*".repeat(part.length - 1)}`))
+      .join(" ");
+    return `${label}${colon ?? ""} ${maskedNames}`;
+  });
+};
+
+const maskBankDetailsInText = (text: string) => {
+  const bankPattern = /\b(?:\d[ -]?){7,}\d\b/g;
+  return text.replace(bankPattern, (match) =>
+    maskDigitsPreservingSeparators(match, 4)
+  );
+};
+
+const maskNiNumbersInText = (text: string) => {
+  const niPattern = /\b[A-CEGHJ-PR-TW-Z]{2}\d{6}[A-D]\b/gi;
+  return text.replace(niPattern, (match) => maskTrailing(match, 2));
+};
+
+export const applyRedactionToText = (text: string, redaction: PackRedaction) => {
+  let redacted = text;
+  if (redaction.maskEmployeeNames) {
+    redacted = maskEmployeeNamesInText(redacted);
+  }
+  if (redaction.maskBankDetails) {
+    redacted = maskBankDetailsInText(redacted);
+  }
+  if (redaction.maskNiNumbers) {
+    redacted = maskNiNumbersInText(redacted);
+  }
+  return redacted;
+};
+
+const formatTimestamp = (value: Date) =>
+  `${value.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+
+const formatAmount = (value: number | null | undefined) =>
+  typeof value === "number"
+    ? value.toLocaleString("en-GB", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    : "-";
+
+const countBy = (values: string[]) =>
+  values.reduce<Record<string, number>>((counts, value) => {
+    counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  }, {});
+
+const describeCounts = (counts: Record<string, number>, order: string[]) => {
+  const parts = order
+    .filter((key) => counts[key])
+    .map((key) => `${counts[key]} ${key.toLowerCase()}`);
+  return parts.length > 0 ? parts.join(", ") : "None";
+};
+
+const buildCover = (input: PackDocumentInput): PackBlock[] => {
+  const checkCounts = countBy(input.checks.map((check) => check.status));
+  const exceptionCounts = countBy(input.exceptions.map((exception) => exception.status));
+  const { redaction } = input;
+
+  return [
+    { kind: "title", text: "Payroll Reconciliation Pack" },
+    {
+      kind: "fields",
+      rows: [
+        ["Firm", input.firmName],
+        ["Client", input.clientName],
+        ["Period", input.periodLabel],
+        ["Revision", String(input.revision)],
+        ["Pack version", `v${input.packVersion}`],
+        [
+          "Reconciliation run",
+          `#${input.runNumber} (${input.bundleId} ${input.bundleVersion})`
+        ],
+        ["Prepared by", input.submittedByEmail ?? input.generatedByEmail],
+        [
+          "Reviewed by",
+          input.approval
+            ? `${input.approval.reviewerEmail} (${input.approval.status.toLowerCase()})`
+            : "Not reviewed"
+        ],
+        ["Generated", `${formatTimestamp(input.generatedAt)} by ${input.generatedByEmail}`]
+      ]
+    },
+    { kind: "spacer", height: 12 },
+    {
+      kind: "fields",
+      rows: [
+        ["Checks", describeCounts(checkCounts, ["PASS", "WARN", "FAIL"])],
+        [
+          "Exceptions",
+          describeCounts(exceptionCounts, ["OPEN", "RESOLVED", "DISMISSED", "OVERRIDDEN"])
+        ],
+        [
+          "Redaction",
+          `Names ${redaction.maskEmployeeNames ? "masked" : "visible"}, bank ${
+            redaction.maskBankDetails ? "masked" : "visible"
+          }, NI ${redaction.maskNiNumbers ? "masked" : "visible"}`
+        ]
+      ]
+    },
+    { kind: "pageBreak" }
+  ];
+};
+
+const buildInputs = (input: PackDocumentInput): PackBlock[] => {
+  if (input.imports.length === 0) {
+    return [
+      { kind: "heading", text: "1. Inputs" },
+      { kind: "paragraph", text: "No imports were included in this run." }
+    ];
+  }
+  return [
+    { kind: "heading", text: "1. Inputs" },
+    {
+      kind: "table",
+      columns: [
+        { label: "Source", width: 1.3 },
+        { label: "Version", width: 0.7 },
+        { label: "File", width: 2.4 },
+        { label: "Uploaded", width: 1.5 },
+        { label: "Template", width: 1.1 }
+      ],
+      rows: input.imports.map((entry) => [
+        entry.sourceType,
+        `v${entry.version}`,
+        entry.originalFilename ?? "-",
+        entry.uploadedAt ? formatTimestamp(entry.uploadedAt) : "-",
+        entry.templateVersionId ? "Applied" : "Missing"
+      ])
+    },
+    { kind: "subheading", text: "File hashes (SHA-256)" },
+    {
+      kind: "table",
+      columns: [
+        { label: "Source", width: 1.3 },
+        { label: "Version", width: 0.7 },
+        { label: "SHA-256", width: 5 }
+      ],
+      rows: input.imports.map((entry) => [
+        entry.sourceType,
+        `v${entry.version}`,
+        entry.fileHashSha256
+      ])
+    }
+  ];
+};
+
+const buildSummary = (input: PackDocumentInput): PackBlock[] => {
+  if (input.checks.length === 0) {
+    return [
+      { kind: "heading", text: "2. Reconciliation summary" },
+      { kind: "paragraph", text: "No checks were executed." }
+    ];
+  }
+  return [
+    { kind: "heading", text: "2. Reconciliation summary" },
+    {
+      kind: "table",
+      columns: [
+        { label: "Check", width: 3 },
+        { label: "Status", width: 1.1 },
+        { label: "Left", width: 1.3, align: "right" },
+        { label: "Right", width: 1.3, align: "right" },
+        { label: "Delta", width: 1.2, align: "right" },
+        { label: "Tolerance", width: 1.1, align: "right" }
+      ],
+      rows: input.checks.map((check) => [
+        check.leftLabel && check.rightLabel
+          ? `${check.checkType}\n${check.leftLabel} vs ${check.rightLabel}`
+          : check.checkType,
+        `${check.status}\n${check.severity}`,
+        formatAmount(check.leftValue),
+        formatAmount(check.rightValue),
+        formatAmount(check.deltaValue),
+        check.tolerance ? formatAmount(check.tolerance.applied) : "-"
+      ])
+    }
+  ];
+};
+
+const buildExceptionSummary = (input: PackDocumentInput): PackBlock[] => {
+  if (input.exceptions.length === 0) {
+    return [
+      { kind: "heading", text: "3. Exceptions" },
+      { kind: "paragraph", text: "No exceptions were raised." }
+    ];
+  }
+  return [
+    { kind: "heading", text: "3. Exceptions" },
+    {
+      kind: "table",
+      columns: [
+        { label: "Ref", width: 0.5 },
+        { label: "Severity", width: 1 },
+        { label: "Status", width: 1.1 },
+        { label: "Category", width: 1.6 },
+        { label: "Exception", width: 4 }
+      ],
+      rows: orderExceptions(input.exceptions).map(({ exception, ref }) => [
+        ref,
+        exception.severity,
+        exception.status,
+        exception.category ?? "-",
+        exception.title
+      ])
+    },
+    {
+      kind: "paragraph",
+      text: "Evidence, decisions, attachments and discussion for each exception are in Appendix A.",
+      muted: true
+    }
+  ];
+};
+
+// Exceptions are grouped by category; references follow that order everywhere.
+const orderExceptions = (exceptions: PackDocumentInput["exceptions"]) =>
+  exceptions
+    .map((exception, index) => ({ exception, index }))
+    .sort(
+      (left, right) =>
+        (left.exception.category ?? "").localeCompare(right.exception.category ?? "") ||
+        left.index - right.index
+    )
+    .map(({ exception }, position) => ({ exception, ref: `E${position + 1}` }));
+
+const buildSignOff = (input: PackDocumentInput): PackBlock[] => {
+  const overridden = input.exceptions.filter((exception) => exception.status === "OVERRIDDEN");
+  const blocks: PackBlock[] = [
+    { kind: "heading", text: "4. Sign-off" },
+    {
+      kind: "fields",
+      rows: [
+        [
+          "Submitted for review",
+          input.submittedAt
+            ? `${formatTimestamp(input.submittedAt)} by ${input.submittedByEmail ?? "unknown"}`
+            : "Not recorded"
+        ],
+        [
+          input.approval?.status === "REJECTED" ? "Rejected" : "Approved",
+          input.approval
+            ? `${formatTimestamp(input.approval.createdAt)} by ${input.approval.reviewerEmail}`
+            : "Not recorded"
+        ],
+        ...(input.approval?.comment
+          ? ([["Reviewer comment", input.approval.comment]] as Array<[string, string]>)
+          : [])
+      ]
+    }
+  ];
+
+  if (overridden.length > 0) {
+    blocks.push({
+      kind: "paragraph",
+      text: `${overridden.length} exception(s) were overridden by a reviewer. The differences are accepted as recorded in Appendix A and were not corrected in the source data.`
+    });
+  }
+
+  blocks.push(
+    {
+      kind: "signature",
+      label: "Prepared by",
+      detail: input.submittedByEmail ?? input.generatedByEmail
+    },
+    {
+      kind: "signature",
+      label: "Reviewed by",
+      detail: input.approval?.reviewerEmail ?? "Not reviewed"
+    }
+  );
+  return blocks;
+};
+
+const buildAuditMetadata = (input: PackDocumentInput): PackBlock[] => {
+  const variances = input.checks.filter((check) => check.expectedVariance);
+  return [
+    { kind: "heading", text: "5. Audit metadata" },
+    {
+      kind: "fields",
+      rows: [
+        ["Check bundle", `${input.bundleId} ${input.bundleVersion}`],
+        ["Reconciliation run", `#${input.runNumber}`],
+        ["Pack version", `v${input.packVersion}`]
+      ]
+    },
+    ...(input.checks.length > 0
+      ? ([
+          {
+            kind: "table",
+            columns: [
+              { label: "Check", width: 3 },
+              { label: "Version", width: 0.8 },
+              { label: "Absolute", width: 1, align: "right" },
+              { label: "Percent", width: 1, align: "right" },
+              { label: "Applied", width: 1, align: "right" }
+            ],
+            rows: input.checks.map((check) => [
+              check.checkType,
+              check.checkVersion ?? "-",
+              check.tolerance ? formatAmount(check.tolerance.absolute) : "-",
+              check.tolerance ? `${check.tolerance.percent}%` : "-",
+              check.tolerance ? formatAmount(check.tolerance.applied) : "-"
+            ])
+          }
+        ] as PackBlock[])
+      : []),
+    { kind: "subheading", text: "Expected variances applied" },
+    ...(variances.length > 0
+      ? variances.map(
+          (check): PackBlock => ({
+            kind: "paragraph",
+            text: `${check.checkType}: ${check.expectedVariance?.varianceType} downgraded to ${check.expectedVariance?.downgradeTo}`
+          })
+        )
+      : [{ kind: "paragraph", text: "None" } as PackBlock])
+  ];
+};
+
+const buildExceptionAppendix = (input: PackDocumentInput): PackBlock[] => {
+  if (input.exceptions.length === 0) {
+    return [];
+  }
+  const sourceByImportId = new Map(
+    input.imports
+      .filter((entry) => entry.importId)
+      .map((entry) => [entry.importId as string, `${entry.sourceType} v${entry.version}`])
+  );
+  const blocks: PackBlock[] = [
+    { kind: "pageBreak" },
+    { kind: "heading", text: "Appendix A. Exception detail" }
+  ];
+  let currentCategory: string | null = null;
+
+  for (const { exception, ref } of orderExceptions(input.exceptions)) {
+    const category = exception.category ?? "Uncategorised";
+    if (category !== currentCategory) {
+      blocks.push({ kind: "subheading", text: category });
+      currentCategory = category;
+    }
+    blocks.push(
+      { kind: "spacer", height: 4 },
+      { kind: "paragraph", text: `${ref}. ${exception.title}`, font: "bold", size: 10 },
+      {
+        kind: "paragraph",
+        text: `${exception.severity} · ${exception.status}`,
+        muted: true
+      }
+    );
+    if (exception.description) {
+      blocks.push({ kind: "paragraph", text: exception.description });
+    }
+    exception.evidence?.forEach((pointer) => {
+      const source = (pointer.importId && sourceByImportId.get(pointer.importId)) ?? "Import";
+      const rows = pointer.rowNumbers?.length ? ` rows ${pointer.rowNumbers.join(", ")}` : "";
+      const note = pointer.note ? ` (${pointer.note})` : "";
+      blocks.push({ kind: "paragraph", text: `Evidence: ${source}${rows}${note}`, indent: 12 });
+    });
+    if (exception.resolutionNote) {
+      blocks.push({
+        kind: "paragraph",
+        text: `Note: ${exception.resolutionNote}${
+          exception.resolvedByEmail ? ` (${exception.resolvedByEmail})` : ""
+        }`,
+        indent: 12
+      });
+    }
+    exception.attachments?.forEach((attachment) => {
+      blocks.push(
+        {
+          kind: "paragraph",
+          text: `Attachment ${attachment.originalFilename}${
+            attachment.sizeBytes === null ? "" : ` (${attachment.sizeBytes} bytes)`
+          }`,
+          indent: 12
+        },
+        {
+          kind: "paragraph",
+          text: `SHA-256 ${attachment.fileHashSha256 ?? "not recorded"}`,
+          font: "mono",
+          size: 7,
+          indent: 24,
+          muted: true
+        }
+      );
+    });
+    exception.comments?.forEach((comment) => {
+      blocks.push({
+        kind: "paragraph",
+        text: `${formatTimestamp(comment.createdAt)} ${comment.authorEmail}: ${comment.body.replace(
+          /\s+/g,
+          " "
+        )}`,
+        indent: 12 * (comment.depth + 1),
+        size: 8
+      });
+    });
+  }
+  return blocks;
+};
+
+/**
+ * Lays out the pack in the order of templates/pack_outline.md. Redaction is
+ * applied to every value in the document, not to labels.
+ */
+export const buildPackDocument = (input: PackDocumentInput): PackDocument => {
+  const document: PackDocument = {
+    title: `Reconciliation pack ${input.clientName} ${input.periodLabel}`,
+    header: `${input.firmName} · ${input.clientName} · ${input.periodLabel} · Revision ${input.revision}`,
+    footer: `Pack v${input.packVersion} · Run #${input.runNumber} · Generated ${formatTimestamp(
+      input.generatedAt
+    )}`,
+    blocks: [
+      ...buildCover(input),
+      ...buildInputs(input),
+      ...buildSummary(input),
+      ...buildExceptionSummary(input),
+      ...buildSignOff(input),
+      ...buildAuditMetadata(input),
+      ...buildExceptionAppendix(input)
+    ]
+  };
+
+  const { redaction } = input;
+  if (redaction.maskEmployeeNames || redaction.maskBankDetails || redaction.maskNiNumbers) {
+    return mapPackText(document, (text) => applyRedactionToText(text, redaction));
+  }
+  return document;
+};
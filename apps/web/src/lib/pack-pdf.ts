@@ -0,0 +1,548 @@
+export type PackFont = "regular" | "bold" | "mono";
+
+export type PackTableColumn = {
+  label: string;
+  // Relative weight; columns share the content width in proportion.
+  width: number;
+  align?: "left" | "right";
+};
+
+export type PackBlock =
+  | { kind: "title"; text: string }
+  | { kind: "heading"; text: string }
+  | { kind: "subheading"; text: string }
+  | {
+      kind: "paragraph";
+      text: string;
+      font?: PackFont;
+      size?: number;
+      indent?: number;
+      muted?: boolean;
+    }
+  | { kind: "fields"; rows: Array<[string, string]> }
+  | { kind: "table"; columns: PackTableColumn[]; rows: string[][] }
+  | { kind: "signature"; label: string; detail: string }
+  | { kind: "spacer"; height: number }
+  | { kind: "pageBreak" };
+
+export type PackDocument = {
+  title: string;
+  header: string;
+  footer: string;
+  blocks: PackBlock[];
+};
+
+type DrawOp =
+  | {
+      type: "text";
+      x: number;
+      y: number;
+      text: string;
+      font: PackFont;
+      size: number;
+      gray: number;
+    }
+  | { type: "rect"; x: number; y: number; width: number; height: number; gray: number }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; gray: number };
+
+export const pageSize = { width: 612, height: 792 };
+
+const margin = { left: 54, right: 54, top: 72, bottom: 64 };
+const contentWidth = pageSize.width - margin.left - margin.right;
+const contentTop = pageSize.height - margin.top;
+
+const fontResources: Record<PackFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  mono: { name: "F3", baseFont: "Courier" }
+};
+
+// Advance widths (1/1000 em) for printable ASCII, from the standard Type 1 metrics.
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722,
+  722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722,
+  667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584
+];
+const helveticaBoldWidths = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722,
+  722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722,
+  667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584
+];
+
+// Standard fonts use WinAnsiEncoding; anything outside Latin-1 is folded or replaced.
+export const toPdfCharacters = (text: string): string =>
+  text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/\u2026/g, "...")
+    .replace(/[\t\u00A0]/g, " ")
+    .replace(/[^\x20-\x7E\u00A1-\u00FF]/g, "?");
+
+const escapePdfText = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+export const measureText = (text: string, font: PackFont, size: number): number => {
+  if (font === "mono") {
+    return text.length * 0.6 * size;
+  }
+  const widths = font === "bold" ? helveticaBoldWidths : helveticaWidths;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += (code >= 32 && code <= 126 ? widths[code - 32] : undefined) ?? 556;
+  }
+  return (total / 1000) * size;
+};
+
+const breakLongWord = (word: string, font: PackFont, size: number, maxWidth: number) => {
+  const pieces: string[] = [];
+  let current = "";
+  for (const char of word) {
+    if (current && measureText(current + char, font, size) > maxWidth) {
+      pieces.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+};
+
+/**
+ * Greedy word wrap against the font metrics. Explicit newlines start a new
+ * line and words wider than the line (hashes, check ids) are broken.
+ */
+export const wrapText = (
+  text: string,
+  font: PackFont,
+  size: number,
+  maxWidth: number
+): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of toPdfCharacters(text.replace(/\r\n?/g, "\n")).split("\n")) {
+    let current = "";
+    for (const word of paragraph.split(/ +/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measureText(candidate, font, size) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) {
+        lines.push(current);
+      }
+      if (measureText(word, font, size) <= maxWidth) {
+        current = word;
+      } else {
+        const pieces = breakLongWord(word, font, size, maxWidth);
+        current = pieces.pop() ?? "";
+        lines.push(...pieces);
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+};
+
+const lineHeight = (size: number) => size * 1.4;
+
+type TextOptions = { x?: number; font?: PackFont; size?: number; gray?: number };
+
+const createPageLayout = () => {
+  let current: DrawOp[] = [];
+  const pages: DrawOp[][] = [current];
+  const state = { y: contentTop };
+  const currentOps = () => current;
+
+  const newPage = () => {
+    current = [];
+    pages.push(current);
+    state.y = contentTop;
+  };
+
+  // Oversized blocks at the top of a page are left to overflow rather than loop.
+  const ensureSpace = (height: number) => {
+    if (state.y - height < margin.bottom && state.y < contentTop) {
+      newPage();
+    }
+  };
+
+  const text = (value: string, options: TextOptions) => {
+    const size = options.size ?? 10;
+    currentOps().push({
+      type: "text",
+      x: options.x ?? margin.left,
+      y: state.y - size,
+      text: value,
+      font: options.font ?? "regular",
+      size,
+      gray: options.gray ?? 0
+    });
+  };
+
+  const lines = (values: string[], options: TextOptions) => {
+    const size = options.size ?? 10;
+    for (const value of values) {
+      ensureSpace(lineHeight(size));
+      text(value, options);
+      state.y -= lineHeight(size);
+    }
+  };
+
+  const rule = (gray = 0.8) => {
+    currentOps().push({
+      type: "line",
+      x1: margin.left,
+      y1: state.y,
+      x2: margin.left + contentWidth,
+      y2: state.y,
+      gray
+    });
+  };
+
+  return { pages, state, currentOps, newPage, ensureSpace, text, lines, rule };
+};
+
+type PageLayout = ReturnType<typeof createPageLayout>;
+
+const layoutTable = (
+  layout: PageLayout,
+  block: Extract<PackBlock, { kind: "table" }>
+) => {
+  const size = 8;
+  const padding = 4;
+  const totalWeight = block.columns.reduce((sum, column) => sum + column.width, 0);
+  let offset = margin.left;
+  const columnCells = block.columns.map((column) => {
+    const width = (column.width / totalWeight) * contentWidth;
+    const cell = { x: offset, width, align: column.align ?? "left" };
+    offset += width;
+    return cell;
+  });
+
+  const measureRow = (cells: string[], font: PackFont, shaded: boolean) => {
+    const wrapped = cells.map((cell, index) =>
+      wrapText(cell, font, size, (columnCells[index]?.width ?? contentWidth) - padding * 2)
+    );
+    const height =
+      Math.max(...wrapped.map((lines) => lines.length)) * lineHeight(size) + padding * 2;
+    return { wrapped, height, font, shaded };
+  };
+
+  const renderRow = (row: ReturnType<typeof measureRow>) => {
+    if (row.shaded) {
+      layout.currentOps().push({
+        type: "rect",
+        x: margin.left,
+        y: layout.state.y - row.height,
+        width: contentWidth,
+        height: row.height,
+        gray: 0.93
+      });
+    }
+    row.wrapped.forEach((lines, index) => {
+      const column = columnCells[index];
+      if (!column) {
+        return;
+      }
+      lines.forEach((line, lineIndex) => {
+        const x =
+          column.align === "right"
+            ? column.x + column.width - padding - measureText(line, row.font, size)
+            : column.x + padding;
+        layout.currentOps().push({
+          type: "text",
+          x,
+          y: layout.state.y - padding - size - lineIndex * lineHeight(size),
+          text: line,
+          font: row.font,
+          size,
+          gray: 0
+        });
+      });
+    });
+    layout.state.y -= row.height;
+    layout.rule(0.85);
+  };
+
+  const header = measureRow(
+    block.columns.map((column) => column.label),
+    "bold",
+    true
+  );
+  layout.ensureSpace(header.height * 2);
+  renderRow(header);
+
+  for (const cells of block.rows) {
+    const row = measureRow(cells, "regular", false);
+    if (layout.state.y - row.height < margin.bottom) {
+      layout.newPage();
+      renderRow(header);
+    }
+    renderRow(row);
+  }
+  layout.state.y -= 10;
+};
+
+export const layoutPackPages = (document: PackDocument): DrawOp[][] => {
+  const layout = createPageLayout();
+
+  for (const block of document.blocks) {
+    switch (block.kind) {
+      case "title":
+        layout.state.y -= 120;
+        layout.lines(wrapText(block.text, "bold", 24, contentWidth), {
+          font: "bold",
+          size: 24
+        });
+        layout.state.y -= 12;
+        layout.rule(0.2);
+        layout.state.y -= 24;
+        break;
+      case "heading":
+        // Keep a heading with at least a few lines of what follows it.
+        layout.ensureSpace(lineHeight(14) + 60);
+        layout.state.y -= 8;
+        layout.lines(wrapText(block.text, "bold", 14, contentWidth), {
+          font: "bold",
+          size: 14
+        });
+        layout.rule(0.6);
+        layout.state.y -= 8;
+        break;
+      case "subheading":
+        layout.ensureSpace(lineHeight(10) + 30);
+        layout.state.y -= 4;
+        layout.lines(wrapText(block.text, "bold", 10, contentWidth), {
+          font: "bold",
+          size: 10
+        });
+        break;
+      case "paragraph": {
+        const font = block.font ?? "regular";
+        const size = block.size ?? 9;
+        const indent = block.indent ?? 0;
+        layout.lines(wrapText(block.text, font, size, contentWidth - indent), {
+          x: margin.left + indent,
+          font,
+          size,
+          gray: block.muted ? 0.4 : 0
+        });
+        break;
+      }
+      case "fields": {
+        const labelWidth = 150;
+        for (const [label, value] of block.rows) {
+          const lines = wrapText(value, "regular", 10, contentWidth - labelWidth);
+          layout.ensureSpace(lines.length * lineHeight(10));
+          layout.text(toPdfCharacters(label), { font: "bold", size: 10, gray: 0.35 });
+          layout.lines(lines, { x: margin.left + labelWidth, size: 10 });
+        }
+        layout.state.y -= 6;
+        break;
+      }
+      case "table":
+        layoutTable(layout, block);
+        break;
+      case "signature":
+        layout.ensureSpace(56);
+        layout.state.y -= 28;
+        layout.currentOps().push({
+          type: "line",
+          x1: margin.left,
+          y1: layout.state.y,
+          x2: margin.left + 220,
+          y2: layout.state.y,
+          gray: 0.2
+        });
+        layout.state.y -= 4;
+        layout.lines([toPdfCharacters(block.label)], { font: "bold", size: 9 });
+        layout.lines(wrapText(block.detail, "regular", 8, contentWidth), {
+          size: 8,
+          gray: 0.4
+        });
+        break;
+      case "spacer":
+        layout.state.y -= block.height;
+        break;
+      case "pageBreak":
+        layout.newPage();
+        break;
+    }
+  }
+
+  return layout.pages.filter((ops, index) => ops.length > 0 || index === 0);
+};
+
+const renderOp = (op: DrawOp): string => {
+  switch (op.type) {
+    case "text":
+      return [
+        "BT",
+        `/${fontResources[op.font].name} ${op.size} Tf`,
+        `${op.gray} g`,
+        `1 0 0 1 ${op.x.toFixed(2)} ${op.y.toFixed(2)} Tm`,
+        `(${escapePdfText(op.text)}) Tj`,
+        "ET"
+      ].join("\n");
+    case "rect":
+      return `${op.gray} g\n${op.x.toFixed(2)} ${op.y.toFixed(2)} ${op.width.toFixed(
+        2
+      )} ${op.height.toFixed(2)} re f\n0 g`;
+    case "line":
+      return `${op.gray} G\n0.5 w\n${op.x1.toFixed(2)} ${op.y1.toFixed(2)} m ${op.x2.toFixed(
+        2
+      )} ${op.y2.toFixed(2)} l S`;
+  }
+};
+
+const buildPageChrome = (document: PackDocument, pageIndex: number, pageCount: number) => {
+  const ops: DrawOp[] = [];
+  const footerY = margin.bottom - 32;
+  if (pageIndex > 0) {
+    ops.push(
+      {
+        type: "text",
+        x: margin.left,
+        y: pageSize.height - 44,
+        text: toPdfCharacters(document.header),
+        font: "regular",
+        size: 8,
+        gray: 0.4
+      },
+      {
+        type: "line",
+        x1: margin.left,
+        y1: pageSize.height - 52,
+        x2: margin.left + contentWidth,
+        y2: pageSize.height - 52,
+        gray: 0.8
+      }
+    );
+  }
+  const pageLabel = `Page ${pageIndex + 1} of ${pageCount}`;
+  ops.push(
+    {
+      type: "line",
+      x1: margin.left,
+      y1: footerY + 14,
+      x2: margin.left + contentWidth,
+      y2: footerY + 14,
+      gray: 0.8
+    },
+    {
+      type: "text",
+      x: margin.left,
+      y: footerY,
+      text: toPdfCharacters(document.footer),
+      font: "regular",
+      size: 8,
+      gray: 0.4
+    },
+    {
+      type: "text",
+      x: margin.left + contentWidth - measureText(pageLabel, "regular", 8),
+      y: footerY,
+      text: pageLabel,
+      font: "regular",
+      size: 8,
+      gray: 0.4
+    }
+  );
+  return ops;
+};
+
+/**
+ * Renders the pack as an uncompressed PDF 1.4 using the standard fonts, so
+ * the output is deterministic for a given document and its hash is stable.
+ */
+export const renderPackPdf = (document: PackDocument): Buffer => {
+  const pages = layoutPackPages(document);
+  const fontObjectIds = { regular: 3, bold: 4, mono: 5 };
+  const firstPageObjectId = 7;
+
+  const objects: string[] = [];
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pages
+    .map((_, index) => `${firstPageObjectId + index * 2} 0 R`)
+    .join(" ")}] /Count ${pages.length} >>`;
+  (Object.keys(fontResources) as PackFont[]).forEach((font) => {
+    objects[fontObjectIds[font]] = `<< /Type /Font /Subtype /Type1 /BaseFont /${fontResources[font].baseFont} /Encoding /WinAnsiEncoding >>`;
+  });
+  objects[6] = `<< /Title (${escapePdfText(toPdfCharacters(document.title))}) /Producer (Tally) >>`;
+
+  const fontDictionary = (Object.keys(fontResources) as PackFont[])
+    .map((font) => `/${fontResources[font].name} ${fontObjectIds[font]} 0 R`)
+    .join(" ");
+
+  pages.forEach((ops, index) => {
+    const pageId = firstPageObjectId + index * 2;
+    const content = [...ops, ...buildPageChrome(document, index, pages.length)]
+      .map(renderOp)
+      .join("\n");
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize.width} ${
+      pageSize.height
+    }] /Contents ${pageId + 1} 0 R /Resources << /Font << ${fontDictionary} >> >> >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(
+      content,
+      "latin1"
+    )} >>\nstream\n${content}\nendstream`;
+  });
+
+  const header = "%PDF-1.4\n";
+  let body = "";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(header + body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(header + body, "latin1");
+  const xref = [
+    "xref",
+    `0 ${objects.length}`,
+    "0000000000 65535 f ",
+    ...offsets.slice(1).map((offset) => `${String(offset).padStart(10, "0")} 00000 n `)
+  ].join("\n");
+  const trailer = `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(`${header}${body}${xref}\n${trailer}`, "latin1");
+};
+
+export const mapPackText = (
+  document: PackDocument,
+  transform: (text: string) => string
+): PackDocument => ({
+  ...document,
+  header: transform(document.header),
+  footer: transform(document.footer),
+  blocks: document.blocks.map((block): PackBlock => {
+    switch (block.kind) {
+      case "title":
+      case "heading":
+      case "subheading":
+      case "paragraph":
+        return { ...block, text: transform(block.text) };
+      case "fields":
+        return {
+          ...block,
+          rows: block.rows.map(([label, value]): [string, string] => [label, transform(value)])
+        };
+      case "table":
+        return { ...block, rows: block.rows.map((row) => row.map(transform)) };
+      case "signature":
+        return { ...block, detail: transform(block.detail) };
+      default:
+        return block;
+    }
+  })
+});
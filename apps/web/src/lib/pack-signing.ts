@@ -0,0 +1,220 @@
+import "server-only";
+
+import { createHash, createPublicKey, generateKeyPairSync, sign, verify } from "crypto";
+import { prisma, type FirmSigningKey } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { env } from "./env";
+import { openSecret, sealSecret } from "./secret-box";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+export type PackSignaturePayload = {
+  packId: string;
+  firmId: string;
+  firmName: string;
+  payRunId: string;
+  clientName: string;
+  periodLabel: string;
+  revision: number;
+  packVersion: number;
+  reconciliationRunId: string;
+  runNumber: number;
+  pdfSha256: string;
+  bundleManifestSha256: string | null;
+  generatedAt: Date;
+};
+
+export type ParsedSignedManifest = Omit<PackSignaturePayload, "generatedAt"> & {
+  format: string;
+  formatVersion: number;
+  generatedAt: string;
+  keyFingerprint: string;
+};
+
+// Private keys are stored encrypted with a key derived from PACK_SIGNING_SECRET.
+const signingKeySecret = () => env.PACK_SIGNING_SECRET;
+
+export const encryptPrivateKey = (privateKeyPem: string): string =>
+  sealSecret(privateKeyPem, signingKeySecret());
+
+export const decryptPrivateKey = (value: string): string =>
+  openSecret(value, signingKeySecret());
+
+export const computeKeyFingerprint = (publicKeyPem: string): string =>
+  createHash("sha256")
+    .update(createPublicKey(publicKeyPem).export({ type: "spki", format: "der" }))
+    .digest("hex");
+
+export const generateSigningKeyMaterial = () => {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const publicKeyPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+  const privateKeyPem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+  return { publicKeyPem, privateKeyPem, fingerprint: computeKeyFingerprint(publicKeyPem) };
+};
+
+/**
+ * The manifest text is what gets signed, so it is serialized once with a fixed
+ * key order and stored verbatim; verification never re-serializes it.
+ */
+export const serializeSignedManifest = (
+  payload: PackSignaturePayload,
+  keyFingerprint: string
+): string =>
+  `${JSON.stringify(
+    {
+      format: "tally-pack-signature",
+      formatVersion: 1,
+      packId: payload.packId,
+      firmId: payload.firmId,
+      firmName: payload.firmName,
+      payRunId: payload.payRunId,
+      clientName: payload.clientName,
+      periodLabel: payload.periodLabel,
+      revision: payload.revision,
+      packVersion: payload.packVersion,
+      reconciliationRunId: payload.reconciliationRunId,
+      runNumber: payload.runNumber,
+      pdfSha256: payload.pdfSha256,
+      bundleManifestSha256: payload.bundleManifestSha256,
+      generatedAt: payload.generatedAt.toISOString(),
+      keyFingerprint
+    },
+    null,
+    2
+  )}\n`;
+
+export const parseSignedManifest = (manifestText: string): ParsedSignedManifest | null => {
+  try {
+    const parsed = JSON.parse(manifestText) as ParsedSignedManifest;
+    return parsed?.format === "tally-pack-signature" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const signManifestText = (manifestText: string, privateKeyPem: string): string =>
+  sign(null, Buffer.from(manifestText, "utf8"), privateKeyPem).toString("base64");
+
+export const verifyManifestSignature = (
+  manifestText: string,
+  signature: string,
+  publicKeyPem: string
+): boolean => {
+  try {
+    return verify(
+      null,
+      Buffer.from(manifestText, "utf8"),
+      publicKeyPem,
+      Buffer.from(signature, "base64")
+    );
+  } catch {
+    return false;
+  }
+};
+
+const createSigningKey = async (firmId: string) => {
+  const material = generateSigningKeyMaterial();
+  return prisma.firmSigningKey.create({
+    data: {
+      firmId,
+      publicKeyPem: material.publicKeyPem,
+      privateKeyEncrypted: encryptPrivateKey(material.privateKeyPem),
+      fingerprint: material.fingerprint
+    }
+  });
+};
+
+/** Returns the firm's active key, creating the first one on demand. */
+export const getActiveSigningKey = async (context: ActorContext): Promise<FirmSigningKey> => {
+  const existing = await prisma.firmSigningKey.findFirst({
+    where: { firmId: context.firmId, status: "ACTIVE" },
+    orderBy: { createdAt: "desc" }
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const key = await createSigningKey(context.firmId);
+  await recordAuditEvent(
+    {
+      action: "SIGNING_KEY_CREATED",
+      entityType: "FIRM",
+      entityId: context.firmId,
+      metadata: { signingKeyId: key.id, fingerprint: key.fingerprint }
+    },
+    {
+      firmId: context.firmId,
+      actorUserId: context.userId
+    }
+  );
+  return key;
+};
+
+/**
+ * Retires the active key and issues a new one. Packs signed with retired keys
+ * still verify; retired keys are never used to sign again.
+ */
+export const rotateSigningKey = async (context: ActorContext) => {
+  const retired = await prisma.firmSigningKey.findMany({
+    where: { firmId: context.firmId, status: "ACTIVE" },
+    select: { id: true, fingerprint: true }
+  });
+  await prisma.firmSigningKey.updateMany({
+    where: { id: { in: retired.map((key) => key.id) } },
+    data: { status: "RETIRED", retiredAt: new Date() }
+  });
+  const key = await createSigningKey(context.firmId);
+
+  await recordAuditEvent(
+    {
+      action: "SIGNING_KEY_ROTATED",
+      entityType: "FIRM",
+      entityId: context.firmId,
+      metadata: {
+        signingKeyId: key.id,
+        fingerprint: key.fingerprint,
+        retiredFingerprints: retired.map((entry) => entry.fingerprint).join(",")
+      }
+    },
+    {
+      firmId: context.firmId,
+      actorUserId: context.userId
+    }
+  );
+  return key;
+};
+
+export const signPackManifest = (key: FirmSigningKey, payload: PackSignaturePayload) => {
+  const manifestText = serializeSignedManifest(payload, key.fingerprint);
+  return {
+    manifestText,
+    signature: signManifestText(manifestText, decryptPrivateKey(key.privateKeyEncrypted))
+  };
+};
+
+/** Files added to the evidence bundle so it can be verified offline. */
+export const buildSignatureBundleEntries = (
+  key: FirmSigningKey,
+  signed: { manifestText: string; signature: string }
+) => [
+  { path: "signature/signed-manifest.json", data: Buffer.from(signed.manifestText, "utf8") },
+  {
+    path: "signature/signature.json",
+    data: Buffer.from(
+      `${JSON.stringify(
+        {
+          algorithm: "Ed25519",
+          keyFingerprint: key.fingerprint,
+          signedFile: "signature/signed-manifest.json",
+          signature: signed.signature
+        },
+        null,
+        2
+      )}\n`
+    )
+  },
+  { path: "signature/public-key.pem", data: Buffer.from(key.publicKeyPem, "utf8") }
+];
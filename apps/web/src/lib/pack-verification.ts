@@ -0,0 +1,114 @@
+import "server-only";
+
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { ValidationError } from "./errors";
+import { parseSignedManifest, verifyManifestSignature } from "./pack-signing";
+
+export type PackVerificationResult =
+  | { status: "NOT_FOUND" }
+  | {
+      status: "MATCHED";
+      artifact: "pdf" | "bundle";
+      signature: "VALID" | "INVALID" | "UNSIGNED";
+      keyFingerprint: string | null;
+      firmName: string;
+      clientName: string;
+      periodLabel: string;
+      revision: number;
+      packVersion: number;
+      generatedAt: string;
+      locked: boolean;
+      lockedAt: string | null;
+      newerPackVersion: number | null;
+    };
+
+const sha256Pattern = /^[a-f0-9]{64}$/;
+// Lookups are anonymous, so a pack's verifications are audited at most once per window.
+const VERIFY_AUDIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Looks up a pack by the SHA-256 of a PDF or evidence bundle. Only the hash is
+ * needed, so files never leave the auditor's machine; anyone holding the file
+ * already holds everything this returns. Staff emails are left out.
+ */
+export const verifyPackByHash = async (sha256: string): Promise<PackVerificationResult> => {
+  const hash = sha256.trim().toLowerCase();
+  if (!sha256Pattern.test(hash)) {
+    throw new ValidationError("Provide a SHA-256 hash of 64 hexadecimal characters.");
+  }
+
+  const pack = await prisma.pack.findFirst({
+    where: { OR: [{ fileHashSha256: hash }, { bundleHashSha256: hash }] },
+    include: {
+      firm: { select: { name: true } },
+      payRun: { include: { client: { select: { name: true } } } },
+      signingKey: { select: { publicKeyPem: true, fingerprint: true } }
+    },
+    orderBy: { generatedAt: "desc" }
+  });
+
+  if (!pack) {
+    return { status: "NOT_FOUND" };
+  }
+
+  const artifact = pack.fileHashSha256 === hash ? "pdf" : "bundle";
+  let signature: "VALID" | "INVALID" | "UNSIGNED" = "UNSIGNED";
+  if (pack.signedManifest && pack.signature && pack.signingKey) {
+    const manifest = parseSignedManifest(pack.signedManifest);
+    const signatureMatches = verifyManifestSignature(
+      pack.signedManifest,
+      pack.signature,
+      pack.signingKey.publicKeyPem
+    );
+    // The stored row must agree with what was signed, not just carry a valid signature.
+    const manifestMatches =
+      manifest?.packId === pack.id &&
+      manifest.pdfSha256 === pack.fileHashSha256 &&
+      manifest.keyFingerprint === pack.signingKey.fingerprint;
+    signature = signatureMatches && manifestMatches ? "VALID" : "INVALID";
+  }
+
+  const newerPack = await prisma.pack.findFirst({
+    where: { payRunId: pack.payRunId, packVersion: { gt: pack.packVersion } },
+    orderBy: { packVersion: "desc" },
+    select: { packVersion: true }
+  });
+
+  const recentlyAudited = await prisma.auditEvent.findFirst({
+    where: {
+      firmId: pack.firmId,
+      timestamp: { gte: new Date(Date.now() - VERIFY_AUDIT_WINDOW_MS) },
+      action: "PACK_VERIFIED",
+      entityId: pack.id
+    },
+    select: { id: true }
+  });
+  if (!recentlyAudited) {
+    await recordAuditEvent(
+      {
+        action: "PACK_VERIFIED",
+        entityType: "PACK",
+        entityId: pack.id,
+        metadata: { payRunId: pack.payRunId, artifact, signature }
+      },
+      { firmId: pack.firmId }
+    );
+  }
+
+  return {
+    status: "MATCHED",
+    artifact,
+    signature,
+    keyFingerprint: pack.signingKey?.fingerprint ?? null,
+    firmName: pack.firm.name,
+    clientName: pack.payRun.client.name,
+    periodLabel: pack.payRun.periodLabel,
+    revision: pack.payRun.revision,
+    packVersion: pack.packVersion,
+    generatedAt: pack.generatedAt.toISOString(),
+    locked: Boolean(pack.lockedAt),
+    lockedAt: pack.lockedAt?.toISOString() ?? null,
+    newerPackVersion: newerPack?.packVersion ?? null
+  };
+};
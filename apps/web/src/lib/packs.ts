@@ -1,19 +1,35 @@
 import "server-only";
 
+import { randomUUID } from "crypto";
 import { PutObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedDownloadUrl } from "@tally/storage";
 import { prisma, type Pack, type PayRunStatus } from "@/lib/prisma";
 import { storageBucket, storageClient } from "./storage";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { NotFoundError, ValidationError } from "./errors";
 import { sha256Hex } from "./hash";
+import { buildPackBundleStorageKey, collectPackEvidence, zipPackEvidence } from "./pack-bundle";
+import { buildPackDocument } from "./pack-document";
+import { renderPackPdf } from "./pack-pdf";
+import {
+  buildSignatureBundleEntries,
+  getActiveSigningKey,
+  signPackManifest
+} from "./pack-signing";
+import { listExceptionAttachments } from "./exception-attachments";
+import { flattenCommentThreads, listExceptionComments } from "./exception-comments";
+import type { CheckDetails } from "./reconciliation-checks";
 import { assertPayRunTransition, type ActorRole } from "./pay-run-state";
 import { startSpan, withRetry } from "./logger";
+import type { Permission } from "./permissions";
 
 type ActorContext = {
   firmId: string;
   userId: string;
   role: ActorRole;
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
 const buildPackStorageKey = (
@@ -34,9 +50,6 @@ const getStorageKeyFromUri = (uri: string): string => {
   return uri.slice(prefix.length);
 };
 
-const escapePdfText = (text: string): string =>
-  text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
-
 const parseRedactionSettings = (defaults: unknown) => {
   if (!defaults || typeof defaults !== "object") {
     return {
@@ -54,262 +67,15 @@ const parseRedactionSettings = (defaults: unknown) => {
   };
 };
 
-const maskTrailing = (value: string, visibleCount: number) => {
-  /* c8 ignore start */
-  if (value.length <= visibleCount) {
-    return value;
-  }
-  /* c8 ignore stop */
-  return `${"*".repeat(value.length - visibleCount)}${value.slice(-visibleCount)}`;
-};
-
-const maskDigitsPreservingSeparators = (value: string, visibleCount: number) => {
-  const digits = value.replace(/\D/g, "");
-  /* c8 ignore start */
-  if (digits.length <= visibleCount) {
-    return value;
-  }
-  /* c8 ignore stop */
-  const maskedDigits = `${"*".repeat(digits.length - visibleCount)}${digits.slice(
-    -visibleCount
-  )}`;
-  let index = 0;
-  return value.replace(/\d/g, () => maskedDigits[index++] ?? "");
-};
-
-const maskEmployeeNamesInText = (text: string) => {
-  const namePart = "[A-Za-z'\\u2019-]*[a-z][A-Za-z'\\u2019-]*";
-  const namePattern = new RegExp(
-    `\\b(Employee|Payee|Name)(:)?\\s+(${namePart}(?:\\s+${namePart})+)\\b`,
-    "g"
-  );
-  return text.replace(namePattern, (_match, label, colon, names) => {
-    const maskedNames = String(names)
-      .split(/\s+/)
-      .map((part) => (part.length <= 1 ? part : `${part[0]}${"*".repeat(part.length - 1)}`))
-      .join(" ");
-    return `${label}${colon ?? ""} ${maskedNames}`;
-  });
-};
-
-const maskBankDetailsInText = (text: string) => {
-  const bankPattern = /\b(?:\d[ -]?){7,}\d\b/g;
-  return text.replace(bankPattern, (match) =>
-    maskDigitsPreservingSeparators(match, 4)
-  );
-};
-
-const maskNiNumbersInText = (text: string) => {
-  const niPattern = /\b[A-CEGHJ-PR-TW-Z]{2}\d{6}[A-D]\b/gi;
-  return text.replace(niPattern, (match) => maskTrailing(match, 2));
-};
-
-const applyRedactionToLine = (
-  line: string,
-  redaction: {
-    maskEmployeeNames: boolean;
-    maskBankDetails: boolean;
-    maskNiNumbers: boolean;
-  }
-) => {
-  let redacted = line;
-  if (redaction.maskEmployeeNames) {
-    redacted = maskEmployeeNamesInText(redacted);
-  }
-  if (redaction.maskBankDetails) {
-    redacted = maskBankDetailsInText(redacted);
-  }
-  if (redaction.maskNiNumbers) {
-    redacted = maskNiNumbersInText(redacted);
-  }
-  return redacted;
-};
-
-const buildPdfFromLines = (lines: string[]): Buffer => {
-  const contentLines: string[] = ["BT", "/F1 12 Tf", "72 720 Td"];
-  lines.forEach((line, index) => {
-    if (index > 0) {
-      contentLines.push("0 -16 Td");
-    }
-    contentLines.push(`(${escapePdfText(line)}) Tj`);
-  });
-  contentLines.push("ET");
-
-  const content = contentLines.join("\n");
-  const contentLength = Buffer.byteLength(content, "utf8");
-
-  const objects = [
-    "1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n",
-    "2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n",
-    "3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >> >>\nendobj\n",
-    `4 0 obj\n<< /Length ${contentLength} >>\nstream\n${content}\nendstream\nendobj\n`,
-    "5 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj\n"
-  ];
-
-  const header = "%PDF-1.4\n";
-  let offset = Buffer.byteLength(header, "utf8");
-  const offsets: number[] = [0];
-  for (const object of objects) {
-    offsets.push(offset);
-    offset += Buffer.byteLength(object, "utf8");
-  }
-
-  const xrefOffset = offset;
-  const xrefLines = [
-    `xref`,
-    `0 ${objects.length + 1}`,
-    "0000000000 65535 f "
-  ];
-  offsets.slice(1).forEach((value) => {
-    xrefLines.push(`${String(value).padStart(10, "0")} 00000 n `);
-  });
-  const xref = `${xrefLines.join("\n")}\n`;
-
-  const trailer = `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
-
-  return Buffer.from(header + objects.join("") + xref + trailer, "utf8");
-};
-
-const buildPackLines = ({
-  clientName,
-  periodLabel,
-  revision,
-  packVersion,
-  runNumber,
-  bundleId,
-  bundleVersion,
-  generatedAt,
-  generatedByEmail,
-  approvedByEmail,
-  approvedAt,
-  redaction,
-  imports,
-  checks,
-  exceptions
-}: {
-  clientName: string;
-  periodLabel: string;
-  revision: number;
-  packVersion: number;
-  runNumber: number;
-  bundleId: string;
-  bundleVersion: string;
-  generatedAt: Date;
-  generatedByEmail: string;
-  approvedByEmail?: string | null;
-  approvedAt?: Date | null;
-  redaction: {
-    maskEmployeeNames: boolean;
-    maskBankDetails: boolean;
-    maskNiNumbers: boolean;
-  };
-  imports: Array<{
-    sourceType: string;
-    version: number;
-    fileHashSha256: string;
-    templateVersionId?: string | null;
-  }>;
-  checks: Array<{
-    checkType: string;
-    status: string;
-    severity: string;
-    deltaValue?: number | null;
-  }>;
-  exceptions: Array<{
-    title: string;
-    status: string;
-    severity: string;
-    evidence?: Array<{ rowNumbers: number[] }> | null;
-    resolutionNote?: string | null;
-  }>;
-}): string[] => {
-  const lines: string[] = [];
-  lines.push("Tally Reconciliation Pack");
-  lines.push(`Client: ${clientName}`);
-  lines.push(`Period: ${periodLabel}`);
-  lines.push(`Revision: ${revision}`);
-  lines.push(`Pack version: v${packVersion}`);
-  lines.push(`Reconciliation run: #${runNumber} (${bundleId} ${bundleVersion})`);
-  lines.push(`Generated: ${generatedAt.toISOString()}`);
-  lines.push(`Generated by: ${generatedByEmail}`);
-  if (approvedByEmail) {
-    lines.push(
-      `Approved by: ${approvedByEmail} at ${
-        approvedAt ? approvedAt.toISOString() : "unknown"
-      }`
-    );
-  }
-  lines.push(
-    `Redaction: names ${redaction.maskEmployeeNames ? "masked" : "visible"}, bank ${
-      redaction.maskBankDetails ? "masked" : "visible"
-    }, NI ${redaction.maskNiNumbers ? "masked" : "visible"}`
-  );
-  lines.push("");
-  lines.push("Imports:");
-  if (imports.length === 0) {
-    lines.push("- None");
-  } else {
-    imports.forEach((entry) => {
-      const templateLabel = entry.templateVersionId ? "template applied" : "template missing";
-      lines.push(
-        `- ${entry.sourceType} v${entry.version} hash ${entry.fileHashSha256} (${templateLabel})`
-      );
-    });
-  }
-  lines.push("");
-  lines.push("Checks:");
-  if (checks.length === 0) {
-    lines.push("- None");
-  } else {
-    checks.forEach((check) => {
-      const deltaValue =
-        typeof check.deltaValue === "number"
-          ? ` delta ${check.deltaValue.toFixed(2)}`
-          : "";
-      lines.push(
-        `- ${check.checkType} ${check.status} ${check.severity}${deltaValue}`
-      );
-    });
-  }
-  lines.push("");
-  lines.push("Exceptions:");
-  if (exceptions.length === 0) {
-    lines.push("- None");
-  } else {
-    exceptions.forEach((exception) => {
-      const evidenceRows =
-        exception.evidence?.flatMap((entry) => entry.rowNumbers ?? []) ?? [];
-      const evidenceText =
-        evidenceRows.length > 0 ? ` rows ${evidenceRows.join(", ")}` : "";
-      const noteText = exception.resolutionNote
-        ? ` note: ${exception.resolutionNote}`
-        : "";
-      lines.push(
-        `- ${exception.severity} ${exception.status} ${exception.title}${evidenceText}${noteText}`
-      );
-    });
-  }
-
-  if (
-    redaction.maskEmployeeNames ||
-    redaction.maskBankDetails ||
-    redaction.maskNiNumbers
-  ) {
-    return lines.map((line) => applyRedactionToLine(line, redaction));
-  }
-
-  return lines;
-};
-
 const ensurePackablePayRun = async (
-  firmId: string,
+  context: ActorContext,
   payRunId: string,
   expectedStatus: PayRunStatus
 ) => {
   const payRun = await prisma.payRun.findFirst({
     where: {
       id: payRunId,
-      firmId
+      firmId: context.firmId
     },
     include: {
       client: true,
@@ -320,6 +86,10 @@ const ensurePackablePayRun = async (
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
   if (payRun.status !== expectedStatus) {
     throw new ValidationError(`Pay run must be ${expectedStatus.toLowerCase()}.`);
@@ -329,8 +99,8 @@ const ensurePackablePayRun = async (
 };
 
 export const generatePack = async (context: ActorContext, payRunId: string) => {
-  assertPayRunTransition("APPROVED", "PACKED", context.role);
-  const payRun = await ensurePackablePayRun(context.firmId, payRunId, "APPROVED");
+  assertPayRunTransition("APPROVED", "PACKED", context);
+  const payRun = await ensurePackablePayRun(context, payRunId, "APPROVED");
 
   const generatedByUser = await prisma.user.findFirst({
     where: {
@@ -350,7 +120,7 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
       supersededAt: null
     },
     include: {
-      checkResults: true
+      checkResults: { orderBy: { checkType: "asc" } }
     },
     orderBy: { runNumber: "desc" }
   });
@@ -386,6 +156,17 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
     orderBy: { createdAt: "desc" }
   });
 
+  const submission = await prisma.auditEvent.findFirst({
+    where: {
+      firmId: context.firmId,
+      entityType: "PAY_RUN",
+      entityId: payRun.id,
+      action: "PAY_RUN_SUBMITTED_FOR_REVIEW"
+    },
+    include: { actorUser: { select: { email: true } } },
+    orderBy: { timestamp: "desc" }
+  });
+
   const importSummary = (run.inputSummary as {
     imports?: Record<string, { importId?: string }>;
   })?.imports;
@@ -417,21 +198,43 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
       firmId: context.firmId,
       reconciliationRunId: run.id,
       supersededAt: null
-    }
+    },
+    include: { resolvedByUser: { select: { email: true } } },
+    orderBy: { createdAt: "asc" }
   });
 
+  const commentsByException = await listExceptionComments(
+    context.firmId,
+    exceptions.map((exception) => exception.id)
+  );
+  const attachmentsByException = await listExceptionAttachments(
+    context.firmId,
+    exceptions.map((exception) => exception.id)
+  );
+
   const checkSummaries = run.checkResults.map((check) => {
-    const details = check.details as { deltaValue?: number };
+    const details = check.details as Partial<CheckDetails> | null;
     return {
       checkType: check.checkType,
+      checkVersion: check.checkVersion,
       status: check.status,
       severity: check.severity,
-      deltaValue: details?.deltaValue ?? null
+      leftLabel: details?.leftLabel ?? null,
+      rightLabel: details?.rightLabel ?? null,
+      leftValue: details?.leftValue ?? null,
+      rightValue: details?.rightValue ?? null,
+      deltaValue: details?.deltaValue ?? null,
+      tolerance: details?.toleranceApplied ?? null,
+      expectedVariance: details?.expectedVariance ?? null
     };
   });
 
+  const packId = randomUUID();
+  const generatedAt = new Date();
+
   try {
-    const packLines = buildPackLines({
+    const packDocument = buildPackDocument({
+      firmName: payRun.firm.name,
       clientName: payRun.client.name,
       periodLabel: payRun.periodLabel,
       revision: payRun.revision,
@@ -439,30 +242,57 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
       runNumber: run.runNumber,
       bundleId: run.bundleId,
       bundleVersion: run.bundleVersion,
-      generatedAt: new Date(),
+      generatedAt,
       generatedByEmail: generatedByUser.email,
-      approvedByEmail: approval?.reviewerUser.email ?? null,
-      approvedAt: approval?.createdAt ?? null,
+      submittedByEmail: submission?.actorUser?.email ?? null,
+      submittedAt: submission?.timestamp ?? null,
+      approval: approval
+        ? {
+            reviewerEmail: approval.reviewerUser.email,
+            status: approval.status,
+            comment: approval.comment,
+            createdAt: approval.createdAt
+          }
+        : null,
       redaction,
       imports: imports.map((entry) => ({
+        importId: entry.id,
         sourceType: entry.sourceType,
         version: entry.version,
+        originalFilename: entry.originalFilename,
+        uploadedAt: entry.uploadedAt,
         fileHashSha256: entry.fileHashSha256,
         templateVersionId: entry.mappingTemplateVersionId
       })),
       checks: checkSummaries,
       exceptions: exceptions.map((exception) => ({
+        category: exception.category,
         title: exception.title,
+        description: exception.description,
         status: exception.status,
         severity: exception.severity,
         evidence: Array.isArray(exception.evidence)
-          ? (exception.evidence as Array<{ rowNumbers: number[] }>)
+          ? (exception.evidence as Array<{
+              importId?: string;
+              rowNumbers: number[];
+              note?: string | null;
+            }>)
           : null,
-        resolutionNote: exception.resolutionNote
+        resolutionNote: exception.resolutionNote,
+        resolvedByEmail: exception.resolvedByUser?.email ?? null,
+        attachments: attachmentsByException.get(exception.id) ?? [],
+        comments: flattenCommentThreads(commentsByException.get(exception.id) ?? []).map(
+          (comment) => ({
+            authorEmail: comment.authorEmail,
+            body: comment.body,
+            createdAt: comment.createdAt,
+            depth: comment.depth
+          })
+        )
       }))
     });
 
-    const pdf = buildPdfFromLines(packLines);
+    const pdf = renderPackPdf(packDocument);
     const fileHashSha256 = await sha256Hex(pdf);
     const storageKey = buildPackStorageKey(context.firmId, payRun.id, packVersion);
     const storageUriPdf = buildStorageUri(storageKey);
@@ -491,6 +321,66 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
       }
     );
 
+    const evidence = await collectPackEvidence({
+      firmId: context.firmId,
+      payRun: {
+        id: payRun.id,
+        clientName: payRun.client.name,
+        periodLabel: payRun.periodLabel,
+        revision: payRun.revision
+      },
+      run,
+      packVersion,
+      generatedAt,
+      pdf: { fileName: `pack-v${packVersion}.pdf`, buffer: pdf, fileHashSha256 },
+      imports,
+      exceptions,
+      commentsByException
+    });
+
+    // The signature covers the PDF hash and the bundle manifest, which in turn
+    // lists the hash of every file in the bundle.
+    const signingKey = await getActiveSigningKey(context);
+    const signed = signPackManifest(signingKey, {
+      packId,
+      firmId: context.firmId,
+      firmName: payRun.firm.name,
+      payRunId: payRun.id,
+      clientName: payRun.client.name,
+      periodLabel: payRun.periodLabel,
+      revision: payRun.revision,
+      packVersion,
+      reconciliationRunId: run.id,
+      runNumber: run.runNumber,
+      pdfSha256: fileHashSha256,
+      bundleManifestSha256: evidence.manifestSha256,
+      generatedAt
+    });
+    const bundle = await zipPackEvidence(
+      evidence,
+      generatedAt,
+      buildSignatureBundleEntries(signingKey, signed)
+    );
+    const bundleStorageKey = buildPackBundleStorageKey(context.firmId, payRun.id, packVersion);
+
+    await withRetry(
+      () =>
+        storageClient.send(
+          new PutObjectCommand({
+            Bucket: storageBucket,
+            Key: bundleStorageKey,
+            Body: bundle.buffer,
+            ContentType: "application/zip"
+          })
+        ),
+      {
+        event: "PACK_BUNDLE_UPLOAD",
+        context: uploadContext,
+        attempts: 3,
+        delayMs: 250
+      }
+    );
+
     const metadata = {
       runId: run.id,
       runNumber: run.runNumber,
@@ -511,12 +401,19 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
         severity: check.severity
       })),
       exceptionCount: exceptions.length,
-      approvalId: approval?.id ?? null
+      approvalId: approval?.id ?? null,
+      bundle: {
+        fileHashSha256: bundle.fileHashSha256,
+        sizeBytes: bundle.buffer.length,
+        manifestSha256: evidence.manifestSha256
+      },
+      signingKeyFingerprint: signingKey.fingerprint
     };
 
     const [pack] = await prisma.$transaction([
       prisma.pack.create({
         data: {
+          id: packId,
           firmId: context.firmId,
           payRunId: payRun.id,
           reconciliationRunId: run.id,
@@ -526,6 +423,13 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
           contentType,
           sizeBytes: pdf.length,
           fileHashSha256,
+          storageUriBundle: buildStorageUri(bundleStorageKey),
+          bundleHashSha256: bundle.fileHashSha256,
+          generatedAt,
+          signingKeyId: signingKey.id,
+          signedManifest: signed.manifestText,
+          signature: signed.signature,
+          signedAt: new Date(),
           metadata,
           generatedByUserId: generatedByUser.id
         }
@@ -577,8 +481,8 @@ export const generatePack = async (context: ActorContext, payRunId: string) => {
 };
 
 export const lockPack = async (context: ActorContext, payRunId: string) => {
-  assertPayRunTransition("PACKED", "LOCKED", context.role);
-  const payRun = await ensurePackablePayRun(context.firmId, payRunId, "PACKED");
+  assertPayRunTransition("PACKED", "LOCKED", context);
+  const payRun = await ensurePackablePayRun(context, payRunId, "PACKED");
 
   const pack = await prisma.pack.findFirst({
     where: {
@@ -649,3 +553,14 @@ export const getPackDownloadUrl = async (pack: Pack): Promise<string> => {
   const key = pack.storageKeyPdf ?? getStorageKeyFromUri(pack.storageUriPdf);
   return getSignedDownloadUrl(storageClient, storageBucket, { key });
 };
+
+export const getPackBundleDownloadUrl = async (pack: Pack): Promise<string> => {
+  if (!pack.storageUriBundle) {
+    throw new NotFoundError("Evidence bundle not available for this pack.");
+  }
+  return getSignedDownloadUrl(storageClient, storageBucket, {
+    key: getStorageKeyFromUri(pack.storageUriBundle),
+    contentType: "application/zip",
+    contentDisposition: `attachment; filename="pack-v${pack.packVersion}-evidence.zip"`
+  });
+};
@@ -0,0 +1,117 @@
+import "server-only";
+
+import { prisma } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { hashPassword } from "./auth";
+import { NotFoundError, ValidationError } from "./errors";
+import { isPasswordLoginDisabled } from "./sso";
+import { generatePasswordResetToken, hashToken } from "./token";
+import { revokeUserSessions } from "./user-sessions";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+export const passwordResetTtlMs = 60 * 60 * 1000;
+
+export const minimumPasswordLength = 12;
+
+const invalidLinkMessage = "This reset link is invalid or has expired. Ask a firm admin for a new one.";
+
+/**
+ * Issues a single-use reset link for an active user. Any earlier unused link
+ * for the same user stops working.
+ */
+export const issuePasswordReset = async (context: ActorContext, userId: string) => {
+  const target = await prisma.user.findFirst({
+    where: { id: userId, firmId: context.firmId, status: "ACTIVE" }
+  });
+  if (!target) {
+    throw new NotFoundError("User not found.");
+  }
+  if (await isPasswordLoginDisabled(context.firmId)) {
+    throw new ValidationError("Password sign-in is disabled for this firm. Users sign in with SSO.");
+  }
+
+  const now = new Date();
+  await prisma.passwordReset.updateMany({
+    where: { userId: target.id, usedAt: null, expiresAt: { gt: now } },
+    data: { expiresAt: now }
+  });
+
+  const { token, tokenHash } = generatePasswordResetToken();
+  const reset = await prisma.passwordReset.create({
+    data: {
+      firmId: context.firmId,
+      userId: target.id,
+      tokenHash,
+      issuedByUserId: context.userId,
+      expiresAt: new Date(now.getTime() + passwordResetTtlMs)
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "PASSWORD_RESET_ISSUED",
+      entityType: "USER",
+      entityId: target.id,
+      metadata: { expiresAt: reset.expiresAt.toISOString() }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return { token, expiresAt: reset.expiresAt };
+};
+
+/** The unused, unexpired reset for a link token, with its user. */
+export const findPasswordReset = async (token: string, now = new Date()) =>
+  prisma.passwordReset.findFirst({
+    where: {
+      tokenHash: hashToken(token),
+      usedAt: null,
+      expiresAt: { gt: now },
+      user: { status: "ACTIVE" }
+    },
+    include: { user: { select: { id: true, email: true } } }
+  });
+
+/** Sets a new password from a reset link and signs the user out everywhere. */
+export const completePasswordReset = async (token: string, password: string) => {
+  if (password.length < minimumPasswordLength) {
+    throw new ValidationError(`Password must be at least ${minimumPasswordLength} characters.`);
+  }
+
+  const now = new Date();
+  const reset = await findPasswordReset(token, now);
+  if (!reset) {
+    throw new ValidationError(invalidLinkMessage);
+  }
+  // Conditional claim, so the same link cannot set two passwords.
+  const claimed = await prisma.passwordReset.updateMany({
+    where: { id: reset.id, usedAt: null },
+    data: { usedAt: now }
+  });
+  if (claimed.count === 0) {
+    throw new ValidationError(invalidLinkMessage);
+  }
+
+  const passwordHash = await hashPassword(password);
+  await prisma.user.update({
+    where: { id: reset.userId },
+    data: { passwordHash }
+  });
+
+  const context = { firmId: reset.firmId, userId: reset.userId };
+  const sessions = await revokeUserSessions(context, reset.userId, "PASSWORD_RESET");
+
+  await recordAuditEvent(
+    {
+      action: "PASSWORD_RESET_COMPLETED",
+      entityType: "USER",
+      entityId: reset.userId,
+      metadata: { sessionsRevoked: sessions }
+    },
+    { firmId: reset.firmId, actorUserId: reset.userId }
+  );
+};
@@ -2,18 +2,22 @@ import "server-only";
 
 import { prisma, type SourceType } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { NotFoundError, ValidationError } from "./errors";
 import { transitionPayRunStatus } from "./pay-runs";
 import { resolveRequiredSources } from "./required-sources";
+import { can, type Permission } from "./permissions";
 
 type ActorContext = {
   firmId: string;
   userId: string;
   role: "ADMIN" | "PREPARER" | "REVIEWER";
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
-const assertRole = (role: ActorContext["role"], allowed: ActorContext["role"][]) => {
-  if (!allowed.includes(role)) {
+const assertPermission = (context: ActorContext, permission: Permission) => {
+  if (!can(context, permission)) {
     throw new ValidationError("Permission denied.");
   }
 };
@@ -98,7 +102,7 @@ export const submitPayRunForReview = async (
   context: ActorContext,
   payRunId: string
 ) => {
-  assertRole(context.role, ["ADMIN", "PREPARER"]);
+  assertPermission(context, "pay-run:submit");
 
   const payRun = await prisma.payRun.findFirst({
     where: {
@@ -113,6 +117,10 @@ export const submitPayRunForReview = async (
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
   if (payRun.status !== "RECONCILED") {
     throw new ValidationError("Pay run must be reconciled before review.");
@@ -147,7 +155,9 @@ export const submitPayRunForReview = async (
     {
       firmId: context.firmId,
       userId: context.userId,
-      role: context.role
+      role: context.role,
+      permissions: context.permissions,
+      clientIds: context.clientIds
     },
     payRun.id,
     "READY_FOR_REVIEW"
@@ -176,7 +186,7 @@ export const approvePayRun = async (
   payRunId: string,
   input?: { comment?: string | null; noComment?: boolean }
 ) => {
-  assertRole(context.role, ["ADMIN", "REVIEWER"]);
+  assertPermission(context, "pay-run:approve");
 
   const payRun = await prisma.payRun.findFirst({
     where: {
@@ -191,6 +201,10 @@ export const approvePayRun = async (
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
   if (payRun.status !== "READY_FOR_REVIEW") {
     throw new ValidationError("Pay run is not ready for review.");
@@ -233,7 +247,9 @@ export const approvePayRun = async (
       {
         firmId: context.firmId,
         userId: context.userId,
-        role: context.role
+        role: context.role,
+        permissions: context.permissions,
+        clientIds: context.clientIds
       },
       payRun.id,
       "APPROVED"
@@ -277,7 +293,7 @@ export const rejectPayRun = async (
   payRunId: string,
   comment: string
 ) => {
-  assertRole(context.role, ["ADMIN", "REVIEWER"]);
+  assertPermission(context, "pay-run:approve");
 
   if (comment.trim().length < 2) {
     throw new ValidationError("Rejection comment is required.");
@@ -296,6 +312,10 @@ export const rejectPayRun = async (
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
   if (payRun.status !== "READY_FOR_REVIEW") {
     throw new ValidationError("Pay run is not ready for review.");
@@ -331,7 +351,9 @@ export const rejectPayRun = async (
       {
         firmId: context.firmId,
         userId: context.userId,
-        role: context.role
+        role: context.role,
+        permissions: context.permissions,
+        clientIds: context.clientIds
       },
       payRun.id,
       "RECONCILED"
@@ -1,55 +1,74 @@
 import type { PayRunStatus, Role } from "@/lib/prisma";
 import { ValidationError } from "./errors";
+import { can, type Permission } from "./permissions";
 
 export type ActorRole = Role | "SYSTEM";
 
+/** A role, or an actor carrying the permissions resolved from its assigned role. */
+export type TransitionActor =
+  | ActorRole
+  | {
+      role: ActorRole;
+      permissions?: readonly Permission[] | null;
+    };
+
 type TransitionRule = {
   from: PayRunStatus;
   to: PayRunStatus;
-  roles: ActorRole[];
+  permission: Permission | "SYSTEM";
 };
 
 const transitionRules: TransitionRule[] = [
-  { from: "DRAFT", to: "IMPORTED", roles: ["ADMIN", "PREPARER"] },
-  { from: "IMPORTED", to: "MAPPED", roles: ["ADMIN", "PREPARER"] },
-  { from: "IMPORTED", to: "RECONCILING", roles: ["ADMIN", "PREPARER"] },
-  { from: "MAPPED", to: "RECONCILING", roles: ["ADMIN", "PREPARER"] },
-  { from: "RECONCILED", to: "RECONCILING", roles: ["ADMIN", "PREPARER"] },
-  { from: "RECONCILING", to: "RECONCILED", roles: ["SYSTEM"] },
-  { from: "RECONCILED", to: "READY_FOR_REVIEW", roles: ["ADMIN", "PREPARER"] },
-  { from: "READY_FOR_REVIEW", to: "APPROVED", roles: ["ADMIN", "REVIEWER"] },
-  { from: "READY_FOR_REVIEW", to: "RECONCILED", roles: ["ADMIN", "REVIEWER"] },
-  { from: "APPROVED", to: "PACKED", roles: ["ADMIN", "PREPARER", "REVIEWER"] },
-  { from: "PACKED", to: "LOCKED", roles: ["ADMIN", "REVIEWER"] },
-  { from: "LOCKED", to: "ARCHIVED", roles: ["ADMIN"] }
+  { from: "DRAFT", to: "IMPORTED", permission: "pay-run:prepare" },
+  { from: "IMPORTED", to: "MAPPED", permission: "pay-run:prepare" },
+  { from: "IMPORTED", to: "RECONCILING", permission: "pay-run:prepare" },
+  { from: "MAPPED", to: "RECONCILING", permission: "pay-run:prepare" },
+  { from: "RECONCILED", to: "RECONCILING", permission: "pay-run:prepare" },
+  { from: "RECONCILING", to: "RECONCILED", permission: "SYSTEM" },
+  { from: "RECONCILED", to: "READY_FOR_REVIEW", permission: "pay-run:submit" },
+  { from: "READY_FOR_REVIEW", to: "APPROVED", permission: "pay-run:approve" },
+  { from: "READY_FOR_REVIEW", to: "RECONCILED", permission: "pay-run:approve" },
+  { from: "APPROVED", to: "PACKED", permission: "pack:generate" },
+  { from: "PACKED", to: "LOCKED", permission: "pack:lock" },
+  { from: "LOCKED", to: "ARCHIVED", permission: "pay-run:archive" }
 ];
 
+const actorAllowed = (rule: TransitionRule, actor: TransitionActor): boolean => {
+  const subject = typeof actor === "string" ? { role: actor } : actor;
+  if (rule.permission === "SYSTEM" || subject.role === "SYSTEM") {
+    return rule.permission === "SYSTEM" && subject.role === "SYSTEM";
+  }
+  return can({ role: subject.role, permissions: subject.permissions }, rule.permission);
+};
+
+const describeActor = (actor: TransitionActor): string =>
+  typeof actor === "string" ? actor : actor.role;
+
 export const canTransitionPayRun = (
   from: PayRunStatus,
   to: PayRunStatus,
-  actorRole: ActorRole
+  actor: TransitionActor
 ): boolean =>
   transitionRules.some(
-    (rule) =>
-      rule.from === from && rule.to === to && rule.roles.includes(actorRole)
+    (rule) => rule.from === from && rule.to === to && actorAllowed(rule, actor)
   );
 
 export const assertPayRunTransition = (
   from: PayRunStatus,
   to: PayRunStatus,
-  actorRole: ActorRole
+  actor: TransitionActor
 ) => {
-  if (!canTransitionPayRun(from, to, actorRole)) {
+  if (!canTransitionPayRun(from, to, actor)) {
     throw new ValidationError(
-      `Illegal pay run transition from ${from} to ${to} for ${actorRole}.`
+      `Illegal pay run transition from ${from} to ${to} for ${describeActor(actor)}.`
     );
   }
 };
 
 export const getAllowedTransitions = (
   from: PayRunStatus,
-  actorRole: ActorRole
+  actor: TransitionActor
 ): PayRunStatus[] =>
   transitionRules
-    .filter((rule) => rule.from === from && rule.roles.includes(actorRole))
+    .filter((rule) => rule.from === from && actorAllowed(rule, actor))
     .map((rule) => rule.to);
@@ -2,9 +2,11 @@ import "server-only";
 
 import { prisma, type PayRunStatus } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { ConflictError, NotFoundError, ValidationError } from "./errors";
 import { assertPayRunTransition, type ActorRole } from "./pay-run-state";
 import { assertReasonablePeriod, formatPeriodLabel } from "./pay-run-utils";
+import type { Permission } from "./permissions";
 
 export type PayRunInput = {
   clientId: string;
@@ -16,13 +18,15 @@ type ActorContext = {
   firmId: string;
   userId?: string | null;
   role: ActorRole;
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
-const ensureClientActive = async (firmId: string, clientId: string) => {
+const ensureClientActive = async (context: ActorContext, clientId: string) => {
   const client = await prisma.client.findFirst({
     where: {
       id: clientId,
-      firmId,
+      firmId: context.firmId,
       archivedAt: null
     }
   });
@@ -30,6 +34,7 @@ const ensureClientActive = async (firmId: string, clientId: string) => {
   if (!client) {
     throw new NotFoundError("Client not found.");
   }
+  await assertClientAccess(context, client.id, { entityType: "CLIENT", entityId: client.id });
   return client;
 };
 
@@ -41,7 +46,7 @@ export const createPayRun = async (
     throw new ValidationError("Period start must be before period end.");
   }
 
-  const client = await ensureClientActive(context.firmId, input.clientId);
+  const client = await ensureClientActive(context, input.clientId);
   assertReasonablePeriod(input.periodStart, input.periodEnd, client.payrollFrequency);
 
   const periodLabel = formatPeriodLabel(input.periodStart, input.periodEnd);
@@ -101,8 +106,12 @@ export const transitionPayRunStatus = async (
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
-  assertPayRunTransition(payRun.status, nextStatus, context.role);
+  assertPayRunTransition(payRun.status, nextStatus, context);
 
   const updated = await prisma.payRun.update({
     where: { id: payRun.id },
@@ -142,6 +151,10 @@ export const createPayRunRevision = async (
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
   const latest = await prisma.payRun.findFirst({
     where: {
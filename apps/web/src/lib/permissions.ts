@@ -1,60 +1,103 @@
 import type { Role } from "@/lib/prisma";
 
-export type Permission =
-  | "firm:manage"
-  | "user:invite"
-  | "user:role-change"
-  | "audit:view"
-  | "client:write"
-  | "pay-run:create"
-  | "pay-run:transition"
-  | "pay-run:revision"
-  | "import:upload"
-  | "template:write"
-  | "reconciliation:run"
-  | "pack:download";
+export const permissionDefinitions = [
+  { key: "firm:manage", label: "Manage firm settings", group: "Firm" },
+  { key: "user:invite", label: "Invite users", group: "Firm" },
+  { key: "user:role-change", label: "Change user roles", group: "Firm" },
+  { key: "audit:view", label: "View and export the audit log", group: "Firm" },
+  { key: "client:write", label: "Create and edit clients", group: "Clients" },
+  { key: "tolerance:manage", label: "Manage tolerances", group: "Clients" },
+  {
+    key: "expected-variance:manage",
+    label: "Manage expected variances",
+    group: "Clients"
+  },
+  { key: "pay-run:create", label: "Create pay runs", group: "Pay runs" },
+  {
+    key: "pay-run:prepare",
+    label: "Start imports, mapping and reconciliation",
+    group: "Pay runs"
+  },
+  { key: "pay-run:revision", label: "Create pay run revisions", group: "Pay runs" },
+  { key: "pay-run:submit", label: "Submit pay runs for review", group: "Pay runs" },
+  { key: "pay-run:approve", label: "Approve or reject pay runs", group: "Pay runs" },
+  { key: "pay-run:archive", label: "Archive locked pay runs", group: "Pay runs" },
+  { key: "import:upload", label: "Upload imports", group: "Imports & templates" },
+  { key: "template:write", label: "Edit mapping templates", group: "Imports & templates" },
+  {
+    key: "template:approve",
+    label: "Approve or deprecate mapping templates",
+    group: "Imports & templates"
+  },
+  { key: "reconciliation:run", label: "Run reconciliation", group: "Reconciliation" },
+  { key: "exception:resolve", label: "Resolve and dismiss exceptions", group: "Reconciliation" },
+  { key: "exception:override", label: "Override exceptions", group: "Reconciliation" },
+  { key: "pack:generate", label: "Generate packs", group: "Packs" },
+  { key: "pack:lock", label: "Lock packs", group: "Packs" },
+  { key: "pack:download", label: "Download packs and evidence bundles", group: "Packs" }
+] as const;
+
+export type Permission = (typeof permissionDefinitions)[number]["key"];
+
+const allPermissions: Permission[] = permissionDefinitions.map((definition) => definition.key);
+
+const sharedPermissions: Permission[] = [
+  "audit:view",
+  "client:write",
+  "pay-run:create",
+  "pay-run:revision",
+  "import:upload",
+  "template:write",
+  "reconciliation:run",
+  "exception:resolve",
+  "pack:generate",
+  "pack:download"
+];
 
 const rolePermissions: Record<Role, Permission[]> = {
-  ADMIN: [
-    "firm:manage",
-    "user:invite",
-    "user:role-change",
-    "audit:view",
-    "client:write",
-    "pay-run:create",
-    "pay-run:transition",
-    "pay-run:revision",
-    "import:upload",
-    "template:write",
-    "reconciliation:run",
-    "pack:download"
-  ],
-  PREPARER: [
-    "audit:view",
-    "client:write",
-    "pay-run:create",
-    "pay-run:transition",
-    "pay-run:revision",
-    "import:upload",
-    "template:write",
-    "reconciliation:run",
-    "pack:download"
-  ],
+  ADMIN: allPermissions,
+  PREPARER: [...sharedPermissions, "pay-run:prepare", "pay-run:submit", "template:approve"],
   REVIEWER: [
-    "audit:view",
-    "client:write",
-    "pay-run:create",
-    "pay-run:transition",
-    "pay-run:revision",
-    "import:upload",
-    "template:write",
-    "reconciliation:run",
-    "pack:download"
+    ...sharedPermissions,
+    "pay-run:approve",
+    "exception:override",
+    "tolerance:manage",
+    "expected-variance:manage",
+    "pack:lock"
   ]
 };
 
-export const can = (role: Role, permission: Permission): boolean =>
-  rolePermissions[role].includes(permission);
+/**
+ * Either a built-in role or an actor whose permissions were resolved from a
+ * firm-defined role. Actors without resolved permissions fall back to their
+ * built-in role.
+ */
+export type PermissionSubject =
+  | Role
+  | {
+      role: Role;
+      permissions?: readonly Permission[] | null;
+    };
+
+export const isPermission = (value: string): value is Permission =>
+  (allPermissions as string[]).includes(value);
+
+export const getRolePermissions = (role: Role): Permission[] => rolePermissions[role];
+
+/** Effective permissions for a user, from their custom role when one is assigned. */
+export const resolveUserPermissions = (user: {
+  role: Role;
+  firmRole?: { permissions: string[] } | null;
+}): Permission[] =>
+  user.firmRole ? user.firmRole.permissions.filter(isPermission) : rolePermissions[user.role];
+
+export const can = (subject: PermissionSubject, permission: Permission): boolean => {
+  const permissions =
+    typeof subject === "string"
+      ? rolePermissions[subject]
+      : subject.permissions ?? rolePermissions[subject.role];
+  return permissions.includes(permission);
+};
 
 export class PermissionError extends Error {
   constructor() {
@@ -62,8 +105,11 @@ export class PermissionError extends Error {
   }
 }
 
-export const requirePermission = (role: Role, permission: Permission): void => {
-  if (!can(role, permission)) {
+export const requirePermission = (
+  subject: PermissionSubject,
+  permission: Permission
+): void => {
+  if (!can(subject, permission)) {
     throw new PermissionError();
   }
 };
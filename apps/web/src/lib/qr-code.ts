@@ -0,0 +1,389 @@
+// A minimal QR code encoder (ISO/IEC 18004) for short strings such as
+// otpauth:// enrollment URIs: byte mode, error correction level M,
+// versions 1-15 (up to 412 bytes).
+
+export type QrCode = {
+  size: number;
+  isDark: (x: number, y: number) => boolean;
+};
+
+const maxVersion = 15;
+
+// Level M block structure, indexed by version.
+const eccCodewordsPerBlock = [
+  0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24
+];
+const eccBlockCount = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10];
+
+// Format information for level M uses the error correction bits 00.
+const eccFormatBits = 0;
+
+const at = (values: readonly number[], index: number) => values[index] ?? 0;
+
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+};
+
+const dataCodewordCount = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) -
+  at(eccCodewordsPerBlock, version) * at(eccBlockCount, version);
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < degree; j += 1) {
+      result[j] = gfMultiply(at(result, j), root) ^ (j + 1 < degree ? at(result, j + 1) : 0);
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+export const reedSolomonRemainder = (data: readonly number[], degree: number): number[] => {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] = at(result, index) ^ gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+const encodeDataCodewords = (data: Buffer, version: number) => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(0b0100, 4);
+  append(data.length, version <= 9 ? 8 : 16);
+  data.forEach((byte) => append(byte, 8));
+
+  const capacityBits = dataCodewordCount(version) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+const interleaveWithEcc = (codewords: number[], version: number) => {
+  const blockCount = at(eccBlockCount, version);
+  const eccLength = at(eccCodewordsPerBlock, version);
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortDataLength = Math.floor(rawCodewords / blockCount) - eccLength;
+
+  const blocks: Array<{ data: number[]; ecc: number[] }> = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i += 1) {
+    const length = shortDataLength + (i < shortBlockCount ? 0 : 1);
+    const data = codewords.slice(offset, offset + length);
+    offset += length;
+    blocks.push({ data, ecc: reedSolomonRemainder(data, eccLength) });
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortDataLength; i += 1) {
+    blocks.forEach((block) => {
+      if (i < block.data.length) {
+        result.push(at(block.data, i));
+      }
+    });
+  }
+  for (let i = 0; i < eccLength; i += 1) {
+    blocks.forEach((block) => result.push(at(block.ecc, i)));
+  }
+  return result;
+};
+
+const alignmentPositions = (version: number) => {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+};
+
+const maskApplies = (mask: number, x: number, y: number) => {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+};
+
+export const formatInformationBits = (mask: number): number => {
+  const data = (eccFormatBits << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i += 1) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+const versionInformationBits = (version: number) => {
+  let remainder = version;
+  for (let i = 0; i < 12; i += 1) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  return (version << 12) | remainder;
+};
+
+const bit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const buildMatrix = (version: number, codewords: number[], mask: number) => {
+  const size = version * 4 + 17;
+  const modules = new Array<boolean>(size * size).fill(false);
+  const reserved = new Array<boolean>(size * size).fill(false);
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y * size + x] = dark;
+    reserved[y * size + x] = true;
+  };
+
+  for (let i = 0; i < size; i += 1) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4]
+  ].forEach(([cx = 0, cy = 0]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+
+  const alignment = alignmentPositions(version);
+  alignment.forEach((cy, row) => {
+    alignment.forEach((cx, column) => {
+      const last = alignment.length - 1;
+      if ((row === 0 && column === 0) || (row === 0 && column === last) || (row === last && column === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  const format = formatInformationBits(mask);
+  for (let i = 0; i <= 5; i += 1) {
+    setFunction(8, i, bit(format, i));
+  }
+  setFunction(8, 7, bit(format, 6));
+  setFunction(8, 8, bit(format, 7));
+  setFunction(7, 8, bit(format, 8));
+  for (let i = 9; i < 15; i += 1) {
+    setFunction(14 - i, 8, bit(format, i));
+  }
+  for (let i = 0; i < 8; i += 1) {
+    setFunction(size - 1 - i, 8, bit(format, i));
+  }
+  for (let i = 8; i < 15; i += 1) {
+    setFunction(8, size - 15 + i, bit(format, i));
+  }
+  setFunction(8, size - 8, true);
+
+  if (version >= 7) {
+    const versionBits = versionInformationBits(version);
+    for (let i = 0; i < 18; i += 1) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, bit(versionBits, i));
+      setFunction(b, a, bit(versionBits, i));
+    }
+  }
+
+  // Codewords fill two-module columns in a zigzag from the bottom right,
+  // skipping the vertical timing pattern.
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        if (reserved[y * size + x]) {
+          continue;
+        }
+        const dark =
+          index < codewords.length * 8 && bit(at(codewords, index >>> 3), 7 - (index & 7));
+        modules[y * size + x] = dark !== maskApplies(mask, x, y);
+        index += 1;
+      }
+    }
+  }
+
+  return { size, modules };
+};
+
+const finderLike = [1, 0, 1, 1, 1, 0, 1];
+
+const lineScore = (line: boolean[]) => {
+  let score = 0;
+  let run = 1;
+  for (let i = 1; i <= line.length; i += 1) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      run += 1;
+      continue;
+    }
+    if (run >= 5) {
+      score += 3 + (run - 5);
+    }
+    run = 1;
+  }
+
+  const light = (from: number, to: number) => {
+    for (let i = from; i < to; i += 1) {
+      if (i >= 0 && i < line.length && line[i]) {
+        return false;
+      }
+    }
+    return true;
+  };
+  for (let i = 0; i + finderLike.length <= line.length; i += 1) {
+    const matches = finderLike.every((value, offset) => line[i + offset] === (value === 1));
+    if (matches && (light(i - 4, i) || light(i + 7, i + 11))) {
+      score += 40;
+    }
+  }
+  return score;
+};
+
+// Mask penalty rules N1-N4 from the specification.
+const penaltyScore = ({ size, modules }: { size: number; modules: boolean[] }) => {
+  const dark = (x: number, y: number) => modules[y * size + x] === true;
+  let score = 0;
+  for (let i = 0; i < size; i += 1) {
+    score += lineScore(Array.from({ length: size }, (_, x) => dark(x, i)));
+    score += lineScore(Array.from({ length: size }, (_, y) => dark(i, y)));
+  }
+  for (let y = 0; y < size - 1; y += 1) {
+    for (let x = 0; x < size - 1; x += 1) {
+      const color = dark(x, y);
+      if (color === dark(x + 1, y) && color === dark(x, y + 1) && color === dark(x + 1, y + 1)) {
+        score += 3;
+      }
+    }
+  }
+  const darkCount = modules.filter(Boolean).length;
+  score += Math.floor(Math.abs((darkCount * 100) / modules.length - 50) / 5) * 10;
+  return score;
+};
+
+export const encodeQrCode = (text: string): QrCode => {
+  const data = Buffer.from(text, "utf8");
+  let version = 1;
+  while (version <= maxVersion) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16);
+    if (headerBits + data.length * 8 <= dataCodewordCount(version) * 8) {
+      break;
+    }
+    version += 1;
+  }
+  if (version > maxVersion) {
+    throw new Error("Text is too long for a QR code.");
+  }
+
+  const codewords = interleaveWithEcc(encodeDataCodewords(data, version), version);
+  let best: { size: number; modules: boolean[] } | null = null;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask += 1) {
+    const candidate = buildMatrix(version, codewords, mask);
+    const score = penaltyScore(candidate);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  const { size, modules } = best ?? buildMatrix(version, codewords, 0);
+  return {
+    size,
+    isDark: (x, y) => x >= 0 && y >= 0 && x < size && y < size && modules[y * size + x] === true
+  };
+};
+
+/** Renders a QR code as a standalone SVG document with a four-module quiet zone. */
+export const renderQrCodeSvg = (text: string): string => {
+  const { size, isDark } = encodeQrCode(text);
+  const border = 4;
+  const path: string[] = [];
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (isDark(x, y)) {
+        path.push(`M${x + border},${y + border}h1v1h-1z`);
+      }
+    }
+  }
+  const dimension = size + border * 2;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<path d="${path.join("")}" fill="#000000"/>`,
+    "</svg>"
+  ].join("");
+};
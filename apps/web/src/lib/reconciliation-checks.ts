@@ -1,11 +1,10 @@
 import "server-only";
 
-import type {
-  CheckSeverity,
-  CheckStatus,
-  CheckType,
-  ExceptionCategory
-} from "@/lib/prisma";
+import type { CheckSeverity, CheckStatus, ExceptionCategory } from "@/lib/prisma";
+import type { LineMatchingResult, RegisterEmployeeLine } from "./line-matching";
+
+// Check identifiers are declared by the check registry (check-registry.ts).
+export type CheckType = string;
 
 export type AmountRow = {
   rowNumber: number;
@@ -31,6 +30,67 @@ export type CategoryBreakdown = {
   withinTolerance: boolean;
 };
 
+// Per-employee totals by statutory category, keyed by a normalized employee ID.
+export type EmployeeCategoryTotals = {
+  employeeKey: string;
+  employeeRef: string;
+  byCategory: Record<string, TotalWithRows>;
+};
+
+export type EmployeeCategoryBreakdown = {
+  employee: string;
+  category: string;
+  registerTotal: number;
+  statutoryTotal: number;
+  delta: number;
+};
+
+export type GroupTotal = TotalWithRows & {
+  label: string;
+};
+
+export type GroupedTotals = Record<string, GroupTotal>;
+
+export type GroupBreakdown = {
+  group: string;
+  registerTotal: number;
+  journalTotal: number;
+  delta: number;
+  withinTolerance: boolean;
+};
+
+export type PeriodMetricBreakdown = {
+  metric: string;
+  current: number;
+  prior: number;
+  delta: number;
+  deltaPercent: number;
+  withinTolerance: boolean;
+};
+
+export type PeriodEmployeeBreakdown = {
+  employee: string;
+  currentNet: number;
+  priorNet: number;
+  delta: number;
+  deltaPercent: number;
+};
+
+export type PeriodComparisonDetails = {
+  priorPayRunId: string;
+  priorPeriodLabel: string;
+  metrics?: PeriodMetricBreakdown[];
+  employees?: PeriodEmployeeBreakdown[];
+  joiners?: number;
+  leavers?: number;
+};
+
+export type PriorPeriodReference = {
+  payRunId: string;
+  periodLabel: string;
+  registerImportId: string;
+};
+
 export type CheckDetails = {
   leftLabel: string;
   rightLabel: string;
@@ -46,6 +106,10 @@ export type CheckDetails = {
   };
   categoryBreakdown?: CategoryBreakdown[];
   unmappedCategories?: string[];
+  employeeBreakdown?: EmployeeCategoryBreakdown[];
+  groupBreakdown?: GroupBreakdown[];
+  periodComparison?: PeriodComparisonDetails;
+  lineMatching?: LineMatchingDetails;
   expectedVariance?: {
     id: string;
     varianceType: string;
@@ -56,6 +120,36 @@ export type CheckDetails = {
   };
 };
 
+export type LineMatchingDetails = {
+  matchedByKey: number;
+  matchedByAmountAndName: number;
+  unmatchedEmployeeCount: number;
+  unmatchedBankLineCount: number;
+  splitPaymentCount: number;
+  unmatchedEmployees: Array<{
+    rowNumber: number;
+    amount: number;
+    reason: string;
+    bankRowNumber?: number;
+  }>;
+  unmatchedBankLines: Array<{ rowNumber: number; amount: number }>;
+  splitPayments: Array<{
+    registerRowNumber: number;
+    amount: number;
+    bankRowNumbers: number[];
+    bankTotal: number;
+    withinTolerance: boolean;
+  }>;
+};
+
+export type CheckException = {
+  category: ExceptionCategory;
+  title: string;
+  description: string;
+  evidence?: EvidencePointer[];
+  severity?: CheckSeverity;
+};
+
 export type CheckEvaluation = {
   checkType: CheckType;
   checkVersion: string;
@@ -64,14 +158,8 @@ export type CheckEvaluation = {
   summary: string;
   details: CheckDetails;
   evidence?: EvidencePointer[];
-  exception?:
-    | {
-        category: ExceptionCategory;
-        title: string;
-        description: string;
-        evidence?: EvidencePointer[];
-      }
-    | null;
+  exception?: CheckException | null;
+  additionalExceptions?: CheckException[];
 };
 
 export type CheckTolerance = {
@@ -81,6 +169,8 @@ export type CheckTolerance = {
 
 const CHECK_VERSION = "v1";
 const MAX_EVIDENCE_ROWS = 5;
+const MAX_LINE_EVIDENCE_ROWS = 25;
+const MAX_LINE_DETAIL_ENTRIES = 50;
 
 const centsToAmount = (cents: number): number =>
   Number((cents / 100).toFixed(2));
@@ -116,6 +206,25 @@ const buildEvidence = (
   return { importId, rowNumbers, note };
 };
 
+const buildLineEvidence = (
+  importId: string,
+  rowNumbers: number[],
+  note: string
+): EvidencePointer => ({
+  importId,
+  rowNumbers: Array.from(new Set(rowNumbers))
+    .sort((left, right) => left - right)
+    .slice(0, MAX_LINE_EVIDENCE_ROWS),
+  note
+});
+
+export const listEvaluationExceptions = (
+  evaluation: CheckEvaluation
+): CheckException[] => [
+  ...(evaluation.exception ? [evaluation.exception] : []),
+  ...(evaluation.additionalExceptions ?? [])
+];
+
 const buildTotalsDetails = ({
   leftLabel,
   rightLabel,
@@ -425,6 +534,136 @@ export const evaluateRegisterDeductionsToStatutoryTotals = ({
   };
 };
 
+/**
+ * Compares each employee's register deductions with the amounts the statutory
+ * filing reports for the same employee ID (PPSN or NINO). Only categories the
+ * register maps are compared; an employee missing on one side counts as zero.
+ */
+export const evaluateEmployeeDeductionsToStatutory = ({
+  registerEmployees,
+  statutoryEmployees,
+  categories,
+  registerImportId,
+  statutoryImportId,
+  tolerance,
+  categoryLabels
+}: {
+  registerEmployees: EmployeeCategoryTotals[];
+  statutoryEmployees: EmployeeCategoryTotals[];
+  categories: string[];
+  registerImportId: string;
+  statutoryImportId: string;
+  tolerance: CheckTolerance;
+  categoryLabels: Record<string, string>;
+}): CheckEvaluation => {
+  const registerByKey = new Map(registerEmployees.map((entry) => [entry.employeeKey, entry]));
+  const statutoryByKey = new Map(statutoryEmployees.map((entry) => [entry.employeeKey, entry]));
+  const hasAmounts = (entry: EmployeeCategoryTotals) =>
+    categories.some((category) => (entry.byCategory[category]?.totalCents ?? 0) !== 0);
+
+  if (!statutoryEmployees.some((entry) => registerByKey.has(entry.employeeKey))) {
+    return {
+      checkType: "CHK_EMPLOYEE_DEDUCTIONS_TO_STATUTORY",
+      checkVersion: CHECK_VERSION,
+      status: "WARN",
+      severity: "LOW",
+      summary:
+        "No statutory employee IDs match the register; per-employee comparison skipped.",
+      details: buildSkippedDetails({
+        leftLabel: "Register employees",
+        rightLabel: "Statutory employees",
+        reason: "No matching employee IDs"
+      })
+    };
+  }
+
+  const employeeKeys = Array.from(
+    new Set([
+      ...registerEmployees.filter(hasAmounts).map((entry) => entry.employeeKey),
+      ...statutoryEmployees.filter(hasAmounts).map((entry) => entry.employeeKey)
+    ])
+  ).sort();
+  const employeeBreakdown: EmployeeCategoryBreakdown[] = [];
+  const mismatchedKeys = new Set<string>();
+  const registerRows: number[] = [];
+  const statutoryRows: number[] = [];
+
+  for (const employeeKey of employeeKeys) {
+    const register = registerByKey.get(employeeKey);
+    const statutory = statutoryByKey.get(employeeKey);
+    for (const category of categories) {
+      const registerTotal = register?.byCategory[category];
+      const statutoryTotal = statutory?.byCategory[category];
+      const registerCents = registerTotal?.totalCents ?? 0;
+      const statutoryCents = statutoryTotal?.totalCents ?? 0;
+      const deltaCents = registerCents - statutoryCents;
+      const toleranceCents = calcToleranceCents(
+        tolerance.absoluteCents,
+        tolerance.percent,
+        registerCents
+      );
+      if (Math.abs(deltaCents) <= toleranceCents) {
+        continue;
+      }
+      mismatchedKeys.add(employeeKey);
+      registerRows.push(...(registerTotal?.rows ?? []).map((row) => row.rowNumber));
+      statutoryRows.push(...(statutoryTotal?.rows ?? []).map((row) => row.rowNumber));
+      employeeBreakdown.push({
+        employee: register?.employeeRef ?? statutory?.employeeRef ?? employeeKey,
+        category: categoryLabels[category] ?? category,
+        registerTotal: centsToAmount(registerCents),
+        statutoryTotal: centsToAmount(statutoryCents),
+        delta: centsToAmount(deltaCents)
+      });
+    }
+  }
+
+  const { details } = buildCountDetails({
+    leftLabel: "Employees compared",
+    rightLabel: "Employees within tolerance",
+    leftValue: employeeKeys.length,
+    rightValue: employeeKeys.length - mismatchedKeys.size,
+    tolerance: { absolute: 0, percent: 0 }
+  });
+  const hasMismatch = mismatchedKeys.size > 0;
+  const evidence = hasMismatch
+    ? [
+        buildLineEvidence(registerImportId, registerRows, "Register rows for mismatched employees"),
+        buildLineEvidence(
+          statutoryImportId,
+          statutoryRows,
+          "Statutory rows for mismatched employees"
+        )
+      ].filter((pointer) => pointer.rowNumbers.length > 0)
+    : undefined;
+
+  return {
+    checkType: "CHK_EMPLOYEE_DEDUCTIONS_TO_STATUTORY",
+    checkVersion: CHECK_VERSION,
+    status: hasMismatch ? "FAIL" : "PASS",
+    severity: hasMismatch ? "MEDIUM" : "INFO",
+    summary: hasMismatch
+      ? `${mismatchedKeys.size} employee(s) have deductions that differ from the statutory filing.`
+      : "Every employee's deductions match the statutory filing within tolerance.",
+    details: {
+      ...details,
+      employeeBreakdown: hasMismatch
+        ? employeeBreakdown.slice(0, MAX_LINE_DETAIL_ENTRIES)
+        : undefined
+    },
+    evidence,
+    exception: hasMismatch
+      ? {
+          category: "STATUTORY_MISMATCH",
+          severity: "MEDIUM",
+          title: "Employee deductions do not match the statutory filing",
+          description: `${mismatchedKeys.size} employee(s) are out of tolerance against the statutory filing.`,
+          evidence
+        }
+      : null
+  };
+};
+
 export const evaluateRegisterPensionToScheduleTotal = ({
   registerTotal,
   scheduleTotal,
@@ -580,6 +819,125 @@ export const evaluateRegisterToJournalTotal = ({
   };
 };
 
+export const evaluateRegisterToJournalGroupedTotals = ({
+  checkType,
+  registerGroups,
+  journalGroups,
+  registerImportId,
+  journalImportId,
+  tolerance,
+  leftLabel,
+  rightLabel,
+  missingReason
+}: {
+  checkType: CheckType;
+  registerGroups: GroupedTotals;
+  journalGroups: GroupedTotals;
+  registerImportId: string;
+  journalImportId: string;
+  tolerance: CheckTolerance;
+  leftLabel: string;
+  rightLabel: string;
+  missingReason?: string;
+}): CheckEvaluation => {
+  if (missingReason) {
+    return {
+      checkType,
+      checkVersion: CHECK_VERSION,
+      status: "WARN",
+      severity: "LOW",
+      summary: missingReason,
+      details: buildSkippedDetails({ leftLabel, rightLabel, reason: missingReason })
+    };
+  }
+
+  const groupKeys = Array.from(
+    new Set([...Object.keys(registerGroups), ...Object.keys(journalGroups)])
+  ).sort();
+  let totalRegisterCents = 0;
+  let totalJournalCents = 0;
+  const groupBreakdown: GroupBreakdown[] = [];
+  const driftingGroups: Array<{ key: string; label: string; deltaCents: number }> = [];
+
+  for (const key of groupKeys) {
+    const registerGroup = registerGroups[key];
+    const journalGroup = journalGroups[key];
+    const label = registerGroup?.label ?? journalGroup?.label ?? key;
+    const registerCents = registerGroup?.totalCents ?? 0;
+    const journalCents = journalGroup?.totalCents ?? 0;
+    totalRegisterCents += registerCents;
+    totalJournalCents += journalCents;
+
+    const deltaCents = registerCents - journalCents;
+    const toleranceCents = calcToleranceCents(
+      tolerance.absoluteCents,
+      tolerance.percent,
+      registerCents
+    );
+    const withinTolerance = Math.abs(deltaCents) <= toleranceCents;
+    if (!withinTolerance) {
+      driftingGroups.push({ key, label, deltaCents });
+    }
+    groupBreakdown.push({
+      group: label,
+      registerTotal: centsToAmount(registerCents),
+      journalTotal: centsToAmount(journalCents),
+      delta: centsToAmount(deltaCents),
+      withinTolerance
+    });
+  }
+
+  const { details } = buildTotalsDetails({
+    leftLabel,
+    rightLabel,
+    leftTotalCents: totalRegisterCents,
+    rightTotalCents: totalJournalCents,
+    tolerance
+  });
+
+  const hasMismatch = driftingGroups.length > 0;
+  const evidence = hasMismatch
+    ? driftingGroups.flatMap((group) => {
+        const registerRows = registerGroups[group.key]?.rows ?? [];
+        const journalRows = journalGroups[group.key]?.rows ?? [];
+        return [
+          ...(registerRows.length > 0
+            ? [buildEvidence(registerImportId, registerRows, `${group.label}: register rows`)]
+            : []),
+          ...(journalRows.length > 0
+            ? [buildEvidence(journalImportId, journalRows, `${group.label}: journal rows`)]
+            : [])
+        ];
+      })
+    : undefined;
+  const driftSummary = driftingGroups
+    .map((group) => `${group.label} (${centsToAmount(group.deltaCents).toFixed(2)})`)
+    .join(", ");
+
+  return {
+    checkType,
+    checkVersion: CHECK_VERSION,
+    status: hasMismatch ? "FAIL" : "PASS",
+    severity: hasMismatch ? "HIGH" : "INFO",
+    summary: hasMismatch
+      ? `${leftLabel} differs from ${rightLabel} in ${driftingGroups.length} group(s).`
+      : `${leftLabel} matches ${rightLabel} for every group within tolerance.`,
+    details: {
+      ...details,
+      groupBreakdown
+    },
+    evidence,
+    exception: hasMismatch
+      ? {
+          category: "JOURNAL_MISMATCH",
+          title: "Department totals do not match journal totals",
+          description: `Drifting departments: ${driftSummary}.`,
+          evidence
+        }
+      : null
+  };
+};
+
 export const evaluateBankDuplicatePayments = ({
   duplicateRows,
   bankImportId
@@ -662,6 +1020,78 @@ export const evaluateBankNegativePayments = ({
   };
 };
 
+export type BankFileControlMismatch = {
+  scope: string;
+  declaredCount: number | null;
+  declaredSumCents: number | null;
+  transactionCount: number;
+  transactionSumCents: number;
+  rows: AmountRow[];
+};
+
+const describeControlMismatch = (mismatch: BankFileControlMismatch) => {
+  const declared = [
+    mismatch.declaredCount === null ? null : `${mismatch.declaredCount} transactions`,
+    mismatch.declaredSumCents === null
+      ? null
+      : `a control sum of ${centsToAmount(mismatch.declaredSumCents).toFixed(2)}`
+  ]
+    .filter(Boolean)
+    .join(" and ");
+  return (
+    `${mismatch.scope} declares ${declared}, but holds ${mismatch.transactionCount} ` +
+    `transactions totalling ${centsToAmount(mismatch.transactionSumCents).toFixed(2)}.`
+  );
+};
+
+export const evaluateBankFileControlTotals = ({
+  fileTotals,
+  mismatches,
+  bankImportId
+}: {
+  fileTotals: { declaredSumCents: number | null; transactionSumCents: number };
+  mismatches: BankFileControlMismatch[];
+  bankImportId: string;
+}): CheckEvaluation => {
+  const hasMismatch = mismatches.length > 0;
+  const transactionTotal = centsToAmount(fileTotals.transactionSumCents);
+  const declaredTotal =
+    fileTotals.declaredSumCents === null
+      ? transactionTotal
+      : centsToAmount(fileTotals.declaredSumCents);
+  const { details } = buildCountDetails({
+    leftLabel: "Declared control sum",
+    rightLabel: "Transactions total",
+    leftValue: declaredTotal,
+    rightValue: transactionTotal,
+    tolerance: { absolute: 0, percent: 0 }
+  });
+
+  const evidence = hasMismatch
+    ? mismatches.map((mismatch) => buildEvidence(bankImportId, mismatch.rows, mismatch.scope))
+    : undefined;
+
+  return {
+    checkType: "CHK_BANK_FILE_CONTROL_TOTALS",
+    checkVersion: CHECK_VERSION,
+    status: hasMismatch ? "FAIL" : "PASS",
+    severity: hasMismatch ? "HIGH" : "INFO",
+    summary: hasMismatch
+      ? "Bank file control totals do not match its transactions."
+      : "Bank file control totals match its transactions.",
+    details,
+    evidence,
+    exception: hasMismatch
+      ? {
+          category: "BANK_DATA_QUALITY",
+          title: "Bank file control totals do not match",
+          description: mismatches.map(describeControlMismatch).join(" "),
+          evidence
+        }
+      : null
+  };
+};
+
 export const evaluateBankPaymentCountMismatch = ({
   registerCount,
   bankCount,
@@ -742,3 +1172,429 @@ export const evaluateJournalDebitsEqualCredits = ({
         }
   };
 };
+
+export const evaluateEmployeeNetToBankLines = ({
+  matching,
+  registerImportId,
+  bankImportId
+}: {
+  matching: LineMatchingResult;
+  registerImportId: string;
+  bankImportId: string;
+}): CheckEvaluation => {
+  const { matches, unmatchedEmployees, unmatchedBankLines, splitPayments } = matching;
+  const balancedSplits = splitPayments.filter((split) => split.withinTolerance);
+  const unbalancedSplits = splitPayments.filter((split) => !split.withinTolerance);
+  const employeeCount =
+    matches.length + unmatchedEmployees.length + splitPayments.length;
+
+  const { details } = buildCountDetails({
+    leftLabel: "Register paid employees",
+    rightLabel: "Employees matched to bank lines",
+    leftValue: employeeCount,
+    rightValue: matches.length + balancedSplits.length,
+    tolerance: { absolute: 0, percent: 0 }
+  });
+
+  const lineMatching: LineMatchingDetails = {
+    matchedByKey: matches.filter((match) => match.method === "KEY").length,
+    matchedByAmountAndName: matches.filter((match) => match.method === "AMOUNT_NAME")
+      .length,
+    unmatchedEmployeeCount: unmatchedEmployees.length,
+    unmatchedBankLineCount: unmatchedBankLines.length,
+    splitPaymentCount: splitPayments.length,
+    unmatchedEmployees: unmatchedEmployees
+      .slice(0, MAX_LINE_DETAIL_ENTRIES)
+      .map((entry) => ({
+        rowNumber: entry.rowNumber,
+        amount: centsToAmount(entry.amountCents),
+        reason: entry.reason,
+        ...(entry.bankRowNumber ? { bankRowNumber: entry.bankRowNumber } : {})
+      })),
+    unmatchedBankLines: unmatchedBankLines
+      .slice(0, MAX_LINE_DETAIL_ENTRIES)
+      .map((entry) => ({
+        rowNumber: entry.rowNumber,
+        amount: centsToAmount(entry.amountCents)
+      })),
+    splitPayments: splitPayments.slice(0, MAX_LINE_DETAIL_ENTRIES).map((entry) => ({
+      registerRowNumber: entry.registerRowNumber,
+      amount: centsToAmount(entry.amountCents),
+      bankRowNumbers: entry.bankRowNumbers,
+      bankTotal: centsToAmount(entry.bankTotalCents),
+      withinTolerance: entry.withinTolerance
+    }))
+  };
+
+  const exceptions: CheckException[] = [];
+
+  if (unmatchedEmployees.length > 0) {
+    const candidateBankRows = unmatchedEmployees.flatMap((entry) =>
+      entry.bankRowNumber ? [entry.bankRowNumber] : []
+    );
+    exceptions.push({
+      category: "BANK_MISMATCH",
+      severity: "MEDIUM",
+      title: "Register employees without a matching bank line",
+      description: `${unmatchedEmployees.length} employee net pay line(s) could not be matched to a bank payment.`,
+      evidence: [
+        buildLineEvidence(
+          registerImportId,
+          unmatchedEmployees.map((entry) => entry.rowNumber),
+          "Unmatched register employees"
+        ),
+        ...(candidateBankRows.length > 0
+          ? [
+              buildLineEvidence(
+                bankImportId,
+                candidateBankRows,
+                "Bank lines matched by ID with a different amount"
+              )
+            ]
+          : [])
+      ]
+    });
+  }
+
+  if (unmatchedBankLines.length > 0) {
+    exceptions.push({
+      category: "BANK_MISMATCH",
+      severity: "MEDIUM",
+      title: "Bank lines without a matching register employee",
+      description: `${unmatchedBankLines.length} bank payment line(s) could not be matched to a register employee.`,
+      evidence: [
+        buildLineEvidence(
+          bankImportId,
+          unmatchedBankLines.map((entry) => entry.rowNumber),
+          "Unmatched bank lines"
+        )
+      ]
+    });
+  }
+
+  if (splitPayments.length > 0) {
+    exceptions.push({
+      category: "BANK_MISMATCH",
+      severity: unbalancedSplits.length > 0 ? "MEDIUM" : "LOW",
+      title: "Split bank payments need review",
+      description: `${splitPayments.length} employee(s) were paid across multiple bank lines.`,
+      evidence: [
+        buildLineEvidence(
+          registerImportId,
+          splitPayments.map((entry) => entry.registerRowNumber),
+          "Employees paid in multiple lines"
+        ),
+        buildLineEvidence(
+          bankImportId,
+          splitPayments.flatMap((entry) => entry.bankRowNumbers),
+          "Split bank lines"
+        )
+      ]
+    });
+  }
+
+  const hasUnmatched =
+    unmatchedEmployees.length > 0 ||
+    unmatchedBankLines.length > 0 ||
+    unbalancedSplits.length > 0;
+  const status: CheckStatus = hasUnmatched
+    ? "FAIL"
+    : splitPayments.length > 0
+      ? "WARN"
+      : "PASS";
+  const severity: CheckSeverity =
+    status === "FAIL" ? "MEDIUM" : status === "WARN" ? "LOW" : "INFO";
+  const summary =
+    status === "FAIL"
+      ? "Some employees and bank lines could not be matched."
+      : status === "WARN"
+        ? "All employees matched; split payments require review."
+        : "Every employee matched a single bank line.";
+  const evidence = exceptions.flatMap((entry) => entry.evidence ?? []);
+
+  return {
+    checkType: "CHK_EMPLOYEE_NET_TO_BANK_LINES",
+    checkVersion: CHECK_VERSION,
+    status,
+    severity,
+    summary,
+    details: {
+      ...details,
+      lineMatching
+    },
+    evidence: evidence.length > 0 ? evidence : undefined,
+    exception: exceptions[0] ?? null,
+    additionalExceptions: exceptions.length > 1 ? exceptions.slice(1) : undefined
+  };
+};
+
+const calcDeltaPercent = (currentCents: number, priorCents: number): number =>
+  priorCents === 0
+    ? 0
+    : Number(((Math.abs(currentCents - priorCents) / Math.abs(priorCents)) * 100).toFixed(4));
+
+const formatSignedPercent = (currentCents: number, priorCents: number): string => {
+  const sign = currentCents >= priorCents ? "+" : "-";
+  return `${sign}${calcDeltaPercent(currentCents, priorCents).toFixed(1)}%`;
+};
+
+export const evaluatePeriodTotalVariance = ({
+  metrics,
+  prior,
+  registerImportId,
+  tolerance
+}: {
+  metrics: Array<{ label: string; current: TotalWithRows; prior: TotalWithRows }>;
+  prior: PriorPeriodReference;
+  registerImportId: string;
+  tolerance: CheckTolerance;
+}): CheckEvaluation => {
+  const leftLabel = "Current period totals";
+  const rightLabel = `Prior period totals (${prior.periodLabel})`;
+  const breakdown: PeriodMetricBreakdown[] = [];
+  const swings: Array<{ label: string; current: TotalWithRows; prior: TotalWithRows }> = [];
+
+  for (const metric of metrics) {
+    const deltaCents = metric.current.totalCents - metric.prior.totalCents;
+    const toleranceCents = calcToleranceCents(
+      tolerance.absoluteCents,
+      tolerance.percent,
+      metric.prior.totalCents
+    );
+    const withinTolerance = Math.abs(deltaCents) <= toleranceCents;
+    if (!withinTolerance) {
+      swings.push(metric);
+    }
+    breakdown.push({
+      metric: metric.label,
+      current: centsToAmount(metric.current.totalCents),
+      prior: centsToAmount(metric.prior.totalCents),
+      delta: centsToAmount(deltaCents),
+      deltaPercent: calcDeltaPercent(metric.current.totalCents, metric.prior.totalCents),
+      withinTolerance
+    });
+  }
+
+  const primary = metrics[0];
+  const { details } = buildTotalsDetails({
+    leftLabel,
+    rightLabel,
+    leftTotalCents: primary?.current.totalCents ?? 0,
+    rightTotalCents: primary?.prior.totalCents ?? 0,
+    tolerance
+  });
+
+  const hasSwing = swings.length > 0;
+  const evidence = hasSwing
+    ? [
+        buildEvidence(
+          registerImportId,
+          swings.flatMap((metric) => metric.current.rows),
+          "Current register rows"
+        ),
+        buildEvidence(
+          prior.registerImportId,
+          swings.flatMap((metric) => metric.prior.rows),
+          `Prior register rows (${prior.periodLabel})`
+        )
+      ]
+    : undefined;
+
+  return {
+    checkType: "CHK_PERIOD_TOTAL_VARIANCE",
+    checkVersion: CHECK_VERSION,
+    status: hasSwing ? "WARN" : "PASS",
+    severity: hasSwing ? "LOW" : "INFO",
+    summary: hasSwing
+      ? `Payroll totals moved beyond the variance band since ${prior.periodLabel}.`
+      : `Payroll totals are within the variance band of ${prior.periodLabel}.`,
+    details: {
+      ...details,
+      formula: "Current period total - Prior locked period total",
+      periodComparison: {
+        priorPayRunId: prior.payRunId,
+        priorPeriodLabel: prior.periodLabel,
+        metrics: breakdown
+      }
+    },
+    evidence,
+    exception: hasSwing
+      ? {
+          category: "SANITY",
+          title: "Payroll totals moved materially since the prior period",
+          description: `${swings
+            .map(
+              (metric) =>
+                `${metric.label} (${formatSignedPercent(
+                  metric.current.totalCents,
+                  metric.prior.totalCents
+                )})`
+            )
+            .join(", ")} moved beyond the variance band vs ${prior.periodLabel}.`,
+          evidence
+        }
+      : null
+  };
+};
+
+export const evaluatePeriodHeadcountVariance = ({
+  currentCount,
+  priorCount,
+  prior,
+  tolerancePercent
+}: {
+  currentCount: number;
+  priorCount: number;
+  prior: PriorPeriodReference;
+  tolerancePercent: number;
+}): CheckEvaluation => {
+  const { details, delta, toleranceApplied } = buildCountDetails({
+    leftLabel: "Prior period headcount",
+    rightLabel: "Current period headcount",
+    leftValue: priorCount,
+    rightValue: currentCount,
+    tolerance: { absolute: 0, percent: tolerancePercent }
+  });
+  const withinTolerance = Math.abs(delta) <= toleranceApplied;
+
+  return {
+    checkType: "CHK_PERIOD_HEADCOUNT_VARIANCE",
+    checkVersion: CHECK_VERSION,
+    status: withinTolerance ? "PASS" : "WARN",
+    severity: withinTolerance ? "INFO" : "LOW",
+    summary: withinTolerance
+      ? `Headcount is within the variance band of ${prior.periodLabel}.`
+      : `Headcount changed from ${priorCount} to ${currentCount} since ${prior.periodLabel}.`,
+    details: {
+      ...details,
+      periodComparison: {
+        priorPayRunId: prior.payRunId,
+        priorPeriodLabel: prior.periodLabel
+      }
+    },
+    exception: withinTolerance
+      ? null
+      : {
+          category: "SANITY",
+          title: "Headcount moved materially since the prior period",
+          description: `Paid employees changed from ${priorCount} to ${currentCount} vs ${prior.periodLabel}.`
+        }
+  };
+};
+
+const employeeKey = (employee: RegisterEmployeeLine): string =>
+  (employee.employeeId || employee.employeeName).toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const employeeLabel = (employee: RegisterEmployeeLine): string =>
+  employee.employeeId || `Register row ${employee.rowNumber}`;
+
+export const evaluatePeriodEmployeeNetVariance = ({
+  currentEmployees,
+  priorEmployees,
+  prior,
+  registerImportId,
+  tolerance
+}: {
+  currentEmployees: RegisterEmployeeLine[];
+  priorEmployees: RegisterEmployeeLine[];
+  prior: PriorPeriodReference;
+  registerImportId: string;
+  tolerance: CheckTolerance;
+}): CheckEvaluation => {
+  const priorByKey = new Map<string, RegisterEmployeeLine>();
+  for (const employee of priorEmployees) {
+    const key = employeeKey(employee);
+    if (key && employee.amountCents > 0 && !priorByKey.has(key)) {
+      priorByKey.set(key, employee);
+    }
+  }
+
+  const seen = new Set<string>();
+  const swings: Array<{ current: RegisterEmployeeLine; prior: RegisterEmployeeLine }> = [];
+  let joiners = 0;
+  let compared = 0;
+
+  for (const employee of [...currentEmployees].sort(
+    (left, right) => left.rowNumber - right.rowNumber
+  )) {
+    const key = employeeKey(employee);
+    if (!key || employee.amountCents <= 0 || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const priorEmployee = priorByKey.get(key);
+    if (!priorEmployee) {
+      joiners += 1;
+      continue;
+    }
+    compared += 1;
+    const toleranceCents = calcToleranceCents(
+      tolerance.absoluteCents,
+      tolerance.percent,
+      priorEmployee.amountCents
+    );
+    if (Math.abs(employee.amountCents - priorEmployee.amountCents) > toleranceCents) {
+      swings.push({ current: employee, prior: priorEmployee });
+    }
+  }
+  const leavers = Array.from(priorByKey.keys()).filter((key) => !seen.has(key)).length;
+
+  const { details } = buildCountDetails({
+    leftLabel: "Employees paid in both periods",
+    rightLabel: "Employees within variance band",
+    leftValue: compared,
+    rightValue: compared - swings.length,
+    tolerance: { absolute: 0, percent: 0 }
+  });
+
+  const hasSwing = swings.length > 0;
+  const evidence = hasSwing
+    ? [
+        buildLineEvidence(
+          registerImportId,
+          swings.map((swing) => swing.current.rowNumber),
+          "Current register rows with net pay swings"
+        ),
+        buildLineEvidence(
+          prior.registerImportId,
+          swings.map((swing) => swing.prior.rowNumber),
+          `Prior register rows (${prior.periodLabel})`
+        )
+      ]
+    : undefined;
+
+  return {
+    checkType: "CHK_PERIOD_EMPLOYEE_NET_VARIANCE",
+    checkVersion: CHECK_VERSION,
+    status: hasSwing ? "WARN" : "PASS",
+    severity: hasSwing ? "LOW" : "INFO",
+    summary: hasSwing
+      ? `${swings.length} employee(s) had net pay swings beyond the variance band since ${prior.periodLabel}.`
+      : `Employee net pay is within the variance band of ${prior.periodLabel}.`,
+    details: {
+      ...details,
+      periodComparison: {
+        priorPayRunId: prior.payRunId,
+        priorPeriodLabel: prior.periodLabel,
+        employees: swings.slice(0, MAX_LINE_DETAIL_ENTRIES).map((swing) => ({
+          employee: employeeLabel(swing.current),
+          currentNet: centsToAmount(swing.current.amountCents),
+          priorNet: centsToAmount(swing.prior.amountCents),
+          delta: centsToAmount(swing.current.amountCents - swing.prior.amountCents),
+          deltaPercent: calcDeltaPercent(swing.current.amountCents, swing.prior.amountCents)
+        })),
+        joiners,
+        leavers
+      }
+    },
+    evidence,
+    exception: hasSwing
+      ? {
+          category: "SANITY",
+          title: "Employee net pay moved materially since the prior period",
+          description: `${swings.length} employee net pay line(s) moved beyond the variance band vs ${prior.periodLabel}.`,
+          evidence
+        }
+      : null
+  };
+};
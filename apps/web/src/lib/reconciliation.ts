@@ -7,98 +7,68 @@ import {
   type AccountClass
 } from "@/lib/prisma";
 import { recordAuditEvent } from "./audit";
+import { assertClientAccess } from "./client-access";
 import { ValidationError, NotFoundError } from "./errors";
-import { readImportFile } from "./import-file";
 import { isImportErrorStatus } from "./import-status";
-import { startSpan, withRetry } from "./logger";
+import { logWarn, startSpan } from "./logger";
 import { type ColumnMap, normalizeColumnName } from "./mapping-utils";
-import { requirePermission } from "./permissions";
+import { requirePermission, type Permission } from "./permissions";
 import { assertPayRunTransition } from "./pay-run-state";
 import { transitionPayRunStatus } from "./pay-runs";
 import { resolveRequiredSources } from "./required-sources";
 import { resolveTolerances } from "./tolerances";
 import {
-  evaluateBankDuplicatePayments,
-  evaluateBankNegativePayments,
-  evaluateBankPaymentCountMismatch,
-  evaluateJournalDebitsEqualCredits,
-  evaluateRegisterDeductionsToStatutoryTotals,
-  evaluateRegisterNetToBankTotal,
-  evaluateRegisterPensionToScheduleTotal,
-  evaluateRegisterToJournalTotal,
-  type CheckEvaluation,
+  resolveLineMatchingEnabled,
+  type RegisterEmployeeLine
+} from "./line-matching";
+import {
+  listEvaluationExceptions,
+  type CheckException,
+  type EmployeeCategoryTotals,
+  type EvidencePointer,
+  type GroupedTotals,
   type TotalWithRows
 } from "./reconciliation-checks";
+import {
+  getBundleConfig,
+  resolveClientCheckSettings,
+  runCheckBundle,
+  type CheckInputs,
+  type PriorRegisterSnapshot
+} from "./check-registry";
 import { applyExpectedVariances } from "./expected-variances";
+import { copyExceptionAttachments } from "./exception-attachments";
+import {
+  buildCarryForwardFields,
+  buildExceptionDeltaKey,
+  buildExceptionFingerprint,
+  matchExceptionPredecessors,
+  type CarryForwardMatch,
+  type CarryForwardPredecessor
+} from "./exception-carry-forward";
+import {
+  STATUTORY_CATEGORY_KEYS,
+  ensureNormalizedDataset,
+  loadBankLines,
+  loadGlLines,
+  loadPensionScheduleLines,
+  loadRegisterLines,
+  loadStatutoryLines,
+  type NormalizedBankLine,
+  type NormalizedGlLine,
+  type NormalizedPensionScheduleLine,
+  type NormalizedRegisterLine,
+  type NormalizedStatutoryLine,
+  type StatutoryCategoryKey
+} from "./normalized-datasets";
+import { readSepaControls } from "./sepa-pain001";
 
 type ActorContext = {
   firmId: string;
   userId: string;
   role: "ADMIN" | "PREPARER" | "REVIEWER";
-};
-
-type ParsedImport = {
-  rows: string[][];
-  headerRowIndex: number;
-  columnIndexByNormalized: Map<string, number>;
-};
-
-type BundleConfig = {
-  bundleId: string;
-  bundleVersion: string;
-};
-
-type StatutoryCategoryKey =
-  | "TAX_PRIMARY"
-  | "TAX_SECONDARY"
-  | "TAX_OTHER"
-  | "PENSION_EMPLOYEE"
-  | "PENSION_EMPLOYER"
-  | "OTHER_DEDUCTIONS";
-
-const STATUTORY_CATEGORY_KEYS: StatutoryCategoryKey[] = [
-  "TAX_PRIMARY",
-  "TAX_SECONDARY",
-  "TAX_OTHER",
-  "PENSION_EMPLOYEE",
-  "PENSION_EMPLOYER",
-  "OTHER_DEDUCTIONS"
-];
-
-const parseAmount = (value: string | number | null | undefined): number | null => {
-  if (value === null || value === undefined) {
-    return null;
-  }
-  const raw = String(value).trim();
-  if (!raw) {
-    return null;
-  }
-  const isParenNegative = raw.startsWith("(") && raw.endsWith(")");
-  const cleaned = raw.replace(/[^0-9.-]/g, "");
-  if (!cleaned) {
-    return null;
-  }
-  const parsed = Number(cleaned);
-  if (Number.isNaN(parsed)) {
-    return null;
-  }
-  return isParenNegative ? -Math.abs(parsed) : parsed;
-};
-
-const toCents = (value: number): number => Math.round(value * 100);
-
-const getBundleConfig = (region: "UK" | "IE"): BundleConfig => {
-  if (region === "IE") {
-    return {
-      bundleId: "BUNDLE_IE",
-      bundleVersion: "V1"
-    };
-  }
-
-  return {
-    bundleId: "BUNDLE_UK",
-    bundleVersion: "V1"
-  };
+  permissions?: readonly Permission[] | null;
+  clientIds?: readonly string[] | null;
 };
 
 const buildStatutoryCategoryLabels = (region: "UK" | "IE") => {
@@ -123,110 +93,52 @@ const buildStatutoryCategoryLabels = (region: "UK" | "IE") => {
   } satisfies Record<StatutoryCategoryKey, string>;
 };
 
-const buildParsedImport = async (
-  importRecord: { id: string; storageUri: string; originalFilename: string },
-  template: MappingTemplate,
-  context: { firmId: string }
-): Promise<ParsedImport> => {
-  const { rows } = await withRetry(
-    () =>
-      readImportFile(importRecord, {
-        sheetName: template.sheetName ?? null
-      }),
-    {
-      event: "RECONCILIATION_IMPORT_READ",
-      context: {
-        firmId: context.firmId,
-        importId: importRecord.id
-      },
-      shouldRetry: (error) => !(error instanceof ValidationError)
-    }
-  );
-  const headerRowIndex = template.headerRowIndex ?? 0;
-  if (rows.length === 0 || headerRowIndex >= rows.length) {
-    throw new ValidationError("Unable to locate the header row for this import.");
-  }
-
-  const headerRow = rows[headerRowIndex] ?? [];
-  const columnIndexByNormalized = new Map<string, number>();
-  headerRow.forEach((column, index) => {
-    const normalized = normalizeColumnName(String(column));
-    if (normalized) {
-      columnIndexByNormalized.set(normalized, index);
-    }
-  });
-
-  if (columnIndexByNormalized.size === 0) {
-    throw new ValidationError("No columns were detected for this import.");
-  }
-
-  return { rows, headerRowIndex, columnIndexByNormalized };
-};
-
-const resolveColumnIndex = (
-  parsed: ParsedImport,
-  columnName: string | null | undefined
-): number => {
-  if (!columnName) {
-    throw new ValidationError("Required mapping column is missing.");
-  }
-  const normalized = normalizeColumnName(columnName);
-  const index = normalized ? parsed.columnIndexByNormalized.get(normalized) : undefined;
-  if (index === undefined) {
-    throw new ValidationError(
-      `Mapped column "${columnName}" is missing from the latest import.`
-    );
-  }
-  return index;
-};
-
-const resolveOptionalColumnIndex = (
-  parsed: ParsedImport,
-  columnName: string | null | undefined
-): number | null => {
-  if (!columnName) {
-    return null;
-  }
-  const normalized = normalizeColumnName(columnName);
-  const index = normalized ? parsed.columnIndexByNormalized.get(normalized) : undefined;
-  return index ?? null;
-};
-
-const collectColumnTotals = (
-  parsed: ParsedImport,
-  columnName: string | null | undefined
+const sumLines = <T extends { rowNumber: number }>(
+  lines: T[],
+  pick: (line: T) => number | null
 ): TotalWithRows => {
-  const columnIndex = resolveColumnIndex(parsed, columnName);
   let totalCents = 0;
   const rows: TotalWithRows["rows"] = [];
-
-  parsed.rows.forEach((row, rowIndex) => {
-    if (rowIndex <= parsed.headerRowIndex) {
-      return;
-    }
-    if (row.every((cell) => String(cell).trim().length === 0)) {
-      return;
-    }
-    const parsedValue = parseAmount(row[columnIndex]);
-    if (parsedValue === null) {
-      return;
+  for (const line of lines) {
+    const amountCents = pick(line);
+    if (amountCents === null) {
+      continue;
     }
-    const amountCents = toCents(parsedValue);
     totalCents += amountCents;
-    rows.push({ rowNumber: rowIndex + 1, amountCents });
-  });
-
+    rows.push({ rowNumber: line.rowNumber, amountCents });
+  }
   return { totalCents, rows };
 };
 
-const collectOptionalColumnTotals = (
-  parsed: ParsedImport,
-  columnName: string | null | undefined
-): TotalWithRows => {
-  if (!columnName) {
-    return { totalCents: 0, rows: [] };
+const UNASSIGNED_GROUP_LABEL = "Unassigned";
+
+const addToGroup = (
+  groups: GroupedTotals,
+  rawGroup: unknown,
+  row: TotalWithRows["rows"][number]
+) => {
+  const label = String(rawGroup ?? "").trim() || UNASSIGNED_GROUP_LABEL;
+  const key = normalizeColumnName(label);
+  const group = groups[key] ?? { label, totalCents: 0, rows: [] };
+  group.totalCents += row.amountCents;
+  group.rows.push(row);
+  groups[key] = group;
+};
+
+const groupLines = <T extends { rowNumber: number }>(
+  lines: T[],
+  pick: (line: T) => number | null,
+  groupBy: (line: T) => string | null
+): GroupedTotals => {
+  const groups: GroupedTotals = {};
+  for (const line of lines) {
+    const amountCents = pick(line);
+    if (amountCents === null) {
+      continue;
+    }
+    addToGroup(groups, groupBy(line), { rowNumber: line.rowNumber, amountCents });
   }
-  return collectColumnTotals(parsed, columnName);
+  return groups;
 };
 
 const combineTotals = (...totals: TotalWithRows[]): TotalWithRows => {
@@ -239,105 +151,35 @@ const combineTotals = (...totals: TotalWithRows[]): TotalWithRows => {
   );
 };
 
-const collectJournalTotals = (
-  parsed: ParsedImport,
-  columnMap: ColumnMap
-): { debits: TotalWithRows; credits: TotalWithRows } => {
-  const signedColumn = columnMap.signedAmount ?? null;
-  if (signedColumn) {
-    const columnIndex = resolveColumnIndex(parsed, signedColumn);
-    let debitTotal = 0;
-    let creditTotal = 0;
-    const debitRows: TotalWithRows["rows"] = [];
-    const creditRows: TotalWithRows["rows"] = [];
-
-    parsed.rows.forEach((row, rowIndex) => {
-      if (rowIndex <= parsed.headerRowIndex) {
-        return;
-      }
-      if (row.every((cell) => String(cell).trim().length === 0)) {
-        return;
-      }
-      const parsedValue = parseAmount(row[columnIndex]);
-      if (parsedValue === null || parsedValue === 0) {
-        return;
-      }
-      const amountCents = toCents(parsedValue);
-      if (amountCents > 0) {
-        debitTotal += amountCents;
-        debitRows.push({ rowNumber: rowIndex + 1, amountCents });
-      } else {
-        const creditCents = Math.abs(amountCents);
-        creditTotal += creditCents;
-        creditRows.push({ rowNumber: rowIndex + 1, amountCents: creditCents });
-      }
-    });
-
-    return {
-      debits: { totalCents: debitTotal, rows: debitRows },
-      credits: { totalCents: creditTotal, rows: creditRows }
-    };
-  }
-
-  const debitColumn = columnMap.debit ?? null;
-  const creditColumn = columnMap.credit ?? null;
-  if (!debitColumn || !creditColumn) {
-    throw new ValidationError("Journal template must include debit and credit.");
-  }
-
-  const debitIndex = resolveColumnIndex(parsed, debitColumn);
-  const creditIndex = resolveColumnIndex(parsed, creditColumn);
-  let debitTotal = 0;
-  let creditTotal = 0;
-  const debitRows: TotalWithRows["rows"] = [];
-  const creditRows: TotalWithRows["rows"] = [];
-
-  parsed.rows.forEach((row, rowIndex) => {
-    if (rowIndex <= parsed.headerRowIndex) {
-      return;
-    }
-    if (row.every((cell) => String(cell).trim().length === 0)) {
-      return;
-    }
-
-    const debitValue = parseAmount(row[debitIndex]);
-    if (debitValue !== null && debitValue !== 0) {
-      const amountCents = toCents(Math.abs(debitValue));
-      debitTotal += amountCents;
-      debitRows.push({ rowNumber: rowIndex + 1, amountCents });
-    }
-
-    const creditValue = parseAmount(row[creditIndex]);
-    if (creditValue !== null && creditValue !== 0) {
-      const amountCents = toCents(Math.abs(creditValue));
-      creditTotal += amountCents;
-      creditRows.push({ rowNumber: rowIndex + 1, amountCents });
+const combineGroups = (...groupings: GroupedTotals[]): GroupedTotals => {
+  const combined: GroupedTotals = {};
+  for (const groups of groupings) {
+    for (const [key, group] of Object.entries(groups)) {
+      const entry = combined[key] ?? { label: group.label, totalCents: 0, rows: [] };
+      combined[key] = {
+        label: entry.label,
+        totalCents: entry.totalCents + group.totalCents,
+        rows: [...entry.rows, ...group.rows]
+      };
     }
-  });
-
-  return {
-    debits: { totalCents: debitTotal, rows: debitRows },
-    credits: { totalCents: creditTotal, rows: creditRows }
-  };
+  }
+  return combined;
 };
 
 const collectJournalClassTotals = ({
-  parsed,
+  lines,
   columnMap,
   classifications
 }: {
-  parsed: ParsedImport;
+  lines: NormalizedGlLine[];
   columnMap: ColumnMap;
   classifications: Array<{ accountCode: string; classification: AccountClass }>;
-}): Record<AccountClass, TotalWithRows> => {
-  const accountIndex = resolveColumnIndex(parsed, columnMap.account);
-  const signedColumn = columnMap.signedAmount ?? null;
-  const debitColumn = columnMap.debit ?? null;
-  const creditColumn = columnMap.credit ?? null;
-  if (!signedColumn && (!debitColumn || !creditColumn)) {
-    throw new ValidationError("Journal template must include debit and credit.");
-  }
-
+}): {
+  totals: Record<AccountClass, TotalWithRows>;
+  groups: Record<AccountClass, GroupedTotals> | null;
+} => {
+  // Classifications are resolved at run time so reclassified accounts apply
+  // without re-importing the journal.
   const classificationMap = new Map<string, AccountClass>(
     classifications.map((entry) => [
       normalizeColumnName(entry.accountCode),
@@ -354,114 +196,91 @@ const collectJournalClassTotals = ({
     CASH: { totalCents: 0, rows: [] },
     OTHER: { totalCents: 0, rows: [] }
   };
-
-  const signedIndex = resolveOptionalColumnIndex(parsed, signedColumn);
-  const debitIndex = resolveOptionalColumnIndex(parsed, debitColumn);
-  const creditIndex = resolveOptionalColumnIndex(parsed, creditColumn);
-
-  const resolveAmountCents = (row: string[]): number | null => {
-    if (signedIndex !== null) {
-      const parsedValue = parseAmount(row[signedIndex]);
-      if (parsedValue === null || parsedValue === 0) {
-        return null;
-      }
-      return toCents(parsedValue);
-    }
-    if (debitIndex === null || creditIndex === null) {
-      return null;
-    }
-    const debitValue = parseAmount(row[debitIndex]);
-    const creditValue = parseAmount(row[creditIndex]);
-    const debitCents = debitValue ? toCents(Math.abs(debitValue)) : 0;
-    const creditCents = creditValue ? toCents(Math.abs(creditValue)) : 0;
-    if (debitCents === 0 && creditCents === 0) {
-      return null;
-    }
-    return debitCents > 0 ? debitCents : -creditCents;
+  const groups: Record<AccountClass, GroupedTotals> = {
+    EXPENSE: {},
+    NET_PAYABLE: {},
+    TAX_PAYABLE: {},
+    NI_PRSI_PAYABLE: {},
+    PENSION_PAYABLE: {},
+    CASH: {},
+    OTHER: {}
   };
+  const grouped = Boolean(columnMap.costCentre);
 
-  parsed.rows.forEach((row, rowIndex) => {
-    if (rowIndex <= parsed.headerRowIndex) {
-      return;
+  for (const line of lines) {
+    if (!line.accountCode) {
+      continue;
     }
-    if (row.every((cell) => String(cell).trim().length === 0)) {
-      return;
-    }
-    const accountValue = String(row[accountIndex] ?? "").trim();
-    if (!accountValue) {
-      return;
-    }
-    const amountCents = resolveAmountCents(row);
-    if (amountCents === null) {
-      return;
+    const amountCents = line.debitCents ? line.debitCents : line.creditCents;
+    if (!amountCents) {
+      continue;
     }
     const classification =
-      classificationMap.get(normalizeColumnName(accountValue)) ?? "OTHER";
+      classificationMap.get(normalizeColumnName(line.accountCode)) ?? "OTHER";
     const entry = totals[classification];
     if (!entry) {
-      return;
+      continue;
     }
-    const normalizedAmount = Math.abs(amountCents);
-    entry.totalCents += normalizedAmount;
-    entry.rows.push({ rowNumber: rowIndex + 1, amountCents: normalizedAmount });
-  });
+    entry.totalCents += amountCents;
+    entry.rows.push({ rowNumber: line.rowNumber, amountCents });
+    if (grouped) {
+      addToGroup(groups[classification], line.costCentre, {
+        rowNumber: line.rowNumber,
+        amountCents
+      });
+    }
+  }
 
-  return totals;
+  return { totals, groups: grouped ? groups : null };
 };
 
 const collectBankPayments = (
-  parsed: ParsedImport,
+  lines: NormalizedBankLine[],
   columnMap: ColumnMap
-): Array<{ rowNumber: number; amountCents: number; payeeKey: string; reference: string }> => {
-  const amountIndex = resolveColumnIndex(parsed, columnMap.amount);
-  const payeeColumn = columnMap.payeeId ?? columnMap.payeeName ?? null;
-  const payeeIndex = resolveOptionalColumnIndex(parsed, payeeColumn);
-  const referenceIndex = resolveOptionalColumnIndex(parsed, columnMap.reference);
-
-  const payments: Array<{
-    rowNumber: number;
-    amountCents: number;
-    payeeKey: string;
-    reference: string;
-  }> = [];
-
-  parsed.rows.forEach((row, rowIndex) => {
-    if (rowIndex <= parsed.headerRowIndex) {
-      return;
-    }
-    if (row.every((cell) => String(cell).trim().length === 0)) {
-      return;
-    }
-    const parsedValue = parseAmount(row[amountIndex]);
-    if (parsedValue === null) {
-      return;
+): Array<{
+  rowNumber: number;
+  amountCents: number;
+  payeeKey: string;
+  payeeId: string;
+  payeeName: string;
+  reference: string;
+}> =>
+  lines.flatMap((line) => {
+    if (line.amountCents === null) {
+      return [];
     }
-    const amountCents = toCents(parsedValue);
-    const payeeValue = payeeIndex !== null ? String(row[payeeIndex] ?? "") : "";
-    const referenceValue =
-      referenceIndex !== null ? String(row[referenceIndex] ?? "") : "";
-    payments.push({
-      rowNumber: rowIndex + 1,
-      amountCents,
-      payeeKey: normalizeColumnName(payeeValue) || "unknown",
-      reference: normalizeColumnName(referenceValue)
-    });
+    const payeeValue = columnMap.payeeId ? line.payeeRef : line.payeeName;
+    return [
+      {
+        rowNumber: line.rowNumber,
+        amountCents: line.amountCents,
+        payeeKey: normalizeColumnName(payeeValue ?? "") || "unknown",
+        payeeId: line.payeeRef ?? "",
+        payeeName: line.payeeName ?? "",
+        reference: normalizeColumnName(line.reference ?? "")
+      }
+    ];
   });
 
-  return payments;
-};
+const collectRegisterEmployees = (
+  lines: NormalizedRegisterLine[]
+): RegisterEmployeeLine[] =>
+  lines.flatMap((line) =>
+    line.netPayCents === null
+      ? []
+      : [
+          {
+            rowNumber: line.rowNumber,
+            amountCents: line.netPayCents,
+            employeeId: line.employeeRef ?? "",
+            employeeName: line.employeeName ?? ""
+          }
+        ]
+  );
 
-const collectStatutoryTotals = ({
-  parsed,
-  columnMap,
-  categoryMap
-}: {
-  parsed: ParsedImport;
-  columnMap: ColumnMap;
-  categoryMap: Record<string, StatutoryCategoryKey | null>;
-}): { totals: Record<StatutoryCategoryKey, TotalWithRows>; unmapped: string[] } => {
-  const categoryIndex = resolveColumnIndex(parsed, columnMap.category);
-  const amountIndex = resolveColumnIndex(parsed, columnMap.amount);
+const collectStatutoryTotals = (
+  lines: NormalizedStatutoryLine[]
+): { totals: Record<StatutoryCategoryKey, TotalWithRows>; unmapped: string[] } => {
   const totals = STATUTORY_CATEGORY_KEYS.reduce(
     (acc, key) => {
       acc[key] = { totalCents: 0, rows: [] };
@@ -471,65 +290,176 @@ const collectStatutoryTotals = ({
   );
   const unmapped = new Set<string>();
 
-  parsed.rows.forEach((row, rowIndex) => {
-    if (rowIndex <= parsed.headerRowIndex) {
-      return;
-    }
-    if (row.every((cell) => String(cell).trim().length === 0)) {
-      return;
+  for (const line of lines) {
+    if (!line.categoryKey || !totals[line.categoryKey]) {
+      unmapped.add(line.category);
+      continue;
     }
-    const rawCategory = String(row[categoryIndex] ?? "").trim();
-    if (!rawCategory) {
-      return;
+    if (line.amountCents === null) {
+      continue;
     }
-    const normalizedCategory = normalizeColumnName(rawCategory);
-    const mappedKey = normalizedCategory ? categoryMap[normalizedCategory] : null;
-    if (!mappedKey) {
-      unmapped.add(rawCategory);
-      return;
-    }
-    const parsedValue = parseAmount(row[amountIndex]);
-    if (parsedValue === null) {
-      return;
-    }
-    const amountCents = toCents(parsedValue);
-    totals[mappedKey].totalCents += amountCents;
-    totals[mappedKey].rows.push({ rowNumber: rowIndex + 1, amountCents });
-  });
+    totals[line.categoryKey].totalCents += line.amountCents;
+    totals[line.categoryKey].rows.push({
+      rowNumber: line.rowNumber,
+      amountCents: line.amountCents
+    });
+  }
 
   return { totals, unmapped: Array.from(unmapped.values()).sort() };
 };
 
+// Register column behind each statutory category, as used for registerTotalsByCategory.
+const registerCategoryColumns: Record<
+  StatutoryCategoryKey,
+  { column: string; pick: (line: NormalizedRegisterLine) => number | null }
+> = {
+  TAX_PRIMARY: { column: "tax1", pick: (line) => line.tax1Cents },
+  TAX_SECONDARY: { column: "tax2", pick: (line) => line.tax2Cents },
+  TAX_OTHER: { column: "tax3", pick: (line) => line.tax3Cents },
+  PENSION_EMPLOYEE: { column: "pensionEmployee", pick: (line) => line.pensionEmployeeCents },
+  PENSION_EMPLOYER: { column: "pensionEmployer", pick: (line) => line.pensionEmployerCents },
+  OTHER_DEDUCTIONS: { column: "otherDeductions", pick: (line) => line.otherDeductionsCents }
+};
+
+// Employee IDs are compared ignoring case, spaces and punctuation, as in line matching.
+const collectEmployeeCategoryTotals = <T extends { rowNumber: number; employeeRef: string | null }>(
+  lines: T[],
+  amounts: (line: T) => Array<[category: string, amountCents: number | null]>
+): EmployeeCategoryTotals[] => {
+  const byKey = new Map<string, EmployeeCategoryTotals>();
+  for (const line of lines) {
+    const employeeKey = (line.employeeRef ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+    if (!employeeKey) {
+      continue;
+    }
+    const entry = byKey.get(employeeKey) ?? {
+      employeeKey,
+      employeeRef: line.employeeRef ?? employeeKey,
+      byCategory: {}
+    };
+    for (const [category, amountCents] of amounts(line)) {
+      if (amountCents === null) {
+        continue;
+      }
+      const total = entry.byCategory[category] ?? { totalCents: 0, rows: [] };
+      total.totalCents += amountCents;
+      total.rows.push({ rowNumber: line.rowNumber, amountCents });
+      entry.byCategory[category] = total;
+    }
+    byKey.set(employeeKey, entry);
+  }
+  return Array.from(byKey.values());
+};
+
 const collectPensionScheduleTotals = ({
-  parsed,
+  lines,
   columnMap
 }: {
-  parsed: ParsedImport;
+  lines: NormalizedPensionScheduleLine[];
   columnMap: ColumnMap;
 }): { total: TotalWithRows; missingReason?: string } => {
-  const totalColumn = columnMap.amount ?? null;
-  const employeeColumn = columnMap.pensionEmployee ?? null;
-  const employerColumn = columnMap.pensionEmployer ?? null;
-
-  if (!totalColumn && !employeeColumn && !employerColumn) {
+  if (!columnMap.amount && !columnMap.pensionEmployee && !columnMap.pensionEmployer) {
     return {
       total: { totalCents: 0, rows: [] },
       missingReason: "Pension schedule columns are not mapped."
     };
   }
 
-  if (totalColumn) {
-    return { total: collectColumnTotals(parsed, totalColumn) };
+  if (columnMap.amount) {
+    return { total: sumLines(lines, (line) => line.amountCents) };
   }
 
   return {
     total: combineTotals(
-      collectOptionalColumnTotals(parsed, employeeColumn),
-      collectOptionalColumnTotals(parsed, employerColumn)
+      sumLines(lines, (line) => line.pensionEmployeeCents),
+      sumLines(lines, (line) => line.pensionEmployerCents)
     )
   };
 };
 
+const collectEmployerCostsTotals = (lines: NormalizedRegisterLine[]) =>
+  combineTotals(
+    sumLines(lines, (line) => line.tax2Cents),
+    sumLines(lines, (line) => line.pensionEmployerCents)
+  );
+
+const loadPriorRegisterSnapshot = async (
+  context: ActorContext,
+  payRun: { id: string; clientId: string; periodEnd: Date }
+): Promise<PriorRegisterSnapshot | null> => {
+  const priorPayRun = await prisma.payRun.findFirst({
+    where: {
+      firmId: context.firmId,
+      clientId: payRun.clientId,
+      status: "LOCKED",
+      periodEnd: { lt: payRun.periodEnd }
+    },
+    orderBy: [{ periodEnd: "desc" }, { revision: "desc" }]
+  });
+  if (!priorPayRun) {
+    return null;
+  }
+
+  const priorRun = await prisma.reconciliationRun.findFirst({
+    where: { payRunId: priorPayRun.id, supersededAt: null },
+    orderBy: { runNumber: "desc" }
+  });
+  const lockedRegister = (
+    priorRun?.inputSummary as {
+      imports?: { REGISTER?: { importId?: string; datasetId?: string } };
+    } | null
+  )?.imports?.REGISTER;
+
+  const priorImport = await prisma.import.findFirst({
+    where: {
+      firmId: context.firmId,
+      payRunId: priorPayRun.id,
+      sourceType: "REGISTER",
+      ...(lockedRegister?.importId ? { id: lockedRegister.importId } : {})
+    },
+    include: { mappingTemplateVersion: true },
+    orderBy: { version: "desc" }
+  });
+  if (!priorImport?.mappingTemplateVersion) {
+    return null;
+  }
+
+  try {
+    // Prefer the dataset the locked run actually reconciled.
+    const datasetId =
+      lockedRegister?.importId === priorImport.id && lockedRegister.datasetId
+        ? lockedRegister.datasetId
+        : (await ensureNormalizedDataset(priorImport)).id;
+    const lines = await loadRegisterLines(datasetId);
+    const columnMap = priorImport.mappingTemplateVersion.columnMap as ColumnMap;
+    return {
+      reference: {
+        payRunId: priorPayRun.id,
+        periodLabel: priorPayRun.periodLabel,
+        registerImportId: priorImport.id
+      },
+      netTotals: sumLines(lines, (line) => line.netPayCents),
+      grossTotals: columnMap.grossPay
+        ? sumLines(lines, (line) => line.grossPayCents)
+        : null,
+      employerCostsTotals:
+        columnMap.tax2 || columnMap.pensionEmployer
+          ? collectEmployerCostsTotals(lines)
+          : null,
+      employees: collectRegisterEmployees(lines)
+    };
+  } catch (error) {
+    // Period variance is advisory; an unreadable prior import must not block reconciliation.
+    logWarn("RECONCILIATION_PRIOR_PERIOD_UNAVAILABLE", {
+      firmId: context.firmId,
+      payRunId: payRun.id,
+      importId: priorImport.id,
+      errorName: error instanceof Error ? error.name : "UnknownError"
+    });
+    return null;
+  }
+};
+
 type ImportWithTemplate = Awaited<
   ReturnType<typeof prisma.import.findMany>
 >[number] & { mappingTemplateVersion: MappingTemplate | null };
@@ -556,11 +486,56 @@ const ensureMappedImport = (
   return entry as ImportWithTemplate & { mappingTemplateVersion: MappingTemplate };
 };
 
+const loadCarryForwardPredecessors = async (
+  firmId: string,
+  payRunId: string
+): Promise<CarryForwardPredecessor[]> => {
+  const exceptions = await prisma.exception.findMany({
+    where: {
+      firmId,
+      payRunId,
+      supersededAt: null
+    },
+    include: {
+      checkResult: true
+    },
+    orderBy: { createdAt: "asc" }
+  });
+
+  return Promise.all(
+    exceptions.map(async (exception) => {
+      const evidence = (exception.evidence as EvidencePointer[] | null) ?? null;
+      const details = exception.checkResult.details as { deltaValue?: unknown } | null;
+      return {
+        id: exception.id,
+        status: exception.status,
+        assignedToUserId: exception.assignedToUserId,
+        resolutionNote: exception.resolutionNote,
+        resolvedByUserId: exception.resolvedByUserId,
+        resolvedAt: exception.resolvedAt,
+        // Exceptions raised before fingerprints were stored are fingerprinted here.
+        fingerprint:
+          exception.fingerprint ??
+          (await buildExceptionFingerprint({
+            checkType: exception.checkResult.checkType,
+            category: exception.category,
+            title: exception.title,
+            evidence
+          })),
+        deltaKey: buildExceptionDeltaKey({
+          deltaValue: typeof details?.deltaValue === "number" ? details.deltaValue : null,
+          evidence
+        })
+      };
+    })
+  );
+};
+
 export const runReconciliation = async (
   context: ActorContext,
   payRunId: string
 ) => {
-  requirePermission(context.role, "reconciliation:run");
+  requirePermission(context, "reconciliation:run");
 
   const payRun = await prisma.payRun.findFirst({
     where: {
@@ -576,6 +551,10 @@ export const runReconciliation = async (
   if (!payRun) {
     throw new NotFoundError("Pay run not found.");
   }
+  await assertClientAccess(context, payRun.clientId, {
+    entityType: "PAY_RUN",
+    entityId: payRun.id
+  });
 
   const accountClassifications = await prisma.accountClassification.findMany({
     where: {
@@ -597,7 +576,7 @@ export const runReconciliation = async (
       throw new ValidationError("Locked pay runs cannot be reconciled.");
     }
 
-    assertPayRunTransition(payRun.status, "RECONCILING", context.role);
+    assertPayRunTransition(payRun.status, "RECONCILING", context);
 
     const imports = await prisma.import.findMany({
       where: {
@@ -663,88 +642,58 @@ export const runReconciliation = async (
           })
         : null;
 
-    const parsedRegister = await buildParsedImport(
-      registerImport,
-      registerImport.mappingTemplateVersion,
-      { firmId: context.firmId }
-    );
-    const parsedBank = await buildParsedImport(
-      bankImport,
-      bankImport.mappingTemplateVersion,
-      { firmId: context.firmId }
-    );
-    const parsedGl = await buildParsedImport(
-      glImport,
-      glImport.mappingTemplateVersion,
-      { firmId: context.firmId }
-    );
-    const parsedStatutory = statutoryImport
-      ? await buildParsedImport(
-          statutoryImport,
-          statutoryImport.mappingTemplateVersion,
-          { firmId: context.firmId }
-        )
+    const registerDataset = await ensureNormalizedDataset(registerImport);
+    const bankDataset = await ensureNormalizedDataset(bankImport);
+    const glDataset = await ensureNormalizedDataset(glImport);
+    const statutoryDataset = statutoryImport
+      ? await ensureNormalizedDataset(statutoryImport)
       : null;
-    const parsedPensionSchedule = pensionScheduleImport
-      ? await buildParsedImport(
-          pensionScheduleImport,
-          pensionScheduleImport.mappingTemplateVersion,
-          { firmId: context.firmId }
-        )
+    const pensionScheduleDataset = pensionScheduleImport
+      ? await ensureNormalizedDataset(pensionScheduleImport)
       : null;
 
+    const registerLines = await loadRegisterLines(registerDataset.id);
+    const bankLines = await loadBankLines(bankDataset.id);
+    const glLines = await loadGlLines(glDataset.id);
+
     const registerColumnMap = registerImport.mappingTemplateVersion
       .columnMap as ColumnMap;
     const bankColumnMap = bankImport.mappingTemplateVersion
       .columnMap as ColumnMap;
     const glColumnMap = glImport.mappingTemplateVersion.columnMap as ColumnMap;
-    const statutoryColumnMap = statutoryImport
-      ? (statutoryImport.mappingTemplateVersion.columnMap as ColumnMap)
-      : null;
     const pensionScheduleColumnMap = pensionScheduleImport
       ? (pensionScheduleImport.mappingTemplateVersion.columnMap as ColumnMap)
       : null;
 
-    const registerTotals = collectColumnTotals(
-      parsedRegister,
-      registerColumnMap.netPay
-    );
-    const registerGrossTotals = collectOptionalColumnTotals(
-      parsedRegister,
-      registerColumnMap.grossPay
+    const registerTotals = sumLines(registerLines, (line) => line.netPayCents);
+    const registerGrossTotals = sumLines(registerLines, (line) => line.grossPayCents);
+    const registerTax1Totals = sumLines(registerLines, (line) => line.tax1Cents);
+    const registerTax2Totals = sumLines(registerLines, (line) => line.tax2Cents);
+    const registerTax3Totals = sumLines(registerLines, (line) => line.tax3Cents);
+    const registerPensionEmployeeTotals = sumLines(
+      registerLines,
+      (line) => line.pensionEmployeeCents
     );
-    const registerTax1Totals = collectColumnTotals(
-      parsedRegister,
-      registerColumnMap.tax1
+    const registerPensionEmployerTotals = sumLines(
+      registerLines,
+      (line) => line.pensionEmployerCents
     );
-    const registerTax2Totals = collectOptionalColumnTotals(
-      parsedRegister,
-      registerColumnMap.tax2
+    const registerOtherDeductionsTotals = sumLines(
+      registerLines,
+      (line) => line.otherDeductionsCents
     );
-    const registerTax3Totals = collectOptionalColumnTotals(
-      parsedRegister,
-      registerColumnMap.tax3
-    );
-    const registerPensionEmployeeTotals = collectOptionalColumnTotals(
-      parsedRegister,
-      registerColumnMap.pensionEmployee
-    );
-    const registerPensionEmployerTotals = collectOptionalColumnTotals(
-      parsedRegister,
-      registerColumnMap.pensionEmployer
-    );
-    const registerOtherDeductionsTotals = collectOptionalColumnTotals(
-      parsedRegister,
-      registerColumnMap.otherDeductions
-    );
-    const bankTotals = collectColumnTotals(parsedBank, bankColumnMap.amount);
-    const journalTotals = collectJournalTotals(parsedGl, glColumnMap);
-    const journalClassTotals = collectJournalClassTotals({
-      parsed: parsedGl,
-      columnMap: glColumnMap,
-      classifications: accountClassifications
-    });
-    const bankPayments = collectBankPayments(parsedBank, bankColumnMap);
+    const bankTotals = sumLines(bankLines, (line) => line.amountCents);
+    const journalTotals = {
+      debits: sumLines(glLines, (line) => line.debitCents),
+      credits: sumLines(glLines, (line) => line.creditCents)
+    };
+    const { totals: journalClassTotals, groups: journalClassGroups } =
+      collectJournalClassTotals({
+        lines: glLines,
+        columnMap: glColumnMap,
+        classifications: accountClassifications
+      });
+    const bankPayments = collectBankPayments(bankLines, bankColumnMap);
 
     const bundle = getBundleConfig(payRun.firm.region);
     const tolerances = resolveTolerances({
@@ -754,36 +703,15 @@ export const runReconciliation = async (
       payRunSettings: payRun.settings
     });
     const categoryLabels = buildStatutoryCategoryLabels(payRun.firm.region);
-    const rawCategoryMap =
-      (statutoryImport?.mappingTemplateVersion
-        .normalizationRules as { categoryMap?: Record<string, StatutoryCategoryKey | null> } | null)
-        ?.categoryMap ?? {};
-    const statutoryCategoryMap = Object.fromEntries(
-      Object.entries(rawCategoryMap)
-        .map(([key, value]) => [normalizeColumnName(key), value])
-        .filter(([key]) => Boolean(key))
-    ) as Record<string, StatutoryCategoryKey | null>;
+    const statutoryLines = statutoryDataset
+      ? await loadStatutoryLines(statutoryDataset.id)
+      : [];
     const { totals: statutoryTotalsByCategory, unmapped: unmappedCategories } =
-      statutoryImport && parsedStatutory && statutoryColumnMap
-        ? collectStatutoryTotals({
-            parsed: parsedStatutory,
-            columnMap: statutoryColumnMap,
-            categoryMap: statutoryCategoryMap
-          })
-        : {
-            totals: STATUTORY_CATEGORY_KEYS.reduce(
-              (acc, key) => {
-                acc[key] = { totalCents: 0, rows: [] };
-                return acc;
-              },
-              {} as Record<StatutoryCategoryKey, TotalWithRows>
-            ),
-            unmapped: []
-          };
+      collectStatutoryTotals(statutoryLines);
     const pensionScheduleTotalsResult =
-      pensionScheduleImport && parsedPensionSchedule && pensionScheduleColumnMap
+      pensionScheduleDataset && pensionScheduleColumnMap
         ? collectPensionScheduleTotals({
-            parsed: parsedPensionSchedule,
+            lines: await loadPensionScheduleLines(pensionScheduleDataset.id),
             columnMap: pensionScheduleColumnMap
           })
         : { total: { totalCents: 0, rows: [] } };
@@ -798,6 +726,10 @@ export const runReconciliation = async (
       OTHER_DEDUCTIONS: registerOtherDeductionsTotals
     };
 
+    const mappedRegisterCategories = STATUTORY_CATEGORY_KEYS.filter(
+      (key) => registerColumnMap[registerCategoryColumns[key].column]
+    );
+
     const registerTaxTotals = combineTotals(
       registerTax1Totals,
       registerTax2Totals,
@@ -826,7 +758,27 @@ export const runReconciliation = async (
       !registerColumnMap.tax2 && !registerColumnMap.pensionEmployer;
     const pensionMissing =
       !registerColumnMap.pensionEmployee && !registerColumnMap.pensionEmployer;
-    const pensionScheduleMissingReason = pensionScheduleTotalsResult.missingReason;
+
+    const groupByDepartment = (pick: (line: NormalizedRegisterLine) => number | null) =>
+      groupLines(registerLines, pick, (line) => line.department);
+    const registerTax2Groups = groupByDepartment((line) => line.tax2Cents);
+    const registerPensionEmployerGroups = groupByDepartment((line) => line.pensionEmployerCents);
+    const registerGroups = registerColumnMap.department
+      ? {
+          net: groupByDepartment((line) => line.netPayCents),
+          gross: grossMissing ? null : groupByDepartment((line) => line.grossPayCents),
+          tax: combineGroups(
+            groupByDepartment((line) => line.tax1Cents),
+            registerTax2Groups,
+            groupByDepartment((line) => line.tax3Cents)
+          ),
+          employerCosts: combineGroups(registerTax2Groups, registerPensionEmployerGroups),
+          pension: combineGroups(
+            groupByDepartment((line) => line.pensionEmployeeCents),
+            registerPensionEmployerGroups
+          )
+        }
+      : null;
 
     const expectedVariances = await prisma.expectedVariance.findMany({
       where: {
@@ -837,150 +789,83 @@ export const runReconciliation = async (
       orderBy: { createdAt: "asc" }
     });
 
-    const pensionScheduleSkipReason = pensionMissing
-      ? "Register pension columns are not mapped."
-      : pensionScheduleMissingReason;
-
-    const evaluations: CheckEvaluation[] = [
-      evaluateRegisterNetToBankTotal({
-        register: registerTotals,
-        bank: bankTotals,
+    const checkInputs: CheckInputs = {
+      imports: {
         registerImportId: registerImport.id,
         bankImportId: bankImport.id,
-        tolerance: tolerances.registerNetToBank
-      }),
-      evaluateJournalDebitsEqualCredits({
-        debits: journalTotals.debits,
-        credits: journalTotals.credits,
         glImportId: glImport.id,
-        tolerance: tolerances.journalBalance
-      }),
-      evaluateRegisterDeductionsToStatutoryTotals({
-        registerTotalsByCategory,
-        statutoryTotalsByCategory,
-        registerImportId: registerImport.id,
         statutoryImportId: statutoryImport?.id ?? null,
-        tolerance: tolerances.statutoryTotals,
-        categoryLabels,
-        unmappedCategories
-      }),
-      evaluateRegisterPensionToScheduleTotal({
-        registerTotal: registerPensionTotals,
-        scheduleTotal: pensionScheduleTotals,
-        registerImportId: registerImport.id,
-        scheduleImportId: pensionScheduleImport?.id ?? null,
-        tolerance: tolerances.statutoryTotals,
-        missingReason: pensionScheduleSkipReason
-      }),
-      evaluateRegisterToJournalTotal({
-        checkType: "CHK_REGISTER_GROSS_TO_JOURNAL_EXPENSE",
-        registerTotal: registerGrossTotals,
-        journalTotal: journalClassTotals.EXPENSE,
-        registerImportId: registerImport.id,
-        journalImportId: glImport.id,
-        tolerance: tolerances.journalTieOut,
-        leftLabel: "Register gross total",
-        rightLabel: "Journal payroll expense total",
-        missingReason: classificationMissing
-          ? "Account classifications are required to reconcile journal totals."
-          : grossMissing
-            ? "Register gross pay is not mapped."
-            : undefined
-      }),
-      evaluateRegisterToJournalTotal({
-        checkType: "CHK_REGISTER_EMPLOYER_COSTS_TO_JOURNAL_EXPENSE",
-        registerTotal: registerEmployerCostsTotals,
-        journalTotal: journalEmployerCostsTotals,
-        registerImportId: registerImport.id,
-        journalImportId: glImport.id,
-        tolerance: tolerances.journalTieOut,
-        leftLabel: "Register employer costs total",
-        rightLabel: "Journal employer costs total",
-        missingReason: classificationMissing
-          ? "Account classifications are required to reconcile journal totals."
-          : employerCostsMissing
-            ? "Register employer cost columns are not mapped."
-            : undefined
-      }),
-      evaluateRegisterToJournalTotal({
-        checkType: "CHK_REGISTER_NET_PAY_TO_JOURNAL_LIABILITY",
-        registerTotal: registerTotals,
-        journalTotal: journalClassTotals.NET_PAYABLE,
-        registerImportId: registerImport.id,
-        journalImportId: glImport.id,
-        tolerance: tolerances.journalTieOut,
-        leftLabel: "Register net pay total",
-        rightLabel: "Journal net wages liability",
-        missingReason: classificationMissing
-          ? "Account classifications are required to reconcile journal totals."
-          : undefined
-      }),
-      evaluateRegisterToJournalTotal({
-        checkType: "CHK_REGISTER_TAX_TO_JOURNAL_LIABILITY",
-        registerTotal: registerTaxTotals,
-        journalTotal: journalTaxTotals,
-        registerImportId: registerImport.id,
-        journalImportId: glImport.id,
-        tolerance: tolerances.journalTieOut,
-        leftLabel: "Register tax liabilities total",
-        rightLabel: "Journal tax liabilities total",
-        missingReason: classificationMissing
-          ? "Account classifications are required to reconcile journal totals."
-          : undefined
-      }),
-      evaluateRegisterToJournalTotal({
-        checkType: "CHK_REGISTER_PENSION_TO_JOURNAL_LIABILITY",
-        registerTotal: registerPensionTotals,
-        journalTotal: journalClassTotals.PENSION_PAYABLE,
-        registerImportId: registerImport.id,
-        journalImportId: glImport.id,
-        tolerance: tolerances.journalTieOut,
-        leftLabel: "Register pension liabilities total",
-        rightLabel: "Journal pension liability total",
-        missingReason: classificationMissing
-          ? "Account classifications are required to reconcile journal totals."
-          : pensionMissing
-            ? "Register pension columns are not mapped."
-            : undefined
-      }),
-      evaluateBankDuplicatePayments({
-        duplicateRows: (() => {
-          const duplicates: TotalWithRows["rows"] = [];
-          const seen = new Map<string, TotalWithRows["rows"]>();
-          for (const payment of bankPayments) {
-            const key = `${payment.payeeKey}|${payment.amountCents}|${payment.reference}`;
-            const bucket = seen.get(key) ?? [];
-            bucket.push({
-              rowNumber: payment.rowNumber,
-              amountCents: Math.abs(payment.amountCents)
-            });
-            seen.set(key, bucket);
-          }
-          for (const bucket of seen.values()) {
-            if (bucket.length > 1) {
-              duplicates.push(...bucket);
+        pensionScheduleImportId: pensionScheduleImport?.id ?? null
+      },
+      register: {
+        net: registerTotals,
+        gross: registerGrossTotals,
+        tax: registerTaxTotals,
+        employerCosts: registerEmployerCostsTotals,
+        pension: registerPensionTotals,
+        byCategory: registerTotalsByCategory,
+        mappedCategories: mappedRegisterCategories,
+        employeeDeductions: collectEmployeeCategoryTotals(registerLines, (line) =>
+          mappedRegisterCategories.map((key) => [key, registerCategoryColumns[key].pick(line)])
+        ),
+        employees: collectRegisterEmployees(registerLines),
+        groups: registerGroups,
+        grossMissing,
+        employerCostsMissing,
+        pensionMissing
+      },
+      journal: {
+        debits: journalTotals.debits,
+        credits: journalTotals.credits,
+        expense: journalClassTotals.EXPENSE,
+        employerCosts: journalEmployerCostsTotals,
+        netPayable: journalClassTotals.NET_PAYABLE,
+        tax: journalTaxTotals,
+        pensionPayable: journalClassTotals.PENSION_PAYABLE,
+        groups: journalClassGroups
+          ? {
+              expense: journalClassGroups.EXPENSE,
+              employerCosts: combineGroups(
+                journalClassGroups.NI_PRSI_PAYABLE,
+                journalClassGroups.PENSION_PAYABLE
+              ),
+              netPayable: journalClassGroups.NET_PAYABLE,
+              tax: combineGroups(
+                journalClassGroups.TAX_PAYABLE,
+                journalClassGroups.NI_PRSI_PAYABLE
+              ),
+              pensionPayable: journalClassGroups.PENSION_PAYABLE
             }
-          }
-          return duplicates;
-        })(),
-        bankImportId: bankImport.id
-      }),
-      evaluateBankNegativePayments({
-        negativeRows: bankPayments
-          .filter((payment) => payment.amountCents <= 0)
-          .map((payment) => ({
-            rowNumber: payment.rowNumber,
-            amountCents: Math.abs(payment.amountCents)
-          })),
-        bankImportId: bankImport.id
-      }),
-      evaluateBankPaymentCountMismatch({
-        registerCount: registerTotals.rows.filter((row) => row.amountCents > 0)
-          .length,
-        bankCount: bankPayments.filter((payment) => payment.amountCents > 0).length,
-        tolerancePercent: tolerances.bankCountMismatchPercent
-      })
-    ].map((evaluation) =>
+          : null,
+        classificationMissing
+      },
+      bank: {
+        totals: bankTotals,
+        payments: bankPayments,
+        fileControls: readSepaControls(bankImport.parseSummary)
+      },
+      statutory: {
+        totalsByCategory: statutoryTotalsByCategory,
+        categoryLabels,
+        unmappedCategories,
+        employees: collectEmployeeCategoryTotals(statutoryLines, (line) =>
+          line.categoryKey ? [[line.categoryKey, line.amountCents]] : []
+        )
+      },
+      pensionSchedule: {
+        totals: pensionScheduleTotals,
+        skipReason: pensionScheduleTotalsResult.missingReason
+      },
+      priorRegister: await loadPriorRegisterSnapshot(context, payRun),
+      lineMatchingEnabled: resolveLineMatchingEnabled(payRun.client.settings)
+    };
+
+    const evaluations = runCheckBundle({
+      bundle,
+      inputs: checkInputs,
+      tolerances,
+      settings: resolveClientCheckSettings(payRun.client.settings)
+    }).map((evaluation) =>
       applyExpectedVariances({
         evaluation,
         expectedVariances,
@@ -1002,24 +887,28 @@ export const runReconciliation = async (
         REGISTER: {
           importId: registerImport.id,
           version: registerImport.version,
-          templateId: registerImport.mappingTemplateVersionId
+          templateId: registerImport.mappingTemplateVersionId,
+          datasetId: registerDataset.id
         },
         BANK: {
           importId: bankImport.id,
           version: bankImport.version,
-          templateId: bankImport.mappingTemplateVersionId
+          templateId: bankImport.mappingTemplateVersionId,
+          datasetId: bankDataset.id
         },
         GL: {
           importId: glImport.id,
           version: glImport.version,
-          templateId: glImport.mappingTemplateVersionId
+          templateId: glImport.mappingTemplateVersionId,
+          datasetId: glDataset.id
         },
         ...(statutoryImport
           ? {
               STATUTORY: {
                 importId: statutoryImport.id,
                 version: statutoryImport.version,
-                templateId: statutoryImport.mappingTemplateVersionId
+                templateId: statutoryImport.mappingTemplateVersionId,
+                datasetId: statutoryDataset?.id ?? null
               }
             }
           : {}),
@@ -1028,7 +917,8 @@ export const runReconciliation = async (
               PENSION_SCHEDULE: {
                 importId: pensionScheduleImport.id,
                 version: pensionScheduleImport.version,
-                templateId: pensionScheduleImport.mappingTemplateVersionId
+                templateId: pensionScheduleImport.mappingTemplateVersionId,
+                datasetId: pensionScheduleDataset?.id ?? null
               }
             }
           : {})
@@ -1039,7 +929,9 @@ export const runReconciliation = async (
       {
         firmId: context.firmId,
         userId: context.userId,
-        role: context.role
+        role: context.role,
+        permissions: context.permissions,
+        clientIds: context.clientIds
       },
       payRun.id,
       "RECONCILING"
@@ -1060,11 +952,45 @@ export const runReconciliation = async (
       }
     );
 
+    const exceptionDrafts = await Promise.all(
+      evaluations.flatMap((evaluation) =>
+        listEvaluationExceptions(evaluation).map(async (draft) => ({
+          draft,
+          fingerprint: await buildExceptionFingerprint({
+            checkType: evaluation.checkType,
+            category: draft.category,
+            title: draft.title,
+            evidence: draft.evidence
+          }),
+          deltaKey: buildExceptionDeltaKey({
+            deltaValue: evaluation.details.deltaValue,
+            evidence: draft.evidence
+          })
+        }))
+      )
+    );
+    const carryForwardMatches = matchExceptionPredecessors(
+      exceptionDrafts,
+      await loadCarryForwardPredecessors(context.firmId, payRun.id)
+    );
+    const draftCarryForward = new Map<
+      CheckException,
+      { fingerprint: string; match: CarryForwardMatch | null }
+    >(
+      exceptionDrafts.map((entry, index) => [
+        entry.draft,
+        { fingerprint: entry.fingerprint, match: carryForwardMatches[index] ?? null }
+      ])
+    );
+
     const supersededAt = new Date();
     const createdExceptions: Array<{
       id: string;
       checkType: string;
       severity: string;
+      previousExceptionId: string | null;
+      status: string;
+      deltaChanged: boolean;
     }> = [];
     const run = await prisma.reconciliationRun.create({
       data: {
@@ -1123,24 +1049,34 @@ export const runReconciliation = async (
           }
         });
 
-        if (evaluation.exception) {
+        for (const draft of listEvaluationExceptions(evaluation)) {
+          const severity = draft.severity ?? evaluation.severity;
+          const carryForward = draftCarryForward.get(draft);
           const exception = await tx.exception.create({
             data: {
               firmId: context.firmId,
               payRunId: payRun.id,
               reconciliationRunId: run.id,
               checkResultId: checkResult.id,
-              category: evaluation.exception.category,
-              severity: evaluation.severity,
-              title: evaluation.exception.title,
-              description: evaluation.exception.description,
-              evidence: evaluation.exception.evidence ?? undefined
+              category: draft.category,
+              severity,
+              title: draft.title,
+              description: draft.description,
+              evidence: draft.evidence ?? undefined,
+              fingerprint: carryForward?.fingerprint,
+              ...(carryForward?.match ? buildCarryForwardFields(carryForward.match) : {})
             }
           });
+          if (carryForward?.match && !carryForward.match.deltaChanged) {
+            await copyExceptionAttachments(tx, carryForward.match.predecessor.id, exception.id);
+          }
           createdExceptions.push({
             id: exception.id,
             checkType: evaluation.checkType,
-            severity: evaluation.severity
+            severity,
+            previousExceptionId: exception.previousExceptionId,
+            status: exception.status,
+            deltaChanged: carryForward?.match?.deltaChanged ?? false
           });
         }
       }
@@ -1181,7 +1117,14 @@ export const runReconciliation = async (
           metadata: {
             payRunId: payRun.id,
             checkType: exception.checkType,
-            severity: exception.severity
+            severity: exception.severity,
+            ...(exception.previousExceptionId
+              ? {
+                  previousExceptionId: exception.previousExceptionId,
+                  carriedStatus: exception.status,
+                  deltaChanged: exception.deltaChanged
+                }
+              : {})
           }
         },
         {
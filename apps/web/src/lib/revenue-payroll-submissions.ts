@@ -0,0 +1,212 @@
+import { ImportParseError } from "./errors";
+import type { StatutoryCategoryKey } from "./normalized-datasets";
+import { parseStatutoryAmount, type StatutoryEntry } from "./statutory-files";
+import { parseXml, type XmlElement } from "./xml-reader";
+
+// Irish Revenue PAYE Modernisation payroll submissions, and the payslip and
+// statement exports ROS and payroll software produce from them. Every payslip
+// carries the employee's PPSN and the income tax, USC, PRSI and LPT deducted.
+// The same fields appear as JSON properties, XML elements or CSV columns, so
+// they are matched by name ignoring case, spaces and punctuation.
+
+export type RevenueSubmissionFormat = "JSON" | "XML";
+
+type Payslip = Map<string, string>;
+
+const payslipAmounts: Array<{
+  names: string[];
+  category: string;
+  categoryKey: StatutoryCategoryKey | null;
+}> = [
+  {
+    names: ["incometaxpaid", "incometax", "paye"],
+    category: "Income tax",
+    categoryKey: "TAX_PRIMARY"
+  },
+  { names: ["uscpaid", "uscdeducted", "usc"], category: "USC", categoryKey: "TAX_PRIMARY" },
+  {
+    names: ["employeeprsipaid", "employeeprsi", "eeprsi"],
+    category: "Employee PRSI",
+    categoryKey: "TAX_SECONDARY"
+  },
+  // Employer PRSI is a cost to the employer, not a deduction on the register.
+  {
+    names: ["employerprsipaid", "employerprsi", "erprsi"],
+    category: "Employer PRSI",
+    categoryKey: null
+  },
+  {
+    names: ["lptdeducted", "lpt", "localpropertytax"],
+    category: "Local Property Tax",
+    categoryKey: "TAX_OTHER"
+  }
+];
+
+const ppsnNames = ["employeeppsn", "ppsn", "ppsno", "ppsnumber"];
+
+const fieldKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const fail = (reason: string): never => {
+  throw new ImportParseError(`Invalid Revenue payroll file. ${reason}`);
+};
+
+const readField = (payslip: Payslip, ...names: string[]) => {
+  for (const name of names) {
+    const value = payslip.get(name)?.trim();
+    if (value && value !== "-") {
+      return value;
+    }
+  }
+  return null;
+};
+
+const payslipEntries = (payslip: Payslip, label: string): StatutoryEntry[] => {
+  const name = [
+    readField(payslip, "firstname", "forename"),
+    readField(payslip, "familyname", "surname", "lastname")
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const ppsn = readField(payslip, ...ppsnNames);
+  const base = {
+    employee: name || readField(payslip, "employeename", "name"),
+    employeeRef: ppsn ? ppsn.replace(/\s+/g, "").toUpperCase() : null,
+    payrollId: readField(payslip, "employmentid"),
+    period: readField(payslip, "paydate", "payperiod", "period")
+  };
+
+  return payslipAmounts.flatMap(({ names, category, categoryKey }) => {
+    const value = readField(payslip, ...names);
+    if (value === null) {
+      return [];
+    }
+    const cents = parseStatutoryAmount(value);
+    if (cents === null) {
+      return fail(`${label} ${category} "${value}" is not an amount.`);
+    }
+    return cents === 0 ? [] : [{ ...base, category, categoryKey, amountCents: cents }];
+  });
+};
+
+// Nested objects (employeeID, name, prsiClassDetails) are flattened; the first
+// value seen for a field wins.
+const flattenJson = (value: unknown, payslip: Payslip = new Map(), name = ""): Payslip => {
+  if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flattenJson(child, payslip, key);
+    }
+  } else if (value !== null && value !== undefined && !payslip.has(fieldKey(name))) {
+    payslip.set(fieldKey(name), String(value));
+  }
+  return payslip;
+};
+
+const flattenXml = (element: XmlElement, payslip: Payslip = new Map()): Payslip => {
+  if (element.children.length === 0) {
+    if (!payslip.has(fieldKey(element.name))) {
+      payslip.set(fieldKey(element.name), element.text.trim());
+    }
+  }
+  element.children.forEach((child) => flattenXml(child, payslip));
+  return payslip;
+};
+
+const findJsonPayslips = (value: unknown): unknown[] | null => {
+  if (value === null || typeof value !== "object") {
+    return null;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (fieldKey(key) === "payslips" && Array.isArray(child)) {
+      return child;
+    }
+    const nested = findJsonPayslips(child);
+    if (nested) {
+      return nested;
+    }
+  }
+  return null;
+};
+
+const findXmlPayslips = (element: XmlElement): XmlElement[] =>
+  fieldKey(element.name) === "payslip"
+    ? [element]
+    : element.children.flatMap((child) => findXmlPayslips(child));
+
+/** Whether the start of the file looks like a Revenue payroll submission, and in which format. */
+export const detectRevenuePayrollSubmission = (
+  buffer: Buffer
+): RevenueSubmissionFormat | null => {
+  const head = buffer.subarray(0, 16 * 1024).toString("utf8").replace(/^\uFEFF/, "").trimStart();
+  if (/^[{[]/.test(head) && /"payslips"\s*:/i.test(head)) {
+    return "JSON";
+  }
+  if (head.startsWith("<") && /<(?:[\w.-]+:)?payslip[\s>]/i.test(head)) {
+    return "XML";
+  }
+  return null;
+};
+
+/**
+ * Reads a payroll submission (JSON as sent to the Revenue API, or XML) into
+ * statutory entries, one per payslip and amount.
+ */
+export const parseRevenuePayrollSubmission = (text: string): StatutoryEntry[] => {
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+  let payslips: Payslip[];
+  if (trimmed.startsWith("<")) {
+    payslips = findXmlPayslips(parseXml(trimmed).root).map((element) => flattenXml(element));
+  } else {
+    let document: unknown;
+    try {
+      document = JSON.parse(trimmed);
+    } catch {
+      return fail("The JSON could not be read.");
+    }
+    payslips = (findJsonPayslips(document) ?? []).map((payslip) => flattenJson(payslip));
+  }
+
+  if (payslips.length === 0) {
+    return fail("No payslips were found.");
+  }
+  const entries = payslips.flatMap((payslip, index) =>
+    payslipEntries(payslip, `Payslip ${index + 1}`)
+  );
+  if (entries.length === 0) {
+    fail("The payslips report no amounts to import.");
+  }
+  return entries;
+};
+
+/**
+ * Reads a payslip export table into statutory entries, or returns null when
+ * the rows have no income tax, USC and PRSI columns. The PPSN column is
+ * optional; total rows are skipped.
+ */
+export const parseRevenuePayrollRows = (rows: string[][]): StatutoryEntry[] | null => {
+  const headerIndex = rows.slice(0, 10).findIndex((row) => {
+    const keys = new Set(row.map((value) => fieldKey(String(value ?? ""))));
+    const [incomeTax, usc, employeePrsi] = payslipAmounts;
+    return [incomeTax, usc, employeePrsi].every((amount) =>
+      amount?.names.some((name) => keys.has(name))
+    );
+  });
+  const header = rows[headerIndex];
+  if (headerIndex < 0 || !header) {
+    return null;
+  }
+
+  const keys = header.map((value) => fieldKey(String(value ?? "")));
+  return rows.slice(headerIndex + 1).flatMap((row, index) => {
+    const firstCell = row.find((value) => String(value ?? "").trim())?.trim() ?? "";
+    if (/^(grand )?totals?\b/i.test(firstCell)) {
+      return [];
+    }
+    const payslip: Payslip = new Map();
+    keys.forEach((key, column) => {
+      if (key && !payslip.has(key)) {
+        payslip.set(key, String(row[column] ?? ""));
+      }
+    });
+    return payslipEntries(payslip, `Row ${headerIndex + index + 2}`);
+  });
+};
@@ -0,0 +1,284 @@
+import "server-only";
+
+import { prisma, type Role } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import { isPermission, resolveUserPermissions, type Permission } from "./permissions";
+import { revokeUserSessions } from "./user-sessions";
+
+export type FirmRoleInput = {
+  name: string;
+  description?: string | null;
+  permissions: string[];
+};
+
+export type RoleAssignment = {
+  role: Role;
+  firmRoleId: string | null;
+};
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+type ProposedRoleChange = {
+  disabledUserId?: string;
+  userId?: string;
+  assignment?: RoleAssignment;
+  firmRoleId?: string;
+  permissions?: Permission[];
+};
+
+const MAX_ROLE_NAME_LENGTH = 60;
+
+const normalizeRoleInput = (input: FirmRoleInput) => {
+  const name = input.name.trim();
+  if (!name || name.length > MAX_ROLE_NAME_LENGTH) {
+    throw new ValidationError(`Role names must be 1-${MAX_ROLE_NAME_LENGTH} characters.`);
+  }
+  const permissions = Array.from(new Set(input.permissions.filter(isPermission)));
+  if (permissions.length === 0) {
+    throw new ValidationError("Select at least one permission.");
+  }
+  return {
+    name,
+    description: input.description?.trim() || null,
+    permissions
+  };
+};
+
+const rethrowDuplicateName = (error: unknown): never => {
+  if (error instanceof Error && "code" in error && error.code === "P2002") {
+    throw new ConflictError("A role with this name already exists.");
+  }
+  throw error;
+};
+
+/**
+ * Rejects a change that would leave no active user able to manage the firm,
+ * since nobody could then undo it.
+ */
+export const assertFirmKeepsManager = async (firmId: string, change: ProposedRoleChange) => {
+  const [users, roles] = await Promise.all([
+    prisma.user.findMany({
+      where: { firmId, status: "ACTIVE" },
+      select: { id: true, role: true, firmRoleId: true }
+    }),
+    prisma.firmRole.findMany({
+      where: { firmId },
+      select: { id: true, permissions: true }
+    })
+  ]);
+  const rolePermissions = new Map(roles.map((role) => [role.id, role.permissions]));
+  if (change.firmRoleId && change.permissions) {
+    rolePermissions.set(change.firmRoleId, change.permissions);
+  }
+
+  const hasManager = users.some((user) => {
+    if (user.id === change.disabledUserId) {
+      return false;
+    }
+    const assignment =
+      change.userId === user.id && change.assignment
+        ? change.assignment
+        : { role: user.role, firmRoleId: user.firmRoleId };
+    const permissions = assignment.firmRoleId
+      ? rolePermissions.get(assignment.firmRoleId)
+      : null;
+    return resolveUserPermissions({
+      role: assignment.role,
+      firmRole: permissions ? { permissions } : null
+    }).includes("firm:manage");
+  });
+
+  if (!hasManager) {
+    throw new ValidationError("At least one active user must keep the firm:manage permission.");
+  }
+};
+
+export const listFirmRoles = (firmId: string) =>
+  prisma.firmRole.findMany({
+    where: { firmId },
+    include: { _count: { select: { users: true } } },
+    orderBy: { name: "asc" }
+  });
+
+export const createFirmRole = async (context: ActorContext, input: FirmRoleInput) => {
+  const normalized = normalizeRoleInput(input);
+
+  const role = await prisma.firmRole
+    .create({ data: { firmId: context.firmId, ...normalized } })
+    .catch(rethrowDuplicateName);
+
+  await recordAuditEvent(
+    {
+      action: "ROLE_CREATED",
+      entityType: "ROLE",
+      entityId: role.id,
+      metadata: { permissions: role.permissions.join(",") }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return role;
+};
+
+export const updateFirmRole = async (
+  context: ActorContext,
+  roleId: string,
+  input: FirmRoleInput
+) => {
+  const existing = await prisma.firmRole.findFirst({
+    where: { id: roleId, firmId: context.firmId }
+  });
+  if (!existing) {
+    throw new NotFoundError("Role not found.");
+  }
+
+  const normalized = normalizeRoleInput(input);
+  await assertFirmKeepsManager(context.firmId, {
+    firmRoleId: existing.id,
+    permissions: normalized.permissions
+  });
+
+  const role = await prisma.firmRole
+    .update({ where: { id: existing.id }, data: normalized })
+    .catch(rethrowDuplicateName);
+
+  await recordAuditEvent(
+    {
+      action: "ROLE_UPDATED",
+      entityType: "ROLE",
+      entityId: role.id,
+      metadata: {
+        added: role.permissions.filter((key) => !existing.permissions.includes(key)).join(","),
+        removed: existing.permissions.filter((key) => !role.permissions.includes(key)).join(",")
+      }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return role;
+};
+
+export const deleteFirmRole = async (context: ActorContext, roleId: string) => {
+  const existing = await prisma.firmRole.findFirst({
+    where: { id: roleId, firmId: context.firmId },
+    include: { _count: { select: { users: true } } }
+  });
+  if (!existing) {
+    throw new NotFoundError("Role not found.");
+  }
+  if (existing._count.users > 0) {
+    throw new ValidationError("Reassign this role's users before deleting it.");
+  }
+
+  await prisma.firmRole.delete({ where: { id: existing.id } });
+  await recordAuditEvent(
+    {
+      action: "ROLE_DELETED",
+      entityType: "ROLE",
+      entityId: existing.id,
+      metadata: { permissions: existing.permissions.join(",") }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+};
+
+/**
+ * Sets a user's built-in role, or a firm-defined role that replaces it. Users
+ * cannot change their own role or grant permissions they do not hold, and only
+ * firm managers can grant or take away ADMIN or `firm:manage`.
+ */
+export const assignUserRole = async (
+  context: ActorContext,
+  userId: string,
+  assignment: RoleAssignment
+) => {
+  const [actor, target] = await Promise.all([
+    prisma.user.findFirst({
+      where: { id: context.userId, firmId: context.firmId },
+      include: { firmRole: { select: { permissions: true } } }
+    }),
+    prisma.user.findFirst({
+      where: { id: userId, firmId: context.firmId },
+      include: { firmRole: { select: { permissions: true } } }
+    })
+  ]);
+  if (!actor || !target) {
+    throw new NotFoundError("User not found.");
+  }
+  const firmRole = assignment.firmRoleId
+    ? await prisma.firmRole.findFirst({
+        where: { id: assignment.firmRoleId, firmId: context.firmId }
+      })
+    : null;
+  if (assignment.firmRoleId && !firmRole) {
+    throw new NotFoundError("Role not found.");
+  }
+  if (target.role === assignment.role && target.firmRoleId === assignment.firmRoleId) {
+    return target;
+  }
+  if (target.id === actor.id) {
+    throw new ValidationError("You cannot change your own role.");
+  }
+
+  const actorPermissions = resolveUserPermissions(actor);
+  const currentPermissions = resolveUserPermissions(target);
+  const grantedPermissions = resolveUserPermissions({ role: assignment.role, firmRole });
+  const beyondActor = grantedPermissions.filter(
+    (permission) => !actorPermissions.includes(permission)
+  );
+  if (beyondActor.length > 0) {
+    throw new ValidationError(
+      `You cannot grant permissions you do not hold: ${beyondActor.join(", ")}.`
+    );
+  }
+  const changesManager =
+    (assignment.role !== target.role && [assignment.role, target.role].includes("ADMIN")) ||
+    currentPermissions.includes("firm:manage") ||
+    grantedPermissions.includes("firm:manage");
+  if (changesManager && !actorPermissions.includes("firm:manage")) {
+    throw new ValidationError("Only users with firm:manage can grant or remove ADMIN.");
+  }
+
+  await assertFirmKeepsManager(context.firmId, { userId: target.id, assignment });
+
+  const updated = await prisma.user.update({
+    where: { id: target.id },
+    data: { role: assignment.role, firmRoleId: assignment.firmRoleId }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "USER_ROLE_CHANGED",
+      entityType: "USER",
+      entityId: target.id,
+      metadata: {
+        from: target.role,
+        to: updated.role,
+        fromFirmRoleId: target.firmRoleId ?? undefined,
+        toFirmRoleId: updated.firmRoleId ?? undefined
+      }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  // Open sessions were granted under the old role; the user signs in again.
+  await revokeUserSessions(context, target.id, "ROLE_CHANGED");
+
+  return updated;
+};
+
+/** Active users whose effective permissions include `permission`, e.g. possible reviewers. */
+export const listUsersWithPermission = async (firmId: string, permission: Permission) => {
+  const users = await prisma.user.findMany({
+    where: { firmId, status: "ACTIVE" },
+    include: { firmRole: { select: { permissions: true } } },
+    orderBy: { email: "asc" }
+  });
+  return users
+    .filter((user) => resolveUserPermissions(user).includes(permission))
+    .map((user) => ({ id: user.id, email: user.email, role: user.role }));
+};
@@ -0,0 +1,205 @@
+import { ImportParseError } from "./errors";
+import type { StatutoryCategoryKey } from "./normalized-datasets";
+import { parseStatutoryAmount, type StatutoryEntry } from "./statutory-files";
+import {
+  childElements,
+  elementText,
+  findDescendant,
+  findElement,
+  parseXml,
+  type XmlElement
+} from "./xml-reader";
+
+// HMRC RTI submissions, with or without their GovTalk envelope. A Full Payment
+// Submission holds each employee's payment for the period; an Employer Payment
+// Summary holds the employer's year-to-date recoveries and Apprenticeship Levy.
+
+export type RtiSubmissionKind = "FPS" | "EPS";
+
+const rtiNamespacePrefix = "http://www.govtalk.gov.uk/taxation/PAYE/RTI/";
+const submissionElements: Record<RtiSubmissionKind, string> = {
+  FPS: "FullPaymentSubmission",
+  EPS: "EmployerPaymentSummary"
+};
+
+/** Which submission the start of the file declares, if it is an RTI submission at all. */
+export const detectRtiSubmission = (buffer: Buffer): RtiSubmissionKind | null => {
+  const head = buffer.subarray(0, 16 * 1024).toString("utf8");
+  if (!head.trimStart().startsWith("<")) {
+    return null;
+  }
+  for (const [kind, element] of Object.entries(submissionElements)) {
+    if (head.includes(`${rtiNamespacePrefix}${element}/`) || head.includes(`<${element}>`)) {
+      return kind as RtiSubmissionKind;
+    }
+  }
+  return null;
+};
+
+const fail = (reason: string): never => {
+  throw new ImportParseError(`Invalid RTI file. ${reason}`);
+};
+
+const readAmount = (element: XmlElement | undefined, name: string) => {
+  const value = elementText(element, name);
+  if (value === null) {
+    return 0;
+  }
+  const cents = parseStatutoryAmount(value);
+  return cents === null ? fail(`${name} "${value}" is not an amount.`) : cents;
+};
+
+const employeeName = (employee: XmlElement) => {
+  const name = findElement(employee, "EmployeeDetails", "Name");
+  const parts = [
+    ...childElements(name, "Fore").map((fore) => fore.text.trim()),
+    elementText(name, "Sur")
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : null;
+};
+
+const paymentPeriod = (payment: XmlElement | undefined) => {
+  const month = elementText(payment, "MonthNo");
+  const week = elementText(payment, "WeekNo");
+  if (month) {
+    return `Month ${month}`;
+  }
+  return week ? `Week ${week}` : elementText(payment, "PmtDate");
+};
+
+const readFullPaymentSubmission = (submission: XmlElement) => {
+  const entries: StatutoryEntry[] = [];
+
+  for (const employee of childElements(submission, "Employee")) {
+    const employments = childElements(employee, "Employment");
+    // Older schemas keep NI figures on the employee rather than the employment.
+    const employeeNi = childElements(employee, "NIlettersAndValues");
+
+    employments.forEach((employment, index) => {
+      const payment = findElement(employment, "Payment");
+      const base = {
+        employee: employeeName(employee),
+        employeeRef: elementText(employee, "EmployeeDetails", "NINO"),
+        payrollId: elementText(employment, "PayId"),
+        period: paymentPeriod(payment)
+      };
+      const add = (
+        category: string,
+        categoryKey: StatutoryCategoryKey | null,
+        cents: number
+      ) => {
+        if (cents !== 0) {
+          entries.push({ ...base, category, categoryKey, amountCents: cents });
+        }
+      };
+
+      const ni = [
+        ...childElements(employment, "NIlettersAndValues"),
+        ...(index === 0 ? employeeNi : [])
+      ];
+      const employeeNic = ni.reduce(
+        (sum, entry) => sum + readAmount(entry, "EmpeeContribnsInPd"),
+        0
+      );
+      const employerNic = ni.reduce((sum, entry) => sum + readAmount(entry, "TotalEmpNICInPd"), 0);
+
+      add("PAYE income tax", "TAX_PRIMARY", readAmount(payment, "TaxDeductedOrRefunded"));
+      add("Employee NIC", "TAX_SECONDARY", employeeNic);
+      add("Employer NIC", null, employerNic);
+      add(
+        "Employee pension contributions",
+        "PENSION_EMPLOYEE",
+        readAmount(payment, "EmpeePenContribnsPaid") +
+          readAmount(payment, "EmpeePenContribnsNotPaid")
+      );
+      add(
+        "Student loan deductions",
+        "OTHER_DEDUCTIONS",
+        readAmount(payment, "StudentLoanRecovered")
+      );
+      add(
+        "Postgraduate loan deductions",
+        "OTHER_DEDUCTIONS",
+        readAmount(payment, "PostgradLoanRecovered")
+      );
+    });
+  }
+
+  return entries;
+};
+
+const epsRecoveries: Array<[element: string, category: string]> = [
+  ["SMPRecovered", "SMP recovered"],
+  ["SPPRecovered", "SPP recovered"],
+  ["SAPRecovered", "SAP recovered"],
+  ["ShPPRecovered", "ShPP recovered"],
+  ["SPBPRecovered", "SPBP recovered"],
+  ["NICCompensationOnSMP", "NIC compensation on SMP"],
+  ["NICCompensationOnSPP", "NIC compensation on SPP"],
+  ["NICCompensationOnSAP", "NIC compensation on SAP"],
+  ["NICCompensationOnShPP", "NIC compensation on ShPP"],
+  ["NICCompensationOnSPBP", "NIC compensation on SPBP"],
+  ["CISDeductionsSuffered", "CIS deductions suffered"]
+];
+
+const readEmployerPaymentSummary = (submission: XmlElement) => {
+  const entries: StatutoryEntry[] = [];
+  const add = (
+    category: string,
+    categoryKey: StatutoryCategoryKey | null,
+    cents: number,
+    taxMonth: string | null
+  ) => {
+    if (cents !== 0) {
+      entries.push({
+        category,
+        categoryKey,
+        amountCents: cents,
+        employee: null,
+        employeeRef: null,
+        payrollId: null,
+        period: taxMonth ? `Month ${taxMonth} (year to date)` : "Year to date"
+      });
+    }
+  };
+
+  const recoverable = findElement(submission, "RecoverableAmountsYTD");
+  for (const [element, category] of epsRecoveries) {
+    add(category, null, readAmount(recoverable, element), elementText(recoverable, "TaxMonth"));
+  }
+  // The levy is year to date while the register's other tax is for the period, so
+  // it is kept for reference rather than compared.
+  const levy = findElement(submission, "ApprenticeshipLevy");
+  add(
+    "Apprenticeship Levy due",
+    null,
+    readAmount(levy, "LevyDueYTD"),
+    elementText(levy, "TaxMonth")
+  );
+
+  return entries;
+};
+
+/**
+ * Reads an FPS or EPS into statutory entries. FPS amounts are for the pay
+ * period; EPS amounts are year to date, as HMRC receives them.
+ */
+export const parseRtiSubmission = (
+  text: string
+): { kind: RtiSubmissionKind; entries: StatutoryEntry[] } => {
+  const { root } = parseXml(text);
+  const fps = findDescendant(root, submissionElements.FPS);
+  const eps = fps ? undefined : findDescendant(root, submissionElements.EPS);
+  if (!fps && !eps) {
+    return fail("The document is not a Full Payment Submission or Employer Payment Summary.");
+  }
+
+  const kind: RtiSubmissionKind = fps ? "FPS" : "EPS";
+  const entries = fps
+    ? readFullPaymentSubmission(fps)
+    : readEmployerPaymentSummary(eps as XmlElement);
+  if (entries.length === 0) {
+    fail(`The ${kind} reports no amounts to import.`);
+  }
+  return { kind, entries };
+};
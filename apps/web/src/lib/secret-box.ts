@@ -0,0 +1,33 @@
+import "server-only";
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Secrets at rest are sealed with AES-256-GCM under a key derived from a
+// deployment secret, as "v1:<iv>:<tag>:<ciphertext>" in base64 parts.
+const deriveKey = (keySecret: string) => createHash("sha256").update(keySecret).digest();
+
+export const sealSecret = (plaintext: string, keySecret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(keySecret), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return ["v1", iv, cipher.getAuthTag(), encrypted]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+};
+
+export const openSecret = (value: string, keySecret: string): string => {
+  const [version, iv, tag, encrypted] = value.split(":");
+  if (version !== "v1" || !iv || !tag || !encrypted) {
+    throw new Error("Unsupported sealed secret format.");
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(keySecret),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final()
+  ]).toString("utf8");
+};
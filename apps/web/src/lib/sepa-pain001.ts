@@ -0,0 +1,216 @@
+import { ImportParseError } from "./errors";
+import { childElements, elementText, findElement, parseXml } from "./xml-reader";
+
+// SEPA credit transfer initiations (ISO 20022 pain.001.001.03 and .09). Each
+// CdtTrfTxInf is one payment. The group header, and optionally each payment
+// information block, declares how many transactions it holds and their sum.
+
+export const sepaPain001Namespaces = [
+  "urn:iso:std:iso:20022:tech:xsd:pain.001.001.03",
+  "urn:iso:std:iso:20022:tech:xsd:pain.001.001.09"
+];
+
+export type SepaTransaction = {
+  paymentInformationId: string | null;
+  endToEndId: string;
+  creditorName: string | null;
+  iban: string | null;
+  bic: string | null;
+  amountCents: number;
+  currency: string | null;
+  remittanceInformation: string | null;
+  requestedExecutionDate: string | null;
+};
+
+/** What a block declares next to what its transactions add up to. */
+export type SepaControlTotals = {
+  // "Group header" or "Payment information <PmtInfId>".
+  scope: string;
+  declaredCount: number | null;
+  declaredSumCents: number | null;
+  transactionCount: number;
+  transactionSumCents: number;
+  // Rows of the block's transactions in the table from `sepaPain001Rows`.
+  firstRowNumber: number;
+  lastRowNumber: number;
+};
+
+export type SepaPain001File = {
+  messageId: string | null;
+  transactions: SepaTransaction[];
+  controls: SepaControlTotals[];
+};
+
+/** Column headers of the table a pain.001 file is read into; one row per transaction. */
+export const sepaPain001Columns = [
+  "Payment information ID",
+  "End-to-end ID",
+  "Creditor name",
+  "IBAN",
+  "BIC",
+  "Amount",
+  "Currency",
+  "Remittance information",
+  "Requested execution date"
+];
+
+// The header row is row 1, so the first transaction is row 2.
+const firstTransactionRowNumber = 2;
+
+/** True when the start of the file declares a pain.001.001.03 or .09 namespace. */
+export const isSepaPain001 = (buffer: Buffer) => {
+  const head = buffer.subarray(0, 4096).toString("utf8").replace(/^\uFEFF/, "").trimStart();
+  return head.startsWith("<") && sepaPain001Namespaces.some((ns) => head.includes(ns));
+};
+
+const fail = (reason: string): never => {
+  throw new ImportParseError(`Invalid SEPA file. ${reason}`);
+};
+
+const parseDecimalCents = (value: string, label: string) => {
+  const match = value.match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    return fail(`${label} "${value}" is not an amount.`);
+  }
+  return Number(match[1]) * 100 + Math.round(Number(`0.${match[2] ?? "0"}`) * 100);
+};
+
+const parseCount = (value: string | null, label: string) => {
+  if (value === null) {
+    return null;
+  }
+  if (!/^\d+$/.test(value)) {
+    return fail(`${label} "${value}" is not a number of transactions.`);
+  }
+  return Number(value);
+};
+
+export const formatSepaAmount = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * Reads every credit transfer in the file along with the declared and actual
+ * totals of the group header and each payment information block. Totals that
+ * disagree are returned rather than rejected; reconciliation raises them.
+ */
+export const parseSepaPain001 = (text: string): SepaPain001File => {
+  const { root, namespaces } = parseXml(text);
+  const initiation = findElement(root, "CstmrCdtTrfInitn");
+  if (
+    root.name !== "Document" ||
+    !initiation ||
+    !namespaces.some((ns) => sepaPain001Namespaces.includes(ns))
+  ) {
+    return fail("The document is not a pain.001.001.03 or .09 credit transfer initiation.");
+  }
+
+  const transactions: SepaTransaction[] = [];
+  const controls: SepaControlTotals[] = [];
+
+  for (const block of childElements(initiation, "PmtInf")) {
+    const paymentInformationId = elementText(block, "PmtInfId");
+    const requestedExecutionDate =
+      elementText(block, "ReqdExctnDt", "Dt") ??
+      elementText(block, "ReqdExctnDt", "DtTm")?.slice(0, 10) ??
+      elementText(block, "ReqdExctnDt");
+    const firstIndex = transactions.length;
+
+    for (const entry of childElements(block, "CdtTrfTxInf")) {
+      const position = transactions.length + 1;
+      const endToEndId = elementText(entry, "PmtId", "EndToEndId");
+      const amount = findElement(entry, "Amt", "InstdAmt");
+      if (!endToEndId) {
+        fail(`Transaction ${position} has no end-to-end ID.`);
+      }
+      if (!amount?.text.trim()) {
+        fail(`Transaction ${position} has no instructed amount.`);
+      }
+      transactions.push({
+        paymentInformationId,
+        endToEndId: endToEndId ?? "",
+        creditorName: elementText(entry, "Cdtr", "Nm"),
+        iban: elementText(entry, "CdtrAcct", "Id", "IBAN"),
+        bic:
+          elementText(entry, "CdtrAgt", "FinInstnId", "BICFI") ??
+          elementText(entry, "CdtrAgt", "FinInstnId", "BIC"),
+        amountCents: parseDecimalCents(amount?.text.trim() ?? "", "Instructed amount"),
+        currency: amount?.attributes.Ccy ?? null,
+        remittanceInformation: elementText(entry, "RmtInf", "Ustrd"),
+        requestedExecutionDate
+      });
+    }
+
+    const blockTransactions = transactions.slice(firstIndex);
+    const declaredSum = elementText(block, "CtrlSum");
+    controls.push({
+      scope: `Payment information ${paymentInformationId ?? controls.length + 1}`,
+      declaredCount: parseCount(elementText(block, "NbOfTxs"), "NbOfTxs"),
+      declaredSumCents: declaredSum === null ? null : parseDecimalCents(declaredSum, "CtrlSum"),
+      transactionCount: blockTransactions.length,
+      transactionSumCents: blockTransactions.reduce((sum, entry) => sum + entry.amountCents, 0),
+      firstRowNumber: firstIndex + firstTransactionRowNumber,
+      lastRowNumber: transactions.length - 1 + firstTransactionRowNumber
+    });
+  }
+
+  if (transactions.length === 0) {
+    fail("No credit transfer transactions were found.");
+  }
+
+  const header = findElement(initiation, "GrpHdr");
+  const declaredSum = elementText(header, "CtrlSum");
+  controls.unshift({
+    scope: "Group header",
+    declaredCount: parseCount(elementText(header, "NbOfTxs"), "NbOfTxs"),
+    declaredSumCents: declaredSum === null ? null : parseDecimalCents(declaredSum, "CtrlSum"),
+    transactionCount: transactions.length,
+    transactionSumCents: transactions.reduce((sum, entry) => sum + entry.amountCents, 0),
+    firstRowNumber: firstTransactionRowNumber,
+    lastRowNumber: transactions.length - 1 + firstTransactionRowNumber
+  });
+
+  return { messageId: elementText(header, "MsgId"), transactions, controls };
+};
+
+/** Blocks whose declared count or control sum differs from their transactions. */
+export const sepaControlMismatches = (controls: SepaControlTotals[]) =>
+  controls.filter(
+    (control) =>
+      (control.declaredCount !== null && control.declaredCount !== control.transactionCount) ||
+      (control.declaredSumCents !== null &&
+        control.declaredSumCents !== control.transactionSumCents)
+  );
+
+const isControlTotals = (value: unknown): value is SepaControlTotals => {
+  const entry = value as Partial<Record<keyof SepaControlTotals, unknown>> | null;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.scope === "string" &&
+    typeof entry.transactionCount === "number" &&
+    typeof entry.transactionSumCents === "number" &&
+    typeof entry.firstRowNumber === "number" &&
+    typeof entry.lastRowNumber === "number"
+  );
+};
+
+/** Control totals recorded in an import's parse summary, or null for other files. */
+export const readSepaControls = (parseSummary: unknown): SepaControlTotals[] | null => {
+  const controls = (parseSummary as { sepaControls?: unknown } | null)?.sepaControls;
+  return Array.isArray(controls) && controls.every(isControlTotals) ? controls : null;
+};
+
+/** The transactions as a table with `sepaPain001Columns` as its header row. */
+export const sepaPain001Rows = (file: SepaPain001File): string[][] => [
+  sepaPain001Columns,
+  ...file.transactions.map((entry) => [
+    entry.paymentInformationId ?? "",
+    entry.endToEndId,
+    entry.creditorName ?? "",
+    entry.iban ?? "",
+    entry.bic ?? "",
+    formatSepaAmount(entry.amountCents),
+    entry.currency ?? "",
+    entry.remittanceInformation ?? "",
+    entry.requestedExecutionDate ?? ""
+  ])
+];
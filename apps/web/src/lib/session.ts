@@ -3,11 +3,25 @@ import { getIronSession, type SessionOptions } from "iron-session";
 import { cookies } from "next/headers";
 import type { Role } from "@/lib/prisma";
 import { env } from "./env";
+import { endUserSession } from "./user-sessions";
 
 export type SessionData = {
   userId: string;
   firmId: string;
   role: Role;
+  // Token for the server-side UserSession record; the session is only valid while that record is.
+  sessionToken?: string;
+  // Set after a correct password for users with MFA, until the code is checked.
+  mfaPendingUserId?: string;
+  mfaPendingAt?: number;
+  // An OIDC sign-in in flight, checked when the provider redirects back.
+  oidcLogin?: {
+    firmId: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    startedAt: number;
+  };
 };
 
 const sessionOptions: SessionOptions = {
@@ -23,5 +37,8 @@ export const getSession = async () => getIronSession<SessionData>(cookies(), ses
 
 export const destroySession = async (): Promise<void> => {
   const session = await getSession();
+  if (session.sessionToken) {
+    await endUserSession(session.sessionToken);
+  }
   session.destroy();
 };
@@ -0,0 +1,267 @@
+import "server-only";
+
+import { z } from "zod";
+import { prisma, type FirmSsoConfig, type Role, type User } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { env } from "./env";
+import { ConflictError, OidcError, ValidationError } from "./errors";
+import type { OidcClaims, OidcClient } from "./oidc";
+import { openSecret, sealSecret } from "./secret-box";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+export type GroupRoleMapping = {
+  group: string;
+  role: Role;
+};
+
+export type SsoConfigInput = {
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  // Blank keeps the stored secret.
+  clientSecret?: string;
+  allowedDomains: string[];
+  groupsClaim: string;
+  groupRoleMappings: GroupRoleMapping[];
+  defaultRole: Role | null;
+  jitProvisioning: boolean;
+  passwordLoginDisabled: boolean;
+};
+
+export const oidcRedirectUri = () => `${env.APP_BASE_URL}/api/auth/oidc/callback`;
+
+const ssoKeySecret = () => env.SSO_ENCRYPTION_SECRET;
+
+// Most privileged first: a user in several mapped groups gets the highest role.
+const rolePrecedence: Role[] = ["ADMIN", "REVIEWER", "PREPARER"];
+
+const groupRoleMappingsSchema = z.array(
+  z.object({
+    group: z.string().min(1),
+    role: z.enum(["ADMIN", "PREPARER", "REVIEWER"])
+  })
+);
+
+export const parseGroupRoleMappings = (value: unknown): GroupRoleMapping[] => {
+  const parsed = groupRoleMappingsSchema.safeParse(value);
+  return parsed.success ? parsed.data : [];
+};
+
+export const normalizeEmailDomain = (value: string) =>
+  value.trim().toLowerCase().replace(/^@/, "");
+
+export const emailDomain = (email: string) => normalizeEmailDomain(email.split("@").pop() ?? "");
+
+export const readGroupsClaim = (claims: OidcClaims, groupsClaim: string): string[] => {
+  const value = claims[groupsClaim];
+  if (Array.isArray(value)) {
+    return value.filter((group): group is string => typeof group === "string");
+  }
+  return typeof value === "string" ? [value] : [];
+};
+
+export const resolveRoleFromGroups = (
+  groups: string[],
+  mappings: GroupRoleMapping[],
+  defaultRole: Role | null
+): Role | null => {
+  const matched = mappings
+    .filter((mapping) => groups.includes(mapping.group))
+    .map((mapping) => mapping.role);
+  return rolePrecedence.find((role) => matched.includes(role)) ?? defaultRole;
+};
+
+export const getFirmSsoConfig = async (firmId: string) =>
+  prisma.firmSsoConfig.findUnique({ where: { firmId } });
+
+/** The enabled SSO configuration whose allowed domains include the email's domain. */
+export const findSsoConfigForEmail = async (email: string) => {
+  const domain = emailDomain(email);
+  if (!domain) {
+    return null;
+  }
+  return prisma.firmSsoConfig.findFirst({
+    where: { enabled: true, allowedDomains: { has: domain } }
+  });
+};
+
+export const isPasswordLoginDisabled = async (firmId: string) => {
+  const config = await getFirmSsoConfig(firmId);
+  return Boolean(config?.enabled && config.passwordLoginDisabled);
+};
+
+export const toOidcClient = (config: FirmSsoConfig): OidcClient => ({
+  issuer: config.issuer,
+  clientId: config.clientId,
+  clientSecret: openSecret(config.clientSecretEncrypted, ssoKeySecret()),
+  redirectUri: oidcRedirectUri()
+});
+
+export const saveFirmSsoConfig = async (context: ActorContext, input: SsoConfigInput) => {
+  const allowedDomains = Array.from(
+    new Set(input.allowedDomains.map(normalizeEmailDomain).filter(Boolean))
+  );
+  if (allowedDomains.length === 0) {
+    throw new ValidationError("Add at least one allowed email domain.");
+  }
+  let issuer: string;
+  try {
+    issuer = new URL(input.issuer).toString().replace(/\/+$/, "");
+  } catch {
+    throw new ValidationError("Enter the issuer URL from your identity provider.");
+  }
+
+  const existing = await getFirmSsoConfig(context.firmId);
+  const clientSecret = input.clientSecret?.trim();
+  if (!existing && !clientSecret) {
+    throw new ValidationError("Enter the client secret from your identity provider.");
+  }
+
+  const claimed = await prisma.firmSsoConfig.findFirst({
+    where: { firmId: { not: context.firmId }, allowedDomains: { hasSome: allowedDomains } },
+    select: { allowedDomains: true }
+  });
+  if (claimed) {
+    const domain = allowedDomains.find((candidate) => claimed.allowedDomains.includes(candidate));
+    throw new ConflictError(`${domain} is already used for single sign-on by another firm.`);
+  }
+
+  const data = {
+    enabled: input.enabled,
+    issuer,
+    clientId: input.clientId.trim(),
+    allowedDomains,
+    groupsClaim: input.groupsClaim.trim() || "groups",
+    groupRoleMappings: input.groupRoleMappings,
+    defaultRole: input.defaultRole,
+    jitProvisioning: input.jitProvisioning,
+    passwordLoginDisabled: input.passwordLoginDisabled,
+    ...(clientSecret ? { clientSecretEncrypted: sealSecret(clientSecret, ssoKeySecret()) } : {})
+  };
+
+  const config = existing
+    ? await prisma.firmSsoConfig.update({ where: { id: existing.id }, data })
+    : await prisma.firmSsoConfig.create({
+        data: {
+          ...data,
+          firmId: context.firmId,
+          clientSecretEncrypted: sealSecret(clientSecret ?? "", ssoKeySecret())
+        }
+      });
+
+  await recordAuditEvent(
+    {
+      action: "SSO_CONFIG_UPDATED",
+      entityType: "FIRM",
+      entityId: context.firmId,
+      metadata: {
+        enabled: config.enabled,
+        issuer: config.issuer,
+        allowedDomains: config.allowedDomains.join(","),
+        groupMappings: parseGroupRoleMappings(config.groupRoleMappings).length,
+        jitProvisioning: config.jitProvisioning,
+        passwordLoginDisabled: config.passwordLoginDisabled,
+        clientSecretChanged: Boolean(clientSecret)
+      }
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return config;
+};
+
+const denySsoLogin = async (
+  config: FirmSsoConfig,
+  reason: string,
+  message: string,
+  userId?: string
+): Promise<never> => {
+  await recordAuditEvent(
+    {
+      action: "SSO_LOGIN_DENIED",
+      entityType: userId ? "USER" : "FIRM",
+      entityId: userId ?? config.firmId,
+      metadata: { reason }
+    },
+    { firmId: config.firmId, actorUserId: null }
+  );
+  throw new OidcError("access_denied", message);
+};
+
+/**
+ * Resolves the Tally user for validated OIDC claims: by linked subject, then
+ * by email, provisioning a new user from the group mappings when allowed.
+ */
+export const completeSsoLogin = async (
+  config: FirmSsoConfig,
+  claims: OidcClaims
+): Promise<User> => {
+  const email = typeof claims.email === "string" ? claims.email.trim().toLowerCase() : "";
+  // Only an explicit email_verified claim is trusted; some providers omit it.
+  if (!email || claims.email_verified !== true) {
+    return denySsoLogin(config, "email_unverified", "Your identity provider did not share a verified email.");
+  }
+  if (!config.allowedDomains.includes(emailDomain(email))) {
+    return denySsoLogin(config, "domain_not_allowed", "Your email domain is not allowed for this workspace.");
+  }
+
+  const existing =
+    (await prisma.user.findFirst({ where: { firmId: config.firmId, oidcSubject: claims.sub } })) ??
+    (await prisma.user.findUnique({ where: { email } }));
+
+  if (existing) {
+    if (existing.firmId !== config.firmId) {
+      return denySsoLogin(config, "other_firm", "This email belongs to another workspace.");
+    }
+    if (existing.status === "DISABLED") {
+      return denySsoLogin(config, "user_disabled", "Your account is disabled.", existing.id);
+    }
+    if (existing.oidcSubject && existing.oidcSubject !== claims.sub) {
+      return denySsoLogin(config, "subject_mismatch", "This account is linked to another identity.", existing.id);
+    }
+    // Invited users can accept by signing in through their identity provider.
+    return prisma.user.update({
+      where: { id: existing.id },
+      data: { oidcSubject: claims.sub, status: "ACTIVE" }
+    });
+  }
+
+  if (!config.jitProvisioning) {
+    return denySsoLogin(config, "not_provisioned", "Ask a firm admin to invite you first.");
+  }
+  const groups = readGroupsClaim(claims, config.groupsClaim);
+  const role = resolveRoleFromGroups(
+    groups,
+    parseGroupRoleMappings(config.groupRoleMappings),
+    config.defaultRole
+  );
+  if (!role) {
+    return denySsoLogin(config, "no_role_mapping", "None of your groups grant access to this workspace.");
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      firmId: config.firmId,
+      email,
+      role,
+      status: "ACTIVE",
+      oidcSubject: claims.sub
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "SSO_USER_PROVISIONED",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { role, groups: groups.length }
+    },
+    { firmId: config.firmId, actorUserId: null }
+  );
+
+  return user;
+};
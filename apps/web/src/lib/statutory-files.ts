@@ -0,0 +1,54 @@
+import type { StatutoryCategoryKey } from "./normalized-datasets";
+
+// Statutory filings we parse natively are read into one shared table. The
+// "Category key" column carries the StatutoryCategoryKey each amount counts
+// towards, so a template only has to map the columns, not every category.
+// "Employee ID" is the national identifier (NINO or PPSN) when the filing has
+// one, which lets the amounts be compared employee by employee.
+
+export type StatutoryEntry = {
+  category: string;
+  // Null for amounts with no register counterpart, e.g. employer NIC.
+  categoryKey: StatutoryCategoryKey | null;
+  amountCents: number;
+  employee: string | null;
+  employeeRef: string | null;
+  payrollId: string | null;
+  period: string | null;
+};
+
+/** Column headers of the table a statutory filing is read into; one row per amount. */
+export const statutoryFileColumns = [
+  "Category",
+  "Category key",
+  "Amount",
+  "Employee",
+  "Employee ID",
+  "Payroll ID",
+  "Period"
+];
+
+/** Signed decimal amount as used in RTI and payroll exports, in pence or cents. */
+export const parseStatutoryAmount = (value: string | null) => {
+  const normalized = (value ?? "").replace(/[£€,\s]/g, "");
+  const match = normalized.match(/^(-)?(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  const cents = Number(match[2]) * 100 + Math.round(Number(`0.${match[3] ?? "0"}`) * 100);
+  return match[1] ? -cents : cents;
+};
+
+/** The entries as a table with `statutoryFileColumns` as its header row. */
+export const statutoryEntryRows = (entries: StatutoryEntry[]): string[][] => [
+  statutoryFileColumns,
+  ...entries.map((entry) => [
+    entry.category,
+    entry.categoryKey ?? "",
+    (entry.amountCents / 100).toFixed(2),
+    entry.employee ?? "",
+    entry.employeeRef ?? "",
+    entry.payrollId ?? "",
+    entry.period ?? ""
+  ])
+];
@@ -7,6 +7,7 @@ import {
   Prisma
 } from "@/lib/prisma";
 import { detectColumnDrift } from "@/lib/mapping-utils";
+import { clientIdFilter } from "@/lib/client-access";
 
 export type TemplateLibraryFilters = {
   query?: string;
@@ -14,6 +15,8 @@ export type TemplateLibraryFilters = {
   scope?: "firm" | "client" | "";
   sourceType?: SourceType | "";
   status?: MappingTemplateStatus | "";
+  /** Hides other clients' templates from users limited to assigned clients. */
+  clientIds?: readonly string[] | null;
 };
 
 type TemplateWithClient = Prisma.MappingTemplateGetPayload<{
@@ -55,7 +58,10 @@ export const getTemplateLibraryData = async (
     ...(scope === "firm" ? { clientId: null } : {}),
     ...(scope === "client" ? { clientId: { not: null } } : {}),
     ...(sourceType ? { sourceType } : {}),
-    ...(status ? { status } : {})
+    ...(status ? { status } : {}),
+    ...(filters.clientIds
+      ? { OR: [{ clientId: null }, { clientId: clientIdFilter(filters) }] }
+      : {})
   };
 
   const templates = await prisma.mappingTemplate.findMany({
@@ -133,7 +139,7 @@ export const getTemplateLibraryData = async (
   }));
 
   const clients = await prisma.client.findMany({
-    where: { firmId },
+    where: { firmId, id: clientIdFilter(filters) },
     orderBy: { name: "asc" }
   });
 
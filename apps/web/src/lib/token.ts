@@ -3,7 +3,25 @@ import crypto from "crypto";
 export const hashToken = (token: string): string =>
   crypto.createHash("sha256").update(token).digest("hex");
 
-export const generateInviteToken = (): { token: string; tokenHash: string } => {
+const generateToken = (): { token: string; tokenHash: string } => {
   const token = crypto.randomBytes(32).toString("hex");
   return { token, tokenHash: hashToken(token) };
 };
+
+export const generateInviteToken = generateToken;
+
+export const generatePasswordResetToken = generateToken;
+
+export const generateSessionToken = generateToken;
+
+export const apiTokenPrefix = "tally_";
+
+/** API tokens carry a fixed prefix so they are recognisable in configs and secret scanners. */
+export const generateApiToken = (): { token: string; tokenHash: string } => {
+  const token = `${apiTokenPrefix}${generateToken().token}`;
+  return { token, tokenHash: hashToken(token) };
+};
+
+/** Webhook signing secrets are stored sealed, not hashed: signing needs the plaintext. */
+export const generateWebhookSecret = (): string =>
+  `whsec_${crypto.randomBytes(32).toString("base64url")}`;
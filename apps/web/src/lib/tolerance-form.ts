@@ -42,5 +42,14 @@ export const parseToleranceForm = (formData: FormData): ToleranceSettings => ({
   },
   bankCountMismatchPercent: parsePercent(
     formData.get("bankCountMismatchPercent")
-  )
+  ),
+  periodTotalVariance: {
+    absoluteCents: parseCurrencyCents(formData.get("periodTotalVarianceAbsolute")),
+    percent: parsePercent(formData.get("periodTotalVariancePercent"))
+  },
+  periodEmployeeNetVariance: {
+    absoluteCents: parseCurrencyCents(formData.get("periodEmployeeNetVarianceAbsolute")),
+    percent: parsePercent(formData.get("periodEmployeeNetVariancePercent"))
+  },
+  periodHeadcountPercent: parsePercent(formData.get("periodHeadcountPercent"))
 });
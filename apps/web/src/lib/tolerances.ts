@@ -11,6 +11,9 @@ export type ToleranceSettings = {
   statutoryTotals: ToleranceConfig;
   journalTieOut: ToleranceConfig;
   bankCountMismatchPercent: number;
+  periodTotalVariance: ToleranceConfig;
+  periodEmployeeNetVariance: ToleranceConfig;
+  periodHeadcountPercent: number;
 };
 
 export type ToleranceOverrides = Partial<{
@@ -19,6 +22,9 @@ export type ToleranceOverrides = Partial<{
   statutoryTotals: Partial<ToleranceConfig>;
   journalTieOut: Partial<ToleranceConfig>;
   bankCountMismatchPercent: number;
+  periodTotalVariance: Partial<ToleranceConfig>;
+  periodEmployeeNetVariance: Partial<ToleranceConfig>;
+  periodHeadcountPercent: number;
 }>;
 
 export const toleranceDefinitions = [
@@ -53,6 +59,25 @@ export const toleranceDefinitions = [
     label: "Bank payment count mismatch",
     description: "Used for CHK_BANK_PAYMENT_COUNT_MISMATCH.",
     type: "percentOnly"
+  },
+  {
+    key: "periodTotalVariance",
+    label: "Period-over-period totals",
+    description:
+      "Used for CHK_PERIOD_TOTAL_VARIANCE (net, gross and employer costs vs the prior locked pay run).",
+    type: "amountPercent"
+  },
+  {
+    key: "periodEmployeeNetVariance",
+    label: "Period-over-period employee net pay",
+    description: "Used for CHK_PERIOD_EMPLOYEE_NET_VARIANCE.",
+    type: "amountPercent"
+  },
+  {
+    key: "periodHeadcountPercent",
+    label: "Period-over-period headcount",
+    description: "Used for CHK_PERIOD_HEADCOUNT_VARIANCE.",
+    type: "percentOnly"
   }
 ] as const;
 
@@ -104,6 +129,18 @@ const parseOverrides = (source: unknown): ToleranceOverrides => {
     overrides.bankCountMismatchPercent = Math.max(0, input.bankCountMismatchPercent);
   }
 
+  const periodTotalVariance = parseToleranceConfig(input.periodTotalVariance);
+  if (periodTotalVariance) overrides.periodTotalVariance = periodTotalVariance;
+
+  const periodEmployeeNetVariance = parseToleranceConfig(input.periodEmployeeNetVariance);
+  if (periodEmployeeNetVariance) {
+    overrides.periodEmployeeNetVariance = periodEmployeeNetVariance;
+  }
+
+  if (isFiniteNumber(input.periodHeadcountPercent)) {
+    overrides.periodHeadcountPercent = Math.max(0, input.periodHeadcountPercent);
+  }
+
   return overrides;
 };
 
@@ -128,7 +165,17 @@ const applyOverrides = (
     ...(overrides.journalTieOut ?? {})
   },
   bankCountMismatchPercent:
-    overrides.bankCountMismatchPercent ?? base.bankCountMismatchPercent
+    overrides.bankCountMismatchPercent ?? base.bankCountMismatchPercent,
+  periodTotalVariance: {
+    ...base.periodTotalVariance,
+    ...(overrides.periodTotalVariance ?? {})
+  },
+  periodEmployeeNetVariance: {
+    ...base.periodEmployeeNetVariance,
+    ...(overrides.periodEmployeeNetVariance ?? {})
+  },
+  periodHeadcountPercent:
+    overrides.periodHeadcountPercent ?? base.periodHeadcountPercent
 });
 
 export const getBundleToleranceDefaults = (region: Region): ToleranceSettings => {
@@ -138,7 +185,10 @@ export const getBundleToleranceDefaults = (region: Region): ToleranceSettings =>
       journalBalance: { absoluteCents: 50, percent: 0.01 },
       statutoryTotals: { absoluteCents: 100, percent: 0.05 },
       journalTieOut: { absoluteCents: 100, percent: 0.05 },
-      bankCountMismatchPercent: 5
+      bankCountMismatchPercent: 5,
+      periodTotalVariance: { absoluteCents: 100000, percent: 10 },
+      periodEmployeeNetVariance: { absoluteCents: 10000, percent: 25 },
+      periodHeadcountPercent: 10
     };
   }
 
@@ -147,7 +197,10 @@ export const getBundleToleranceDefaults = (region: Region): ToleranceSettings =>
     journalBalance: { absoluteCents: 50, percent: 0.01 },
     statutoryTotals: { absoluteCents: 100, percent: 0.05 },
     journalTieOut: { absoluteCents: 100, percent: 0.05 },
-    bankCountMismatchPercent: 5
+    bankCountMismatchPercent: 5,
+    periodTotalVariance: { absoluteCents: 100000, percent: 10 },
+    periodEmployeeNetVariance: { absoluteCents: 10000, percent: 25 },
+    periodHeadcountPercent: 10
   };
 };
 
@@ -0,0 +1,183 @@
+import "server-only";
+
+import {
+  prisma,
+  type SessionRevocationReason,
+  type User,
+  type UserSession
+} from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { generateSessionToken, hashToken } from "./token";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+/**
+ * Firm-wide session lifetime stored in `Firm.defaults.sessions`. A session
+ * ends after `idleTimeoutMinutes` without a request, and always
+ * `absoluteTimeoutHours` after sign-in.
+ */
+export type SessionTimeouts = {
+  idleTimeoutMinutes: number;
+  absoluteTimeoutHours: number;
+};
+
+export const defaultSessionTimeouts: SessionTimeouts = {
+  idleTimeoutMinutes: 60,
+  absoluteTimeoutHours: 12
+};
+
+export const sessionTimeoutLimits: Record<keyof SessionTimeouts, { min: number; max: number }> = {
+  idleTimeoutMinutes: { min: 5, max: 24 * 60 },
+  absoluteTimeoutHours: { min: 1, max: 7 * 24 }
+};
+
+// lastSeenAt is only rewritten once a minute, not on every request.
+const touchIntervalMs = 60 * 1000;
+
+const readTimeout = (value: unknown, key: keyof SessionTimeouts) => {
+  const { min, max } = sessionTimeoutLimits[key];
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+    ? value
+    : defaultSessionTimeouts[key];
+};
+
+export const parseSessionSettings = (defaults: unknown): SessionTimeouts => {
+  const settings =
+    defaults && typeof defaults === "object"
+      ? (defaults as { sessions?: Record<string, unknown> }).sessions
+      : undefined;
+  return {
+    idleTimeoutMinutes: readTimeout(settings?.idleTimeoutMinutes, "idleTimeoutMinutes"),
+    absoluteTimeoutHours: readTimeout(settings?.absoluteTimeoutHours, "absoluteTimeoutHours")
+  };
+};
+
+/** Why a session has timed out, or null while it is still usable. */
+export const sessionTimeoutReason = (
+  session: Pick<UserSession, "createdAt" | "lastSeenAt">,
+  timeouts: SessionTimeouts,
+  now = new Date()
+): SessionRevocationReason | null => {
+  if (now.getTime() - session.createdAt.getTime() > timeouts.absoluteTimeoutHours * 3600 * 1000) {
+    return "EXPIRED";
+  }
+  if (now.getTime() - session.lastSeenAt.getTime() > timeouts.idleTimeoutMinutes * 60 * 1000) {
+    return "IDLE_TIMEOUT";
+  }
+  return null;
+};
+
+/** Records a new signed-in session and returns the token for the cookie. */
+export const createUserSession = async (
+  user: Pick<User, "id" | "firmId">,
+  client: { userAgent?: string | null; ipAddress?: string | null } = {}
+) => {
+  const { token, tokenHash } = generateSessionToken();
+  const session = await prisma.userSession.create({
+    data: {
+      firmId: user.firmId,
+      userId: user.id,
+      tokenHash,
+      userAgent: client.userAgent?.slice(0, 300) || null,
+      ipAddress: client.ipAddress?.slice(0, 64) || null
+    }
+  });
+  return { token, session };
+};
+
+/**
+ * The live session for a cookie token, or null once it is revoked or timed
+ * out. Timed-out sessions are closed so they drop off the sessions list.
+ */
+export const validateUserSession = async (
+  token: string | undefined,
+  userId: string,
+  timeouts: SessionTimeouts,
+  now = new Date()
+): Promise<UserSession | null> => {
+  if (!token) {
+    return null;
+  }
+  const session = await prisma.userSession.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+  if (!session || session.userId !== userId || session.revokedAt) {
+    return null;
+  }
+
+  const timedOut = sessionTimeoutReason(session, timeouts, now);
+  if (timedOut) {
+    await prisma.userSession.updateMany({
+      where: { id: session.id, revokedAt: null },
+      data: { revokedAt: now, revokedReason: timedOut }
+    });
+    return null;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() > touchIntervalMs) {
+    return prisma.userSession.update({
+      where: { id: session.id },
+      data: { lastSeenAt: now }
+    });
+  }
+  return session;
+};
+
+/** Ends the session behind a cookie token when its owner signs out. */
+export const endUserSession = async (token: string) => {
+  await prisma.userSession.updateMany({
+    where: { tokenHash: hashToken(token), revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: "SIGNED_OUT" }
+  });
+};
+
+export const listActiveSessions = async (
+  firmId: string,
+  userId: string,
+  timeouts: SessionTimeouts,
+  now = new Date()
+) => {
+  const sessions = await prisma.userSession.findMany({
+    where: { firmId, userId, revokedAt: null },
+    orderBy: { lastSeenAt: "desc" }
+  });
+  return sessions.filter((session) => !sessionTimeoutReason(session, timeouts, now));
+};
+
+/**
+ * Revokes a user's open sessions: one by id, all but one (e.g. the caller's
+ * own), or all of them. Returns how many were revoked.
+ */
+export const revokeUserSessions = async (
+  context: ActorContext,
+  userId: string,
+  reason: SessionRevocationReason,
+  options: { sessionId?: string; exceptSessionId?: string } = {}
+) => {
+  const idFilter = options.sessionId
+    ? { id: options.sessionId }
+    : options.exceptSessionId
+      ? { id: { not: options.exceptSessionId } }
+      : {};
+  const { count } = await prisma.userSession.updateMany({
+    where: { firmId: context.firmId, userId, revokedAt: null, ...idFilter },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  if (count > 0) {
+    await recordAuditEvent(
+      {
+        action: "SESSION_REVOKED",
+        entityType: "USER",
+        entityId: userId,
+        metadata: { reason, sessions: count }
+      },
+      { firmId: context.firmId, actorUserId: context.userId }
+    );
+  }
+
+  return count;
+};
@@ -0,0 +1,365 @@
+import "server-only";
+
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import {
+  prisma,
+  type AuditAction,
+  type AuditEvent,
+  type CheckSeverity,
+  type Prisma,
+  type WebhookDelivery
+} from "@/lib/prisma";
+import { env } from "./env";
+import { ValidationError } from "./errors";
+import { logError, logInfo, logWarn } from "./logger";
+import { openSecret } from "./secret-box";
+
+/** Audit actions an endpoint can subscribe to. */
+export const webhookEventDefinitions = [
+  { action: "PAY_RUN_SUBMITTED_FOR_REVIEW", label: "Pay run submitted for review" },
+  { action: "PAY_RUN_APPROVED", label: "Pay run approved" },
+  { action: "PAY_RUN_REJECTED", label: "Pay run rejected" },
+  { action: "RECONCILIATION_COMPLETED", label: "Reconciliation completed" },
+  { action: "EXCEPTION_CREATED", label: "Exception opened" },
+  { action: "PACK_GENERATED", label: "Pack generated" },
+  { action: "PACK_LOCKED", label: "Pack locked" }
+] as const satisfies ReadonlyArray<{ action: AuditAction; label: string }>;
+
+export type WebhookEvent = (typeof webhookEventDefinitions)[number]["action"];
+
+/** Event name of deliveries sent from the settings page to check an endpoint. */
+export const webhookTestEvent = "WEBHOOK_TEST";
+
+export const isWebhookEvent = (value: string): value is WebhookEvent =>
+  webhookEventDefinitions.some((definition) => definition.action === value);
+
+export const checkSeverityOrder: CheckSeverity[] = ["INFO", "LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+export const meetsSeverity = (severity: unknown, minimum: CheckSeverity) =>
+  typeof severity === "string" &&
+  checkSeverityOrder.indexOf(severity as CheckSeverity) >= checkSeverityOrder.indexOf(minimum);
+
+export const webhookKeySecret = () => env.WEBHOOK_ENCRYPTION_SECRET;
+
+const requestTimeoutMs = 10 * 1000;
+const staleLockMs = 5 * 60 * 1000;
+const retryBaseDelayMs = 60 * 1000;
+const retryMaxDelayMs = 6 * 3600 * 1000;
+const lastErrorMaxLength = 500;
+
+// Signed audit data is only sent to public hosts: never to loopback, private,
+// link-local (cloud metadata), shared, multicast or reserved addresses.
+// BlockList matches IPv4-mapped IPv6 addresses against the IPv4 ranges.
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4]
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const privateHostMessage =
+  "Webhook URLs must point to a public host, not a private or local address.";
+
+/** Whether an IP address is outside the public internet. Anything that is not an IP counts. */
+export const isPrivateAddress = (address: string) => {
+  const family = isIP(address);
+  return family === 0 || nonPublicAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+const urlHost = (url: URL) => url.hostname.replace(/^\[(.*)\]$/, "$1");
+
+/** Rejects a URL whose host is written as a non-public IP address or a local name. */
+export const assertPublicWebhookUrl = (url: URL) => {
+  const host = urlHost(url).toLowerCase();
+  if (
+    (isIP(host) !== 0 && isPrivateAddress(host)) ||
+    host === "localhost" ||
+    host.endsWith(".localhost")
+  ) {
+    throw new ValidationError(privateHostMessage);
+  }
+};
+
+/**
+ * Resolves the URL's host and throws a ValidationError unless every address is
+ * public. Runs when an endpoint is saved and again before each delivery, as
+ * DNS can change in between. WEBHOOK_ALLOW_PRIVATE_HOSTS turns the check off
+ * for local development.
+ */
+export const resolvePublicWebhookHost = async (value: string) => {
+  if (env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true") {
+    return;
+  }
+  const url = new URL(value);
+  assertPublicWebhookUrl(url);
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(urlHost(url), { all: true, verbatim: true });
+  } catch {
+    throw new ValidationError(`Could not resolve the webhook host ${url.hostname}.`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new ValidationError(privateHostMessage);
+  }
+};
+
+/** Delay before the next attempt: one minute, doubling per failed attempt, capped at six hours. */
+export const webhookRetryDelayMs = (attempts: number) =>
+  Math.min(retryBaseDelayMs * 2 ** Math.max(attempts - 1, 0), retryMaxDelayMs);
+
+/** The JSON body sent for an audit event. Metadata was already sanitized when it was recorded. */
+export const buildWebhookPayload = (event: AuditEvent): Prisma.InputJsonObject => ({
+  id: event.id,
+  type: event.action,
+  occurredAt: event.timestamp.toISOString(),
+  firmId: event.firmId,
+  entity: { type: event.entityType, id: event.entityId },
+  actorUserId: event.actorUserId,
+  data: (event.metadata ?? {}) as Prisma.InputJsonObject
+});
+
+/**
+ * Queues a delivery to each enabled endpoint subscribed to the event. Runs in
+ * the audit transaction, so an event is never recorded without its deliveries.
+ */
+export const enqueueWebhookDeliveries = async (
+  tx: Prisma.TransactionClient,
+  event: AuditEvent
+) => {
+  if (!isWebhookEvent(event.action)) {
+    return 0;
+  }
+  const endpoints = await tx.webhookEndpoint.findMany({
+    where: { firmId: event.firmId, enabled: true, events: { has: event.action } },
+    select: { id: true, exceptionMinimumSeverity: true }
+  });
+  const metadata = (event.metadata ?? {}) as Record<string, unknown>;
+  // An exception carried forward as resolved or dismissed has not been opened.
+  if (
+    event.action === "EXCEPTION_CREATED" &&
+    metadata.carriedStatus !== undefined &&
+    metadata.carriedStatus !== "OPEN"
+  ) {
+    return 0;
+  }
+  const recipients = endpoints.filter(
+    (endpoint) =>
+      event.action !== "EXCEPTION_CREATED" ||
+      meetsSeverity(metadata.severity, endpoint.exceptionMinimumSeverity)
+  );
+  if (recipients.length === 0) {
+    return 0;
+  }
+
+  const payload = buildWebhookPayload(event);
+  const { count } = await tx.webhookDelivery.createMany({
+    data: recipients.map((endpoint) => ({
+      firmId: event.firmId,
+      endpointId: endpoint.id,
+      auditEventId: event.id,
+      event: event.action,
+      payload
+    }))
+  });
+  return count;
+};
+
+/** `v1=` followed by the hex HMAC-SHA256 of `<timestamp>.<body>` under the endpoint secret. */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string) =>
+  `v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+export type WebhookAttemptResult = {
+  ok: boolean;
+  responseStatus: number | null;
+  error: string | null;
+};
+
+const describeSendError = (error: unknown) => {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return `No response within ${requestTimeoutMs / 1000} seconds.`;
+  }
+  const cause = error instanceof Error ? error.cause : undefined;
+  const code = (cause as { code?: unknown } | undefined)?.code;
+  return typeof code === "string"
+    ? `Could not connect to the endpoint (${code}).`
+    : "Could not connect to the endpoint.";
+};
+
+/**
+ * POSTs a signed payload. Any 2xx counts as delivered; redirects are not
+ * followed so a signature is never replayed to another host.
+ */
+export const sendWebhook = async (
+  request: { url: string; secret: string; deliveryId: string; event: string; payload: unknown },
+  now = new Date()
+): Promise<WebhookAttemptResult> => {
+  const body = JSON.stringify(request.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  try {
+    const response = await fetch(request.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "Tally-Webhooks/1",
+        "x-tally-event": request.event,
+        "x-tally-delivery": request.deliveryId,
+        "x-tally-timestamp": String(timestamp),
+        "x-tally-signature": signWebhookPayload(request.secret, timestamp, body)
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(requestTimeoutMs)
+    });
+    await response.body?.cancel();
+    return response.ok
+      ? { ok: true, responseStatus: response.status, error: null }
+      : {
+          ok: false,
+          responseStatus: response.status,
+          error: `The endpoint responded with HTTP ${response.status}.`
+        };
+  } catch (error) {
+    return { ok: false, responseStatus: null, error: describeSendError(error) };
+  }
+};
+
+export const claimNextWebhookDelivery = async (
+  workerId: string
+): Promise<WebhookDelivery | null> => {
+  const staleBefore = new Date(Date.now() - staleLockMs);
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE "WebhookDelivery"
+    SET "status" = 'DELIVERING'::"WebhookDeliveryStatus",
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId}
+    WHERE "id" = (
+      SELECT "id" FROM "WebhookDelivery"
+      WHERE ("status" = 'PENDING'::"WebhookDeliveryStatus" AND "nextAttemptAt" <= NOW())
+         OR ("status" = 'DELIVERING'::"WebhookDeliveryStatus" AND "lockedAt" < ${staleBefore})
+      ORDER BY "nextAttemptAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `;
+
+  const deliveryId = claimed[0]?.id;
+  if (!deliveryId) {
+    return null;
+  }
+  return prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+};
+
+/**
+ * Makes one attempt at a claimed delivery and records the outcome: delivered,
+ * rescheduled with backoff, or failed once its attempts are used up.
+ */
+export const attemptWebhookDelivery = async (delivery: WebhookDelivery, now = new Date()) => {
+  const endpoint = await prisma.webhookEndpoint.findUnique({
+    where: { id: delivery.endpointId }
+  });
+  const attempts = delivery.attempts + 1;
+  const context = {
+    firmId: delivery.firmId,
+    deliveryId: delivery.id,
+    endpointId: delivery.endpointId,
+    attempt: attempts
+  };
+
+  if (!endpoint?.enabled) {
+    logWarn("WEBHOOK_DELIVERY_SKIPPED", context);
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "FAILED",
+        lockedAt: null,
+        lockedBy: null,
+        lastError: "The endpoint is disabled."
+      }
+    });
+  }
+
+  let result: WebhookAttemptResult;
+  try {
+    await resolvePublicWebhookHost(endpoint.url);
+    result = await sendWebhook(
+      {
+        url: endpoint.url,
+        secret: openSecret(endpoint.secretEncrypted, webhookKeySecret()),
+        deliveryId: delivery.id,
+        event: delivery.event,
+        payload: delivery.payload
+      },
+      now
+    );
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    result = { ok: false, responseStatus: null, error: error.message };
+  }
+  const outcome = {
+    attempts,
+    lastAttemptAt: now,
+    responseStatus: result.responseStatus,
+    lastError: result.error?.slice(0, lastErrorMaxLength) ?? null,
+    lockedAt: null,
+    lockedBy: null
+  };
+  const logContext = { ...context, responseStatus: result.responseStatus ?? undefined };
+
+  if (result.ok) {
+    logInfo("WEBHOOK_DELIVERY_SUCCEEDED", logContext);
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { ...outcome, status: "SUCCEEDED", deliveredAt: now }
+    });
+  }
+
+  if (attempts >= delivery.maxAttempts) {
+    logError("WEBHOOK_DELIVERY_FAILED", logContext);
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { ...outcome, status: "FAILED" }
+    });
+  }
+
+  logWarn("WEBHOOK_DELIVERY_RETRY_SCHEDULED", logContext);
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      ...outcome,
+      status: "PENDING",
+      nextAttemptAt: new Date(now.getTime() + webhookRetryDelayMs(attempts))
+    }
+  });
+};
+
+export const processNextWebhookDelivery = async (workerId: string) => {
+  const delivery = await claimNextWebhookDelivery(workerId);
+  if (!delivery) {
+    return null;
+  }
+  return attemptWebhookDelivery(delivery);
+};
@@ -0,0 +1,266 @@
+import "server-only";
+
+import { randomUUID } from "crypto";
+import { prisma, type CheckSeverity } from "@/lib/prisma";
+import { recordAuditEvent } from "./audit";
+import { env } from "./env";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import { sealSecret } from "./secret-box";
+import { generateWebhookSecret } from "./token";
+import {
+  attemptWebhookDelivery,
+  checkSeverityOrder,
+  assertPublicWebhookUrl,
+  isWebhookEvent,
+  resolvePublicWebhookHost,
+  webhookKeySecret,
+  webhookTestEvent
+} from "./webhook-deliveries";
+
+type ActorContext = {
+  firmId: string;
+  userId: string;
+};
+
+export type WebhookEndpointInput = {
+  url: string;
+  description: string;
+  events: string[];
+  exceptionMinimumSeverity: string;
+  enabled: boolean;
+};
+
+export const parseWebhookEndpointForm = (formData: FormData): WebhookEndpointInput => ({
+  url: String(formData.get("url") ?? ""),
+  description: String(formData.get("description") ?? ""),
+  events: formData.getAll("events").map(String),
+  exceptionMinimumSeverity: String(formData.get("exceptionMinimumSeverity") ?? "CRITICAL"),
+  enabled: formData.get("enabled") === "on"
+});
+
+/**
+ * Endpoints must use https and a public host. Hosts given by name are resolved
+ * when the endpoint is saved (see resolvePublicWebhookHost). Plain http to a
+ * local receiver is only accepted with WEBHOOK_ALLOW_PRIVATE_HOSTS.
+ */
+export const normalizeWebhookUrl = (value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new ValidationError("Enter the full URL of the webhook receiver.");
+  }
+  if (url.username || url.password) {
+    throw new ValidationError("Webhook URLs cannot contain credentials.");
+  }
+  const allowPrivate = env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true";
+  if (url.protocol !== "https:" && !(allowPrivate && url.protocol === "http:")) {
+    throw new ValidationError("Webhook URLs must use https.");
+  }
+  if (!allowPrivate) {
+    assertPublicWebhookUrl(url);
+  }
+  return url.toString();
+};
+
+const normalizeEndpointInput = async (input: WebhookEndpointInput) => {
+  const url = normalizeWebhookUrl(input.url);
+  const description = input.description.trim();
+  if (description.length > 200) {
+    throw new ValidationError("Description must be 200 characters or fewer.");
+  }
+  const events = Array.from(new Set(input.events));
+  if (events.length === 0) {
+    throw new ValidationError("Choose at least one event.");
+  }
+  const unknown = events.find((event) => !isWebhookEvent(event));
+  if (unknown) {
+    throw new ValidationError(`Unknown event: ${unknown}.`);
+  }
+  if (!checkSeverityOrder.includes(input.exceptionMinimumSeverity as CheckSeverity)) {
+    throw new ValidationError("Choose a minimum exception severity.");
+  }
+  await resolvePublicWebhookHost(url);
+  return {
+    url,
+    description: description || null,
+    events,
+    exceptionMinimumSeverity: input.exceptionMinimumSeverity as CheckSeverity,
+    enabled: input.enabled
+  };
+};
+
+// The host is enough to identify an endpoint in the log; paths can carry tokens.
+const endpointAuditMetadata = (endpoint: { url: string; events: string[]; enabled: boolean }) => ({
+  host: new URL(endpoint.url).host,
+  events: endpoint.events.join(" "),
+  enabled: endpoint.enabled
+});
+
+export const listWebhookEndpoints = async (firmId: string) =>
+  prisma.webhookEndpoint.findMany({
+    where: { firmId },
+    orderBy: { createdAt: "asc" }
+  });
+
+export const getWebhookEndpoint = async (firmId: string, endpointId: string) => {
+  const endpoint = await prisma.webhookEndpoint.findFirst({ where: { id: endpointId, firmId } });
+  if (!endpoint) {
+    throw new NotFoundError("Webhook endpoint not found.");
+  }
+  return endpoint;
+};
+
+/** Most recent deliveries for an endpoint, newest first. */
+export const listWebhookDeliveries = async (
+  firmId: string,
+  endpointId: string,
+  options: { limit?: number } = {}
+) =>
+  prisma.webhookDelivery.findMany({
+    where: { firmId, endpointId },
+    orderBy: { createdAt: "desc" },
+    take: options.limit ?? 50
+  });
+
+/** Creates an endpoint with a new signing secret, which is returned once. */
+export const createWebhookEndpoint = async (
+  context: ActorContext,
+  input: WebhookEndpointInput
+) => {
+  const data = await normalizeEndpointInput(input);
+  const secret = generateWebhookSecret();
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: {
+      firmId: context.firmId,
+      ...data,
+      secretEncrypted: sealSecret(secret, webhookKeySecret())
+    }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "WEBHOOK_ENDPOINT_CREATED",
+      entityType: "WEBHOOK_ENDPOINT",
+      entityId: endpoint.id,
+      metadata: endpointAuditMetadata(endpoint)
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return { secret, endpoint };
+};
+
+export const updateWebhookEndpoint = async (
+  context: ActorContext,
+  endpointId: string,
+  input: WebhookEndpointInput
+) => {
+  await getWebhookEndpoint(context.firmId, endpointId);
+  const endpoint = await prisma.webhookEndpoint.update({
+    where: { id: endpointId },
+    data: await normalizeEndpointInput(input)
+  });
+
+  await recordAuditEvent(
+    {
+      action: "WEBHOOK_ENDPOINT_UPDATED",
+      entityType: "WEBHOOK_ENDPOINT",
+      entityId: endpoint.id,
+      metadata: endpointAuditMetadata(endpoint)
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return endpoint;
+};
+
+/** Replaces the signing secret; deliveries already queued are signed with the new one. */
+export const rotateWebhookSecret = async (context: ActorContext, endpointId: string) => {
+  await getWebhookEndpoint(context.firmId, endpointId);
+  const secret = generateWebhookSecret();
+  await prisma.webhookEndpoint.update({
+    where: { id: endpointId },
+    data: { secretEncrypted: sealSecret(secret, webhookKeySecret()) }
+  });
+
+  await recordAuditEvent(
+    {
+      action: "WEBHOOK_SECRET_ROTATED",
+      entityType: "WEBHOOK_ENDPOINT",
+      entityId: endpointId
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+
+  return secret;
+};
+
+/** Deletes an endpoint along with its delivery log and any queued deliveries. */
+export const deleteWebhookEndpoint = async (context: ActorContext, endpointId: string) => {
+  const endpoint = await getWebhookEndpoint(context.firmId, endpointId);
+  await prisma.webhookEndpoint.delete({ where: { id: endpoint.id } });
+
+  await recordAuditEvent(
+    {
+      action: "WEBHOOK_ENDPOINT_DELETED",
+      entityType: "WEBHOOK_ENDPOINT",
+      entityId: endpoint.id,
+      metadata: endpointAuditMetadata(endpoint)
+    },
+    { firmId: context.firmId, actorUserId: context.userId }
+  );
+};
+
+/**
+ * Sends a WEBHOOK_TEST event straight away rather than through the worker,
+ * so the result shows on the page. It is logged like any other delivery
+ * but not retried.
+ */
+export const sendTestWebhook = async (context: ActorContext, endpointId: string) => {
+  const endpoint = await getWebhookEndpoint(context.firmId, endpointId);
+  const now = new Date();
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      firmId: context.firmId,
+      endpointId: endpoint.id,
+      event: webhookTestEvent,
+      payload: {
+        id: randomUUID(),
+        type: webhookTestEvent,
+        occurredAt: now.toISOString(),
+        firmId: context.firmId,
+        entity: { type: "WEBHOOK_ENDPOINT", id: endpoint.id },
+        actorUserId: context.userId,
+        data: {}
+      },
+      status: "DELIVERING",
+      maxAttempts: 1,
+      lockedAt: now,
+      lockedBy: `user:${context.userId}`
+    }
+  });
+  return attemptWebhookDelivery(delivery, now);
+};
+
+/** Queues a failed delivery again with a fresh set of attempts. */
+export const redeliverWebhookDelivery = async (context: ActorContext, deliveryId: string) => {
+  const delivery = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, firmId: context.firmId }
+  });
+  if (!delivery) {
+    throw new NotFoundError("Webhook delivery not found.");
+  }
+  if (delivery.status !== "FAILED") {
+    throw new ConflictError("Only failed deliveries can be sent again.");
+  }
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: "PENDING",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null
+    }
+  });
+};
@@ -0,0 +1,197 @@
+import { ImportParseError } from "./errors";
+
+// A small non-validating reader for the XML payment and filing files we
+// import. It keeps elements, attributes and text only; namespace prefixes are
+// dropped from names and DTDs are refused outright, so entity expansion can
+// never reach the parser.
+
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+};
+
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'"
+};
+
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+// Surrogates and values past U+10FFFF are not characters, and fromCodePoint
+// throws a RangeError on the latter.
+const isCharacter = (codePoint: number) =>
+  codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const codePoint = entity.startsWith("#x")
+        ? parseInt(entity.slice(2), 16)
+        : Number(entity.slice(1));
+      if (!isCharacter(codePoint)) {
+        throw new ImportParseError(`Invalid XML file. ${match} is not a valid character.`);
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    const decoded = namedEntities[entity];
+    if (decoded === undefined) {
+      throw new ImportParseError(`Invalid XML file. Unknown entity ${match}.`);
+    }
+    return decoded;
+  });
+
+const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// The rest of a start tag up to its closing ">", which may appear inside quoted values.
+const tagEndPattern = /(?:[^"'>]|"[^"]*"|'[^']*')*>/y;
+
+const readAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(attributePattern)) {
+    const [, name, doubleQuoted, singleQuoted] = match;
+    if (name && !name.startsWith("xmlns")) {
+      attributes[localName(name)] = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+    }
+  }
+  return attributes;
+};
+
+/** Reads a document into its root element and the namespaces it declares. */
+export const parseXml = (input: string): { root: XmlElement; namespaces: string[] } => {
+  const text = input.replace(/^\uFEFF/, "");
+  const namespaces: string[] = [];
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let index = 0;
+
+  const fail = (reason: string): never => {
+    throw new ImportParseError(`Invalid XML file. ${reason}`);
+  };
+  const skipPast = (marker: string) => {
+    const end = text.indexOf(marker, index);
+    if (end < 0) {
+      fail(`Expected "${marker}" before the end of the file.`);
+    }
+    index = end + marker.length;
+  };
+
+  while (index < text.length) {
+    const open = text.indexOf("<", index);
+    const chunk = text.slice(index, open < 0 ? text.length : open);
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.text += decodeEntities(chunk);
+    } else if (chunk.trim()) {
+      fail("Text was found outside the root element.");
+    }
+    if (open < 0) {
+      break;
+    }
+    index = open;
+
+    if (text.startsWith("<?", index)) {
+      skipPast("?>");
+    } else if (text.startsWith("<!--", index)) {
+      skipPast("-->");
+    } else if (text.startsWith("<![CDATA[", index)) {
+      const start = index + "<![CDATA[".length;
+      skipPast("]]>");
+      if (!current) {
+        fail("Text was found outside the root element.");
+      } else {
+        current.text += text.slice(start, index - "]]>".length);
+      }
+    } else if (text.startsWith("<!", index)) {
+      fail("Document type declarations are not accepted.");
+    } else if (text.startsWith("</", index)) {
+      const start = index + 2;
+      skipPast(">");
+      const name = localName(text.slice(start, index - 1).trim());
+      const closed = stack.pop();
+      if (!closed || closed.name !== name) {
+        fail(`Unexpected closing tag </${name}>.`);
+      }
+    } else {
+      const start = index + 1;
+      tagEndPattern.lastIndex = start;
+      if (!tagEndPattern.test(text)) {
+        fail('Expected ">" before the end of the file.');
+      }
+      index = tagEndPattern.lastIndex;
+      const body = text.slice(start, index - 1);
+      const selfClosing = body.endsWith("/");
+      const source = selfClosing ? body.slice(0, -1) : body;
+      const nameMatch = source.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        fail("An element has no name.");
+      }
+      for (const match of source.matchAll(attributePattern)) {
+        if (match[1]?.startsWith("xmlns")) {
+          namespaces.push(match[2] ?? match[3] ?? "");
+        }
+      }
+      const element: XmlElement = {
+        name: localName(nameMatch?.[0] ?? ""),
+        attributes: readAttributes(source.slice(nameMatch?.[0].length ?? 0)),
+        children: [],
+        text: ""
+      };
+      if (current) {
+        current.children.push(element);
+      } else if (root) {
+        fail("The file has more than one root element.");
+      } else {
+        root = element;
+      }
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`Element <${stack[stack.length - 1]?.name}> is not closed.`);
+  }
+  if (!root) {
+    return fail("The file has no root element.");
+  }
+  return { root, namespaces };
+};
+
+export const childElements = (element: XmlElement | undefined, name: string) =>
+  element?.children.filter((child) => child.name === name) ?? [];
+
+/** Follows a path of child names, taking the first match at each step. */
+export const findElement = (
+  element: XmlElement | undefined,
+  ...path: string[]
+): XmlElement | undefined =>
+  path.reduce<XmlElement | undefined>(
+    (current, name) => current?.children.find((child) => child.name === name),
+    element
+  );
+
+/** Trimmed text of the element at the path, or null when it is missing or blank. */
+export const elementText = (element: XmlElement | undefined, ...path: string[]) => {
+  const value = findElement(element, ...path)?.text.trim();
+  return value ? value : null;
+};
+
+/** First element with the name anywhere below (or at) the given element, depth first. */
+export const findDescendant = (element: XmlElement, name: string): XmlElement | undefined => {
+  if (element.name === name) {
+    return element;
+  }
+  for (const child of element.children) {
+    const found = findDescendant(child, name);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+};
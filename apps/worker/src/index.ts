@@ -1,6 +1,44 @@
+import { hostname } from "node:os";
+import { processNextJob } from "@/lib/jobs";
+import { logError, logInfo } from "@/lib/logger";
+import { processNextWebhookDelivery } from "@/lib/webhook-deliveries";
+
+const IDLE_DELAY_MS = Number(process.env.WORKER_POLL_INTERVAL_MS ?? 2000);
+const workerId = `${hostname()}:${process.pid}`;
+
+let stopping = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const poll = async (): Promise<void> => {
+  while (!stopping) {
+    try {
+      const job = await processNextJob(workerId);
+      // Webhooks share the loop so a backlog of jobs cannot starve deliveries or vice versa.
+      const delivery = await processNextWebhookDelivery(workerId);
+      if (!job && !delivery) {
+        await sleep(IDLE_DELAY_MS);
+      }
+    } catch (error) {
+      // Claiming failed (usually the database is unavailable); back off and retry.
+      logError("WORKER_POLL_FAILED", {
+        errorName: error instanceof Error ? error.name : "Error"
+      });
+      await sleep(IDLE_DELAY_MS);
+    }
+  }
+};
+
 const boot = async (): Promise<void> => {
-  // Worker entrypoint stub for background jobs.
-  process.stdout.write("Worker ready\n");
+  const stop = () => {
+    stopping = true;
+  };
+  process.on("SIGTERM", stop);
+  process.on("SIGINT", stop);
+
+  logInfo("WORKER_STARTED");
+  await poll();
+  logInfo("WORKER_STOPPED");
 };
 
 boot().catch(() => {
@@ -0,0 +1,3 @@
+// The worker imports server modules from apps/web; `server-only` only guards
+// against bundling them into client code, so it resolves to this empty module.
+export {};
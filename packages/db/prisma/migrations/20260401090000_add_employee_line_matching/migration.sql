@@ -0,0 +1,6 @@
+-- Employee-level register to bank line matching
+ALTER TYPE "CheckType" ADD VALUE IF NOT EXISTS 'CHK_EMPLOYEE_NET_TO_BANK_LINES';
+
+-- Line-level checks raise several exceptions per check result
+DROP INDEX IF EXISTS "Exception_checkResultId_key";
+CREATE INDEX "Exception_checkResultId_idx" ON "Exception"("checkResultId");
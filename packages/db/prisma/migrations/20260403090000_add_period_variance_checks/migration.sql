@@ -0,0 +1,4 @@
+-- Period-over-period variance against the prior locked pay run
+ALTER TYPE "CheckType" ADD VALUE IF NOT EXISTS 'CHK_PERIOD_TOTAL_VARIANCE';
+ALTER TYPE "CheckType" ADD VALUE IF NOT EXISTS 'CHK_PERIOD_HEADCOUNT_VARIANCE';
+ALTER TYPE "CheckType" ADD VALUE IF NOT EXISTS 'CHK_PERIOD_EMPLOYEE_NET_VARIANCE';
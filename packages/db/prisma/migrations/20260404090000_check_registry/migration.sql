@@ -0,0 +1,4 @@
+-- Check types are owned by the application check registry, not a database enum
+ALTER TABLE "CheckResult" ALTER COLUMN "checkType" TYPE TEXT USING "checkType"::text;
+ALTER TABLE "ExpectedVariance" ALTER COLUMN "checkType" TYPE TEXT USING "checkType"::text;
+DROP TYPE "CheckType";
@@ -0,0 +1,51 @@
+-- Pack signing: per-firm Ed25519 keys and a signed manifest on every pack
+-- CreateEnum
+CREATE TYPE "SigningKeyStatus" AS ENUM ('ACTIVE', 'RETIRED');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'PACK_VERIFIED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SIGNING_KEY_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'SIGNING_KEY_ROTATED';
+
+-- CreateTable
+CREATE TABLE "FirmSigningKey" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "algorithm" TEXT NOT NULL DEFAULT 'ED25519',
+    "publicKeyPem" TEXT NOT NULL,
+    "privateKeyEncrypted" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "status" "SigningKeyStatus" NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "FirmSigningKey_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Pack" ADD COLUMN "bundleHashSha256" TEXT,
+ADD COLUMN "signingKeyId" UUID,
+ADD COLUMN "signedManifest" TEXT,
+ADD COLUMN "signature" TEXT,
+ADD COLUMN "signedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FirmSigningKey_fingerprint_key" ON "FirmSigningKey"("fingerprint");
+
+-- CreateIndex
+CREATE INDEX "FirmSigningKey_firmId_status_idx" ON "FirmSigningKey"("firmId", "status");
+
+-- CreateIndex
+CREATE INDEX "Pack_fileHashSha256_idx" ON "Pack"("fileHashSha256");
+
+-- CreateIndex
+CREATE INDEX "Pack_bundleHashSha256_idx" ON "Pack"("bundleHashSha256");
+
+-- CreateIndex
+CREATE INDEX "Pack_signingKeyId_idx" ON "Pack"("signingKeyId");
+
+-- AddForeignKey
+ALTER TABLE "FirmSigningKey" ADD CONSTRAINT "FirmSigningKey_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Pack" ADD CONSTRAINT "Pack_signingKeyId_fkey" FOREIGN KEY ("signingKeyId") REFERENCES "FirmSigningKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Audit hash chain: per-firm sequence and SHA-256 chain hashes on audit events
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'AUDIT_CHAIN_VERIFIED';
+
+-- AlterTable
+ALTER TABLE "AuditEvent" ADD COLUMN "sequence" INTEGER,
+ADD COLUMN "previousHash" TEXT,
+ADD COLUMN "hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditEvent_firmId_sequence_key" ON "AuditEvent"("firmId", "sequence");
@@ -0,0 +1,33 @@
+-- Custom roles: firm-defined roles built from the permission catalogue
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'ROLE_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'ROLE_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'ROLE_DELETED';
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE IF NOT EXISTS 'ROLE';
+
+-- CreateTable
+CREATE TABLE "FirmRole" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FirmRole_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "firmRoleId" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FirmRole_firmId_name_key" ON "FirmRole"("firmId", "name");
+
+-- AddForeignKey
+ALTER TABLE "FirmRole" ADD CONSTRAINT "FirmRole_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_firmRoleId_fkey" FOREIGN KEY ("firmRoleId") REFERENCES "FirmRole"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- Scoped API tokens for the public API
+-- CreateEnum
+CREATE TYPE "ApiTokenKind" AS ENUM ('PERSONAL', 'SERVICE');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'API_TOKEN_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'API_TOKEN_REVOKED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'API_TOKEN_USED';
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE IF NOT EXISTS 'API_TOKEN';
+
+-- CreateTable
+CREATE TABLE "ApiToken" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "kind" "ApiTokenKind" NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenPrefix" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ApiToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiToken_tokenHash_key" ON "ApiToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "ApiToken_firmId_revokedAt_idx" ON "ApiToken"("firmId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "ApiToken_userId_idx" ON "ApiToken"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ApiToken" ADD CONSTRAINT "ApiToken_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApiToken" ADD CONSTRAINT "ApiToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
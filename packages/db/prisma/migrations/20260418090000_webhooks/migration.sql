@@ -0,0 +1,69 @@
+-- Outbound webhook endpoints and their delivery queue
+-- CreateEnum
+CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('PENDING', 'DELIVERING', 'SUCCEEDED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'WEBHOOK_ENDPOINT_CREATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'WEBHOOK_ENDPOINT_UPDATED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'WEBHOOK_ENDPOINT_DELETED';
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'WEBHOOK_SECRET_ROTATED';
+
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE IF NOT EXISTS 'WEBHOOK_ENDPOINT';
+
+-- CreateTable
+CREATE TABLE "WebhookEndpoint" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "url" TEXT NOT NULL,
+    "description" TEXT,
+    "secretEncrypted" TEXT NOT NULL,
+    "events" TEXT[],
+    "exceptionMinimumSeverity" "CheckSeverity" NOT NULL DEFAULT 'CRITICAL',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebhookEndpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WebhookDelivery" (
+    "id" UUID NOT NULL,
+    "firmId" UUID NOT NULL,
+    "endpointId" UUID NOT NULL,
+    "auditEventId" UUID,
+    "event" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "WebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 8,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastAttemptAt" TIMESTAMP(3),
+    "responseStatus" INTEGER,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookEndpoint_firmId_enabled_idx" ON "WebhookEndpoint"("firmId", "enabled");
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_status_nextAttemptAt_idx" ON "WebhookDelivery"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_endpointId_createdAt_idx" ON "WebhookDelivery"("endpointId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "WebhookEndpoint" ADD CONSTRAINT "WebhookEndpoint_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_firmId_fkey" FOREIGN KEY ("firmId") REFERENCES "Firm"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_endpointId_fkey" FOREIGN KEY ("endpointId") REFERENCES "WebhookEndpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Creditor IBAN carried by SEPA pain.001 imports
+-- AlterTable
+ALTER TABLE "BankLine" ADD COLUMN "iban" TEXT;
@@ -0,0 +1,3 @@
+-- Employee identifier (PPSN or NINO) carried by payroll submission imports
+-- AlterTable
+ALTER TABLE "StatutoryLine" ADD COLUMN "employeeRef" TEXT;
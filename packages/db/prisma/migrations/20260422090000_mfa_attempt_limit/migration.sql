@@ -0,0 +1,7 @@
+-- Limit failed MFA challenge codes
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE IF NOT EXISTS 'MFA_FAILED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "mfaFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "mfaLockedUntil" TIMESTAMP(3);
@@ -15,6 +15,7 @@ export type SignedUrlParams = {
   key: string;
   expiresInSeconds?: number;
   contentType?: string;
+  contentDisposition?: string;
 };
 
 export const createS3Client = (config: StorageConfig): S3Client =>
@@ -52,7 +53,9 @@ export const getSignedDownloadUrl = async (
 ): Promise<string> => {
   const command = new GetObjectCommand({
     Bucket: bucket,
-    Key: params.key
+    Key: params.key,
+    ResponseContentType: params.contentType,
+    ResponseContentDisposition: params.contentDisposition
   });
 
   return getSignedUrl(client, command, {